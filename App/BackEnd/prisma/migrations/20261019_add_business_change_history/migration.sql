@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "business_change" (
+    "id" SERIAL NOT NULL,
+    "business_id" INTEGER NOT NULL,
+    "field" TEXT NOT NULL,
+    "old_value" TEXT,
+    "new_value" TEXT,
+    "changed_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "business_change_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "business_change_business_id_created_at_idx" ON "business_change"("business_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "business_change_changed_by_idx" ON "business_change"("changed_by");
+
+-- AddForeignKey
+ALTER TABLE "business_change" ADD CONSTRAINT "business_change_business_id_fkey" FOREIGN KEY ("business_id") REFERENCES "business"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_change" ADD CONSTRAINT "business_change_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "business_name_trgm_idx" ON "business" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "business_address_trgm_idx" ON "business" USING GIN ("address" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "business_website_trgm_idx" ON "business" USING GIN ("website" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "business_phone_trgm_idx" ON "business" USING GIN ("phone" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "contact_name_trgm_idx" ON "contact" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "contact_email_trgm_idx" ON "contact" USING GIN ("email" gin_trgm_ops);
+
+-- Full-text index used by BusinessRepository.searchRankedIds().
+-- Prisma can't express expression indexes, so this one only lives here;
+-- the expression must stay identical to the one in the repository query.
+CREATE INDEX "business_search_tsv_idx" ON "business" USING GIN (
+    to_tsvector('english', coalesce("name", '') || ' ' || coalesce("address", '') || ' ' || coalesce("website", ''))
+);
@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "contact_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "last_outreach_at" TIMESTAMP(3);
+
+-- Backfill
+UPDATE "business" b
+SET "contact_count" = (SELECT count(*) FROM "contact" c WHERE c."business_id" = b."id"),
+    "last_outreach_at" = (SELECT max(m."sent_at") FROM "outreach_message" m WHERE m."business_id" = b."id");
+
+-- CreateIndex
+CREATE INDEX "business_created_at_id_idx" ON "business"("created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "business_updated_at_id_idx" ON "business"("updated_at", "id");
+
+-- CreateIndex
+CREATE INDEX "business_name_id_idx" ON "business"("name", "id");
+
+-- CreateIndex
+CREATE INDEX "business_contact_count_id_idx" ON "business"("contact_count", "id");
+
+-- CreateIndex
+CREATE INDEX "business_last_outreach_at_id_idx" ON "business"("last_outreach_at", "id");
+
+-- Keep business.contact_count in sync with contact rows.
+-- Contacts are written from enrichment, CSV import and scraping, so this is
+-- maintained in the database rather than in each writer.
+CREATE OR REPLACE FUNCTION "business_refresh_contact_count"() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE "business"
+        SET "contact_count" = (SELECT count(*) FROM "contact" WHERE "business_id" = NEW."business_id")
+        WHERE "id" = NEW."business_id";
+    END IF;
+    IF TG_OP IN ('DELETE', 'UPDATE') THEN
+        UPDATE "business"
+        SET "contact_count" = (SELECT count(*) FROM "contact" WHERE "business_id" = OLD."business_id")
+        WHERE "id" = OLD."business_id";
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "contact_refresh_business_contact_count"
+AFTER INSERT OR DELETE OR UPDATE OF "business_id" ON "contact"
+FOR EACH ROW EXECUTE FUNCTION "business_refresh_contact_count"();
+
+-- Keep business.last_outreach_at in sync with sent outreach messages.
+CREATE OR REPLACE FUNCTION "business_refresh_last_outreach_at"() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE "business"
+        SET "last_outreach_at" = (SELECT max("sent_at") FROM "outreach_message" WHERE "business_id" = NEW."business_id")
+        WHERE "id" = NEW."business_id";
+    END IF;
+    IF TG_OP IN ('DELETE', 'UPDATE') THEN
+        UPDATE "business"
+        SET "last_outreach_at" = (SELECT max("sent_at") FROM "outreach_message" WHERE "business_id" = OLD."business_id")
+        WHERE "id" = OLD."business_id";
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "outreach_message_refresh_business_last_outreach_at"
+AFTER INSERT OR DELETE OR UPDATE OF "sent_at", "business_id" ON "outreach_message"
+FOR EACH ROW EXECUTE FUNCTION "business_refresh_last_outreach_at"();
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "business_duplicate" (
+    "id" SERIAL NOT NULL,
+    "business_id" INTEGER NOT NULL,
+    "duplicate_id" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "signals" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "resolved_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "business_duplicate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "business_duplicate_business_id_duplicate_id_key" ON "business_duplicate"("business_id", "duplicate_id");
+
+-- CreateIndex
+CREATE INDEX "business_duplicate_duplicate_id_idx" ON "business_duplicate"("duplicate_id");
+
+-- CreateIndex
+CREATE INDEX "business_duplicate_status_score_idx" ON "business_duplicate"("status", "score");
+
+-- Candidate lookup by phone digits (expression index, not expressible in Prisma schema)
+CREATE INDEX "business_phone_digits_idx" ON "business" (regexp_replace(coalesce("phone", ''), '\D', '', 'g'));
+
+-- AddForeignKey
+ALTER TABLE "business_duplicate" ADD CONSTRAINT "business_duplicate_business_id_fkey" FOREIGN KEY ("business_id") REFERENCES "business"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_duplicate" ADD CONSTRAINT "business_duplicate_duplicate_id_fkey" FOREIGN KEY ("duplicate_id") REFERENCES "business"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_duplicate" ADD CONSTRAINT "business_duplicate_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "PipelineStage" AS ENUM ('prospect', 'contacted', 'visited_meeting', 'applied', 'member', 'lost');
+
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "pipeline_stage" "PipelineStage" NOT NULL DEFAULT 'prospect',
+ADD COLUMN "stage_changed_at" TIMESTAMP(3),
+ADD COLUMN "assigned_to" TEXT;
+
+-- CreateTable
+CREATE TABLE "business_stage_transition" (
+    "id" SERIAL NOT NULL,
+    "business_id" INTEGER NOT NULL,
+    "from_stage" "PipelineStage" NOT NULL,
+    "to_stage" "PipelineStage" NOT NULL,
+    "note" TEXT,
+    "changed_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "business_stage_transition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "business_pipeline_stage_idx" ON "business"("pipeline_stage");
+
+-- CreateIndex
+CREATE INDEX "business_assigned_to_idx" ON "business"("assigned_to");
+
+-- CreateIndex
+CREATE INDEX "business_stage_transition_business_id_created_at_idx" ON "business_stage_transition"("business_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "business_stage_transition_to_stage_created_at_idx" ON "business_stage_transition"("to_stage", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "business" ADD CONSTRAINT "business_assigned_to_fkey" FOREIGN KEY ("assigned_to") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_stage_transition" ADD CONSTRAINT "business_stage_transition_business_id_fkey" FOREIGN KEY ("business_id") REFERENCES "business"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_stage_transition" ADD CONSTRAINT "business_stage_transition_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
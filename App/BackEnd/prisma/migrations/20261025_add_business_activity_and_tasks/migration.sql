@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "business_activity" (
+    "id" SERIAL NOT NULL,
+    "business_id" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "body" TEXT,
+    "metadata" JSONB,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "business_activity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "business_task" (
+    "id" SERIAL NOT NULL,
+    "business_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "due_at" TIMESTAMP(3) NOT NULL,
+    "assigned_to" TEXT NOT NULL,
+    "created_by" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "reminded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "business_task_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "business_activity_business_id_created_at_idx" ON "business_activity"("business_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "business_activity_created_by_idx" ON "business_activity"("created_by");
+
+-- CreateIndex
+CREATE INDEX "business_task_assigned_to_completed_at_due_at_idx" ON "business_task"("assigned_to", "completed_at", "due_at");
+
+-- CreateIndex
+CREATE INDEX "business_task_business_id_due_at_idx" ON "business_task"("business_id", "due_at");
+
+-- CreateIndex
+CREATE INDEX "business_task_created_by_idx" ON "business_task"("created_by");
+
+-- AddForeignKey
+ALTER TABLE "business_activity" ADD CONSTRAINT "business_activity_business_id_fkey" FOREIGN KEY ("business_id") REFERENCES "business"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_activity" ADD CONSTRAINT "business_activity_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_task" ADD CONSTRAINT "business_task_business_id_fkey" FOREIGN KEY ("business_id") REFERENCES "business"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_task" ADD CONSTRAINT "business_task_assigned_to_fkey" FOREIGN KEY ("assigned_to") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_task" ADD CONSTRAINT "business_task_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
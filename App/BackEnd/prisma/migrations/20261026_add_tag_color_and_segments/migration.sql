@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "tag" ADD COLUMN "color" TEXT;
+
+-- CreateTable
+CREATE TABLE "segment" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "filter" JSONB NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "segment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "segment_name_key" ON "segment"("name");
+
+-- CreateIndex
+CREATE INDEX "segment_created_by_idx" ON "segment"("created_by");
+
+-- AddForeignKey
+ALTER TABLE "segment" ADD CONSTRAINT "segment_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
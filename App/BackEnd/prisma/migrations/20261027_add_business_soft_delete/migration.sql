@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "deleted_at" TIMESTAMP(3),
+ADD COLUMN "deleted_by" TEXT;
+
+-- CreateIndex
+CREATE INDEX "business_deleted_at_idx" ON "business"("deleted_at");
+
+-- AddForeignKey
+ALTER TABLE "business" ADD CONSTRAINT "business_deleted_by_fkey" FOREIGN KEY ("deleted_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
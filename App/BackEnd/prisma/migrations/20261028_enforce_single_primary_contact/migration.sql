@@ -0,0 +1,14 @@
+-- Keep only the oldest primary contact of each business.
+UPDATE "contact" c
+SET "is_primary" = false
+WHERE c."is_primary"
+  AND EXISTS (
+    SELECT 1 FROM "contact" p
+    WHERE p."business_id" = c."business_id"
+      AND p."is_primary"
+      AND p."id" < c."id"
+  );
+
+-- At most one primary contact per business. Partial indexes can't be
+-- declared in schema.prisma, so this one only lives in the migration.
+CREATE UNIQUE INDEX "contact_business_id_primary_key" ON "contact"("business_id") WHERE "is_primary";
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "email" TEXT,
+ADD COLUMN "google_place_id" TEXT,
+ADD COLUMN "rating" DOUBLE PRECISION,
+ADD COLUMN "review_count" INTEGER,
+ADD COLUMN "price_level" TEXT,
+ADD COLUMN "permanently_closed" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "additional_categories" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "raw_data" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "business_google_place_id_key" ON "business"("google_place_id");
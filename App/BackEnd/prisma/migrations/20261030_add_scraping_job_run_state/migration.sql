@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "scraping_job" ADD COLUMN "provider" TEXT,
+ADD COLUMN "search_query" TEXT,
+ADD COLUMN "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "scraping_job" ADD COLUMN "schedule_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "scrape_schedule" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "radius" DOUBLE PRECISION NOT NULL,
+    "business_type" TEXT,
+    "max_results" INTEGER NOT NULL,
+    "cron" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "last_run_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scrape_schedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scraping_job_schedule_id_idx" ON "scraping_job"("schedule_id");
+
+-- CreateIndex
+CREATE INDEX "scrape_schedule_created_by_idx" ON "scrape_schedule"("created_by");
+
+-- AddForeignKey
+ALTER TABLE "scraping_job" ADD CONSTRAINT "scraping_job_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "scrape_schedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scrape_schedule" ADD CONSTRAINT "scrape_schedule_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "territory_scrape" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "center_lat" DOUBLE PRECISION,
+    "center_lng" DOUBLE PRECISION,
+    "radius" DOUBLE PRECISION,
+    "polygon" JSONB,
+    "cell_size" DOUBLE PRECISION NOT NULL,
+    "categories" TEXT[],
+    "max_results_per_cell" INTEGER NOT NULL,
+    "include_closed" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "territory_scrape_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "territory_scrape_cell" (
+    "id" SERIAL NOT NULL,
+    "territory_id" INTEGER NOT NULL,
+    "cell_index" INTEGER NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "category" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "run_id" TEXT,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "territory_scrape_cell_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "territory_scrape_created_by_idx" ON "territory_scrape"("created_by");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "territory_scrape_cell_run_id_key" ON "territory_scrape_cell"("run_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "territory_scrape_cell_territory_id_cell_index_category_key" ON "territory_scrape_cell"("territory_id", "cell_index", "category");
+
+-- AddForeignKey
+ALTER TABLE "territory_scrape" ADD CONSTRAINT "territory_scrape_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "territory_scrape_cell" ADD CONSTRAINT "territory_scrape_cell_territory_id_fkey" FOREIGN KEY ("territory_id") REFERENCES "territory_scrape"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "territory_scrape_cell" ADD CONSTRAINT "territory_scrape_cell_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "scraping_job"("job_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "chapter_member" (
+    "id" SERIAL NOT NULL,
+    "category" TEXT NOT NULL,
+    "category_key" TEXT NOT NULL,
+    "match_categories" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "business_name" TEXT NOT NULL,
+    "member_name" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "business_id" INTEGER,
+    "joined_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chapter_member_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapter_member_category_key_key" ON "chapter_member"("category_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapter_member_business_id_key" ON "chapter_member"("business_id");
+
+-- AddForeignKey
+ALTER TABLE "chapter_member" ADD CONSTRAINT "chapter_member_business_id_fkey" FOREIGN KEY ("business_id") REFERENCES "business"("id") ON DELETE SET NULL ON UPDATE CASCADE;
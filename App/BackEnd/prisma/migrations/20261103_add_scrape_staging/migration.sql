@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "scraping_job" ADD COLUMN "staged" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "scrape_staged_result" (
+    "id" SERIAL NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "google_place_id" TEXT,
+    "data" JSONB NOT NULL,
+    "duplicate_of" INTEGER,
+    "duplicate_kind" TEXT,
+    "duplicate_score" DOUBLE PRECISION,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "business_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scrape_staged_result_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scrape_staged_result_run_id_status_idx" ON "scrape_staged_result"("run_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "scrape_staged_result" ADD CONSTRAINT "scrape_staged_result_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "scraping_job"("job_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scrape_staged_result" ADD CONSTRAINT "scrape_staged_result_duplicate_of_fkey" FOREIGN KEY ("duplicate_of") REFERENCES "business"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scrape_staged_result" ADD CONSTRAINT "scrape_staged_result_business_id_fkey" FOREIGN KEY ("business_id") REFERENCES "business"("id") ON DELETE SET NULL ON UPDATE CASCADE;
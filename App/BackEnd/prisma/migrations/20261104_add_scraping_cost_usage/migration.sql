@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "scraping_job" ADD COLUMN "estimated_cost" DOUBLE PRECISION,
+ADD COLUMN "actual_cost" DOUBLE PRECISION,
+ADD COLUMN "compute_units" DOUBLE PRECISION,
+ADD COLUMN "dataset_items" INTEGER;
+
+-- Costs recorded so far were estimates
+UPDATE "scraping_job" SET "estimated_cost" = "apify_cost" WHERE "completed_at" IS NOT NULL;
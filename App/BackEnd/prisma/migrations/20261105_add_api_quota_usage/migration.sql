@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "api_quota_usage" (
+    "id" SERIAL NOT NULL,
+    "service" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "calls" INTEGER NOT NULL DEFAULT 0,
+    "reported_remaining" INTEGER,
+    "calls_at_report" INTEGER,
+    "reported_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_quota_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_quota_usage_service_period_key" ON "api_quota_usage"("service", "period");
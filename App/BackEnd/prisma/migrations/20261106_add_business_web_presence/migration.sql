@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "facebook_url" TEXT,
+ADD COLUMN "instagram_url" TEXT,
+ADD COLUMN "linkedin_url" TEXT,
+ADD COLUMN "opening_hours" TEXT;
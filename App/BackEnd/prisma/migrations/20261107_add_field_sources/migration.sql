@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "field_sources" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "contact" ADD COLUMN "field_sources" JSONB NOT NULL DEFAULT '{}';
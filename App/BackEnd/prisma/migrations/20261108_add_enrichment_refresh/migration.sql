@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "emails_enriched_at" TIMESTAMP(3),
+ADD COLUMN "company_enriched_at" TIMESTAMP(3);
+
+-- Businesses enriched before refreshes were tracked count as refreshed at
+-- their last enrichment attempt
+UPDATE "business" AS b
+SET "emails_enriched_at" = l."last_attempt",
+    "company_enriched_at" = l."last_attempt"
+FROM (
+    SELECT "business_id", MAX("created_at") AS "last_attempt"
+    FROM "enrichment_log"
+    GROUP BY "business_id"
+) AS l
+WHERE l."business_id" = b."id"
+  AND b."enrichment_status" IN ('enriched', 'failed');
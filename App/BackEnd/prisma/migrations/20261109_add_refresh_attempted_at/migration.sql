@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "business" ADD COLUMN "refresh_attempted_at" TIMESTAMP(3);
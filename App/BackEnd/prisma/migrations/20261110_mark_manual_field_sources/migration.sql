@@ -0,0 +1,71 @@
+-- Edits made before field_sources existed have no recorded source, and
+-- enrichment replaces values without one. Mark them as manual so they keep
+-- their protection; sources already recorded are left as they are.
+
+-- Business fields a member changed, per business_change, at their last edit
+UPDATE "business" AS b
+SET "field_sources" = m."sources" || b."field_sources"
+FROM (
+    SELECT e."business_id",
+           jsonb_object_agg(
+               e."field",
+               jsonb_build_object(
+                   'source', 'manual',
+                   'confidence', NULL,
+                   'updated_at', to_char(e."edited_at", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+               )
+           ) AS "sources"
+    FROM (
+        SELECT "business_id", "field", MAX("created_at") AS "edited_at"
+        FROM "business_change"
+        WHERE "changed_by" IS NOT NULL
+          -- Skip history-only entries such as merged_from
+          AND "field" IN (
+              SELECT "column_name"
+              FROM information_schema.columns
+              WHERE "table_schema" = current_schema()
+                AND "table_name" = 'business'
+          )
+        GROUP BY "business_id", "field"
+    ) AS e
+    GROUP BY e."business_id"
+) AS m
+WHERE m."business_id" = b."id";
+
+-- Contacts a member created or edited: every contact except those an
+-- enrichment created (its success log follows within a minute) and nobody
+-- changed since. A false email_verified only means "not checked", so it
+-- stays open to the verifier.
+UPDATE "contact" AS c
+SET "field_sources" = (
+    SELECT COALESCE(
+        jsonb_object_agg(
+            f."field",
+            jsonb_build_object(
+                'source', 'manual',
+                'confidence', NULL,
+                'updated_at', to_char(c."updated_at", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+            )
+        ),
+        '{}'::jsonb
+    )
+    FROM (
+        VALUES ('name', c."name" IS NOT NULL),
+               ('title', c."title" IS NOT NULL),
+               ('email', c."email" IS NOT NULL),
+               ('email_verified', c."email_verified" IS TRUE),
+               ('phone', c."phone" IS NOT NULL),
+               ('linkedin_url', c."linkedin_url" IS NOT NULL)
+    ) AS f("field", "present")
+    WHERE f."present"
+) || c."field_sources"
+WHERE NOT (
+    c."updated_at" <= c."created_at" + INTERVAL '1 minute'
+    AND EXISTS (
+        SELECT 1
+        FROM "enrichment_log" AS l
+        WHERE l."business_id" = c."business_id"
+          AND l."status" = 'success'
+          AND l."created_at" BETWEEN c."created_at" AND c."created_at" + INTERVAL '1 minute'
+    )
+);
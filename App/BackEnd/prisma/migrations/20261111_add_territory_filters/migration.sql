@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "territory_scrape" ADD COLUMN "filters" JSONB NOT NULL DEFAULT '{}';
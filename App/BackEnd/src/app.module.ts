@@ -10,11 +10,15 @@ import { PrismaModule } from './prisma/prisma.module';
 import { CachingModule } from './caching/caching.module';
 import { AuthModule, JwtAuthGuard, RolesGuard } from './features/auth';
 import { BusinessManagementModule } from './features/business-management';
+import { LeadActivityModule } from './features/lead-activity';
+import { LeadContactsModule } from './features/lead-contacts';
+import { LeadSegmentsModule } from './features/lead-segments';
 import { MapScrapingModule } from './features/map-scraping';
 import { LeadEnrichmentModule } from './features/lead-enrichment';
 import { OutreachCampaignsModule } from './features/outreach-campaigns';
 import { JobQueueModule } from './features/job-queue';
 import { AnalyticsModule } from './features/analytics';
+import { ChapterRosterModule } from './features/chapter-roster';
 import { EmailModule } from './features/email';
 import { WebsocketModule } from './websocket/websocket.module';
 import { AdminModule } from './features/admin/admin.module';
@@ -56,10 +60,14 @@ function getDashboardPath(): string {
     AuthModule, // Authentication & authorization (must be before feature modules)
     JobQueueModule, // BullMQ job queues (DB 1)
     BusinessManagementModule,
+    LeadActivityModule, // Notes, activity timeline and follow-up tasks
+    LeadContactsModule, // Contact CRUD and primary contact
+    LeadSegmentsModule, // Tags and saved segments
     MapScrapingModule,
     LeadEnrichmentModule,
     OutreachCampaignsModule,
     AnalyticsModule,
+    ChapterRosterModule, // Chapter roster and category-gap analysis
     EmailModule, // SendGrid email integration
     WebsocketModule,
     AdminModule,
@@ -34,13 +34,22 @@ export function getBusinessCacheKey(businessId: number): string {
   return `business:${businessId}`;
 }
 
+/**
+ * Query keys whose values must keep their case in list cache keys.
+ * Cursors are base64url encoded, so lowercasing would collide distinct pages.
+ */
+const CASE_SENSITIVE_LIST_KEYS: ReadonlySet<string> = new Set(['cursor']);
+
 /**
  * Generate cache key for business list with filters.
  *
  * Normalizes query parameters to ensure consistent cache keys:
  * - Sorts keys alphabetically
  * - Filters out undefined/null values
- * - Converts to lowercase
+ * - Converts to lowercase (except opaque values such as `cursor`)
+ *
+ * Sort fields (`sortBy`, `sortOrder`) and `cursor` are part of the key, so
+ * each sort and each cursor page is cached separately.
  *
  * @param query - Query parameters object
  * @returns 'businesses:list:{normalized-query}'
@@ -57,7 +66,14 @@ export function getBusinessListCacheKey(query: Record<string, any>): string {
   const normalizedQuery = Object.keys(query || {})
     .filter((key) => query[key] !== undefined && query[key] !== null)
     .sort()
-    .map((key) => `${key}=${String(query[key]).toLowerCase()}`)
+    .map((key) => {
+      // Multi-value filters (e.g. tag_ids) are order-insensitive
+      const raw: unknown = query[key];
+      const value = Array.isArray(raw)
+        ? raw.map(String).sort().join(',')
+        : String(raw);
+      return `${key}=${CASE_SENSITIVE_LIST_KEYS.has(key) ? value : value.toLowerCase()}`;
+    })
     .join('&');
 
   const queryPart = normalizedQuery || 'all';
@@ -18,6 +18,54 @@ interface SecretsFile {
   [serviceName: string]: ServiceSecrets;
 }
 
+/** Share of a monthly API quota kept for manual enrichment, in percent. */
+export const DEFAULT_ENRICHMENT_QUOTA_RESERVE_PERCENT = 10;
+
+/**
+ * Days before a refresh group of an enriched business is run again, when
+ * ENRICHMENT_REFRESH_<GROUP>_DAYS is unset or invalid.
+ */
+export const DEFAULT_ENRICHMENT_REFRESH_DAYS: Record<string, number> = {
+  emails: 90,
+  company: 365,
+};
+
+/** Days before a failed enrichment is retried, when unset or invalid. */
+export const DEFAULT_ENRICHMENT_RETRY_FAILED_DAYS = 7;
+
+/** Businesses refreshed per scheduled run, when unset or invalid. */
+export const DEFAULT_ENRICHMENT_REFRESH_BATCH_SIZE = 50;
+
+/** Retention used when BUSINESS_TRASH_RETENTION_DAYS is unset or invalid. */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export type ScrapingProviderName = 'apify' | 'fixture';
+
+/** Dataset replayed by the fixture provider when SCRAPING_FIXTURE_PATH is unset. */
+export const DEFAULT_SCRAPING_FIXTURE_PATH = 'test/fixtures/google-maps';
+
+/**
+ * Categories swept by a territory scrape when SCRAPING_TERRITORY_CATEGORIES
+ * is unset: trades and professions a chapter usually recruits from.
+ */
+export const DEFAULT_TERRITORY_CATEGORIES = [
+  'accountant',
+  'attorney',
+  'auto repair',
+  'chiropractor',
+  'dentist',
+  'electrician',
+  'financial advisor',
+  'florist',
+  'HVAC contractor',
+  'insurance agency',
+  'landscaper',
+  'mortgage broker',
+  'plumber',
+  'real estate agent',
+  'roofing contractor',
+];
+
 @Injectable()
 export class ConfigService {
   private readonly logger = new Logger(ConfigService.name);
@@ -110,7 +158,204 @@ export class ConfigService {
     return this.nestConfigService.get<string>('DATABASE_URL');
   }
 
+  /**
+   * Days a trashed business is kept before the nightly purge deletes it.
+   * Reads BUSINESS_TRASH_RETENTION_DAYS; invalid values fall back to 30.
+   */
+  getTrashRetentionDays(): number {
+    const days = parseInt(
+      this.nestConfigService.get<string>('BUSINESS_TRASH_RETENTION_DAYS', ''),
+      10,
+    );
+    return Number.isInteger(days) && days > 0
+      ? days
+      : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  /**
+   * Google Maps source selected by SCRAPING_PROVIDER ('apify' or 'fixture').
+   * Anything else falls back to Apify.
+   */
+  getScrapingProvider(): ScrapingProviderName {
+    const provider = this.nestConfigService
+      .get<string>('SCRAPING_PROVIDER', '')
+      .toLowerCase();
+    return provider === 'fixture' ? 'fixture' : 'apify';
+  }
+
+  /**
+   * File or directory of recorded datasets for the fixture provider,
+   * resolved against the working directory.
+   */
+  getScrapingFixturePath(): string {
+    return path.resolve(
+      this.nestConfigService.get<string>(
+        'SCRAPING_FIXTURE_PATH',
+        DEFAULT_SCRAPING_FIXTURE_PATH,
+      ),
+    );
+  }
+
+  /**
+   * Milliseconds a fixture run reports RUNNING before it succeeds (default 0).
+   */
+  getScrapingFixtureDelayMs(): number {
+    const delay = parseInt(
+      this.nestConfigService.get<string>('SCRAPING_FIXTURE_DELAY_MS', ''),
+      10,
+    );
+    return Number.isInteger(delay) && delay > 0 ? delay : 0;
+  }
+
+  /**
+   * Default category list of territory scrapes, from the comma-separated
+   * SCRAPING_TERRITORY_CATEGORIES.
+   */
+  getTerritoryCategories(): string[] {
+    const categories = this.nestConfigService
+      .get<string>('SCRAPING_TERRITORY_CATEGORIES', '')
+      .split(',')
+      .map((category) => category.trim())
+      .filter(Boolean);
+    return categories.length > 0 ? categories : DEFAULT_TERRITORY_CATEGORIES;
+  }
+
+  /**
+   * Chains left out of scrapes that don't list their own, from the
+   * comma-separated SCRAPING_EXCLUDED_CHAINS. Empty when unset.
+   */
+  getExcludedChains(): string[] {
+    return this.nestConfigService
+      .get<string>('SCRAPING_EXCLUDED_CHAINS', '')
+      .split(',')
+      .map((chain) => chain.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Enrichment providers tried for a field, in order, from the
+   * comma-separated ENRICHMENT_WATERFALL_<FIELD>, e.g.
+   * ENRICHMENT_WATERFALL_EMAIL_FINDER. Undefined when unset, so every
+   * provider of the field is tried in registration order.
+   */
+  getEnrichmentWaterfall(field: string): string[] | undefined {
+    const value = this.nestConfigService.get<string>(
+      `ENRICHMENT_WATERFALL_${field.toUpperCase()}`,
+    );
+    return value === undefined ? undefined : this.splitList(value);
+  }
+
+  /**
+   * Enrichment fields that try every provider instead of stopping at the
+   * first that fills them, from the comma-separated ENRICHMENT_COLLECT_ALL.
+   */
+  getEnrichmentCollectAllFields(): string[] {
+    return this.splitList(
+      this.nestConfigService.get<string>('ENRICHMENT_COLLECT_ALL', ''),
+    );
+  }
+
+  /**
+   * Enrichment providers never called, from the comma-separated
+   * ENRICHMENT_DISABLED_PROVIDERS. Empty when unset.
+   */
+  getDisabledEnrichmentProviders(): string[] {
+    return this.splitList(
+      this.nestConfigService.get<string>('ENRICHMENT_DISABLED_PROVIDERS', ''),
+    );
+  }
+
+  /**
+   * Percent of each monthly enrichment quota that queued jobs leave for
+   * manual enrichment. Reads ENRICHMENT_QUOTA_RESERVE_PERCENT (0-100);
+   * invalid values fall back to 10.
+   */
+  getEnrichmentQuotaReservePercent(): number {
+    const percent = parseFloat(
+      this.nestConfigService.get<string>(
+        'ENRICHMENT_QUOTA_RESERVE_PERCENT',
+        '',
+      ),
+    );
+    return percent >= 0 && percent <= 100
+      ? percent
+      : DEFAULT_ENRICHMENT_QUOTA_RESERVE_PERCENT;
+  }
+
+  /**
+   * Days before a refresh group ('emails' or 'company') of an enriched
+   * business is run again, from ENRICHMENT_REFRESH_<GROUP>_DAYS, e.g.
+   * ENRICHMENT_REFRESH_EMAILS_DAYS. Defaults to 90 for emails and 365 for
+   * company details.
+   */
+  getEnrichmentRefreshDays(group: string): number {
+    return this.positiveInt(
+      `ENRICHMENT_REFRESH_${group.toUpperCase()}_DAYS`,
+      DEFAULT_ENRICHMENT_REFRESH_DAYS[group] ?? 365,
+    );
+  }
+
+  /**
+   * Days a business whose enrichment failed waits before it is retried.
+   * Reads ENRICHMENT_RETRY_FAILED_DAYS; invalid values fall back to 7.
+   */
+  getEnrichmentRetryFailedDays(): number {
+    return this.positiveInt(
+      'ENRICHMENT_RETRY_FAILED_DAYS',
+      DEFAULT_ENRICHMENT_RETRY_FAILED_DAYS,
+    );
+  }
+
+  /**
+   * Businesses refreshed per scheduled run, from
+   * ENRICHMENT_REFRESH_BATCH_SIZE; invalid values fall back to 50.
+   */
+  getEnrichmentRefreshBatchSize(): number {
+    return this.positiveInt(
+      'ENRICHMENT_REFRESH_BATCH_SIZE',
+      DEFAULT_ENRICHMENT_REFRESH_BATCH_SIZE,
+    );
+  }
+
+  /**
+   * USD each provider may spend per scheduled refresh run, from the
+   * comma-separated provider:amount pairs of ENRICHMENT_REFRESH_COST_CAPS,
+   * e.g. "hunter:5,abstract:2.50". Providers without a cap are unlimited;
+   * malformed entries are ignored.
+   */
+  getEnrichmentRefreshCostCaps(): Record<string, number> {
+    const caps: Record<string, number> = {};
+
+    for (const entry of this.splitList(
+      this.nestConfigService.get<string>('ENRICHMENT_REFRESH_COST_CAPS', ''),
+    )) {
+      const [provider, amount] = entry.split(':').map((part) => part.trim());
+      const cap = parseFloat(amount);
+      if (provider && cap >= 0) {
+        caps[provider] = cap;
+      } else {
+        this.logger.warn(`Ignoring enrichment cost cap "${entry}"`);
+      }
+    }
+
+    return caps;
+  }
+
   getPort(): number {
     return parseInt(this.nestConfigService.get<string>('PORT', '3000'), 10);
   }
+
+  /** A positive integer setting, or the fallback when unset or invalid. */
+  private positiveInt(key: string, fallback: number): number {
+    const value = parseInt(this.nestConfigService.get<string>(key, ''), 10);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  }
+
+  /** Trimmed, non-empty entries of a comma-separated setting. */
+  private splitList(value: string): string[] {
+    return value
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+  }
 }
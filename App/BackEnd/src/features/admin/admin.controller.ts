@@ -9,6 +9,10 @@ import { Role } from '@prisma/client';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { ConfigService } from '../../config/config.service';
 import { RedisService } from '../../caching/redis.service';
+import {
+  EnrichmentService,
+  ProviderQuota,
+} from '../lead-enrichment/domain/enrichment.service';
 
 interface ApiServiceStatus {
   name: string;
@@ -20,6 +24,8 @@ interface ApiStatusResponse {
   redis: {
     connected: boolean;
   };
+  /** Monthly budget of each enrichment provider */
+  quotas: ProviderQuota[];
 }
 
 @ApiTags('Admin')
@@ -28,6 +34,7 @@ export class AdminController {
   constructor(
     private readonly configService: ConfigService,
     private readonly redisService: RedisService,
+    private readonly enrichmentService: EnrichmentService,
   ) {}
 
   @Get('api-status')
@@ -36,7 +43,7 @@ export class AdminController {
   @ApiOperation({
     summary: 'Get API service status',
     description:
-      'Returns configuration status of external API services and Redis connection. Admin only.',
+      'Returns configuration status of external API services, Redis connection and the remaining monthly quota of each enrichment provider. Admin only.',
   })
   @ApiResponse({
     status: 200,
@@ -58,6 +65,7 @@ export class AdminController {
     const sendgridKey = this.configService.getSendGridApiKey();
 
     const redisPing = await this.redisService.ping();
+    const quotas = await this.enrichmentService.getProviderQuotas();
 
     return {
       services: [
@@ -69,6 +77,7 @@ export class AdminController {
       redis: {
         connected: redisPing === 'PONG',
       },
+      quotas,
     };
   }
 }
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
 import { AdminController } from './admin.controller';
+import { LeadEnrichmentModule } from '../lead-enrichment/enrichment.module';
 
 @Module({
+  imports: [LeadEnrichmentModule],
   controllers: [AdminController],
 })
 export class AdminModule {}
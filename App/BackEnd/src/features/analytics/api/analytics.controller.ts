@@ -521,7 +521,7 @@ export class AnalyticsController {
    * Get conversion funnel metrics.
    *
    * Returns funnel data showing how businesses progress through stages:
-   * Scraped → Enriched → Contacted → Responded
+   * Prospect → Contacted → Visited Meeting → Applied → Member
    */
   @Get('funnel')
   @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
@@ -529,7 +529,7 @@ export class AnalyticsController {
   @ApiOperation({
     summary: 'Get conversion funnel metrics',
     description:
-      'Returns funnel data showing conversion rates through lead lifecycle stages. Supports multi-select filtering.',
+      'Returns funnel data showing conversion rates through lead pipeline stages. Supports multi-select filtering.',
   })
   @ApiQuery({
     name: 'cities',
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsArray, IsString, IsIn } from 'class-validator';
+import { IsOptional, IsArray, IsString, IsIn, IsInt } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { DateRangeDto } from './date-range.dto';
 
@@ -7,7 +7,7 @@ import { DateRangeDto } from './date-range.dto';
  * Multi-select filter parameters for analytics endpoints.
  *
  * Extends DateRangeDto to include city, industry, enrichment status,
- * and source filtering. All filters support multi-select via arrays.
+ * source and tag filtering. All filters support multi-select via arrays.
  *
  * Query format: ?cities[]=Freehold&cities[]=Manalapan&industries[]=plumbing
  */
@@ -68,4 +68,22 @@ export class AnalyticsFilterDto extends DateRangeDto {
     Array.isArray(value) ? value : [value].filter(Boolean),
   )
   sources?: string[];
+
+  @ApiProperty({
+    description:
+      'Filter by tag IDs (businesses with any of the tags). Accepts repeated ' +
+      'params or a comma-separated list',
+    type: [Number],
+    required: false,
+    example: [3, 7],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Transform(({ value }: { value: unknown }) =>
+    (Array.isArray(value) ? value : String(value).split(','))
+      .filter((id) => id !== '')
+      .map(Number),
+  )
+  tagIds?: number[];
 }
@@ -118,6 +118,47 @@ export class BudgetStatusDto {
   onTrack: boolean;
 }
 
+/**
+ * Estimated vs provider-reported cost of scraping runs.
+ */
+export class ScrapingCostReconciliationDto {
+  @ApiProperty({
+    description: 'Runs the provider reported a cost for',
+    example: 42,
+  })
+  reportedRuns: number;
+
+  @ApiProperty({
+    description: 'Estimated cost of the reported runs',
+    example: 21,
+  })
+  estimatedCost: number;
+
+  @ApiProperty({
+    description: 'Cost the provider reported for those runs',
+    example: 18.35,
+  })
+  actualCost: number;
+
+  @ApiProperty({
+    description: 'Actual minus estimated cost',
+    example: -2.65,
+  })
+  variance: number;
+
+  @ApiProperty({
+    description: 'Variance as a percentage of the estimate',
+    example: -12.6,
+  })
+  variancePercent: number;
+
+  @ApiProperty({
+    description: 'Finished runs recorded at their estimated cost',
+    example: 3,
+  })
+  estimateOnlyRuns: number;
+}
+
 /**
  * Response DTO for GET /api/analytics/cost-analysis.
  *
@@ -150,6 +191,12 @@ export class CostAnalysisDto {
   })
   budgetStatus?: BudgetStatusDto;
 
+  @ApiProperty({
+    description: 'Estimated vs provider-reported scraping cost',
+    type: ScrapingCostReconciliationDto,
+  })
+  scrapingReconciliation: ScrapingCostReconciliationDto;
+
   @ApiProperty({
     description: 'Average cost per lead',
     example: 0.47,
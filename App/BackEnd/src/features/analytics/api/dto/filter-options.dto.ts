@@ -17,6 +17,17 @@ export class DateRangeBoundsDto {
   latest: string;
 }
 
+/**
+ * Tag available as a filter value.
+ */
+export class TagOptionDto {
+  @ApiProperty({ description: 'Tag ID', example: 3 })
+  id: number;
+
+  @ApiProperty({ description: 'Tag name', example: 'contractor' })
+  name: string;
+}
+
 /**
  * Response DTO for GET /api/analytics/filter-options.
  *
@@ -52,6 +63,12 @@ export class FilterOptionsDto {
   })
   sources: string[];
 
+  @ApiProperty({
+    description: 'Available tags',
+    type: [TagOptionDto],
+  })
+  tags: TagOptionDto[];
+
   @ApiProperty({
     description: 'Date range boundaries of available data',
     type: DateRangeBoundsDto,
@@ -6,18 +6,18 @@ import { ApiProperty } from '@nestjs/swagger';
 export class FunnelStageDto {
   @ApiProperty({
     description: 'Name of the funnel stage',
-    example: 'Scraped',
+    example: 'Prospect',
   })
   stage: string;
 
   @ApiProperty({
-    description: 'Number of businesses at this stage',
+    description: 'Number of businesses that reached at least this stage',
     example: 1000,
   })
   count: number;
 
   @ApiProperty({
-    description: 'Conversion rate from first stage (percentage)',
+    description: 'Conversion rate from the previous stage (percentage)',
     example: 85.5,
   })
   conversionRate: number;
@@ -33,7 +33,7 @@ export class FunnelStageDto {
  * Response DTO for GET /api/analytics/funnel.
  *
  * Returns conversion funnel data showing how businesses
- * progress through the lead lifecycle stages.
+ * progress through the lead pipeline stages.
  */
 export class FunnelStatsDto {
   @ApiProperty({
@@ -53,4 +53,10 @@ export class FunnelStatsDto {
     example: 1000,
   })
   totalAtTop: number;
+
+  @ApiProperty({
+    description: 'Businesses currently marked as lost',
+    example: 120,
+  })
+  lost: number;
 }
@@ -1,8 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { PipelineStage, Prisma } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { AnalyticsFilterDto } from '../api/dto/analytics-filter.dto';
 
+/**
+ * Trashed (soft-deleted) businesses never count towards analytics. Every
+ * business query in this repository must include it.
+ */
+const NOT_DELETED = { deleted_at: null } satisfies Prisma.businessWhereInput;
+
 /**
  * Analytics data access layer following repository pattern.
  *
@@ -10,6 +16,7 @@ import { AnalyticsFilterDto } from '../api/dto/analytics-filter.dto';
  * - All direct Prisma database operations for analytics queries
  * - Aggregation queries (groupBy, count)
  * - Time series data generation
+ * - Excluding trashed businesses from every business query
  *
  * Does NOT:
  * - Handle caching (could be added in domain layer)
@@ -29,15 +36,16 @@ export class AnalyticsRepository {
   /**
    * Build Prisma where clause from analytics filter DTO.
    *
-   * Converts multi-select filter arrays to Prisma `in` clauses.
+   * Converts multi-select filter arrays to Prisma `in` clauses. Trashed
+   * businesses are always excluded.
    *
    * @param filters - Analytics filter parameters
    * @returns Prisma where input for business queries
    */
   buildFilterWhereClause(
-    filters: AnalyticsFilterDto,
+    filters: AnalyticsFilterDto = {},
   ): Prisma.businessWhereInput {
-    const where: Prisma.businessWhereInput = {};
+    const where: Prisma.businessWhereInput = { ...NOT_DELETED };
 
     if (filters.cities?.length) {
       where.city = { in: filters.cities };
@@ -55,6 +63,10 @@ export class AnalyticsRepository {
       where.source = { in: filters.sources };
     }
 
+    if (filters.tagIds?.length) {
+      where.tags = { some: { tag_id: { in: filters.tagIds } } };
+    }
+
     if (filters.startDate || filters.endDate) {
       where.created_at = {
         ...(filters.startDate && { gte: new Date(filters.startDate) }),
@@ -75,15 +87,16 @@ export class AnalyticsRepository {
     industries: string[];
     enrichmentStatuses: string[];
     sources: string[];
+    tags: Array<{ id: number; name: string }>;
     dateRange: { earliest: string; latest: string };
     totalRecords: number;
   }> {
-    const [cities, industries, sources, dateRange, totalRecords] =
+    const [cities, industries, sources, tags, dateRange, totalRecords] =
       await Promise.all([
         // Get unique cities
         this.prisma.business
           .findMany({
-            where: { city: { not: null } },
+            where: { ...NOT_DELETED, city: { not: null } },
             select: { city: true },
             distinct: ['city'],
             orderBy: { city: 'asc' },
@@ -95,7 +108,7 @@ export class AnalyticsRepository {
         // Get unique industries
         this.prisma.business
           .findMany({
-            where: { industry: { not: null } },
+            where: { ...NOT_DELETED, industry: { not: null } },
             select: { industry: true },
             distinct: ['industry'],
             orderBy: { industry: 'asc' },
@@ -109,20 +122,28 @@ export class AnalyticsRepository {
         // Get unique sources
         this.prisma.business
           .findMany({
+            where: NOT_DELETED,
             select: { source: true },
             distinct: ['source'],
             orderBy: { source: 'asc' },
           })
           .then((results) => results.map((r) => r.source)),
 
+        // Get tags
+        this.prisma.tag.findMany({
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        }),
+
         // Get date range
         this.prisma.business.aggregate({
+          where: NOT_DELETED,
           _min: { created_at: true },
           _max: { created_at: true },
         }),
 
         // Get total count
-        this.prisma.business.count(),
+        this.prisma.business.count({ where: NOT_DELETED }),
       ]);
 
     return {
@@ -130,6 +151,7 @@ export class AnalyticsRepository {
       industries,
       enrichmentStatuses: ['pending', 'enriched', 'failed'],
       sources,
+      tags,
       dateRange: {
         earliest:
           dateRange._min.created_at?.toISOString().split('T')[0] || '',
@@ -150,7 +172,7 @@ export class AnalyticsRepository {
   ): Promise<Array<{ city: string | null; _count: { id: number } }>> {
     const where: Prisma.businessWhereInput = {
       city: { not: null },
-      ...(filters ? this.buildFilterWhereClause(filters) : {}),
+      ...this.buildFilterWhereClause(filters),
     };
 
     const results = await this.prisma.business.groupBy({
@@ -176,9 +198,8 @@ export class AnalyticsRepository {
   async getFilteredSourceStats(
     filters?: AnalyticsFilterDto,
   ): Promise<Array<{ source: string; _count: { id: number } }>> {
-    const where: Prisma.businessWhereInput = filters
-      ? this.buildFilterWhereClause(filters)
-      : {};
+    const where: Prisma.businessWhereInput =
+      this.buildFilterWhereClause(filters);
 
     const results = await this.prisma.business.groupBy({
       by: ['source'],
@@ -200,9 +221,8 @@ export class AnalyticsRepository {
   async getFilteredPipelineStats(
     filters?: AnalyticsFilterDto,
   ): Promise<Array<{ enrichment_status: string; _count: { id: number } }>> {
-    const where: Prisma.businessWhereInput = filters
-      ? this.buildFilterWhereClause(filters)
-      : {};
+    const where: Prisma.businessWhereInput =
+      this.buildFilterWhereClause(filters);
 
     const results = await this.prisma.business.groupBy({
       by: ['enrichment_status'],
@@ -217,6 +237,58 @@ export class AnalyticsRepository {
     return results;
   }
 
+  /**
+   * Get businesses grouped by pipeline stage with optional filters.
+   *
+   * @param filters - Optional analytics filters
+   * @returns Array of pipeline stage counts
+   */
+  async getFilteredStageCounts(
+    filters?: AnalyticsFilterDto,
+  ): Promise<Array<{ pipeline_stage: PipelineStage; _count: { id: number } }>> {
+    const where: Prisma.businessWhereInput =
+      this.buildFilterWhereClause(filters);
+
+    const results = await this.prisma.business.groupBy({
+      by: ['pipeline_stage'],
+      _count: { id: true },
+      where,
+      orderBy: { pipeline_stage: 'asc' },
+    });
+
+    return results;
+  }
+
+  /**
+   * Get the stage each lost business was lost from.
+   *
+   * Uses the most recent transition into 'lost'; businesses marked lost
+   * without a recorded transition are returned with a null stage.
+   *
+   * @param filters - Optional analytics filters
+   * @returns Stage before the loss, one entry per lost business
+   */
+  async getFilteredLostFromStages(
+    filters?: AnalyticsFilterDto,
+  ): Promise<Array<PipelineStage | null>> {
+    const where: Prisma.businessWhereInput =
+      this.buildFilterWhereClause(filters);
+
+    const lost = await this.prisma.business.findMany({
+      where: { ...where, pipeline_stage: PipelineStage.lost },
+      select: {
+        stage_transitions: {
+          where: { to_stage: PipelineStage.lost },
+          orderBy: { created_at: 'desc' },
+          take: 1,
+          select: { from_stage: true },
+        },
+      },
+    });
+
+    return lost.map((b) => b.stage_transitions[0]?.from_stage ?? null);
+  }
+
   /**
    * Get total count of businesses with optional filters.
    *
@@ -226,9 +298,8 @@ export class AnalyticsRepository {
   async getFilteredTotalBusinesses(
     filters?: AnalyticsFilterDto,
   ): Promise<number> {
-    const where: Prisma.businessWhereInput = filters
-      ? this.buildFilterWhereClause(filters)
-      : {};
+    const where: Prisma.businessWhereInput =
+      this.buildFilterWhereClause(filters);
 
     return this.prisma.business.count({ where });
   }
@@ -242,9 +313,8 @@ export class AnalyticsRepository {
   async getFilteredEnrichedCount(
     filters?: AnalyticsFilterDto,
   ): Promise<number> {
-    const baseWhere: Prisma.businessWhereInput = filters
-      ? this.buildFilterWhereClause(filters)
-      : {};
+    const baseWhere: Prisma.businessWhereInput =
+      this.buildFilterWhereClause(filters);
 
     return this.prisma.business.count({
       where: {
@@ -263,9 +333,8 @@ export class AnalyticsRepository {
   async getFilteredTotalWithCity(
     filters?: AnalyticsFilterDto,
   ): Promise<number> {
-    const baseWhere: Prisma.businessWhereInput = filters
-      ? this.buildFilterWhereClause(filters)
-      : {};
+    const baseWhere: Prisma.businessWhereInput =
+      this.buildFilterWhereClause(filters);
 
     return this.prisma.business.count({
       where: {
@@ -293,6 +362,7 @@ export class AnalyticsRepository {
         id: true,
       },
       where: {
+        ...NOT_DELETED,
         city: {
           not: null,
         },
@@ -317,6 +387,7 @@ export class AnalyticsRepository {
   async getTotalWithCity(): Promise<number> {
     return this.prisma.business.count({
       where: {
+        ...NOT_DELETED,
         city: {
           not: null,
         },
@@ -337,6 +408,7 @@ export class AnalyticsRepository {
       _count: {
         id: true,
       },
+      where: NOT_DELETED,
       orderBy: {
         _count: {
           id: 'desc',
@@ -354,7 +426,7 @@ export class AnalyticsRepository {
    * @returns Total count
    */
   async getTotalBusinesses(): Promise<number> {
-    return this.prisma.business.count();
+    return this.prisma.business.count({ where: NOT_DELETED });
   }
 
   /**
@@ -370,6 +442,7 @@ export class AnalyticsRepository {
       _count: {
         id: true,
       },
+      where: NOT_DELETED,
       orderBy: {
         _count: {
           id: 'desc',
@@ -394,6 +467,7 @@ export class AnalyticsRepository {
   ): Promise<number> {
     return this.prisma.business.count({
       where: {
+        ...NOT_DELETED,
         created_at: {
           gte: startDate,
           lt: endDate,
@@ -415,6 +489,7 @@ export class AnalyticsRepository {
   ): Promise<number> {
     return this.prisma.business.count({
       where: {
+        ...NOT_DELETED,
         created_at: {
           gte: startDate,
           lt: endDate,
@@ -450,6 +525,7 @@ export class AnalyticsRepository {
 
     return this.prisma.business.findMany({
       where: {
+        ...NOT_DELETED,
         created_at: {
           gte: startDate,
         },
@@ -585,6 +661,53 @@ export class AnalyticsRepository {
     });
   }
 
+  /**
+   * Estimated vs provider-reported cost of finished scraping runs.
+   *
+   * Only runs the provider reported a cost for are reconciled; runs recorded
+   * at their estimate are counted separately.
+   *
+   * @param startDate - Start of range
+   * @param endDate - End of range
+   * @returns Reconciled totals and the number of estimate-only runs
+   */
+  async getScrapingCostReconciliation(
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<{
+    reportedRuns: number;
+    estimatedCost: number;
+    actualCost: number;
+    estimateOnlyRuns: number;
+  }> {
+    const createdAt = {
+      ...(startDate && { gte: startDate }),
+      ...(endDate && { lt: endDate }),
+    };
+
+    const [reported, estimateOnlyRuns] = await Promise.all([
+      this.prisma.scraping_job.aggregate({
+        _count: { id: true },
+        _sum: { estimated_cost: true, actual_cost: true },
+        where: { created_at: createdAt, actual_cost: { not: null } },
+      }),
+      this.prisma.scraping_job.count({
+        where: {
+          created_at: createdAt,
+          completed_at: { not: null },
+          actual_cost: null,
+        },
+      }),
+    ]);
+
+    return {
+      reportedRuns: reported._count.id,
+      estimatedCost: reported._sum.estimated_cost || 0,
+      actualCost: reported._sum.actual_cost || 0,
+      estimateOnlyRuns,
+    };
+  }
+
   /**
    * Get scraping job statistics for date range.
    *
@@ -699,6 +822,7 @@ export class AnalyticsRepository {
     // Get enriched businesses grouped by date
     const enrichedBusinesses = await this.prisma.business.findMany({
       where: {
+        ...NOT_DELETED,
         updated_at: {
           gte: startDate,
           lt: endDate,
@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { PipelineStage } from '@prisma/client';
 import { AnalyticsRepository } from '../data/analytics.repository';
 import {
   LocationStatsDto,
@@ -31,7 +32,25 @@ import { FunnelStatsDto, FunnelStageDto } from '../api/dto/funnel-stats.dto';
 import { HeatmapStatsDto, HeatmapDataPointDto } from '../api/dto/heatmap-stats.dto';
 import { ComparisonStatsDto, ComparisonSegmentDto } from '../api/dto/comparison-stats.dto';
 import { TopPerformersDto, TopPerformerDto } from '../api/dto/top-performers.dto';
-import { CostAnalysisDto, CostBreakdownItemDto, CostTimeSeriesDto, BudgetStatusDto } from '../api/dto/cost-analysis.dto';
+import {
+  CostAnalysisDto,
+  CostBreakdownItemDto,
+  CostTimeSeriesDto,
+  BudgetStatusDto,
+  ScrapingCostReconciliationDto,
+} from '../api/dto/cost-analysis.dto';
+
+/**
+ * Funnel stages in pipeline order. 'lost' is not a funnel stage; lost
+ * businesses are attributed to the stage they were lost from.
+ */
+const FUNNEL_STAGES: Array<{ key: PipelineStage; label: string }> = [
+  { key: PipelineStage.prospect, label: 'Prospect' },
+  { key: PipelineStage.contacted, label: 'Contacted' },
+  { key: PipelineStage.visited_meeting, label: 'Visited Meeting' },
+  { key: PipelineStage.applied, label: 'Applied' },
+  { key: PipelineStage.member, label: 'Member' },
+];
 
 /**
  * Analytics domain service - orchestrates analytics operations.
@@ -104,6 +123,7 @@ export class AnalyticsService {
         industries: rawOptions.industries,
         enrichmentStatuses: rawOptions.enrichmentStatuses,
         sources: rawOptions.sources,
+        tags: rawOptions.tags,
         dateRange: rawOptions.dateRange,
         totalRecords: rawOptions.totalRecords,
       };
@@ -855,11 +875,15 @@ export class AnalyticsService {
   /**
    * Get conversion funnel metrics.
    *
-   * Returns funnel data showing how businesses progress through stages:
-   * 1. Scraped (all businesses from Google Maps)
-   * 2. Enriched (businesses with enrichment_status = 'enriched')
-   * 3. Contacted (businesses with outreach messages sent)
-   * 4. Responded (businesses with response recorded)
+   * Returns funnel data from the lead pipeline stages:
+   * 1. Prospect (all businesses)
+   * 2. Contacted
+   * 3. Visited Meeting
+   * 4. Applied
+   * 5. Member
+   *
+   * Each stage counts businesses that reached at least that stage. Lost
+   * businesses count towards every stage up to the one they were lost from.
    *
    * Supports multi-select filtering.
    *
@@ -868,71 +892,58 @@ export class AnalyticsService {
    */
   async getFunnelStats(filters?: AnalyticsFilterDto): Promise<FunnelStatsDto> {
     try {
-      const [totalBusinesses, pipelineStats] = await Promise.all([
+      const [totalBusinesses, stageCounts, lostFrom] = await Promise.all([
         this.repository.getFilteredTotalBusinesses(filters),
-        this.repository.getFilteredPipelineStats(filters),
+        this.repository.getFilteredStageCounts(filters),
+        this.repository.getFilteredLostFromStages(filters),
       ]);
 
-      // Calculate funnel stages
-      const enrichedCount = pipelineStats.find(
-        (s) => s.enrichment_status === 'enriched',
-      )?._count.id || 0;
-      const pendingCount = pipelineStats.find(
-        (s) => s.enrichment_status === 'pending',
-      )?._count.id || 0;
-      const failedCount = pipelineStats.find(
-        (s) => s.enrichment_status === 'failed',
-      )?._count.id || 0;
-
-      // TODO: Add contacted and responded counts when outreach tracking is implemented
-      const contactedCount = 0;
-      const respondedCount = 0;
-
-      const stages: FunnelStageDto[] = [
-        {
-          stage: 'Scraped',
-          count: totalBusinesses,
-          conversionRate: 100,
-          dropOff: 0,
-        },
-        {
-          stage: 'Enriched',
-          count: enrichedCount,
-          conversionRate: totalBusinesses > 0
-            ? Number(((enrichedCount / totalBusinesses) * 100).toFixed(1))
-            : 0,
-          dropOff: totalBusinesses - enrichedCount,
-        },
-        {
-          stage: 'Contacted',
-          count: contactedCount,
-          conversionRate: enrichedCount > 0
-            ? Number(((contactedCount / enrichedCount) * 100).toFixed(1))
-            : 0,
-          dropOff: enrichedCount - contactedCount,
-        },
-        {
-          stage: 'Responded',
-          count: respondedCount,
-          conversionRate: contactedCount > 0
-            ? Number(((respondedCount / contactedCount) * 100).toFixed(1))
-            : 0,
-          dropOff: contactedCount - respondedCount,
-        },
-      ];
+      // Furthest funnel position of every business, indexed by stage
+      const reachedAt = new Array<number>(FUNNEL_STAGES.length).fill(0);
+      for (const { pipeline_stage, _count } of stageCounts) {
+        const index = FUNNEL_STAGES.findIndex((s) => s.key === pipeline_stage);
+        if (index >= 0) reachedAt[index] += _count.id;
+      }
+      for (const stage of lostFrom) {
+        const index = FUNNEL_STAGES.findIndex((s) => s.key === stage);
+        reachedAt[Math.max(index, 0)] += 1;
+      }
+
+      // Cumulative "reached at least" counts, from the bottom up
+      const counts = [...reachedAt];
+      for (let i = counts.length - 2; i >= 0; i--) {
+        counts[i] += counts[i + 1];
+      }
+
+      const stages: FunnelStageDto[] = FUNNEL_STAGES.map(({ label }, i) => {
+        const previous = i === 0 ? counts[0] : counts[i - 1];
+        return {
+          stage: label,
+          count: counts[i],
+          conversionRate:
+            i === 0
+              ? 100
+              : previous > 0
+                ? Number(((counts[i] / previous) * 100).toFixed(1))
+                : 0,
+          dropOff: previous - counts[i],
+        };
+      });
 
+      const memberCount = counts[counts.length - 1];
       const overallConversion = totalBusinesses > 0
-        ? Number(((respondedCount / totalBusinesses) * 100).toFixed(1))
+        ? Number(((memberCount / totalBusinesses) * 100).toFixed(1))
         : 0;
 
       this.logger.log(
-        `Funnel stats: ${totalBusinesses} scraped → ${enrichedCount} enriched → ${contactedCount} contacted → ${respondedCount} responded`,
+        `Funnel stats: ${stages.map((s) => `${s.count} ${s.stage.toLowerCase()}`).join(' → ')} (${lostFrom.length} lost)`,
       );
 
       return {
         stages,
         overallConversion,
         totalAtTop: totalBusinesses,
+        lost: lostFrom.length,
       };
     } catch (error) {
       this.logger.error('Error fetching funnel stats:', error);
@@ -1223,9 +1234,16 @@ export class AnalyticsService {
         : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
 
       // Fetch cost data
-      const [apiCostsByService, scrapingStats, totalBusinesses, dailyMetrics] = await Promise.all([
+      const [
+        apiCostsByService,
+        scrapingStats,
+        reconciliation,
+        totalBusinesses,
+        dailyMetrics,
+      ] = await Promise.all([
         this.repository.getApiCostByService(startDate, endDate),
         this.repository.getScrapingJobStats(startDate, endDate),
+        this.repository.getScrapingCostReconciliation(startDate, endDate),
         this.repository.getFilteredTotalBusinesses(filters),
         this.repository.getDailyMetrics(startDate, endDate),
       ]);
@@ -1294,6 +1312,22 @@ export class AnalyticsService {
         onTrack: projectedSpend <= monthlyBudget,
       };
 
+      // Compare estimated scraping cost with what the provider reported
+      const variance = reconciliation.actualCost - reconciliation.estimatedCost;
+      const scrapingReconciliation: ScrapingCostReconciliationDto = {
+        reportedRuns: reconciliation.reportedRuns,
+        estimatedCost: Number(reconciliation.estimatedCost.toFixed(2)),
+        actualCost: Number(reconciliation.actualCost.toFixed(2)),
+        variance: Number(variance.toFixed(2)),
+        variancePercent:
+          reconciliation.estimatedCost > 0
+            ? Number(
+                ((variance / reconciliation.estimatedCost) * 100).toFixed(1),
+              )
+            : 0,
+        estimateOnlyRuns: reconciliation.estimateOnlyRuns,
+      };
+
       // Calculate average cost per lead
       const avgCostPerLead = totalBusinesses > 0
         ? Number((totalCost / totalBusinesses).toFixed(3))
@@ -1308,6 +1342,7 @@ export class AnalyticsService {
         breakdown,
         timeSeries,
         budgetStatus,
+        scrapingReconciliation,
         avgCostPerLead,
         totalLeads: totalBusinesses,
         dateRange: {
@@ -0,0 +1,270 @@
+/**
+ * BusinessBulkService Unit Tests
+ *
+ * Test Categories:
+ * - Selection resolution (ids vs filter, per-ID not-found failures)
+ * - bulkDelete(): inline vs queued, single aggregated stats:updated
+ * - bulkEnrich(): hands found IDs to the enrichment queue
+ * - bulkTag(): tag normalization and validation
+ * - handleBulkCompleted(): cache invalidation after queued jobs
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, Logger } from '@nestjs/common';
+import {
+  BusinessBulkService,
+  BULK_SYNC_LIMIT,
+} from '../domain/business-bulk.service';
+import { BusinessRepository } from '../data/business.repository';
+import { BusinessCacheService } from '../domain/business-cache.service';
+import { BusinessService } from '../domain/business.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import { JobType } from '../../job-queue/config/queue.config';
+
+describe('BusinessBulkService', () => {
+  let service: BusinessBulkService;
+  let repository: jest.Mocked<BusinessRepository>;
+  let cache: jest.Mocked<BusinessCacheService>;
+  let businessService: jest.Mocked<BusinessService>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+  let jobQueueService: jest.Mocked<JobQueueService>;
+
+  const mockStats = { totalBusinesses: 10 };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessBulkService,
+        {
+          provide: BusinessRepository,
+          useValue: {
+            findIds: jest.fn(),
+            findExistingIds: jest.fn(),
+            softDeleteMany: jest.fn(),
+            applyTags: jest.fn(),
+          },
+        },
+        {
+          provide: BusinessCacheService,
+          useValue: {
+            invalidateAll: jest.fn(),
+            invalidateAllBusinesses: jest.fn(),
+          },
+        },
+        {
+          provide: BusinessService,
+          useValue: { getStats: jest.fn().mockResolvedValue(mockStats) },
+        },
+        {
+          provide: EventsGateway,
+          useValue: { emitStatsUpdated: jest.fn() },
+        },
+        {
+          provide: JobQueueService,
+          useValue: {
+            createBulkBusinessJob: jest.fn().mockResolvedValue({ id: 'job-1' }),
+            createEnrichmentJob: jest.fn().mockResolvedValue([]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BusinessBulkService);
+    repository = module.get(BusinessRepository);
+    cache = module.get(BusinessCacheService);
+    businessService = module.get(BusinessService);
+    eventsGateway = module.get(EventsGateway);
+    jobQueueService = module.get(JobQueueService);
+  });
+
+  // ============================================================
+  // Selection resolution
+  // ============================================================
+  describe('selection', () => {
+    it('should reject a body with neither ids nor filter', async () => {
+      await expect(service.bulkDelete({})).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a body with both ids and filter', async () => {
+      await expect(
+        service.bulkDelete({ ids: [1], filter: { city: 'Freehold' } }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an empty filter', async () => {
+      await expect(service.bulkDelete({ filter: {} })).rejects.toThrow(
+        'Filter must include at least one criterion',
+      );
+      expect(repository.findIds.mock.calls).toHaveLength(0);
+    });
+
+    it('should resolve a filter through the repository', async () => {
+      repository.findIds.mockResolvedValue([4, 5]);
+      repository.softDeleteMany.mockResolvedValue(2);
+
+      const result = await service.bulkDelete({ filter: { city: 'Freehold' } });
+
+      expect(repository.findIds.mock.calls).toEqual([[{ city: 'Freehold' }]]);
+      expect(repository.softDeleteMany.mock.calls).toEqual([
+        [[4, 5], undefined],
+      ]);
+      expect(result.total).toBe(2);
+    });
+
+    it('should report missing IDs as per-ID failures and dedupe input', async () => {
+      repository.findExistingIds.mockResolvedValue([1, 2]);
+      repository.softDeleteMany.mockResolvedValue(2);
+
+      const result = await service.bulkDelete({ ids: [1, 2, 2, 99] });
+
+      expect(repository.findExistingIds.mock.calls).toEqual([[[1, 2, 99]]]);
+      expect(result).toEqual({
+        action: 'delete',
+        total: 3,
+        success: 2,
+        failed: 1,
+        failures: [{ id: 99, reason: 'Business not found' }],
+        queued: false,
+      });
+    });
+  });
+
+  // ============================================================
+  // bulkDelete()
+  // ============================================================
+  describe('bulkDelete()', () => {
+    it('should emit a single stats:updated after inline delete', async () => {
+      repository.findExistingIds.mockResolvedValue([1, 2, 3]);
+      repository.softDeleteMany.mockResolvedValue(3);
+
+      await service.bulkDelete({ ids: [1, 2, 3] }, 'user-1');
+
+      expect(repository.softDeleteMany.mock.calls).toEqual([
+        [[1, 2, 3], 'user-1'],
+      ]);
+      // Trashed businesses must also drop out of single-business caches
+      expect(cache.invalidateAllBusinesses.mock.calls).toHaveLength(1);
+      expect(businessService.getStats.mock.calls).toHaveLength(1);
+      expect(eventsGateway.emitStatsUpdated.mock.calls).toEqual([[mockStats]]);
+    });
+
+    it('should not emit stats when nothing was deleted', async () => {
+      repository.findExistingIds.mockResolvedValue([]);
+
+      const result = await service.bulkDelete({ ids: [99] });
+
+      expect(repository.softDeleteMany.mock.calls).toHaveLength(0);
+      expect(eventsGateway.emitStatsUpdated.mock.calls).toHaveLength(0);
+      expect(result.failed).toBe(1);
+    });
+
+    it('should queue selections larger than the sync limit', async () => {
+      const ids = Array.from({ length: BULK_SYNC_LIMIT + 1 }, (_, i) => i + 1);
+      repository.findExistingIds.mockResolvedValue(ids);
+
+      const result = await service.bulkDelete({ ids }, 'user-1');
+
+      expect(jobQueueService.createBulkBusinessJob.mock.calls).toEqual([
+        [JobType.BULK_DELETE, ids, { userId: 'user-1' }],
+      ]);
+      expect(repository.softDeleteMany.mock.calls).toHaveLength(0);
+      expect(result).toMatchObject({
+        queued: true,
+        jobId: 'job-1',
+        success: 0,
+      });
+    });
+  });
+
+  // ============================================================
+  // bulkEnrich()
+  // ============================================================
+  describe('bulkEnrich()', () => {
+    it('should queue enrichment for found IDs only', async () => {
+      repository.findExistingIds.mockResolvedValue([1]);
+
+      const result = await service.bulkEnrich({ ids: [1, 2] }, 'user-1');
+
+      expect(jobQueueService.createEnrichmentJob.mock.calls).toEqual([
+        [
+          {
+            businessIds: [1],
+            userId: 'user-1',
+          },
+        ],
+      ]);
+      expect(result).toMatchObject({
+        action: 'enrich',
+        success: 1,
+        failed: 1,
+        queued: true,
+      });
+    });
+  });
+
+  // ============================================================
+  // bulkTag()
+  // ============================================================
+  describe('bulkTag()', () => {
+    it('should require at least one tag', async () => {
+      await expect(service.bulkTag({ ids: [1], add: ['  '] })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should normalize tag names before applying', async () => {
+      repository.findExistingIds.mockResolvedValue([1]);
+
+      await service.bulkTag({
+        ids: [1],
+        add: [' Hot-Lead', 'hot-lead'],
+        remove: ['Cold'],
+      });
+
+      expect(repository.applyTags.mock.calls).toEqual([
+        [[1], ['hot-lead'], ['cold']],
+      ]);
+      expect(eventsGateway.emitStatsUpdated.mock.calls).toHaveLength(1);
+    });
+
+    it('should queue large tag selections with tag names', async () => {
+      const ids = Array.from({ length: BULK_SYNC_LIMIT + 1 }, (_, i) => i + 1);
+      repository.findExistingIds.mockResolvedValue(ids);
+
+      await service.bulkTag({ ids, add: ['hot'] });
+
+      expect(jobQueueService.createBulkBusinessJob.mock.calls).toEqual([
+        [
+          JobType.BULK_TAG,
+          ids,
+          { add: ['hot'], remove: [], userId: undefined },
+        ],
+      ]);
+      expect(repository.applyTags.mock.calls).toHaveLength(0);
+    });
+  });
+
+  // ============================================================
+  // handleBulkCompleted()
+  // ============================================================
+  describe('handleBulkCompleted()', () => {
+    it('should invalidate caches and emit stats once', async () => {
+      await service.handleBulkCompleted({ action: 'delete', processed: 500 });
+
+      expect(cache.invalidateAllBusinesses.mock.calls).toHaveLength(1);
+      expect(eventsGateway.emitStatsUpdated.mock.calls).toEqual([[mockStats]]);
+    });
+
+    it('should keep single-business caches after a tag job', async () => {
+      await service.handleBulkCompleted({ action: 'tag', processed: 500 });
+
+      expect(cache.invalidateAll.mock.calls).toHaveLength(1);
+      expect(cache.invalidateAllBusinesses.mock.calls).toHaveLength(0);
+    });
+  });
+});
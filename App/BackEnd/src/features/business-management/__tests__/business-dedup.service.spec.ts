@@ -0,0 +1,354 @@
+/**
+ * BusinessDedupService Unit Tests
+ *
+ * Uses the real DuplicateDetectorService over a mocked repository.
+ *
+ * Test Categories:
+ * - scanBusiness(): scoring candidates and queueing ordered pairs
+ * - listPairs(): status and score filters
+ * - merge(): survivor choice, field fill, history, events, chapter members
+ * - BusinessDuplicateRepository.merge(): rows re-parented in the transaction
+ * - dismiss(): not-found handling
+ * - handleBusinessCreated(): scans scraper inserts without throwing
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { BusinessDedupService } from '../domain/business-dedup.service';
+import { DuplicateDetectorService } from '../domain/duplicate-detector.service';
+import { BusinessDuplicateRepository } from '../data/business-duplicate.repository';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { BusinessRepository } from '../data/business.repository';
+import { BusinessCacheService } from '../domain/business-cache.service';
+import { BusinessService } from '../domain/business.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+
+describe('BusinessDedupService', () => {
+  let service: BusinessDedupService;
+  let detector: DuplicateDetectorService;
+  let repository: jest.Mocked<BusinessDuplicateRepository>;
+  let businessRepository: jest.Mocked<BusinessRepository>;
+  let cache: jest.Mocked<BusinessCacheService>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+
+  const joes = {
+    id: 10,
+    name: "Joe's Pizza LLC",
+    phone: '732-555-0100',
+    website: null,
+    address: null,
+    city: 'Freehold',
+    latitude: null,
+    longitude: null,
+  };
+  const joesDuplicate = {
+    id: 4,
+    name: 'Joes Pizza',
+    phone: '(732) 555 0100',
+    website: 'https://joespizza.com',
+    address: '1 Main St',
+    city: null,
+    latitude: null,
+    longitude: null,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessDedupService,
+        DuplicateDetectorService,
+        {
+          provide: BusinessDuplicateRepository,
+          useValue: {
+            findCandidates: jest.fn().mockResolvedValue([]),
+            upsertPair: jest.fn(),
+            findPairs: jest.fn().mockResolvedValue([[], 0]),
+            findPair: jest.fn(),
+            dismissPair: jest.fn(),
+            countChapterMembers: jest.fn().mockResolvedValue(0),
+            merge: jest.fn(),
+          },
+        },
+        {
+          provide: BusinessRepository,
+          useValue: { findOne: jest.fn() },
+        },
+        {
+          provide: BusinessCacheService,
+          useValue: { invalidateAll: jest.fn() },
+        },
+        {
+          provide: BusinessService,
+          useValue: { getStats: jest.fn().mockResolvedValue({ total: 1 }) },
+        },
+        {
+          provide: EventsGateway,
+          useValue: {
+            emitBusinessUpdated: jest.fn(),
+            emitEvent: jest.fn(),
+            emitStatsUpdated: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BusinessDedupService);
+    detector = module.get(DuplicateDetectorService);
+    repository = module.get(BusinessDuplicateRepository);
+    businessRepository = module.get(BusinessRepository);
+    cache = module.get(BusinessCacheService);
+    eventsGateway = module.get(EventsGateway);
+  });
+
+  describe('scanBusiness()', () => {
+    it('should queue scored matches with the lower id first', async () => {
+      businessRepository.findOne.mockResolvedValue(joes as any);
+      repository.findCandidates.mockResolvedValue([
+        joesDuplicate,
+        { ...joesDuplicate, id: 20, name: 'Freehold Dental', phone: null },
+      ]);
+
+      const matches = await service.scanBusiness(10);
+
+      expect(repository.findCandidates).toHaveBeenCalledWith(
+        joes,
+        '7325550100',
+        null,
+        50,
+      );
+      expect(matches).toHaveLength(1);
+      expect(repository.upsertPair).toHaveBeenCalledTimes(1);
+      expect(repository.upsertPair).toHaveBeenCalledWith(4, 10, 1, {
+        name: 1,
+        phone: 1,
+      });
+    });
+
+    it('should throw NotFoundException for unknown businesses', async () => {
+      businessRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.scanBusiness(99)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findAutoMatch()', () => {
+    it('should only return confident matches', async () => {
+      repository.findCandidates.mockResolvedValue([
+        { ...joesDuplicate, phone: null, website: null },
+      ]);
+
+      await expect(
+        detector.findAutoMatch({ name: 'Joes Pizza' }),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('listPairs()', () => {
+    it('should filter by status and minimum score', async () => {
+      await service.listPairs({
+        status: 'pending',
+        min_score: 0.8,
+        page: 2,
+        limit: 10,
+      });
+
+      expect(repository.findPairs).toHaveBeenCalledWith(
+        { status: 'pending', score: { gte: 0.8 } },
+        10,
+        10,
+      );
+    });
+  });
+
+  describe('merge()', () => {
+    const pair = { id: 5, business_id: 4, duplicate_id: 10, status: 'pending' };
+
+    beforeEach(() => {
+      repository.findPair.mockResolvedValue(pair as any);
+      businessRepository.findOne.mockImplementation(
+        async (id: number) => (id === 4 ? joesDuplicate : joes) as any,
+      );
+      repository.merge.mockResolvedValue({
+        ...joesDuplicate,
+        city: 'Freehold',
+      } as any);
+    });
+
+    it('should keep the older record and fill its empty fields', async () => {
+      await service.merge(5, {}, 'admin-uuid');
+
+      expect(repository.merge).toHaveBeenCalledWith(
+        4,
+        10,
+        { city: 'Freehold' },
+        [
+          { field: 'city', old_value: null, new_value: 'Freehold' },
+          {
+            field: 'merged_from',
+            old_value: null,
+            new_value: "#10 Joe's Pizza LLC",
+          },
+        ],
+        'admin-uuid',
+      );
+    });
+
+    it('should bring the source of each filled field along', async () => {
+      const manual = {
+        source: 'manual',
+        confidence: null,
+        updated_at: '2026-10-01T00:00:00.000Z',
+      };
+      const abstract = { ...manual, source: 'abstract' };
+      // Survivor first, then the merged business
+      businessRepository.findOne
+        .mockResolvedValueOnce({
+          ...joesDuplicate,
+          field_sources: { city: abstract, industry: abstract },
+        } as never)
+        .mockResolvedValueOnce({
+          ...joes,
+          field_sources: { city: manual, phone: manual },
+        } as never);
+
+      await service.merge(5, {}, 'admin-uuid');
+
+      // The survivor's stale source of its empty city is replaced; the
+      // merged phone isn't copied, so neither is its source
+      expect(repository.merge.mock.calls[0][2]).toEqual({
+        city: 'Freehold',
+        field_sources: { city: manual, industry: abstract },
+      });
+    });
+
+    it('should honour survivor_id and notify clients', async () => {
+      await service.merge(5, { survivor_id: 10 }, 'admin-uuid');
+
+      expect(repository.merge.mock.calls[0].slice(0, 2)).toEqual([10, 4]);
+      expect(cache.invalidateAll).toHaveBeenCalledWith(10);
+      expect(cache.invalidateAll).toHaveBeenCalledWith(4);
+      expect(eventsGateway.emitEvent).toHaveBeenCalledWith('business:deleted', {
+        id: 4,
+      });
+      expect(eventsGateway.emitStatsUpdated).toHaveBeenCalledWith({ total: 1 });
+    });
+
+    it('should reject a survivor outside the pair', async () => {
+      await expect(service.merge(5, { survivor_id: 99 })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(repository.merge).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to merge a dismissed pair', async () => {
+      repository.findPair.mockResolvedValue({
+        ...pair,
+        status: 'dismissed',
+      } as any);
+
+      await expect(service.merge(5, {})).rejects.toThrow(ConflictException);
+    });
+
+    it('should refuse to merge two businesses of chapter members', async () => {
+      repository.countChapterMembers.mockResolvedValue(2);
+
+      await expect(service.merge(5, {})).rejects.toThrow(ConflictException);
+      expect(repository.countChapterMembers).toHaveBeenCalledWith([4, 10]);
+      expect(repository.merge).not.toHaveBeenCalled();
+    });
+
+    it('should merge when only one business has a chapter member', async () => {
+      repository.countChapterMembers.mockResolvedValue(1);
+
+      await service.merge(5, {});
+
+      expect(repository.merge).toHaveBeenCalled();
+    });
+  });
+
+  describe('BusinessDuplicateRepository.merge()', () => {
+    it('should move the chapter member and staged results to the survivor', async () => {
+      const updateMany = () => jest.fn().mockResolvedValue({ count: 1 });
+      const tx: Record<string, any> = {
+        contact: {
+          count: jest.fn().mockResolvedValue(0),
+          updateMany: updateMany(),
+        },
+        business_tag: {
+          findMany: jest.fn().mockResolvedValue([]),
+          deleteMany: jest.fn(),
+          updateMany: updateMany(),
+        },
+        business: {
+          update: jest.fn().mockResolvedValue({ id: 4 }),
+          delete: jest.fn(),
+        },
+        business_change: { updateMany: updateMany(), createMany: jest.fn() },
+      };
+      for (const model of [
+        'enrichment_log',
+        'outreach_message',
+        'api_cost_log',
+        'business_stage_transition',
+        'business_activity',
+        'business_task',
+        'chapter_member',
+        'scrape_staged_result',
+      ]) {
+        tx[model] = { updateMany: updateMany() };
+      }
+      const prisma = {
+        $transaction: (fn: (client: unknown) => unknown) => fn(tx),
+      };
+
+      await new BusinessDuplicateRepository(
+        prisma as unknown as PrismaService,
+      ).merge(4, 10, {}, []);
+
+      expect(tx.chapter_member.updateMany).toHaveBeenCalledWith({
+        where: { business_id: 10 },
+        data: { business_id: 4 },
+      });
+      expect(tx.scrape_staged_result.updateMany).toHaveBeenCalledWith({
+        where: { business_id: 10 },
+        data: { business_id: 4 },
+      });
+      expect(tx.scrape_staged_result.updateMany).toHaveBeenCalledWith({
+        where: { duplicate_of: 10 },
+        data: { duplicate_of: 4 },
+      });
+      // Re-parented before the merged business is deleted
+      expect(
+        tx.chapter_member.updateMany.mock.invocationCallOrder[0],
+      ).toBeLessThan(tx.business.delete.mock.invocationCallOrder[0]);
+    });
+  });
+
+  describe('dismiss()', () => {
+    it('should throw NotFoundException for unknown pairs', async () => {
+      repository.findPair.mockResolvedValue(null);
+
+      await expect(service.dismiss(1)).rejects.toThrow(NotFoundException);
+      expect(repository.dismissPair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleBusinessCreated()', () => {
+    it('should swallow scan errors', async () => {
+      businessRepository.findOne.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        service.handleBusinessCreated({ business: { id: 1 } }),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
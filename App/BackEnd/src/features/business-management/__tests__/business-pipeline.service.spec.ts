@@ -0,0 +1,283 @@
+/**
+ * BusinessPipelineService Unit Tests
+ *
+ * Test Categories:
+ * - moveStage(): ownership rules, transition recording, no-op moves
+ * - assign(): admin assignment, member claim/release, assignee validation
+ * - getStageHistory(): pagination and not-found handling
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { BusinessPipelineService } from '../domain/business-pipeline.service';
+import { BusinessRepository } from '../data/business.repository';
+import { BusinessCacheService } from '../domain/business-cache.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+
+describe('BusinessPipelineService', () => {
+  let service: BusinessPipelineService;
+  let repository: jest.Mocked<BusinessRepository>;
+  let cache: jest.Mocked<BusinessCacheService>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+  let eventEmitter: jest.Mocked<EventEmitter2>;
+
+  const admin = { id: 'admin-uuid', role: Role.ADMIN };
+  const member = { id: 'member-uuid', role: Role.MEMBER };
+
+  const lead = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    name: 'Test Plumbing LLC',
+    pipeline_stage: 'prospect',
+    assigned_to: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessPipelineService,
+        {
+          provide: BusinessRepository,
+          useValue: {
+            findOne: jest.fn(),
+            exists: jest.fn(),
+            moveStage: jest.fn(),
+            findStageTransitions: jest.fn().mockResolvedValue([[], 0]),
+            findAssignee: jest.fn(),
+            updateWithChanges: jest.fn(),
+          },
+        },
+        {
+          provide: BusinessCacheService,
+          useValue: { invalidateAll: jest.fn() },
+        },
+        {
+          provide: EventsGateway,
+          useValue: { emitBusinessUpdated: jest.fn() },
+        },
+        {
+          provide: EventEmitter2,
+          useValue: { emit: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BusinessPipelineService);
+    repository = module.get(BusinessRepository);
+    cache = module.get(BusinessCacheService);
+    eventsGateway = module.get(EventsGateway);
+    eventEmitter = module.get(EventEmitter2);
+  });
+
+  describe('moveStage', () => {
+    it('should record a transition and notify clients', async () => {
+      repository.findOne.mockResolvedValue(lead() as any);
+      const moved = lead({ pipeline_stage: 'contacted' });
+      repository.moveStage.mockResolvedValue(moved as any);
+
+      const result = await service.moveStage(
+        1,
+        { stage: 'contacted', note: 'Called owner' },
+        admin,
+      );
+
+      expect(repository.moveStage).toHaveBeenCalledWith(
+        1,
+        'prospect',
+        'contacted',
+        'admin-uuid',
+        'Called owner',
+      );
+      expect(cache.invalidateAll).toHaveBeenCalledWith(1);
+      expect(eventsGateway.emitBusinessUpdated).toHaveBeenCalledWith(moved);
+      expect(eventEmitter.emit).toHaveBeenCalledWith('business:stage-changed', {
+        businessId: 1,
+        from: 'prospect',
+        to: 'contacted',
+        note: 'Called owner',
+        userId: 'admin-uuid',
+      });
+      expect(result).toBe(moved);
+    });
+
+    it('should let a member move a lead assigned to them', async () => {
+      repository.findOne.mockResolvedValue(
+        lead({ assigned_to: 'member-uuid' }) as any,
+      );
+      repository.moveStage.mockResolvedValue(lead() as any);
+
+      await service.moveStage(1, { stage: 'visited_meeting' }, member);
+
+      expect(repository.moveStage).toHaveBeenCalled();
+    });
+
+    it('should forbid a member from moving a lead they do not own', async () => {
+      repository.findOne.mockResolvedValue(
+        lead({ assigned_to: 'someone-else' }) as any,
+      );
+
+      await expect(
+        service.moveStage(1, { stage: 'contacted' }, member),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.moveStage).not.toHaveBeenCalled();
+    });
+
+    it('should forbid a member from moving an unassigned lead', async () => {
+      repository.findOne.mockResolvedValue(lead() as any);
+
+      await expect(
+        service.moveStage(1, { stage: 'contacted' }, member),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not record a transition when the stage is unchanged', async () => {
+      const current = lead({ pipeline_stage: 'applied' });
+      repository.findOne.mockResolvedValue(current as any);
+
+      const result = await service.moveStage(1, { stage: 'applied' }, admin);
+
+      expect(result).toBe(current);
+      expect(repository.moveStage).not.toHaveBeenCalled();
+      expect(eventsGateway.emitBusinessUpdated).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.moveStage(999, { stage: 'contacted' }, admin),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('assign', () => {
+    const activeMember = {
+      id: 'member-uuid',
+      name: 'Member',
+      email: 'm@test.com',
+      role: Role.MEMBER,
+      is_active: true,
+    };
+
+    it('should let an admin assign a lead and record the change', async () => {
+      repository.findOne.mockResolvedValue(lead() as any);
+      repository.findAssignee.mockResolvedValue(activeMember as any);
+      repository.updateWithChanges.mockResolvedValue(lead() as any);
+
+      await service.assign(1, { user_id: 'member-uuid' }, admin);
+
+      expect(repository.updateWithChanges).toHaveBeenCalledWith(
+        1,
+        { assignee: { connect: { id: 'member-uuid' } } },
+        [
+          {
+            field: 'assigned_to',
+            old_value: null,
+            new_value: 'member-uuid',
+            changed_by: 'admin-uuid',
+          },
+        ],
+      );
+      expect(cache.invalidateAll).toHaveBeenCalledWith(1);
+      expect(eventsGateway.emitBusinessUpdated).toHaveBeenCalled();
+    });
+
+    it('should let a member claim an unassigned lead', async () => {
+      repository.findOne.mockResolvedValue(lead() as any);
+      repository.findAssignee.mockResolvedValue(activeMember as any);
+      repository.updateWithChanges.mockResolvedValue(lead() as any);
+
+      await service.assign(1, { user_id: 'member-uuid' }, member);
+
+      expect(repository.updateWithChanges).toHaveBeenCalled();
+    });
+
+    it('should let a member release their own lead', async () => {
+      repository.findOne.mockResolvedValue(
+        lead({ assigned_to: 'member-uuid' }) as any,
+      );
+      repository.updateWithChanges.mockResolvedValue(lead() as any);
+
+      await service.assign(1, { user_id: null }, member);
+
+      expect(repository.findAssignee).not.toHaveBeenCalled();
+      expect(repository.updateWithChanges).toHaveBeenCalledWith(
+        1,
+        { assignee: { disconnect: true } },
+        expect.any(Array),
+      );
+    });
+
+    it('should forbid a member from taking over another lead', async () => {
+      repository.findOne.mockResolvedValue(
+        lead({ assigned_to: 'someone-else' }) as any,
+      );
+
+      await expect(
+        service.assign(1, { user_id: 'member-uuid' }, member),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should forbid a member from assigning a lead to someone else', async () => {
+      repository.findOne.mockResolvedValue(lead() as any);
+
+      await expect(
+        service.assign(1, { user_id: 'other-uuid' }, member),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it.each([
+      ['missing', null],
+      ['inactive', { ...activeMember, is_active: false }],
+      ['viewer', { ...activeMember, role: Role.VIEWER }],
+    ])('should reject a %s assignee', async (_label, assignee) => {
+      repository.findOne.mockResolvedValue(lead() as any);
+      repository.findAssignee.mockResolvedValue(assignee as any);
+
+      await expect(
+        service.assign(1, { user_id: 'member-uuid' }, admin),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.updateWithChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStageHistory', () => {
+    it('should paginate transitions', async () => {
+      repository.exists.mockResolvedValue(true);
+      repository.findStageTransitions.mockResolvedValue([
+        [{ id: 1 }],
+        3,
+      ] as any);
+
+      const result = await service.getStageHistory(1, { page: 2, limit: 2 });
+
+      expect(repository.findStageTransitions).toHaveBeenCalledWith(1, 2, 2);
+      expect(result.meta).toEqual({
+        total: 3,
+        page: 2,
+        limit: 2,
+        totalPages: 2,
+      });
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      repository.exists.mockResolvedValue(false);
+
+      await expect(service.getStageHistory(999, {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
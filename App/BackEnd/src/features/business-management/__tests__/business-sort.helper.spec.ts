@@ -0,0 +1,108 @@
+/**
+ * Business sort helper tests
+ *
+ * Covers orderBy building (nulls last, id tie-breaker), cursor round trips
+ * for date and nullable columns, and rejection of malformed cursors.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import {
+  buildBusinessCursorWhere,
+  buildBusinessOrderBy,
+  encodeBusinessCursor,
+} from '../domain/business-sort.helper';
+
+describe('business-sort.helper', () => {
+  describe('buildBusinessOrderBy()', () => {
+    it('should add an id tie-breaker in the same direction', () => {
+      expect(buildBusinessOrderBy('contact_count', 'desc')).toEqual([
+        { contact_count: 'desc' },
+        { id: 'desc' },
+      ]);
+    });
+
+    it('should sort nullable columns nulls last', () => {
+      expect(buildBusinessOrderBy('last_outreach_at', 'desc')).toEqual([
+        { last_outreach_at: { sort: 'desc', nulls: 'last' } },
+        { id: 'desc' },
+      ]);
+    });
+  });
+
+  describe('buildBusinessCursorWhere()', () => {
+    it('should restore date values and compare in sort direction', () => {
+      const updated = new Date('2026-01-02T03:04:05.000Z');
+      const cursor = encodeBusinessCursor(
+        { id: 7, updated_at: updated },
+        'updated_at',
+        'desc',
+      );
+
+      expect(buildBusinessCursorWhere(cursor, 'updated_at', 'desc')).toEqual({
+        OR: [
+          { updated_at: { lt: updated } },
+          { updated_at: updated, id: { lt: 7 } },
+        ],
+      });
+    });
+
+    it('should include the null tail for nullable columns', () => {
+      const cursor = encodeBusinessCursor(
+        { id: 3, industry: 'Plumbing' },
+        'industry',
+        'asc',
+      );
+
+      expect(buildBusinessCursorWhere(cursor, 'industry', 'asc')).toEqual({
+        OR: [
+          { industry: { gt: 'Plumbing' } },
+          { industry: 'Plumbing', id: { gt: 3 } },
+          { industry: null },
+        ],
+      });
+    });
+
+    it('should page by id only once inside the null tail', () => {
+      const cursor = encodeBusinessCursor({ id: 3, city: null }, 'city', 'asc');
+
+      expect(buildBusinessCursorWhere(cursor, 'city', 'asc')).toEqual({
+        city: null,
+        id: { gt: 3 },
+      });
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() =>
+        buildBusinessCursorWhere('not-a-cursor', 'name', 'asc'),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject cursors with an unknown sort or an unusable value', () => {
+      const forge = (payload: Record<string, unknown>) =>
+        Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+      for (const cursor of [
+        forge({ s: 'name', o: 'asc', v: { gt: '' }, id: 1 }),
+        forge({ s: 'created_at', o: 'asc', v: 'yesterday', id: 1 }),
+        forge({ s: 'contact_count', o: 'asc', v: '5', id: 1 }),
+        forge({ s: 'name', o: 'asc', v: null, id: 1 }),
+        forge({ s: 'name', o: 'sideways', v: 'A', id: 1 }),
+        forge({ s: 'password', o: 'asc', v: 'A', id: 1 }),
+        forge({ s: 'name', o: 'asc', v: 'A', id: '1' }),
+        forge(null as never),
+      ]) {
+        expect(() => buildBusinessCursorWhere(cursor, 'name', 'asc')).toThrow(
+          'Invalid cursor',
+        );
+      }
+    });
+
+    it('should reject cursors issued for another sort order', () => {
+      const cursor = encodeBusinessCursor({ id: 1, name: 'A' }, 'name', 'asc');
+
+      expect(() => buildBusinessCursorWhere(cursor, 'name', 'desc')).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * BusinessTrashService Unit Tests
+ *
+ * Test Categories:
+ * - findAll(): pagination, purge dates, retention in meta
+ * - restore(): cache invalidation, events, not-in-trash handling
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger, NotFoundException } from '@nestjs/common';
+import { BusinessTrashService } from '../domain/business-trash.service';
+import { BusinessRepository } from '../data/business.repository';
+import { BusinessCacheService } from '../domain/business-cache.service';
+import { BusinessService } from '../domain/business.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import { ConfigService } from '../../../config/config.service';
+
+describe('BusinessTrashService', () => {
+  let service: BusinessTrashService;
+  let repository: jest.Mocked<BusinessRepository>;
+  let cache: jest.Mocked<BusinessCacheService>;
+  let businessService: jest.Mocked<BusinessService>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+
+  const mockStats = { totalBusinesses: 9 };
+  const mockBusiness = { id: 1, name: 'Test Plumbing LLC', deleted_at: null };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessTrashService,
+        {
+          provide: BusinessRepository,
+          useValue: {
+            findTrash: jest.fn(),
+            restore: jest.fn(),
+          },
+        },
+        {
+          provide: BusinessCacheService,
+          useValue: { invalidateAll: jest.fn() },
+        },
+        {
+          provide: BusinessService,
+          useValue: {
+            findOne: jest.fn().mockResolvedValue(mockBusiness),
+            getStats: jest.fn().mockResolvedValue(mockStats),
+          },
+        },
+        {
+          provide: EventsGateway,
+          useValue: {
+            emitBusinessUpdated: jest.fn(),
+            emitStatsUpdated: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { getTrashRetentionDays: jest.fn().mockReturnValue(30) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BusinessTrashService);
+    repository = module.get(BusinessRepository);
+    cache = module.get(BusinessCacheService);
+    businessService = module.get(BusinessService);
+    eventsGateway = module.get(EventsGateway);
+  });
+
+  // ============================================================
+  // findAll()
+  // ============================================================
+  describe('findAll()', () => {
+    it('should paginate and add the purge date to each business', async () => {
+      const deletedAt = new Date('2026-10-01T00:00:00Z');
+      repository.findTrash.mockResolvedValue([
+        [{ id: 3, name: 'Gone', deleted_at: deletedAt }],
+        21,
+      ] as any);
+
+      const result = await service.findAll({ page: 2, limit: 10 });
+
+      expect(repository.findTrash).toHaveBeenCalledWith(10, 10);
+      expect(result.data[0].purge_at).toEqual(new Date('2026-10-31T00:00:00Z'));
+      expect(result.meta).toEqual({
+        total: 21,
+        page: 2,
+        limit: 10,
+        totalPages: 3,
+        retentionDays: 30,
+      });
+    });
+
+    it('should default to the first page of 20', async () => {
+      repository.findTrash.mockResolvedValue([[], 0] as any);
+
+      await service.findAll({});
+
+      expect(repository.findTrash).toHaveBeenCalledWith(0, 20);
+    });
+  });
+
+  // ============================================================
+  // restore()
+  // ============================================================
+  describe('restore()', () => {
+    it('should restore, invalidate caches and emit events', async () => {
+      repository.restore.mockResolvedValue(true);
+
+      const result = await service.restore(1);
+
+      expect(repository.restore).toHaveBeenCalledWith(1);
+      expect(cache.invalidateAll).toHaveBeenCalledWith(1);
+      expect(businessService.findOne).toHaveBeenCalledWith(1);
+      expect(eventsGateway.emitBusinessUpdated).toHaveBeenCalledWith(mockBusiness);
+      expect(eventsGateway.emitStatsUpdated).toHaveBeenCalledWith(mockStats);
+      expect(result).toEqual(mockBusiness);
+    });
+
+    it('should throw NotFoundException when the business is not in the trash', async () => {
+      repository.restore.mockResolvedValue(false);
+
+      await expect(service.restore(1)).rejects.toThrow(NotFoundException);
+      await expect(service.restore(1)).rejects.toThrow(
+        'Business with ID 1 is not in the trash',
+      );
+      expect(cache.invalidateAll).not.toHaveBeenCalled();
+      expect(eventsGateway.emitBusinessUpdated).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -9,14 +9,31 @@
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { Reflector } from '@nestjs/core';
 import { Logger, ForbiddenException, NotFoundException } from '@nestjs/common';
 import { Role } from '@prisma/client';
 import { BusinessController } from '../api/business.controller';
 import { BusinessService } from '../domain/business.service';
+import { BusinessBulkService } from '../domain/business-bulk.service';
+import { BusinessDedupService } from '../domain/business-dedup.service';
+import { BusinessPipelineService } from '../domain/business-pipeline.service';
+import { BusinessTrashService } from '../domain/business-trash.service';
+
+/** Roles allowed on a controller handler by its @Roles decorator */
+const rolesOf = (handler: keyof BusinessController) =>
+  new Reflector().get<Role[] | undefined>(
+    'roles',
+    Object.getOwnPropertyDescriptor(BusinessController.prototype, handler)
+      ?.value as () => unknown,
+  );
 
 describe('BusinessController - Role-Based Access', () => {
   let controller: BusinessController;
   let businessService: jest.Mocked<BusinessService>;
+  let bulkService: jest.Mocked<BusinessBulkService>;
+  let dedupService: jest.Mocked<BusinessDedupService>;
+  let pipelineService: jest.Mocked<BusinessPipelineService>;
+  let trashService: jest.Mocked<BusinessTrashService>;
 
   const mockBusiness = {
     id: 1,
@@ -63,8 +80,85 @@ describe('BusinessController - Role-Based Access', () => {
               meta: { total: 1, page: 1, limit: 20, totalPages: 1 },
             }),
             findOne: jest.fn().mockResolvedValue(mockBusiness),
-            remove: jest.fn().mockResolvedValue({ message: 'Business deleted successfully' }),
+            remove: jest
+              .fn()
+              .mockResolvedValue({ message: 'Business moved to trash' }),
             getStats: jest.fn().mockResolvedValue(mockStats),
+            update: jest.fn().mockResolvedValue(mockBusiness),
+            getHistory: jest.fn().mockResolvedValue({
+              data: [],
+              meta: { total: 0, page: 1, limit: 50, totalPages: 0 },
+            }),
+          },
+        },
+        {
+          provide: BusinessBulkService,
+          useValue: {
+            bulkDelete: jest.fn().mockResolvedValue({
+              action: 'delete',
+              total: 1,
+              success: 1,
+              failed: 0,
+              failures: [],
+              queued: false,
+            }),
+            bulkEnrich: jest.fn().mockResolvedValue({
+              action: 'enrich',
+              total: 1,
+              success: 1,
+              failed: 0,
+              failures: [],
+              queued: true,
+            }),
+            bulkTag: jest.fn().mockResolvedValue({
+              action: 'tag',
+              total: 1,
+              success: 1,
+              failed: 0,
+              failures: [],
+              queued: false,
+            }),
+          },
+        },
+        {
+          provide: BusinessDedupService,
+          useValue: {
+            listPairs: jest.fn().mockResolvedValue({
+              data: [],
+              meta: { total: 0, page: 1, limit: 20, totalPages: 0 },
+            }),
+            merge: jest.fn().mockResolvedValue(mockBusiness),
+            dismiss: jest
+              .fn()
+              .mockResolvedValue({ id: 5, status: 'dismissed' }),
+            scanBusiness: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: BusinessPipelineService,
+          useValue: {
+            moveStage: jest.fn().mockResolvedValue(mockBusiness),
+            assign: jest.fn().mockResolvedValue(mockBusiness),
+            getStageHistory: jest.fn().mockResolvedValue({
+              data: [],
+              meta: { total: 0, page: 1, limit: 50, totalPages: 0 },
+            }),
+          },
+        },
+        {
+          provide: BusinessTrashService,
+          useValue: {
+            findAll: jest.fn().mockResolvedValue({
+              data: [],
+              meta: {
+                total: 0,
+                page: 1,
+                limit: 20,
+                totalPages: 0,
+                retentionDays: 30,
+              },
+            }),
+            restore: jest.fn().mockResolvedValue(mockBusiness),
           },
         },
       ],
@@ -72,6 +166,10 @@ describe('BusinessController - Role-Based Access', () => {
 
     controller = module.get<BusinessController>(BusinessController);
     businessService = module.get(BusinessService);
+    bulkService = module.get(BusinessBulkService);
+    dedupService = module.get(BusinessDedupService);
+    pipelineService = module.get(BusinessPipelineService);
+    trashService = module.get(BusinessTrashService);
   });
 
   // ============================================================
@@ -161,15 +259,189 @@ describe('BusinessController - Role-Based Access', () => {
     });
   });
 
+  // ============================================================
+  // Update Business (PATCH/PUT)
+  // ============================================================
+  describe('update() - PATCH /api/businesses/:id', () => {
+    const user = {
+      id: 'user-uuid-1',
+      email: 'm@test.com',
+      name: 'Member',
+      role: Role.MEMBER,
+      mustChangePassword: false,
+    };
+
+    it('should pass id, dto and acting user id to service', async () => {
+      const result = await controller.update(1, { name: 'Renamed' }, user);
+
+      expect(result).toEqual(mockBusiness);
+      expect(businessService.update.mock.calls).toEqual([
+        [1, { name: 'Renamed' }, 'user-uuid-1'],
+      ]);
+    });
+
+    it('should handle PUT the same way as PATCH', async () => {
+      await controller.replace(1, { city: 'Marlboro' }, user);
+
+      expect(businessService.update.mock.calls).toEqual([
+        [1, { city: 'Marlboro' }, 'user-uuid-1'],
+      ]);
+    });
+  });
+
+  describe('getHistory() - GET /api/businesses/:id/history', () => {
+    it('should delegate to service with query', async () => {
+      await controller.getHistory(1, { page: 1, limit: 50 });
+
+      expect(businessService.getHistory.mock.calls).toEqual([
+        [
+          1,
+          {
+            page: 1,
+            limit: 50,
+          },
+        ],
+      ]);
+    });
+  });
+
+  // ============================================================
+  // Bulk Operations (POST)
+  // ============================================================
+  describe('bulk endpoints', () => {
+    const user = {
+      id: 'admin-uuid',
+      email: 'a@test.com',
+      name: 'Admin',
+      role: Role.ADMIN,
+      mustChangePassword: false,
+    };
+
+    it('should delegate bulk-delete with acting user id', async () => {
+      await controller.bulkDelete({ ids: [1] }, user);
+
+      expect(bulkService.bulkDelete.mock.calls).toEqual([
+        [{ ids: [1] }, 'admin-uuid'],
+      ]);
+    });
+
+    it('should delegate bulk-enrich with acting user id', async () => {
+      await controller.bulkEnrich({ filter: { city: 'Freehold' } }, user);
+
+      expect(bulkService.bulkEnrich.mock.calls).toEqual([
+        [{ filter: { city: 'Freehold' } }, 'admin-uuid'],
+      ]);
+    });
+
+    it('should delegate bulk-tag with acting user id', async () => {
+      await controller.bulkTag({ ids: [1], add: ['hot'] }, user);
+
+      expect(bulkService.bulkTag.mock.calls).toEqual([
+        [{ ids: [1], add: ['hot'] }, 'admin-uuid'],
+      ]);
+    });
+  });
+
+  // ============================================================
+  // Duplicate review endpoints
+  // ============================================================
+  describe('duplicate endpoints', () => {
+    const user = {
+      id: 'admin-uuid',
+      email: 'a@test.com',
+      name: 'Admin',
+      role: Role.ADMIN,
+      mustChangePassword: false,
+    };
+
+    it('should delegate the review queue query', async () => {
+      await controller.listDuplicates({ status: 'pending', min_score: 0.8 });
+
+      expect(dedupService.listPairs.mock.calls).toEqual([
+        [
+          {
+            status: 'pending',
+            min_score: 0.8,
+          },
+        ],
+      ]);
+    });
+
+    it('should delegate merge with survivor choice and acting user id', async () => {
+      await controller.mergeDuplicate(5, { survivor_id: 2 }, user);
+
+      expect(dedupService.merge.mock.calls).toEqual([
+        [5, { survivor_id: 2 }, 'admin-uuid'],
+      ]);
+    });
+
+    it('should delegate dismiss with acting user id', async () => {
+      await controller.dismissDuplicate(5, user);
+
+      expect(dedupService.dismiss.mock.calls).toEqual([[5, 'admin-uuid']]);
+    });
+
+    it('should restrict merge to ADMIN', () => {
+      expect(rolesOf('mergeDuplicate')).toEqual([Role.ADMIN]);
+    });
+  });
+
+  // ============================================================
+  // Pipeline endpoints
+  // ============================================================
+  describe('pipeline endpoints', () => {
+    const user = {
+      id: 'member-uuid',
+      email: 'm@test.com',
+      name: 'Member',
+      role: Role.MEMBER,
+      mustChangePassword: false,
+    };
+
+    it('should delegate stage moves with the acting user', async () => {
+      await controller.moveStage(
+        1,
+        { stage: 'contacted', note: 'Called owner' },
+        user,
+      );
+
+      expect(pipelineService.moveStage.mock.calls).toEqual([
+        [1, { stage: 'contacted', note: 'Called owner' }, user],
+      ]);
+    });
+
+    it('should delegate assignment with the acting user', async () => {
+      await controller.assign(1, { user_id: 'member-uuid' }, user);
+
+      expect(pipelineService.assign.mock.calls).toEqual([
+        [1, { user_id: 'member-uuid' }, user],
+      ]);
+    });
+
+    it('should not allow VIEWER to move or assign leads', () => {
+      for (const handler of ['moveStage', 'assign'] as const) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN, Role.MEMBER]);
+      }
+    });
+  });
+
   // ============================================================
   // Delete Business (DELETE) - Admin Only
   // ============================================================
   describe('remove() - DELETE /api/businesses/:id', () => {
-    it('should delete business and return success message', async () => {
-      const result = await controller.remove(1);
+    const user = {
+      id: 'admin-uuid',
+      email: 'a@test.com',
+      name: 'Admin',
+      role: Role.ADMIN,
+      mustChangePassword: false,
+    };
+
+    it('should move business to trash with acting user id', async () => {
+      const result = await controller.remove(1, user);
 
-      expect(result).toEqual({ message: 'Business deleted successfully' });
-      expect(businessService.remove).toHaveBeenCalledWith(1);
+      expect(result).toEqual({ message: 'Business moved to trash' });
+      expect(businessService.remove.mock.calls).toEqual([[1, 'admin-uuid']]);
     });
 
     it('should propagate NotFoundException from service', async () => {
@@ -177,7 +449,36 @@ describe('BusinessController - Role-Based Access', () => {
         new NotFoundException('Business with ID 999 not found'),
       );
 
-      await expect(controller.remove(999)).rejects.toThrow(NotFoundException);
+      await expect(controller.remove(999, user)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  // ============================================================
+  // Trash (GET /trash, POST /:id/restore) - Admin Only
+  // ============================================================
+  describe('trash endpoints', () => {
+    it('should list trashed businesses', async () => {
+      await expect(
+        controller.listTrash({ page: 2, limit: 10 }),
+      ).resolves.toMatchObject({ meta: { retentionDays: 30 } });
+
+      expect(trashService.findAll.mock.calls).toEqual([
+        [{ page: 2, limit: 10 }],
+      ]);
+    });
+
+    it('should restore a business from the trash', async () => {
+      await expect(controller.restore(1)).resolves.toEqual(mockBusiness);
+
+      expect(trashService.restore.mock.calls).toEqual([[1]]);
+    });
+
+    it('should restrict trash endpoints to ADMIN', () => {
+      for (const handler of ['listTrash', 'restore'] as const) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN]);
+      }
     });
   });
 
@@ -186,9 +487,7 @@ describe('BusinessController - Role-Based Access', () => {
   // ============================================================
   describe('Role Decorator Metadata', () => {
     it('should have @Roles(ADMIN) on remove method', () => {
-      const { Reflector } = require('@nestjs/core');
-      const reflector = new Reflector();
-      const roles = reflector.get('roles', BusinessController.prototype.remove);
+      const roles = rolesOf('remove');
 
       expect(roles).toBeDefined();
       expect(roles).toContain(Role.ADMIN);
@@ -196,10 +495,23 @@ describe('BusinessController - Role-Based Access', () => {
       expect(roles).not.toContain(Role.MEMBER);
     });
 
+    it('should allow ADMIN and MEMBER but not VIEWER on update methods', () => {
+      for (const handler of ['update', 'replace'] as const) {
+        const roles = rolesOf(handler);
+        expect(roles).toContain(Role.ADMIN);
+        expect(roles).toContain(Role.MEMBER);
+        expect(roles).not.toContain(Role.VIEWER);
+      }
+    });
+
+    it('should restrict bulk-delete and bulk-enrich to ADMIN', () => {
+      for (const handler of ['bulkDelete', 'bulkEnrich'] as const) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN]);
+      }
+    });
+
     it('should have @Roles with VIEWER on findAll method', () => {
-      const { Reflector } = require('@nestjs/core');
-      const reflector = new Reflector();
-      const roles = reflector.get('roles', BusinessController.prototype.findAll);
+      const roles = rolesOf('findAll');
 
       expect(roles).toBeDefined();
       expect(roles).toContain(Role.VIEWER);
@@ -208,18 +520,14 @@ describe('BusinessController - Role-Based Access', () => {
     });
 
     it('should have @Roles with VIEWER on getStats method', () => {
-      const { Reflector } = require('@nestjs/core');
-      const reflector = new Reflector();
-      const roles = reflector.get('roles', BusinessController.prototype.getStats);
+      const roles = rolesOf('getStats');
 
       expect(roles).toBeDefined();
       expect(roles).toContain(Role.VIEWER);
     });
 
     it('should have @Roles with VIEWER on findOne method', () => {
-      const { Reflector } = require('@nestjs/core');
-      const reflector = new Reflector();
-      const roles = reflector.get('roles', BusinessController.prototype.findOne);
+      const roles = rolesOf('findOne');
 
       expect(roles).toBeDefined();
       expect(roles).toContain(Role.VIEWER);
@@ -7,14 +7,18 @@
  * Test Categories:
  * - create(): Business creation with cache invalidation and event emission
  * - findAll(): Paginated queries with cache hit/miss scenarios
+ * - findAll() sorting: sort columns, cursor pagination and cursor validation
+ * - findAll() with search: ranked results, filters, highlights
  * - findOne(): Single business lookup with cache hit/miss and NotFoundException
- * - remove(): Deletion with cache invalidation and error propagation
+ * - update(): Field diffing, change history, cache invalidation and events
+ * - getHistory(): Paginated change history lookup
+ * - remove(): Soft delete (trash) with cache invalidation and error propagation
  * - getStats(): Statistics with cache hit/miss scenarios
  * - Error propagation from repository/cache layers
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
-import { Logger, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
 import { BusinessService } from '../domain/business.service';
 import { BusinessRepository } from '../data/business.repository';
 import { BusinessCacheService } from '../domain/business-cache.service';
@@ -88,8 +92,14 @@ describe('BusinessService', () => {
             create: jest.fn(),
             findAll: jest.fn(),
             findOne: jest.fn(),
-            delete: jest.fn(),
+            softDelete: jest.fn(),
             getStats: jest.fn(),
+            exists: jest.fn(),
+            updateWithChanges: jest.fn(),
+            findChanges: jest.fn(),
+            findIds: jest.fn(),
+            searchRankedIds: jest.fn(),
+            findManyByIds: jest.fn(),
           },
         },
         {
@@ -108,7 +118,9 @@ describe('BusinessService', () => {
           provide: EventsGateway,
           useValue: {
             emitBusinessCreated: jest.fn(),
+            emitBusinessUpdated: jest.fn(),
             emitStatsUpdated: jest.fn(),
+            emitEvent: jest.fn(),
           },
         },
       ],
@@ -140,7 +152,15 @@ describe('BusinessService', () => {
       const result = await service.create(createDto as any);
 
       expect(result).toEqual(mockBusiness);
-      expect(repository.create).toHaveBeenCalledWith(createDto);
+      expect(repository.create).toHaveBeenCalledWith({
+        ...createDto,
+        field_sources: Object.fromEntries(
+          Object.keys(createDto).map((field) => [
+            field,
+            expect.objectContaining({ source: 'manual', confidence: null }),
+          ]),
+        ),
+      });
     });
 
     it('should invalidate all caches after creation', async () => {
@@ -197,9 +217,12 @@ describe('BusinessService', () => {
         page: 1,
         limit: 20,
         totalPages: 1,
+        nextCursor: null,
       },
     };
 
+    const defaultOrderBy = [{ created_at: 'desc' }, { id: 'desc' }];
+
     it('should return cached data on cache hit', async () => {
       cache.getList.mockResolvedValue(paginatedResult);
 
@@ -219,7 +242,12 @@ describe('BusinessService', () => {
 
       expect(result.data).toEqual([mockBusiness]);
       expect(result.meta.total).toBe(1);
-      expect(repository.findAll).toHaveBeenCalledWith({ city: 'Freehold' }, 0, 20);
+      expect(repository.findAll).toHaveBeenCalledWith(
+        { city: 'Freehold' },
+        0,
+        20,
+        defaultOrderBy,
+      );
     });
 
     it('should cache the result on cache miss', async () => {
@@ -243,12 +271,13 @@ describe('BusinessService', () => {
       const result = await service.findAll({ page: 3, limit: 10 } as any);
 
       // skip = (3-1) * 10 = 20
-      expect(repository.findAll).toHaveBeenCalledWith({}, 20, 10);
+      expect(repository.findAll).toHaveBeenCalledWith({}, 20, 10, defaultOrderBy);
       expect(result.meta).toEqual({
         total: 50,
         page: 3,
         limit: 10,
         totalPages: 5,
+        nextCursor: expect.any(String),
       });
     });
 
@@ -260,7 +289,7 @@ describe('BusinessService', () => {
       await service.findAll({} as any);
 
       // skip = (1-1) * 20 = 0
-      expect(repository.findAll).toHaveBeenCalledWith({}, 0, 20);
+      expect(repository.findAll).toHaveBeenCalledWith({}, 0, 20, defaultOrderBy);
     });
 
     it('should build where clause with all filter parameters', async () => {
@@ -284,6 +313,49 @@ describe('BusinessService', () => {
         },
         0,
         10,
+        defaultOrderBy,
+      );
+    });
+
+    it('should match any of the given tags by default', async () => {
+      cache.getList.mockResolvedValue(null);
+      repository.findAll.mockResolvedValue([[], 0]);
+      cache.setList.mockResolvedValue(undefined);
+
+      await service.findAll({ page: 1, limit: 10, tag_ids: [3, 7, 3] } as any);
+
+      expect(repository.findAll).toHaveBeenCalledWith(
+        { tags: { some: { tag_id: { in: [3, 7] } } } },
+        0,
+        10,
+        defaultOrderBy,
+      );
+    });
+
+    it('should require every tag when tag_match is all', async () => {
+      cache.getList.mockResolvedValue(null);
+      repository.findAll.mockResolvedValue([[], 0]);
+      cache.setList.mockResolvedValue(undefined);
+
+      await service.findAll({
+        page: 1,
+        limit: 10,
+        tag_ids: [3, 7],
+        tag_match: 'all',
+        contacted: false,
+      } as any);
+
+      expect(repository.findAll).toHaveBeenCalledWith(
+        {
+          AND: [
+            { tags: { some: { tag_id: 3 } } },
+            { tags: { some: { tag_id: 7 } } },
+          ],
+          last_outreach_at: null,
+        },
+        0,
+        10,
+        defaultOrderBy,
       );
     });
 
@@ -294,7 +366,7 @@ describe('BusinessService', () => {
 
       await service.findAll({ page: 1, limit: 10 } as any);
 
-      expect(repository.findAll).toHaveBeenCalledWith({}, 0, 10);
+      expect(repository.findAll).toHaveBeenCalledWith({}, 0, 10, defaultOrderBy);
     });
 
     it('should propagate repository errors', async () => {
@@ -305,6 +377,205 @@ describe('BusinessService', () => {
     });
   });
 
+  // ============================================================
+  // findAll() sorting / cursor Tests
+  // ============================================================
+  describe('findAll() sorting and cursor', () => {
+    beforeEach(() => {
+      cache.getList.mockResolvedValue(null);
+      cache.setList.mockResolvedValue(undefined);
+    });
+
+    it('should pass the requested sort with nulls last and an id tie-breaker', async () => {
+      repository.findAll.mockResolvedValue([[], 0]);
+
+      await service.findAll({ page: 1, limit: 10, sortBy: 'city', sortOrder: 'asc' } as any);
+
+      expect(repository.findAll).toHaveBeenCalledWith({}, 0, 10, [
+        { city: { sort: 'asc', nulls: 'last' } },
+        { id: 'asc' },
+      ]);
+    });
+
+    it('should return no nextCursor on the last offset page', async () => {
+      repository.findAll.mockResolvedValue([[mockBusiness], 1]);
+
+      const result = await service.findAll({ page: 1, limit: 10 } as any);
+
+      expect(result.meta.nextCursor).toBeNull();
+    });
+
+    it('should continue from a cursor with keyset pagination', async () => {
+      const first = { ...mockBusiness, id: 5, name: 'Bravo' };
+      const second = { ...mockBusiness, id: 4, name: 'Charlie' };
+      repository.findAll.mockResolvedValueOnce([[first], 3]);
+
+      const page1 = await service.findAll({
+        page: 1,
+        limit: 1,
+        sortBy: 'name',
+        sortOrder: 'asc',
+      } as any);
+      const cursor = page1.meta.nextCursor as string;
+      expect(cursor).toEqual(expect.any(String));
+
+      repository.findAll.mockResolvedValueOnce([[second, { ...mockBusiness, id: 9 }], 3]);
+      const page2 = await service.findAll({
+        limit: 1,
+        sortBy: 'name',
+        sortOrder: 'asc',
+        cursor,
+      } as any);
+
+      expect(repository.findAll).toHaveBeenLastCalledWith(
+        {},
+        0,
+        2,
+        [{ name: 'asc' }, { id: 'asc' }],
+        {
+          OR: [
+            { name: { gt: 'Bravo' } },
+            { name: 'Bravo', id: { gt: 5 } },
+          ],
+        },
+      );
+      expect(page2.data).toEqual([second]);
+      expect(page2.meta).toEqual({
+        total: 3,
+        limit: 1,
+        nextCursor: expect.any(String),
+      });
+    });
+
+    it('should reject a cursor issued for a different sort', async () => {
+      repository.findAll.mockResolvedValue([[mockBusiness, mockBusiness], 2]);
+      const page1 = await service.findAll({ limit: 1, sortBy: 'name', sortOrder: 'asc' } as any);
+
+      await expect(
+        service.findAll({
+          limit: 1,
+          sortBy: 'city',
+          sortOrder: 'asc',
+          cursor: page1.meta.nextCursor,
+        } as any),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a cursor combined with search', async () => {
+      await expect(
+        service.findAll({ limit: 10, search: 'plumb', cursor: 'abc' } as any),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.searchRankedIds).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================
+  // findAll() search Tests
+  // ============================================================
+  describe('findAll() with search', () => {
+    beforeEach(() => {
+      cache.getList.mockResolvedValue(null);
+      cache.setList.mockResolvedValue(undefined);
+    });
+
+    it('should not use the plain list query when searching', async () => {
+      repository.searchRankedIds.mockResolvedValue([]);
+
+      const result = await service.findAll({ page: 1, limit: 20, search: 'plumber' } as any);
+
+      expect(repository.searchRankedIds.mock.calls).toEqual([
+        ['plumber', 1001],
+      ]);
+      expect(repository.findAll).not.toHaveBeenCalled();
+      expect(result.meta.total).toBe(0);
+    });
+
+    it('should flag a search with more matches than the candidate limit', async () => {
+      repository.searchRankedIds.mockResolvedValue(
+        Array.from({ length: 1001 }, (_, i) => ({
+          id: i + 1,
+          rank: 1 - i / 2000,
+        })),
+      );
+      repository.findManyByIds.mockResolvedValue([
+        { ...mockBusiness, contacts: [] },
+      ] as never);
+
+      const { meta } = (await service.findAll({
+        page: 1,
+        limit: 20,
+        search: 'llc',
+      } as never)) as { meta: { total: number; truncated: boolean } };
+
+      expect(meta).toMatchObject({ total: 1000, truncated: true });
+    });
+
+    it('should return businesses in rank order with rank and highlights', async () => {
+      repository.searchRankedIds.mockResolvedValue([
+        { id: 2, rank: 0.9 },
+        { id: 1, rank: 0.4 },
+      ]);
+      repository.findManyByIds.mockResolvedValue([
+        { ...mockBusiness, id: 2, name: 'Antonios Plumbing', contacts: [] },
+        { ...mockBusiness, id: 1, contacts: [] },
+      ]);
+
+      const result = await service.findAll({ page: 1, limit: 20, search: 'antonio plumber' } as any);
+
+      expect(repository.findManyByIds).toHaveBeenCalledWith([2, 1]);
+      expect(result.data.map((b: any) => b.id)).toEqual([2, 1]);
+      expect(result.data[0].search_rank).toBe(0.9);
+      expect(result.data[0].highlights[0]).toEqual({
+        field: 'name',
+        value: 'Antonios Plumbing',
+        ranges: [
+          [0, 7],
+          [9, 14],
+        ],
+      });
+    });
+
+    it('should apply filters to ranked candidates and paginate after filtering', async () => {
+      repository.searchRankedIds.mockResolvedValue([
+        { id: 3, rank: 0.9 },
+        { id: 2, rank: 0.8 },
+        { id: 1, rank: 0.7 },
+      ]);
+      repository.findIds.mockResolvedValue([1, 3]);
+      repository.findManyByIds.mockResolvedValue([{ ...mockBusiness, id: 1, contacts: [] }]);
+
+      const result = await service.findAll({
+        page: 2,
+        limit: 1,
+        city: 'Freehold',
+        search: 'plumb',
+      } as any);
+
+      expect(repository.findIds).toHaveBeenCalledWith({
+        city: 'Freehold',
+        id: { in: [3, 2, 1] },
+      });
+      expect(repository.findManyByIds).toHaveBeenCalledWith([1]);
+      expect(result.meta).toEqual({
+        total: 2,
+        page: 2,
+        limit: 1,
+        totalPages: 2,
+        nextCursor: null,
+        truncated: false,
+      });
+    });
+
+    it('should skip the filter query when no filters are set', async () => {
+      repository.searchRankedIds.mockResolvedValue([{ id: 1, rank: 0.5 }]);
+      repository.findManyByIds.mockResolvedValue([{ ...mockBusiness, contacts: [] }]);
+
+      await service.findAll({ page: 1, limit: 20, search: 'test' } as any);
+
+      expect(repository.findIds).not.toHaveBeenCalled();
+    });
+  });
+
   // ============================================================
   // findOne() Tests
   // ============================================================
@@ -369,22 +640,169 @@ describe('BusinessService', () => {
     });
   });
 
+  // ============================================================
+  // update() Tests
+  // ============================================================
+  describe('update()', () => {
+    const userId = 'user-uuid-1';
+
+    beforeEach(() => {
+      repository.findOne.mockResolvedValue(mockBusinessWithRelations as any);
+      cache.invalidateAll.mockResolvedValue(undefined);
+    });
+
+    it('should record one change row per modified field', async () => {
+      const updated = { ...mockBusiness, name: 'Renamed LLC', industry: 'Plumbing' };
+      repository.updateWithChanges.mockResolvedValue(updated as any);
+
+      await service.update(1, { name: 'Renamed LLC', industry: 'Plumbing' }, userId);
+
+      expect(repository.updateWithChanges).toHaveBeenCalledWith(
+        1,
+        {
+          name: 'Renamed LLC',
+          industry: 'Plumbing',
+          field_sources: {
+            name: expect.objectContaining({ source: 'manual' }),
+            industry: expect.objectContaining({ source: 'manual' }),
+          },
+        },
+        [
+          { field: 'name', old_value: 'Test Plumbing LLC', new_value: 'Renamed LLC', changed_by: userId },
+          { field: 'industry', old_value: 'Home Services', new_value: 'Plumbing', changed_by: userId },
+        ],
+      );
+    });
+
+    it('should skip fields whose value is unchanged', async () => {
+      repository.updateWithChanges.mockResolvedValue(mockBusiness as any);
+
+      await service.update(1, { name: 'Test Plumbing LLC', employee_count: 12 }, userId);
+
+      const changes = repository.updateWithChanges.mock.calls[0][2];
+      expect(changes).toEqual([
+        { field: 'employee_count', old_value: '10', new_value: '12', changed_by: userId },
+      ]);
+    });
+
+    it('should record clearing a field as a null new value', async () => {
+      repository.updateWithChanges.mockResolvedValue({ ...mockBusiness, phone: null } as any);
+
+      await service.update(1, { phone: null } as any, userId);
+
+      const changes = repository.updateWithChanges.mock.calls[0][2];
+      expect(changes).toEqual([
+        { field: 'phone', old_value: '732-555-0100', new_value: null, changed_by: userId },
+      ]);
+    });
+
+    it('should record edited fields as manual and keep other sources', async () => {
+      const abstract = {
+        source: 'abstract',
+        confidence: null,
+        updated_at: '2026-10-01T00:00:00.000Z',
+      };
+      repository.findOne.mockResolvedValue({
+        ...mockBusinessWithRelations,
+        field_sources: { industry: abstract, employee_count: abstract },
+      } as any);
+      repository.updateWithChanges.mockResolvedValue(mockBusiness as any);
+
+      await service.update(1, { industry: 'Plumbing' }, userId);
+
+      const data = repository.updateWithChanges.mock.calls[0][1];
+      expect(data.field_sources).toEqual({
+        industry: expect.objectContaining({
+          source: 'manual',
+          confidence: null,
+        }),
+        employee_count: abstract,
+      });
+    });
+
+    it('should not write or emit anything when nothing changed', async () => {
+      const result = await service.update(1, { city: 'Freehold' }, userId);
+
+      expect(result).toEqual(mockBusinessWithRelations);
+      expect(repository.updateWithChanges).not.toHaveBeenCalled();
+      expect(cache.invalidateAll).not.toHaveBeenCalled();
+      expect(eventsGateway.emitBusinessUpdated).not.toHaveBeenCalled();
+    });
+
+    it('should invalidate caches and emit business:updated', async () => {
+      const updated = { ...mockBusiness, city: 'Marlboro' };
+      repository.updateWithChanges.mockResolvedValue(updated as any);
+
+      const result = await service.update(1, { city: 'Marlboro' }, userId);
+
+      expect(result).toEqual(updated);
+      expect(cache.invalidateAll).toHaveBeenCalledWith(1);
+      expect(eventsGateway.emitBusinessUpdated).toHaveBeenCalledWith(updated);
+    });
+
+    it('should attribute changes to null when no user is given', async () => {
+      repository.updateWithChanges.mockResolvedValue(mockBusiness as any);
+
+      await service.update(1, { city: 'Marlboro' });
+
+      const changes = repository.updateWithChanges.mock.calls[0][2];
+      expect(changes[0].changed_by).toBeNull();
+    });
+
+    it('should throw NotFoundException when business does not exist', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.update(999, { name: 'X' }, userId)).rejects.toThrow(NotFoundException);
+      expect(repository.updateWithChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================
+  // getHistory() Tests
+  // ============================================================
+  describe('getHistory()', () => {
+    it('should return paginated change history', async () => {
+      const change = { id: 1, business_id: 1, field: 'name', old_value: 'A', new_value: 'B' };
+      repository.exists.mockResolvedValue(true);
+      repository.findChanges.mockResolvedValue([[change], 51]);
+
+      const result = await service.getHistory(1, { page: 2, limit: 50 });
+
+      expect(repository.findChanges).toHaveBeenCalledWith(1, 50, 50);
+      expect(result).toEqual({
+        data: [change],
+        meta: { total: 51, page: 2, limit: 50, totalPages: 2 },
+      });
+    });
+
+    it('should throw NotFoundException when business does not exist', async () => {
+      repository.exists.mockResolvedValue(false);
+
+      await expect(service.getHistory(999, {})).rejects.toThrow(NotFoundException);
+      expect(repository.findChanges).not.toHaveBeenCalled();
+    });
+  });
+
   // ============================================================
   // remove() Tests
   // ============================================================
   describe('remove()', () => {
-    it('should delete business via repository', async () => {
-      repository.delete.mockResolvedValue(mockBusiness);
+    beforeEach(() => {
+      cache.getStats.mockResolvedValue(mockStats);
+    });
+
+    it('should move business to trash via repository', async () => {
+      repository.softDelete.mockResolvedValue(true);
       cache.invalidateAll.mockResolvedValue(undefined);
 
-      const result = await service.remove(1);
+      const result = await service.remove(1, 'admin-uuid');
 
-      expect(result).toEqual({ message: 'Business deleted successfully' });
-      expect(repository.delete).toHaveBeenCalledWith(1);
+      expect(result).toEqual({ message: 'Business moved to trash' });
+      expect(repository.softDelete).toHaveBeenCalledWith(1, 'admin-uuid');
     });
 
-    it('should invalidate caches with business ID after deletion', async () => {
-      repository.delete.mockResolvedValue(mockBusiness);
+    it('should invalidate caches with business ID after trashing', async () => {
+      repository.softDelete.mockResolvedValue(true);
       cache.invalidateAll.mockResolvedValue(undefined);
 
       await service.remove(1);
@@ -392,18 +810,27 @@ describe('BusinessService', () => {
       expect(cache.invalidateAll).toHaveBeenCalledWith(1);
     });
 
-    it('should throw NotFoundException when business does not exist', async () => {
-      repository.delete.mockRejectedValue(new Error('Record not found'));
+    it('should emit business:deleted and refreshed stats', async () => {
+      repository.softDelete.mockResolvedValue(true);
+
+      await service.remove(1);
+
+      expect(eventsGateway.emitEvent).toHaveBeenCalledWith('business:deleted', { id: 1 });
+      expect(eventsGateway.emitStatsUpdated).toHaveBeenCalledWith(mockStats);
+    });
+
+    it('should throw NotFoundException when business does not exist or is already trashed', async () => {
+      repository.softDelete.mockResolvedValue(false);
 
       await expect(service.remove(999)).rejects.toThrow(NotFoundException);
       await expect(service.remove(999)).rejects.toThrow('Business with ID 999 not found');
+      expect(cache.invalidateAll).not.toHaveBeenCalled();
     });
 
-    it('should wrap any repository error as NotFoundException', async () => {
-      // The service wraps all delete errors as NotFoundException
-      repository.delete.mockRejectedValue(new Error('Foreign key constraint'));
+    it('should propagate repository errors', async () => {
+      repository.softDelete.mockRejectedValue(new Error('Connection lost'));
 
-      await expect(service.remove(1)).rejects.toThrow(NotFoundException);
+      await expect(service.remove(1)).rejects.toThrow('Connection lost');
     });
   });
 
@@ -0,0 +1,110 @@
+/**
+ * Duplicate scoring helper tests
+ *
+ * Covers name/phone/domain normalization, the bigram name similarity and
+ * how signals combine into a pair score.
+ */
+
+import {
+  DUPLICATE_AUTO_MATCH_THRESHOLD,
+  DUPLICATE_REVIEW_THRESHOLD,
+  extractDomain,
+  nameSimilarity,
+  normalizeBusinessName,
+  normalizePhone,
+  scoreDuplicate,
+} from '../domain/duplicate-scoring.helper';
+
+describe('duplicate-scoring.helper', () => {
+  describe('normalizeBusinessName()', () => {
+    it('should drop punctuation, apostrophes and legal suffixes', () => {
+      expect(normalizeBusinessName("Joe's Pizza, LLC")).toBe('joes pizza');
+      expect(normalizeBusinessName('The Smith & Sons Co.')).toBe(
+        'smith and sons',
+      );
+    });
+  });
+
+  describe('normalizePhone()', () => {
+    it('should keep national digits only', () => {
+      expect(normalizePhone('+1 (732) 555-0100')).toBe('7325550100');
+      expect(normalizePhone('732.555.0100')).toBe('7325550100');
+    });
+
+    it('should ignore values too short to be a phone number', () => {
+      expect(normalizePhone('ext 12')).toBeNull();
+      expect(normalizePhone(null)).toBeNull();
+    });
+  });
+
+  describe('extractDomain()', () => {
+    it('should strip protocol, www and path', () => {
+      expect(extractDomain('https://www.JoesPizza.com/menu?x=1')).toBe(
+        'joespizza.com',
+      );
+      expect(extractDomain('joespizza.com')).toBe('joespizza.com');
+    });
+
+    it('should return null for values without a host', () => {
+      expect(extractDomain('n/a')).toBeNull();
+    });
+  });
+
+  describe('nameSimilarity()', () => {
+    it('should treat normalized-equal names as identical', () => {
+      expect(nameSimilarity("Joe's Pizza LLC", 'Joes Pizza')).toBe(1);
+    });
+
+    it('should score unrelated names low', () => {
+      expect(nameSimilarity('Joes Pizza', 'Freehold Dental')).toBeLessThan(0.3);
+    });
+  });
+
+  describe('scoreDuplicate()', () => {
+    it('should auto-match name variants sharing a phone', () => {
+      const result = scoreDuplicate(
+        { name: "Joe's Pizza LLC", phone: '732-555-0100' },
+        { name: 'Joes Pizza', phone: '(732) 555 0100' },
+      );
+
+      expect(result.score).toBeGreaterThanOrEqual(
+        DUPLICATE_AUTO_MATCH_THRESHOLD,
+      );
+      expect(result.signals).toEqual({ name: 1, phone: 1 });
+    });
+
+    it('should pull the score down when phones differ', () => {
+      const result = scoreDuplicate(
+        { name: 'Joes Pizza', phone: '732-555-0100' },
+        { name: 'Joes Pizza', phone: '732-555-0199' },
+      );
+
+      expect(result.score).toBeLessThan(DUPLICATE_REVIEW_THRESHOLD);
+    });
+
+    it('should queue identical names with nothing else for review only', () => {
+      const result = scoreDuplicate(
+        { name: 'Joes Pizza' },
+        { name: 'Joes Pizza' },
+      );
+
+      expect(result.score).toBeGreaterThanOrEqual(DUPLICATE_REVIEW_THRESHOLD);
+      expect(result.score).toBeLessThan(DUPLICATE_AUTO_MATCH_THRESHOLD);
+    });
+
+    it('should use distance between coordinates', () => {
+      const near = scoreDuplicate(
+        { name: 'Joes Pizza', latitude: 40.26, longitude: -74.27 },
+        { name: 'Joes Pizzeria', latitude: 40.2601, longitude: -74.2701 },
+      );
+      const far = scoreDuplicate(
+        { name: 'Joes Pizza', latitude: 40.26, longitude: -74.27 },
+        { name: 'Joes Pizzeria', latitude: 40.36, longitude: -74.27 },
+      );
+
+      expect(near.signals.distance_m).toBeLessThan(50);
+      expect(far.signals.distance_m).toBeGreaterThan(10000);
+      expect(near.score).toBeGreaterThan(far.score);
+    });
+  });
+});
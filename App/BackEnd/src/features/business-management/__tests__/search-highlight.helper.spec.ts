@@ -0,0 +1,106 @@
+/**
+ * Search highlight helper tests
+ *
+ * Covers tokenization, prefix-based fuzzy matching ("plumber" → "Plumb"),
+ * range merging, and per-field highlight building for contacts.
+ */
+
+import {
+  buildSearchHighlights,
+  findMatchRanges,
+  tokenizeSearchTerm,
+} from '../domain/search-highlight.helper';
+
+describe('search-highlight.helper', () => {
+  describe('tokenizeSearchTerm()', () => {
+    it('should lowercase and split on whitespace and punctuation', () => {
+      expect(tokenizeSearchTerm('Antonio, Plumber')).toEqual([
+        'antonio',
+        'plumber',
+      ]);
+    });
+
+    it('should keep email-like tokens intact', () => {
+      expect(tokenizeSearchTerm('john@acme.com')).toEqual(['john@acme.com']);
+    });
+
+    it('should drop single-character tokens', () => {
+      expect(tokenizeSearchTerm('a b plumbing')).toEqual(['plumbing']);
+    });
+  });
+
+  describe('findMatchRanges()', () => {
+    it('should match the longest prefix of each token', () => {
+      expect(
+        findMatchRanges('Antonios Plumbing', ['antonio', 'plumber']),
+      ).toEqual([
+        [0, 7],
+        [9, 14],
+      ]);
+    });
+
+    it('should not match prefixes shorter than three characters', () => {
+      expect(findMatchRanges('Pizza Place', ['plumber'])).toEqual([]);
+    });
+
+    it('should merge overlapping ranges', () => {
+      expect(findMatchRanges('plumbing', ['plumb', 'plumbing'])).toEqual([
+        [0, 8],
+      ]);
+    });
+
+    it('should return every occurrence', () => {
+      expect(findMatchRanges('Main St & Main Ave', ['main'])).toEqual([
+        [0, 4],
+        [10, 14],
+      ]);
+    });
+  });
+
+  describe('buildSearchHighlights()', () => {
+    const business = {
+      name: 'Antonios Plumbing',
+      address: '12 Main St',
+      website: null,
+      phone: '732-555-0100',
+      contacts: [{ name: 'Antonio Russo', email: 'tony@antonios.com' }],
+    };
+
+    it('should only include fields with matches', () => {
+      const highlights = buildSearchHighlights(business, 'antonio plumber');
+
+      expect(highlights.map((h) => h.field)).toEqual([
+        'name',
+        'contacts.0.name',
+        'contacts.0.email',
+      ]);
+      expect(highlights[0]).toEqual({
+        field: 'name',
+        value: 'Antonios Plumbing',
+        ranges: [
+          [0, 7],
+          [9, 14],
+        ],
+      });
+    });
+
+    it('should match phone digit groups', () => {
+      const highlights = buildSearchHighlights(business, '555-0100');
+
+      expect(highlights).toEqual([
+        {
+          field: 'phone',
+          value: '732-555-0100',
+          ranges: [
+            [4, 7],
+            [8, 12],
+          ],
+        },
+      ]);
+    });
+
+    it('should return nothing for an empty term', () => {
+      expect(buildSearchHighlights(business, '  ')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * UpdateBusinessDto validation tests
+ *
+ * Covers omitted fields, nulls clearing optional fields and nulls refused
+ * for the required name.
+ */
+
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UpdateBusinessDto } from '../api/dto/update-business.dto';
+
+describe('UpdateBusinessDto', () => {
+  const errorsOf = async (body: Record<string, unknown>) => {
+    const errors = await validate(plainToInstance(UpdateBusinessDto, body));
+    return errors.map((error) => error.property);
+  };
+
+  it('should accept a partial update without the name', async () => {
+    await expect(errorsOf({ city: 'Freehold' })).resolves.toEqual([]);
+  });
+
+  it('should accept null to clear an optional field', async () => {
+    await expect(errorsOf({ phone: null, website: null })).resolves.toEqual([]);
+  });
+
+  it('should refuse a null or empty name', async () => {
+    await expect(errorsOf({ name: null })).resolves.toEqual(['name']);
+    await expect(errorsOf({ name: '' })).resolves.toEqual(['name']);
+    await expect(errorsOf({ name: 'Freehold Plumbing' })).resolves.toEqual([]);
+  });
+});
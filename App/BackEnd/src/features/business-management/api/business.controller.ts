@@ -2,6 +2,8 @@ import {
   Controller,
   Get,
   Post,
+  Put,
+  Patch,
   Delete,
   Body,
   Param,
@@ -10,12 +12,39 @@ import {
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { Role } from '@prisma/client';
 import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
 import { BusinessService } from '../domain/business.service';
+import { BusinessBulkService } from '../domain/business-bulk.service';
+import { BusinessDedupService } from '../domain/business-dedup.service';
+import { BusinessPipelineService } from '../domain/business-pipeline.service';
+import { BusinessTrashService } from '../domain/business-trash.service';
 import { CreateBusinessDto } from './dto/create-business.dto';
 import { QueryBusinessesDto } from './dto/query-businesses.dto';
+import { UpdateBusinessDto } from './dto/update-business.dto';
+import { QueryBusinessHistoryDto } from './dto/query-business-history.dto';
+import { QueryBusinessTrashDto } from './dto/query-business-trash.dto';
+import {
+  BulkActionResultDto,
+  BulkBusinessSelectionDto,
+  BulkTagBusinessesDto,
+} from './dto/bulk-business.dto';
+import {
+  MergeBusinessDuplicateDto,
+  QueryBusinessDuplicatesDto,
+} from './dto/business-duplicate.dto';
+import {
+  AssignBusinessDto,
+  MoveBusinessStageDto,
+} from './dto/business-pipeline.dto';
 
 /**
  * Business API controller.
@@ -24,15 +53,35 @@ import { QueryBusinessesDto } from './dto/query-businesses.dto';
  * - POST /api/businesses - Create new business
  * - GET /api/businesses - List with filtering/pagination
  * - GET /api/businesses/stats - Get statistics
+ * - POST /api/businesses/bulk-delete - Move to trash by ID list or filter
+ * - POST /api/businesses/bulk-enrich - Queue enrichment by ID list or filter
+ * - POST /api/businesses/bulk-tag - Add/remove tags by ID list or filter
+ * - GET /api/businesses/duplicates - Duplicate review queue
+ * - POST /api/businesses/duplicates/:pairId/merge - Merge a duplicate pair
+ * - POST /api/businesses/duplicates/:pairId/dismiss - Mark pair as distinct
+ * - POST /api/businesses/:id/duplicates/scan - Queue duplicates of a business
+ * - GET /api/businesses/trash - Trashed businesses with purge dates
+ * - POST /api/businesses/:id/restore - Restore a business from the trash
  * - GET /api/businesses/:id - Get single business
- * - DELETE /api/businesses/:id - Delete business
+ * - PATCH/PUT /api/businesses/:id - Update business (records change history)
+ * - GET /api/businesses/:id/history - Field-level change history
+ * - PATCH /api/businesses/:id/stage - Move lead to a pipeline stage
+ * - PATCH /api/businesses/:id/assignee - Assign/claim/release a lead
+ * - GET /api/businesses/:id/stage-history - Pipeline stage transitions
+ * - DELETE /api/businesses/:id - Move business to trash
  *
  * All mutations emit WebSocket events for real-time frontend updates.
  */
 @ApiTags('Businesses')
 @Controller('api/businesses')
 export class BusinessController {
-  constructor(private readonly businessService: BusinessService) {}
+  constructor(
+    private readonly businessService: BusinessService,
+    private readonly bulkService: BusinessBulkService,
+    private readonly dedupService: BusinessDedupService,
+    private readonly pipelineService: BusinessPipelineService,
+    private readonly trashService: BusinessTrashService,
+  ) {}
 
   @Post()
   @Roles(Role.ADMIN)
@@ -45,6 +94,51 @@ export class BusinessController {
     return this.businessService.create(createBusinessDto);
   }
 
+  @Post('bulk-delete')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Move businesses to trash by ID list or filter' })
+  @ApiResponse({ status: 200, type: BulkActionResultDto })
+  @ApiResponse({ status: 400, description: 'Invalid selection' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  bulkDelete(
+    @Body() dto: BulkBusinessSelectionDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.bulkService.bulkDelete(dto, user?.id);
+  }
+
+  @Post('bulk-enrich')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Queue enrichment by ID list or filter' })
+  @ApiResponse({ status: 200, type: BulkActionResultDto })
+  @ApiResponse({ status: 400, description: 'Invalid selection' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  bulkEnrich(
+    @Body() dto: BulkBusinessSelectionDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.bulkService.bulkEnrich(dto, user?.id);
+  }
+
+  @Post('bulk-tag')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Add/remove tags by ID list or filter' })
+  @ApiResponse({ status: 200, type: BulkActionResultDto })
+  @ApiResponse({ status: 400, description: 'Invalid selection or no tags' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  bulkTag(@Body() dto: BulkTagBusinessesDto, @CurrentUser() user: RequestUser) {
+    return this.bulkService.bulkTag(dto, user?.id);
+  }
+
   @Get()
   @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
   @ApiBearerAuth()
@@ -65,6 +159,89 @@ export class BusinessController {
     return this.businessService.getStats();
   }
 
+  @Get('duplicates')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List duplicate candidate pairs for review' })
+  @ApiResponse({ status: 200, description: 'Paginated candidate pairs' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  listDuplicates(@Query() query: QueryBusinessDuplicatesDto) {
+    return this.dedupService.listPairs(query);
+  }
+
+  @Post('duplicates/:pairId/merge')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Merge a duplicate pair into one business' })
+  @ApiResponse({ status: 200, description: 'Surviving business' })
+  @ApiResponse({ status: 400, description: 'survivor_id not in pair' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Pair not found' })
+  @ApiResponse({ status: 409, description: 'Pair was dismissed' })
+  mergeDuplicate(
+    @Param('pairId', ParseIntPipe) pairId: number,
+    @Body() dto: MergeBusinessDuplicateDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.dedupService.merge(pairId, dto, user?.id);
+  }
+
+  @Post('duplicates/:pairId/dismiss')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a duplicate pair as distinct businesses' })
+  @ApiResponse({ status: 200, description: 'Dismissed pair' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Pair not found' })
+  dismissDuplicate(
+    @Param('pairId', ParseIntPipe) pairId: number,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.dedupService.dismiss(pairId, user?.id);
+  }
+
+  @Post(':id/duplicates/scan')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Scan a business for duplicates and queue them' })
+  @ApiResponse({ status: 200, description: 'Matches found, best first' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  scanDuplicates(@Param('id', ParseIntPipe) id: number) {
+    return this.dedupService.scanBusiness(id);
+  }
+
+  @Get('trash')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List trashed businesses' })
+  @ApiResponse({ status: 200, description: 'Paginated trash with purge dates' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  listTrash(@Query() query: QueryBusinessTrashDto) {
+    return this.trashService.findAll(query);
+  }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a business from the trash' })
+  @ApiResponse({ status: 200, description: 'Restored business' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Business not in trash' })
+  restore(@Param('id', ParseIntPipe) id: number) {
+    return this.trashService.restore(id);
+  }
+
   @Get(':id')
   @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
   @ApiBearerAuth()
@@ -76,16 +253,122 @@ export class BusinessController {
     return this.businessService.findOne(id);
   }
 
+  @Get(':id/history')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get field-level change history for a business' })
+  @ApiResponse({ status: 200, description: 'Paginated change history' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  getHistory(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: QueryBusinessHistoryDto,
+  ) {
+    return this.businessService.getHistory(id, query);
+  }
+
+  @Get(':id/stage-history')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get pipeline stage transitions for a business' })
+  @ApiResponse({ status: 200, description: 'Paginated stage transitions' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  getStageHistory(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: QueryBusinessHistoryDto,
+  ) {
+    return this.pipelineService.getStageHistory(id, query);
+  }
+
+  @Patch(':id/stage')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Move a lead to another pipeline stage' })
+  @ApiResponse({ status: 200, description: 'Business moved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Members can only move their own leads',
+  })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  moveStage(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: MoveBusinessStageDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.pipelineService.moveStage(id, dto, user);
+  }
+
+  @Patch(':id/assignee')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Assign, claim or release a lead' })
+  @ApiResponse({ status: 200, description: 'Business assigned' })
+  @ApiResponse({ status: 400, description: 'Invalid assignee' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Members can only claim or release',
+  })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  assign(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: AssignBusinessDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.pipelineService.assign(id, dto, user);
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a business' })
+  @ApiResponse({ status: 200, description: 'Business updated successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateBusinessDto: UpdateBusinessDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.businessService.update(id, updateBusinessDto, user?.id);
+  }
+
+  /**
+   * PUT alias for PATCH. Same partial-update semantics, kept for clients
+   * that send PUT.
+   */
+  @Put(':id')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a business (PUT alias)' })
+  @ApiResponse({ status: 200, description: 'Business updated successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  replace(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateBusinessDto: UpdateBusinessDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.businessService.update(id, updateBusinessDto, user?.id);
+  }
+
   @Delete(':id')
   @Roles(Role.ADMIN)
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a business' })
-  @ApiResponse({ status: 204, description: 'Business deleted successfully' })
+  @ApiOperation({ summary: 'Move a business to the trash' })
+  @ApiResponse({ status: 204, description: 'Business moved to trash' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
   @ApiResponse({ status: 404, description: 'Business not found' })
-  remove(@Param('id', ParseIntPipe) id: number) {
-    return this.businessService.remove(id);
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.businessService.remove(id, user?.id);
   }
 }
@@ -0,0 +1,101 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BusinessFilterDto } from './business-filter.dto';
+
+/**
+ * Selects the businesses a bulk action applies to.
+ *
+ * Exactly one of `ids` or `filter` must be provided. A filter must contain
+ * at least one criterion so an empty body can never target every business.
+ */
+export class BulkBusinessSelectionDto {
+  @ApiPropertyOptional({
+    description: 'Business IDs to act on',
+    type: [Number],
+    example: [1, 2, 3],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10000)
+  @Type(() => Number)
+  @IsInt({ each: true })
+  ids?: number[];
+
+  @ApiPropertyOptional({
+    description: 'Filter selecting businesses to act on',
+    type: BusinessFilterDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BusinessFilterDto)
+  filter?: BusinessFilterDto;
+}
+
+export class BulkTagBusinessesDto extends BulkBusinessSelectionDto {
+  @ApiPropertyOptional({
+    description: 'Tag names to add',
+    type: [String],
+    example: ['hot-lead'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  add?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Tag names to remove',
+    type: [String],
+    example: ['cold'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  remove?: string[];
+}
+
+export class BulkActionFailureDto {
+  @ApiProperty({ description: 'Business ID', example: 42 })
+  id: number;
+
+  @ApiProperty({ description: 'Why the action failed', example: 'Not found' })
+  reason: string;
+}
+
+export class BulkActionResultDto {
+  @ApiProperty({ enum: ['delete', 'enrich', 'tag'], example: 'delete' })
+  action: 'delete' | 'enrich' | 'tag';
+
+  @ApiProperty({ description: 'Businesses selected', example: 10 })
+  total: number;
+
+  @ApiProperty({
+    description: 'Businesses processed (or queued, when queued is true)',
+    example: 9,
+  })
+  success: number;
+
+  @ApiProperty({ description: 'Businesses that failed', example: 1 })
+  failed: number;
+
+  @ApiProperty({ type: [BulkActionFailureDto] })
+  failures: BulkActionFailureDto[];
+
+  @ApiProperty({
+    description: 'True when work was handed to the job queue',
+    example: false,
+  })
+  queued: boolean;
+
+  @ApiPropertyOptional({ description: 'Job ID when a bulk job was queued' })
+  jobId?: string;
+}
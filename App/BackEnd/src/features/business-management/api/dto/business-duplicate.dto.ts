@@ -0,0 +1,52 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsInt, IsIn, IsNumber, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QueryBusinessDuplicatesDto {
+  @ApiPropertyOptional({
+    description: 'Review status',
+    enum: ['pending', 'dismissed'],
+    default: 'pending',
+  })
+  @IsOptional()
+  @IsIn(['pending', 'dismissed'])
+  status?: 'pending' | 'dismissed' = 'pending';
+
+  @ApiPropertyOptional({
+    description: 'Minimum pair score (0-1)',
+    example: 0.8,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  min_score?: number;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class MergeBusinessDuplicateDto {
+  @ApiPropertyOptional({
+    description:
+      'Business to keep. Must be one of the pair; defaults to the older record.',
+    example: 12,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  survivor_id?: number;
+}
@@ -0,0 +1,88 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PipelineStage } from '@prisma/client';
+
+/**
+ * Filter fields shared by list queries and bulk selections.
+ */
+export class BusinessFilterDto {
+  @ApiPropertyOptional({ description: 'Filter by city' })
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by industry' })
+  @IsOptional()
+  @IsString()
+  industry?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by enrichment status',
+    enum: ['pending', 'enriched', 'failed'],
+  })
+  @IsOptional()
+  @IsString()
+  enrichment_status?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by pipeline stage',
+    enum: PipelineStage,
+  })
+  @IsOptional()
+  @IsEnum(PipelineStage)
+  pipeline_stage?: PipelineStage;
+
+  @ApiPropertyOptional({
+    description: "Filter by assignee user ID, or 'unassigned'",
+  })
+  @IsOptional()
+  @IsString()
+  assigned_to?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Filter by tag IDs. Accepts repeated params (?tag_ids=1&tag_ids=2) ' +
+      'or a comma-separated list (?tag_ids=1,2)',
+    type: [Number],
+    example: [3, 7],
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    (Array.isArray(value) ? value : String(value).split(','))
+      .filter((id) => id !== '')
+      .map(Number),
+  )
+  @IsArray()
+  @IsInt({ each: true })
+  tag_ids?: number[];
+
+  @ApiPropertyOptional({
+    description:
+      "How tag_ids combine: 'any' matches one of the tags, 'all' requires every tag",
+    enum: ['any', 'all'],
+    default: 'any',
+  })
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  tag_match?: 'any' | 'all';
+
+  @ApiPropertyOptional({
+    description:
+      'Filter by whether outreach has been sent (false = not yet contacted)',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  contacted?: boolean;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { PipelineStage } from '@prisma/client';
+
+export class MoveBusinessStageDto {
+  @ApiProperty({
+    description: 'Target pipeline stage',
+    enum: PipelineStage,
+    example: PipelineStage.contacted,
+  })
+  @IsEnum(PipelineStage)
+  stage: PipelineStage;
+
+  @ApiPropertyOptional({
+    description: 'Why the lead moved (e.g. reason it was lost)',
+    example: 'Already a member of another chapter',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class AssignBusinessDto {
+  @ApiProperty({
+    description: 'User ID of the new owner, or null to unassign',
+    nullable: true,
+    type: String,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  user_id: string | null;
+}
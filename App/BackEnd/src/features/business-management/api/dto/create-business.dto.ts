@@ -1,5 +1,11 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, IsNumber, IsUrl } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsUrl,
+  IsEmail,
+} from 'class-validator';
 
 export class CreateBusinessDto {
   @ApiProperty({ description: 'Business name' })
@@ -36,6 +42,11 @@ export class CreateBusinessDto {
   @IsUrl()
   website?: string;
 
+  @ApiPropertyOptional({ description: 'General business email' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
   @ApiPropertyOptional({ description: 'Business type' })
   @IsOptional()
   @IsString()
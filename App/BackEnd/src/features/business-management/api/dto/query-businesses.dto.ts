@@ -1,8 +1,28 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsInt, Min } from 'class-validator';
-import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsInt,
+  IsString,
+  IsIn,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { BusinessFilterDto } from './business-filter.dto';
 
-export class QueryBusinessesDto {
+export const BUSINESS_SORT_FIELDS = [
+  'created_at',
+  'updated_at',
+  'name',
+  'city',
+  'industry',
+  'contact_count',
+  'last_outreach_at',
+] as const;
+
+export type BusinessSortField = (typeof BUSINESS_SORT_FIELDS)[number];
+
+export class QueryBusinessesDto extends BusinessFilterDto {
   @ApiPropertyOptional({ description: 'Page number', default: 1 })
   @IsOptional()
   @Type(() => Number)
@@ -17,21 +37,41 @@ export class QueryBusinessesDto {
   @Min(1)
   limit?: number = 20;
 
-  @ApiPropertyOptional({ description: 'Filter by city' })
+  @ApiPropertyOptional({
+    description:
+      'Fuzzy search over name, address, website, phone and contact names/emails. ' +
+      'Results are ranked by relevance and include highlight ranges.',
+    example: 'antonio plumber',
+  })
   @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim() || undefined : value,
+  )
   @IsString()
-  city?: string;
+  @MaxLength(100)
+  search?: string;
 
-  @ApiPropertyOptional({ description: 'Filter by industry' })
+  @ApiPropertyOptional({
+    description: 'Sort column (ignored when search is set)',
+    enum: BUSINESS_SORT_FIELDS,
+    default: 'created_at',
+  })
   @IsOptional()
-  @IsString()
-  industry?: string;
+  @IsIn(BUSINESS_SORT_FIELDS)
+  sortBy?: BusinessSortField = 'created_at';
+
+  @ApiPropertyOptional({ enum: ['asc', 'desc'], default: 'desc' })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc' = 'desc';
 
   @ApiPropertyOptional({
-    description: 'Filter by enrichment status',
-    enum: ['pending', 'enriched', 'failed'],
+    description:
+      'Opaque cursor from meta.nextCursor. When set, page is ignored and ' +
+      'results continue after the cursor row, unaffected by new inserts.',
   })
   @IsOptional()
   @IsString()
-  enrichment_status?: string;
+  @MaxLength(500)
+  cursor?: string;
 }
@@ -0,0 +1,39 @@
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { CreateBusinessDto } from './create-business.dto';
+
+/**
+ * Partial business update.
+ *
+ * Every field from CreateBusinessDto is optional. Omitted fields are left
+ * untouched; explicit nulls clear the stored value, except for the name,
+ * which the business cannot be without.
+ */
+export class UpdateBusinessDto extends PartialType(CreateBusinessDto) {
+  @ApiPropertyOptional({ description: 'Business name' })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Employee count' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  employee_count?: number;
+
+  @ApiPropertyOptional({ description: 'Year founded' })
+  @IsOptional()
+  @IsInt()
+  @Min(1800)
+  @Max(2100)
+  year_founded?: number;
+}
@@ -2,11 +2,18 @@ import { Module } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { BusinessController } from './api/business.controller';
 import { BusinessService } from './domain/business.service';
+import { BusinessBulkService } from './domain/business-bulk.service';
 import { BusinessCacheService } from './domain/business-cache.service';
+import { BusinessDedupService } from './domain/business-dedup.service';
+import { BusinessPipelineService } from './domain/business-pipeline.service';
+import { BusinessTrashService } from './domain/business-trash.service';
+import { DuplicateDetectorService } from './domain/duplicate-detector.service';
 import { BusinessRepository } from './data/business.repository';
+import { BusinessDuplicateRepository } from './data/business-duplicate.repository';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { WebsocketModule } from '../../websocket/websocket.module';
 import { CachingModule } from '../../caching/caching.module';
+import { JobQueueModule } from '../job-queue/job-queue.module';
 
 /**
  * Business Management feature module.
@@ -20,6 +27,7 @@ import { CachingModule } from '../../caching/caching.module';
  * - PrismaModule: Database access via repository
  * - WebsocketModule: Real-time event emission
  * - CachingModule: Redis caching for performance
+ * - JobQueueModule: Bulk operations on large selections
  *
  * Exports:
  * - BusinessService: For use by enrichment and other features
@@ -29,9 +37,25 @@ import { CachingModule } from '../../caching/caching.module';
  * updating App/BackEnd/src/enrichment/enrichment.module.ts
  */
 @Module({
-  imports: [PrismaModule, WebsocketModule, CachingModule, EventEmitterModule],
+  imports: [
+    PrismaModule,
+    WebsocketModule,
+    CachingModule,
+    EventEmitterModule,
+    JobQueueModule,
+  ],
   controllers: [BusinessController],
-  providers: [BusinessService, BusinessCacheService, BusinessRepository],
+  providers: [
+    BusinessService,
+    BusinessBulkService,
+    BusinessCacheService,
+    BusinessDedupService,
+    BusinessPipelineService,
+    BusinessTrashService,
+    DuplicateDetectorService,
+    BusinessRepository,
+    BusinessDuplicateRepository,
+  ],
   exports: [BusinessService],
 })
 export class BusinessManagementModule {}
@@ -0,0 +1,288 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { Prisma } from '@prisma/client';
+import {
+  DuplicateProbe,
+  DuplicateSignals,
+} from '../domain/duplicate-scoring.helper';
+
+/** Half-width of the bounding box used for geo candidates (~550 m). */
+const GEO_BOX_DEGREES = 0.005;
+
+export interface DuplicateCandidateRow {
+  id: number;
+  name: string;
+  phone: string | null;
+  website: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface BusinessChangeRecord {
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+/**
+ * Data access for duplicate detection and merging.
+ *
+ * Responsibilities:
+ * - Cheap candidate lookup (blocking) before scoring in the domain layer
+ * - Review queue persistence (business_duplicate)
+ * - Transactional merge that re-parents all child rows
+ */
+@Injectable()
+export class BusinessDuplicateRepository {
+  private readonly logger = new Logger(BusinessDuplicateRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Find businesses that could be duplicates of the probe.
+   *
+   * Matches on trigram name similarity, identical phone digits, website
+   * domain, or a small bounding box around the coordinates. Results are
+   * unscored; see scoreDuplicate().
+   *
+   * @param probe - Record to compare (its own id is excluded)
+   * @param phoneDigits - Normalized phone digits of the probe
+   * @param domain - Website domain of the probe
+   * @param limit - Maximum number of candidates
+   * @returns Candidate rows with the fields needed for scoring
+   */
+  async findCandidates(
+    probe: DuplicateProbe,
+    phoneDigits: string | null,
+    domain: string | null,
+    limit: number,
+  ): Promise<DuplicateCandidateRow[]> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`b.name % ${probe.name}`];
+
+    if (phoneDigits) {
+      conditions.push(
+        Prisma.sql`regexp_replace(coalesce(b.phone, ''), '\\D', '', 'g') IN (${phoneDigits}, ${`1${phoneDigits}`})`,
+      );
+    }
+    if (domain) {
+      conditions.push(Prisma.sql`b.website ILIKE ${`%${domain}%`}`);
+    }
+    if (probe.latitude != null && probe.longitude != null) {
+      conditions.push(Prisma.sql`(
+        b.latitude BETWEEN ${probe.latitude - GEO_BOX_DEGREES} AND ${probe.latitude + GEO_BOX_DEGREES}
+        AND b.longitude BETWEEN ${probe.longitude - GEO_BOX_DEGREES} AND ${probe.longitude + GEO_BOX_DEGREES}
+      )`);
+    }
+
+    return this.prisma.$queryRaw<DuplicateCandidateRow[]>`
+      SELECT b.id, b.name, b.phone, b.website, b.latitude, b.longitude
+      FROM business b
+      WHERE b.id <> ${probe.id ?? -1}
+        AND b.deleted_at IS NULL
+        AND (${Prisma.join(conditions, ' OR ')})
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Insert or refresh a candidate pair. Dismissed pairs stay dismissed.
+   *
+   * @param businessId - Lower id of the pair
+   * @param duplicateId - Higher id of the pair
+   * @param score - Pair score
+   * @param signals - Individual signal values
+   */
+  async upsertPair(
+    businessId: number,
+    duplicateId: number,
+    score: number,
+    signals: DuplicateSignals,
+  ) {
+    return this.prisma.business_duplicate.upsert({
+      where: {
+        business_id_duplicate_id: {
+          business_id: businessId,
+          duplicate_id: duplicateId,
+        },
+      },
+      create: {
+        business_id: businessId,
+        duplicate_id: duplicateId,
+        score,
+        signals,
+      },
+      update: { score, signals },
+    });
+  }
+
+  /**
+   * List candidate pairs, highest score first. Pairs with a trashed
+   * business are hidden until it is restored.
+   *
+   * @returns Tuple of [pairs with both businesses, total count]
+   */
+  async findPairs(
+    filter: Prisma.business_duplicateWhereInput,
+    skip: number,
+    take: number,
+  ): Promise<[any[], number]> {
+    const where: Prisma.business_duplicateWhereInput = {
+      ...filter,
+      business: { deleted_at: null },
+      duplicate: { deleted_at: null },
+    };
+    const business = {
+      select: {
+        id: true,
+        name: true,
+        address: true,
+        city: true,
+        phone: true,
+        website: true,
+        latitude: true,
+        longitude: true,
+        enrichment_status: true,
+        contact_count: true,
+        created_at: true,
+      },
+    };
+
+    return Promise.all([
+      this.prisma.business_duplicate.findMany({
+        where,
+        skip,
+        take,
+        include: { business, duplicate: business },
+        orderBy: [{ score: 'desc' }, { id: 'asc' }],
+      }),
+      this.prisma.business_duplicate.count({ where }),
+    ]);
+  }
+
+  /**
+   * Find a single candidate pair by ID.
+   */
+  async findPair(id: number) {
+    return this.prisma.business_duplicate.findUnique({ where: { id } });
+  }
+
+  /**
+   * Mark a candidate pair as dismissed (not a duplicate).
+   */
+  async dismissPair(id: number, userId?: string) {
+    return this.prisma.business_duplicate.update({
+      where: { id },
+      data: {
+        status: 'dismissed',
+        resolved_by: userId ?? null,
+        resolved_at: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Number of chapter members linked to any of the businesses.
+   */
+  async countChapterMembers(businessIds: number[]) {
+    return this.prisma.chapter_member.count({
+      where: { business_id: { in: businessIds } },
+    });
+  }
+
+  /**
+   * Merge one business into another.
+   *
+   * In a single transaction: re-parents contacts, enrichment logs, outreach
+   * messages, cost logs, change history, stage transitions, activity, tasks,
+   * tags, the chapter member link and staged scrape results onto the
+   * survivor, applies the survivor's field updates with their history rows,
+   * then deletes the merged business (which removes its candidate pairs).
+   * The caller makes sure at most one of the two has a chapter member.
+   *
+   * @param survivorId - Business that is kept
+   * @param mergedId - Business that is folded in and deleted
+   * @param data - Field updates for the survivor
+   * @param changes - History rows to record on the survivor
+   * @param userId - User performing the merge
+   * @returns Updated survivor with contacts
+   */
+  async merge(
+    survivorId: number,
+    mergedId: number,
+    data: Prisma.businessUncheckedUpdateInput,
+    changes: BusinessChangeRecord[],
+    userId?: string,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const reparent = {
+        where: { business_id: mergedId },
+        data: { business_id: survivorId },
+      };
+
+      // Only one primary contact per business; the survivor's is kept
+      const survivorPrimary = await tx.contact.count({
+        where: { business_id: survivorId, is_primary: true },
+      });
+      if (survivorPrimary > 0) {
+        await tx.contact.updateMany({
+          where: { business_id: mergedId, is_primary: true },
+          data: { is_primary: false },
+        });
+      }
+      await tx.contact.updateMany(reparent);
+      await tx.enrichment_log.updateMany(reparent);
+      await tx.outreach_message.updateMany(reparent);
+      await tx.api_cost_log.updateMany(reparent);
+      await tx.business_change.updateMany(reparent);
+      await tx.business_stage_transition.updateMany(reparent);
+      await tx.business_activity.updateMany(reparent);
+      await tx.business_task.updateMany(reparent);
+      await tx.chapter_member.updateMany(reparent);
+      await tx.scrape_staged_result.updateMany(reparent);
+      await tx.scrape_staged_result.updateMany({
+        where: { duplicate_of: mergedId },
+        data: { duplicate_of: survivorId },
+      });
+
+      // Tags already on the survivor would violate the composite key
+      const survivorTags = await tx.business_tag.findMany({
+        where: { business_id: survivorId },
+        select: { tag_id: true },
+      });
+      await tx.business_tag.deleteMany({
+        where: {
+          business_id: mergedId,
+          tag_id: { in: survivorTags.map((t) => t.tag_id) },
+        },
+      });
+      await tx.business_tag.updateMany(reparent);
+
+      // google_place_id is unique; release it before the survivor takes it
+      if (data.google_place_id) {
+        await tx.business.update({
+          where: { id: mergedId },
+          data: { google_place_id: null },
+        });
+      }
+
+      const survivor = await tx.business.update({
+        where: { id: survivorId },
+        data,
+        include: { contacts: true },
+      });
+
+      await tx.business_change.createMany({
+        data: changes.map((change) => ({
+          ...change,
+          business_id: survivorId,
+          changed_by: userId ?? null,
+        })),
+      });
+
+      await tx.business.delete({ where: { id: mergedId } });
+
+      this.logger.log(`Merged business ${mergedId} into ${survivorId}`);
+      return survivor;
+    });
+  }
+}
@@ -1,6 +1,18 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { Prisma } from '@prisma/client';
+import { PipelineStage, Prisma } from '@prisma/client';
+
+/** Tag chips returned with list rows and the detail view. */
+const TAGS_INCLUDE = {
+  select: { tag: { select: { id: true, name: true, color: true } } },
+  orderBy: { tag: { name: 'asc' } },
+} satisfies Prisma.business$tagsArgs;
+
+/**
+ * Businesses outside the trash. Every read that serves lists, detail views
+ * or stats must include it; trash queries use `deleted_at: { not: null }`.
+ */
+const NOT_DELETED = { deleted_at: null } satisfies Prisma.businessWhereInput;
 
 /**
  * Business data access layer following repository pattern.
@@ -8,7 +20,8 @@ import { Prisma } from '@prisma/client';
  * Responsibilities:
  * - All direct Prisma database operations for business entity
  * - Query building and optimization
- * - Related data inclusion (contacts, enrichment_logs, outreach_messages)
+ * - Related data inclusion (contacts, tags, enrichment_logs, outreach_messages)
+ * - Hiding trashed (soft-deleted) businesses from regular reads
  *
  * Does NOT:
  * - Handle caching (domain/business-cache.service.ts)
@@ -42,24 +55,34 @@ export class BusinessRepository {
    * @param where - Filter conditions
    * @param skip - Number of records to skip (for pagination)
    * @param take - Number of records to take (page size)
+   * @param orderBy - Sort order (should end with an id tie-breaker)
+   * @param cursorWhere - Keyset condition applied to the page but not the count
    * @returns Tuple of [businesses array, total count]
    */
   async findAll(
     where: Prisma.businessWhereInput,
     skip: number,
     take: number,
+    orderBy: Prisma.businessOrderByWithRelationInput[] = [
+      { created_at: 'desc' },
+      { id: 'desc' },
+    ],
+    cursorWhere?: Prisma.businessWhereInput,
   ): Promise<[any[], number]> {
     return Promise.all([
       this.prisma.business.findMany({
-        where,
+        where: {
+          AND: [where, NOT_DELETED, ...(cursorWhere ? [cursorWhere] : [])],
+        },
         skip,
         take,
         include: {
           contacts: true,
+          tags: TAGS_INCLUDE,
         },
-        orderBy: { created_at: 'desc' },
+        orderBy,
       }),
-      this.prisma.business.count({ where }),
+      this.prisma.business.count({ where: { AND: [where, NOT_DELETED] } }),
     ]);
   }
 
@@ -67,13 +90,15 @@ export class BusinessRepository {
    * Find a single business by ID with all related data.
    *
    * @param id - Business ID
-   * @returns Business with contacts, enrichment logs, and outreach messages
+   * @returns Business with contacts, tags, enrichment logs, and outreach
+   *   messages, or null if missing or trashed
    */
   async findOne(id: number) {
     return this.prisma.business.findUnique({
-      where: { id },
+      where: { id, ...NOT_DELETED },
       include: {
         contacts: true,
+        tags: TAGS_INCLUDE,
         enrichment_logs: {
           orderBy: { created_at: 'desc' },
           take: 10,
@@ -82,25 +107,24 @@ export class BusinessRepository {
           orderBy: { generated_at: 'desc' },
           take: 5,
         },
+        assignee: { select: { id: true, name: true, email: true } },
       },
     });
   }
 
   /**
-   * Delete a business by ID.
+   * Move a business to the trash.
    *
-   * Cascade deletes:
-   * - All related contacts
-   * - All enrichment logs
-   * - All outreach messages
+   * Related rows are kept so the business can be restored; they are only
+   * removed when the trash is purged.
    *
    * @param id - Business ID
-   * @returns Deleted business entity
+   * @param deletedBy - Acting user ID
+   * @returns True if the business was trashed, false if missing or already trashed
    */
-  async delete(id: number) {
-    return this.prisma.business.delete({
-      where: { id },
-    });
+  async softDelete(id: number, deletedBy?: string): Promise<boolean> {
+    const trashed = await this.softDeleteMany([id], deletedBy);
+    return trashed > 0;
   }
 
   /**
@@ -125,12 +149,20 @@ export class BusinessRepository {
       messagesSent,
       messagesPending,
     ] = await Promise.all([
-      this.prisma.business.count(),
-      this.prisma.business.count({ where: { enrichment_status: 'enriched' } }),
-      this.prisma.business.count({ where: { enrichment_status: 'pending' } }),
-      this.prisma.contact.count(),
-      this.prisma.outreach_message.count({ where: { status: 'sent' } }),
-      this.prisma.outreach_message.count({ where: { status: 'generated' } }),
+      this.prisma.business.count({ where: NOT_DELETED }),
+      this.prisma.business.count({
+        where: { ...NOT_DELETED, enrichment_status: 'enriched' },
+      }),
+      this.prisma.business.count({
+        where: { ...NOT_DELETED, enrichment_status: 'pending' },
+      }),
+      this.prisma.contact.count({ where: { business: NOT_DELETED } }),
+      this.prisma.outreach_message.count({
+        where: { status: 'sent', business: NOT_DELETED },
+      }),
+      this.prisma.outreach_message.count({
+        where: { status: 'generated', business: NOT_DELETED },
+      }),
     ]);
 
     return {
@@ -144,14 +176,14 @@ export class BusinessRepository {
   }
 
   /**
-   * Check if a business exists by ID.
+   * Check if a business exists (and is not trashed) by ID.
    *
    * @param id - Business ID
    * @returns True if business exists, false otherwise
    */
   async exists(id: number): Promise<boolean> {
     const count = await this.prisma.business.count({
-      where: { id },
+      where: { id, ...NOT_DELETED },
     });
     return count > 0;
   }
@@ -169,4 +201,374 @@ export class BusinessRepository {
       data,
     });
   }
+
+  /**
+   * Update a business and record field-level change history atomically.
+   *
+   * @param id - Business ID
+   * @param data - Update data
+   * @param changes - Audit rows to write alongside the update
+   * @returns Updated business entity
+   */
+  async updateWithChanges(
+    id: number,
+    data: Prisma.businessUpdateInput,
+    changes: Omit<Prisma.business_changeCreateManyInput, 'business_id'>[],
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const business = await tx.business.update({
+        where: { id },
+        data,
+      });
+
+      if (changes.length > 0) {
+        await tx.business_change.createMany({
+          data: changes.map((change) => ({ ...change, business_id: id })),
+        });
+      }
+
+      return business;
+    });
+  }
+
+  /**
+   * Find change history for a business, newest first.
+   *
+   * @param businessId - Business ID
+   * @param skip - Number of records to skip (for pagination)
+   * @param take - Number of records to take (page size)
+   * @returns Tuple of [changes array, total count]
+   */
+  async findChanges(
+    businessId: number,
+    skip: number,
+    take: number,
+  ): Promise<[any[], number]> {
+    const where = { business_id: businessId };
+    return Promise.all([
+      this.prisma.business_change.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { created_at: 'desc' },
+      }),
+      this.prisma.business_change.count({ where }),
+    ]);
+  }
+
+  /**
+   * Move a business to a pipeline stage and record the transition atomically.
+   *
+   * @param id - Business ID
+   * @param from - Current stage (recorded on the transition)
+   * @param to - Target stage
+   * @param changedBy - Acting user ID
+   * @param note - Optional reason
+   * @returns Updated business entity
+   */
+  async moveStage(
+    id: number,
+    from: PipelineStage,
+    to: PipelineStage,
+    changedBy?: string,
+    note?: string,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const business = await tx.business.update({
+        where: { id },
+        data: { pipeline_stage: to, stage_changed_at: new Date() },
+      });
+
+      await tx.business_stage_transition.create({
+        data: {
+          business_id: id,
+          from_stage: from,
+          to_stage: to,
+          note,
+          changed_by: changedBy ?? null,
+        },
+      });
+
+      return business;
+    });
+  }
+
+  /**
+   * Find stage transitions for a business, newest first.
+   *
+   * @param businessId - Business ID
+   * @param skip - Number of records to skip (for pagination)
+   * @param take - Number of records to take (page size)
+   * @returns Tuple of [transitions array, total count]
+   */
+  async findStageTransitions(
+    businessId: number,
+    skip: number,
+    take: number,
+  ): Promise<[any[], number]> {
+    const where = { business_id: businessId };
+    return Promise.all([
+      this.prisma.business_stage_transition.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { created_at: 'desc' },
+      }),
+      this.prisma.business_stage_transition.count({ where }),
+    ]);
+  }
+
+  /**
+   * Find a user that leads can be assigned to.
+   *
+   * @param userId - User ID
+   * @returns User summary, or null if missing
+   */
+  async findAssignee(userId: string) {
+    return this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        is_active: true,
+      },
+    });
+  }
+
+  /**
+   * Find IDs of all businesses matching a filter.
+   *
+   * @param where - Filter conditions
+   * @returns Matching business IDs
+   */
+  async findIds(where: Prisma.businessWhereInput): Promise<number[]> {
+    const rows = await this.prisma.business.findMany({
+      where: { AND: [where, NOT_DELETED] },
+      select: { id: true },
+    });
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Return the subset of IDs that exist and are not trashed.
+   *
+   * @param ids - Candidate business IDs
+   * @returns IDs present in the database
+   */
+  async findExistingIds(ids: number[]): Promise<number[]> {
+    return this.findIds({ id: { in: ids } });
+  }
+
+  /**
+   * Move many businesses to the trash. Already trashed IDs are skipped.
+   *
+   * @param ids - Business IDs
+   * @param deletedBy - Acting user ID
+   * @returns Number of trashed rows
+   */
+  async softDeleteMany(ids: number[], deletedBy?: string): Promise<number> {
+    const { count } = await this.prisma.business.updateMany({
+      where: { id: { in: ids }, ...NOT_DELETED },
+      data: { deleted_at: new Date(), deleted_by: deletedBy ?? null },
+    });
+    return count;
+  }
+
+  /**
+   * Take a business out of the trash.
+   *
+   * @param id - Business ID
+   * @returns True if restored, false if the business is not in the trash
+   */
+  async restore(id: number): Promise<boolean> {
+    const { count } = await this.prisma.business.updateMany({
+      where: { id, deleted_at: { not: null } },
+      data: { deleted_at: null, deleted_by: null },
+    });
+    return count > 0;
+  }
+
+  /**
+   * List trashed businesses, most recently deleted first.
+   *
+   * @param skip - Number of records to skip (for pagination)
+   * @param take - Number of records to take (page size)
+   * @returns Tuple of [trashed businesses with the deleting user, total count]
+   */
+  async findTrash(skip: number, take: number): Promise<[any[], number]> {
+    const where = { deleted_at: { not: null } };
+    return Promise.all([
+      this.prisma.business.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          tags: TAGS_INCLUDE,
+          deleter: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: [{ deleted_at: 'desc' }, { id: 'desc' }],
+      }),
+      this.prisma.business.count({ where }),
+    ]);
+  }
+
+  /**
+   * Find IDs of businesses trashed before a cutoff.
+   *
+   * @param deletedBefore - Retention cutoff
+   * @returns Trashed business IDs, oldest first
+   */
+  async findTrashedIds(deletedBefore: Date): Promise<number[]> {
+    const rows = await this.prisma.business.findMany({
+      where: { deleted_at: { lt: deletedBefore } },
+      select: { id: true },
+      orderBy: { deleted_at: 'asc' },
+    });
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Permanently delete trashed businesses.
+   *
+   * Cascade deletes contacts, enrichment logs, outreach messages, history,
+   * activity, tasks and tags. IDs restored or trashed again since the
+   * cutoff are skipped.
+   *
+   * @param ids - Business IDs
+   * @param deletedBefore - Retention cutoff the IDs were found with
+   * @returns Number of deleted rows
+   */
+  async purgeMany(ids: number[], deletedBefore: Date): Promise<number> {
+    const { count } = await this.prisma.business.deleteMany({
+      where: { id: { in: ids }, deleted_at: { lt: deletedBefore } },
+    });
+    return count;
+  }
+
+  /**
+   * Add and remove tags on many businesses.
+   *
+   * Tags are created on first use. Adding a tag a business already has is a
+   * no-op.
+   *
+   * @param ids - Business IDs
+   * @param add - Tag names to attach
+   * @param remove - Tag names to detach
+   */
+  async applyTags(ids: number[], add: string[], remove: string[]) {
+    await this.prisma.$transaction(async (tx) => {
+      if (add.length > 0) {
+        await tx.tag.createMany({
+          data: add.map((name) => ({ name })),
+          skipDuplicates: true,
+        });
+        const tags = await tx.tag.findMany({
+          where: { name: { in: add } },
+          select: { id: true },
+        });
+        await tx.business_tag.createMany({
+          data: ids.flatMap((business_id) =>
+            tags.map((tag) => ({ business_id, tag_id: tag.id })),
+          ),
+          skipDuplicates: true,
+        });
+      }
+
+      if (remove.length > 0) {
+        await tx.business_tag.deleteMany({
+          where: {
+            business_id: { in: ids },
+            tag: { name: { in: remove } },
+          },
+        });
+      }
+    });
+  }
+
+  /**
+   * Rank businesses against a free-text search term.
+   *
+   * Combines pg_trgm word similarity (typo tolerance) on business and contact
+   * fields with English full-text matching (stemming). Uses the GIN indexes
+   * from the add_business_search_indexes migration; the to_tsvector
+   * expression must match the index definition exactly.
+   *
+   * @param term - Raw search term
+   * @param limit - Maximum number of candidates to return
+   * @returns Matching IDs ordered by rank (highest first)
+   */
+  async searchRankedIds(
+    term: string,
+    limit: number,
+  ): Promise<{ id: number; rank: number }[]> {
+    const [, rows] = await this.prisma.$transaction([
+      this.prisma
+        .$executeRaw`SET LOCAL pg_trgm.word_similarity_threshold = 0.3`,
+      this.prisma.$queryRaw<{ id: number; rank: number }[]>`
+        SELECT b.id,
+          (
+            GREATEST(
+              word_similarity(${term}, b.name),
+              word_similarity(${term}, coalesce(b.address, '')),
+              word_similarity(${term}, coalesce(b.website, '')),
+              word_similarity(${term}, coalesce(b.phone, '')),
+              coalesce(c.score, 0) * 0.8
+            )
+            + ts_rank(
+              to_tsvector('english', coalesce(b."name", '') || ' ' || coalesce(b."address", '') || ' ' || coalesce(b."website", '')),
+              websearch_to_tsquery('english', ${term})
+            )
+          )::float AS rank
+        FROM business b
+        LEFT JOIN LATERAL (
+          SELECT max(GREATEST(
+            word_similarity(${term}, coalesce(ct.name, '')),
+            word_similarity(${term}, coalesce(ct.email, ''))
+          )) AS score
+          FROM contact ct
+          WHERE ct.business_id = b.id
+        ) c ON true
+        WHERE b.deleted_at IS NULL
+          AND (
+            ${term} <% b.name
+            OR ${term} <% b.address
+            OR ${term} <% b.website
+            OR ${term} <% b.phone
+            OR to_tsvector('english', coalesce(b."name", '') || ' ' || coalesce(b."address", '') || ' ' || coalesce(b."website", ''))
+              @@ websearch_to_tsquery('english', ${term})
+            OR c.score >= 0.3
+          )
+        ORDER BY rank DESC, b.id DESC
+        LIMIT ${limit}
+      `,
+    ]);
+
+    return rows;
+  }
+
+  /**
+   * Load businesses (with contacts and tags) for a list of IDs, preserving ID order.
+   *
+   * @param ids - Business IDs in the desired order
+   * @returns Businesses in the same order as ids
+   */
+  async findManyByIds(ids: number[]): Promise<any[]> {
+    const rows = await this.prisma.business.findMany({
+      where: { id: { in: ids }, ...NOT_DELETED },
+      include: {
+        contacts: true,
+        tags: TAGS_INCLUDE,
+      },
+    });
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    return ids.map((id) => byId.get(id)).filter(Boolean);
+  }
 }
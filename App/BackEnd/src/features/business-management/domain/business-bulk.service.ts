@@ -0,0 +1,278 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { BusinessRepository } from '../data/business.repository';
+import { BusinessCacheService } from './business-cache.service';
+import { BusinessService } from './business.service';
+import { buildBusinessWhere } from './business-filter.helper';
+import { normalizeTagNames } from './tag-name.helper';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import { JobType } from '../../job-queue/config/queue.config';
+import {
+  BulkActionFailureDto,
+  BulkActionResultDto,
+  BulkBusinessSelectionDto,
+  BulkTagBusinessesDto,
+} from '../api/dto/bulk-business.dto';
+
+/**
+ * Selections larger than this are handed to the bulk-operations queue
+ * instead of being processed inside the HTTP request.
+ */
+export const BULK_SYNC_LIMIT = 100;
+
+/**
+ * Bulk business operations (delete, enrich, tag).
+ *
+ * Responsibilities:
+ * - Resolve an ID list or filter into concrete business IDs
+ * - Report IDs that don't exist as per-ID failures
+ * - Process small selections inline, queue large ones
+ * - Invalidate caches and emit ONE stats:updated per bulk action
+ *
+ * @example
+ * await bulkService.bulkDelete({ ids: [1, 2, 3] });
+ * // → { action: 'delete', total: 3, success: 2, failed: 1,
+ * //     failures: [{ id: 3, reason: 'Business not found' }], queued: false }
+ */
+@Injectable()
+export class BusinessBulkService {
+  private readonly logger = new Logger(BusinessBulkService.name);
+
+  constructor(
+    private repository: BusinessRepository,
+    private cache: BusinessCacheService,
+    private businessService: BusinessService,
+    private eventsGateway: EventsGateway,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  /**
+   * Finish a queued bulk job: invalidate caches and broadcast stats once.
+   * Trashing and purging also drop the cached detail of every business.
+   */
+  @OnEvent('business:bulk-completed')
+  async handleBulkCompleted(event: { action: string; processed: number }) {
+    this.logger.log(
+      `Bulk ${event?.action} job completed (${event?.processed} businesses)`,
+    );
+    await this.emitAggregatedStats(event?.action !== 'tag');
+  }
+
+  /**
+   * Move many businesses to the trash.
+   *
+   * @param dto - ID list or filter
+   * @param userId - ID of the user requesting the action
+   * @returns Bulk action result
+   *
+   * @side-effects
+   * - Soft-deletes businesses (restorable until the trash is purged)
+   * - Invalidates all caches, including single-business entries
+   * - Emits a single 'stats:updated' WebSocket event
+   */
+  async bulkDelete(
+    dto: BulkBusinessSelectionDto,
+    userId?: string,
+  ): Promise<BulkActionResultDto> {
+    try {
+      const { total, found, failures } = await this.resolveSelection(dto);
+
+      if (found.length > BULK_SYNC_LIMIT) {
+        const job = await this.jobQueueService.createBulkBusinessJob(
+          JobType.BULK_DELETE,
+          found,
+          { userId },
+        );
+        return this.queuedResult('delete', total, failures, job.id);
+      }
+
+      const deleted =
+        found.length > 0
+          ? await this.repository.softDeleteMany(found, userId)
+          : 0;
+      this.logger.log(`Bulk moved ${deleted} businesses to trash`);
+
+      if (deleted > 0) {
+        await this.emitAggregatedStats(true);
+      }
+
+      return {
+        action: 'delete',
+        total,
+        success: deleted,
+        failed: failures.length,
+        failures,
+        queued: false,
+      };
+    } catch (error) {
+      this.logger.error('Error bulk deleting businesses:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue enrichment for many businesses.
+   *
+   * Enrichment always runs through the enrichment queue, so `success` is
+   * the number of businesses queued rather than enriched.
+   *
+   * @param dto - ID list or filter
+   * @param userId - ID of the user requesting the action
+   * @returns Bulk action result
+   */
+  async bulkEnrich(
+    dto: BulkBusinessSelectionDto,
+    userId?: string,
+  ): Promise<BulkActionResultDto> {
+    try {
+      const { total, found, failures } = await this.resolveSelection(dto);
+
+      if (found.length > 0) {
+        await this.jobQueueService.createEnrichmentJob({
+          businessIds: found,
+          userId,
+        });
+      }
+
+      return {
+        action: 'enrich',
+        total,
+        success: found.length,
+        failed: failures.length,
+        failures,
+        queued: true,
+      };
+    } catch (error) {
+      this.logger.error('Error bulk enriching businesses:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add and/or remove tags on many businesses.
+   *
+   * @param dto - ID list or filter, plus tag names to add/remove
+   * @param userId - ID of the user requesting the action
+   * @returns Bulk action result
+   *
+   * @side-effects
+   * - Creates tags that don't exist yet
+   * - Invalidates all caches
+   * - Emits a single 'stats:updated' WebSocket event
+   */
+  async bulkTag(
+    dto: BulkTagBusinessesDto,
+    userId?: string,
+  ): Promise<BulkActionResultDto> {
+    const add = normalizeTagNames(dto.add);
+    const remove = normalizeTagNames(dto.remove);
+
+    if (add.length === 0 && remove.length === 0) {
+      throw new BadRequestException(
+        'Provide at least one tag to add or remove',
+      );
+    }
+
+    try {
+      const { total, found, failures } = await this.resolveSelection(dto);
+
+      if (found.length > BULK_SYNC_LIMIT) {
+        const job = await this.jobQueueService.createBulkBusinessJob(
+          JobType.BULK_TAG,
+          found,
+          { add, remove, userId },
+        );
+        return this.queuedResult('tag', total, failures, job.id);
+      }
+
+      if (found.length > 0) {
+        await this.repository.applyTags(found, add, remove);
+        await this.emitAggregatedStats();
+      }
+
+      return {
+        action: 'tag',
+        total,
+        success: found.length,
+        failed: failures.length,
+        failures,
+        queued: false,
+      };
+    } catch (error) {
+      this.logger.error('Error bulk tagging businesses:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a selection into existing IDs plus per-ID failures.
+   *
+   * @throws {BadRequestException} If neither or both of ids/filter are set,
+   *   or the filter has no criteria
+   */
+  private async resolveSelection(dto: BulkBusinessSelectionDto): Promise<{
+    total: number;
+    found: number[];
+    failures: BulkActionFailureDto[];
+  }> {
+    const hasIds = Array.isArray(dto.ids);
+    const hasFilter = !!dto.filter;
+
+    if (hasIds === hasFilter) {
+      throw new BadRequestException('Provide exactly one of ids or filter');
+    }
+
+    if (hasFilter) {
+      const where = buildBusinessWhere(dto.filter);
+      if (Object.keys(where).length === 0) {
+        throw new BadRequestException(
+          'Filter must include at least one criterion',
+        );
+      }
+      const found = await this.repository.findIds(where);
+      return { total: found.length, found, failures: [] };
+    }
+
+    const ids = [...new Set(dto.ids)];
+    const existing = new Set(
+      ids.length > 0 ? await this.repository.findExistingIds(ids) : [],
+    );
+
+    return {
+      total: ids.length,
+      found: ids.filter((id) => existing.has(id)),
+      failures: ids
+        .filter((id) => !existing.has(id))
+        .map((id) => ({ id, reason: 'Business not found' })),
+    };
+  }
+
+  private queuedResult(
+    action: 'delete' | 'tag',
+    total: number,
+    failures: BulkActionFailureDto[],
+    jobId: string,
+  ): BulkActionResultDto {
+    this.logger.log(`Queued bulk ${action} job ${jobId}`);
+    return {
+      action,
+      total,
+      success: 0,
+      failed: failures.length,
+      failures,
+      queued: true,
+      jobId,
+    };
+  }
+
+  private async emitAggregatedStats(clearBusinesses = false) {
+    if (clearBusinesses) {
+      await this.cache.invalidateAllBusinesses();
+    } else {
+      await this.cache.invalidateAll();
+    }
+    const stats = await this.businessService.getStats();
+    this.eventsGateway.emitStatsUpdated(stats);
+  }
+}
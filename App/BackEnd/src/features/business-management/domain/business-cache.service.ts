@@ -153,4 +153,26 @@ export class BusinessCacheService {
       // Don't throw - cache invalidation failures shouldn't break the app
     }
   }
+
+  /**
+   * Invalidate stats, every list and every single-business cache.
+   *
+   * Called when a change touches an unknown set of businesses, e.g. a tag
+   * is renamed or deleted.
+   *
+   * @side-effects Clears Redis cache keys
+   */
+  async invalidateAllBusinesses(): Promise<void> {
+    try {
+      await Promise.all([
+        this.redisService.del(getStatsCacheKey()),
+        this.redisService.invalidatePattern(CachePatterns.BUSINESS_LISTS),
+        this.redisService.invalidatePattern(CachePatterns.ALL_BUSINESSES),
+      ]);
+
+      this.logger.debug('Cache invalidated for all businesses');
+    } catch (error) {
+      this.logger.warn('Error invalidating caches', (error as Error).message);
+    }
+  }
 }
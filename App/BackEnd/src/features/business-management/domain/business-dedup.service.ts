@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
+import { BusinessRepository } from '../data/business.repository';
+import {
+  BusinessChangeRecord,
+  BusinessDuplicateRepository,
+} from '../data/business-duplicate.repository';
+import { BusinessCacheService } from './business-cache.service';
+import { BusinessService } from './business.service';
+import { DuplicateDetectorService } from './duplicate-detector.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import { readFieldSources } from '../../lead-enrichment/domain/field-provenance.helper';
+import {
+  MergeBusinessDuplicateDto,
+  QueryBusinessDuplicatesDto,
+} from '../api/dto/business-duplicate.dto';
+
+/**
+ * Fields copied from the merged business when the survivor has no value.
+ */
+const MERGE_FILL_FIELDS = [
+  'address',
+  'city',
+  'state',
+  'zip',
+  'phone',
+  'website',
+  'email',
+  'business_type',
+  'industry',
+  'employee_count',
+  'year_founded',
+  'google_maps_url',
+  'google_place_id',
+  'latitude',
+  'longitude',
+  'rating',
+  'review_count',
+  'price_level',
+  'assigned_to',
+] as const;
+
+/**
+ * Duplicate review queue and merge workflow.
+ *
+ * Responsibilities:
+ * - Scan new and existing businesses into the review queue
+ * - List, dismiss and merge candidate pairs
+ * - Keep caches, WebSocket clients and change history in step with merges
+ *
+ * @example
+ * await dedupService.merge(pairId, {}, userId);
+ * // → Older record survives, children re-parented, newer record deleted
+ */
+@Injectable()
+export class BusinessDedupService {
+  private readonly logger = new Logger(BusinessDedupService.name);
+
+  constructor(
+    private repository: BusinessDuplicateRepository,
+    private businessRepository: BusinessRepository,
+    private detector: DuplicateDetectorService,
+    private cache: BusinessCacheService,
+    private businessService: BusinessService,
+    private eventsGateway: EventsGateway,
+  ) {}
+
+  /**
+   * Queue duplicates of businesses created by the scraper.
+   */
+  @OnEvent('business:created')
+  async handleBusinessCreated(event: { business?: { id: number } }) {
+    if (!event?.business?.id) return;
+
+    try {
+      await this.scanBusiness(event.business.id);
+    } catch (error) {
+      this.logger.error(
+        `Duplicate scan failed for business ${event.business.id}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * List candidate pairs for review, highest score first.
+   *
+   * @param query - Status, minimum score and pagination
+   * @returns Paginated pairs with both businesses
+   */
+  async listPairs(query: QueryBusinessDuplicatesDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Prisma.business_duplicateWhereInput = {
+      status: query.status || 'pending',
+      ...(query.min_score !== undefined && {
+        score: { gte: query.min_score },
+      }),
+    };
+
+    const [data, total] = await this.repository.findPairs(
+      where,
+      (page - 1) * limit,
+      limit,
+    );
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Scan one business for duplicates and queue them for review.
+   *
+   * @param businessId - Business to scan
+   * @returns Matches found, best first
+   * @throws {NotFoundException} If business doesn't exist
+   */
+  async scanBusiness(businessId: number) {
+    const business = await this.businessRepository.findOne(businessId);
+    if (!business) {
+      throw new NotFoundException(`Business with ID ${businessId} not found`);
+    }
+
+    return this.detector.recordCandidates(business);
+  }
+
+  /**
+   * Mark a pair as not being duplicates.
+   *
+   * @throws {NotFoundException} If the pair doesn't exist
+   */
+  async dismiss(pairId: number, userId?: string) {
+    await this.getPair(pairId);
+    return this.repository.dismissPair(pairId, userId);
+  }
+
+  /**
+   * Merge a candidate pair into a single business.
+   *
+   * The survivor keeps its own values; empty fields are filled from the
+   * merged record, with their field_sources entries, so filled manual
+   * values stay protected from enrichment. Every filled field and the merge
+   * itself are written to the survivor's change history.
+   *
+   * @param pairId - Candidate pair ID
+   * @param dto - Optional survivor choice
+   * @param userId - User performing the merge
+   * @returns Updated survivor with contacts
+   * @throws {NotFoundException} If the pair or either business doesn't exist
+   * @throws {BadRequestException} If survivor_id is not part of the pair
+   * @throws {ConflictException} If the pair was dismissed, or both
+   *   businesses are linked to a chapter member
+   *
+   * @side-effects
+   * - Re-parents contacts, logs, messages, cost logs, history, stage
+   *   transitions, activity, tasks, tags, the chapter member link and
+   *   staged scrape results
+   * - Deletes the merged business
+   * - Invalidates caches for both businesses
+   * - Emits 'business:updated', 'business:deleted' and 'stats:updated'
+   * - Re-scans the survivor for remaining duplicates
+   */
+  async merge(pairId: number, dto: MergeBusinessDuplicateDto, userId?: string) {
+    const pair = await this.getPair(pairId);
+    if (pair.status === 'dismissed') {
+      throw new ConflictException(`Duplicate pair ${pairId} was dismissed`);
+    }
+
+    const survivorId = dto.survivor_id ?? pair.business_id;
+    if (survivorId !== pair.business_id && survivorId !== pair.duplicate_id) {
+      throw new BadRequestException(
+        `survivor_id must be ${pair.business_id} or ${pair.duplicate_id}`,
+      );
+    }
+    const mergedId =
+      survivorId === pair.business_id ? pair.duplicate_id : pair.business_id;
+
+    const [survivor, merged] = await Promise.all([
+      this.businessRepository.findOne(survivorId),
+      this.businessRepository.findOne(mergedId),
+    ]);
+    if (!survivor || !merged) {
+      throw new NotFoundException(
+        'Business in duplicate pair no longer exists',
+      );
+    }
+
+    // A business belongs to at most one chapter member
+    if (
+      (await this.repository.countChapterMembers([survivorId, mergedId])) > 1
+    ) {
+      throw new ConflictException(
+        'Both businesses are linked to a chapter member; unlink one before merging',
+      );
+    }
+
+    const { data, changes } = this.buildFill(survivor, merged);
+
+    try {
+      const result = await this.repository.merge(
+        survivorId,
+        mergedId,
+        data,
+        changes,
+        userId,
+      );
+
+      await Promise.all([
+        this.cache.invalidateAll(survivorId),
+        this.cache.invalidateAll(mergedId),
+      ]);
+      this.eventsGateway.emitBusinessUpdated(result);
+      this.eventsGateway.emitEvent('business:deleted', { id: mergedId });
+      this.eventsGateway.emitStatsUpdated(
+        await this.businessService.getStats(),
+      );
+
+      await this.detector.recordCandidates(result);
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error merging duplicate pair ${pairId}:`, error);
+      throw error;
+    }
+  }
+
+  private async getPair(pairId: number) {
+    const pair = await this.repository.findPair(pairId);
+    if (!pair) {
+      throw new NotFoundException(`Duplicate pair with ID ${pairId} not found`);
+    }
+    return pair;
+  }
+
+  private buildFill(
+    survivor: Record<string, any>,
+    merged: Record<string, any>,
+  ): {
+    data: Prisma.businessUncheckedUpdateInput;
+    changes: BusinessChangeRecord[];
+  } {
+    const data: Record<string, unknown> = {};
+    const changes: BusinessChangeRecord[] = [];
+    const sources = { ...readFieldSources(survivor.field_sources) };
+    const mergedSources = readFieldSources(merged.field_sources);
+    let sourcesChanged = false;
+
+    for (const field of MERGE_FILL_FIELDS) {
+      const current = survivor[field] as unknown;
+      const incoming = merged[field] as string | number | null | undefined;
+      if (
+        (current === null || current === '') &&
+        incoming != null &&
+        incoming !== ''
+      ) {
+        data[field] = incoming;
+        changes.push({ field, old_value: null, new_value: String(incoming) });
+
+        // The value's source moves with it
+        if (mergedSources[field] || sources[field]) {
+          sourcesChanged = true;
+          if (mergedSources[field]) sources[field] = mergedSources[field];
+          else delete sources[field];
+        }
+      }
+    }
+
+    if (sourcesChanged) data.field_sources = sources;
+
+    changes.push({
+      field: 'merged_from',
+      old_value: null,
+      new_value: `#${merged.id} ${merged.name}`,
+    });
+
+    return { data: data as Prisma.businessUncheckedUpdateInput, changes };
+  }
+}
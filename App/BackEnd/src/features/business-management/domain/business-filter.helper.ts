@@ -0,0 +1,39 @@
+import { Prisma } from '@prisma/client';
+import { BusinessFilterDto } from '../api/dto/business-filter.dto';
+
+/**
+ * Translate API filter fields into a Prisma where clause.
+ *
+ * Shared by list queries and bulk selections so both resolve the same set
+ * of businesses for a given filter.
+ *
+ * @param filter - Filter fields (undefined fields are ignored)
+ * @returns Prisma where clause
+ */
+export function buildBusinessWhere(
+  filter: BusinessFilterDto = {},
+): Prisma.businessWhereInput {
+  const where: Prisma.businessWhereInput = {};
+  if (filter.city) where.city = filter.city;
+  if (filter.industry) where.industry = filter.industry;
+  if (filter.enrichment_status) {
+    where.enrichment_status = filter.enrichment_status;
+  }
+  if (filter.pipeline_stage) where.pipeline_stage = filter.pipeline_stage;
+  if (filter.assigned_to) {
+    where.assigned_to =
+      filter.assigned_to === 'unassigned' ? null : filter.assigned_to;
+  }
+  if (filter.tag_ids?.length) {
+    const tagIds = [...new Set(filter.tag_ids)];
+    if (filter.tag_match === 'all') {
+      where.AND = tagIds.map((tag_id) => ({ tags: { some: { tag_id } } }));
+    } else {
+      where.tags = { some: { tag_id: { in: tagIds } } };
+    }
+  }
+  if (filter.contacted !== undefined) {
+    where.last_outreach_at = filter.contacted ? { not: null } : null;
+  }
+  return where;
+}
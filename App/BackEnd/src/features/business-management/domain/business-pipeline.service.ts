@@ -0,0 +1,237 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PipelineStage, Role } from '@prisma/client';
+import { BusinessRepository } from '../data/business.repository';
+import { BusinessCacheService } from './business-cache.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import {
+  AssignBusinessDto,
+  MoveBusinessStageDto,
+} from '../api/dto/business-pipeline.dto';
+import { QueryBusinessHistoryDto } from '../api/dto/query-business-history.dto';
+
+/**
+ * The user acting on a lead. Only the fields the ownership rules need.
+ */
+export interface PipelineActor {
+  id: string;
+  role: Role;
+}
+
+/**
+ * Payload of the 'business:stage-changed' event.
+ */
+export interface BusinessStageChangedEvent {
+  businessId: number;
+  from: PipelineStage;
+  to: PipelineStage;
+  note?: string;
+  userId?: string;
+}
+
+/**
+ * Lead pipeline (membership funnel) and ownership.
+ *
+ * Rules:
+ * - ADMINs can move any lead and assign it to any active ADMIN or MEMBER
+ * - MEMBERs can only move leads assigned to them
+ * - MEMBERs can claim unassigned leads and release their own
+ *
+ * Every stage move writes a business_stage_transition row; assignments are
+ * recorded in the regular field-level change history.
+ *
+ * @example
+ * await pipelineService.moveStage(12, { stage: 'contacted' }, user);
+ * // → Updates stage, records transition, emits 'business:updated'
+ */
+@Injectable()
+export class BusinessPipelineService {
+  private readonly logger = new Logger(BusinessPipelineService.name);
+
+  constructor(
+    private repository: BusinessRepository,
+    private cache: BusinessCacheService,
+    private eventsGateway: EventsGateway,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Move a lead to another pipeline stage.
+   *
+   * @param id - Business ID
+   * @param dto - Target stage and optional note
+   * @param actor - Acting user
+   * @returns Updated business (unchanged if already in that stage)
+   * @throws {NotFoundException} If business doesn't exist
+   * @throws {ForbiddenException} If a MEMBER moves a lead they don't own
+   *
+   * @side-effects
+   * - Records a stage transition
+   * - Invalidates business caches
+   * - Emits 'business:updated' WebSocket event
+   * - Emits 'business:stage-changed' internal event
+   */
+  async moveStage(id: number, dto: MoveBusinessStageDto, actor: PipelineActor) {
+    const business = await this.getBusiness(id);
+
+    if (actor.role !== Role.ADMIN && business.assigned_to !== actor.id) {
+      throw new ForbiddenException(
+        'Members can only move leads assigned to them',
+      );
+    }
+
+    if (business.pipeline_stage === dto.stage) {
+      return business;
+    }
+
+    try {
+      const updated = await this.repository.moveStage(
+        id,
+        business.pipeline_stage,
+        dto.stage,
+        actor.id,
+        dto.note,
+      );
+      this.logger.log(
+        `Business ${id} moved ${business.pipeline_stage} → ${dto.stage} by ${actor.id}`,
+      );
+
+      await this.cache.invalidateAll(id);
+      this.eventsGateway.emitBusinessUpdated(updated);
+
+      const event: BusinessStageChangedEvent = {
+        businessId: id,
+        from: business.pipeline_stage,
+        to: dto.stage,
+        note: dto.note,
+        userId: actor.id,
+      };
+      this.eventEmitter.emit('business:stage-changed', event);
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error moving business ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign a lead to a user, or unassign it.
+   *
+   * @param id - Business ID
+   * @param dto - New owner user ID, or null
+   * @param actor - Acting user
+   * @returns Updated business
+   * @throws {NotFoundException} If business doesn't exist
+   * @throws {ForbiddenException} If a MEMBER assigns beyond claim/release
+   * @throws {BadRequestException} If the assignee is missing, inactive or a VIEWER
+   *
+   * @side-effects
+   * - Records an 'assigned_to' change history row
+   * - Invalidates business caches
+   * - Emits 'business:updated' WebSocket event
+   */
+  async assign(id: number, dto: AssignBusinessDto, actor: PipelineActor) {
+    const business = await this.getBusiness(id);
+    const assigneeId = dto.user_id;
+
+    if (actor.role !== Role.ADMIN) {
+      const claiming = business.assigned_to === null && assigneeId === actor.id;
+      const releasing =
+        business.assigned_to === actor.id && assigneeId === null;
+      if (!claiming && !releasing) {
+        throw new ForbiddenException(
+          'Members can only claim unassigned leads or release their own',
+        );
+      }
+    }
+
+    if (assigneeId !== null) {
+      const assignee = await this.repository.findAssignee(assigneeId);
+      if (!assignee || !assignee.is_active || assignee.role === Role.VIEWER) {
+        throw new BadRequestException(
+          'Leads can only be assigned to active admins or members',
+        );
+      }
+    }
+
+    if (business.assigned_to === assigneeId) {
+      return business;
+    }
+
+    try {
+      const updated = await this.repository.updateWithChanges(
+        id,
+        {
+          assignee: assigneeId
+            ? { connect: { id: assigneeId } }
+            : { disconnect: true },
+        },
+        [
+          {
+            field: 'assigned_to',
+            old_value: business.assigned_to,
+            new_value: assigneeId,
+            changed_by: actor.id,
+          },
+        ],
+      );
+      this.logger.log(`Business ${id} assigned to ${assigneeId ?? 'nobody'}`);
+
+      await this.cache.invalidateAll(id);
+      this.eventsGateway.emitBusinessUpdated(updated);
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error assigning business ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get pipeline stage transitions for a business.
+   *
+   * @param id - Business ID
+   * @param query - Pagination parameters
+   * @returns Paginated transitions, newest first
+   * @throws {NotFoundException} If business doesn't exist
+   */
+  async getStageHistory(id: number, query: QueryBusinessHistoryDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    if (!(await this.repository.exists(id))) {
+      throw new NotFoundException(`Business with ID ${id} not found`);
+    }
+
+    const [transitions, total] = await this.repository.findStageTransitions(
+      id,
+      (page - 1) * limit,
+      limit,
+    );
+
+    return {
+      data: transitions,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async getBusiness(id: number) {
+    const business = await this.repository.findOne(id);
+    if (!business) {
+      throw new NotFoundException(`Business with ID ${id} not found`);
+    }
+    return business;
+  }
+}
@@ -0,0 +1,152 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  BUSINESS_SORT_FIELDS,
+  BusinessSortField,
+} from '../api/dto/query-businesses.dto';
+
+/**
+ * Sorting and keyset (cursor) pagination for business lists.
+ *
+ * Every sort is made total by adding `id` as a tie-breaker in the same
+ * direction. Nullable columns always sort NULLS LAST so the keyset
+ * condition stays simple in both directions.
+ */
+
+type SortOrder = 'asc' | 'desc';
+
+const NULLABLE_FIELDS: ReadonlySet<BusinessSortField> = new Set([
+  'city',
+  'industry',
+  'last_outreach_at',
+]);
+
+const DATE_FIELDS: ReadonlySet<BusinessSortField> = new Set([
+  'created_at',
+  'updated_at',
+  'last_outreach_at',
+]);
+
+const NUMBER_FIELDS: ReadonlySet<BusinessSortField> = new Set([
+  'contact_count',
+]);
+
+interface CursorPayload {
+  s: BusinessSortField;
+  o: SortOrder;
+  v: string | number | null;
+  id: number;
+}
+
+/**
+ * Build the Prisma orderBy for a sort field and direction.
+ */
+export function buildBusinessOrderBy(
+  sortBy: BusinessSortField,
+  sortOrder: SortOrder,
+): Prisma.businessOrderByWithRelationInput[] {
+  const primary = NULLABLE_FIELDS.has(sortBy)
+    ? { [sortBy]: { sort: sortOrder, nulls: 'last' } }
+    : { [sortBy]: sortOrder };
+
+  return [primary, { id: sortOrder }];
+}
+
+/**
+ * Encode the position of a row as an opaque cursor.
+ */
+export function encodeBusinessCursor(
+  row: Record<string, any>,
+  sortBy: BusinessSortField,
+  sortOrder: SortOrder,
+): string {
+  const raw = row[sortBy] as Date | string | number | null | undefined;
+  const payload: CursorPayload = {
+    s: sortBy,
+    o: sortOrder,
+    v: raw instanceof Date ? raw.toISOString() : (raw ?? null),
+    id: row.id as number,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Build the where clause selecting rows strictly after a cursor.
+ *
+ * @throws {BadRequestException} If the cursor is malformed or was issued
+ *   for a different sort
+ */
+export function buildBusinessCursorWhere(
+  cursor: string,
+  sortBy: BusinessSortField,
+  sortOrder: SortOrder,
+): Prisma.businessWhereInput {
+  const payload = decodeCursor(cursor);
+
+  if (payload.s !== sortBy || payload.o !== sortOrder) {
+    throw new BadRequestException(
+      'Cursor was issued for a different sort; restart from the first page',
+    );
+  }
+
+  const cmp = sortOrder === 'asc' ? 'gt' : 'lt';
+  const value =
+    payload.v !== null && DATE_FIELDS.has(sortBy)
+      ? new Date(payload.v)
+      : payload.v;
+
+  // Already inside the NULLS LAST tail: only the id tie-breaker is left
+  if (value === null) {
+    return { [sortBy]: null, id: { [cmp]: payload.id } };
+  }
+
+  const branches: Prisma.businessWhereInput[] = [
+    { [sortBy]: { [cmp]: value } },
+    { [sortBy]: value, id: { [cmp]: payload.id } },
+  ];
+  if (NULLABLE_FIELDS.has(sortBy)) {
+    branches.push({ [sortBy]: null });
+  }
+
+  return { OR: branches };
+}
+
+function decodeCursor(cursor: string): CursorPayload {
+  let payload: Partial<CursorPayload> | null;
+  try {
+    payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as Partial<CursorPayload> | null;
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    !Number.isInteger(payload.id) ||
+    !BUSINESS_SORT_FIELDS.includes(payload.s as BusinessSortField) ||
+    (payload.o !== 'asc' && payload.o !== 'desc') ||
+    !isCursorValue(payload.s as BusinessSortField, payload.v)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return payload as CursorPayload;
+}
+
+/**
+ * Whether a cursor value can stand in for the sort column: null only for
+ * nullable columns, a number for counts, a parseable date for timestamps.
+ */
+function isCursorValue(sortBy: BusinessSortField, value: unknown): boolean {
+  if (value === null) {
+    return NULLABLE_FIELDS.has(sortBy);
+  }
+  if (NUMBER_FIELDS.has(sortBy)) {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+  if (typeof value !== 'string') {
+    return false;
+  }
+  return !DATE_FIELDS.has(sortBy) || !Number.isNaN(Date.parse(value));
+}
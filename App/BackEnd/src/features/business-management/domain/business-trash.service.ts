@@ -0,0 +1,113 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { BusinessRepository } from '../data/business.repository';
+import { BusinessCacheService } from './business-cache.service';
+import { BusinessService } from './business.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import { ConfigService } from '../../../config/config.service';
+import { QueryBusinessTrashDto } from '../api/dto/query-business-trash.dto';
+
+/** Milliseconds per day, for purge dates. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trash for soft-deleted businesses.
+ *
+ * Deleting a business (single or bulk) only sets `deleted_at`; the business
+ * and all its related rows stay in the database until they are restored
+ * here or permanently removed by the nightly purge job, which deletes
+ * businesses trashed longer than BUSINESS_TRASH_RETENTION_DAYS ago.
+ *
+ * @example
+ * await trashService.restore(12);
+ * // → Clears deleted_at, invalidates caches, emits 'business:updated'
+ */
+@Injectable()
+export class BusinessTrashService {
+  private readonly logger = new Logger(BusinessTrashService.name);
+
+  constructor(
+    private repository: BusinessRepository,
+    private cache: BusinessCacheService,
+    private businessService: BusinessService,
+    private eventsGateway: EventsGateway,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * List trashed businesses, most recently deleted first.
+   *
+   * Each row carries `purge_at`, the earliest time the nightly purge will
+   * permanently delete it.
+   *
+   * @param query - Pagination parameters
+   * @returns Paginated trash with the retention period in meta
+   */
+  async findAll(query: QueryBusinessTrashDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const skip = (page - 1) * limit;
+    const retentionDays = this.configService.getTrashRetentionDays();
+
+    try {
+      const [businesses, total] = await this.repository.findTrash(skip, limit);
+
+      return {
+        data: businesses.map((business) => ({
+          ...business,
+          purge_at: new Date(
+            business.deleted_at.getTime() + retentionDays * DAY_MS,
+          ),
+        })),
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          retentionDays,
+        },
+      };
+    } catch (error) {
+      this.logger.error('Error fetching trashed businesses:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a business from the trash.
+   *
+   * @param id - Business ID
+   * @returns Restored business with all related data
+   * @throws {NotFoundException} If the business is not in the trash
+   *
+   * @side-effects
+   * - Clears deleted_at/deleted_by
+   * - Invalidates caches (specific business + lists + stats)
+   * - Emits 'business:updated' and 'stats:updated' WebSocket events
+   */
+  async restore(id: number) {
+    try {
+      const restored = await this.repository.restore(id);
+
+      if (!restored) {
+        throw new NotFoundException(
+          `Business with ID ${id} is not in the trash`,
+        );
+      }
+
+      this.logger.log(`Restored business ${id} from trash`);
+
+      await this.cache.invalidateAll(id);
+
+      const business = await this.businessService.findOne(id);
+      this.eventsGateway.emitBusinessUpdated(business);
+      this.eventsGateway.emitStatsUpdated(
+        await this.businessService.getStats(),
+      );
+
+      return business;
+    } catch (error) {
+      this.logger.error(`Error restoring business ${id}:`, error);
+      throw error;
+    }
+  }
+}
@@ -1,10 +1,37 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { OnEvent } from '@nestjs/event-emitter';
 import { BusinessRepository } from '../data/business.repository';
 import { BusinessCacheService } from './business-cache.service';
+import { buildBusinessWhere } from './business-filter.helper';
+import { buildSearchHighlights } from './search-highlight.helper';
+import {
+  buildBusinessCursorWhere,
+  buildBusinessOrderBy,
+  encodeBusinessCursor,
+} from './business-sort.helper';
 import { EventsGateway } from '../../../websocket/websocket.gateway';
 import { CreateBusinessDto } from '../api/dto/create-business.dto';
 import { QueryBusinessesDto } from '../api/dto/query-businesses.dto';
+import { UpdateBusinessDto } from '../api/dto/update-business.dto';
+import { QueryBusinessHistoryDto } from '../api/dto/query-business-history.dto';
+import {
+  MANUAL_SOURCE,
+  readFieldSources,
+  withFieldSources,
+} from '../../lead-enrichment/domain/field-provenance.helper';
+
+/**
+ * Maximum ranked matches considered for a search before filters and
+ * pagination are applied. Beyond this, `meta.truncated` is set and users
+ * should refine the term.
+ */
+export const SEARCH_CANDIDATE_LIMIT = 1000;
 
 /**
  * Business domain service - orchestrates business operations.
@@ -64,14 +91,25 @@ export class BusinessService {
    * @returns Created business entity
    *
    * @side-effects
-   * - Creates business in database
+   * - Creates business in database, with the given fields recorded as
+   *   manual in field_sources
    * - Invalidates all caches (stats, business lists)
    * - Emits 'business:created' WebSocket event
    * - Emits 'stats:updated' WebSocket event
    */
   async create(createBusinessDto: CreateBusinessDto) {
     try {
-      const business = await this.repository.create(createBusinessDto);
+      const business = await this.repository.create({
+        ...createBusinessDto,
+        field_sources: withFieldSources(
+          {},
+          Object.keys(createBusinessDto).filter(
+            (field) =>
+              createBusinessDto[field as keyof CreateBusinessDto] !== undefined,
+          ),
+          MANUAL_SOURCE,
+        ),
+      });
       this.logger.log(
         `Created business: ${business.name} (ID: ${business.id})`,
       );
@@ -101,8 +139,18 @@ export class BusinessService {
    * 2. If miss, query database
    * 3. Store result in cache
    *
-   * @param query - Query parameters (page, limit, filters)
+   * When `search` is set, results are ordered by relevance and each row
+   * carries `search_rank` and `highlights`. `meta.truncated` tells whether
+   * more than SEARCH_CANDIDATE_LIMIT businesses matched the term, in which
+   * case only the best-ranked ones are listed and counted.
+   *
+   * Otherwise results follow `sortBy`/`sortOrder`. Passing the returned
+   * `meta.nextCursor` back as `cursor` switches to keyset pagination, which
+   * stays stable while the scraper inserts rows.
+   *
+   * @param query - Query parameters (page, limit, filters, search, sort, cursor)
    * @returns Paginated business list with metadata
+   * @throws {BadRequestException} If the cursor is invalid or combined with search
    *
    * @performance
    * - Cache hit: ~5-10ms (85% hit rate)
@@ -110,7 +158,6 @@ export class BusinessService {
    * - 15x improvement on cache hit
    */
   async findAll(query: QueryBusinessesDto) {
-    const { city, industry, enrichment_status } = query;
     const page = query.page || 1;
     const limit = query.limit || 20;
     const skip = (page - 1) * limit;
@@ -121,27 +168,74 @@ export class BusinessService {
       return cached;
     }
 
-    // Build where clause
-    const where: any = {};
-    if (city) where.city = city;
-    if (industry) where.industry = industry;
-    if (enrichment_status) where.enrichment_status = enrichment_status;
+    const where = buildBusinessWhere(query);
 
-    try {
-      const [businesses, total] = await this.repository.findAll(
-        where,
-        skip,
-        limit,
+    if (query.search && query.cursor) {
+      throw new BadRequestException(
+        'Cursor pagination is not supported together with search',
       );
+    }
+
+    try {
+      if (query.search) {
+        const [businesses, total, truncated] = await this.search(
+          query.search,
+          where,
+          skip,
+          limit,
+        );
+        const result = {
+          data: businesses,
+          meta: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+            nextCursor: null,
+            truncated,
+          },
+        };
+        await this.cache.setList(query, result);
+        return result;
+      }
+
+      const sortBy = query.sortBy || 'created_at';
+      const sortOrder = query.sortOrder || 'desc';
+      const orderBy = buildBusinessOrderBy(sortBy, sortOrder);
+
+      // Cursor mode fetches one extra row to know whether another page exists
+      const cursorWhere = query.cursor
+        ? buildBusinessCursorWhere(query.cursor, sortBy, sortOrder)
+        : undefined;
+      const [rows, total] = cursorWhere
+        ? await this.repository.findAll(
+            where,
+            0,
+            limit + 1,
+            orderBy,
+            cursorWhere,
+          )
+        : await this.repository.findAll(where, skip, limit, orderBy);
+
+      const businesses = rows.slice(0, limit);
+      const hasMore = cursorWhere
+        ? rows.length > limit
+        : skip + businesses.length < total;
+      const last = businesses[businesses.length - 1];
+      const nextCursor =
+        hasMore && last ? encodeBusinessCursor(last, sortBy, sortOrder) : null;
 
       const result = {
         data: businesses,
-        meta: {
-          total,
-          page,
-          limit,
-          totalPages: Math.ceil(total / limit),
-        },
+        meta: query.cursor
+          ? { total, limit, nextCursor }
+          : {
+              total,
+              page,
+              limit,
+              totalPages: Math.ceil(total / limit),
+              nextCursor,
+            },
       };
 
       // Cache result
@@ -196,29 +290,150 @@ export class BusinessService {
   }
 
   /**
-   * Delete a business by ID.
+   * Update a business and record which fields changed.
+   *
+   * Only fields whose value actually differs from the stored record are
+   * written to the change history, so re-saving an unchanged form is a no-op
+   * for the audit trail.
    *
    * @param id - Business ID
-   * @returns Success message
+   * @param updateBusinessDto - Partial business data
+   * @param userId - ID of the user making the change
+   * @returns Updated business entity
+   * @throws {NotFoundException} If business doesn't exist
+   *
+   * @side-effects
+   * - Updates business in database
+   * - Writes one business_change row per modified field
+   * - Records modified fields as manual in field_sources, so enrichment
+   *   never overwrites them
+   * - Invalidates caches (specific business + lists + stats)
+   * - Emits 'business:updated' WebSocket event
+   */
+  async update(
+    id: number,
+    updateBusinessDto: UpdateBusinessDto,
+    userId?: string,
+  ) {
+    try {
+      const existing = await this.repository.findOne(id);
+
+      if (!existing) {
+        throw new NotFoundException(`Business with ID ${id} not found`);
+      }
+
+      const changes = this.diffFields(existing, updateBusinessDto).map(
+        (change) => ({ ...change, changed_by: userId ?? null }),
+      );
+
+      if (changes.length === 0) {
+        return existing;
+      }
+
+      const business = await this.repository.updateWithChanges(
+        id,
+        {
+          ...updateBusinessDto,
+          field_sources: withFieldSources(
+            readFieldSources(existing.field_sources),
+            changes.map((change) => change.field),
+            MANUAL_SOURCE,
+          ),
+        },
+        changes,
+      );
+      this.logger.log(
+        `Updated business ${id}: ${changes.map((c) => c.field).join(', ')}`,
+      );
+
+      // Invalidate caches
+      await this.cache.invalidateAll(id);
+
+      // Emit WebSocket event
+      this.eventsGateway.emitBusinessUpdated(business);
+
+      return business;
+    } catch (error) {
+      this.logger.error(`Error updating business ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get field-level change history for a business.
+   *
+   * @param id - Business ID
+   * @param query - Pagination parameters
+   * @returns Paginated change list, newest first
    * @throws {NotFoundException} If business doesn't exist
+   */
+  async getHistory(id: number, query: QueryBusinessHistoryDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+    const skip = (page - 1) * limit;
+
+    try {
+      if (!(await this.repository.exists(id))) {
+        throw new NotFoundException(`Business with ID ${id} not found`);
+      }
+
+      const [changes, total] = await this.repository.findChanges(
+        id,
+        skip,
+        limit,
+      );
+
+      return {
+        data: changes,
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching history for business ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a business to the trash.
+   *
+   * The business disappears from lists, stats and analytics but keeps its
+   * contacts and history until restored or purged (see BusinessTrashService).
+   *
+   * @param id - Business ID
+   * @param userId - ID of the user deleting the business
+   * @returns Success message
+   * @throws {NotFoundException} If business doesn't exist or is already trashed
    *
    * @side-effects
-   * - Deletes business from database (cascades to contacts, logs, messages)
+   * - Sets deleted_at/deleted_by on the business
    * - Invalidates caches (specific business + lists + stats)
-   * - Does NOT emit WebSocket event (by design - add if needed)
+   * - Emits 'business:deleted' and 'stats:updated' WebSocket events
    */
-  async remove(id: number) {
+  async remove(id: number, userId?: string) {
     try {
-      const business = await this.repository.delete(id);
-      this.logger.log(`Deleted business: ${business.name} (ID: ${id})`);
+      const trashed = await this.repository.softDelete(id, userId);
+
+      if (!trashed) {
+        throw new NotFoundException(`Business with ID ${id} not found`);
+      }
+
+      this.logger.log(`Moved business ${id} to trash`);
 
       // Invalidate caches
       await this.cache.invalidateAll(id);
 
-      return { message: 'Business deleted successfully' };
+      this.eventsGateway.emitEvent('business:deleted', { id });
+      this.eventsGateway.emitStatsUpdated(await this.getStats());
+
+      return { message: 'Business moved to trash' };
     } catch (error) {
       this.logger.error(`Error deleting business ${id}:`, error);
-      throw new NotFoundException(`Business with ID ${id} not found`);
+      throw error;
     }
   }
 
@@ -253,4 +468,83 @@ export class BusinessService {
       throw error;
     }
   }
+
+  /**
+   * Compare incoming values against the stored record.
+   *
+   * Values are stringified for storage, so `10` and `"10"` are treated as
+   * equal. Undefined fields are skipped; null means "clear the field".
+   */
+  private diffFields(
+    existing: Record<string, any>,
+    updates: Record<string, any>,
+  ): { field: string; old_value: string | null; new_value: string | null }[] {
+    const toStored = (
+      value: string | number | boolean | null | undefined,
+    ): string | null =>
+      value === null || value === undefined ? null : String(value);
+
+    return Object.entries(updates)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => ({
+        field,
+        old_value: toStored(existing[field]),
+        new_value: toStored(value),
+      }))
+      .filter((change) => change.old_value !== change.new_value);
+  }
+
+  /**
+   * Ranked fuzzy search restricted by the regular list filters.
+   *
+   * Ranking happens in Postgres; filters and pagination are applied to the
+   * ranked candidate list so the relevance order is preserved. One candidate
+   * past the limit is fetched to tell whether the list was cut off.
+   *
+   * @returns Tuple of [page of businesses with rank/highlights, total
+   *   matches, whether candidates beyond the limit were left out]
+   */
+  private async search(
+    term: string,
+    where: Prisma.businessWhereInput,
+    skip: number,
+    take: number,
+  ): Promise<[any[], number, boolean]> {
+    const candidates = await this.repository.searchRankedIds(
+      term,
+      SEARCH_CANDIDATE_LIMIT + 1,
+    );
+    const truncated = candidates.length > SEARCH_CANDIDATE_LIMIT;
+    const ranked = candidates.slice(0, SEARCH_CANDIDATE_LIMIT);
+    if (ranked.length === 0) {
+      return [[], 0, false];
+    }
+
+    let matches = ranked;
+    if (Object.keys(where).length > 0) {
+      const allowed = new Set(
+        await this.repository.findIds({
+          ...where,
+          id: { in: ranked.map((r) => r.id) },
+        }),
+      );
+      matches = ranked.filter((r) => allowed.has(r.id));
+    }
+
+    const pageMatches = matches.slice(skip, skip + take);
+    const rankById = new Map(pageMatches.map((r) => [r.id, r.rank]));
+    const businesses = await this.repository.findManyByIds(
+      pageMatches.map((r) => r.id),
+    );
+
+    return [
+      businesses.map((business) => ({
+        ...business,
+        search_rank: rankById.get(business.id),
+        highlights: buildSearchHighlights(business, term),
+      })),
+      matches.length,
+      truncated,
+    ];
+  }
 }
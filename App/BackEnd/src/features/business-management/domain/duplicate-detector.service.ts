@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BusinessDuplicateRepository } from '../data/business-duplicate.repository';
+import {
+  DUPLICATE_AUTO_MATCH_THRESHOLD,
+  DUPLICATE_REVIEW_THRESHOLD,
+  DuplicateProbe,
+  DuplicateScore,
+  extractDomain,
+  normalizePhone,
+  scoreDuplicate,
+} from './duplicate-scoring.helper';
+
+/** Maximum unscored candidates fetched per probe. */
+const CANDIDATE_LIMIT = 50;
+
+export interface DuplicateMatch extends DuplicateScore {
+  id: number;
+  name: string;
+}
+
+/**
+ * Duplicate detection shared by every ingest path.
+ *
+ * Deliberately depends only on its repository so it can be provided by
+ * the scraping and job-queue modules as well as business management.
+ *
+ * @example
+ * const match = await detector.findAutoMatch({ name: "Joe's Pizza LLC", phone });
+ * if (match) skip(); // same business already stored
+ */
+@Injectable()
+export class DuplicateDetectorService {
+  private readonly logger = new Logger(DuplicateDetectorService.name);
+
+  constructor(private repository: BusinessDuplicateRepository) {}
+
+  /**
+   * Score stored businesses against a probe.
+   *
+   * @param probe - Record to compare (may be unsaved)
+   * @returns Matches at or above the review threshold, best first
+   */
+  async findMatches(probe: DuplicateProbe): Promise<DuplicateMatch[]> {
+    const candidates = await this.repository.findCandidates(
+      probe,
+      normalizePhone(probe.phone),
+      extractDomain(probe.website),
+      CANDIDATE_LIMIT,
+    );
+
+    return candidates
+      .map((candidate) => ({
+        id: candidate.id,
+        name: candidate.name,
+        ...scoreDuplicate(probe, candidate),
+      }))
+      .filter((match) => match.score >= DUPLICATE_REVIEW_THRESHOLD)
+      .sort((a, b) => b.score - a.score || a.id - b.id);
+  }
+
+  /**
+   * Find a stored business that is confidently the same as the probe.
+   *
+   * @returns Best match at or above the auto-match threshold, or null
+   */
+  async findAutoMatch(probe: DuplicateProbe): Promise<DuplicateMatch | null> {
+    const [best] = await this.findMatches(probe);
+    return best && best.score >= DUPLICATE_AUTO_MATCH_THRESHOLD ? best : null;
+  }
+
+  /**
+   * Queue every likely duplicate of a stored business for review.
+   *
+   * @param business - Stored business to scan
+   * @returns Matches recorded
+   *
+   * @side-effects
+   * - Upserts business_duplicate rows (dismissed pairs stay dismissed)
+   */
+  async recordCandidates(
+    business: DuplicateProbe & { id: number },
+  ): Promise<DuplicateMatch[]> {
+    const matches = await this.findMatches(business);
+
+    for (const match of matches) {
+      const [low, high] =
+        business.id < match.id
+          ? [business.id, match.id]
+          : [match.id, business.id];
+      await this.repository.upsertPair(low, high, match.score, match.signals);
+    }
+
+    if (matches.length > 0) {
+      this.logger.log(
+        `Queued ${matches.length} duplicate candidate(s) for business ${business.id}`,
+      );
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Duplicate scoring for business records.
+ *
+ * A pair is scored from up to four signals: normalized name similarity,
+ * phone digits, website domain and geographic distance. Only signals that
+ * both records have contribute, so a missing phone neither helps nor hurts,
+ * while two different phones pull the score down.
+ */
+
+export interface DuplicateProbe {
+  id?: number;
+  name: string;
+  phone?: string | null;
+  website?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+// A type alias (not an interface) so it is assignable to Prisma JSON input
+export type DuplicateSignals = {
+  name: number;
+  phone?: number;
+  domain?: number;
+  distance_m?: number;
+};
+
+export interface DuplicateScore {
+  score: number;
+  signals: DuplicateSignals;
+}
+
+/** Pairs at or above this score are queued for review. */
+export const DUPLICATE_REVIEW_THRESHOLD = 0.6;
+
+/** Pairs at or above this score are treated as the same business on ingest. */
+export const DUPLICATE_AUTO_MATCH_THRESHOLD = 0.9;
+
+const WEIGHTS = { name: 0.4, phone: 0.3, domain: 0.2, geo: 0.1 };
+
+/**
+ * Name alone cannot confirm a duplicate (chains, common names), so a pair
+ * with no other comparable signal is capped below the review threshold
+ * unless the names are near-identical.
+ */
+const NAME_ONLY_FACTOR = 0.65;
+
+/** Distance at or under which two locations count as the same place. */
+const SAME_PLACE_METERS = 50;
+
+/** Distance beyond which location gives no support at all. */
+const FAR_APART_METERS = 500;
+
+const LEGAL_SUFFIXES = new Set([
+  'llc',
+  'inc',
+  'incorporated',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'ltd',
+  'limited',
+  'pc',
+  'pllc',
+  'lp',
+  'llp',
+]);
+
+/**
+ * Normalize a business name for comparison.
+ *
+ * @example
+ * normalizeBusinessName("Joe's Pizza, LLC") // 'joes pizza'
+ */
+export function normalizeBusinessName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’`]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word && word !== 'the' && !LEGAL_SUFFIXES.has(word))
+    .join(' ');
+}
+
+/**
+ * Reduce a phone number to its national digits.
+ *
+ * @example
+ * normalizePhone('+1 (732) 555-0100') // '7325550100'
+ */
+export function normalizePhone(phone?: string | null): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  const national =
+    digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return national.length >= 7 ? national : null;
+}
+
+/**
+ * Extract the registrable host from a website URL.
+ *
+ * @example
+ * extractDomain('https://www.joespizza.com/menu') // 'joespizza.com'
+ */
+export function extractDomain(website?: string | null): string | null {
+  if (!website) return null;
+  const host = website
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0];
+  return host && host.includes('.') ? host : null;
+}
+
+/**
+ * Great-circle distance between two coordinates in meters.
+ */
+export function distanceMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Similarity of two names (0..1) using the Dice coefficient over
+ * character bigrams of the normalized names.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeBusinessName(a).replace(/ /g, '');
+  const right = normalizeBusinessName(b).replace(/ /g, '');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const gram = left.slice(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const gram = right.slice(i, i + 2);
+    const count = bigrams.get(gram) ?? 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (left.length - 1 + (right.length - 1));
+}
+
+/**
+ * Score how likely two records describe the same business.
+ *
+ * @returns Score in 0..1 and the individual signal values
+ *
+ * @example
+ * scoreDuplicate(
+ *   { name: "Joe's Pizza LLC", phone: '732-555-0100' },
+ *   { name: 'Joes Pizza', phone: '(732) 555 0100' },
+ * ).score // 1
+ */
+export function scoreDuplicate(
+  a: DuplicateProbe,
+  b: DuplicateProbe,
+): DuplicateScore {
+  const signals: DuplicateSignals = { name: nameSimilarity(a.name, b.name) };
+  let weighted = signals.name * WEIGHTS.name;
+  let weight = WEIGHTS.name;
+
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+  if (phoneA && phoneB) {
+    signals.phone = phoneA === phoneB ? 1 : 0;
+    weighted += signals.phone * WEIGHTS.phone;
+    weight += WEIGHTS.phone;
+  }
+
+  const domainA = extractDomain(a.website);
+  const domainB = extractDomain(b.website);
+  if (domainA && domainB) {
+    signals.domain = domainA === domainB ? 1 : 0;
+    weighted += signals.domain * WEIGHTS.domain;
+    weight += WEIGHTS.domain;
+  }
+
+  if (
+    a.latitude != null &&
+    a.longitude != null &&
+    b.latitude != null &&
+    b.longitude != null
+  ) {
+    const meters = distanceMeters(
+      a.latitude,
+      a.longitude,
+      b.latitude,
+      b.longitude,
+    );
+    signals.distance_m = Math.round(meters);
+    const geo =
+      meters <= SAME_PLACE_METERS
+        ? 1
+        : Math.max(
+            0,
+            1 -
+              (meters - SAME_PLACE_METERS) /
+                (FAR_APART_METERS - SAME_PLACE_METERS),
+          );
+    weighted += geo * WEIGHTS.geo;
+    weight += WEIGHTS.geo;
+  }
+
+  const raw = weighted / weight;
+  const score = weight === WEIGHTS.name ? raw * NAME_ONLY_FACTOR : raw;
+
+  return { score: Math.round(score * 1000) / 1000, signals };
+}
@@ -0,0 +1,112 @@
+/**
+ * Highlight helpers for business search results.
+ *
+ * Ranges are returned as [start, end) character offsets into the original
+ * value so the frontend can render them however it likes.
+ */
+
+export interface SearchHighlight {
+  field: string;
+  value: string;
+  ranges: [number, number][];
+}
+
+/** Shortest prefix of a query token that still counts as a match. */
+const MIN_PREFIX_LENGTH = 3;
+
+/**
+ * Split a search term into lowercase tokens worth highlighting.
+ */
+export function tokenizeSearchTerm(term: string): string[] {
+  return term
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}@.]+/u)
+    .filter((token) => token.length >= 2);
+}
+
+/**
+ * Find match ranges for the given tokens in a single value.
+ *
+ * Each token is matched by its longest prefix that occurs in the value
+ * (down to MIN_PREFIX_LENGTH), so "plumber" highlights "Plumb" in
+ * "Plumbing" and "antonio" highlights "Antonio" in "Antonios".
+ */
+export function findMatchRanges(
+  value: string,
+  tokens: string[],
+): [number, number][] {
+  const haystack = value.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  for (const token of tokens) {
+    const minLength = Math.min(MIN_PREFIX_LENGTH, token.length);
+    for (let length = token.length; length >= minLength; length--) {
+      const needle = token.slice(0, length);
+      let from = haystack.indexOf(needle);
+      if (from === -1) continue;
+
+      while (from !== -1) {
+        ranges.push([from, from + length]);
+        from = haystack.indexOf(needle, from + length);
+      }
+      break;
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+/**
+ * Build highlights for a business and its contacts.
+ *
+ * @param business - Business row including contacts
+ * @param term - Raw search term
+ * @returns One entry per field that contains a match
+ */
+export function buildSearchHighlights(
+  business: Record<string, any>,
+  term: string,
+): SearchHighlight[] {
+  const tokens = tokenizeSearchTerm(term);
+  if (tokens.length === 0) return [];
+
+  const candidates: { field: string; value: unknown }[] = [
+    { field: 'name', value: business.name },
+    { field: 'address', value: business.address },
+    { field: 'website', value: business.website },
+    { field: 'phone', value: business.phone },
+    ...((business.contacts as Record<string, unknown>[]) || []).flatMap(
+      (contact, index) => [
+        { field: `contacts.${index}.name`, value: contact.name },
+        { field: `contacts.${index}.email`, value: contact.email },
+      ],
+    ),
+  ];
+
+  return candidates
+    .filter((c): c is { field: string; value: string } => {
+      return typeof c.value === 'string' && c.value.length > 0;
+    })
+    .map(({ field, value }) => ({
+      field,
+      value,
+      ranges: findMatchRanges(value, tokens),
+    }))
+    .filter((highlight) => highlight.ranges.length > 0);
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,16 @@
+/**
+ * Normalize tag names as stored: trimmed, lowercase, unique, non-empty.
+ *
+ * Shared by bulk tagging and the tag API so "Contractor " and "contractor"
+ * always resolve to the same tag.
+ *
+ * @param names - Raw tag names (undefined is treated as none)
+ * @returns Normalized names in first-seen order
+ */
+export function normalizeTagNames(names?: string[]): string[] {
+  return [
+    ...new Set(
+      (names || []).map((name) => name.trim().toLowerCase()).filter(Boolean),
+    ),
+  ];
+}
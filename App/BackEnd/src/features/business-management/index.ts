@@ -2,7 +2,30 @@
 export { BusinessManagementModule } from './business-management.module';
 export { BusinessController } from './api/business.controller';
 export { BusinessService } from './domain/business.service';
+export { BusinessBulkService } from './domain/business-bulk.service';
 export { BusinessCacheService } from './domain/business-cache.service';
+export { BusinessDedupService } from './domain/business-dedup.service';
+export { BusinessPipelineService } from './domain/business-pipeline.service';
+export { BusinessTrashService } from './domain/business-trash.service';
+export { DuplicateDetectorService } from './domain/duplicate-detector.service';
 export { BusinessRepository } from './data/business.repository';
+export { BusinessDuplicateRepository } from './data/business-duplicate.repository';
 export { CreateBusinessDto } from './api/dto/create-business.dto';
 export { QueryBusinessesDto } from './api/dto/query-businesses.dto';
+export { UpdateBusinessDto } from './api/dto/update-business.dto';
+export { QueryBusinessHistoryDto } from './api/dto/query-business-history.dto';
+export { QueryBusinessTrashDto } from './api/dto/query-business-trash.dto';
+export { BusinessFilterDto } from './api/dto/business-filter.dto';
+export {
+  BulkBusinessSelectionDto,
+  BulkTagBusinessesDto,
+  BulkActionResultDto,
+} from './api/dto/bulk-business.dto';
+export {
+  QueryBusinessDuplicatesDto,
+  MergeBusinessDuplicateDto,
+} from './api/dto/business-duplicate.dto';
+export {
+  MoveBusinessStageDto,
+  AssignBusinessDto,
+} from './api/dto/business-pipeline.dto';
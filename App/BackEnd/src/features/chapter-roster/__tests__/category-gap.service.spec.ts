@@ -0,0 +1,213 @@
+/**
+ * CategoryGapService Unit Tests
+ *
+ * Test Categories:
+ * - getGaps(): ranking open categories, filled categories, filters
+ * - scrape(): scrape for an open category, held categories rejected
+ * - outreach(): prospects of an open category, enriched first
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { CategoryGapService } from '../domain/category-gap.service';
+import { ChapterRosterService } from '../domain/chapter-roster.service';
+import { ChapterRosterRepository } from '../data/chapter-roster.repository';
+import { ScraperService } from '../../map-scraping/domain/scraper.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+
+describe('CategoryGapService', () => {
+  let service: CategoryGapService;
+  let repository: jest.Mocked<ChapterRosterRepository>;
+  let rosterService: jest.Mocked<ChapterRosterService>;
+  let scraperService: jest.Mocked<ScraperService>;
+  let jobQueue: jest.Mocked<JobQueueService>;
+
+  const plumbing = {
+    id: 1,
+    category: 'Plumbing',
+    category_key: 'plumbing',
+    match_categories: ['Plumber'],
+    business_name: 'Lopez Plumbing',
+    member_name: 'Maria Lopez',
+  };
+
+  const candidate = (
+    id: number,
+    business_type: string | null,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    city: 'Freehold',
+    business_type,
+    industry: null,
+    pipeline_stage: 'prospect',
+    enrichment_status: 'pending',
+    ...overrides,
+  });
+
+  const candidates = [
+    candidate(1, 'Plumber'),
+    candidate(2, 'Dentist', { city: 'Manalapan' }),
+    candidate(3, 'dentists', { enrichment_status: 'enriched' }),
+    candidate(4, 'Dentist', { pipeline_stage: 'contacted' }),
+    candidate(5, 'Florist'),
+    candidate(6, null, { industry: 'Accounting' }),
+    candidate(7, 'Accountant', { industry: 'Accounting' }),
+  ];
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoryGapService,
+        {
+          provide: ChapterRosterRepository,
+          useValue: {
+            findAll: jest.fn().mockResolvedValue([plumbing]),
+            findCandidates: jest.fn().mockResolvedValue(candidates),
+          },
+        },
+        {
+          provide: ChapterRosterService,
+          useValue: { findHolder: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: ScraperService,
+          useValue: {
+            startScraping: jest
+              .fn()
+              .mockResolvedValue({ success: true, runId: 'run-1' }),
+          },
+        },
+        {
+          provide: JobQueueService,
+          useValue: {
+            createBatchOutreachJobs: jest
+              .fn()
+              .mockResolvedValue([{ id: '1' }, { id: '2' }]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CategoryGapService);
+    repository = module.get(ChapterRosterRepository);
+    rosterService = module.get(ChapterRosterService);
+    scraperService = module.get(ScraperService);
+    jobQueue = module.get(JobQueueService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getGaps()', () => {
+    it('should rank open categories by local candidates', async () => {
+      const report = await service.getGaps({});
+
+      expect(report).toMatchObject({
+        members: 1,
+        candidates: 7,
+        total_gaps: 4,
+      });
+      expect(report.gaps.map((gap) => gap.key)).toEqual([
+        'dentist',
+        'accounting',
+        'accountant',
+        'florist',
+      ]);
+      expect(report.gaps[0]).toEqual({
+        category: 'Dentist',
+        key: 'dentist',
+        candidates: 3,
+        enriched_candidates: 1,
+        prospects: 2,
+        top_cities: [
+          { city: 'Freehold', candidates: 2 },
+          { city: 'Manalapan', candidates: 1 },
+        ],
+      });
+    });
+
+    it('should report filled categories with their member', async () => {
+      const report = await service.getGaps({});
+
+      expect(report.filled).toEqual([
+        {
+          category: 'Plumbing',
+          match_categories: ['Plumber'],
+          member_id: 1,
+          business_name: 'Lopez Plumbing',
+          member_name: 'Maria Lopez',
+          candidates: 1,
+        },
+      ]);
+    });
+
+    it('should apply the city, minimum and limit filters', async () => {
+      const report = await service.getGaps({
+        cities: ['Freehold'],
+        min_candidates: 2,
+        limit: 1,
+      });
+
+      expect(repository.findCandidates).toHaveBeenCalledWith(['Freehold']);
+      expect(report.total_gaps).toBe(2);
+      expect(report.gaps).toHaveLength(1);
+      expect(report.gaps[0].key).toBe('dentist');
+    });
+  });
+
+  describe('scrape()', () => {
+    it('should scrape the open category around the location', async () => {
+      await service.scrape({ category: ' Dentist ', location: 'Freehold, NJ' });
+
+      expect(scraperService.startScraping).toHaveBeenCalledWith({
+        location: 'Freehold, NJ',
+        radius: 10,
+        business_type: 'Dentist',
+        max_results: 50,
+      });
+    });
+
+    it('should reject a category a member holds', async () => {
+      rosterService.findHolder.mockResolvedValue(plumbing as never);
+
+      await expect(
+        service.scrape({ category: 'Plumbers', location: 'Freehold, NJ' }),
+      ).rejects.toThrow(ConflictException);
+      expect(scraperService.startScraping).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('outreach()', () => {
+    it('should queue outreach to prospects, enriched first', async () => {
+      const result = await service.outreach(
+        { category: 'Dentist', channel: 'linkedin' },
+        'user-1',
+      );
+
+      expect(result.businessIds).toEqual([3, 2]);
+      expect(jobQueue.createBatchOutreachJobs).toHaveBeenCalledWith(
+        [3, 2],
+        'user-1',
+        undefined,
+        'linkedin',
+      );
+    });
+
+    it('should respect the limit', async () => {
+      const result = await service.outreach({ category: 'Dentist', limit: 1 });
+
+      expect(result.businessIds).toEqual([3]);
+    });
+
+    it('should reject a category without prospects', async () => {
+      await expect(service.outreach({ category: 'Lawyer' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(jobQueue.createBatchOutreachJobs).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Category match helper tests
+ *
+ * Covers normalizing free-text categories and the keys members and
+ * businesses are compared by.
+ */
+
+import {
+  businessCategoryKeys,
+  memberCategoryKeys,
+  normalizeCategory,
+} from '../domain/category-match.helper';
+
+describe('category-match.helper', () => {
+  describe('normalizeCategory()', () => {
+    it('should ignore case, punctuation, spacing and plurals', () => {
+      expect(normalizeCategory('  Lawyers ')).toBe('lawyer');
+      expect(normalizeCategory('Heating & Cooling')).toBe(
+        'heating and cooling',
+      );
+      expect(normalizeCategory('Real-Estate  Agents')).toBe(
+        'real estate agent',
+      );
+    });
+
+    it('should keep words that only look plural', () => {
+      expect(normalizeCategory('Glass')).toBe('glass');
+      expect(normalizeCategory('Gas')).toBe('gas');
+    });
+  });
+
+  describe('memberCategoryKeys()', () => {
+    it('should cover the classification and its match categories once', () => {
+      expect(
+        memberCategoryKeys({
+          category: 'Plumbing',
+          match_categories: ['Plumber', 'plumbers', 'Plumbing'],
+        }),
+      ).toEqual(['plumbing', 'plumber']);
+    });
+  });
+
+  describe('businessCategoryKeys()', () => {
+    it('should use the business type and industry that are set', () => {
+      expect(
+        businessCategoryKeys({ business_type: 'Dentist', industry: null }),
+      ).toEqual(['dentist']);
+      expect(
+        businessCategoryKeys({
+          business_type: 'Dentists',
+          industry: 'Dentist',
+        }),
+      ).toEqual(['dentist']);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * ChapterRosterService Unit Tests
+ *
+ * Test Categories:
+ * - create(): one member per category, linked business checks
+ * - update(): moving categories, keeping the member's own categories
+ * - remove() / findHolder()
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ChapterRosterService } from '../domain/chapter-roster.service';
+import { ChapterRosterRepository } from '../data/chapter-roster.repository';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+
+describe('ChapterRosterService', () => {
+  let service: ChapterRosterService;
+  let repository: jest.Mocked<ChapterRosterRepository>;
+  let businessRepository: jest.Mocked<BusinessRepository>;
+
+  const member = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    category: 'Plumbing',
+    category_key: 'plumbing',
+    match_categories: ['Plumber'],
+    business_name: 'Lopez Plumbing',
+    member_name: 'Maria Lopez',
+    email: null,
+    phone: null,
+    business_id: null,
+    joined_at: null,
+    created_at: new Date('2026-11-02T00:00:00Z'),
+    updated_at: new Date('2026-11-02T00:00:00Z'),
+    business: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChapterRosterService,
+        {
+          provide: ChapterRosterRepository,
+          useValue: {
+            findAll: jest.fn().mockResolvedValue([member()]),
+            findOne: jest.fn().mockResolvedValue(member()),
+            findByBusiness: jest.fn().mockResolvedValue(null),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: BusinessRepository,
+          useValue: { exists: jest.fn().mockResolvedValue(true) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ChapterRosterService);
+    repository = module.get(ChapterRosterRepository);
+    businessRepository = module.get(BusinessRepository);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('create()', () => {
+    it('should store the normalized category and unique match categories', async () => {
+      await service.create({
+        category: ' Dentistry ',
+        match_categories: ['Dentist', 'dentists', 'Orthodontist'],
+        business_name: 'Bright Smiles',
+      });
+
+      expect(repository.create).toHaveBeenCalledWith({
+        category: 'Dentistry',
+        category_key: 'dentistry',
+        match_categories: ['Dentist', 'Orthodontist'],
+        business_name: 'Bright Smiles',
+      });
+    });
+
+    it('should reject a category another member holds', async () => {
+      await expect(
+        service.create({ category: 'plumbing', business_name: 'Pipe Pros' }),
+      ).rejects.toThrow(ConflictException);
+      await expect(
+        service.create({ category: 'Plumbers', business_name: 'Pipe Pros' }),
+      ).rejects.toThrow(/held by Lopez Plumbing/);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a category without letters or digits', async () => {
+      await expect(
+        service.create({ category: '--', business_name: 'Nobody' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should check the linked business', async () => {
+      businessRepository.exists.mockResolvedValueOnce(false);
+      await expect(
+        service.create({
+          category: 'Dentistry',
+          business_name: 'Bright Smiles',
+          business_id: 9,
+        }),
+      ).rejects.toThrow(NotFoundException);
+
+      repository.findByBusiness.mockResolvedValueOnce(
+        member({ business_id: 9 }),
+      );
+      await expect(
+        service.create({
+          category: 'Dentistry',
+          business_name: 'Bright Smiles',
+          business_id: 9,
+        }),
+      ).rejects.toThrow(/already on the roster as Plumbing/);
+    });
+  });
+
+  describe('update()', () => {
+    it('should let a member keep or reword their own category', async () => {
+      await service.update(1, { category: 'Plumbers' });
+
+      expect(repository.update).toHaveBeenCalledWith(1, {
+        category: 'Plumbers',
+        category_key: 'plumber',
+        match_categories: ['Plumber'],
+      });
+    });
+
+    it('should reject moving into a held category', async () => {
+      repository.findAll.mockResolvedValue([
+        member(),
+        member({
+          id: 2,
+          category: 'Dentistry',
+          match_categories: [],
+          business_name: 'Bright Smiles',
+        }),
+      ]);
+
+      await expect(
+        service.update(1, { match_categories: ['Dentistry'] }),
+      ).rejects.toThrow(ConflictException);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown member', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.update(99, {})).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove()', () => {
+    it('should delete the member', async () => {
+      await expect(service.remove(1)).resolves.toEqual({
+        message: 'Member removed successfully',
+      });
+      expect(repository.delete).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('findHolder()', () => {
+    it('should find the member covering a category', async () => {
+      await expect(service.findHolder('plumbers')).resolves.toMatchObject({
+        id: 1,
+      });
+      await expect(service.findHolder('Dentist')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { Controller, Get, Post, Body, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
+import { QueueName } from '../../job-queue/config/queue.config';
+import { CategoryGapService } from '../domain/category-gap.service';
+import {
+  CategoryGapOutreachDto,
+  CategoryGapQueryDto,
+  CategoryGapScrapeDto,
+} from './dto/category-gap.dto';
+
+/**
+ * Category gap API controller.
+ *
+ * Provides REST endpoints for recruiting into open categories:
+ * - GET /api/analytics/category-gaps - Open categories ranked by local candidates
+ * - POST /api/analytics/category-gaps/scrape - Scrape an open category
+ * - POST /api/analytics/category-gaps/outreach - Queue outreach to its prospects
+ *
+ * Like other scrapes, scraping a gap is ADMIN only; outreach follows the
+ * batch outreach endpoint (ADMIN and MEMBER).
+ */
+@ApiTags('Analytics')
+@Controller('api/analytics/category-gaps')
+export class CategoryGapController {
+  constructor(private readonly gapService: CategoryGapService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get open chapter categories',
+    description:
+      'Cross-references scraped business types and industries against the chapter roster. Returns the categories no member holds, ranked by number of local candidates, and the filled ones with their member.',
+  })
+  @ApiResponse({ status: 200, description: 'Category gaps' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  getGaps(@Query() query: CategoryGapQueryDto) {
+    return this.gapService.getGaps(query);
+  }
+
+  @Post('scrape')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Scrape an open category',
+    description:
+      'Starts a Google Maps scrape for the category around a location',
+  })
+  @ApiResponse({ status: 201, description: 'Scrape started' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 409, description: 'A member holds the category' })
+  scrape(@Body() dto: CategoryGapScrapeDto) {
+    return this.gapService.scrape(dto);
+  }
+
+  @Post('outreach')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Queue outreach to the prospects of an open category',
+    description:
+      'Queues one message generation job per prospect in the category, enriched prospects first',
+  })
+  @ApiResponse({ status: 201, description: 'Jobs created successfully' })
+  @ApiResponse({ status: 400, description: 'No prospects in the category' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 409, description: 'A member holds the category' })
+  async outreach(
+    @Body() dto: CategoryGapOutreachDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    const { jobs, businessIds } = await this.gapService.outreach(dto, user.id);
+    return {
+      jobIds: jobs.map((job) => job.id),
+      queueName: QueueName.OUTREACH,
+      totalBusinesses: businessIds.length,
+      status: 'pending',
+      message: `${jobs.length} outreach jobs created successfully`,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { ChapterRosterService } from '../domain/chapter-roster.service';
+import {
+  CreateChapterMemberDto,
+  UpdateChapterMemberDto,
+} from './dto/chapter-member.dto';
+
+/**
+ * Chapter roster API controller.
+ *
+ * Provides REST endpoints for the chapter's members:
+ * - GET /api/roster - Members by category
+ * - GET /api/roster/:id - A member
+ * - POST /api/roster - Add a member in an open category
+ * - PATCH /api/roster/:id - Edit a member or move them to another category
+ * - DELETE /api/roster/:id - Remove a member, opening their category
+ *
+ * Changing the roster is ADMIN only.
+ */
+@ApiTags('Chapter Roster')
+@Controller('api/roster')
+export class ChapterRosterController {
+  constructor(private readonly rosterService: ChapterRosterService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List chapter members by category' })
+  @ApiResponse({ status: 200, description: 'Roster members' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  findAll() {
+    return this.rosterService.findAll();
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a chapter member' })
+  @ApiResponse({ status: 200, description: 'Roster member' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.rosterService.findOne(id);
+  }
+
+  @Post()
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add a member to the roster' })
+  @ApiResponse({ status: 201, description: 'Member added' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Linked business not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Category already held, or business already on the roster',
+  })
+  create(@Body() dto: CreateChapterMemberDto) {
+    return this.rosterService.create(dto);
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a chapter member' })
+  @ApiResponse({ status: 200, description: 'Member updated' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Member or business not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Category already held, or business already on the roster',
+  })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateChapterMemberDto,
+  ) {
+    return this.rosterService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a member from the roster' })
+  @ApiResponse({ status: 200, description: 'Member removed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.rosterService.remove(id);
+  }
+}
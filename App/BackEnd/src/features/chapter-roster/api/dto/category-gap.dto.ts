@@ -0,0 +1,143 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { OUTREACH_BATCH_LIMIT } from '../../../job-queue/api/dto/create-outreach-batch-job.dto';
+
+/**
+ * Category gap report filters.
+ *
+ * Query format: ?cities[]=Freehold&cities[]=Manalapan&min_candidates=3
+ */
+export class CategoryGapQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only count candidates in these cities',
+    type: [String],
+    example: ['Freehold', 'Manalapan'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Transform(({ value }) =>
+    Array.isArray(value) ? value : [value].filter(Boolean),
+  )
+  cities?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Leave out open categories with fewer candidates',
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  min_candidates?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of open categories to return',
+    default: 50,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class CategoryGapScrapeDto {
+  @ApiProperty({ description: 'Open category to scrape', example: 'Dentist' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  category: string;
+
+  @ApiProperty({
+    description: 'Location to scrape around',
+    example: 'Freehold, NJ',
+  })
+  @IsString()
+  @IsNotEmpty()
+  location: string;
+
+  @ApiPropertyOptional({
+    description: 'Search radius in miles',
+    default: 10,
+    minimum: 1,
+    maximum: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  radius?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of results to scrape',
+    default: 50,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  max_results?: number;
+}
+
+export class CategoryGapOutreachDto {
+  @ApiProperty({
+    description: 'Open category whose candidates are contacted',
+    example: 'Dentist',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  category: string;
+
+  @ApiPropertyOptional({
+    description: 'Only contact candidates in these cities',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  cities?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Most candidates to contact',
+    default: 50,
+    minimum: 1,
+    maximum: OUTREACH_BATCH_LIMIT,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(OUTREACH_BATCH_LIMIT)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Outreach channel',
+    enum: ['email', 'linkedin', 'sms'],
+    default: 'email',
+  })
+  @IsOptional()
+  @IsIn(['email', 'linkedin', 'sms'])
+  channel?: 'email' | 'linkedin' | 'sms';
+}
@@ -0,0 +1,87 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateChapterMemberDto {
+  @ApiProperty({
+    description: 'Le Tip classification the member holds (one member each)',
+    example: 'Plumbing',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  category: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Scraped business types or industries this classification covers',
+    example: ['Plumber', 'Plumbing & Heating'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  match_categories?: string[];
+
+  @ApiProperty({ description: 'Member business', example: 'Lopez Plumbing' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  business_name: string;
+
+  @ApiPropertyOptional({ description: 'Member name', example: 'Maria Lopez' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  member_name?: string;
+
+  @ApiPropertyOptional({ description: 'Email address' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ description: 'Phone number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  phone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Lead record of the member business; it is left out of gap candidates',
+    example: 12,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  business_id?: number;
+
+  @ApiPropertyOptional({
+    description: 'Date the member joined the chapter',
+    example: '2024-03-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  joined_at?: string;
+}
+
+/**
+ * Partial roster member update.
+ *
+ * Omitted fields are left untouched; explicit nulls clear the stored value.
+ */
+export class UpdateChapterMemberDto extends PartialType(
+  CreateChapterMemberDto,
+) {}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { ChapterRosterController } from './api/chapter-roster.controller';
+import { CategoryGapController } from './api/category-gap.controller';
+import { ChapterRosterService } from './domain/chapter-roster.service';
+import { CategoryGapService } from './domain/category-gap.service';
+import { ChapterRosterRepository } from './data/chapter-roster.repository';
+import { BusinessRepository } from '../business-management/data/business.repository';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { MapScrapingModule } from '../map-scraping/map-scraping.module';
+import { JobQueueModule } from '../job-queue/job-queue.module';
+
+/**
+ * Chapter Roster feature module.
+ *
+ * The chapter's members and the Le Tip category each holds, and the
+ * category-gap analysis that compares scraped businesses against them.
+ *
+ * Dependencies:
+ * - PrismaModule: Database access via repositories
+ * - MapScrapingModule: Scrapes targeting an open category
+ * - JobQueueModule: Outreach batches to an open category's prospects
+ */
+@Module({
+  imports: [PrismaModule, MapScrapingModule, JobQueueModule],
+  controllers: [ChapterRosterController, CategoryGapController],
+  providers: [
+    ChapterRosterService,
+    CategoryGapService,
+    ChapterRosterRepository,
+    BusinessRepository,
+  ],
+  exports: [ChapterRosterService, CategoryGapService],
+})
+export class ChapterRosterModule {}
@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PipelineStage, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+const MEMBER_INCLUDE = {
+  business: { select: { id: true, name: true, city: true } },
+} satisfies Prisma.chapter_memberInclude;
+
+/**
+ * Data access for the chapter roster and the businesses that could fill its
+ * open categories.
+ */
+@Injectable()
+export class ChapterRosterRepository {
+  private readonly logger = new Logger(ChapterRosterRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List roster members by category.
+   */
+  async findAll() {
+    return this.prisma.chapter_member.findMany({
+      orderBy: { category: 'asc' },
+      include: MEMBER_INCLUDE,
+    });
+  }
+
+  /**
+   * Find a roster member by ID.
+   */
+  async findOne(id: number) {
+    return this.prisma.chapter_member.findUnique({
+      where: { id },
+      include: MEMBER_INCLUDE,
+    });
+  }
+
+  /**
+   * Find the member linked to a business.
+   */
+  async findByBusiness(businessId: number) {
+    return this.prisma.chapter_member.findUnique({
+      where: { business_id: businessId },
+    });
+  }
+
+  /**
+   * Add a member to the roster.
+   */
+  async create(data: Prisma.chapter_memberUncheckedCreateInput) {
+    const member = await this.prisma.chapter_member.create({
+      data,
+      include: MEMBER_INCLUDE,
+    });
+
+    this.logger.debug(
+      `Added ${member.business_name} to the roster as ${member.category}`,
+    );
+    return member;
+  }
+
+  /**
+   * Update a roster member.
+   */
+  async update(id: number, data: Prisma.chapter_memberUncheckedUpdateInput) {
+    return this.prisma.chapter_member.update({
+      where: { id },
+      data,
+      include: MEMBER_INCLUDE,
+    });
+  }
+
+  /**
+   * Remove a member from the roster, opening their category.
+   */
+  async delete(id: number) {
+    return this.prisma.chapter_member.delete({ where: { id } });
+  }
+
+  /**
+   * Businesses that could join the chapter: not in the trash, not closed,
+   * not already a member or lost, and with a category or industry to match.
+   *
+   * @param cities - Only businesses in these cities, when given
+   */
+  async findCandidates(cities?: string[]) {
+    return this.prisma.business.findMany({
+      where: {
+        deleted_at: null,
+        permanently_closed: false,
+        chapter_member: { is: null },
+        pipeline_stage: {
+          notIn: [PipelineStage.member, PipelineStage.lost],
+        },
+        OR: [{ business_type: { not: null } }, { industry: { not: null } }],
+        ...(cities?.length && { city: { in: cities } }),
+      },
+      select: {
+        id: true,
+        city: true,
+        business_type: true,
+        industry: true,
+        pipeline_stage: true,
+        enrichment_status: true,
+      },
+      orderBy: { id: 'asc' },
+    });
+  }
+}
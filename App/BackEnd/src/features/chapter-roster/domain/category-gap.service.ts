@@ -0,0 +1,260 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { PipelineStage } from '@prisma/client';
+import { ChapterRosterRepository } from '../data/chapter-roster.repository';
+import { ChapterRosterService } from './chapter-roster.service';
+import { ScraperService } from '../../map-scraping/domain/scraper.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import {
+  CategoryGapOutreachDto,
+  CategoryGapQueryDto,
+  CategoryGapScrapeDto,
+} from '../api/dto/category-gap.dto';
+import {
+  businessCategoryKeys,
+  memberCategoryKeys,
+  normalizeCategory,
+} from './category-match.helper';
+
+type Candidate = Awaited<
+  ReturnType<ChapterRosterRepository['findCandidates']>
+>[number];
+
+/** Local candidates for one normalized category */
+interface CategoryGroup {
+  labels: Map<string, number>;
+  candidates: number;
+  enriched: number;
+  prospects: number;
+  cities: Map<string, number>;
+}
+
+/**
+ * Category-gap analysis against the chapter roster.
+ *
+ * Every local business that isn't a member is a candidate for each
+ * category it has (Google Maps business_type and industry, normalized).
+ * Categories no member holds are the chapter's gaps, ranked by how many
+ * candidates could fill them. A gap can be worked directly: scrape more
+ * businesses of the category, or queue outreach to its prospects.
+ *
+ * @example
+ * const { gaps } = await gapService.getGaps({ cities: ['Freehold'] });
+ * await gapService.outreach({ category: gaps[0].category, limit: 25 }, user.id);
+ */
+@Injectable()
+export class CategoryGapService {
+  private readonly logger = new Logger(CategoryGapService.name);
+
+  constructor(
+    private repository: ChapterRosterRepository,
+    private rosterService: ChapterRosterService,
+    private scraperService: ScraperService,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  /**
+   * Open categories ranked by local candidates, and the filled ones with
+   * the member holding them.
+   */
+  async getGaps(query: CategoryGapQueryDto) {
+    const minCandidates = query.min_candidates ?? 1;
+    const limit = query.limit ?? 50;
+
+    const [members, candidates] = await Promise.all([
+      this.repository.findAll(),
+      this.repository.findCandidates(query.cities),
+    ]);
+    const groups = this.groupByCategory(candidates);
+
+    const held = new Set(members.flatMap(memberCategoryKeys));
+    const gaps = [...groups]
+      .filter(
+        ([key, group]) => !held.has(key) && group.candidates >= minCandidates,
+      )
+      .map(([key, group]) => ({
+        category: this.topEntries(group.labels, 1)[0].name,
+        key,
+        candidates: group.candidates,
+        enriched_candidates: group.enriched,
+        prospects: group.prospects,
+        top_cities: this.topEntries(group.cities, 3).map(({ name, count }) => ({
+          city: name,
+          candidates: count,
+        })),
+      }))
+      .sort(
+        (a, b) =>
+          b.candidates - a.candidates || a.category.localeCompare(b.category),
+      );
+
+    const filled = members.map((member) => {
+      const keys = memberCategoryKeys(member);
+      return {
+        category: member.category,
+        match_categories: member.match_categories,
+        member_id: member.id,
+        business_name: member.business_name,
+        member_name: member.member_name,
+        candidates: candidates.filter((candidate) =>
+          businessCategoryKeys(candidate).some((key) => keys.includes(key)),
+        ).length,
+      };
+    });
+
+    return {
+      members: members.length,
+      candidates: candidates.length,
+      total_gaps: gaps.length,
+      gaps: gaps.slice(0, limit),
+      filled,
+    };
+  }
+
+  /**
+   * Scrape more businesses of an open category.
+   *
+   * @throws {ConflictException} If a member holds the category
+   *
+   * @side-effects
+   * - Starts a scraping run (see ScraperService.startScraping)
+   */
+  async scrape(dto: CategoryGapScrapeDto) {
+    const category = dto.category.trim();
+    await this.assertOpen(category);
+
+    this.logger.log(`Scraping gap category "${category}" in ${dto.location}`);
+
+    return this.scraperService.startScraping({
+      location: dto.location,
+      radius: dto.radius ?? 10,
+      business_type: category,
+      max_results: dto.max_results ?? 50,
+    });
+  }
+
+  /**
+   * Queue outreach to the prospects of an open category, enriched ones
+   * first (they have the contact details messages need).
+   *
+   * @returns Created jobs and the targeted business IDs
+   * @throws {ConflictException} If a member holds the category
+   * @throws {BadRequestException} If the category has no prospects
+   *
+   * @side-effects
+   * - Queues one outreach message job per business
+   */
+  async outreach(dto: CategoryGapOutreachDto, userId?: string) {
+    const category = dto.category.trim();
+    await this.assertOpen(category);
+
+    const key = normalizeCategory(category);
+    const candidates = await this.repository.findCandidates(dto.cities);
+    const businessIds = candidates
+      .filter(
+        (candidate) =>
+          candidate.pipeline_stage === PipelineStage.prospect &&
+          businessCategoryKeys(candidate).includes(key),
+      )
+      .sort(
+        (a, b) =>
+          Number(b.enrichment_status === 'enriched') -
+          Number(a.enrichment_status === 'enriched'),
+      )
+      .slice(0, dto.limit ?? 50)
+      .map((candidate) => candidate.id);
+
+    if (businessIds.length === 0) {
+      throw new BadRequestException(`No prospects in "${category}" to contact`);
+    }
+
+    const jobs = await this.jobQueueService.createBatchOutreachJobs(
+      businessIds,
+      userId,
+      undefined,
+      dto.channel,
+    );
+
+    this.logger.log(
+      `Queued outreach to ${businessIds.length} prospects for gap category "${category}"`,
+    );
+    return { jobs, businessIds };
+  }
+
+  /**
+   * @throws {BadRequestException} If the category is blank once normalized
+   * @throws {ConflictException} If a member holds the category
+   */
+  private async assertOpen(category: string) {
+    if (!normalizeCategory(category)) {
+      throw new BadRequestException('category must contain a letter or digit');
+    }
+
+    const holder = await this.rosterService.findHolder(category);
+    if (holder) {
+      throw new ConflictException(
+        `"${category}" is held by ${holder.business_name} (${holder.category})`,
+      );
+    }
+  }
+
+  private groupByCategory(candidates: Candidate[]) {
+    const groups = new Map<string, CategoryGroup>();
+
+    for (const candidate of candidates) {
+      for (const label of this.labels(candidate)) {
+        const key = normalizeCategory(label);
+        let group = groups.get(key);
+        if (!group) {
+          group = {
+            labels: new Map(),
+            candidates: 0,
+            enriched: 0,
+            prospects: 0,
+            cities: new Map(),
+          };
+          groups.set(key, group);
+        }
+
+        group.labels.set(label, (group.labels.get(label) ?? 0) + 1);
+        group.candidates++;
+        if (candidate.enrichment_status === 'enriched') group.enriched++;
+        if (candidate.pipeline_stage === PipelineStage.prospect) {
+          group.prospects++;
+        }
+        if (candidate.city) {
+          group.cities.set(
+            candidate.city,
+            (group.cities.get(candidate.city) ?? 0) + 1,
+          );
+        }
+      }
+    }
+
+    return groups;
+  }
+
+  /** A candidate's categories, one per normalized key */
+  private labels(candidate: Candidate): string[] {
+    const byKey = new Map<string, string>();
+    for (const label of [candidate.business_type, candidate.industry]) {
+      const key = label ? normalizeCategory(label) : '';
+      if (key && !byKey.has(key)) {
+        byKey.set(key, label!.trim());
+      }
+    }
+    return [...byKey.values()];
+  }
+
+  /** Most frequent entries of a count map, ties by name */
+  private topEntries(counts: Map<string, number>, limit: number) {
+    return [...counts]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+}
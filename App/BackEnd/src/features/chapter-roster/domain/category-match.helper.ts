@@ -0,0 +1,66 @@
+/**
+ * Category matching between the chapter roster and scraped businesses.
+ *
+ * Le Tip classifications ("Plumbing"), Google Maps categories ("Plumber")
+ * and industries ("Plumbing & Heating") are free text. They are compared
+ * by a normalized key, and a member lists the scraped categories their
+ * classification covers in match_categories.
+ */
+
+/**
+ * Normalize a category for comparison: lowercase, "&" as "and", no
+ * punctuation or repeated spaces, and a trailing plural "s" dropped.
+ *
+ * @example
+ * normalizeCategory('Lawyers') === normalizeCategory('lawyer') // true
+ * normalizeCategory('Heating & Cooling') // 'heating and cooling'
+ */
+export function normalizeCategory(category: string): string {
+  return category
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) =>
+      word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+        ? word.slice(0, -1)
+        : word,
+    )
+    .join(' ');
+}
+
+/**
+ * Normalized keys a roster member holds: their classification and every
+ * category it covers.
+ */
+export function memberCategoryKeys(member: {
+  category: string;
+  match_categories: string[];
+}): string[] {
+  return [
+    ...new Set(
+      [member.category, ...member.match_categories]
+        .map(normalizeCategory)
+        .filter(Boolean),
+    ),
+  ];
+}
+
+/**
+ * Normalized keys a business can fill: its Google Maps category and its
+ * industry.
+ */
+export function businessCategoryKeys(business: {
+  business_type: string | null;
+  industry: string | null;
+}): string[] {
+  return [
+    ...new Set(
+      [business.business_type, business.industry]
+        .filter((category): category is string => !!category)
+        .map(normalizeCategory)
+        .filter(Boolean),
+    ),
+  ];
+}
@@ -0,0 +1,217 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ChapterRosterRepository } from '../data/chapter-roster.repository';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+import {
+  CreateChapterMemberDto,
+  UpdateChapterMemberDto,
+} from '../api/dto/chapter-member.dto';
+import { memberCategoryKeys, normalizeCategory } from './category-match.helper';
+
+/**
+ * The chapter roster: member businesses and the Le Tip classification each
+ * one holds.
+ *
+ * Le Tip allows one member per business category, so a category (or one of
+ * the scraped categories it covers) can't be held by two members, and a
+ * lead can be linked to one member at most.
+ *
+ * @example
+ * await rosterService.create({
+ *   category: 'Plumbing',
+ *   match_categories: ['Plumber', 'Plumbing & Heating'],
+ *   business_name: 'Lopez Plumbing',
+ * });
+ */
+@Injectable()
+export class ChapterRosterService {
+  private readonly logger = new Logger(ChapterRosterService.name);
+
+  constructor(
+    private repository: ChapterRosterRepository,
+    private businessRepository: BusinessRepository,
+  ) {}
+
+  /**
+   * List roster members by category.
+   */
+  async findAll() {
+    return this.repository.findAll();
+  }
+
+  /**
+   * Get a roster member.
+   *
+   * @throws {NotFoundException} If member doesn't exist
+   */
+  async findOne(id: number) {
+    return this.getMember(id);
+  }
+
+  /**
+   * Find the member whose classification covers a category.
+   *
+   * @returns Member, or null when the category is open
+   */
+  async findHolder(category: string) {
+    const key = normalizeCategory(category);
+    const members = await this.repository.findAll();
+    return (
+      members.find((member) => memberCategoryKeys(member).includes(key)) ?? null
+    );
+  }
+
+  /**
+   * Add a member to the roster.
+   *
+   * @throws {BadRequestException} If the category is blank once normalized
+   * @throws {ConflictException} If the category is held, or the business is
+   *   linked to another member
+   * @throws {NotFoundException} If business_id doesn't exist
+   */
+  async create(dto: CreateChapterMemberDto) {
+    const member = {
+      ...dto,
+      category: dto.category.trim(),
+      match_categories: this.uniqueCategories(dto.match_categories ?? []),
+    };
+    await this.assertCategoriesAvailable(member);
+    if (dto.business_id !== undefined) {
+      await this.assertBusinessAvailable(dto.business_id);
+    }
+
+    try {
+      return await this.repository.create({
+        ...member,
+        category_key: normalizeCategory(member.category),
+      });
+    } catch (error) {
+      this.logger.error(`Error adding "${member.category}" member:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a roster member, including moving them to another category.
+   *
+   * @throws {NotFoundException} If member or business_id doesn't exist
+   * @throws {ConflictException} If the new categories are held, or the
+   *   business is linked to another member
+   */
+  async update(id: number, dto: UpdateChapterMemberDto) {
+    const existing = await this.getMember(id);
+
+    const data: Prisma.chapter_memberUncheckedUpdateInput = { ...dto };
+    const category = dto.category?.trim() ?? existing.category;
+    const matchCategories = dto.match_categories
+      ? this.uniqueCategories(dto.match_categories)
+      : existing.match_categories;
+
+    if (dto.category !== undefined || dto.match_categories !== undefined) {
+      await this.assertCategoriesAvailable(
+        { category, match_categories: matchCategories },
+        id,
+      );
+      data.category = category;
+      data.category_key = normalizeCategory(category);
+      data.match_categories = matchCategories;
+    }
+    if (
+      dto.business_id !== undefined &&
+      dto.business_id !== null &&
+      dto.business_id !== existing.business_id
+    ) {
+      await this.assertBusinessAvailable(dto.business_id);
+    }
+
+    try {
+      return await this.repository.update(id, data);
+    } catch (error) {
+      this.logger.error(`Error updating roster member ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a member from the roster, opening their category.
+   *
+   * @throws {NotFoundException} If member doesn't exist
+   */
+  async remove(id: number) {
+    const member = await this.getMember(id);
+
+    try {
+      await this.repository.delete(id);
+      this.logger.log(
+        `Removed ${member.business_name} from the roster; "${member.category}" is open`,
+      );
+
+      return { message: 'Member removed successfully' };
+    } catch (error) {
+      this.logger.error(`Error removing roster member ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /** Trimmed categories without repeats of the same normalized category */
+  private uniqueCategories(categories: string[]): string[] {
+    const seen = new Set<string>();
+    return categories
+      .map((category) => category.trim())
+      .filter((category) => {
+        const key = normalizeCategory(category);
+        if (!key || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  private async assertCategoriesAvailable(
+    member: { category: string; match_categories: string[] },
+    exceptId?: number,
+  ) {
+    if (!normalizeCategory(member.category)) {
+      throw new BadRequestException('category must contain a letter or digit');
+    }
+
+    const keys = memberCategoryKeys(member);
+    const members = await this.repository.findAll();
+    for (const other of members) {
+      if (other.id === exceptId) continue;
+      const taken = memberCategoryKeys(other).find((key) => keys.includes(key));
+      if (taken) {
+        throw new ConflictException(
+          `"${taken}" is already held by ${other.business_name} (${other.category})`,
+        );
+      }
+    }
+  }
+
+  private async assertBusinessAvailable(businessId: number) {
+    if (!(await this.businessRepository.exists(businessId))) {
+      throw new NotFoundException(`Business with ID ${businessId} not found`);
+    }
+    const linked = await this.repository.findByBusiness(businessId);
+    if (linked) {
+      throw new ConflictException(
+        `Business ${businessId} is already on the roster as ${linked.category}`,
+      );
+    }
+  }
+
+  private async getMember(id: number) {
+    const member = await this.repository.findOne(id);
+    if (!member) {
+      throw new NotFoundException(`Roster member with ID ${id} not found`);
+    }
+    return member;
+  }
+}
@@ -0,0 +1,21 @@
+// Barrel exports for chapter-roster feature
+export { ChapterRosterModule } from './chapter-roster.module';
+export { ChapterRosterController } from './api/chapter-roster.controller';
+export { CategoryGapController } from './api/category-gap.controller';
+export { ChapterRosterService } from './domain/chapter-roster.service';
+export { CategoryGapService } from './domain/category-gap.service';
+export { ChapterRosterRepository } from './data/chapter-roster.repository';
+export {
+  normalizeCategory,
+  memberCategoryKeys,
+  businessCategoryKeys,
+} from './domain/category-match.helper';
+export {
+  CreateChapterMemberDto,
+  UpdateChapterMemberDto,
+} from './api/dto/chapter-member.dto';
+export {
+  CategoryGapQueryDto,
+  CategoryGapScrapeDto,
+  CategoryGapOutreachDto,
+} from './api/dto/category-gap.dto';
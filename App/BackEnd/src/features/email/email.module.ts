@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { EmailService } from './email.service';
 import { EmailController } from './email.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { ConfigModule } from '../../config/config.module';
 
 @Module({
-  imports: [PrismaModule, ConfigModule],
+  imports: [PrismaModule, ConfigModule, EventEmitterModule],
   controllers: [EmailController],
   providers: [EmailService],
   exports: [EmailService],
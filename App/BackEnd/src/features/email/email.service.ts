@@ -1,4 +1,5 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import type { MailDataRequired } from '@sendgrid/mail';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const sgMail = require('@sendgrid/mail') as {
@@ -30,6 +31,18 @@ export interface EmailConfig {
   trackOpens?: boolean;
 }
 
+/**
+ * Payload of the 'outreach:status-changed' event
+ */
+export interface OutreachStatusChangedEvent {
+  /** Outreach message ID */
+  messageId: number;
+  /** Business the message was sent to */
+  businessId: number;
+  /** New message status */
+  status: EmailStatus;
+}
+
 /**
  * Default email configuration for Le Tip outreach
  */
@@ -50,6 +63,7 @@ export class EmailService implements OnModuleInit {
   constructor(
     private readonly configService: ConfigService,
     private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
   ) {
     this.config = DEFAULT_CONFIG;
   }
@@ -239,6 +253,9 @@ export class EmailService implements OnModuleInit {
 
   /**
    * Update outreach message status and sent timestamp
+   *
+   * Emits 'outreach:status-changed' when the status actually changes, so
+   * repeated webhook deliveries don't produce duplicate timeline entries.
    */
   async updateMessageStatus(
     messageId: number,
@@ -246,6 +263,11 @@ export class EmailService implements OnModuleInit {
     sendgridMessageId?: string,
   ): Promise<void> {
     try {
+      const previous = await this.prisma.outreach_message.findUnique({
+        where: { id: messageId },
+        select: { status: true },
+      });
+
       const updateData: {
         status: string;
         sent_at?: Date;
@@ -258,12 +280,21 @@ export class EmailService implements OnModuleInit {
         updateData.sent_at = new Date();
       }
 
-      await this.prisma.outreach_message.update({
+      const message = await this.prisma.outreach_message.update({
         where: { id: messageId },
         data: updateData,
       });
 
       this.logger.debug(`Updated message ${messageId} status to ${status}`);
+
+      if (previous?.status !== status) {
+        const event: OutreachStatusChangedEvent = {
+          messageId,
+          businessId: message.business_id,
+          status,
+        };
+        this.eventEmitter.emit('outreach:status-changed', event);
+      }
     } catch (error) {
       this.logger.error(
         `Failed to update message ${messageId} status`,
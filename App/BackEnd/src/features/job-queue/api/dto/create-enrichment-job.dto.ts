@@ -14,7 +14,8 @@ import { JobPriority } from '../../config/queue.config';
 /**
  * DTO for creating a business enrichment job.
  *
- * Supports single or batch enrichment with external APIs (Hunter.io, AbstractAPI).
+ * Supports single or batch enrichment with external APIs (Hunter.io,
+ * AbstractAPI) and the business website.
  */
 export class CreateEnrichmentJobDto {
   @ApiProperty({
@@ -31,9 +32,10 @@ export class CreateEnrichmentJobDto {
   businessIds: number[];
 
   @ApiProperty({
-    description: 'Enrichment services to use',
-    example: ['hunter', 'abstract'],
-    enum: ['hunter', 'abstract', 'all'],
+    description:
+      'Enrichment providers to use; unknown or disabled ones are rejected',
+    example: ['hunter', 'website'],
+    enum: ['hunter', 'abstract', 'website', 'all'],
     isArray: true,
     default: ['all'],
     required: false,
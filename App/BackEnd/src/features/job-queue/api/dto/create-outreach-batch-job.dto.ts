@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsArray,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsInt,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { JobPriority } from '../../config/queue.config';
+
+/** Most businesses a single outreach batch may target. */
+export const OUTREACH_BATCH_LIMIT = 500;
+
+/**
+ * DTO for creating outreach message jobs for many businesses.
+ *
+ * Targets either an explicit ID list or a saved segment (resolved when the
+ * batch is created). Exactly one of businessIds and segmentId is required.
+ */
+export class CreateOutreachBatchJobDto {
+  @ApiProperty({
+    description: 'Business IDs to generate messages for',
+    example: [123, 456, 789],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(OUTREACH_BATCH_LIMIT)
+  @IsNumber({}, { each: true })
+  @Type(() => Number)
+  businessIds?: number[];
+
+  @ApiProperty({
+    description: 'Saved segment whose current businesses are targeted',
+    example: 4,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  segmentId?: number;
+
+  @ApiProperty({
+    description: 'Outreach channel',
+    enum: ['email', 'linkedin', 'sms'],
+    default: 'email',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['email', 'linkedin', 'sms'])
+  channel?: 'email' | 'linkedin' | 'sms';
+
+  @ApiProperty({
+    description: 'Job priority',
+    example: 'NORMAL',
+    enum: JobPriority,
+    default: JobPriority.NORMAL,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(JobPriority)
+  priority?: JobPriority;
+}
@@ -6,6 +6,7 @@ import {
   Min,
   Max,
   IsEnum,
+  IsBoolean,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { JobPriority } from '../../config/queue.config';
@@ -63,6 +64,16 @@ export class CreateScrapingJobDto {
   @Type(() => Number)
   radius?: number = 5;
 
+  @ApiProperty({
+    description: 'Also save places Google Maps marks as permanently closed',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeClosed?: boolean = false;
+
   @ApiProperty({
     description: 'Job priority (higher priority jobs execute first)',
     example: 'NORMAL',
@@ -16,6 +16,8 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiConsumes, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
 import { Role } from '@prisma/client';
 import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
 import { diskStorage } from 'multer';
 import { extname, join } from 'path';
 import { randomUUID } from 'crypto';
@@ -23,6 +25,7 @@ import { JobQueueService } from '../domain/job-queue.service';
 import { JobStatusTrackerService } from '../domain/job-status-tracker.service';
 import { CreateScrapingJobDto } from './dto/create-scraping-job.dto';
 import { CreateEnrichmentJobDto } from './dto/create-enrichment-job.dto';
+import { CreateOutreachBatchJobDto } from './dto/create-outreach-batch-job.dto';
 import { JobStatusResponseDto, JobListResponseDto } from './dto/job-status-response.dto';
 import {
   CreateCsvImportJobDto,
@@ -160,6 +163,50 @@ export class JobQueueController {
     };
   }
 
+  /**
+   * Create outreach message generation jobs for many businesses.
+   */
+  @Post('outreach/batch')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create outreach jobs for a list of businesses or a saved segment',
+    description:
+      'Queues one message generation job per business. A segment is resolved to its current businesses when the batch is created.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Jobs created successfully',
+    schema: {
+      properties: {
+        jobIds: { type: 'array', items: { type: 'string' }, example: ['1', '2'] },
+        queueName: { type: 'string', example: 'outreach-jobs' },
+        totalBusinesses: { type: 'number', example: 2 },
+        status: { type: 'string', example: 'pending' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid target, or segment is empty or too large',
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async createOutreachBatchJob(
+    @Body() dto: CreateOutreachBatchJobDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    const { jobs, businessIds } =
+      await this.jobQueueService.createTargetedOutreachJobs(dto, user.id);
+    return {
+      jobIds: jobs.map((job) => job.id),
+      queueName: QueueName.OUTREACH,
+      totalBusinesses: businessIds.length,
+      status: 'pending',
+      message: `${jobs.length} outreach jobs created successfully`,
+    };
+  }
+
   /**
    * Get job status by ID.
    */
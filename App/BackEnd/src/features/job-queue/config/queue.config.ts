@@ -88,6 +88,8 @@ export enum QueueName {
   ENRICHMENT = 'enrichment-jobs',
   OUTREACH = 'outreach-jobs',
   CSV_IMPORT = 'csv-import-jobs',
+  BULK_OPERATIONS = 'bulk-operations',
+  REMINDERS = 'reminder-jobs',
   DEAD_LETTER = 'dead-letter-queue',
 }
 
@@ -97,11 +99,14 @@ export enum QueueName {
 export enum JobType {
   // Scraping jobs
   SCRAPE_GOOGLE_MAPS = 'scrape:google-maps',
+  SCRAPE_SCHEDULED = 'scrape:scheduled',
+  SCRAPE_TERRITORY_CELL = 'scrape:territory-cell',
   SCRAPE_BUSINESS_DETAILS = 'scrape:business-details',
 
   // Enrichment jobs
   ENRICH_BUSINESS = 'enrich:business',
   ENRICH_BATCH = 'enrich:batch',
+  ENRICH_REFRESH = 'enrich:refresh',
   FIND_CONTACTS = 'enrich:contacts',
   GET_COMPANY_DATA = 'enrich:company-data',
 
@@ -113,8 +118,35 @@ export enum JobType {
   // CSV Import jobs
   CSV_IMPORT = 'csv:import',
   CSV_VALIDATE = 'csv:validate',
+
+  // Bulk business jobs
+  BULK_DELETE = 'bulk:delete',
+  BULK_TAG = 'bulk:tag',
+  BULK_PURGE_TRASH = 'bulk:purge-trash',
+
+  // Reminder jobs
+  TASK_REMINDER = 'reminder:task',
 }
 
+/**
+ * Job scheduler that purges businesses whose trash retention has expired.
+ * Runs daily at 03:00 server time on the bulk-operations queue.
+ */
+export const TRASH_PURGE_SCHEDULER = {
+  id: 'trash-purge',
+  pattern: '0 3 * * *',
+} as const;
+
+/**
+ * Job scheduler that enriches stale and failed businesses again.
+ * Runs daily at 04:00 server time on the enrichment queue, after the trash
+ * purge so purged businesses aren't refreshed.
+ */
+export const ENRICHMENT_REFRESH_SCHEDULER = {
+  id: 'enrichment-refresh',
+  pattern: '0 4 * * *',
+} as const;
+
 /**
  * Queue-specific configurations with custom settings per queue type.
  */
@@ -167,6 +199,22 @@ export const QUEUE_CONFIGS: Record<QueueName, QueueOptions> = {
     },
   },
 
+  [QueueName.BULK_OPERATIONS]: {
+    ...DEFAULT_QUEUE_OPTIONS,
+    defaultJobOptions: {
+      ...DEFAULT_QUEUE_OPTIONS.defaultJobOptions,
+      attempts: 2, // Bulk deletes/tags are idempotent, one retry is safe
+    },
+  },
+
+  [QueueName.REMINDERS]: {
+    ...DEFAULT_QUEUE_OPTIONS,
+    defaultJobOptions: {
+      ...DEFAULT_QUEUE_OPTIONS.defaultJobOptions,
+      attempts: 3, // Reminders are claimed once in the DB, retries can't double-send
+    },
+  },
+
   [QueueName.DEAD_LETTER]: {
     ...DEFAULT_QUEUE_OPTIONS,
     defaultJobOptions: {
@@ -221,6 +269,16 @@ export const WORKER_CONFIGS: Record<QueueName, Partial<WorkerOptions>> = {
     },
   },
 
+  [QueueName.BULK_OPERATIONS]: {
+    ...DEFAULT_WORKER_OPTIONS,
+    concurrency: 1, // Avoid overlapping bulk writes on the same rows
+  },
+
+  [QueueName.REMINDERS]: {
+    ...DEFAULT_WORKER_OPTIONS,
+    concurrency: 5, // Reminders are tiny; don't let a burst of due tasks queue up
+  },
+
   [QueueName.DEAD_LETTER]: {
     ...DEFAULT_WORKER_OPTIONS,
     concurrency: 1, // Process dead letters sequentially
@@ -30,13 +30,16 @@ export class JobHistoryRepository {
   /**
    * Create a new job history record.
    *
+   * A job run again after a retry or a restart keeps its existing record.
+   *
    * @param job - BullMQ job instance
    * @returns Created job history record
    */
   async createJobRecord(job: Job): Promise<any> {
     try {
-      return await this.prisma.job_history.create({
-        data: {
+      return await this.prisma.job_history.upsert({
+        where: { jobId: job.id?.toString() || '' },
+        create: {
           jobId: job.id?.toString() || '',
           queueName: job.queueName,
           jobType: job.name,
@@ -48,6 +51,10 @@ export class JobHistoryRepository {
           userId: job.data.userId || null,
           createdAt: new Date(job.timestamp),
         },
+        update: {
+          data: job.data,
+          attemptsMade: job.attemptsMade,
+        },
       });
     } catch (error) {
       this.logger.error(
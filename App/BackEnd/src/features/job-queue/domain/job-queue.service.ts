@@ -1,15 +1,37 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
 import { createReadStream } from 'fs';
 import { parse } from 'csv-parse';
 import { QueueManagerService } from './queue-manager.service';
-import { QueueName, JobType, JobPriority } from '../config/queue.config';
+import {
+  QueueName,
+  JobType,
+  JobPriority,
+  TRASH_PURGE_SCHEDULER,
+  ENRICHMENT_REFRESH_SCHEDULER,
+} from '../config/queue.config';
 import { CreateScrapingJobDto } from '../api/dto/create-scraping-job.dto';
 import { CreateEnrichmentJobDto } from '../api/dto/create-enrichment-job.dto';
+import {
+  CreateOutreachBatchJobDto,
+  OUTREACH_BATCH_LIMIT,
+} from '../api/dto/create-outreach-batch-job.dto';
 import {
   CsvValidationResultDto,
   CsvRowErrorDto,
   CsvColumnMappingDto,
 } from '../api/dto/csv-import.dto';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+import { BusinessFilterDto } from '../../business-management/api/dto/business-filter.dto';
+import { buildBusinessWhere } from '../../business-management/domain/business-filter.helper';
+import type { ScrapeQualityFilters } from '../../map-scraping/domain/scrape-quality.helper';
+import { SegmentRepository } from '../../lead-segments/data/segment.repository';
+import { EnrichmentService } from '../../lead-enrichment/domain/enrichment.service';
 
 /**
  * Job Queue Service
@@ -33,10 +55,47 @@ import {
  * });
  */
 @Injectable()
-export class JobQueueService {
+export class JobQueueService implements OnApplicationBootstrap {
   private readonly logger = new Logger(JobQueueService.name);
 
-  constructor(private readonly queueManager: QueueManagerService) {}
+  constructor(
+    private readonly queueManager: QueueManagerService,
+    private readonly businessRepository: BusinessRepository,
+    private readonly segmentRepository: SegmentRepository,
+    private readonly enrichmentService: EnrichmentService,
+  ) {}
+
+  /**
+   * Register recurring jobs once all queues are initialized.
+   *
+   * A Redis outage must not keep the API from starting, so failures are
+   * logged and the schedule is retried on the next boot.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.queueManager.upsertJobScheduler(
+        QueueName.BULK_OPERATIONS,
+        TRASH_PURGE_SCHEDULER.id,
+        TRASH_PURGE_SCHEDULER.pattern,
+        JobType.BULK_PURGE_TRASH,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to schedule trash purge: ${error.message}`);
+    }
+
+    try {
+      await this.queueManager.upsertJobScheduler(
+        QueueName.ENRICHMENT,
+        ENRICHMENT_REFRESH_SCHEDULER.id,
+        ENRICHMENT_REFRESH_SCHEDULER.pattern,
+        JobType.ENRICH_REFRESH,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule enrichment refresh: ${error.message}`,
+      );
+    }
+  }
 
   /**
    * Create a Google Maps scraping job.
@@ -56,6 +115,7 @@ export class JobQueueService {
           location: dto.location,
           maxResults: dto.maxResults || 50,
           radius: dto.radius || 5,
+          includeClosed: dto.includeClosed ?? false,
           userId: dto.userId,
         },
         {
@@ -72,6 +132,83 @@ export class JobQueueService {
     }
   }
 
+  /**
+   * Queue the processing of a scraping provider run that is already started
+   * (POST /api/scrape). The job ID is derived from the run ID, so a run is
+   * never queued twice.
+   *
+   * @param params - Provider run ID and how to record its results
+   * @returns Created job instance
+   */
+  async createScrapeRunJob(params: {
+    runId: string;
+    searchQuery: string;
+    location: string;
+    maxResults: number;
+    includeClosed: boolean;
+    filters?: ScrapeQualityFilters;
+    userId?: string;
+  }): Promise<any> {
+    try {
+      const job = await this.queueManager.addJob(
+        QueueName.SCRAPING,
+        JobType.SCRAPE_GOOGLE_MAPS,
+        params,
+        { jobId: `scrape-${params.runId}` },
+      );
+
+      this.logger.log(`Created scraping job ${job.id} for run ${params.runId}`);
+      return job;
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue scraping run ${params.runId}: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Queue one scrape per cell and category of a territory scrape. Each job
+   * starts its own provider run, so the scraping queue's concurrency limits
+   * how many runs are in flight. Job IDs are derived from the cell IDs.
+   *
+   * @param cellIds - territory_scrape_cell IDs
+   * @param options - How to record each cell's results
+   * @returns Created job instances
+   */
+  async createTerritoryCellJobs(
+    cellIds: number[],
+    options: {
+      maxResults: number;
+      includeClosed: boolean;
+      filters: ScrapeQualityFilters;
+      userId?: string;
+    },
+  ): Promise<any[]> {
+    try {
+      const jobs = cellIds.map((cellId) => ({
+        name: JobType.SCRAPE_TERRITORY_CELL,
+        data: { cellId, ...options },
+        opts: { jobId: `territory-cell-${cellId}` },
+      }));
+
+      const createdJobs = await this.queueManager.addBulk(
+        QueueName.SCRAPING,
+        jobs,
+      );
+
+      this.logger.log(`Created ${createdJobs.length} territory cell jobs`);
+      return createdJobs;
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue territory cells: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Create a business enrichment job.
    *
@@ -79,8 +216,11 @@ export class JobQueueService {
    *
    * @param dto - Enrichment job parameters
    * @returns Created job instance(s)
+   * @throws {BadRequestException} If a service is unknown or no enabled provider is selected
    */
   async createEnrichmentJob(dto: CreateEnrichmentJobDto): Promise<any[]> {
+    this.enrichmentService.assertSources(dto.services);
+
     try {
       this.logger.log(`Creating enrichment job for ${dto.businessIds.length} businesses`);
 
@@ -156,12 +296,14 @@ export class JobQueueService {
    * @param businessIds - Array of business IDs
    * @param userId - User ID
    * @param priority - Job priority
+   * @param channel - Outreach channel (default: email)
    * @returns Created job instances
    */
   async createBatchOutreachJobs(
     businessIds: number[],
     userId?: string,
     priority?: JobPriority,
+    channel?: 'email' | 'linkedin' | 'sms',
   ): Promise<any[]> {
     try {
       this.logger.log(`Creating batch outreach jobs for ${businessIds.length} businesses`);
@@ -171,6 +313,7 @@ export class JobQueueService {
         data: {
           businessId,
           userId,
+          channel: channel || 'email',
         },
         opts: {
           priority: priority || JobPriority.NORMAL,
@@ -188,6 +331,113 @@ export class JobQueueService {
     }
   }
 
+  /**
+   * Create outreach jobs for an ID list or the current members of a saved
+   * segment.
+   *
+   * @param dto - Target (businessIds or segmentId), channel and priority
+   * @param userId - User ID
+   * @returns Created jobs and the resolved business IDs
+   * @throws {BadRequestException} If not exactly one target is given, or the
+   *   segment matches no businesses or more than OUTREACH_BATCH_LIMIT
+   * @throws {NotFoundException} If the segment doesn't exist
+   */
+  async createTargetedOutreachJobs(
+    dto: CreateOutreachBatchJobDto,
+    userId?: string,
+  ): Promise<{ jobs: any[]; businessIds: number[] }> {
+    if ((dto.businessIds === undefined) === (dto.segmentId === undefined)) {
+      throw new BadRequestException(
+        'Provide exactly one of businessIds or segmentId',
+      );
+    }
+
+    const businessIds =
+      dto.segmentId !== undefined
+        ? await this.resolveSegmentBusinessIds(dto.segmentId)
+        : [...new Set(dto.businessIds)];
+
+    const jobs = await this.createBatchOutreachJobs(
+      businessIds,
+      userId,
+      dto.priority,
+      dto.channel,
+    );
+    return { jobs, businessIds };
+  }
+
+  private async resolveSegmentBusinessIds(segmentId: number) {
+    const segment = await this.segmentRepository.findOne(segmentId);
+    if (!segment) {
+      throw new NotFoundException(`Segment with ID ${segmentId} not found`);
+    }
+
+    const where = buildBusinessWhere(segment.filter as BusinessFilterDto);
+    const total = await this.segmentRepository.countBusinesses(where);
+    if (total === 0) {
+      throw new BadRequestException(
+        `Segment "${segment.name}" matches no businesses`,
+      );
+    }
+    if (total > OUTREACH_BATCH_LIMIT) {
+      throw new BadRequestException(
+        `Segment "${segment.name}" matches ${total} businesses; narrow it to ${OUTREACH_BATCH_LIMIT} or fewer`,
+      );
+    }
+
+    this.logger.log(
+      `Segment ${segmentId} resolved to ${total} businesses for outreach`,
+    );
+    return this.businessRepository.findIds(where);
+  }
+
+  /**
+   * Create a bulk delete or tag job for a large set of businesses.
+   *
+   * Small selections are handled synchronously by BusinessBulkService;
+   * this is only used once a selection is too large for one request.
+   *
+   * @param jobType - JobType.BULK_DELETE or JobType.BULK_TAG
+   * @param businessIds - Business IDs to act on
+   * @param options - Tag names (for BULK_TAG) and user ID
+   * @returns Created job instance
+   */
+  async createBulkBusinessJob(
+    jobType: JobType.BULK_DELETE | JobType.BULK_TAG,
+    businessIds: number[],
+    options: { add?: string[]; remove?: string[]; userId?: string } = {},
+  ): Promise<any> {
+    try {
+      this.logger.log(
+        `Creating ${jobType} job for ${businessIds.length} businesses`,
+      );
+
+      const job = await this.queueManager.addJob(
+        QueueName.BULK_OPERATIONS,
+        jobType,
+        {
+          businessIds,
+          add: options.add || [],
+          remove: options.remove || [],
+          userId: options.userId,
+        },
+        {
+          priority: JobPriority.NORMAL,
+          timeout: 600000, // 10 minutes
+        },
+      );
+
+      this.logger.log(`Created bulk job ${job.id}`);
+      return job;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create bulk job: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Schedule a delayed job.
    *
@@ -218,6 +468,78 @@ export class JobQueueService {
     }
   }
 
+  /**
+   * Run a scrape schedule on its cron pattern. Upserting again replaces the
+   * pattern of an existing schedule.
+   *
+   * @param scheduleId - scrape_schedule ID
+   * @param cron - Cron pattern
+   */
+  async scheduleRecurringScrape(
+    scheduleId: number,
+    cron: string,
+  ): Promise<void> {
+    await this.queueManager.upsertJobScheduler(
+      QueueName.SCRAPING,
+      this.scrapeSchedulerId(scheduleId),
+      cron,
+      JobType.SCRAPE_SCHEDULED,
+      { scheduleId },
+    );
+  }
+
+  /**
+   * Stop running a scrape schedule.
+   *
+   * @param scheduleId - scrape_schedule ID
+   */
+  async unscheduleRecurringScrape(scheduleId: number): Promise<void> {
+    await this.queueManager.removeJobScheduler(
+      QueueName.SCRAPING,
+      this.scrapeSchedulerId(scheduleId),
+    );
+  }
+
+  private scrapeSchedulerId(scheduleId: number): string {
+    return `scrape-schedule-${scheduleId}`;
+  }
+
+  /**
+   * Schedule the due reminder for a follow-up task.
+   *
+   * The job ID is derived from the task and due date, so scheduling the same
+   * due date twice is a no-op. Jobs for an outdated due date still run but
+   * are ignored by the worker.
+   *
+   * @param taskId - Task to remind about
+   * @param dueAt - Task due date
+   * @returns Created job instance
+   */
+  async scheduleTaskReminder(taskId: number, dueAt: Date): Promise<any> {
+    try {
+      const job = await this.queueManager.addJob(
+        QueueName.REMINDERS,
+        JobType.TASK_REMINDER,
+        { taskId, dueAt: dueAt.toISOString() },
+        {
+          delay: Math.max(dueAt.getTime() - Date.now(), 0),
+          jobId: `task-${taskId}-${dueAt.getTime()}`,
+        },
+      );
+
+      this.logger.log(
+        `Scheduled reminder for task ${taskId} at ${dueAt.toISOString()}`,
+      );
+      return job;
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule task reminder: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
   // ==========================================
   // CSV Import Methods
   // ==========================================
@@ -71,6 +71,7 @@ export class QueueManagerService implements OnModuleInit {
       delay?: number;
       attempts?: number;
       timeout?: number;
+      jobId?: string;
     },
   ): Promise<any> {
     const queue = this.queues.get(queueName);
@@ -114,6 +115,77 @@ export class QueueManagerService implements OnModuleInit {
     }
   }
 
+  /**
+   * Create or update a repeatable job.
+   *
+   * Safe to call on every startup: the scheduler ID is stable, so an
+   * existing schedule is replaced rather than duplicated.
+   *
+   * @param queueName - Queue the jobs are added to
+   * @param schedulerId - Stable scheduler ID
+   * @param pattern - Cron pattern
+   * @param jobType - Job type/name of each run
+   * @param data - Job data payload of each run
+   */
+  async upsertJobScheduler(
+    queueName: QueueName,
+    schedulerId: string,
+    pattern: string,
+    jobType: string,
+    data: any = {},
+  ): Promise<void> {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new Error(`Queue ${queueName} not found`);
+    }
+
+    try {
+      await queue.upsertJobScheduler(
+        schedulerId,
+        { pattern },
+        { name: jobType, data },
+      );
+      this.logger.log(
+        `Scheduled ${jobType} on queue ${queueName} (${pattern})`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule ${jobType} on queue ${queueName}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a job scheduler. Jobs it already created are left alone.
+   *
+   * @param queueName - Queue the scheduler belongs to
+   * @param schedulerId - Scheduler ID given to upsertJobScheduler
+   * @returns True if a scheduler was removed
+   */
+  async removeJobScheduler(
+    queueName: QueueName,
+    schedulerId: string,
+  ): Promise<boolean> {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new Error(`Queue ${queueName} not found`);
+    }
+
+    try {
+      const removed = await queue.removeJobScheduler(schedulerId);
+      this.logger.log(
+        `Removed job scheduler ${schedulerId} from queue ${queueName}`,
+      );
+      return removed;
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove job scheduler ${schedulerId} from queue ${queueName}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Get a job by ID from a queue.
    *
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 
 // Config
@@ -14,6 +14,12 @@ import { JobStatusTrackerService } from './domain/job-status-tracker.service';
 
 // Data Layer
 import { JobHistoryRepository } from './data/repositories/job-history.repository';
+import { BusinessRepository } from '../business-management/data/business.repository';
+import { BusinessDuplicateRepository } from '../business-management/data/business-duplicate.repository';
+import { DuplicateDetectorService } from '../business-management/domain/duplicate-detector.service';
+import { BusinessActivityRepository } from '../lead-activity/data/business-activity.repository';
+import { BusinessTaskRepository } from '../lead-activity/data/business-task.repository';
+import { SegmentRepository } from '../lead-segments/data/segment.repository';
 
 // Workers
 import { WorkerManagerService } from './workers/worker-manager.service';
@@ -21,6 +27,8 @@ import { ScrapingWorker } from './workers/scraping.worker';
 import { EnrichmentWorker } from './workers/enrichment.worker';
 import { OutreachWorker } from './workers/outreach.worker';
 import { CsvImportWorker } from './workers/csv-import.worker';
+import { BulkBusinessWorker } from './workers/bulk-business.worker';
+import { TaskReminderWorker } from './workers/task-reminder.worker';
 
 // External Dependencies
 import { PrismaModule } from '../../prisma/prisma.module';
@@ -38,7 +46,7 @@ import { EmailModule } from '../email/email.module';
  * Provides BullMQ-based job queue infrastructure for asynchronous task processing.
  *
  * Features:
- * - Multiple queues (scraping, enrichment, outreach)
+ * - Multiple queues (scraping, enrichment, outreach, bulk operations, reminders)
  * - Job lifecycle management (create, monitor, cancel)
  * - Retry strategies with exponential backoff
  * - Dead letter queue for permanently failed jobs
@@ -79,6 +87,8 @@ import { EmailModule } from '../email/email.module';
       { name: QueueName.ENRICHMENT, ...QUEUE_CONFIGS[QueueName.ENRICHMENT] },
       { name: QueueName.OUTREACH, ...QUEUE_CONFIGS[QueueName.OUTREACH] },
       { name: QueueName.CSV_IMPORT, ...QUEUE_CONFIGS[QueueName.CSV_IMPORT] },
+      { name: QueueName.BULK_OPERATIONS, ...QUEUE_CONFIGS[QueueName.BULK_OPERATIONS] },
+      { name: QueueName.REMINDERS, ...QUEUE_CONFIGS[QueueName.REMINDERS] },
       { name: QueueName.DEAD_LETTER, ...QUEUE_CONFIGS[QueueName.DEAD_LETTER] },
     ),
 
@@ -87,7 +97,7 @@ import { EmailModule } from '../email/email.module';
     WebsocketModule,
 
     // Feature modules for workers
-    MapScrapingModule,       // For ApifyScraper
+    forwardRef(() => MapScrapingModule), // For ScraperService
     LeadEnrichmentModule,    // For EnrichmentService
     OutreachCampaignsModule, // For OutreachService
     EmailModule,             // For EmailService (SendGrid integration)
@@ -101,6 +111,12 @@ import { EmailModule } from '../email/email.module';
 
     // Data layer
     JobHistoryRepository,
+    BusinessRepository,
+    BusinessDuplicateRepository,
+    DuplicateDetectorService,
+    BusinessActivityRepository,
+    BusinessTaskRepository,
+    SegmentRepository,
 
     // Worker management
     WorkerManagerService,
@@ -110,6 +126,8 @@ import { EmailModule } from '../email/email.module';
     EnrichmentWorker,
     OutreachWorker,
     CsvImportWorker,
+    BulkBusinessWorker,
+    TaskReminderWorker,
   ],
   exports: [
     // Export services for use in other modules
@@ -124,6 +142,8 @@ import { EmailModule } from '../email/email.module';
     EnrichmentWorker,
     OutreachWorker,
     CsvImportWorker,
+    BulkBusinessWorker,
+    TaskReminderWorker,
   ],
 })
 export class JobQueueModule {}
@@ -1,4 +1,4 @@
-import { Worker, Job, UnrecoverableError } from 'bullmq';
+import { Worker, Job, UnrecoverableError, DelayedError } from 'bullmq';
 import { Logger } from '@nestjs/common';
 import { JobHistoryRepository } from '../data/repositories/job-history.repository';
 import { JobStatus, QueueName, WORKER_CONFIGS, BULLMQ_REDIS_CONNECTION } from '../config/queue.config';
@@ -54,7 +54,7 @@ export abstract class BaseWorker {
     // Create BullMQ worker
     this.worker = new Worker(
       queueName,
-      async (job: Job) => this.handleJob(job),
+      async (job: Job, token?: string) => this.handleJob(job, token),
       workerConfig,
     );
 
@@ -69,18 +69,20 @@ export abstract class BaseWorker {
    * Contains the actual job processing logic.
    *
    * @param job - BullMQ job to process
+   * @param token - Lock token of the job, needed to defer it
    * @returns Job result (stored in database and emitted via WebSocket)
    */
-  protected abstract processJob(job: Job): Promise<any>;
+  protected abstract processJob(job: Job, token?: string): Promise<any>;
 
   /**
    * Main job handler (called by BullMQ worker).
    * Wraps processJob with error handling and lifecycle management.
    *
    * @param job - BullMQ job to process
+   * @param token - Lock token of the job
    * @returns Job result
    */
-  private async handleJob(job: Job): Promise<any> {
+  private async handleJob(job: Job, token?: string): Promise<any> {
     try {
       this.logger.log(`Processing job ${job.id} (${job.name})`);
 
@@ -91,10 +93,19 @@ export abstract class BaseWorker {
       await this.jobHistoryRepository.updateStatus(job.id!, JobStatus.ACTIVE);
 
       // Process the job
-      const result = await this.processJob(job);
+      const result = await this.processJob(job, token);
 
       return result;
     } catch (error) {
+      // Deferred by processJob; runs again later without using an attempt
+      if (error instanceof DelayedError) {
+        await this.jobHistoryRepository.updateStatus(
+          job.id!,
+          JobStatus.DELAYED,
+        );
+        throw error;
+      }
+
       // Categorize error and determine retry strategy
       const errorCategory = categorizeError(error);
       const shouldRetryJob = shouldRetry(job, error);
@@ -222,6 +233,21 @@ export abstract class BaseWorker {
     });
   }
 
+  /**
+   * Put the job back in the queue until a given time (call from
+   * processJob implementation). The retry attempts are left untouched.
+   *
+   * @throws {DelayedError} Always, to hand the job back to BullMQ
+   */
+  protected async deferJob(
+    job: Job,
+    token: string | undefined,
+    until: Date,
+  ): Promise<never> {
+    await job.moveToDelayed(until.getTime(), token);
+    throw new DelayedError();
+  }
+
   /**
    * Update job progress manually (call from processJob implementation).
    *
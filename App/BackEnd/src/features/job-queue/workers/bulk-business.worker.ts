@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Job } from 'bullmq';
+import { BaseWorker } from './base-worker';
+import { JobHistoryRepository } from '../data/repositories/job-history.repository';
+import { EventsGateway as WebsocketGateway } from '../../../websocket/websocket.gateway';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+import { ConfigService } from '../../../config/config.service';
+import { JobType, QueueName } from '../config/queue.config';
+
+interface BulkBusinessJobData {
+  /** Unset for trash purges, which select expired businesses themselves */
+  businessIds?: number[];
+  add?: string[];
+  remove?: string[];
+  userId?: string;
+}
+
+interface BulkBusinessJobResult {
+  action: 'delete' | 'tag' | 'purge';
+  total: number;
+  processed: number;
+}
+
+/** Rows written per database round trip. */
+const CHUNK_SIZE = 500;
+
+/** Milliseconds per day, for the trash retention cutoff. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Worker for bulk delete (to trash), bulk tag and trash purge jobs.
+ *
+ * Processes the selection in chunks so progress is reported as it goes.
+ * Purges are scheduled nightly and permanently delete businesses that have
+ * been in the trash longer than the configured retention.
+ * Cache invalidation and the aggregated stats:updated broadcast are left to
+ * BusinessBulkService, which listens for 'business:bulk-completed'.
+ *
+ * @emits business:bulk-completed - Once per job, after all chunks succeed
+ */
+@Injectable()
+export class BulkBusinessWorker extends BaseWorker {
+  protected readonly logger = new Logger(BulkBusinessWorker.name);
+
+  constructor(
+    jobHistoryRepository: JobHistoryRepository,
+    websocketGateway: WebsocketGateway,
+    private readonly businessRepository: BusinessRepository,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {
+    super(QueueName.BULK_OPERATIONS, jobHistoryRepository, websocketGateway);
+  }
+
+  protected async processJob(
+    job: Job<BulkBusinessJobData>,
+  ): Promise<BulkBusinessJobResult> {
+    const { add = [], remove = [], userId } = job.data;
+    const action = this.resolveAction(job.name as JobType);
+    // Purges only delete rows trashed before the cutoff, so a business
+    // restored and trashed again while the job runs is kept
+    const purgeCutoff = action === 'purge' ? this.trashCutoff() : null;
+    const businessIds = purgeCutoff
+      ? await this.businessRepository.findTrashedIds(purgeCutoff)
+      : (job.data.businessIds ?? []);
+
+    if (action === 'purge' && businessIds.length === 0) {
+      this.logger.debug('Trash purge: nothing past retention');
+      return { action, total: 0, processed: 0 };
+    }
+
+    this.logger.log(
+      `Starting bulk ${action} job ${job.id} for ${businessIds.length} businesses`,
+    );
+
+    let processed = 0;
+    for (let i = 0; i < businessIds.length; i += CHUNK_SIZE) {
+      const chunk = businessIds.slice(i, i + CHUNK_SIZE);
+
+      if (action === 'delete') {
+        processed += await this.businessRepository.softDeleteMany(
+          chunk,
+          userId,
+        );
+      } else if (purgeCutoff) {
+        processed += await this.businessRepository.purgeMany(
+          chunk,
+          purgeCutoff,
+        );
+      } else {
+        await this.businessRepository.applyTags(chunk, add, remove);
+        processed += chunk.length;
+      }
+
+      const progress = Math.round(
+        ((i + chunk.length) / businessIds.length) * 100,
+      );
+      await this.updateProgress(
+        job,
+        progress,
+        `Processed ${i + chunk.length} of ${businessIds.length}`,
+      );
+    }
+
+    this.eventEmitter.emit('business:bulk-completed', {
+      action,
+      total: businessIds.length,
+      processed,
+      userId,
+    });
+
+    this.logger.log(
+      `Bulk ${action} job ${job.id} completed: ${processed}/${businessIds.length}`,
+    );
+
+    return { action, total: businessIds.length, processed };
+  }
+
+  private resolveAction(jobType: JobType): BulkBusinessJobResult['action'] {
+    if (jobType === JobType.BULK_DELETE) return 'delete';
+    if (jobType === JobType.BULK_PURGE_TRASH) return 'purge';
+    return 'tag';
+  }
+
+  /**
+   * Businesses trashed before this time are past the retention period.
+   */
+  private trashCutoff(): Date {
+    const retentionDays = this.configService.getTrashRetentionDays();
+    return new Date(Date.now() - retentionDays * DAY_MS);
+  }
+}
@@ -7,6 +7,8 @@ import { BaseWorker } from './base-worker';
 import { JobHistoryRepository } from '../data/repositories/job-history.repository';
 import { EventsGateway as WebsocketGateway } from '../../../websocket/websocket.gateway';
 import { PrismaService } from '../../../prisma/prisma.service';
+import { DuplicateDetectorService } from '../../business-management/domain/duplicate-detector.service';
+import { BusinessActivityRepository } from '../../lead-activity/data/business-activity.repository';
 import { JobType, QueueName } from '../config/queue.config';
 import {
   CsvColumnMappingDto,
@@ -46,6 +48,8 @@ export class CsvImportWorker extends BaseWorker {
     jobHistoryRepository: JobHistoryRepository,
     websocketGateway: WebsocketGateway,
     private readonly prisma: PrismaService,
+    private readonly duplicateDetector: DuplicateDetectorService,
+    private readonly activityRepository: BusinessActivityRepository,
   ) {
     super(QueueName.CSV_IMPORT, jobHistoryRepository, websocketGateway);
   }
@@ -139,6 +143,9 @@ export class CsvImportWorker extends BaseWorker {
             continue;
           }
 
+          const notes = this.mapRowNotes(row as string[], headerRow, fieldMapping);
+          let businessId: number | null = null;
+
           // Check for duplicates
           const duplicate = await this.findDuplicate(businessData);
 
@@ -152,18 +159,29 @@ export class CsvImportWorker extends BaseWorker {
                   where: { id: duplicate.id },
                   data: businessData,
                 });
+                businessId = duplicate.id;
                 result.updatedCount++;
                 break;
               case 'create_new':
-                await this.prisma.business.create({ data: businessData });
+                businessId = (await this.createBusiness(businessData)).id;
                 result.importedCount++;
                 break;
             }
           } else {
-            await this.prisma.business.create({ data: businessData });
+            businessId = (await this.createBusiness(businessData)).id;
             result.importedCount++;
           }
 
+          // Imported notes become the first entries on the business timeline
+          if (businessId !== null && notes) {
+            await this.activityRepository.create({
+              business_id: businessId,
+              type: 'note',
+              body: notes,
+              created_by: userId,
+            });
+          }
+
           // Update progress every 10 rows
           if (currentRow % 10 === 0) {
             const progress = Math.round((currentRow / totalRows) * 100);
@@ -376,11 +394,42 @@ export class CsvImportWorker extends BaseWorker {
   }
 
   /**
-   * Find duplicate business by name and address/phone.
+   * Read the column mapped to 'notes', which is stored as a timeline note
+   * rather than a business field.
+   */
+  private mapRowNotes(
+    row: string[],
+    headerRow: string[],
+    fieldMapping: Map<string, string>,
+  ): string | undefined {
+    for (let i = 0; i < headerRow.length && i < row.length; i++) {
+      const value = row[i]?.trim();
+      if (fieldMapping.get(headerRow[i]) === 'notes' && value) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find duplicate business for an imported row.
+   *
+   * Uses duplicate scoring (normalized name, phone digits, website domain),
+   * falling back to a case-insensitive name + city match for rows that
+   * carry nothing but a name.
    */
   private async findDuplicate(
     data: Prisma.businessCreateInput,
   ): Promise<{ id: number } | null> {
+    const match = await this.duplicateDetector.findAutoMatch({
+      name: data.name,
+      phone: data.phone,
+      website: data.website,
+    });
+    if (match) {
+      return match;
+    }
+
     // Try to find by name + city combination
     const existing = await this.prisma.business.findFirst({
       where: {
@@ -401,6 +450,15 @@ export class CsvImportWorker extends BaseWorker {
     return existing;
   }
 
+  /**
+   * Create an imported business and queue any likely duplicates for review.
+   */
+  private async createBusiness(data: Prisma.businessCreateInput) {
+    const business = await this.prisma.business.create({ data });
+    await this.duplicateDetector.recordCandidates(business);
+    return business;
+  }
+
   /**
    * Emit progress event via WebSocket.
    */
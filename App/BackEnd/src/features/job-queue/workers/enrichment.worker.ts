@@ -4,6 +4,10 @@ import { BaseWorker } from './base-worker';
 import { JobHistoryRepository } from '../data/repositories/job-history.repository';
 import { EventsGateway as WebsocketGateway } from '../../../websocket/websocket.gateway';
 import { EnrichmentService } from '../../lead-enrichment/domain/enrichment.service';
+import {
+  EnrichmentRefreshReport,
+  EnrichmentRefreshService,
+} from '../../lead-enrichment/domain/enrichment-refresh.service';
 import { JobType } from '../config/queue.config';
 
 interface EnrichmentJobData {
@@ -11,17 +15,22 @@ interface EnrichmentJobData {
   userId: string;
   type: 'single' | 'batch';
   jobType: JobType;
-  enrichmentSources?: Array<'hunter' | 'abstract' | 'all'>;
+  /** Enrichment providers to use, or 'all' (set by createEnrichmentJob) */
+  services?: string[];
 }
 
 interface EnrichmentJobResult {
   businessId: number;
-  hunterSuccess: boolean;
-  abstractSuccess: boolean;
+  /** Providers that returned data */
+  providers: string[];
   contactsFound: number;
   errors: Array<{ service: string; error: string }>;
 }
 
+/**
+ * Worker for business enrichment jobs and the nightly refresh of stale
+ * and failed businesses.
+ */
 @Injectable()
 export class EnrichmentWorker extends BaseWorker {
   protected readonly logger = new Logger(EnrichmentWorker.name);
@@ -30,44 +39,62 @@ export class EnrichmentWorker extends BaseWorker {
     jobHistoryRepository: JobHistoryRepository,
     websocketGateway: WebsocketGateway,
     private readonly enrichmentService: EnrichmentService,
+    private readonly refreshService: EnrichmentRefreshService,
   ) {
     super('enrichment-jobs', jobHistoryRepository, websocketGateway);
   }
 
-  protected async processJob(job: Job<EnrichmentJobData>): Promise<EnrichmentJobResult> {
-    const { businessId, type } = job.data;
+  protected async processJob(
+    job: Job<EnrichmentJobData>,
+    token?: string,
+  ): Promise<EnrichmentJobResult | EnrichmentRefreshReport> {
+    if (job.name === JobType.ENRICH_REFRESH) {
+      return this.refreshStale(job);
+    }
+
+    const { businessId, type, services } = job.data;
 
     this.logger.log(`Starting enrichment job ${job.id} for business ${businessId} (${type})`);
 
+    // Wait for the next billing period rather than spend the quota reserve
+    const deferUntil = await this.enrichmentService.getQuotaDeferral(services);
+    if (deferUntil) {
+      this.logger.warn(
+        `Enrichment quota nearly used up; deferring job ${job.id} until ${deferUntil.toISOString()}`,
+      );
+      await this.deferJob(job, token, deferUntil);
+    }
+
     try {
       // Update progress: Starting
       await this.updateProgress(job, 10, 'Fetching business data');
 
       // Update progress: Running enrichment
-      await this.updateProgress(job, 30, 'Running enrichment via Hunter.io and AbstractAPI');
+      await this.updateProgress(job, 30, 'Running enrichment providers');
 
-      // Delegate to the real EnrichmentService which handles
-      // AbstractAPI + Hunter.io calls, saves contacts, logs results, and updates DB
-      const result = await this.enrichmentService.enrichBusiness(businessId);
+      // Delegate to the real EnrichmentService which runs the provider
+      // waterfall, saves contacts, logs results, and updates DB
+      const result = await this.enrichmentService.enrichBusiness(businessId, {
+        sources: services,
+        background: true,
+      });
 
-      const hunterSuccess = !!result.hunter;
-      const abstractSuccess = !!result.abstract;
-      const contactsFound = result.hunter?.emails?.length || 0;
+      const providers = Object.keys(result.providers);
+      const contactsFound = result.contactsFound;
 
       // Update progress: Complete
       await this.updateProgress(job, 100, 'Enrichment complete');
 
       const jobResult: EnrichmentJobResult = {
         businessId,
-        hunterSuccess,
-        abstractSuccess,
+        providers,
         contactsFound,
         errors: result.errors,
       };
 
       this.logger.log(
         `Enrichment job ${job.id} completed for business ${businessId}: ` +
-        `${contactsFound} contacts found, Hunter: ${hunterSuccess}, Abstract: ${abstractSuccess}`
+          `${contactsFound} contacts found via ${providers.join(', ') || 'none'}`,
       );
 
       return jobResult;
@@ -77,6 +104,27 @@ export class EnrichmentWorker extends BaseWorker {
     }
   }
 
+  /**
+   * Refresh stale and failed businesses. Provider quotas are checked per
+   * business by EnrichmentRefreshService, so the job itself isn't deferred.
+   */
+  private async refreshStale(job: Job): Promise<EnrichmentRefreshReport> {
+    this.logger.log(`Starting enrichment refresh job ${job.id}`);
+
+    const report = await this.refreshService.refreshStale((done, total) =>
+      this.updateProgress(
+        job,
+        Math.round((done / total) * 100),
+        `Refreshed ${done} of ${total}`,
+      ),
+    );
+
+    this.logger.log(
+      `Enrichment refresh job ${job.id} completed: ${report.refreshed} of ${report.due} refreshed`,
+    );
+    return report;
+  }
+
   /**
    * Override to handle cleanup on worker shutdown
    */
@@ -66,9 +66,9 @@ export class OutreachWorker extends BaseWorker {
       // Update progress: Starting
       await this.updateProgress(job, 10, 'Fetching business and contact data');
 
-      // Fetch business data from database
+      // Fetch business data from database (trashed businesses are skipped)
       const businessData = await this.prisma.business.findUnique({
-        where: { id: businessId },
+        where: { id: businessId, deleted_at: null },
         include: { contacts: { where: { is_primary: true }, take: 1 } },
       });
 
@@ -3,31 +3,72 @@ import { Job } from 'bullmq';
 import { BaseWorker } from './base-worker';
 import { JobHistoryRepository } from '../data/repositories/job-history.repository';
 import { EventsGateway as WebsocketGateway } from '../../../websocket/websocket.gateway';
-import { ApifyScraper as ApifyService } from '../../map-scraping/domain/apify-scraper';
-import { PrismaService } from '../../../prisma/prisma.service';
+import { ScraperService } from '../../map-scraping/domain/scraper.service';
+import { ScrapeScheduleService } from '../../map-scraping/domain/scrape-schedule.service';
+import { TerritoryScrapeService } from '../../map-scraping/domain/territory-scrape.service';
+import type { ScrapeQualityFilters } from '../../map-scraping/domain/scrape-quality.helper';
 import { JobType } from '../config/queue.config';
+import { shouldRetry } from '../config/retry.config';
 
 interface ScrapingJobData {
   searchQuery: string;
   location?: string;
   maxResults?: number;
-  userId: string;
+  radius?: number;
+  includeClosed?: boolean;
+  filters?: ScrapeQualityFilters;
+  /** Provider run being processed; set once the run has started */
+  runId?: string;
+  userId?: string;
   jobType: JobType;
 }
 
+/** Tick of a scrape schedule (JobType.SCRAPE_SCHEDULED) */
+interface ScheduledScrapeJobData {
+  scheduleId: number;
+}
+
+/** One cell and category of a territory scrape (JobType.SCRAPE_TERRITORY_CELL) */
+interface TerritoryCellJobData {
+  cellId: number;
+  maxResults: number;
+  includeClosed: boolean;
+  filters?: ScrapeQualityFilters;
+  /** Provider run searching the cell; set once the run has started */
+  runId?: string;
+  userId?: string;
+}
+
 interface ScrapingJobResult {
+  runId: string;
   found: number;
   saved: number;
+  skipped: number;
   failed: number;
-  businesses: Array<{
-    name: string;
-    address: string;
-    phone?: string;
-    website?: string;
-    rating?: number;
-  }>;
 }
 
+interface ScheduledScrapeJobResult {
+  scheduleId: number;
+  /** Run started for the tick; null if the schedule is gone or disabled */
+  runId: string | null;
+}
+
+/**
+ * Processes Google Maps scrapes.
+ *
+ * A job either carries the ID of a provider run started by POST /api/scrape
+ * or starts the run itself and stores its ID in the job data. Either way
+ * the run is recorded in a scraping_job row, so when a restart interrupts
+ * the job BullMQ hands it out again as stalled and polling resumes on the
+ * same provider run.
+ *
+ * Ticks of a scrape schedule only start the scrape, through the same
+ * POST /api/scrape path, so each run is processed by its own job.
+ *
+ * Each cell and category of a territory scrape is a job of its own that
+ * starts and records one run, so the worker concurrency caps how many
+ * provider runs a territory has in flight.
+ */
 @Injectable()
 export class ScrapingWorker extends BaseWorker {
   protected readonly logger = new Logger(ScrapingWorker.name);
@@ -35,136 +76,157 @@ export class ScrapingWorker extends BaseWorker {
   constructor(
     jobHistoryRepository: JobHistoryRepository,
     websocketGateway: WebsocketGateway,
-    private readonly apifyService: ApifyService,
-    private readonly prisma: PrismaService,
+    private readonly scraperService: ScraperService,
+    private readonly scheduleService: ScrapeScheduleService,
+    private readonly territoryService: TerritoryScrapeService,
   ) {
     super('scraping-jobs', jobHistoryRepository, websocketGateway);
   }
 
-  protected async processJob(job: Job<ScrapingJobData>): Promise<ScrapingJobResult> {
-    const { searchQuery, location, maxResults = 50, userId } = job.data;
+  protected async processJob(
+    job: Job<ScrapingJobData | ScheduledScrapeJobData | TerritoryCellJobData>,
+  ): Promise<ScrapingJobResult | ScheduledScrapeJobResult> {
+    switch (job.name as JobType) {
+      case JobType.SCRAPE_SCHEDULED:
+        return this.startScheduledScrape(job as Job<ScheduledScrapeJobData>);
+      case JobType.SCRAPE_TERRITORY_CELL:
+        return this.processTerritoryCell(job as Job<TerritoryCellJobData>);
+      default:
+        return this.processScrape(job as Job<ScrapingJobData>);
+    }
+  }
+
+  private async startScheduledScrape(
+    job: Job<ScheduledScrapeJobData>,
+  ): Promise<ScheduledScrapeJobResult> {
+    const { scheduleId } = job.data;
+    this.logger.log(`Starting scheduled scrape ${scheduleId} (job ${job.id})`);
+
+    const runId = await this.scheduleService.startScheduledScrape(scheduleId);
+    return { scheduleId, runId };
+  }
+
+  private processScrape(job: Job<ScrapingJobData>): Promise<ScrapingJobResult> {
+    const {
+      searchQuery,
+      location,
+      maxResults = 50,
+      includeClosed = false,
+      filters,
+    } = job.data;
 
     this.logger.log(`Starting scraping job ${job.id}: ${searchQuery} in ${location || 'all locations'}`);
 
+    return this.runScrape(job, { maxResults, includeClosed, filters }, () =>
+      this.scraperService.startRun({
+        searchQuery: location ? `${searchQuery} in ${location}` : searchQuery,
+        location: location ?? '',
+        radius: job.data.radius ?? 5,
+        businessType: searchQuery,
+        maxResults,
+      }),
+    );
+  }
+
+  private processTerritoryCell(
+    job: Job<TerritoryCellJobData>,
+  ): Promise<ScrapingJobResult> {
+    const { cellId, maxResults, includeClosed, filters } = job.data;
+
+    this.logger.log(`Starting territory cell job ${job.id} for cell ${cellId}`);
+
+    return this.runScrape(
+      job,
+      { maxResults, includeClosed, filters },
+      () => this.territoryService.startCellRun(cellId),
+      (error) => this.territoryService.failCell(cellId, error),
+    );
+  }
+
+  /**
+   * Start a provider run unless the job already has one, then wait for the
+   * run and record its results.
+   *
+   * @param startRun - Starts the provider run and returns its ID
+   * @param failStart - Called when the job gives up before a run started
+   */
+  private async runScrape(
+    job: Job<{ runId?: string }>,
+    options: {
+      maxResults: number;
+      includeClosed: boolean;
+      filters?: ScrapeQualityFilters;
+    },
+    startRun: () => Promise<string>,
+    failStart?: (error: Error) => Promise<void>,
+  ): Promise<ScrapingJobResult> {
+    const { maxResults, includeClosed, filters } = options;
+    let runId = job.data.runId;
+
     try {
-      // Update progress: Starting
-      await this.updateProgress(job, 10, 'Initializing Apify actor');
+      if (!runId) {
+        // Update progress: Starting
+        await this.updateProgress(job, 10, 'Starting scraping run');
 
-      // Start Apify scraping
-      this.logger.debug(`Starting Apify actor for query: ${searchQuery}`);
-      const fullQuery = location ? `${searchQuery} in ${location}` : searchQuery;
-      const runId = await this.apifyService.startScraping(fullQuery, maxResults);
+        runId = await startRun();
 
-      // Update progress: Waiting for results
-      await this.updateProgress(job, 30, 'Waiting for Apify actor to complete');
-
-      // Wait for completion with timeout (5 minutes default, 5 second polling)
-      const timeout = maxResults > 100 ? 600000 : 300000; // 10 min for large jobs, 5 min for small
-      const results = await this.apifyService.waitForCompletion(runId, timeout, 5000);
-
-      this.logger.log(`Apify actor completed with ${results.length} results`);
-
-      // Update progress: Processing results
-      await this.updateProgress(job, 70, `Processing ${results.length} scraped businesses`);
-
-      // Transform and prepare results
-      let saved = 0;
-      let failed = 0;
-      const businesses: ScrapingJobResult['businesses'] = [];
-
-      for (const place of results) {
-        try {
-          // Transform Apify result to our business format
-          const businessData = this.apifyService.transformResult(place);
-
-          // Check for duplicates (match on name + address)
-          const existing = await this.prisma.business.findFirst({
-            where: {
-              name: businessData.name,
-              address: businessData.address || '',
-            },
-          });
-
-          if (existing) {
-            // Update existing record
-            await this.prisma.business.update({
-              where: { id: existing.id },
-              data: {
-                phone: businessData.phone,
-                website: businessData.website,
-                business_type: businessData.business_type,
-                google_maps_url: businessData.google_maps_url,
-                latitude: businessData.latitude,
-                longitude: businessData.longitude,
-                city: businessData.city,
-                state: businessData.state,
-              },
-            });
-          } else {
-            // Create new record
-            await this.prisma.business.create({
-              data: {
-                name: businessData.name,
-                address: businessData.address,
-                city: businessData.city,
-                state: businessData.state,
-                phone: businessData.phone,
-                website: businessData.website,
-                business_type: businessData.business_type,
-                google_maps_url: businessData.google_maps_url,
-                latitude: businessData.latitude,
-                longitude: businessData.longitude,
-                source: 'google_maps',
-                enrichment_status: 'pending',
-              },
-            });
-          }
-
-          // Add to results array
-          businesses.push({
-            name: businessData.name,
-            address: businessData.address,
-            phone: businessData.phone,
-            website: businessData.website,
-            rating: businessData.rating,
-          });
-
-          saved++;
-
-          // Update progress periodically
-          if (saved % 10 === 0) {
-            const progressPercent = 70 + Math.floor((saved / results.length) * 25);
-            await this.updateProgress(
-              job,
-              progressPercent,
-              `Processed ${saved}/${results.length} businesses`
-            );
-          }
-        } catch (error) {
-          this.logger.error(`Failed to process business: ${error.message}`, error.stack);
-          failed++;
-        }
+        // Persist the run ID so a retried or resumed job polls the same run
+        await job.updateData({ ...job.data, runId });
       }
 
+      // Update progress: Waiting for results
+      await this.updateProgress(
+        job,
+        30,
+        `Waiting for scraping run ${runId} to complete`,
+      );
+
+      // 10 min for large jobs, 5 min for small
+      const result = await this.scraperService.processRun(runId, {
+        maxResults,
+        includeClosed,
+        filters,
+        maxWaitTime: maxResults > 100 ? 600000 : 300000,
+      });
+
       // Update progress: Complete
       await this.updateProgress(job, 100, 'Scraping complete');
 
-      const result: ScrapingJobResult = {
-        found: results.length,
-        saved,
-        failed,
-        businesses: businesses.slice(0, 10), // Return first 10 for preview
-      };
-
-      this.logger.log(`Scraping job ${job.id} completed: ${saved} saved, ${failed} failed`);
+      this.logger.log(
+        `Scraping job ${job.id} completed: ${result.saved} saved, ${result.skipped} skipped`,
+      );
 
-      return result;
+      return {
+        runId,
+        found: result.found,
+        saved: result.saved,
+        skipped: result.skipped,
+        failed: result.errors?.length ?? 0,
+      };
     } catch (error) {
       this.logger.error(`Scraping job ${job.id} failed: ${error.message}`, error.stack);
+
+      // A retried job resumes the run, so only the last attempt gives up on it
+      if (!this.willRetry(job, error)) {
+        if (runId) {
+          await this.scraperService.failRun(runId, error);
+        } else {
+          await failStart?.(error);
+        }
+      }
       throw error;
     }
   }
 
+  /**
+   * Whether BullMQ will run the job again after this error
+   */
+  private willRetry(job: Job, error: Error): boolean {
+    return (
+      shouldRetry(job, error) && job.attemptsMade + 1 < (job.opts.attempts || 3)
+    );
+  }
+
   /**
    * Override to handle cleanup on worker shutdown
    */
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { BaseWorker } from './base-worker';
+import { JobHistoryRepository } from '../data/repositories/job-history.repository';
+import { EventsGateway as WebsocketGateway } from '../../../websocket/websocket.gateway';
+import { BusinessTaskRepository } from '../../lead-activity/data/business-task.repository';
+import { QueueName } from '../config/queue.config';
+
+interface TaskReminderJobData {
+  taskId: number;
+  /** Due date the reminder was scheduled for (ISO string) */
+  dueAt: string;
+}
+
+interface TaskReminderJobResult {
+  taskId: number;
+  reminded: boolean;
+}
+
+/**
+ * Worker for follow-up task reminders.
+ *
+ * Each job is delayed until the task's due date. A reminder is skipped when
+ * the task was completed, deleted or rescheduled in the meantime, or when it
+ * was already sent, so every due date fires at most once.
+ *
+ * @emits task:reminder - To the assignee's `user:{id}` room
+ */
+@Injectable()
+export class TaskReminderWorker extends BaseWorker {
+  protected readonly logger = new Logger(TaskReminderWorker.name);
+
+  constructor(
+    jobHistoryRepository: JobHistoryRepository,
+    private readonly eventsGateway: WebsocketGateway,
+    private readonly taskRepository: BusinessTaskRepository,
+  ) {
+    super(QueueName.REMINDERS, jobHistoryRepository, eventsGateway);
+  }
+
+  protected async processJob(
+    job: Job<TaskReminderJobData>,
+  ): Promise<TaskReminderJobResult> {
+    const { taskId, dueAt } = job.data;
+
+    const claimed = await this.taskRepository.claimReminder(
+      taskId,
+      new Date(dueAt),
+    );
+    if (!claimed) {
+      this.logger.debug(`Skipping reminder for task ${taskId}: no longer due`);
+      return { taskId, reminded: false };
+    }
+
+    const task = await this.taskRepository.findOne(taskId);
+    if (!task) {
+      return { taskId, reminded: false };
+    }
+
+    this.eventsGateway.emitToUser(task.assigned_to, 'task:reminder', {
+      taskId: task.id,
+      title: task.title,
+      dueAt: task.due_at.toISOString(),
+      business: task.business,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.logger.log(`Sent reminder for task ${taskId} to ${task.assigned_to}`);
+
+    return { taskId, reminded: true };
+  }
+}
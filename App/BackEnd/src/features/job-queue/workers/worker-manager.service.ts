@@ -3,6 +3,8 @@ import { BaseWorker } from './base-worker';
 import { ScrapingWorker } from './scraping.worker';
 import { EnrichmentWorker } from './enrichment.worker';
 import { OutreachWorker } from './outreach.worker';
+import { BulkBusinessWorker } from './bulk-business.worker';
+import { TaskReminderWorker } from './task-reminder.worker';
 
 /**
  * Worker Manager Service
@@ -32,6 +34,8 @@ export class WorkerManagerService implements OnModuleInit, OnModuleDestroy {
     private readonly scrapingWorker: ScrapingWorker,
     private readonly enrichmentWorker: EnrichmentWorker,
     private readonly outreachWorker: OutreachWorker,
+    private readonly bulkBusinessWorker: BulkBusinessWorker,
+    private readonly taskReminderWorker: TaskReminderWorker,
   ) {}
 
   /**
@@ -42,6 +46,8 @@ export class WorkerManagerService implements OnModuleInit, OnModuleDestroy {
     this.registerWorker('scraping-jobs', this.scrapingWorker);
     this.registerWorker('enrichment-jobs', this.enrichmentWorker);
     this.registerWorker('outreach-jobs', this.outreachWorker);
+    this.registerWorker('bulk-operations', this.bulkBusinessWorker);
+    this.registerWorker('reminder-jobs', this.taskReminderWorker);
 
     this.logger.log(`Worker Manager initialized with ${this.workers.size} workers`);
     this.logger.log('Registered workers: ' + Array.from(this.workers.keys()).join(', '));
@@ -0,0 +1,149 @@
+/**
+ * ActivityRecorderService Unit Tests
+ *
+ * Test Categories:
+ * - Enrichment, outreach/email and stage change events → timeline entries
+ * - Failures never propagate to the emitter
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ActivityRecorderService } from '../domain/activity-recorder.service';
+import { BusinessActivityService } from '../domain/business-activity.service';
+
+describe('ActivityRecorderService', () => {
+  let recorder: ActivityRecorderService;
+  let activityService: jest.Mocked<BusinessActivityService>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ActivityRecorderService,
+        {
+          provide: BusinessActivityService,
+          useValue: { record: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    recorder = module.get(ActivityRecorderService);
+    activityService = module.get(BusinessActivityService);
+  });
+
+  describe('handleBusinessEnriched', () => {
+    it('should record the sources of a successful run', async () => {
+      await recorder.handleBusinessEnriched({
+        data: {
+          id: 1,
+          enrichment_status: 'enriched',
+          providers: ['abstract', 'hunter'],
+          errors: 0,
+        },
+      });
+
+      expect(activityService.record).toHaveBeenCalledWith(
+        1,
+        'enrichment',
+        'Enriched via abstract, hunter',
+        {
+          status: 'enriched',
+          providers: ['abstract', 'hunter'],
+          errors: 0,
+        },
+      );
+    });
+
+    it('should record a failed run with its error count', async () => {
+      await recorder.handleBusinessEnriched({
+        data: {
+          id: 1,
+          enrichment_status: 'failed',
+          providers: [],
+          errors: 2,
+        },
+      });
+
+      expect(activityService.record).toHaveBeenCalledWith(
+        1,
+        'enrichment',
+        'Enrichment failed (2 errors)',
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('handleOutreachStatusChanged', () => {
+    it('should record a send as outreach', async () => {
+      await recorder.handleOutreachStatusChanged({
+        messageId: 9,
+        businessId: 1,
+        status: 'sent',
+      });
+
+      expect(activityService.record).toHaveBeenCalledWith(
+        1,
+        'outreach',
+        'Outreach email sent',
+        { messageId: 9, status: 'sent' },
+      );
+    });
+
+    it('should record a delivery event as email', async () => {
+      await recorder.handleOutreachStatusChanged({
+        messageId: 9,
+        businessId: 1,
+        status: 'opened',
+      });
+
+      expect(activityService.record).toHaveBeenCalledWith(
+        1,
+        'email',
+        'Email opened',
+        { messageId: 9, status: 'opened' },
+      );
+    });
+
+    it('should ignore statuses without timeline text', async () => {
+      await recorder.handleOutreachStatusChanged({
+        messageId: 9,
+        businessId: 1,
+        status: 'pending',
+      });
+
+      expect(activityService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleStageChanged', () => {
+    it('should record the move with the user and note', async () => {
+      await recorder.handleStageChanged({
+        businessId: 1,
+        from: 'prospect',
+        to: 'visited_meeting',
+        note: 'Met at chapter lunch',
+        userId: 'member-uuid',
+      });
+
+      expect(activityService.record).toHaveBeenCalledWith(
+        1,
+        'stage_change',
+        'Moved from Prospect to Visited meeting: Met at chapter lunch',
+        { from: 'prospect', to: 'visited_meeting' },
+        'member-uuid',
+      );
+    });
+  });
+
+  it('should swallow recording failures', async () => {
+    activityService.record.mockRejectedValue(new Error('DB down'));
+
+    await expect(
+      recorder.handleStageChanged({
+        businessId: 1,
+        from: 'prospect',
+        to: 'contacted',
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * BusinessActivityService Unit Tests
+ *
+ * Test Categories:
+ * - getTimeline(): type filter, pagination and not-found handling
+ * - addNote() / updateNote() / deleteNote(): author and admin rules
+ * - record(): persistence and 'business:activity' broadcast
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, Logger, NotFoundException } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { BusinessActivityService } from '../domain/business-activity.service';
+import { BusinessActivityRepository } from '../data/business-activity.repository';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+
+describe('BusinessActivityService', () => {
+  let service: BusinessActivityService;
+  let repository: jest.Mocked<BusinessActivityRepository>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+
+  const admin = { id: 'admin-uuid', role: Role.ADMIN };
+  const member = { id: 'member-uuid', role: Role.MEMBER };
+
+  const note = (overrides: Record<string, unknown> = {}) => ({
+    id: 7,
+    business_id: 1,
+    type: 'note',
+    body: 'Call after 3pm',
+    created_by: 'member-uuid',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessActivityService,
+        {
+          provide: BusinessActivityRepository,
+          useValue: {
+            create: jest.fn(),
+            findByBusiness: jest.fn().mockResolvedValue([[], 0]),
+            findOne: jest.fn(),
+            updateBody: jest.fn(),
+            delete: jest.fn(),
+            businessExists: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: EventsGateway,
+          useValue: { emitEvent: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BusinessActivityService);
+    repository = module.get(BusinessActivityRepository);
+    eventsGateway = module.get(EventsGateway);
+  });
+
+  describe('getTimeline', () => {
+    it('should filter by type and paginate', async () => {
+      repository.findByBusiness.mockResolvedValue([[note()], 3] as any);
+
+      const result = await service.getTimeline(1, {
+        type: 'note',
+        page: 2,
+        limit: 2,
+      });
+
+      expect(repository.findByBusiness).toHaveBeenCalledWith(
+        { business_id: 1, type: 'note' },
+        2,
+        2,
+      );
+      expect(result.meta).toEqual({
+        total: 3,
+        page: 2,
+        limit: 2,
+        totalPages: 2,
+      });
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      repository.businessExists.mockResolvedValue(false);
+
+      await expect(service.getTimeline(999, {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('addNote', () => {
+    it('should record a note by the acting user and broadcast it', async () => {
+      const created = note();
+      repository.create.mockResolvedValue(created as any);
+
+      const result = await service.addNote(
+        1,
+        { body: 'Call after 3pm' },
+        member,
+      );
+
+      expect(repository.create).toHaveBeenCalledWith({
+        business_id: 1,
+        type: 'note',
+        body: 'Call after 3pm',
+        metadata: undefined,
+        created_by: 'member-uuid',
+      });
+      expect(eventsGateway.emitEvent).toHaveBeenCalledWith(
+        'business:activity',
+        created,
+      );
+      expect(result).toBe(created);
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      repository.businessExists.mockResolvedValue(false);
+
+      await expect(
+        service.addNote(999, { body: 'Hello' }, member),
+      ).rejects.toThrow(NotFoundException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateNote', () => {
+    it('should let the author edit their note', async () => {
+      repository.findOne.mockResolvedValue(note() as any);
+      repository.updateBody.mockResolvedValue(note({ body: 'Edited' }) as any);
+
+      await service.updateNote(1, 7, { body: 'Edited' }, member);
+
+      expect(repository.updateBody).toHaveBeenCalledWith(7, 'Edited');
+      expect(eventsGateway.emitEvent).toHaveBeenCalled();
+    });
+
+    it('should let an admin edit any note', async () => {
+      repository.findOne.mockResolvedValue(note() as any);
+
+      await service.updateNote(1, 7, { body: 'Edited' }, admin);
+
+      expect(repository.updateBody).toHaveBeenCalled();
+    });
+
+    it("should forbid a member from editing someone else's note", async () => {
+      repository.findOne.mockResolvedValue(
+        note({ created_by: 'someone-else' }) as any,
+      );
+
+      await expect(
+        service.updateNote(1, 7, { body: 'Edited' }, member),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.updateBody).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['missing', null],
+      ['on another business', note({ business_id: 2 })],
+      ['a system entry', note({ type: 'enrichment' })],
+    ])('should throw NotFoundException for a note %s', async (_label, row) => {
+      repository.findOne.mockResolvedValue(row as any);
+
+      await expect(
+        service.updateNote(1, 7, { body: 'Edited' }, admin),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteNote', () => {
+    it("should delete the author's note", async () => {
+      repository.findOne.mockResolvedValue(note() as any);
+
+      const result = await service.deleteNote(1, 7, member);
+
+      expect(repository.delete).toHaveBeenCalledWith(7);
+      expect(result).toEqual({ message: 'Note deleted successfully' });
+    });
+
+    it("should forbid a member from deleting someone else's note", async () => {
+      repository.findOne.mockResolvedValue(
+        note({ created_by: 'someone-else' }) as any,
+      );
+
+      await expect(service.deleteNote(1, 7, member)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record', () => {
+    it('should store a system entry without an author', async () => {
+      repository.create.mockResolvedValue(note({ type: 'enrichment' }) as any);
+
+      await service.record(1, 'enrichment', 'Enriched via Hunter', {
+        hunter: true,
+      });
+
+      expect(repository.create).toHaveBeenCalledWith({
+        business_id: 1,
+        type: 'enrichment',
+        body: 'Enriched via Hunter',
+        metadata: { hunter: true },
+        created_by: null,
+      });
+    });
+
+    it('should rethrow repository errors', async () => {
+      repository.create.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.record(1, 'note', 'Hello')).rejects.toThrow(
+        'DB down',
+      );
+      expect(eventsGateway.emitEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * BusinessTaskService Unit Tests
+ *
+ * Test Categories:
+ * - listMine() / listForBusiness(): filters and ordering
+ * - create(): default assignee, assignee validation, reminder scheduling
+ * - update(): ownership, rescheduling, reassignment, completion
+ * - remove(): ownership
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { BusinessTaskService } from '../domain/business-task.service';
+import { BusinessActivityService } from '../domain/business-activity.service';
+import { BusinessTaskRepository } from '../data/business-task.repository';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+
+describe('BusinessTaskService', () => {
+  let service: BusinessTaskService;
+  let repository: jest.Mocked<BusinessTaskRepository>;
+  let activityService: jest.Mocked<BusinessActivityService>;
+  let jobQueueService: jest.Mocked<JobQueueService>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+
+  const admin = { id: 'admin-uuid', role: Role.ADMIN };
+  const member = { id: 'member-uuid', role: Role.MEMBER };
+  const dueAt = new Date('2026-11-02T15:00:00.000Z');
+
+  const task = (overrides: Record<string, unknown> = {}) => ({
+    id: 5,
+    business_id: 1,
+    title: 'Call back',
+    due_at: dueAt,
+    assigned_to: 'member-uuid',
+    created_by: 'member-uuid',
+    completed_at: null,
+    ...overrides,
+  });
+
+  const activeUser = (id: string) => ({
+    id,
+    name: 'User',
+    email: 'u@test.com',
+    role: Role.MEMBER,
+    is_active: true,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessTaskService,
+        {
+          provide: BusinessTaskRepository,
+          useValue: {
+            create: jest.fn(),
+            findOne: jest.fn(),
+            findMany: jest.fn().mockResolvedValue([[], 0]),
+            update: jest.fn(),
+            delete: jest.fn(),
+            businessExists: jest.fn().mockResolvedValue(true),
+            findAssignee: jest
+              .fn()
+              .mockImplementation((id: string) =>
+                Promise.resolve(activeUser(id)),
+              ),
+          },
+        },
+        {
+          provide: BusinessActivityService,
+          useValue: { record: jest.fn() },
+        },
+        {
+          provide: JobQueueService,
+          useValue: { scheduleTaskReminder: jest.fn() },
+        },
+        {
+          provide: EventsGateway,
+          useValue: { emitToUser: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BusinessTaskService);
+    repository = module.get(BusinessTaskRepository);
+    activityService = module.get(BusinessActivityService);
+    jobQueueService = module.get(JobQueueService);
+    eventsGateway = module.get(EventsGateway);
+  });
+
+  describe('listMine', () => {
+    it('should list open tasks soonest due first', async () => {
+      await service.listMine('member-uuid', {});
+
+      expect(repository.findMany).toHaveBeenCalledWith(
+        { assigned_to: 'member-uuid', completed_at: null },
+        [{ due_at: 'asc' }, { id: 'asc' }],
+        0,
+        50,
+      );
+    });
+
+    it('should list completed tasks most recent first', async () => {
+      await service.listMine('member-uuid', { status: 'completed', limit: 10 });
+
+      expect(repository.findMany).toHaveBeenCalledWith(
+        { assigned_to: 'member-uuid', completed_at: { not: null } },
+        [{ completed_at: 'desc' }, { id: 'desc' }],
+        0,
+        10,
+      );
+    });
+  });
+
+  describe('listForBusiness', () => {
+    it('should throw NotFoundException for a missing business', async () => {
+      repository.businessExists.mockResolvedValue(false);
+
+      await expect(service.listForBusiness(999, {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should assign the task to the creator by default', async () => {
+      repository.create.mockResolvedValue(task() as any);
+
+      await service.create(
+        1,
+        { title: 'Call back', due_at: dueAt.toISOString() },
+        member,
+      );
+
+      expect(repository.create).toHaveBeenCalledWith({
+        business_id: 1,
+        title: 'Call back',
+        description: undefined,
+        due_at: dueAt,
+        assigned_to: 'member-uuid',
+        created_by: 'member-uuid',
+      });
+      expect(jobQueueService.scheduleTaskReminder).toHaveBeenCalledWith(
+        5,
+        dueAt,
+      );
+      expect(eventsGateway.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('should notify another assignee', async () => {
+      const created = task({ assigned_to: 'other-uuid' });
+      repository.create.mockResolvedValue(created as any);
+
+      await service.create(
+        1,
+        {
+          title: 'Call back',
+          due_at: dueAt.toISOString(),
+          assigned_to: 'other-uuid',
+        },
+        admin,
+      );
+
+      expect(eventsGateway.emitToUser).toHaveBeenCalledWith(
+        'other-uuid',
+        'task:assigned',
+        created,
+      );
+    });
+
+    it('should still return the task when scheduling the reminder fails', async () => {
+      repository.create.mockResolvedValue(task() as any);
+      jobQueueService.scheduleTaskReminder.mockRejectedValue(
+        new Error('Redis down'),
+      );
+
+      await expect(
+        service.create(
+          1,
+          { title: 'Call back', due_at: dueAt.toISOString() },
+          member,
+        ),
+      ).resolves.toEqual(task());
+    });
+
+    it.each([
+      ['missing', null],
+      ['inactive', { ...activeUser('x'), is_active: false }],
+      ['viewer', { ...activeUser('x'), role: Role.VIEWER }],
+    ])('should reject a %s assignee', async (_label, assignee) => {
+      repository.findAssignee.mockResolvedValue(assignee as any);
+
+      await expect(
+        service.create(
+          1,
+          { title: 'Call back', due_at: dueAt.toISOString(), assigned_to: 'x' },
+          admin,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      repository.businessExists.mockResolvedValue(false);
+
+      await expect(
+        service.create(
+          999,
+          { title: 'Call back', due_at: dueAt.toISOString() },
+          member,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should re-arm the reminder when the due date moves', async () => {
+      const later = new Date('2026-11-03T15:00:00.000Z');
+      repository.findOne.mockResolvedValue(task() as any);
+      repository.update.mockResolvedValue(task({ due_at: later }) as any);
+
+      await service.update(5, { due_at: later.toISOString() }, member);
+
+      expect(repository.update).toHaveBeenCalledWith(5, {
+        due_at: later,
+        reminded_at: null,
+      });
+      expect(jobQueueService.scheduleTaskReminder).toHaveBeenCalledWith(
+        5,
+        later,
+      );
+    });
+
+    it('should not reschedule when the due date is unchanged', async () => {
+      repository.findOne.mockResolvedValue(task() as any);
+      repository.update.mockResolvedValue(task() as any);
+
+      await service.update(
+        5,
+        { title: 'Call back soon', due_at: dueAt.toISOString() },
+        member,
+      );
+
+      expect(repository.update).toHaveBeenCalledWith(5, {
+        title: 'Call back soon',
+      });
+      expect(jobQueueService.scheduleTaskReminder).not.toHaveBeenCalled();
+    });
+
+    it('should record a timeline entry when completing a task', async () => {
+      repository.findOne.mockResolvedValue(task() as any);
+      repository.update.mockResolvedValue(
+        task({ completed_at: new Date() }) as any,
+      );
+
+      await service.update(5, { completed: true }, member);
+
+      expect(repository.update).toHaveBeenCalledWith(5, {
+        completed_at: expect.any(Date),
+      });
+      expect(activityService.record).toHaveBeenCalledWith(
+        1,
+        'task',
+        'Completed task: Call back',
+        { taskId: 5 },
+        'member-uuid',
+      );
+    });
+
+    it('should reopen a completed task without a timeline entry', async () => {
+      repository.findOne.mockResolvedValue(
+        task({ completed_at: new Date() }) as any,
+      );
+      repository.update.mockResolvedValue(task() as any);
+
+      await service.update(5, { completed: false }, member);
+
+      expect(repository.update).toHaveBeenCalledWith(5, { completed_at: null });
+      expect(activityService.record).not.toHaveBeenCalled();
+    });
+
+    it('should notify a new assignee', async () => {
+      const updated = task({ assigned_to: 'other-uuid' });
+      repository.findOne.mockResolvedValue(task() as any);
+      repository.update.mockResolvedValue(updated as any);
+
+      await service.update(5, { assigned_to: 'other-uuid' }, member);
+
+      expect(eventsGateway.emitToUser).toHaveBeenCalledWith(
+        'other-uuid',
+        'task:assigned',
+        updated,
+      );
+    });
+
+    it('should forbid a member who is neither assignee nor creator', async () => {
+      repository.findOne.mockResolvedValue(
+        task({ assigned_to: 'a-uuid', created_by: 'b-uuid' }) as any,
+      );
+
+      await expect(
+        service.update(5, { completed: true }, member),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should let an admin change any task', async () => {
+      repository.findOne.mockResolvedValue(
+        task({ assigned_to: 'a-uuid', created_by: 'b-uuid' }) as any,
+      );
+      repository.update.mockResolvedValue(task() as any);
+
+      await service.update(5, { title: 'Renamed' }, admin);
+
+      expect(repository.update).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing task', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.update(999, {}, admin)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a task owned by the actor', async () => {
+      repository.findOne.mockResolvedValue(task() as any);
+
+      const result = await service.remove(5, member);
+
+      expect(repository.delete).toHaveBeenCalledWith(5);
+      expect(result).toEqual({ message: 'Task deleted successfully' });
+    });
+
+    it('should forbid a member who is neither assignee nor creator', async () => {
+      repository.findOne.mockResolvedValue(
+        task({ assigned_to: 'a-uuid', created_by: 'b-uuid' }) as any,
+      );
+
+      await expect(service.remove(5, member)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
+import { BusinessActivityService } from '../domain/business-activity.service';
+import { BusinessTaskService } from '../domain/business-task.service';
+import {
+  CreateBusinessNoteDto,
+  QueryBusinessActivityDto,
+  UpdateBusinessNoteDto,
+} from './dto/business-activity.dto';
+import { CreateBusinessTaskDto, QueryTasksDto } from './dto/business-task.dto';
+
+/**
+ * Business timeline API controller.
+ *
+ * Provides REST endpoints scoped to one business:
+ * - GET /api/businesses/:id/activity - Notes and system events, newest first
+ * - POST /api/businesses/:id/notes - Add a note
+ * - PATCH /api/businesses/:id/notes/:noteId - Edit a note (author or admin)
+ * - DELETE /api/businesses/:id/notes/:noteId - Delete a note (author or admin)
+ * - GET /api/businesses/:id/tasks - Follow-up tasks on the business
+ * - POST /api/businesses/:id/tasks - Create a follow-up task
+ */
+@ApiTags('Business Activity')
+@Controller('api/businesses')
+export class BusinessActivityController {
+  constructor(
+    private readonly activityService: BusinessActivityService,
+    private readonly taskService: BusinessTaskService,
+  ) {}
+
+  @Get(':id/activity')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the activity timeline of a business' })
+  @ApiResponse({ status: 200, description: 'Paginated timeline entries' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  getTimeline(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: QueryBusinessActivityDto,
+  ) {
+    return this.activityService.getTimeline(id, query);
+  }
+
+  @Post(':id/notes')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add a note to a business' })
+  @ApiResponse({ status: 201, description: 'Note created' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  addNote(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateBusinessNoteDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.activityService.addNote(id, dto, user);
+  }
+
+  @Patch(':id/notes/:noteId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Edit a note' })
+  @ApiResponse({ status: 200, description: 'Note updated' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the author' })
+  @ApiResponse({ status: 404, description: 'Note not found' })
+  updateNote(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('noteId', ParseIntPipe) noteId: number,
+    @Body() dto: UpdateBusinessNoteDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.activityService.updateNote(id, noteId, dto, user);
+  }
+
+  @Delete(':id/notes/:noteId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a note' })
+  @ApiResponse({ status: 200, description: 'Note deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the author' })
+  @ApiResponse({ status: 404, description: 'Note not found' })
+  deleteNote(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('noteId', ParseIntPipe) noteId: number,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.activityService.deleteNote(id, noteId, user);
+  }
+
+  @Get(':id/tasks')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List follow-up tasks on a business' })
+  @ApiResponse({ status: 200, description: 'Paginated tasks' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  listTasks(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: QueryTasksDto,
+  ) {
+    return this.taskService.listForBusiness(id, query);
+  }
+
+  @Post(':id/tasks')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a follow-up task on a business' })
+  @ApiResponse({ status: 201, description: 'Task created' })
+  @ApiResponse({ status: 400, description: 'Invalid assignee' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  createTask(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateBusinessTaskDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.taskService.create(id, dto, user);
+  }
+}
@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Timeline entry types. Only 'note' is written by users; the rest are
+ * recorded from domain events.
+ */
+export const ACTIVITY_TYPES = [
+  'note',
+  'enrichment',
+  'outreach',
+  'email',
+  'stage_change',
+  'task',
+] as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+export class QueryBusinessActivityDto {
+  @ApiPropertyOptional({
+    description: 'Only return entries of this type',
+    enum: ACTIVITY_TYPES,
+  })
+  @IsOptional()
+  @IsIn(ACTIVITY_TYPES)
+  type?: ActivityType;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
+
+export class CreateBusinessNoteDto {
+  @ApiProperty({
+    description: 'Note text',
+    example: 'Owner prefers a call after 3pm. Interested in the Tuesday lunch.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+}
+
+export class UpdateBusinessNoteDto extends CreateBusinessNoteDto {}
@@ -0,0 +1,105 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateBusinessTaskDto {
+  @ApiProperty({
+    description: 'What needs doing',
+    example: 'Call back about visiting',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Details' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string;
+
+  @ApiProperty({
+    description: 'When the task is due (ISO 8601)',
+    example: '2026-11-03T15:00:00.000Z',
+  })
+  @IsDateString()
+  due_at: string;
+
+  @ApiPropertyOptional({
+    description: 'User responsible for the task; defaults to the creator',
+  })
+  @IsOptional()
+  @IsUUID()
+  assigned_to?: string;
+}
+
+export class UpdateBusinessTaskDto {
+  @ApiPropertyOptional({ description: 'What needs doing' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Details' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'When the task is due (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  due_at?: string;
+
+  @ApiPropertyOptional({ description: 'User responsible for the task' })
+  @IsOptional()
+  @IsUUID()
+  assigned_to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Mark the task done (true) or reopen it (false)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  completed?: boolean;
+}
+
+export class QueryTasksDto {
+  @ApiPropertyOptional({
+    description:
+      'Open tasks are sorted by due date, completed by completion date',
+    enum: ['open', 'completed'],
+    default: 'open',
+  })
+  @IsOptional()
+  @IsIn(['open', 'completed'])
+  status?: 'open' | 'completed' = 'open';
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
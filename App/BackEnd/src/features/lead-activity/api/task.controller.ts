@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
+import { BusinessTaskService } from '../domain/business-task.service';
+import { QueryTasksDto, UpdateBusinessTaskDto } from './dto/business-task.dto';
+
+/**
+ * Task API controller.
+ *
+ * Provides REST endpoints across businesses:
+ * - GET /api/tasks/mine - Tasks assigned to the current user
+ * - PATCH /api/tasks/:taskId - Edit, complete or reopen a task
+ * - DELETE /api/tasks/:taskId - Delete a task
+ */
+@ApiTags('Tasks')
+@Controller('api/tasks')
+export class TaskController {
+  constructor(private readonly taskService: BusinessTaskService) {}
+
+  @Get('mine')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List tasks assigned to the current user' })
+  @ApiResponse({ status: 200, description: 'Paginated tasks' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  listMine(@Query() query: QueryTasksDto, @CurrentUser() user: RequestUser) {
+    return this.taskService.listMine(user.id, query);
+  }
+
+  @Patch(':taskId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update, complete or reopen a task' })
+  @ApiResponse({ status: 200, description: 'Task updated' })
+  @ApiResponse({ status: 400, description: 'Invalid assignee' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not the assignee or creator',
+  })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  update(
+    @Param('taskId', ParseIntPipe) taskId: number,
+    @Body() dto: UpdateBusinessTaskDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.taskService.update(taskId, dto, user);
+  }
+
+  @Delete(':taskId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a task' })
+  @ApiResponse({ status: 200, description: 'Task deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not the assignee or creator',
+  })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  remove(
+    @Param('taskId', ParseIntPipe) taskId: number,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.taskService.remove(taskId, user);
+  }
+}
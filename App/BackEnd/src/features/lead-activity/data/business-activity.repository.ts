@@ -0,0 +1,93 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+const AUTHOR_SELECT = { select: { id: true, name: true, email: true } };
+
+/**
+ * Data access for business timeline entries (business_activity).
+ *
+ * Also provided directly by JobQueueModule so CSV imports can store
+ * imported notes without depending on LeadActivityModule.
+ */
+@Injectable()
+export class BusinessActivityRepository {
+  private readonly logger = new Logger(BusinessActivityRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a timeline entry.
+   *
+   * @param data - Entry fields (business_id, type, body, metadata, created_by)
+   * @returns Created entry with its author
+   */
+  async create(data: Prisma.business_activityUncheckedCreateInput) {
+    const activity = await this.prisma.business_activity.create({
+      data,
+      include: { author: AUTHOR_SELECT },
+    });
+
+    this.logger.debug(
+      `Recorded ${activity.type} activity ${activity.id} on business ${activity.business_id}`,
+    );
+    return activity;
+  }
+
+  /**
+   * List timeline entries for a business, newest first.
+   *
+   * @returns Tuple of [entries with authors, total count]
+   */
+  async findByBusiness(
+    where: Prisma.business_activityWhereInput,
+    skip: number,
+    take: number,
+  ): Promise<[any[], number]> {
+    return Promise.all([
+      this.prisma.business_activity.findMany({
+        where,
+        skip,
+        take,
+        include: { author: AUTHOR_SELECT },
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      }),
+      this.prisma.business_activity.count({ where }),
+    ]);
+  }
+
+  /**
+   * Find a single entry by ID.
+   */
+  async findOne(id: number) {
+    return this.prisma.business_activity.findUnique({ where: { id } });
+  }
+
+  /**
+   * Replace the body of an entry.
+   */
+  async updateBody(id: number, body: string) {
+    return this.prisma.business_activity.update({
+      where: { id },
+      data: { body },
+      include: { author: AUTHOR_SELECT },
+    });
+  }
+
+  /**
+   * Delete an entry.
+   */
+  async delete(id: number) {
+    return this.prisma.business_activity.delete({ where: { id } });
+  }
+
+  /**
+   * Check whether a business exists and is not trashed.
+   */
+  async businessExists(id: number): Promise<boolean> {
+    const count = await this.prisma.business.count({
+      where: { id, deleted_at: null },
+    });
+    return count > 0;
+  }
+}
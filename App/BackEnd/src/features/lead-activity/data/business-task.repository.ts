@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+const TASK_INCLUDE = {
+  business: { select: { id: true, name: true } },
+  assignee: { select: { id: true, name: true, email: true } },
+  creator: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.business_taskInclude;
+
+/**
+ * Data access for follow-up tasks (business_task).
+ *
+ * Also provided directly by JobQueueModule for TaskReminderWorker.
+ */
+@Injectable()
+export class BusinessTaskRepository {
+  private readonly logger = new Logger(BusinessTaskRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a task.
+   *
+   * @returns Created task with business, assignee and creator
+   */
+  async create(data: Prisma.business_taskUncheckedCreateInput) {
+    const task = await this.prisma.business_task.create({
+      data,
+      include: TASK_INCLUDE,
+    });
+
+    this.logger.debug(
+      `Created task ${task.id} on business ${task.business_id}`,
+    );
+    return task;
+  }
+
+  /**
+   * Find a single task by ID.
+   */
+  async findOne(id: number) {
+    return this.prisma.business_task.findUnique({
+      where: { id },
+      include: TASK_INCLUDE,
+    });
+  }
+
+  /**
+   * List tasks. Tasks of trashed businesses are hidden.
+   *
+   * @returns Tuple of [tasks with business, assignee and creator, total count]
+   */
+  async findMany(
+    filter: Prisma.business_taskWhereInput,
+    orderBy: Prisma.business_taskOrderByWithRelationInput[],
+    skip: number,
+    take: number,
+  ): Promise<[any[], number]> {
+    const where = { AND: [filter, { business: { deleted_at: null } }] };
+    return Promise.all([
+      this.prisma.business_task.findMany({
+        where,
+        skip,
+        take,
+        include: TASK_INCLUDE,
+        orderBy,
+      }),
+      this.prisma.business_task.count({ where }),
+    ]);
+  }
+
+  /**
+   * Update a task.
+   */
+  async update(id: number, data: Prisma.business_taskUncheckedUpdateInput) {
+    return this.prisma.business_task.update({
+      where: { id },
+      data,
+      include: TASK_INCLUDE,
+    });
+  }
+
+  /**
+   * Delete a task.
+   */
+  async delete(id: number) {
+    return this.prisma.business_task.delete({ where: { id } });
+  }
+
+  /**
+   * Claim the due reminder of a task.
+   *
+   * Succeeds only while the task is open, still due at `dueAt` and has not
+   * been reminded, so each reminder is delivered at most once even when
+   * several jobs exist for the same task. Tasks of trashed businesses are
+   * never reminded.
+   *
+   * @param id - Task ID
+   * @param dueAt - Due date the reminder was scheduled for
+   * @returns True if this caller should deliver the reminder
+   */
+  async claimReminder(id: number, dueAt: Date): Promise<boolean> {
+    const { count } = await this.prisma.business_task.updateMany({
+      where: {
+        id,
+        due_at: dueAt,
+        completed_at: null,
+        reminded_at: null,
+        business: { deleted_at: null },
+      },
+      data: { reminded_at: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Check whether a business exists and is not trashed.
+   */
+  async businessExists(id: number): Promise<boolean> {
+    const count = await this.prisma.business.count({
+      where: { id, deleted_at: null },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Find a user that tasks can be assigned to.
+   *
+   * @param userId - User ID
+   * @returns User summary, or null if missing
+   */
+  async findAssignee(userId: string) {
+    return this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        is_active: true,
+      },
+    });
+  }
+}
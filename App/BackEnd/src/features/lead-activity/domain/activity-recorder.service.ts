@@ -0,0 +1,115 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { BusinessActivityService } from './business-activity.service';
+import type { EmailStatus } from '../../email/dto/email-event.dto';
+import type { OutreachStatusChangedEvent } from '../../email/email.service';
+import type { BusinessStageChangedEvent } from '../../business-management/domain/business-pipeline.service';
+
+/**
+ * Timeline text for outreach message statuses. Statuses without an entry
+ * (e.g. 'pending' for deferred delivery) are not recorded.
+ */
+const OUTREACH_STATUS_TEXT: Partial<Record<EmailStatus, string>> = {
+  sent: 'Outreach email sent',
+  failed: 'Outreach email failed to send',
+  delivered: 'Email delivered',
+  opened: 'Email opened',
+  clicked: 'Email link clicked',
+  bounced: 'Email bounced',
+  spam: 'Email marked as spam',
+  unsubscribed: 'Recipient unsubscribed',
+};
+
+interface BusinessEnrichedEvent {
+  data?: {
+    id: number;
+    enrichment_status: string;
+    /** Enrichment providers that returned data */
+    providers: string[];
+    errors: number;
+  };
+}
+
+/**
+ * Writes automatic timeline entries from domain events.
+ *
+ * Listens for:
+ * - 'business:enriched' (EnrichmentService) → enrichment runs
+ * - 'outreach:status-changed' (EmailService) → sends and email events
+ * - 'business:stage-changed' (BusinessPipelineService) → pipeline moves
+ *
+ * Failures are logged and swallowed so the emitting workflow never fails
+ * because of the timeline.
+ */
+@Injectable()
+export class ActivityRecorderService {
+  constructor(private activityService: BusinessActivityService) {}
+
+  @OnEvent('business:enriched')
+  async handleBusinessEnriched(event: BusinessEnrichedEvent) {
+    const data = event?.data;
+    if (!data?.id) return;
+
+    const sources = (data.providers ?? []).join(', ');
+    const body =
+      data.enrichment_status === 'failed'
+        ? `Enrichment failed (${data.errors} error${data.errors === 1 ? '' : 's'})`
+        : `Enriched via ${sources || 'no sources'}`;
+
+    await this.safely(() =>
+      this.activityService.record(data.id, 'enrichment', body, {
+        status: data.enrichment_status,
+        providers: data.providers,
+        errors: data.errors,
+      }),
+    );
+  }
+
+  @OnEvent('outreach:status-changed')
+  async handleOutreachStatusChanged(event: OutreachStatusChangedEvent) {
+    const body = OUTREACH_STATUS_TEXT[event.status];
+    if (!body) return;
+
+    const type =
+      event.status === 'sent' || event.status === 'failed'
+        ? 'outreach'
+        : 'email';
+
+    await this.safely(() =>
+      this.activityService.record(event.businessId, type, body, {
+        messageId: event.messageId,
+        status: event.status,
+      }),
+    );
+  }
+
+  @OnEvent('business:stage-changed')
+  async handleStageChanged(event: BusinessStageChangedEvent) {
+    const body = `Moved from ${stageLabel(event.from)} to ${stageLabel(event.to)}${
+      event.note ? `: ${event.note}` : ''
+    }`;
+
+    await this.safely(() =>
+      this.activityService.record(
+        event.businessId,
+        'stage_change',
+        body,
+        { from: event.from, to: event.to },
+        event.userId,
+      ),
+    );
+  }
+
+  private async safely(write: () => Promise<unknown>) {
+    try {
+      await write();
+    } catch {
+      // Already logged by BusinessActivityService.record()
+    }
+  }
+}
+
+function stageLabel(stage: string): string {
+  const label = stage.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
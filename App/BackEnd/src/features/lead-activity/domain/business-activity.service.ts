@@ -0,0 +1,188 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import { BusinessActivityRepository } from '../data/business-activity.repository';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import {
+  ActivityType,
+  CreateBusinessNoteDto,
+  QueryBusinessActivityDto,
+  UpdateBusinessNoteDto,
+} from '../api/dto/business-activity.dto';
+
+/**
+ * The user acting on notes and tasks. Only the fields the ownership rules need.
+ */
+export interface ActivityActor {
+  id: string;
+  role: Role;
+}
+
+/**
+ * Business timeline: user notes plus automatically recorded events.
+ *
+ * Rules:
+ * - ADMINs and MEMBERs can add notes
+ * - Only the author or an ADMIN can edit or delete a note
+ * - System entries (everything but notes) are read-only
+ *
+ * @example
+ * await activityService.addNote(12, { body: 'Call after 3pm' }, user);
+ * // → Stores the note, emits 'business:activity'
+ */
+@Injectable()
+export class BusinessActivityService {
+  private readonly logger = new Logger(BusinessActivityService.name);
+
+  constructor(
+    private repository: BusinessActivityRepository,
+    private eventsGateway: EventsGateway,
+  ) {}
+
+  /**
+   * Get the timeline of a business, newest first.
+   *
+   * @param businessId - Business ID
+   * @param query - Optional type filter and pagination
+   * @returns Paginated timeline entries with authors
+   * @throws {NotFoundException} If business doesn't exist
+   */
+  async getTimeline(businessId: number, query: QueryBusinessActivityDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    await this.assertBusinessExists(businessId);
+
+    const [data, total] = await this.repository.findByBusiness(
+      { business_id: businessId, ...(query.type && { type: query.type }) },
+      (page - 1) * limit,
+      limit,
+    );
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Add a note to a business.
+   *
+   * @throws {NotFoundException} If business doesn't exist
+   *
+   * @side-effects
+   * - Emits 'business:activity' WebSocket event
+   */
+  async addNote(
+    businessId: number,
+    dto: CreateBusinessNoteDto,
+    actor: ActivityActor,
+  ) {
+    await this.assertBusinessExists(businessId);
+    return this.record(businessId, 'note', dto.body, undefined, actor.id);
+  }
+
+  /**
+   * Edit a note.
+   *
+   * @throws {NotFoundException} If the note doesn't exist on this business
+   * @throws {ForbiddenException} If the actor is neither author nor ADMIN
+   */
+  async updateNote(
+    businessId: number,
+    noteId: number,
+    dto: UpdateBusinessNoteDto,
+    actor: ActivityActor,
+  ) {
+    await this.getOwnNote(businessId, noteId, actor);
+
+    const note = await this.repository.updateBody(noteId, dto.body);
+    this.eventsGateway.emitEvent('business:activity', note);
+    return note;
+  }
+
+  /**
+   * Delete a note.
+   *
+   * @throws {NotFoundException} If the note doesn't exist on this business
+   * @throws {ForbiddenException} If the actor is neither author nor ADMIN
+   */
+  async deleteNote(businessId: number, noteId: number, actor: ActivityActor) {
+    await this.getOwnNote(businessId, noteId, actor);
+    await this.repository.delete(noteId);
+    return { message: 'Note deleted successfully' };
+  }
+
+  /**
+   * Append an entry to a business timeline.
+   *
+   * Used for notes and by ActivityRecorderService / BusinessTaskService for
+   * system entries.
+   *
+   * @param businessId - Business ID
+   * @param type - Entry type
+   * @param body - Human-readable summary
+   * @param metadata - Structured details (IDs, statuses)
+   * @param createdBy - Acting user, omitted for system entries
+   * @returns Created entry with author
+   *
+   * @side-effects
+   * - Emits 'business:activity' WebSocket event
+   */
+  async record(
+    businessId: number,
+    type: ActivityType,
+    body: string | null,
+    metadata?: Prisma.InputJsonObject,
+    createdBy?: string | null,
+  ) {
+    try {
+      const activity = await this.repository.create({
+        business_id: businessId,
+        type,
+        body,
+        metadata,
+        created_by: createdBy ?? null,
+      });
+
+      this.eventsGateway.emitEvent('business:activity', activity);
+      return activity;
+    } catch (error) {
+      this.logger.error(
+        `Error recording ${type} activity for business ${businessId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private async assertBusinessExists(businessId: number) {
+    if (!(await this.repository.businessExists(businessId))) {
+      throw new NotFoundException(`Business with ID ${businessId} not found`);
+    }
+  }
+
+  private async getOwnNote(
+    businessId: number,
+    noteId: number,
+    actor: ActivityActor,
+  ) {
+    const note = await this.repository.findOne(noteId);
+    if (!note || note.business_id !== businessId || note.type !== 'note') {
+      throw new NotFoundException(`Note with ID ${noteId} not found`);
+    }
+    if (actor.role !== Role.ADMIN && note.created_by !== actor.id) {
+      throw new ForbiddenException('Only the author can change this note');
+    }
+    return note;
+  }
+}
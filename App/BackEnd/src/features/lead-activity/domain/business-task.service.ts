@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import { BusinessTaskRepository } from '../data/business-task.repository';
+import {
+  BusinessActivityService,
+  ActivityActor,
+} from './business-activity.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import {
+  CreateBusinessTaskDto,
+  QueryTasksDto,
+  UpdateBusinessTaskDto,
+} from '../api/dto/business-task.dto';
+
+/**
+ * Follow-up tasks on businesses.
+ *
+ * Rules:
+ * - ADMINs and MEMBERs can create tasks for any active ADMIN or MEMBER
+ * - Only the assignee, the creator or an ADMIN can change or delete a task
+ *
+ * Each task gets a delayed reminder job for its due date; TaskReminderWorker
+ * pushes 'task:reminder' to the assignee's `user:{id}` room when it fires.
+ *
+ * @example
+ * await taskService.create(12, { title: 'Call back', due_at }, user);
+ * // → Task stored, reminder scheduled, assignee notified
+ */
+@Injectable()
+export class BusinessTaskService {
+  private readonly logger = new Logger(BusinessTaskService.name);
+
+  constructor(
+    private repository: BusinessTaskRepository,
+    private activityService: BusinessActivityService,
+    private jobQueueService: JobQueueService,
+    private eventsGateway: EventsGateway,
+  ) {}
+
+  /**
+   * List the acting user's tasks across all businesses.
+   *
+   * @param userId - Assignee
+   * @param query - Status and pagination
+   * @returns Paginated tasks; open tasks soonest due first
+   */
+  async listMine(userId: string, query: QueryTasksDto) {
+    const status = query.status || 'open';
+    const where: Prisma.business_taskWhereInput = {
+      assigned_to: userId,
+      completed_at: status === 'open' ? null : { not: null },
+    };
+    const orderBy: Prisma.business_taskOrderByWithRelationInput[] =
+      status === 'open'
+        ? [{ due_at: 'asc' }, { id: 'asc' }]
+        : [{ completed_at: 'desc' }, { id: 'desc' }];
+
+    return this.paginate(where, orderBy, query);
+  }
+
+  /**
+   * List tasks on a business, open first then soonest due.
+   *
+   * @throws {NotFoundException} If business doesn't exist
+   */
+  async listForBusiness(businessId: number, query: QueryTasksDto) {
+    await this.assertBusinessExists(businessId);
+
+    return this.paginate(
+      { business_id: businessId },
+      [{ completed_at: { sort: 'desc', nulls: 'first' } }, { due_at: 'asc' }],
+      query,
+    );
+  }
+
+  /**
+   * Create a task on a business.
+   *
+   * @throws {NotFoundException} If business doesn't exist
+   * @throws {BadRequestException} If the assignee is missing, inactive or a VIEWER
+   *
+   * @side-effects
+   * - Schedules the due reminder
+   * - Emits 'task:assigned' to the assignee when it isn't the creator
+   */
+  async create(
+    businessId: number,
+    dto: CreateBusinessTaskDto,
+    actor: ActivityActor,
+  ) {
+    await this.assertBusinessExists(businessId);
+
+    const assigneeId = dto.assigned_to ?? actor.id;
+    await this.assertAssignable(assigneeId);
+
+    try {
+      const task = await this.repository.create({
+        business_id: businessId,
+        title: dto.title,
+        description: dto.description,
+        due_at: new Date(dto.due_at),
+        assigned_to: assigneeId,
+        created_by: actor.id,
+      });
+      this.logger.log(`Task ${task.id} created on business ${businessId}`);
+
+      await this.scheduleReminder(task.id, task.due_at);
+      if (assigneeId !== actor.id) {
+        this.eventsGateway.emitToUser(assigneeId, 'task:assigned', task);
+      }
+
+      return task;
+    } catch (error) {
+      this.logger.error(
+        `Error creating task on business ${businessId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Update, complete or reopen a task.
+   *
+   * Moving the due date re-arms the reminder.
+   *
+   * @throws {NotFoundException} If task doesn't exist
+   * @throws {ForbiddenException} If the actor is not assignee, creator or ADMIN
+   * @throws {BadRequestException} If the new assignee is not assignable
+   *
+   * @side-effects
+   * - Records a 'task' timeline entry when the task is completed
+   * - Schedules a new reminder when due_at changes
+   * - Emits 'task:assigned' to a new assignee
+   */
+  async update(
+    taskId: number,
+    dto: UpdateBusinessTaskDto,
+    actor: ActivityActor,
+  ) {
+    const task = await this.getOwnTask(taskId, actor);
+
+    const data: Prisma.business_taskUncheckedUpdateInput = {};
+    if (dto.title !== undefined) data.title = dto.title;
+    if (dto.description !== undefined) data.description = dto.description;
+
+    const dueAt = dto.due_at ? new Date(dto.due_at) : undefined;
+    const dueChanged = dueAt && dueAt.getTime() !== task.due_at.getTime();
+    if (dueChanged) {
+      data.due_at = dueAt;
+      data.reminded_at = null;
+    }
+
+    const reassigned =
+      dto.assigned_to !== undefined && dto.assigned_to !== task.assigned_to;
+    if (reassigned) {
+      await this.assertAssignable(dto.assigned_to!);
+      data.assigned_to = dto.assigned_to;
+    }
+
+    const completing = dto.completed === true && !task.completed_at;
+    if (dto.completed !== undefined) {
+      data.completed_at = dto.completed
+        ? (task.completed_at ?? new Date())
+        : null;
+    }
+
+    try {
+      const updated = await this.repository.update(taskId, data);
+
+      if (dueChanged) {
+        await this.scheduleReminder(updated.id, updated.due_at);
+      }
+      if (reassigned && updated.assigned_to !== actor.id) {
+        this.eventsGateway.emitToUser(
+          updated.assigned_to,
+          'task:assigned',
+          updated,
+        );
+      }
+      if (completing) {
+        await this.activityService.record(
+          updated.business_id,
+          'task',
+          `Completed task: ${updated.title}`,
+          { taskId: updated.id },
+          actor.id,
+        );
+      }
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error updating task ${taskId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a task.
+   *
+   * @throws {NotFoundException} If task doesn't exist
+   * @throws {ForbiddenException} If the actor is not assignee, creator or ADMIN
+   */
+  async remove(taskId: number, actor: ActivityActor) {
+    await this.getOwnTask(taskId, actor);
+    await this.repository.delete(taskId);
+    return { message: 'Task deleted successfully' };
+  }
+
+  private async paginate(
+    where: Prisma.business_taskWhereInput,
+    orderBy: Prisma.business_taskOrderByWithRelationInput[],
+    query: QueryTasksDto,
+  ) {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    const [data, total] = await this.repository.findMany(
+      where,
+      orderBy,
+      (page - 1) * limit,
+      limit,
+    );
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * A failed schedule must not fail the request; the task is still listed
+   * in "My tasks" and the reminder is re-armed on the next due date change.
+   */
+  private async scheduleReminder(taskId: number, dueAt: Date) {
+    try {
+      await this.jobQueueService.scheduleTaskReminder(taskId, dueAt);
+    } catch (error) {
+      this.logger.warn(
+        `Reminder for task ${taskId} not scheduled: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async assertAssignable(userId: string) {
+    const assignee = await this.repository.findAssignee(userId);
+    if (!assignee || !assignee.is_active || assignee.role === Role.VIEWER) {
+      throw new BadRequestException(
+        'Tasks can only be assigned to active admins or members',
+      );
+    }
+  }
+
+  private async assertBusinessExists(businessId: number) {
+    if (!(await this.repository.businessExists(businessId))) {
+      throw new NotFoundException(`Business with ID ${businessId} not found`);
+    }
+  }
+
+  private async getOwnTask(taskId: number, actor: ActivityActor) {
+    const task = await this.repository.findOne(taskId);
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    if (
+      actor.role !== Role.ADMIN &&
+      task.assigned_to !== actor.id &&
+      task.created_by !== actor.id
+    ) {
+      throw new ForbiddenException(
+        'Only the assignee or creator can change this task',
+      );
+    }
+    return task;
+  }
+}
@@ -0,0 +1,21 @@
+// Barrel exports for lead-activity feature
+export { LeadActivityModule } from './lead-activity.module';
+export { BusinessActivityController } from './api/business-activity.controller';
+export { TaskController } from './api/task.controller';
+export { BusinessActivityService } from './domain/business-activity.service';
+export { BusinessTaskService } from './domain/business-task.service';
+export { ActivityRecorderService } from './domain/activity-recorder.service';
+export { BusinessActivityRepository } from './data/business-activity.repository';
+export { BusinessTaskRepository } from './data/business-task.repository';
+export {
+  ACTIVITY_TYPES,
+  QueryBusinessActivityDto,
+  CreateBusinessNoteDto,
+  UpdateBusinessNoteDto,
+} from './api/dto/business-activity.dto';
+export type { ActivityType } from './api/dto/business-activity.dto';
+export {
+  CreateBusinessTaskDto,
+  UpdateBusinessTaskDto,
+  QueryTasksDto,
+} from './api/dto/business-task.dto';
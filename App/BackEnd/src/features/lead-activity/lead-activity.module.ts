@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import { BusinessActivityController } from './api/business-activity.controller';
+import { TaskController } from './api/task.controller';
+import { BusinessActivityService } from './domain/business-activity.service';
+import { BusinessTaskService } from './domain/business-task.service';
+import { ActivityRecorderService } from './domain/activity-recorder.service';
+import { BusinessActivityRepository } from './data/business-activity.repository';
+import { BusinessTaskRepository } from './data/business-task.repository';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { WebsocketModule } from '../../websocket/websocket.module';
+import { JobQueueModule } from '../job-queue/job-queue.module';
+
+/**
+ * Lead Activity feature module.
+ *
+ * Notes, the automatic activity timeline and follow-up tasks for each
+ * business.
+ *
+ * Dependencies:
+ * - PrismaModule: Database access via repositories
+ * - WebsocketModule: 'business:activity' broadcasts and per-user task events
+ * - EventEmitterModule: Timeline entries from enrichment, email and pipeline events
+ * - JobQueueModule: Delayed task reminder jobs
+ */
+@Module({
+  imports: [PrismaModule, WebsocketModule, EventEmitterModule, JobQueueModule],
+  controllers: [BusinessActivityController, TaskController],
+  providers: [
+    BusinessActivityService,
+    BusinessTaskService,
+    ActivityRecorderService,
+    BusinessActivityRepository,
+    BusinessTaskRepository,
+  ],
+  exports: [BusinessActivityService],
+})
+export class LeadActivityModule {}
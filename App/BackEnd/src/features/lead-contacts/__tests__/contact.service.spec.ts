@@ -0,0 +1,255 @@
+/**
+ * ContactService Unit Tests
+ *
+ * Test Categories:
+ * - findAll(): business existence
+ * - create(): identifiability, primary flag, cache invalidation and events
+ * - update(): ownership, email verification reset, manual field sources
+ * - remove(): ownership, cache invalidation
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { ContactService } from '../domain/contact.service';
+import { ContactRepository } from '../data/contact.repository';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+import { BusinessCacheService } from '../../business-management/domain/business-cache.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+
+describe('ContactService', () => {
+  let service: ContactService;
+  let repository: jest.Mocked<ContactRepository>;
+  let businessRepository: jest.Mocked<BusinessRepository>;
+  let cache: jest.Mocked<BusinessCacheService>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+
+  const business = { id: 12, name: 'Test Plumbing LLC', contacts: [] };
+
+  const contact = (overrides: Record<string, unknown> = {}) => ({
+    id: 5,
+    business_id: 12,
+    name: 'Maria Lopez',
+    title: 'Owner',
+    email: 'maria@testplumbing.com',
+    email_verified: true,
+    phone: null,
+    linkedin_url: null,
+    is_primary: false,
+    field_sources: {},
+    created_at: new Date('2026-10-01T00:00:00.000Z'),
+    updated_at: new Date('2026-10-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  const manual = expect.objectContaining({
+    source: 'manual',
+    confidence: null,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContactService,
+        {
+          provide: ContactRepository,
+          useValue: {
+            findByBusiness: jest.fn().mockResolvedValue([contact()]),
+            findOne: jest.fn().mockResolvedValue(contact()),
+            create: jest.fn().mockResolvedValue(contact()),
+            update: jest.fn().mockResolvedValue(contact()),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: BusinessRepository,
+          useValue: {
+            exists: jest.fn().mockResolvedValue(true),
+            findOne: jest.fn().mockResolvedValue(business),
+          },
+        },
+        {
+          provide: BusinessCacheService,
+          useValue: { invalidateAll: jest.fn() },
+        },
+        {
+          provide: EventsGateway,
+          useValue: { emitBusinessUpdated: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ContactService);
+    repository = module.get(ContactRepository);
+    businessRepository = module.get(BusinessRepository);
+    cache = module.get(BusinessCacheService);
+    eventsGateway = module.get(EventsGateway);
+  });
+
+  // ============================================================
+  // findAll()
+  // ============================================================
+  describe('findAll()', () => {
+    it('should list contacts of the business', async () => {
+      const result = await service.findAll(12);
+
+      expect(repository.findByBusiness).toHaveBeenCalledWith(12);
+      expect(result).toEqual([contact()]);
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      businessRepository.exists.mockResolvedValue(false);
+
+      await expect(service.findAll(99)).rejects.toThrow(NotFoundException);
+      expect(repository.findByBusiness).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================
+  // create()
+  // ============================================================
+  describe('create()', () => {
+    it('should create the contact, invalidate caches and emit the business', async () => {
+      const dto = { name: 'Maria Lopez', title: 'Owner', is_primary: true };
+
+      await service.create(12, dto);
+
+      expect(repository.create).toHaveBeenCalledWith({
+        ...dto,
+        business_id: 12,
+        field_sources: { name: manual, title: manual },
+      });
+      expect(cache.invalidateAll).toHaveBeenCalledWith(12);
+      expect(eventsGateway.emitBusinessUpdated).toHaveBeenCalledWith(business);
+    });
+
+    it('should reject a contact without name, email or phone', async () => {
+      await expect(
+        service.create(12, { title: 'Owner', name: '  ' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      businessRepository.exists.mockResolvedValue(false);
+
+      await expect(service.create(99, { name: 'Maria' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  // ============================================================
+  // update()
+  // ============================================================
+  describe('update()', () => {
+    it('should mark a contact primary', async () => {
+      await service.update(12, 5, { is_primary: true });
+
+      expect(repository.update).toHaveBeenCalledWith(5, 12, {
+        is_primary: true,
+      });
+      expect(eventsGateway.emitBusinessUpdated).toHaveBeenCalledWith(business);
+    });
+
+    it('should reset email_verified when the email changes', async () => {
+      await service.update(12, 5, { email: 'owner@testplumbing.com' });
+
+      expect(repository.update).toHaveBeenCalledWith(5, 12, {
+        email: 'owner@testplumbing.com',
+        email_verified: false,
+        field_sources: { email: manual },
+      });
+    });
+
+    it('should keep an explicit email_verified with a new email', async () => {
+      await service.update(12, 5, {
+        email: 'owner@testplumbing.com',
+        email_verified: true,
+      });
+
+      expect(repository.update).toHaveBeenCalledWith(5, 12, {
+        email: 'owner@testplumbing.com',
+        email_verified: true,
+        field_sources: { email: manual, email_verified: manual },
+      });
+    });
+
+    it('should record edited fields as manual over enriched ones', async () => {
+      const hunter = {
+        source: 'hunter',
+        confidence: 0.95,
+        updated_at: '2026-10-01T00:00:00.000Z',
+      };
+      repository.findOne.mockResolvedValue(
+        contact({ field_sources: { name: hunter, email: hunter } }),
+      );
+
+      await service.update(12, 5, { title: 'CEO' });
+
+      expect(repository.update).toHaveBeenCalledWith(5, 12, {
+        title: 'CEO',
+        field_sources: { name: hunter, email: hunter, title: manual },
+      });
+    });
+
+    it('should drop the verification source when the email changes', async () => {
+      const hunter = {
+        source: 'hunter',
+        confidence: 0.95,
+        updated_at: '2026-10-01T00:00:00.000Z',
+      };
+      repository.findOne.mockResolvedValue(
+        contact({ field_sources: { email_verified: hunter } }),
+      );
+
+      await service.update(12, 5, { email: 'owner@testplumbing.com' });
+
+      expect(repository.update).toHaveBeenCalledWith(5, 12, {
+        email: 'owner@testplumbing.com',
+        email_verified: false,
+        field_sources: { email: manual },
+      });
+    });
+
+    it('should reject clearing the last identifying field', async () => {
+      repository.findOne.mockResolvedValue(contact({ email: null }));
+
+      await expect(
+        service.update(12, 5, { name: null as unknown as string }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for a contact of another business', async () => {
+      repository.findOne.mockResolvedValue(contact({ business_id: 13 }));
+
+      await expect(service.update(12, 5, { title: 'CEO' })).rejects.toThrow(
+        'Contact with ID 5 not found',
+      );
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================
+  // remove()
+  // ============================================================
+  describe('remove()', () => {
+    it('should delete the contact and invalidate caches', async () => {
+      const result = await service.remove(12, 5);
+
+      expect(repository.delete).toHaveBeenCalledWith(5);
+      expect(cache.invalidateAll).toHaveBeenCalledWith(12);
+      expect(result).toEqual({ message: 'Contact deleted successfully' });
+    });
+
+    it('should throw NotFoundException for a missing contact', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.remove(12, 5)).rejects.toThrow(NotFoundException);
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { ContactService } from '../domain/contact.service';
+import { CreateContactDto, UpdateContactDto } from './dto/contact.dto';
+
+/**
+ * Business contacts API controller.
+ *
+ * Provides REST endpoints scoped to one business:
+ * - GET /api/businesses/:id/contacts - Contacts, primary first
+ * - POST /api/businesses/:id/contacts - Add a contact
+ * - PATCH /api/businesses/:id/contacts/:contactId - Edit, mark primary or verified
+ * - DELETE /api/businesses/:id/contacts/:contactId - Delete a contact
+ */
+@ApiTags('Contacts')
+@Controller('api/businesses')
+export class ContactController {
+  constructor(private readonly contactService: ContactService) {}
+
+  @Get(':id/contacts')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List contacts of a business' })
+  @ApiResponse({ status: 200, description: 'Contacts, primary first' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  findAll(@Param('id', ParseIntPipe) id: number) {
+    return this.contactService.findAll(id);
+  }
+
+  @Post(':id/contacts')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add a contact to a business' })
+  @ApiResponse({ status: 201, description: 'Contact created' })
+  @ApiResponse({ status: 400, description: 'No name, email or phone' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  create(@Param('id', ParseIntPipe) id: number, @Body() dto: CreateContactDto) {
+    return this.contactService.create(id, dto);
+  }
+
+  @Patch(':id/contacts/:contactId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a contact' })
+  @ApiResponse({ status: 200, description: 'Contact updated' })
+  @ApiResponse({ status: 400, description: 'No name, email or phone left' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Contact not found' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('contactId', ParseIntPipe) contactId: number,
+    @Body() dto: UpdateContactDto,
+  ) {
+    return this.contactService.update(id, contactId, dto);
+  }
+
+  @Delete(':id/contacts/:contactId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a contact' })
+  @ApiResponse({ status: 200, description: 'Contact deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Contact not found' })
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('contactId', ParseIntPipe) contactId: number,
+  ) {
+    return this.contactService.remove(id, contactId);
+  }
+}
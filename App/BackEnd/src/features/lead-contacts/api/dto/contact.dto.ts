@@ -0,0 +1,65 @@
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEmail,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateContactDto {
+  @ApiPropertyOptional({ description: 'Full name', example: 'Maria Lopez' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Job title', example: 'Owner' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Email address' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the email was confirmed (e.g. replied, verified by phone)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  email_verified?: boolean;
+
+  @ApiPropertyOptional({ description: 'Phone number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  phone?: string;
+
+  @ApiPropertyOptional({ description: 'LinkedIn profile URL' })
+  @IsOptional()
+  @IsUrl()
+  linkedin_url?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Make this the primary contact (used for outreach). Clears the flag on the previous primary.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  is_primary?: boolean;
+}
+
+/**
+ * Partial contact update.
+ *
+ * Omitted fields are left untouched; explicit nulls clear the stored value.
+ * Changing the email resets email_verified unless it is sent as well.
+ */
+export class UpdateContactDto extends PartialType(CreateContactDto) {}
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+/** Primary contact first, then in the order they were added. */
+const CONTACT_ORDER: Prisma.contactOrderByWithRelationInput[] = [
+  { is_primary: 'desc' },
+  { created_at: 'asc' },
+  { id: 'asc' },
+];
+
+/**
+ * Data access for business contacts.
+ *
+ * A partial unique index allows at most one primary contact per business;
+ * create and update clear the previous primary in the same transaction.
+ */
+@Injectable()
+export class ContactRepository {
+  private readonly logger = new Logger(ContactRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List the contacts of a business, primary first.
+   */
+  async findByBusiness(businessId: number) {
+    return this.prisma.contact.findMany({
+      where: { business_id: businessId },
+      orderBy: CONTACT_ORDER,
+    });
+  }
+
+  /**
+   * Find a single contact by ID.
+   */
+  async findOne(id: number) {
+    return this.prisma.contact.findUnique({ where: { id } });
+  }
+
+  /**
+   * Create a contact.
+   *
+   * @param data - Contact fields including business_id
+   * @returns Created contact
+   */
+  async create(data: Prisma.contactUncheckedCreateInput) {
+    return this.prisma.$transaction(async (tx) => {
+      if (data.is_primary) {
+        await this.clearPrimary(tx, data.business_id);
+      }
+      const contact = await tx.contact.create({ data });
+
+      this.logger.debug(
+        `Created contact ${contact.id} on business ${contact.business_id}`,
+      );
+      return contact;
+    });
+  }
+
+  /**
+   * Update a contact.
+   *
+   * @param id - Contact ID
+   * @param businessId - Business the contact belongs to
+   * @param data - Fields to change
+   * @returns Updated contact
+   */
+  async update(
+    id: number,
+    businessId: number,
+    data: Prisma.contactUncheckedUpdateInput,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      if (data.is_primary === true) {
+        await this.clearPrimary(tx, businessId, id);
+      }
+      return tx.contact.update({ where: { id }, data });
+    });
+  }
+
+  /**
+   * Delete a contact. Outreach messages keep their history with contact_id
+   * set to null.
+   */
+  async delete(id: number) {
+    return this.prisma.contact.delete({ where: { id } });
+  }
+
+  private async clearPrimary(
+    tx: Prisma.TransactionClient,
+    businessId: number,
+    exceptId?: number,
+  ) {
+    await tx.contact.updateMany({
+      where: {
+        business_id: businessId,
+        is_primary: true,
+        ...(exceptId !== undefined && { id: { not: exceptId } }),
+      },
+      data: { is_primary: false },
+    });
+  }
+}
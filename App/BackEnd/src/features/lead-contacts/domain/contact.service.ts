@@ -0,0 +1,206 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ContactRepository } from '../data/contact.repository';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+import { BusinessCacheService } from '../../business-management/domain/business-cache.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import { CreateContactDto, UpdateContactDto } from '../api/dto/contact.dto';
+import {
+  MANUAL_SOURCE,
+  readFieldSources,
+  withFieldSources,
+} from '../../lead-enrichment/domain/field-provenance.helper';
+
+/**
+ * People at a business: owners and staff found by enrichment or recorded by
+ * members after a meeting.
+ *
+ * Rules:
+ * - A contact needs at least a name, email or phone
+ * - At most one contact per business is primary; making another contact
+ *   primary clears the flag on the previous one
+ * - Changing the email resets email_verified unless it is sent as well
+ * - Fields a member sets are recorded as manual in field_sources, so
+ *   enrichment never overwrites them
+ *
+ * @example
+ * await contactService.create(12, { name: 'Maria Lopez', title: 'Owner', is_primary: true });
+ * // → Stores the contact, invalidates business caches, emits 'business:updated'
+ */
+@Injectable()
+export class ContactService {
+  private readonly logger = new Logger(ContactService.name);
+
+  constructor(
+    private repository: ContactRepository,
+    private businessRepository: BusinessRepository,
+    private cache: BusinessCacheService,
+    private eventsGateway: EventsGateway,
+  ) {}
+
+  /**
+   * List the contacts of a business, primary first.
+   *
+   * @throws {NotFoundException} If business doesn't exist
+   */
+  async findAll(businessId: number) {
+    await this.assertBusinessExists(businessId);
+    return this.repository.findByBusiness(businessId);
+  }
+
+  /**
+   * Add a contact to a business.
+   *
+   * @returns Created contact
+   * @throws {NotFoundException} If business doesn't exist
+   * @throws {BadRequestException} If name, email and phone are all empty
+   *
+   * @side-effects
+   * - Invalidates business caches
+   * - Emits 'business:updated' WebSocket event
+   */
+  async create(businessId: number, dto: CreateContactDto) {
+    await this.assertBusinessExists(businessId);
+    this.assertIdentifiable(dto);
+
+    try {
+      const contact = await this.repository.create({
+        ...dto,
+        business_id: businessId,
+        field_sources: withFieldSources(
+          {},
+          this.manualFields(dto),
+          MANUAL_SOURCE,
+        ),
+      });
+      await this.afterChange(businessId);
+
+      return contact;
+    } catch (error) {
+      this.logger.error(
+        `Error creating contact on business ${businessId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Update a contact, including marking it primary or verified.
+   *
+   * @returns Updated contact
+   * @throws {NotFoundException} If the contact doesn't exist on this business
+   * @throws {BadRequestException} If the update leaves no name, email or phone
+   *
+   * @side-effects
+   * - Invalidates business caches
+   * - Emits 'business:updated' WebSocket event
+   */
+  async update(businessId: number, contactId: number, dto: UpdateContactDto) {
+    const contact = await this.getContact(businessId, contactId);
+    this.assertIdentifiable({ ...contact, ...dto });
+
+    const data: Prisma.contactUncheckedUpdateInput = { ...dto };
+    const sources = readFieldSources(contact.field_sources);
+    if (
+      dto.email !== undefined &&
+      dto.email !== contact.email &&
+      dto.email_verified === undefined
+    ) {
+      // The new address hasn't been checked by anyone yet
+      data.email_verified = false;
+      delete sources.email_verified;
+    }
+
+    const fields = this.manualFields(dto);
+    if (fields.length > 0) {
+      data.field_sources = withFieldSources(sources, fields, MANUAL_SOURCE);
+    }
+
+    try {
+      const updated = await this.repository.update(contactId, businessId, data);
+      await this.afterChange(businessId);
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error updating contact ${contactId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a contact.
+   *
+   * @throws {NotFoundException} If the contact doesn't exist on this business
+   *
+   * @side-effects
+   * - Invalidates business caches
+   * - Emits 'business:updated' WebSocket event
+   */
+  async remove(businessId: number, contactId: number) {
+    await this.getContact(businessId, contactId);
+
+    try {
+      await this.repository.delete(contactId);
+      await this.afterChange(businessId);
+      this.logger.log(`Deleted contact ${contactId} on business ${businessId}`);
+
+      return { message: 'Contact deleted successfully' };
+    } catch (error) {
+      this.logger.error(`Error deleting contact ${contactId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Contacts are embedded in cached business details, and contact counts in
+   * lists and stats.
+   */
+  private async afterChange(businessId: number) {
+    await this.cache.invalidateAll(businessId);
+    const business = await this.businessRepository.findOne(businessId);
+    this.eventsGateway.emitBusinessUpdated(business);
+  }
+
+  /**
+   * Fields of a member's input that enrichment could also write.
+   */
+  private manualFields(dto: UpdateContactDto): string[] {
+    return Object.entries(dto)
+      .filter(([field, value]) => value !== undefined && field !== 'is_primary')
+      .map(([field]) => field);
+  }
+
+  private assertIdentifiable(fields: {
+    name?: string | null;
+    email?: string | null;
+    phone?: string | null;
+  }) {
+    if (![fields.name, fields.email, fields.phone].some((v) => v?.trim())) {
+      throw new BadRequestException(
+        'A contact needs at least a name, email or phone',
+      );
+    }
+  }
+
+  private async assertBusinessExists(businessId: number) {
+    if (!(await this.businessRepository.exists(businessId))) {
+      throw new NotFoundException(`Business with ID ${businessId} not found`);
+    }
+  }
+
+  private async getContact(businessId: number, contactId: number) {
+    await this.assertBusinessExists(businessId);
+
+    const contact = await this.repository.findOne(contactId);
+    if (!contact || contact.business_id !== businessId) {
+      throw new NotFoundException(`Contact with ID ${contactId} not found`);
+    }
+    return contact;
+  }
+}
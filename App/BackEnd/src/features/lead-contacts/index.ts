@@ -0,0 +1,6 @@
+// Barrel exports for lead-contacts feature
+export { LeadContactsModule } from './lead-contacts.module';
+export { ContactController } from './api/contact.controller';
+export { ContactService } from './domain/contact.service';
+export { ContactRepository } from './data/contact.repository';
+export { CreateContactDto, UpdateContactDto } from './api/dto/contact.dto';
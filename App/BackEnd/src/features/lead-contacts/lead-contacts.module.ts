@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ContactController } from './api/contact.controller';
+import { ContactService } from './domain/contact.service';
+import { ContactRepository } from './data/contact.repository';
+import { BusinessRepository } from '../business-management/data/business.repository';
+import { BusinessCacheService } from '../business-management/domain/business-cache.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { WebsocketModule } from '../../websocket/websocket.module';
+import { CachingModule } from '../../caching/caching.module';
+
+/**
+ * Lead Contacts feature module.
+ *
+ * Manual management of the people at each business, alongside the contacts
+ * that enrichment finds.
+ *
+ * Dependencies:
+ * - PrismaModule: Database access via repositories
+ * - WebsocketModule: 'business:updated' after a contact changes
+ * - CachingModule: Business cache invalidation when contacts change
+ */
+@Module({
+  imports: [PrismaModule, WebsocketModule, CachingModule],
+  controllers: [ContactController],
+  providers: [
+    ContactService,
+    ContactRepository,
+    BusinessRepository,
+    BusinessCacheService,
+  ],
+  exports: [ContactService],
+})
+export class LeadContactsModule {}
@@ -0,0 +1,136 @@
+/**
+ * Enrichment refresh helper tests
+ *
+ * Covers which refresh groups of a business are due, the matching database
+ * filter and the timestamps an enrichment stores.
+ */
+
+import {
+  dueForRefreshWhere,
+  dueRefreshGroups,
+  refreshTimestamps,
+  RefreshPolicy,
+} from '../domain/enrichment-refresh.helper';
+
+describe('enrichment-refresh.helper', () => {
+  const now = new Date('2026-10-19T04:00:00Z');
+  const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const policy: RefreshPolicy = {
+    maxAgeDays: { emails: 90, company: 365 },
+    retryFailedDays: 7,
+  };
+
+  const business = (overrides: Record<string, unknown> = {}) => ({
+    enrichment_status: 'enriched',
+    emails_enriched_at: daysAgo(10),
+    company_enriched_at: daysAgo(10),
+    ...overrides,
+  });
+
+  describe('dueRefreshGroups()', () => {
+    it('should refresh each group of an enriched business past its age', () => {
+      expect(dueRefreshGroups(business(), policy, now)).toEqual([]);
+      expect(
+        dueRefreshGroups(
+          business({ emails_enriched_at: daysAgo(91) }),
+          policy,
+          now,
+        ),
+      ).toEqual(['emails']);
+      expect(
+        dueRefreshGroups(
+          business({
+            emails_enriched_at: daysAgo(400),
+            company_enriched_at: daysAgo(400),
+          }),
+          policy,
+          now,
+        ),
+      ).toEqual(['emails', 'company']);
+    });
+
+    it('should refresh groups that never ran', () => {
+      expect(
+        dueRefreshGroups(business({ company_enriched_at: null }), policy, now),
+      ).toEqual(['company']);
+    });
+
+    it('should retry a failed business in full after the cooldown', () => {
+      const failed = { enrichment_status: 'failed' };
+
+      expect(
+        dueRefreshGroups(
+          business({ ...failed, emails_enriched_at: daysAgo(3) }),
+          policy,
+          now,
+        ),
+      ).toEqual([]);
+      expect(
+        dueRefreshGroups(
+          business({
+            ...failed,
+            emails_enriched_at: daysAgo(8),
+            company_enriched_at: daysAgo(8),
+          }),
+          policy,
+          now,
+        ),
+      ).toEqual(['emails', 'company']);
+    });
+
+    it('should leave pending businesses to batch enrichment', () => {
+      expect(
+        dueRefreshGroups(
+          business({
+            enrichment_status: 'pending',
+            emails_enriched_at: null,
+            company_enriched_at: null,
+          }),
+          policy,
+          now,
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe('dueForRefreshWhere()', () => {
+    it('should match failed businesses past the cooldown and stale enriched ones', () => {
+      const olderThan = (column: string, days: number) => ({
+        OR: [{ [column]: null }, { [column]: { lt: daysAgo(days) } }],
+      });
+
+      expect(dueForRefreshWhere(policy, now)).toEqual({
+        OR: [
+          {
+            enrichment_status: 'failed',
+            AND: [
+              olderThan('emails_enriched_at', 7),
+              olderThan('company_enriched_at', 7),
+            ],
+          },
+          {
+            enrichment_status: 'enriched',
+            OR: [
+              olderThan('emails_enriched_at', 90),
+              olderThan('company_enriched_at', 365),
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  describe('refreshTimestamps()', () => {
+    it('should stamp every group with a field among those run', () => {
+      expect(refreshTimestamps(['email_verifier'], now)).toEqual({
+        emails_enriched_at: now,
+      });
+      expect(
+        refreshTimestamps(['email_finder', 'social_profiles'], now),
+      ).toEqual({ emails_enriched_at: now, company_enriched_at: now });
+      expect(refreshTimestamps([], now)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,408 @@
+/**
+ * EnrichmentRefreshService Unit Tests
+ *
+ * Runs the real provider registry over stand-in providers, with
+ * EnrichmentService, the rate limiter and the database mocked.
+ *
+ * Test Categories:
+ * - Selection: due businesses, stale groups only, progress
+ * - Rotation: businesses looked at go to the back of the line
+ * - Cost caps: per-provider spend of every call, groups held back, capped
+ *   providers, early stop
+ * - Quota: groups of providers at the reserve held back
+ * - Report: field changes, errors of one business
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger, NotFoundException } from '@nestjs/common';
+import { EnrichmentRefreshService } from '../domain/enrichment-refresh.service';
+import {
+  EnrichmentResult,
+  EnrichmentService,
+} from '../domain/enrichment.service';
+import { RateLimiterService } from '../domain/rate-limiter.service';
+import { EnrichmentProviderRegistry } from '../domain/providers/enrichment-provider.registry';
+import {
+  EnrichmentCapability,
+  EnrichmentProvider,
+  EnrichmentProviderResult,
+} from '../domain/providers/enrichment-provider';
+import { ConfigService } from '../../../config/config.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+class FakeProvider extends EnrichmentProvider {
+  readonly rateLimitKey: string;
+  isConfigured = jest.fn().mockReturnValue(true);
+  enrich = jest.fn<Promise<EnrichmentProviderResult>, []>();
+
+  constructor(
+    readonly name: string,
+    readonly capabilities: EnrichmentCapability[],
+    readonly costPerCall: number,
+  ) {
+    super();
+    this.rateLimitKey = name;
+  }
+}
+
+describe('EnrichmentRefreshService', () => {
+  let service: EnrichmentRefreshService;
+  let prisma: { business: { findMany: jest.Mock; updateMany: jest.Mock } };
+  let enrichmentService: { enrichBusiness: jest.Mock };
+  let rateLimiter: { getStatus: jest.Mock };
+  let costCaps: Record<string, number>;
+  let batchSize: number;
+
+  const now = Date.now();
+  const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000);
+
+  const business = (id: number, overrides: Record<string, unknown> = {}) => ({
+    id,
+    name: `Business ${id}`,
+    enrichment_status: 'enriched',
+    emails_enriched_at: daysAgo(100),
+    company_enriched_at: daysAgo(30),
+    ...overrides,
+  });
+
+  /** Result of an enrichment that called the given providers, successfully. */
+  const enriched = (
+    providers: string[],
+    overrides: Partial<EnrichmentResult> = {},
+  ): EnrichmentResult => ({
+    businessId: 1,
+    businessName: 'Business 1',
+    providers: Object.fromEntries(providers.map((name) => [name, {}])),
+    called: providers,
+    contactsFound: 0,
+    changes: [],
+    errors: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    prisma = {
+      business: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+    enrichmentService = {
+      enrichBusiness: jest.fn().mockResolvedValue(enriched(['finder'])),
+    };
+    rateLimiter = {
+      getStatus: jest.fn().mockResolvedValue({ nearLimit: false }),
+    };
+    costCaps = {};
+    batchSize = 25;
+
+    const registry = new EnrichmentProviderRegistry([
+      new FakeProvider('company', ['firmographics'], 0.01),
+      new FakeProvider('finder', ['email_finder', 'email_verifier'], 0.05),
+      new FakeProvider(
+        'website',
+        ['email_finder', 'phone_lookup', 'social_profiles'],
+        0,
+      ),
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EnrichmentRefreshService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: EnrichmentService, useValue: enrichmentService },
+        { provide: EnrichmentProviderRegistry, useValue: registry },
+        { provide: RateLimiterService, useValue: rateLimiter },
+        {
+          provide: ConfigService,
+          useValue: {
+            getEnrichmentRefreshDays: (group: string) =>
+              group === 'emails' ? 90 : 365,
+            getEnrichmentRetryFailedDays: () => 7,
+            getEnrichmentRefreshBatchSize: () => batchSize,
+            getEnrichmentRefreshCostCaps: () => costCaps,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(EnrichmentRefreshService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Selection', () => {
+    it('should query live businesses with a website, least recently looked at first', async () => {
+      await service.refreshStale();
+
+      expect(prisma.business.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            deleted_at: null,
+            website: { not: null },
+            OR: expect.any(Array),
+          }),
+          orderBy: [
+            { refresh_attempted_at: { sort: 'asc', nulls: 'first' } },
+            { emails_enriched_at: { sort: 'asc', nulls: 'first' } },
+            { id: 'asc' },
+          ],
+          take: 25,
+        }),
+      );
+    });
+
+    it('should only run the fields of stale groups, as queued work', async () => {
+      prisma.business.findMany.mockResolvedValue([business(1)]);
+
+      const report = await service.refreshStale();
+
+      expect(enrichmentService.enrichBusiness).toHaveBeenCalledWith(1, {
+        capabilities: ['email_finder', 'email_verifier'],
+        background: true,
+      });
+      expect(report).toMatchObject({ due: 1, refreshed: 1, skipped: 0 });
+      expect(report.businesses[0].groups).toEqual(['emails']);
+    });
+
+    it('should retry failed businesses in full', async () => {
+      prisma.business.findMany.mockResolvedValue([
+        business(1, {
+          enrichment_status: 'failed',
+          emails_enriched_at: daysAgo(8),
+          company_enriched_at: daysAgo(8),
+        }),
+      ]);
+
+      await service.refreshStale();
+
+      expect(enrichmentService.enrichBusiness).toHaveBeenCalledWith(1, {
+        capabilities: [
+          'email_finder',
+          'email_verifier',
+          'firmographics',
+          'phone_lookup',
+          'social_profiles',
+        ],
+        background: true,
+      });
+    });
+
+    it('should report progress after each business', async () => {
+      prisma.business.findMany.mockResolvedValue([business(1), business(2)]);
+      const onProgress = jest.fn().mockResolvedValue(undefined);
+
+      await service.refreshStale(onProgress);
+
+      expect(onProgress.mock.calls).toEqual([
+        [1, 2],
+        [2, 2],
+      ]);
+    });
+  });
+
+  describe('Rotation', () => {
+    it('should stamp every business it looked at, skipped ones included', async () => {
+      costCaps = { finder: 0.05 };
+      prisma.business.findMany.mockResolvedValue([business(1), business(2)]);
+
+      const report = await service.refreshStale();
+
+      expect(report).toMatchObject({ refreshed: 1, skipped: 1 });
+      expect(prisma.business.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2] } },
+        data: { refresh_attempted_at: expect.any(Date) },
+      });
+    });
+
+    it('should move on to other businesses when a batch is held back', async () => {
+      // Three businesses due, two per batch and one email refresh per run
+      batchSize = 2;
+      costCaps = { finder: 0.05 };
+      const rows = [1, 2, 3].map((id) => ({
+        ...business(id),
+        refresh_attempted_at: null as Date | null,
+      }));
+      const lastLookedAt = (row: (typeof rows)[number]) =>
+        row.refresh_attempted_at?.getTime() ?? -1;
+      prisma.business.findMany.mockImplementation(
+        ({ take }: { take: number }) =>
+          Promise.resolve(
+            [...rows]
+              .sort((a, b) => lastLookedAt(a) - lastLookedAt(b) || a.id - b.id)
+              .slice(0, take),
+          ),
+      );
+      type Stamp = { where: { id: { in: number[] } }; data: object };
+      prisma.business.updateMany.mockImplementation(
+        ({ where, data }: Stamp) => {
+          rows
+            .filter((row) => where.id.in.includes(row.id))
+            .forEach((row) => Object.assign(row, data));
+          return Promise.resolve({ count: where.id.in.length });
+        },
+      );
+
+      const first = await service.refreshStale();
+      const second = await service.refreshStale();
+
+      expect(first.businesses.map((b) => b.businessId)).toEqual([1]);
+      expect(first.skipped).toBe(1);
+      // Business 3 was never looked at, so it leads the next batch
+      expect(second.businesses.map((b) => b.businessId)).toEqual([3]);
+    });
+  });
+
+  describe('Cost caps', () => {
+    it('should hold a group back once a provider of it reaches its cap', async () => {
+      costCaps = { finder: 0.1 };
+      prisma.business.findMany.mockResolvedValue([
+        business(1),
+        business(2),
+        business(3),
+      ]);
+
+      const report = await service.refreshStale();
+
+      expect(enrichmentService.enrichBusiness).toHaveBeenCalledTimes(2);
+      expect(report).toMatchObject({
+        due: 3,
+        refreshed: 2,
+        skipped: 1,
+        spend: { finder: 0.1 },
+        capped: ['finder'],
+      });
+    });
+
+    it('should count failed calls against the cap', async () => {
+      costCaps = { finder: 0.1 };
+      prisma.business.findMany.mockResolvedValue([
+        business(1),
+        business(2),
+        business(3),
+      ]);
+      enrichmentService.enrichBusiness.mockResolvedValue(
+        enriched([], {
+          called: ['finder'],
+          errors: [{ service: 'finder', error: 'Hunter.io API failed: 500' }],
+        }),
+      );
+
+      const report = await service.refreshStale();
+
+      expect(enrichmentService.enrichBusiness).toHaveBeenCalledTimes(2);
+      expect(report).toMatchObject({
+        skipped: 1,
+        spend: { finder: 0.1 },
+        capped: ['finder'],
+      });
+    });
+
+    it('should still refresh groups whose providers are under their caps', async () => {
+      costCaps = { finder: 0 };
+      prisma.business.findMany.mockResolvedValue([
+        business(1, { company_enriched_at: daysAgo(400) }),
+      ]);
+      enrichmentService.enrichBusiness.mockResolvedValue(
+        enriched(['company', 'website']),
+      );
+
+      const report = await service.refreshStale();
+
+      expect(enrichmentService.enrichBusiness).toHaveBeenCalledWith(1, {
+        capabilities: ['firmographics', 'phone_lookup', 'social_profiles'],
+        background: true,
+      });
+      expect(report.spend).toEqual({ company: 0.01, website: 0 });
+      expect(report.capped).toEqual(['finder']);
+    });
+
+    it('should stop once every group is held back by a cap', async () => {
+      costCaps = { finder: 0.05, company: 0.01 };
+      prisma.business.findMany.mockResolvedValue(
+        [1, 2, 3].map((id) =>
+          business(id, { company_enriched_at: daysAgo(400) }),
+        ),
+      );
+      enrichmentService.enrichBusiness.mockResolvedValue(
+        enriched(['finder', 'company']),
+      );
+
+      const report = await service.refreshStale();
+
+      expect(enrichmentService.enrichBusiness).toHaveBeenCalledTimes(1);
+      expect(report).toMatchObject({ due: 3, refreshed: 1, skipped: 2 });
+      // Businesses not looked at stay at the front of the line
+      expect(prisma.business.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1] } },
+        data: { refresh_attempted_at: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('Quota', () => {
+    it('should hold back groups of providers at the quota reserve', async () => {
+      rateLimiter.getStatus.mockImplementation((service: string) =>
+        Promise.resolve({ nearLimit: service === 'finder' }),
+      );
+      prisma.business.findMany.mockResolvedValue([business(1)]);
+
+      const report = await service.refreshStale();
+
+      expect(enrichmentService.enrichBusiness).not.toHaveBeenCalled();
+      expect(report).toMatchObject({ refreshed: 0, skipped: 1 });
+    });
+  });
+
+  describe('Report', () => {
+    it('should list the fields each refresh changed', async () => {
+      const change = {
+        field: 'email_verified',
+        contact: 'owner@example.com',
+        old_value: 'true',
+        new_value: 'false',
+        source: 'finder',
+      };
+      prisma.business.findMany.mockResolvedValue([business(1)]);
+      enrichmentService.enrichBusiness.mockResolvedValue(
+        enriched(['finder'], { changes: [change] }),
+      );
+
+      const report = await service.refreshStale();
+
+      expect(report.businesses).toEqual([
+        {
+          businessId: 1,
+          businessName: 'Business 1',
+          groups: ['emails'],
+          changes: [change],
+          errors: [],
+        },
+      ]);
+    });
+
+    it('should record a business that fails and go on with the rest', async () => {
+      prisma.business.findMany.mockResolvedValue([business(1), business(2)]);
+      enrichmentService.enrichBusiness
+        .mockRejectedValueOnce(
+          new NotFoundException('Business with ID 1 not found'),
+        )
+        .mockResolvedValueOnce(enriched(['finder']));
+
+      const report = await service.refreshStale();
+
+      expect(report.refreshed).toBe(1);
+      expect(report.businesses[0]).toMatchObject({
+        businessId: 1,
+        changes: [],
+        errors: [{ service: 'refresh', error: 'Business with ID 1 not found' }],
+      });
+      expect(report.spend).toEqual({ finder: 0.05 });
+    });
+  });
+});
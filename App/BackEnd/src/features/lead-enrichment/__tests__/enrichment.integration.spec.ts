@@ -2,28 +2,63 @@
  * Lead Enrichment Integration Tests
  *
  * Tests the EnrichmentService with mocked external API clients
- * (Hunter.io, AbstractAPI) and mocked database layer.
+ * (Hunter.io, AbstractAPI) behind the real providers and registry, and
+ * mocked database layer.
  *
- * Only PrismaService and external HTTP calls are mocked.
- * RateLimiterService uses a real instance to test actual rate limiting behavior.
+ * Only PrismaService, the quota repository and external HTTP calls are
+ * mocked. RateLimiterService uses a real instance over an in-memory quota
+ * store to test actual rate limiting behavior.
  *
  * Test Scenarios:
  * - Enrich business with mocked Hunter/Abstract APIs
  * - Batch enrich multiple businesses
  * - Handle API errors gracefully
  * - Rate limiting prevents over-quota calls
+ * - Provider waterfall and per-job source selection
+ * - Quota shared across instances, provider-reported credits and reserve
+ * - Business email and social profiles found on websites
+ * - Field provenance: sources, confidence and manual edits
+ * - Refresh: fields run, refresh timestamps and changed fields
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
-import { Logger, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { EnrichmentService } from '../domain/enrichment.service';
 import { HunterApiClientService } from '../domain/hunter-api-client.service';
 import { AbstractApiClientService } from '../domain/abstract-api-client.service';
 import { RateLimiterService } from '../domain/rate-limiter.service';
+import { AbstractApiProvider } from '../domain/providers/abstract-api.provider';
+import { HunterProvider } from '../domain/providers/hunter.provider';
+import {
+  EnrichmentProviderRegistry,
+  EnrichmentRegistryOptions,
+} from '../domain/providers/enrichment-provider.registry';
+import {
+  EnrichmentCapability,
+  EnrichmentProvider,
+  EnrichmentProviderResult,
+} from '../domain/providers/enrichment-provider';
 import { EnrichmentLogRepository } from '../data/repositories/enrichment-log.repository';
+import { ApiQuotaRepository } from '../data/repositories/api-quota.repository';
+import { ConfigService } from '../../../config/config.service';
 import { PrismaService } from '../../../prisma/prisma.service';
 
+/** Stand-in for a provider added alongside AbstractAPI and Hunter.io. */
+class FakeProvider extends EnrichmentProvider {
+  readonly rateLimitKey = 'fake';
+  readonly costPerCall = 0.01;
+  isConfigured = jest.fn().mockReturnValue(true);
+  enrich = jest.fn<Promise<EnrichmentProviderResult>, []>();
+
+  constructor(
+    readonly name: string,
+    readonly capabilities: EnrichmentCapability[],
+  ) {
+    super();
+  }
+}
+
 describe('Lead Enrichment Integration Tests', () => {
   let module: TestingModule;
   let enrichmentService: EnrichmentService;
@@ -39,6 +74,8 @@ describe('Lead Enrichment Integration Tests', () => {
   let contactStore: Map<number, any[]>;
   let enrichmentLogStore: any[];
   let apiCostLogStore: any[];
+  let quotaStore: Map<string, any>;
+  let quotaRepository: ApiQuotaRepository;
 
   const createMockBusiness = (overrides: Partial<any> = {}): any => ({
     id: overrides.id || 1,
@@ -98,6 +135,7 @@ describe('Lead Enrichment Integration Tests', () => {
     contactStore = new Map();
     enrichmentLogStore = [];
     apiCostLogStore = [];
+    quotaStore = new Map();
 
     // Mock PrismaService with in-memory stores
     const mockPrisma = {
@@ -141,6 +179,7 @@ describe('Lead Enrichment Integration Tests', () => {
           contactStore.set(data.business_id, contacts);
           return Promise.resolve(data);
         }),
+        update: jest.fn().mockResolvedValue({}),
       },
       api_cost_log: {
         create: jest.fn().mockImplementation(({ data }) => {
@@ -162,6 +201,7 @@ describe('Lead Enrichment Integration Tests', () => {
 
     const mockHunterClient = {
       searchDomain: jest.fn(),
+      getRemainingSearches: jest.fn(),
       isConfigured: jest.fn().mockReturnValue(true),
     };
 
@@ -170,30 +210,88 @@ describe('Lead Enrichment Integration Tests', () => {
       isConfigured: jest.fn().mockReturnValue(true),
     };
 
+    // Usage rows keyed by service and period, as in api_quota_usage
+    const mockQuotaRepository = {
+      find: jest
+        .fn()
+        .mockImplementation((service, period) =>
+          Promise.resolve(quotaStore.get(`${service}:${period}`) ?? null),
+        ),
+      increment: jest.fn().mockImplementation((service, period) => {
+        const key = `${service}:${period}`;
+        const usage = quotaStore.get(key) ?? { service, period, calls: 0 };
+        usage.calls++;
+        quotaStore.set(key, usage);
+        return Promise.resolve(usage);
+      }),
+      setReported: jest
+        .fn()
+        .mockImplementation((service, period, remaining) => {
+          const key = `${service}:${period}`;
+          const usage = quotaStore.get(key) ?? { service, period, calls: 0 };
+          Object.assign(usage, {
+            reported_remaining: remaining,
+            calls_at_report: usage.calls,
+            reported_at: new Date(),
+          });
+          quotaStore.set(key, usage);
+          return Promise.resolve(usage);
+        }),
+    };
+
     const mockEventEmitter = {
       emit: jest.fn(),
     };
 
+    prismaService = mockPrisma;
+    enrichmentLogRepo = mockEnrichmentLogRepo as any;
+    hunterClient = mockHunterClient as any;
+    abstractClient = mockAbstractClient as any;
+    eventEmitter = mockEventEmitter as any;
+    quotaRepository = mockQuotaRepository as any;
+
+    await buildModule({});
+  });
+
+  /**
+   * Compile the service with the real providers, the mocks above and a
+   * registry built with the given waterfall options.
+   */
+  const buildModule = async (
+    options: EnrichmentRegistryOptions,
+    extraProviders: EnrichmentProvider[] = [],
+  ) => {
     module = await Test.createTestingModule({
       providers: [
         EnrichmentService,
+        AbstractApiProvider,
+        HunterProvider,
+        {
+          provide: EnrichmentProviderRegistry,
+          useFactory: (abstract: AbstractApiProvider, hunter: HunterProvider) =>
+            new EnrichmentProviderRegistry(
+              [abstract, hunter, ...extraProviders],
+              options,
+            ),
+          inject: [AbstractApiProvider, HunterProvider],
+        },
         RateLimiterService, // Use real rate limiter
-        { provide: PrismaService, useValue: mockPrisma },
-        { provide: HunterApiClientService, useValue: mockHunterClient },
-        { provide: AbstractApiClientService, useValue: mockAbstractClient },
-        { provide: EnrichmentLogRepository, useValue: mockEnrichmentLogRepo },
-        { provide: EventEmitter2, useValue: mockEventEmitter },
+        { provide: PrismaService, useValue: prismaService },
+        { provide: HunterApiClientService, useValue: hunterClient },
+        { provide: AbstractApiClientService, useValue: abstractClient },
+        { provide: EnrichmentLogRepository, useValue: enrichmentLogRepo },
+        { provide: EventEmitter2, useValue: eventEmitter },
+        { provide: ApiQuotaRepository, useValue: quotaRepository },
+        {
+          provide: ConfigService,
+          useValue: { getEnrichmentQuotaReservePercent: () => 10 },
+        },
       ],
     }).compile();
 
     enrichmentService = module.get<EnrichmentService>(EnrichmentService);
-    hunterClient = module.get(HunterApiClientService);
-    abstractClient = module.get(AbstractApiClientService);
     rateLimiter = module.get<RateLimiterService>(RateLimiterService);
-    enrichmentLogRepo = module.get(EnrichmentLogRepository);
-    prismaService = module.get(PrismaService);
-    eventEmitter = module.get(EventEmitter2);
-  });
+  };
 
   afterEach(async () => {
     await module.close();
@@ -218,8 +316,8 @@ describe('Lead Enrichment Integration Tests', () => {
 
       const result = await enrichmentService.enrichBusiness(1);
 
-      expect(result.abstract).toEqual(mockAbstractResponse);
-      expect(result.hunter).toEqual(mockHunterResponse);
+      expect(result.providers.abstract).toEqual(mockAbstractResponse);
+      expect(result.providers.hunter).toEqual(mockHunterResponse);
       expect(result.errors).toHaveLength(0);
       expect(result.businessId).toBe(1);
       expect(result.businessName).toBe('Test Business');
@@ -318,8 +416,7 @@ describe('Lead Enrichment Integration Tests', () => {
           data: expect.objectContaining({
             id: 1,
             enrichment_status: 'enriched',
-            abstract: true,
-            hunter: true,
+            providers: ['abstract', 'hunter'],
           }),
         }),
       );
@@ -364,8 +461,8 @@ describe('Lead Enrichment Integration Tests', () => {
       const result = await enrichmentService.enrichBusiness(2);
 
       expect(result.errors).toHaveLength(2);
-      expect(result.abstract).toBeNull();
-      expect(result.hunter).toBeNull();
+      expect(result.providers.abstract).toBeUndefined();
+      expect(result.providers.hunter).toBeUndefined();
 
       const updated = businessStore.get(2);
       expect(updated.enrichment_status).toBe('failed');
@@ -588,8 +685,9 @@ describe('Lead Enrichment Integration Tests', () => {
 
       const result = await enrichmentService.enrichBusiness(1);
 
-      expect(result.abstract).toBeNull();
-      expect(result.hunter).toEqual(mockHunterResponse);
+      expect(result.providers.abstract).toBeUndefined();
+      expect(result.providers.hunter).toEqual(mockHunterResponse);
+      expect(result.called).toEqual(['abstract', 'hunter']);
       expect(result.errors).toHaveLength(1);
       expect(result.errors[0].service).toBe('abstract');
 
@@ -615,8 +713,8 @@ describe('Lead Enrichment Integration Tests', () => {
 
       const result = await enrichmentService.enrichBusiness(1);
 
-      expect(result.abstract).toEqual(mockAbstractResponse);
-      expect(result.hunter).toBeNull();
+      expect(result.providers.abstract).toEqual(mockAbstractResponse);
+      expect(result.providers.hunter).toBeUndefined();
       expect(result.errors).toHaveLength(1);
       expect(result.errors[0].service).toBe('hunter');
 
@@ -644,8 +742,8 @@ describe('Lead Enrichment Integration Tests', () => {
 
       const result = await enrichmentService.enrichBusiness(1);
 
-      expect(result.abstract).toBeNull();
-      expect(result.hunter).toBeNull();
+      expect(result.providers.abstract).toBeUndefined();
+      expect(result.providers.hunter).toBeUndefined();
       expect(result.errors).toHaveLength(2);
 
       const updated = businessStore.get(1);
@@ -704,6 +802,7 @@ describe('Lead Enrichment Integration Tests', () => {
       expect(result.errors).toHaveLength(2);
       expect(result.errors[0].error).toBe('API not configured');
       expect(result.errors[1].error).toBe('API not configured');
+      expect(result.called).toEqual([]);
     });
   });
 
@@ -718,8 +817,8 @@ describe('Lead Enrichment Integration Tests', () => {
      * Category: Integration
      */
     it('should allow API calls within rate limit', async () => {
-      expect(rateLimiter.canMakeCall('hunter.io')).toBe(true);
-      expect(rateLimiter.canMakeCall('abstractapi')).toBe(true);
+      await expect(rateLimiter.canMakeCall('hunter.io')).resolves.toBe(true);
+      await expect(rateLimiter.canMakeCall('abstractapi')).resolves.toBe(true);
     });
 
     /**
@@ -729,12 +828,12 @@ describe('Lead Enrichment Integration Tests', () => {
      * Category: Integration
      */
     it('should track API calls and decrease remaining count', async () => {
-      const initialRemaining = rateLimiter.getRemainingCalls('hunter.io');
+      const initialRemaining = await rateLimiter.getRemainingCalls('hunter.io');
 
-      rateLimiter.recordCall('hunter.io');
-      rateLimiter.recordCall('hunter.io');
+      await rateLimiter.recordCall('hunter.io');
+      await rateLimiter.recordCall('hunter.io');
 
-      const afterRemaining = rateLimiter.getRemainingCalls('hunter.io');
+      const afterRemaining = await rateLimiter.getRemainingCalls('hunter.io');
       expect(afterRemaining).toBe(initialRemaining - 2);
     });
 
@@ -747,11 +846,11 @@ describe('Lead Enrichment Integration Tests', () => {
     it('should block API calls when rate limit is exceeded', async () => {
       // Exhaust the hunter rate limit (500 calls)
       for (let i = 0; i < 500; i++) {
-        rateLimiter.recordCall('hunter.io');
+        await rateLimiter.recordCall('hunter.io');
       }
 
-      expect(rateLimiter.canMakeCall('hunter.io')).toBe(false);
-      expect(rateLimiter.getRemainingCalls('hunter.io')).toBe(0);
+      await expect(rateLimiter.canMakeCall('hunter.io')).resolves.toBe(false);
+      await expect(rateLimiter.getRemainingCalls('hunter.io')).resolves.toBe(0);
     });
 
     /**
@@ -766,7 +865,7 @@ describe('Lead Enrichment Integration Tests', () => {
 
       // Exhaust hunter rate limit
       for (let i = 0; i < 500; i++) {
-        rateLimiter.recordCall('hunter.io');
+        await rateLimiter.recordCall('hunter.io');
       }
 
       abstractClient.enrichCompany.mockResolvedValue(mockAbstractResponse);
@@ -779,7 +878,7 @@ describe('Lead Enrichment Integration Tests', () => {
       expect(hunterError!.error).toBe('Rate limit exceeded');
 
       // Abstract should still work
-      expect(result.abstract).toEqual(mockAbstractResponse);
+      expect(result.providers.abstract).toEqual(mockAbstractResponse);
     });
 
     /**
@@ -789,8 +888,163 @@ describe('Lead Enrichment Integration Tests', () => {
      * Category: Edge Case
      */
     it('should allow unlimited calls for unconfigured services', async () => {
-      expect(rateLimiter.canMakeCall('unknown-service')).toBe(true);
-      expect(rateLimiter.getRemainingCalls('unknown-service')).toBe(Infinity);
+      await expect(rateLimiter.canMakeCall('unknown-service')).resolves.toBe(
+        true,
+      );
+      await expect(
+        rateLimiter.getRemainingCalls('unknown-service'),
+      ).resolves.toBe(Infinity);
+    });
+
+    /**
+     * TC-ENR-INT-036: Quota survives restarts and is shared by instances
+     *
+     * Priority: Critical
+     * Category: Integration
+     */
+    it('should share counted calls with another instance', async () => {
+      await rateLimiter.recordCall('hunter.io');
+      await rateLimiter.recordCall('hunter.io');
+
+      const otherInstance = new RateLimiterService(quotaRepository, {
+        getEnrichmentQuotaReservePercent: () => 10,
+      } as any);
+
+      await expect(otherInstance.getRemainingCalls('hunter.io')).resolves.toBe(
+        498,
+      );
+    });
+
+    /**
+     * TC-ENR-INT-037: Provider-reported credits take precedence
+     *
+     * Priority: High
+     * Category: Integration
+     */
+    it('should count down from the credits the provider reported', async () => {
+      await rateLimiter.recordCall('hunter.io');
+      await rateLimiter.recordReportedRemaining('hunter.io', 100);
+      await rateLimiter.recordCall('hunter.io');
+      await rateLimiter.recordCall('hunter.io');
+
+      const status = await rateLimiter.getStatus('hunter.io');
+
+      expect(status.used).toBe(3);
+      expect(status.reportedRemaining).toBe(100);
+      expect(status.remaining).toBe(98);
+    });
+
+    /**
+     * TC-ENR-INT-038: Queued work stops at the reserve
+     *
+     * Priority: Critical
+     * Category: Integration
+     */
+    it('should keep the reserve for manual enrichment', async () => {
+      // 10% of 500 searches are reserved
+      await rateLimiter.recordReportedRemaining('hunter.io', 50);
+
+      await expect(
+        rateLimiter.canMakeCall('hunter.io', { background: true }),
+      ).resolves.toBe(false);
+      await expect(rateLimiter.canMakeCall('hunter.io')).resolves.toBe(true);
+      await expect(rateLimiter.getStatus('hunter.io')).resolves.toEqual(
+        expect.objectContaining({ nearLimit: true }),
+      );
+    });
+
+    /**
+     * TC-ENR-INT-039: Queued enrichment skips providers at the reserve
+     *
+     * Priority: High
+     * Category: Integration
+     */
+    it('should skip providers at the reserve for queued enrichment', async () => {
+      businessStore.set(1, createMockBusiness({ id: 1 }));
+      abstractClient.enrichCompany.mockResolvedValue(mockAbstractResponse);
+      await rateLimiter.recordReportedRemaining('hunter.io', 50);
+
+      const result = await enrichmentService.enrichBusiness(1, {
+        background: true,
+      });
+
+      expect(hunterClient.searchDomain).not.toHaveBeenCalled();
+      expect(result.errors).toEqual([
+        { service: 'hunter', error: 'Rate limit exceeded' },
+      ]);
+      expect(result.providers.abstract).toEqual(mockAbstractResponse);
+    });
+
+    /**
+     * TC-ENR-INT-040: Queued jobs wait once every provider is at the reserve
+     *
+     * Priority: Critical
+     * Category: Integration
+     */
+    it('should defer queued jobs only when every provider is at the reserve', async () => {
+      await rateLimiter.recordReportedRemaining('hunter.io', 10);
+
+      await expect(enrichmentService.getQuotaDeferral()).resolves.toBeNull();
+
+      const deferUntil = await enrichmentService.getQuotaDeferral(['hunter']);
+      expect(deferUntil).toEqual(
+        (await rateLimiter.getStatus('hunter.io')).resetsAt,
+      );
+      expect(deferUntil!.getUTCDate()).toBe(1);
+
+      await rateLimiter.recordReportedRemaining('abstractapi', 0);
+      await expect(enrichmentService.getQuotaDeferral()).resolves.toEqual(
+        deferUntil,
+      );
+    });
+
+    /**
+     * TC-ENR-INT-041: Provider quotas refresh reported credits
+     *
+     * Priority: High
+     * Category: Integration
+     */
+    it('should report each provider quota with refreshed credits', async () => {
+      hunterClient.getRemainingSearches.mockResolvedValue(120);
+      await rateLimiter.recordCall('abstractapi');
+
+      const quotas = await enrichmentService.getProviderQuotas();
+
+      expect(quotas).toEqual([
+        expect.objectContaining({
+          provider: 'abstract',
+          service: 'abstractapi',
+          limit: 3000,
+          used: 1,
+          remaining: 2999,
+          reportedRemaining: null,
+        }),
+        expect.objectContaining({
+          provider: 'hunter',
+          service: 'hunter.io',
+          remaining: 120,
+          reportedRemaining: 120,
+          nearLimit: false,
+        }),
+      ]);
+    });
+
+    /**
+     * TC-ENR-INT-042: Failed credit lookup falls back to the local count
+     *
+     * Priority: Medium
+     * Category: Error Handling
+     */
+    it('should fall back to the local count when credits cannot be read', async () => {
+      hunterClient.getRemainingSearches.mockRejectedValue(
+        new Error('Hunter.io API failed: 401'),
+      );
+
+      const quotas = await enrichmentService.getProviderQuotas();
+
+      expect(quotas[1]).toEqual(
+        expect.objectContaining({ provider: 'hunter', remaining: 500 }),
+      );
     });
   });
 
@@ -821,4 +1075,574 @@ describe('Lead Enrichment Integration Tests', () => {
       expect(hunterClient.searchDomain).toHaveBeenCalledWith('example.com', 5);
     });
   });
+
+  // ============================================================
+  // Provider Waterfall and Source Selection
+  // ============================================================
+  describe('Provider waterfall and source selection', () => {
+    const fakeFirmographics: EnrichmentProviderResult = {
+      response: { industry: 'Plumbing' },
+      summary: { industry: 'Plumbing' },
+      firmographics: { industry: 'Plumbing', employee_count: 12 },
+    };
+
+    beforeEach(() => {
+      businessStore.set(1, createMockBusiness({ id: 1 }));
+      abstractClient.enrichCompany.mockResolvedValue(mockAbstractResponse);
+      hunterClient.searchDomain.mockResolvedValue(mockHunterResponse as any);
+    });
+
+    /**
+     * TC-ENR-INT-026: Job sources limit the providers called
+     *
+     * Priority: Critical
+     * Category: Functional
+     */
+    it('should only call the providers a job selected', async () => {
+      const result = await enrichmentService.enrichBusiness(1, {
+        sources: ['hunter'],
+      });
+
+      expect(abstractClient.enrichCompany).not.toHaveBeenCalled();
+      expect(Object.keys(result.providers)).toEqual(['hunter']);
+      expect(result.errors).toHaveLength(0);
+      expect(result.contactsFound).toBe(2);
+    });
+
+    /**
+     * TC-ENR-INT-027: 'all' source calls every provider
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should call every provider for the all source', async () => {
+      const result = await enrichmentService.enrichBusiness(1, {
+        sources: ['all'],
+      });
+
+      expect(Object.keys(result.providers)).toEqual(['abstract', 'hunter']);
+    });
+
+    /**
+     * TC-ENR-INT-028: Unknown source rejected before any call
+     *
+     * Priority: High
+     * Category: Negative
+     */
+    it('should reject unknown sources without calling providers', async () => {
+      await expect(
+        enrichmentService.enrichBusiness(1, { sources: ['clearbit'] }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(abstractClient.enrichCompany).not.toHaveBeenCalled();
+      expect(hunterClient.searchDomain).not.toHaveBeenCalled();
+    });
+
+    /**
+     * TC-ENR-INT-029: Disabled provider never called
+     *
+     * Priority: Critical
+     * Category: Functional
+     */
+    it('should skip disabled providers without errors', async () => {
+      await buildModule({ disabled: ['hunter'] });
+
+      const result = await enrichmentService.enrichBusiness(1);
+
+      expect(hunterClient.searchDomain).not.toHaveBeenCalled();
+      expect(Object.keys(result.providers)).toEqual(['abstract']);
+      expect(result.errors).toHaveLength(0);
+      expect(businessStore.get(1).enrichment_status).toBe('enriched');
+    });
+
+    /**
+     * TC-ENR-INT-030: Selecting only disabled providers is rejected
+     *
+     * Priority: Medium
+     * Category: Negative
+     */
+    it('should reject a job whose sources are all disabled', async () => {
+      await buildModule({ disabled: ['hunter'] });
+
+      await expect(
+        enrichmentService.enrichBusiness(1, { sources: ['hunter'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+     * TC-ENR-INT-053: Job sources checked before queuing
+     *
+     * Priority: High
+     * Category: Negative
+     */
+    it('should check the sources of a job before it is queued', async () => {
+      await buildModule({ disabled: ['hunter'] });
+
+      expect(() => enrichmentService.assertSources(['clearbit'])).toThrow(
+        'Unknown enrichment source(s): clearbit',
+      );
+      expect(() => enrichmentService.assertSources(['hunter'])).toThrow(
+        'No enabled enrichment provider matches the requested sources',
+      );
+      expect(() => enrichmentService.assertSources(['all'])).not.toThrow();
+      expect(() => enrichmentService.assertSources()).not.toThrow();
+    });
+
+    /**
+     * TC-ENR-INT-031: Waterfall stops at the first provider filling a field
+     *
+     * Priority: Critical
+     * Category: Functional
+     */
+    it('should not call later providers once a field is filled', async () => {
+      const fake = new FakeProvider('fake', ['firmographics']);
+      await buildModule(
+        { waterfalls: { firmographics: ['abstract', 'fake'] } },
+        [fake],
+      );
+
+      await enrichmentService.enrichBusiness(1);
+
+      expect(fake.enrich).not.toHaveBeenCalled();
+      expect(businessStore.get(1).industry).toBe('Home Services');
+    });
+
+    /**
+     * TC-ENR-INT-032: Waterfall falls through when a provider fails
+     *
+     * Priority: Critical
+     * Category: Error Handling
+     */
+    it('should try the next provider when the first fails', async () => {
+      const fake = new FakeProvider('fake', ['firmographics']);
+      fake.enrich.mockResolvedValue(fakeFirmographics);
+      abstractClient.enrichCompany.mockRejectedValue(new Error('timeout'));
+      await buildModule(
+        { waterfalls: { firmographics: ['abstract', 'fake'] } },
+        [fake],
+      );
+
+      const result = await enrichmentService.enrichBusiness(1);
+
+      expect(fake.enrich).toHaveBeenCalledWith(
+        expect.objectContaining({ domain: 'testbusiness.com' }),
+      );
+      expect(result.providers.fake).toEqual(fakeFirmographics.response);
+      expect(businessStore.get(1).industry).toBe('Plumbing');
+      expect(
+        apiCostLogStore.find((l) => l.operation_type === 'enrich_fake')
+          .cost_usd,
+      ).toBe(0.01);
+    });
+
+    /**
+     * TC-ENR-INT-033: Collect-all fields keep the first value per attribute
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should call every provider of a collect-all field', async () => {
+      const fake = new FakeProvider('fake', ['firmographics']);
+      fake.enrich.mockResolvedValue(fakeFirmographics);
+      await buildModule(
+        {
+          waterfalls: { firmographics: ['abstract', 'fake'] },
+          collectAll: ['firmographics'],
+        },
+        [fake],
+      );
+
+      const result = await enrichmentService.enrichBusiness(1);
+
+      expect(fake.enrich).toHaveBeenCalled();
+      expect(Object.keys(result.providers)).toEqual([
+        'abstract',
+        'fake',
+        'hunter',
+      ]);
+      expect(businessStore.get(1).industry).toBe('Home Services');
+      expect(businessStore.get(1).employee_count).toBe(50);
+    });
+
+    /**
+     * TC-ENR-INT-034: Phone lookup fills a missing phone number
+     *
+     * Priority: Medium
+     * Category: Functional
+     */
+    it('should store a phone found by a phone lookup provider', async () => {
+      const fake = new FakeProvider('fake', ['phone_lookup']);
+      fake.enrich.mockResolvedValue({
+        response: {},
+        summary: {},
+        phone: '732-555-0100',
+      });
+      await buildModule({}, [fake]);
+
+      await enrichmentService.enrichBusiness(1);
+
+      expect(businessStore.get(1).phone).toBe('732-555-0100');
+    });
+
+    /**
+     * TC-ENR-INT-035: Provider covering two fields is called once
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should call a provider once for all the fields it covers', async () => {
+      hunterClient.searchDomain.mockResolvedValue({
+        ...mockHunterResponse,
+        emails: [
+          {
+            ...mockHunterResponse.emails[0],
+            verification: { status: 'unknown' },
+          },
+        ],
+      } as any);
+
+      await enrichmentService.enrichBusiness(1);
+
+      expect(hunterClient.searchDomain).toHaveBeenCalledTimes(1);
+      expect(contactStore.get(1)![0].email_verified).toBe(false);
+    });
+
+    /**
+     * TC-ENR-INT-043: Website details fill empty business columns
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should store email and social profiles without overwriting', async () => {
+      // Set by a member, so kept
+      Object.assign(businessStore.get(1), {
+        instagram_url: 'https://instagram.com/x',
+        field_sources: {
+          instagram_url: {
+            source: 'manual',
+            confidence: null,
+            updated_at: '2026-10-01T00:00:00.000Z',
+          },
+        },
+      });
+      const fake = new FakeProvider('fake', ['social_profiles']);
+      fake.enrich.mockResolvedValue({
+        response: {},
+        summary: {},
+        email: 'info@testbusiness.com',
+        socials: {
+          facebook_url: 'https://www.facebook.com/testbusiness',
+          instagram_url: 'https://www.instagram.com/testbusiness',
+        },
+        contacts: [
+          {
+            email: 'owner@testbusiness.com',
+            name: 'Pat Owner',
+            title: 'Owner',
+            verified: null,
+            preferred: true,
+            linkedin_url: 'https://www.linkedin.com/in/pat-owner',
+          },
+        ],
+      });
+      await buildModule({}, [fake]);
+
+      await enrichmentService.enrichBusiness(1, { sources: ['fake'] });
+
+      expect(businessStore.get(1)).toEqual(
+        expect.objectContaining({
+          email: 'info@testbusiness.com',
+          facebook_url: 'https://www.facebook.com/testbusiness',
+          instagram_url: 'https://instagram.com/x',
+        }),
+      );
+      expect(contactStore.get(1)).toEqual([
+        expect.objectContaining({
+          name: 'Pat Owner',
+          linkedin_url: 'https://www.linkedin.com/in/pat-owner',
+          is_primary: true,
+        }),
+      ]);
+    });
+  });
+
+  describe('Field provenance', () => {
+    const manual = {
+      source: 'manual',
+      confidence: null,
+      updated_at: '2026-10-01T00:00:00.000Z',
+    };
+
+    beforeEach(() => {
+      abstractClient.enrichCompany.mockResolvedValue(mockAbstractResponse);
+      hunterClient.searchDomain.mockResolvedValue(mockHunterResponse as any);
+    });
+
+    /**
+     * TC-ENR-INT-044: Enriched business fields record their source
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should record the provider of each business field it fills', async () => {
+      businessStore.set(1, createMockBusiness({ id: 1 }));
+
+      await enrichmentService.enrichBusiness(1);
+
+      const { field_sources } = businessStore.get(1);
+      expect(field_sources).toEqual({
+        // The scraped name had no recorded source
+        name: expect.objectContaining({ source: 'abstract' }),
+        industry: expect.objectContaining({
+          source: 'abstract',
+          confidence: null,
+        }),
+        employee_count: expect.objectContaining({ source: 'abstract' }),
+        year_founded: expect.objectContaining({ source: 'abstract' }),
+      });
+      expect(Date.parse(field_sources.industry.updated_at)).not.toBeNaN();
+    });
+
+    /**
+     * TC-ENR-INT-045: Manual values are never overwritten
+     *
+     * Priority: Critical
+     * Category: Functional
+     */
+    it('should keep manual edits, including cleared fields', async () => {
+      businessStore.set(1, {
+        ...createMockBusiness({ id: 1 }),
+        industry: 'Plumbing',
+        employee_count: null,
+        field_sources: { industry: manual, employee_count: manual },
+      });
+
+      await enrichmentService.enrichBusiness(1);
+
+      const business = businessStore.get(1);
+      // Industry and the cleared employee count came from a member
+      expect(business.industry).toBe('Plumbing');
+      expect(business.employee_count).toBeNull();
+      expect(business.year_founded).toBe(2010);
+      expect(business.field_sources.industry).toEqual(manual);
+    });
+
+    /**
+     * TC-ENR-INT-052: Scraped and legacy values are enriched
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should replace values without a recorded source', async () => {
+      // Scraped industry, and a count set before sources were tracked
+      businessStore.set(1, {
+        ...createMockBusiness({ id: 1 }),
+        industry: 'Plumber',
+        employee_count: 3,
+        field_sources: {},
+      });
+
+      await enrichmentService.enrichBusiness(1);
+
+      const business = businessStore.get(1);
+      expect(business.industry).toBe('Home Services');
+      expect(business.employee_count).toBe(50);
+      expect(business.field_sources.industry).toEqual(
+        expect.objectContaining({ source: 'abstract' }),
+      );
+    });
+
+    /**
+     * TC-ENR-INT-046: Higher-confidence enriched values are kept
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should replace enriched values unless they had higher confidence', async () => {
+      const fake = new FakeProvider('fake', ['firmographics']);
+      fake.enrich.mockResolvedValue({
+        response: {},
+        summary: {},
+        confidence: 0.6,
+        firmographics: { industry: 'Plumbing', employee_count: 8 },
+      });
+      await buildModule({}, [fake]);
+      businessStore.set(1, {
+        ...createMockBusiness({ id: 1 }),
+        industry: 'Home Services',
+        employee_count: 50,
+        field_sources: {
+          industry: { ...manual, source: 'abstract', confidence: 0.9 },
+          employee_count: { ...manual, source: 'abstract', confidence: 0.5 },
+        },
+      });
+
+      await enrichmentService.enrichBusiness(1, { sources: ['fake'] });
+
+      const business = businessStore.get(1);
+      expect(business.industry).toBe('Home Services');
+      expect(business.employee_count).toBe(8);
+      expect(business.field_sources.employee_count).toEqual(
+        expect.objectContaining({ source: 'fake', confidence: 0.6 }),
+      );
+    });
+
+    /**
+     * TC-ENR-INT-047: Contacts record source and Hunter confidence
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should record the source and confidence of created contacts', async () => {
+      businessStore.set(1, createMockBusiness({ id: 1 }));
+
+      await enrichmentService.enrichBusiness(1);
+
+      const john = contactStore
+        .get(1)!
+        .find((c) => c.email === 'john@testbusiness.com');
+      const hunter = expect.objectContaining({
+        source: 'hunter',
+        confidence: 0.95,
+      });
+      expect(john.field_sources).toEqual({
+        email: hunter,
+        name: hunter,
+        title: hunter,
+        email_verified: hunter,
+      });
+    });
+
+    /**
+     * TC-ENR-INT-048: Manual contact fields are never overwritten
+     *
+     * Priority: Critical
+     * Category: Functional
+     */
+    it('should only update contact fields a member did not set', async () => {
+      businessStore.set(1, createMockBusiness({ id: 1 }));
+      contactStore.set(1, [
+        {
+          id: 7,
+          business_id: 1,
+          email: 'john@testbusiness.com',
+          name: 'Johnny Doe',
+          title: null,
+          email_verified: false,
+          field_sources: { name: manual },
+        },
+      ]);
+
+      await enrichmentService.enrichBusiness(1);
+
+      expect(prismaService.contact.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: {
+          title: 'Owner',
+          email_verified: true,
+          field_sources: {
+            name: manual,
+            title: expect.objectContaining({ source: 'hunter' }),
+            email_verified: expect.objectContaining({ source: 'hunter' }),
+          },
+        },
+      });
+    });
+  });
+
+  // ============================================================
+  // Refresh: fields run, timestamps and changes
+  // ============================================================
+  describe('Refresh', () => {
+    beforeEach(() => {
+      abstractClient.enrichCompany.mockResolvedValue(mockAbstractResponse);
+      hunterClient.searchDomain.mockResolvedValue(mockHunterResponse as any);
+    });
+
+    /**
+     * TC-ENR-INT-049: Enrichment stamps the groups it ran
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should record when emails and company details were enriched', async () => {
+      businessStore.set(1, createMockBusiness({ id: 1 }));
+
+      await enrichmentService.enrichBusiness(1);
+
+      const business = businessStore.get(1);
+      expect(business.emails_enriched_at).toBeInstanceOf(Date);
+      expect(business.company_enriched_at).toBeInstanceOf(Date);
+    });
+
+    /**
+     * TC-ENR-INT-050: Only the requested fields are refreshed
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should only call providers of the requested fields', async () => {
+      businessStore.set(1, createMockBusiness({ id: 1 }));
+
+      const result = await enrichmentService.enrichBusiness(1, {
+        capabilities: ['firmographics'],
+      });
+
+      expect(Object.keys(result.providers)).toEqual(['abstract']);
+      expect(hunterClient.searchDomain).not.toHaveBeenCalled();
+      const business = businessStore.get(1);
+      expect(business.company_enriched_at).toBeInstanceOf(Date);
+      expect(business.emails_enriched_at).toBeUndefined();
+    });
+
+    /**
+     * TC-ENR-INT-051: Changed fields are reported
+     *
+     * Priority: High
+     * Category: Functional
+     */
+    it('should report the business and contact fields that changed', async () => {
+      const abstract = {
+        source: 'abstract',
+        confidence: null,
+        updated_at: '2025-10-01T00:00:00.000Z',
+      };
+      businessStore.set(1, {
+        ...createMockBusiness({ id: 1 }),
+        industry: 'Plumbing',
+        year_founded: 2010,
+        field_sources: { industry: abstract, year_founded: abstract },
+      });
+
+      const result = await enrichmentService.enrichBusiness(1);
+
+      expect(result.changes).toEqual(
+        expect.arrayContaining([
+          {
+            field: 'industry',
+            old_value: 'Plumbing',
+            new_value: 'Home Services',
+            source: 'abstract',
+          },
+          {
+            field: 'employee_count',
+            old_value: null,
+            new_value: '50',
+            source: 'abstract',
+          },
+          {
+            field: 'email',
+            contact: 'john@testbusiness.com',
+            old_value: null,
+            new_value: 'john@testbusiness.com',
+            source: 'hunter',
+          },
+        ]),
+      );
+      // Rewritten with the same value
+      expect(
+        result.changes.find((change) => change.field === 'year_founded'),
+      ).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,286 @@
+/**
+ * WebsiteCrawlerProvider Tests
+ *
+ * Crawls the static site in test/fixtures/websites/freehold-family-dental,
+ * served over HTTP on a local port, with the real HTTP client.
+ *
+ * Test Categories:
+ * - Crawl: internal contact/about/team pages only, page bound, broken pages
+ * - Extraction: emails, phones, social profiles, schema.org LocalBusiness
+ * - Errors: unreachable home page
+ * - Address checks: private addresses, checked at connect, redirects,
+ *   protocols
+ *
+ * The local server is on a loopback address, so the provider is built with
+ * 127.0.0.1 as an allowed host.
+ */
+
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import { WebsiteCrawlerProvider } from '../domain/providers/website-crawler.provider';
+
+const FIXTURE_SITE = path.join(
+  __dirname,
+  '../../../../test/fixtures/websites/freehold-family-dental',
+);
+
+/** Redirects served by the local server, by path. */
+const REDIRECTS: Record<string, string> = {
+  '/moved': '/index.html',
+  '/metadata': 'http://169.254.169.254/latest/meta-data/',
+  '/intranet': 'http://intranet.test/',
+  '/file': 'file:///etc/passwd',
+  '/loop': '/loop',
+};
+
+describe('WebsiteCrawlerProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requested: string[];
+  let provider: WebsiteCrawlerProvider;
+
+  const crawl = (website = baseUrl) =>
+    provider.enrich({
+      business: { id: 1, name: 'Freehold Family Dental', website } as any,
+      domain: new URL(website).host,
+    });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const pathname = new URL(req.url!, 'http://localhost').pathname;
+      requested.push(pathname);
+
+      if (REDIRECTS[pathname]) {
+        res.writeHead(302, { Location: REDIRECTS[pathname] });
+        res.end();
+        return;
+      }
+
+      const file = pathname === '/' ? 'index.html' : pathname.slice(1);
+      fs.readFile(path.join(FIXTURE_SITE, path.basename(file))).then(
+        (body) => {
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(body);
+        },
+        () => {
+          res.writeHead(404, { 'Content-Type': 'text/html' });
+          res.end('<h1>Not found</h1>');
+        },
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+    requested = [];
+    provider = new WebsiteCrawlerProvider({
+      allowedHosts: ['127.0.0.1'],
+      resolve: (hostname) =>
+        Promise.resolve(
+          hostname === 'intranet.test' ? ['192.168.1.10'] : ['93.184.216.34'],
+        ),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Crawl', () => {
+    it('should follow internal contact, about and team links up to the page bound', async () => {
+      const result = await crawl();
+
+      // Home page plus four links; /staff.html is missing and skipped
+      expect(requested).toEqual([
+        '/',
+        '/about.html',
+        '/team.html',
+        '/contact.html',
+        '/staff.html',
+      ]);
+      expect(result.summary.pagesCrawled).toBe(4);
+    });
+
+    it('should not pick up emails from pages it does not follow', async () => {
+      const result = await crawl();
+
+      expect(result.contacts!.map((contact) => contact.email)).not.toContain(
+        'hidden@freeholdfamilydental.test',
+      );
+    });
+
+    it('should accept a website without a trailing slash or with a path', async () => {
+      await crawl(`${baseUrl}/index.html`);
+
+      expect(requested[0]).toBe('/index.html');
+      expect(requested).toContain('/contact.html');
+    });
+  });
+
+  describe('Extraction', () => {
+    it('should read contacts from mailto links, page text and schema.org people', async () => {
+      const result = await crawl();
+
+      expect(result.contacts).toEqual([
+        {
+          email: 'maria@freeholdfamilydental.test',
+          name: 'Dr. Maria Lopez',
+          title: 'Owner & Dentist',
+          verified: null,
+          preferred: true,
+          linkedin_url: 'https://www.linkedin.com/in/maria-lopez-dds',
+        },
+        expect.objectContaining({
+          email: 'info@freeholdfamilydental.test',
+          name: null,
+          preferred: false,
+        }),
+        expect.objectContaining({ email: 'james@freeholdfamilydental.test' }),
+        expect.objectContaining({
+          email: 'appointments@freeholdfamilydental.test',
+        }),
+      ]);
+    });
+
+    it('should ignore web designer mailboxes and image file names', async () => {
+      const result = await crawl();
+      const emails = result.contacts!.map((contact) => contact.email);
+
+      expect(emails).not.toContain('support@example.com');
+      expect(emails.some((email) => email.includes('logo'))).toBe(false);
+    });
+
+    it('should take the business email and phone from schema.org data', async () => {
+      const result = await crawl();
+
+      expect(result.email).toBe('info@freeholdfamilydental.test');
+      expect(result.phone).toBe('(732) 555-0148');
+      expect((result.response as any).phones).toEqual([
+        '(732) 555-0148',
+        '(732) 555-0149',
+      ]);
+    });
+
+    it('should collect business social profiles but skip share links', async () => {
+      const result = await crawl();
+
+      expect(result.socials).toEqual({
+        facebook_url: 'https://www.facebook.com/FreeholdFamilyDental',
+        instagram_url: 'https://www.instagram.com/freeholdfamilydental',
+        linkedin_url: 'https://www.linkedin.com/company/freehold-family-dental',
+      });
+    });
+
+    it('should read opening hours and firmographics from LocalBusiness subtypes', async () => {
+      const result = await crawl();
+
+      expect(result.firmographics).toEqual({
+        opening_hours: 'Mo-Fr 08:00-17:00, Sa 09:00-13:00',
+        year_founded: 1998,
+        employee_count: 12,
+      });
+    });
+  });
+
+  describe('Errors', () => {
+    it('should fail when the home page cannot be fetched', async () => {
+      await expect(crawl(`${baseUrl}/closed.html`)).rejects.toThrow(
+        /Website fetch failed for .*closed\.html.*404/,
+      );
+    });
+  });
+
+  describe('Address checks', () => {
+    it('should refuse a loopback website', async () => {
+      provider = new WebsiteCrawlerProvider();
+
+      await expect(crawl()).rejects.toThrow(
+        /127\.0\.0\.1 resolves to a private address/,
+      );
+      expect(requested).toEqual([]);
+    });
+
+    it('should refuse hosts that resolve to private or mapped addresses', async () => {
+      await expect(crawl('http://intranet.test/')).rejects.toThrow(
+        /private address \(192\.168\.1\.10\)/,
+      );
+      await expect(crawl('http://[::ffff:10.0.0.1]/')).rejects.toThrow(
+        /private address/,
+      );
+      await expect(crawl('http://[fe80::1]/')).rejects.toThrow(
+        /private address/,
+      );
+      // NAT64 form of 127.0.0.1
+      await expect(crawl('http://[64:ff9b::7f00:1]/')).rejects.toThrow(
+        /private address/,
+      );
+      await expect(crawl('http://198.18.0.1/')).rejects.toThrow(
+        /private address/,
+      );
+    });
+
+    it('should connect to the address it checked, resolving once', async () => {
+      const port = new URL(baseUrl).port;
+      const resolve = jest
+        .fn()
+        .mockResolvedValueOnce(['127.0.0.1'])
+        .mockResolvedValue(['93.184.216.34']);
+
+      // A rebinding answer is refused by the lookup of the connection
+      provider = new WebsiteCrawlerProvider({ resolve });
+      await expect(crawl(`http://rebind.test:${port}/`)).rejects.toThrow(
+        /rebind\.test resolves to a private address \(127\.0\.0\.1\)/,
+      );
+      expect(resolve).toHaveBeenCalledTimes(1);
+      expect(requested).toEqual([]);
+
+      // Allowed, the connection goes to the address the lookup returned
+      resolve.mockReset().mockResolvedValue(['127.0.0.1']);
+      provider = new WebsiteCrawlerProvider({
+        allowedHosts: ['local.test'],
+        resolve,
+      });
+      await crawl(`http://local.test:${port}/`);
+      expect(requested[0]).toBe('/');
+    });
+
+    it('should follow a redirect to a public page', async () => {
+      const result = await crawl(`${baseUrl}/moved`);
+
+      expect(requested.slice(0, 2)).toEqual(['/moved', '/index.html']);
+      expect(result.summary.pagesCrawled).toBe(4);
+    });
+
+    it('should refuse redirects to private addresses', async () => {
+      await expect(crawl(`${baseUrl}/metadata`)).rejects.toThrow(
+        /169\.254\.169\.254 resolves to a private address/,
+      );
+      await expect(crawl(`${baseUrl}/intranet`)).rejects.toThrow(
+        /intranet\.test resolves to a private address/,
+      );
+    });
+
+    it('should refuse redirects to other protocols and redirect loops', async () => {
+      await expect(crawl(`${baseUrl}/file`)).rejects.toThrow(
+        /unsupported protocol file:/,
+      );
+      await expect(crawl(`${baseUrl}/loop`)).rejects.toThrow(
+        /more than 3 redirects/,
+      );
+      expect(requested.filter((pathname) => pathname === '/loop')).toHaveLength(
+        4,
+      );
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../../prisma/prisma.service';
+
+/**
+ * Data access for metered API usage per billing period.
+ *
+ * Counters live in Postgres so every instance draws on the same budget
+ * and a restart doesn't reset it.
+ */
+@Injectable()
+export class ApiQuotaRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Get the usage of a service in a billing period.
+   *
+   * @returns Usage row, or null if no call was recorded in the period
+   */
+  async find(service: string, period: string) {
+    return this.prisma.api_quota_usage.findUnique({
+      where: { service_period: { service, period } },
+    });
+  }
+
+  /**
+   * Count one call. The upsert runs as a single INSERT ... ON CONFLICT, so
+   * concurrent calls from several instances are all counted.
+   *
+   * @returns Usage row after the increment
+   */
+  async increment(service: string, period: string) {
+    return this.prisma.api_quota_usage.upsert({
+      where: { service_period: { service, period } },
+      create: { service, period, calls: 1 },
+      update: { calls: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Store the credits the provider reports left, with the call count they
+   * correspond to.
+   */
+  async setReported(service: string, period: string, remaining: number) {
+    const usage = await this.find(service, period);
+    const calls = usage?.calls ?? 0;
+
+    return this.prisma.api_quota_usage.upsert({
+      where: { service_period: { service, period } },
+      create: {
+        service,
+        period,
+        reported_remaining: remaining,
+        calls_at_report: calls,
+        reported_at: new Date(),
+      },
+      update: {
+        reported_remaining: remaining,
+        calls_at_report: calls,
+        reported_at: new Date(),
+      },
+    });
+  }
+}
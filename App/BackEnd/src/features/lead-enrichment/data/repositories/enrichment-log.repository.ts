@@ -3,7 +3,8 @@ import { PrismaService } from '../../../../prisma/prisma.service';
 
 export interface CreateEnrichmentLogDto {
   business_id: number;
-  service: 'hunter' | 'abstract';
+  /** Enrichment provider name, e.g. 'hunter' or 'abstract' */
+  service: string;
   status: 'success' | 'failed';
   request_data?: any;
   response_data?: any;
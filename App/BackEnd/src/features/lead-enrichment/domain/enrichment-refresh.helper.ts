@@ -0,0 +1,127 @@
+import type { business, Prisma } from '@prisma/client';
+import type { EnrichmentCapability } from './providers/enrichment-provider';
+
+/**
+ * Enrichment fields refreshed together, each group with its own age.
+ *
+ * - emails: find contact emails and verify them again
+ * - company: firmographics, phone and social profiles
+ */
+export const REFRESH_GROUPS = {
+  emails: ['email_finder', 'email_verifier'],
+  company: ['firmographics', 'phone_lookup', 'social_profiles'],
+} as const satisfies Record<string, readonly EnrichmentCapability[]>;
+
+export type RefreshGroup = keyof typeof REFRESH_GROUPS;
+
+export const REFRESH_GROUP_NAMES = Object.keys(
+  REFRESH_GROUPS,
+) as RefreshGroup[];
+
+/** Business column holding the time each group last ran. */
+export const REFRESH_GROUP_COLUMNS = {
+  emails: 'emails_enriched_at',
+  company: 'company_enriched_at',
+} as const satisfies Record<RefreshGroup, keyof business>;
+
+/** When enriched and failed businesses are enriched again. */
+export interface RefreshPolicy {
+  /** Days before each group of an enriched business runs again */
+  maxAgeDays: Record<RefreshGroup, number>;
+  /** Days before a failed business is retried in full */
+  retryFailedDays: number;
+}
+
+type RefreshState = Pick<
+  business,
+  'enrichment_status' | 'emails_enriched_at' | 'company_enriched_at'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Groups of a business that are due for a refresh.
+ *
+ * A failed business is retried in full once its last attempt is older than
+ * the cooldown. An enriched business refreshes the groups older than their
+ * maximum age, or never run. Pending businesses are left to enrichBatch.
+ */
+export function dueRefreshGroups(
+  business: RefreshState,
+  policy: RefreshPolicy,
+  now: Date = new Date(),
+): RefreshGroup[] {
+  if (business.enrichment_status === 'failed') {
+    const cutoff = daysBefore(now, policy.retryFailedDays);
+    return REFRESH_GROUP_NAMES.every((group) =>
+      isOlder(business[REFRESH_GROUP_COLUMNS[group]], cutoff),
+    )
+      ? [...REFRESH_GROUP_NAMES]
+      : [];
+  }
+  if (business.enrichment_status !== 'enriched') return [];
+
+  return REFRESH_GROUP_NAMES.filter((group) =>
+    isOlder(
+      business[REFRESH_GROUP_COLUMNS[group]],
+      daysBefore(now, policy.maxAgeDays[group]),
+    ),
+  );
+}
+
+/**
+ * Filter matching the businesses dueRefreshGroups returns groups for.
+ */
+export function dueForRefreshWhere(
+  policy: RefreshPolicy,
+  now: Date = new Date(),
+): Prisma.businessWhereInput {
+  const olderThan = (
+    group: RefreshGroup,
+    cutoff: Date,
+  ): Prisma.businessWhereInput => {
+    const column = REFRESH_GROUP_COLUMNS[group];
+    return { OR: [{ [column]: null }, { [column]: { lt: cutoff } }] };
+  };
+  const retryCutoff = daysBefore(now, policy.retryFailedDays);
+
+  return {
+    OR: [
+      {
+        enrichment_status: 'failed',
+        AND: REFRESH_GROUP_NAMES.map((group) => olderThan(group, retryCutoff)),
+      },
+      {
+        enrichment_status: 'enriched',
+        OR: REFRESH_GROUP_NAMES.map((group) =>
+          olderThan(group, daysBefore(now, policy.maxAgeDays[group])),
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Timestamps to store after an enrichment of the given fields: every
+ * group with a field among them counts as run.
+ */
+export function refreshTimestamps(
+  capabilities: readonly EnrichmentCapability[],
+  at: Date,
+): Partial<Record<(typeof REFRESH_GROUP_COLUMNS)[RefreshGroup], Date>> {
+  return Object.fromEntries(
+    REFRESH_GROUP_NAMES.filter((group) =>
+      REFRESH_GROUPS[group].some((capability) =>
+        capabilities.includes(capability),
+      ),
+    ).map((group) => [REFRESH_GROUP_COLUMNS[group], at]),
+  );
+}
+
+function daysBefore(date: Date, days: number): Date {
+  return new Date(date.getTime() - days * DAY_MS);
+}
+
+function isOlder(value: Date | null, cutoff: Date): boolean {
+  return value === null || value < cutoff;
+}
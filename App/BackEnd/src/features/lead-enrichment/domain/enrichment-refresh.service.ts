@@ -0,0 +1,295 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ConfigService } from '../../../config/config.service';
+import { EnrichmentFieldChange, EnrichmentService } from './enrichment.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { EnrichmentProvider } from './providers/enrichment-provider';
+import { EnrichmentProviderRegistry } from './providers/enrichment-provider.registry';
+import {
+  dueForRefreshWhere,
+  dueRefreshGroups,
+  REFRESH_GROUP_NAMES,
+  REFRESH_GROUPS,
+  RefreshGroup,
+  RefreshPolicy,
+} from './enrichment-refresh.helper';
+
+/** One business of a refresh run. */
+export interface RefreshedBusiness {
+  businessId: number;
+  businessName: string;
+  groups: RefreshGroup[];
+  changes: EnrichmentFieldChange[];
+  errors: Array<{ service: string; error: string }>;
+}
+
+/** Result of a scheduled refresh run, kept as the job result. */
+export interface EnrichmentRefreshReport {
+  /** Businesses due, up to the batch size */
+  due: number;
+  refreshed: number;
+  /**
+   * Due businesses left for a later run because a provider they need
+   * reached its cost cap or quota reserve, including those not looked at
+   * once every group was capped
+   */
+  skipped: number;
+  /** USD spent per provider */
+  spend: Record<string, number>;
+  /** Providers that reached their cost cap */
+  capped: string[];
+  businesses: RefreshedBusiness[];
+}
+
+/**
+ * Enrichment Refresh Service
+ *
+ * Enriches businesses again once their data is stale, under the policy of
+ * the ENRICHMENT_REFRESH_* settings:
+ * - Emails are found and verified again after 90 days
+ * - Firmographics, phone and social profiles are pulled again after a year
+ * - Failed enrichments are retried in full after a 7 day cooldown
+ *
+ * Run nightly by the enrichment-refresh job scheduler. A group of fields is
+ * only refreshed when every provider of it can be called: providers that
+ * reached their per-run cost cap or the quota reserve hold the group back
+ * for a later run rather than leave it half refreshed. Every business a run
+ * looks at is stamped with refresh_attempted_at and goes to the back of the
+ * line, so businesses held back don't take up the next run's batch. Manual
+ * edits are kept, as in any enrichment.
+ */
+@Injectable()
+export class EnrichmentRefreshService {
+  private readonly logger = new Logger(EnrichmentRefreshService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly enrichmentService: EnrichmentService,
+    private readonly providerRegistry: EnrichmentProviderRegistry,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Refresh the businesses due under the policy, up to
+   * ENRICHMENT_REFRESH_BATCH_SIZE: those never looked at by a run first,
+   * then the least recently looked at, then the least recently enriched.
+   * Stops early once a cost cap holds back every group.
+   *
+   * @param onProgress - Called after each business with the number done
+   * @returns Which businesses were refreshed, what changed and the spend
+   *
+   * @side-effects
+   * - Enriches the businesses, see EnrichmentService.enrichBusiness
+   * - Sets refresh_attempted_at of the businesses looked at
+   */
+  async refreshStale(
+    onProgress?: (done: number, total: number) => Promise<void>,
+  ): Promise<EnrichmentRefreshReport> {
+    const policy = this.getPolicy();
+    const caps = this.configService.getEnrichmentRefreshCostCaps();
+    const now = new Date();
+
+    const due = await this.prisma.business.findMany({
+      where: {
+        deleted_at: null,
+        website: { not: null },
+        ...dueForRefreshWhere(policy, now),
+      },
+      orderBy: [
+        { refresh_attempted_at: { sort: 'asc', nulls: 'first' } },
+        { emails_enriched_at: { sort: 'asc', nulls: 'first' } },
+        { id: 'asc' },
+      ],
+      take: this.configService.getEnrichmentRefreshBatchSize(),
+    });
+
+    const report: EnrichmentRefreshReport = {
+      due: due.length,
+      refreshed: 0,
+      skipped: 0,
+      spend: {},
+      capped: [],
+      businesses: [],
+    };
+
+    const attempted: number[] = [];
+    for (const [index, business] of due.entries()) {
+      if (this.allGroupsCapped(report.spend, caps)) {
+        report.skipped += due.length - index;
+        this.logger.log(
+          'Enrichment refresh stopped early: every group reached a cost cap',
+        );
+        break;
+      }
+      attempted.push(business.id);
+
+      const groups: RefreshGroup[] = [];
+      for (const group of dueRefreshGroups(business, policy, now)) {
+        if (await this.canRefresh(group, report.spend, caps)) {
+          groups.push(group);
+        }
+      }
+
+      if (groups.length === 0) {
+        report.skipped++;
+      } else {
+        report.businesses.push(
+          await this.refreshBusiness(
+            business.id,
+            business.name,
+            groups,
+            report,
+          ),
+        );
+      }
+
+      await onProgress?.(index + 1, due.length);
+    }
+
+    if (attempted.length > 0) {
+      await this.prisma.business.updateMany({
+        where: { id: { in: attempted } },
+        data: { refresh_attempted_at: now },
+      });
+    }
+
+    report.capped = this.allProviders()
+      .filter((provider) => !this.withinCap(provider, report.spend, caps))
+      .map((provider) => provider.name);
+
+    this.logger.log(
+      `Enrichment refresh: ${report.refreshed}/${report.due} refreshed, ` +
+        `${report.skipped} skipped, ` +
+        `${report.businesses.reduce((sum, b) => sum + b.changes.length, 0)} fields changed`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Refresh policy of the ENRICHMENT_REFRESH_* settings.
+   */
+  getPolicy(): RefreshPolicy {
+    return {
+      maxAgeDays: {
+        emails: this.configService.getEnrichmentRefreshDays('emails'),
+        company: this.configService.getEnrichmentRefreshDays('company'),
+      },
+      retryFailedDays: this.configService.getEnrichmentRetryFailedDays(),
+    };
+  }
+
+  /**
+   * Enrich the groups of one business and add its spend to the report.
+   * Every provider call counts, failed ones included, since they may be
+   * billed. Errors are recorded in the report, so one business can't end
+   * the run.
+   */
+  private async refreshBusiness(
+    businessId: number,
+    businessName: string,
+    groups: RefreshGroup[],
+    report: EnrichmentRefreshReport,
+  ): Promise<RefreshedBusiness> {
+    try {
+      const result = await this.enrichmentService.enrichBusiness(businessId, {
+        capabilities: groups.flatMap((group) => REFRESH_GROUPS[group]),
+        background: true,
+      });
+
+      for (const provider of this.allProviders()) {
+        if (result.called.includes(provider.name)) {
+          report.spend[provider.name] =
+            (report.spend[provider.name] ?? 0) + provider.costPerCall;
+        }
+      }
+      report.refreshed++;
+
+      return {
+        businessId,
+        businessName,
+        groups,
+        changes: result.changes,
+        errors: result.errors,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Refresh of business ${businessId} failed: ${error.message}`,
+      );
+      return {
+        businessId,
+        businessName,
+        groups,
+        changes: [],
+        errors: [{ service: 'refresh', error: error.message }],
+      };
+    }
+  }
+
+  /**
+   * Whether every provider of a group is under its cost cap and, when
+   * configured, above the quota reserve.
+   */
+  private async canRefresh(
+    group: RefreshGroup,
+    spend: Record<string, number>,
+    caps: Record<string, number>,
+  ): Promise<boolean> {
+    for (const provider of this.providersOf(group)) {
+      if (!this.withinCap(provider, spend, caps)) return false;
+      if (!provider.isConfigured()) continue;
+
+      const status = await this.rateLimiter.getStatus(provider.rateLimitKey);
+      if (status.nearLimit) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Whether a provider at its cost cap holds back every group.
+   */
+  private allGroupsCapped(
+    spend: Record<string, number>,
+    caps: Record<string, number>,
+  ): boolean {
+    return REFRESH_GROUP_NAMES.every((group) =>
+      this.providersOf(group).some(
+        (provider) => !this.withinCap(provider, spend, caps),
+      ),
+    );
+  }
+
+  /**
+   * Whether one more call stays within the provider's cap.
+   */
+  private withinCap(
+    provider: EnrichmentProvider,
+    spend: Record<string, number>,
+    caps: Record<string, number>,
+  ): boolean {
+    const cap = caps[provider.name];
+    return (
+      cap === undefined ||
+      (spend[provider.name] ?? 0) + provider.costPerCall <= cap
+    );
+  }
+
+  private providersOf(group: RefreshGroup): EnrichmentProvider[] {
+    return [
+      ...new Set(
+        REFRESH_GROUPS[group].flatMap(
+          (capability) => this.providerRegistry.policyFor(capability).providers,
+        ),
+      ),
+    ];
+  }
+
+  private allProviders(): EnrichmentProvider[] {
+    return [
+      ...new Set(
+        REFRESH_GROUP_NAMES.flatMap((group) => this.providersOf(group)),
+      ),
+    ];
+  }
+}
@@ -1,10 +1,86 @@
-import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { business } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { HunterApiClientService } from './hunter-api-client.service';
-import { AbstractApiClientService } from './abstract-api-client.service';
-import { RateLimiterService } from './rate-limiter.service';
+import { QuotaStatus, RateLimiterService } from './rate-limiter.service';
 import { EnrichmentLogRepository } from '../data/repositories/enrichment-log.repository';
+import {
+  ENRICHMENT_CAPABILITIES,
+  EnrichmentCapability,
+  EnrichmentProvider,
+  EnrichmentProviderResult,
+  FoundContact,
+  FoundFirmographics,
+  FoundSocialProfiles,
+} from './providers/enrichment-provider';
+import { EnrichmentProviderRegistry } from './providers/enrichment-provider.registry';
+import {
+  canEnrichField,
+  FieldSources,
+  readFieldSources,
+  withFieldSources,
+} from './field-provenance.helper';
+import { refreshTimestamps } from './enrichment-refresh.helper';
+
+export interface EnrichmentResult {
+  businessId: number;
+  businessName: string;
+  /** Response of each provider called successfully, by provider name */
+  providers: Record<string, unknown>;
+  /** Providers called, whether or not the call succeeded */
+  called: string[];
+  /** Contacts reported by the providers, new or already known */
+  contactsFound: number;
+  /** Values written that differ from the ones they replaced */
+  changes: EnrichmentFieldChange[];
+  errors: Array<{ service: string; error: string }>;
+}
+
+/** A business or contact field enrichment changed. */
+export interface EnrichmentFieldChange {
+  field: string;
+  /** Email of the contact the field belongs to; unset for business fields */
+  contact?: string;
+  old_value: string | null;
+  new_value: string | null;
+  /** Provider of the new value */
+  source: string;
+}
+
+export interface EnrichBusinessOptions {
+  /** Provider names to use, or 'all'; every enabled provider when omitted */
+  sources?: string[];
+  /** Queued work, which leaves the quota reserve to manual enrichment */
+  background?: boolean;
+  /** Fields to fill; every field when omitted */
+  capabilities?: readonly EnrichmentCapability[];
+}
+
+/** Quota of an enrichment provider in the current billing period. */
+export interface ProviderQuota extends QuotaStatus {
+  provider: string;
+}
+
+/** A field value as enrichment writes it. */
+type StoredValue = string | number | boolean | null | undefined;
+
+/** What the providers called so far found, merged. */
+interface MergedFindings {
+  firmographics: FoundFirmographics;
+  contacts: Map<string, FoundContact>;
+  phone?: string;
+  email?: string;
+  socials: FoundSocialProfiles;
+  /** field_sources of the business, with the writes made so far */
+  sources: FieldSources;
+  /** The result's changes, appended to as values are written */
+  changes: EnrichmentFieldChange[];
+}
 
 @Injectable()
 export class EnrichmentService {
@@ -12,8 +88,7 @@ export class EnrichmentService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly hunterApiClient: HunterApiClientService,
-    private readonly abstractApiClient: AbstractApiClientService,
+    private readonly providerRegistry: EnrichmentProviderRegistry,
     private readonly rateLimiter: RateLimiterService,
     private readonly enrichmentLogRepository: EnrichmentLogRepository,
     private readonly eventEmitter: EventEmitter2,
@@ -22,218 +97,130 @@ export class EnrichmentService {
   /**
    * Enrich a single business with contact and company data.
    *
-   * Makes sequential calls to:
-   * 1. AbstractAPI - Company firmographics (industry, employees, year founded)
-   * 2. Hunter.io - Email discovery and verification
+   * Fills each field (firmographics, email finder, email verifier, phone
+   * lookup, social profiles) from the providers of EnrichmentProviderRegistry, in waterfall
+   * order, stopping at the first provider that fills it unless the field is
+   * set to collect from all. A provider covering several fields is called
+   * once per enrichment. Values are written under the rules of
+   * canEnrichField, so manual edits are never overwritten, and each write
+   * records its provider, time and confidence in field_sources.
    *
    * @param businessId - Database ID of business to enrich
+   * @param options - Providers and fields to use, and whether the call is
+   *   queued work
    * @returns Object with enrichment results
    *
    * @side-effects
    * - Updates business.enrichment_status to 'enriched' or 'failed'
+   * - Sets the refresh timestamps of the fields run (emails_enriched_at,
+   *   company_enriched_at)
    * - Creates contact records for discovered emails
+   * - Records the source of every value written in field_sources
    * - Logs all attempts to enrichment_log table
    * - Emits 'business:enriched' WebSocket event
    *
    * @throws {NotFoundException} If business ID doesn't exist
-   * @throws {BadRequestException} If business has no website
+   * @throws {BadRequestException} If a source is unknown or no enabled provider is selected
    */
-  async enrichBusiness(businessId: number) {
+  async enrichBusiness(
+    businessId: number,
+    options: EnrichBusinessOptions = {},
+  ): Promise<EnrichmentResult> {
+    const {
+      sources,
+      background = false,
+      capabilities = ENRICHMENT_CAPABILITIES,
+    } = options;
     this.logger.log(`Starting enrichment for business ID: ${businessId}`);
 
     // Fetch business
     const business = await this.prisma.business.findUnique({
-      where: { id: businessId },
+      where: { id: businessId, deleted_at: null },
     });
 
     if (!business) {
       throw new NotFoundException(`Business with ID ${businessId} not found`);
     }
 
-    const results: {
-      businessId: number;
-      businessName: string;
-      abstract: any;
-      hunter: any;
-      errors: Array<{ service: string; error: string }>;
-    } = {
+    const policies = capabilities.map((capability) => ({
+      capability,
+      ...this.providerRegistry.policyFor(capability, sources),
+    }));
+    const selected = this.selectedProviders(sources, capabilities);
+    if (selected.length === 0) {
+      throw new BadRequestException(
+        'No enabled enrichment provider matches the requested sources',
+      );
+    }
+
+    const results: EnrichmentResult = {
       businessId,
       businessName: business.name,
-      abstract: null,
-      hunter: null,
+      providers: {},
+      called: [],
+      contactsFound: 0,
+      changes: [],
       errors: [],
     };
 
     if (!business.website) {
-      results.errors.push({ service: 'abstract', error: 'No website available' });
-      results.errors.push({ service: 'hunter', error: 'No website available' });
+      for (const provider of selected) {
+        results.errors.push({
+          service: provider.name,
+          error: 'No website available',
+        });
+      }
 
       await this.prisma.business.update({
         where: { id: businessId },
-        data: { enrichment_status: 'failed' },
+        data: {
+          enrichment_status: 'failed',
+          ...refreshTimestamps(capabilities, new Date()),
+        },
       });
 
       return results;
     }
 
     const domain = this.extractDomain(business.website);
-
-    // AbstractAPI enrichment
-    if (this.abstractApiClient.isConfigured() && this.rateLimiter.canMakeCall('abstractapi')) {
-      try {
-        const companyData = await this.abstractApiClient.enrichCompany(domain);
-        this.rateLimiter.recordCall('abstractapi');
-
-        // Update business with company data
-        const updateData: any = {};
-        if (companyData.name) updateData.name = companyData.name;
-        if (companyData.industry) updateData.industry = companyData.industry;
-        if (companyData.employees_count) updateData.employee_count = parseInt(companyData.employees_count);
-        if (companyData.year_founded) updateData.year_founded = companyData.year_founded;
-
-        if (Object.keys(updateData).length > 0) {
-          await this.prisma.business.update({
-            where: { id: businessId },
-            data: updateData,
-          });
-        }
-
-        await this.enrichmentLogRepository.create({
-          business_id: businessId,
-          service: 'abstract',
-          status: 'success',
-          request_data: JSON.stringify({ domain }),
-          response_data: JSON.stringify(companyData),
-        });
-
-        // Track API cost for analytics
-        await this.prisma.api_cost_log.create({
-          data: {
-            operation_type: 'enrich_abstract',
-            service: 'abstract',
-            business_id: businessId,
-            cost_usd: 0.10, // $0.10 per lookup
-            metadata: {
-              domain,
-              name: companyData.name,
-            },
-          },
-        });
-
-        results.abstract = companyData;
-        this.logger.log(`AbstractAPI enrichment successful for ${business.name}`);
-      } catch (error) {
-        this.logger.error(`AbstractAPI failed for ${businessId}:`, error.message);
-        results.errors.push({ service: 'abstract', error: error.message });
-
-        await this.enrichmentLogRepository.create({
-          business_id: businessId,
-          service: 'abstract',
-          status: 'failed',
-          request_data: JSON.stringify({ domain }),
-          error_message: error.message,
-        });
-      }
-    } else if (!this.abstractApiClient.isConfigured()) {
-      results.errors.push({ service: 'abstract', error: 'API not configured' });
-    } else {
-      results.errors.push({ service: 'abstract', error: 'Rate limit exceeded' });
-    }
-
-    // Hunter.io enrichment
-    if (this.hunterApiClient.isConfigured() && this.rateLimiter.canMakeCall('hunter.io')) {
-      try {
-        const emailData = await this.hunterApiClient.searchDomain(domain, 5);
-        this.rateLimiter.recordCall('hunter.io');
-
-        // Create contacts
-        let contactsCreated = 0;
-        if (emailData.emails && emailData.emails.length > 0) {
-          for (const email of emailData.emails) {
-            try {
-              // Check if contact already exists
-              const existingContact = await this.prisma.contact.findFirst({
-                where: {
-                  business_id: businessId,
-                  email: email.value,
-                },
-              });
-
-              if (!existingContact) {
-                await this.prisma.contact.create({
-                  data: {
-                    business_id: businessId,
-                    name: email.first_name && email.last_name
-                      ? `${email.first_name} ${email.last_name}`.trim()
-                      : null,
-                    email: email.value,
-                    email_verified: email.verification?.status === 'valid',
-                    title: email.position || null,
-                    is_primary: email.type === 'personal' || email.seniority === 'senior',
-                  },
-                });
-                contactsCreated++;
-              }
-            } catch (error) {
-              this.logger.error(`Error saving contact ${email.value}:`, error.message);
-            }
-          }
-        }
-
-        await this.enrichmentLogRepository.create({
-          business_id: businessId,
-          service: 'hunter',
-          status: 'success',
-          request_data: JSON.stringify({ domain }),
-          response_data: JSON.stringify({
-            emailsFound: emailData.emails.length,
-            contactsCreated,
-          }),
-        });
-
-        // Track API cost for analytics
-        await this.prisma.api_cost_log.create({
-          data: {
-            operation_type: 'enrich_hunter',
-            service: 'hunter',
-            business_id: businessId,
-            cost_usd: 0.50, // $0.50 per search
-            metadata: {
-              domain,
-              emailsFound: emailData.emails.length,
-              contactsCreated,
-            },
-          },
-        });
-
-        results.hunter = emailData;
-        this.logger.log(`Hunter.io enrichment successful for ${business.name}. Found ${emailData.emails?.length || 0} contacts`);
-      } catch (error) {
-        this.logger.error(`Hunter.io failed for ${businessId}:`, error.message);
-        results.errors.push({ service: 'hunter', error: error.message });
-
-        await this.enrichmentLogRepository.create({
-          business_id: businessId,
-          service: 'hunter',
-          status: 'failed',
-          request_data: JSON.stringify({ domain }),
-          error_message: error.message,
-        });
+    const found: MergedFindings = {
+      firmographics: {},
+      contacts: new Map(),
+      socials: {},
+      sources: readFieldSources(business.field_sources),
+      changes: results.changes,
+    };
+    const called = new Set<string>();
+
+    for (const { capability, providers, stopWhenSatisfied } of policies) {
+      for (const provider of providers) {
+        if (stopWhenSatisfied && this.isSatisfied(capability, found)) break;
+        if (called.has(provider.name)) continue;
+
+        called.add(provider.name);
+        await this.callProvider(
+          provider,
+          business,
+          domain,
+          found,
+          results,
+          background,
+        );
       }
-    } else if (!this.hunterApiClient.isConfigured()) {
-      results.errors.push({ service: 'hunter', error: 'API not configured' });
-    } else {
-      results.errors.push({ service: 'hunter', error: 'Rate limit exceeded' });
     }
 
     // Update enrichment status
-    const status = results.errors.length === 0 ? 'enriched' :
-                   (results.abstract || results.hunter) ? 'enriched' : 'failed';
+    const succeeded = Object.keys(results.providers);
+    const status =
+      results.errors.length === 0 || succeeded.length > 0
+        ? 'enriched'
+        : 'failed';
 
     await this.prisma.business.update({
       where: { id: businessId },
       data: {
         enrichment_status: status,
+        ...refreshTimestamps(capabilities, new Date()),
         updated_at: new Date(),
       },
     });
@@ -246,14 +233,13 @@ export class EnrichmentService {
         id: businessId,
         name: business.name,
         enrichment_status: status,
-        abstract: !!results.abstract,
-        hunter: !!results.hunter,
+        providers: succeeded,
         errors: results.errors.length,
       },
     });
 
     // Emit analytics updated event if enrichment was successful
-    if (results.abstract || results.hunter) {
+    if (succeeded.length > 0) {
       this.eventEmitter.emit('analytics:updated', {
         type: 'enrichment:completed',
         timestamp: new Date().toISOString(),
@@ -278,6 +264,7 @@ export class EnrichmentService {
       where: {
         enrichment_status: 'pending',
         website: { not: null },
+        deleted_at: null,
       },
       take: count,
       orderBy: { created_at: 'asc' },
@@ -302,7 +289,10 @@ export class EnrichmentService {
         const result = await this.enrichBusiness(business.id);
         results.push(result);
 
-        if (result.errors.length === 0 || result.abstract || result.hunter) {
+        if (
+          result.errors.length === 0 ||
+          Object.keys(result.providers).length > 0
+        ) {
           enrichedCount++;
         } else {
           failedCount++;
@@ -332,6 +322,454 @@ export class EnrichmentService {
     };
   }
 
+  /**
+   * Quota of each enabled provider in the current billing period. Credits
+   * reported by the provider are refreshed first where it reports them.
+   *
+   * @side-effects Stores the reported credits in api_quota_usage
+   */
+  async getProviderQuotas(): Promise<ProviderQuota[]> {
+    const quotas: ProviderQuota[] = [];
+
+    for (const provider of this.selectedProviders()) {
+      if (provider.isConfigured()) {
+        try {
+          const remaining = await provider.getRemainingCredits();
+          if (remaining !== null) {
+            await this.rateLimiter.recordReportedRemaining(
+              provider.rateLimitKey,
+              remaining,
+            );
+          }
+        } catch (error) {
+          this.logger.warn(
+            `Could not read ${provider.name} credits: ${error.message}`,
+          );
+        }
+      }
+
+      const status = await this.rateLimiter.getStatus(provider.rateLimitKey);
+      quotas.push({ provider: provider.name, ...status });
+    }
+
+    return quotas;
+  }
+
+  /**
+   * Check job sources before they are queued, so a bad request fails in
+   * the API rather than in the worker.
+   *
+   * @param sources - Provider names to use, or 'all'
+   * @throws {BadRequestException} If a source is unknown or no enabled provider is selected
+   */
+  assertSources(sources?: string[]): void {
+    if (this.selectedProviders(sources).length === 0) {
+      throw new BadRequestException(
+        'No enabled enrichment provider matches the requested sources',
+      );
+    }
+  }
+
+  /**
+   * When queued enrichment with the given sources should wait for the
+   * next billing period: every configured provider it may use is down to
+   * the quota reserve.
+   *
+   * @param sources - Provider names to use, or 'all'
+   * @returns Start of the next billing period, or null to run now
+   */
+  async getQuotaDeferral(sources?: string[]): Promise<Date | null> {
+    const providers = this.selectedProviders(sources).filter((provider) =>
+      provider.isConfigured(),
+    );
+    if (providers.length === 0) return null;
+
+    let resetsAt: Date | null = null;
+    for (const provider of providers) {
+      const status = await this.rateLimiter.getStatus(provider.rateLimitKey);
+      if (!status.nearLimit) return null;
+      if (!resetsAt || status.resetsAt < resetsAt) resetsAt = status.resetsAt;
+    }
+    return resetsAt;
+  }
+
+  /**
+   * Enabled providers of the given fields, narrowed to the given sources.
+   *
+   * @throws {BadRequestException} If a source isn't a registered provider
+   */
+  private selectedProviders(
+    sources?: string[],
+    capabilities: readonly EnrichmentCapability[] = ENRICHMENT_CAPABILITIES,
+  ): EnrichmentProvider[] {
+    const providers = capabilities.flatMap(
+      (capability) =>
+        this.providerRegistry.policyFor(capability, sources).providers,
+    );
+    return [...new Set(providers)];
+  }
+
+  /**
+   * Call one provider and persist what it found. Failures are recorded in
+   * the result and enrichment_log rather than thrown, so the waterfall moves
+   * on to the next provider.
+   */
+  private async callProvider(
+    provider: EnrichmentProvider,
+    business: business,
+    domain: string,
+    found: MergedFindings,
+    results: EnrichmentResult,
+    background: boolean,
+  ) {
+    if (!provider.isConfigured()) {
+      results.errors.push({
+        service: provider.name,
+        error: 'API not configured',
+      });
+      return;
+    }
+    if (
+      !(await this.rateLimiter.canMakeCall(provider.rateLimitKey, {
+        background,
+      }))
+    ) {
+      results.errors.push({
+        service: provider.name,
+        error: 'Rate limit exceeded',
+      });
+      return;
+    }
+
+    try {
+      results.called.push(provider.name);
+      const response = await provider.enrich({ business, domain });
+      await this.rateLimiter.recordCall(provider.rateLimitKey);
+
+      await this.saveFirmographics(business, provider.name, response, found);
+      await this.saveContactDetails(business, provider.name, response, found);
+      const summary = response.contacts
+        ? {
+            ...response.summary,
+            contactsCreated: await this.saveContacts(
+              business.id,
+              provider.name,
+              response,
+              found,
+            ),
+          }
+        : response.summary;
+
+      await this.enrichmentLogRepository.create({
+        business_id: business.id,
+        service: provider.name,
+        status: 'success',
+        request_data: JSON.stringify({ domain }),
+        response_data: JSON.stringify(summary),
+      });
+
+      // Track API cost for analytics
+      await this.prisma.api_cost_log.create({
+        data: {
+          operation_type: `enrich_${provider.name}`,
+          service: provider.name,
+          business_id: business.id,
+          cost_usd: provider.costPerCall,
+          metadata: { domain, ...summary },
+        },
+      });
+
+      results.providers[provider.name] = response.response;
+      results.contactsFound += response.contacts?.length ?? 0;
+      this.logger.log(
+        `${provider.name} enrichment successful for ${business.name}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `${provider.name} failed for ${business.id}:`,
+        error.message,
+      );
+      results.errors.push({ service: provider.name, error: error.message });
+
+      await this.enrichmentLogRepository.create({
+        business_id: business.id,
+        service: provider.name,
+        status: 'failed',
+        request_data: JSON.stringify({ domain }),
+        error_message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Whether the providers called so far filled a field. Verification is
+   * filled when every email found has a verdict, so it holds trivially
+   * while no email is known.
+   */
+  private isSatisfied(
+    capability: EnrichmentCapability,
+    found: MergedFindings,
+  ): boolean {
+    switch (capability) {
+      case 'firmographics':
+        return Object.values(found.firmographics).some((v) => v !== undefined);
+      case 'email_finder':
+        return found.contacts.size > 0;
+      case 'email_verifier':
+        return [...found.contacts.values()].every((c) => c.verified !== null);
+      case 'phone_lookup':
+        return !!found.phone;
+      case 'social_profiles':
+        return Object.values(found.socials).some((v) => v !== undefined);
+    }
+  }
+
+  /**
+   * Update the business with company details. The first value found for
+   * each attribute wins.
+   */
+  private async saveFirmographics(
+    business: business,
+    source: string,
+    response: EnrichmentProviderResult,
+    found: MergedFindings,
+  ) {
+    const values = Object.fromEntries(
+      Object.entries(response.firmographics ?? {}).filter(
+        ([field, value]) =>
+          value !== undefined &&
+          found.firmographics[field as keyof FoundFirmographics] === undefined,
+      ),
+    ) as FoundFirmographics;
+
+    Object.assign(found.firmographics, values);
+    await this.writeBusinessFields(business, source, response, values, found);
+  }
+
+  /**
+   * Store the phone, email and social profiles found for a business. The
+   * first value found wins.
+   */
+  private async saveContactDetails(
+    business: business,
+    source: string,
+    response: EnrichmentProviderResult,
+    found: MergedFindings,
+  ) {
+    const values: FoundSocialProfiles & { phone?: string; email?: string } = {};
+
+    if (response.phone && !found.phone) {
+      found.phone = values.phone = response.phone;
+    }
+    if (response.email && !found.email) {
+      found.email = values.email = response.email;
+    }
+    for (const [field, url] of Object.entries(response.socials ?? {})) {
+      const key = field as keyof FoundSocialProfiles;
+      if (!url || found.socials[key]) continue;
+      found.socials[key] = values[key] = url;
+    }
+
+    await this.writeBusinessFields(business, source, response, values, found);
+  }
+
+  /**
+   * Write the values canEnrichField allows over the business's current
+   * ones, and record their source and the values that changed.
+   */
+  private async writeBusinessFields(
+    business: business,
+    source: string,
+    response: EnrichmentProviderResult,
+    values: object,
+    found: MergedFindings,
+  ) {
+    const confidence = response.confidence ?? null;
+    const data = Object.fromEntries(
+      Object.entries(values).filter(
+        ([field, value]) =>
+          value !== undefined &&
+          canEnrichField(
+            business[field as keyof business],
+            found.sources[field],
+            confidence,
+          ),
+      ),
+    );
+
+    const fields = Object.keys(data);
+    if (fields.length === 0) return;
+
+    for (const field of fields) {
+      this.recordChange(
+        found,
+        source,
+        field,
+        // Enriched business fields are all scalars
+        business[field as keyof business] as StoredValue,
+        data[field],
+      );
+    }
+
+    found.sources = withFieldSources(found.sources, fields, source, confidence);
+    await this.prisma.business.update({
+      where: { id: business.id },
+      data: { ...data, field_sources: found.sources },
+    });
+  }
+
+  /**
+   * Create contacts for new emails and record verdicts on known ones.
+   *
+   * @returns Number of contacts created
+   */
+  private async saveContacts(
+    businessId: number,
+    source: string,
+    response: EnrichmentProviderResult,
+    found: MergedFindings,
+  ): Promise<number> {
+    let contactsCreated = 0;
+    if (!response.contacts?.length) return contactsCreated;
+
+    // A business has at most one primary contact
+    let hasPrimary = !!(await this.prisma.contact.findFirst({
+      where: { business_id: businessId, is_primary: true },
+    }));
+
+    for (const contact of response.contacts) {
+      const known = found.contacts.get(contact.email);
+      found.contacts.set(contact.email, {
+        ...contact,
+        verified: contact.verified ?? known?.verified ?? null,
+      });
+
+      try {
+        // Check if contact already exists
+        const existingContact = await this.prisma.contact.findFirst({
+          where: {
+            business_id: businessId,
+            email: contact.email,
+          },
+        });
+
+        const values = {
+          name: contact.name ?? undefined,
+          title: contact.title ?? undefined,
+          linkedin_url: contact.linkedin_url,
+          email_verified: contact.verified ?? undefined,
+        };
+        const confidence = contact.confidence ?? null;
+
+        if (!existingContact) {
+          const isPrimary = !hasPrimary && contact.preferred;
+          const fields = Object.keys(values).filter(
+            (field) => values[field as keyof typeof values] !== undefined,
+          );
+          await this.prisma.contact.create({
+            data: {
+              business_id: businessId,
+              name: contact.name,
+              email: contact.email,
+              email_verified: contact.verified === true,
+              title: contact.title,
+              linkedin_url: contact.linkedin_url ?? null,
+              is_primary: isPrimary,
+              field_sources: withFieldSources(
+                {},
+                ['email', ...fields],
+                source,
+                confidence,
+              ),
+            },
+          });
+          hasPrimary = hasPrimary || isPrimary;
+          contactsCreated++;
+          this.recordChange(
+            found,
+            source,
+            'email',
+            null,
+            contact.email,
+            contact.email,
+          );
+        } else {
+          const sources = readFieldSources(existingContact.field_sources);
+          const data = Object.fromEntries(
+            Object.entries(values).filter(
+              ([field, value]) =>
+                value !== undefined &&
+                value !== existingContact[field as keyof typeof values] &&
+                canEnrichField(
+                  existingContact[field as keyof typeof values],
+                  sources[field],
+                  confidence,
+                ),
+            ),
+          );
+
+          for (const [field, value] of Object.entries(data)) {
+            this.recordChange(
+              found,
+              source,
+              field,
+              existingContact[field as keyof typeof values],
+              value,
+              contact.email,
+            );
+          }
+
+          if (Object.keys(data).length > 0) {
+            await this.prisma.contact.update({
+              where: { id: existingContact.id },
+              data: {
+                ...data,
+                field_sources: withFieldSources(
+                  sources,
+                  Object.keys(data),
+                  source,
+                  confidence,
+                ),
+              },
+            });
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error saving contact ${contact.email}:`,
+          error.message,
+        );
+      }
+    }
+
+    return contactsCreated;
+  }
+
+  /**
+   * Add a written value to the changes, unless it equals the old one.
+   * Values are stringified as in business_change.
+   */
+  private recordChange(
+    found: MergedFindings,
+    source: string,
+    field: string,
+    oldValue: StoredValue,
+    newValue: StoredValue,
+    contact?: string,
+  ) {
+    const toStored = (value: StoredValue): string | null =>
+      value === null || value === undefined ? null : String(value);
+
+    const change: EnrichmentFieldChange = {
+      field,
+      ...(contact ? { contact } : {}),
+      old_value: toStored(oldValue),
+      new_value: toStored(newValue),
+      source,
+    };
+    if (change.old_value !== change.new_value) found.changes.push(change);
+  }
+
   /**
    * Extract domain from URL.
    */
@@ -0,0 +1,75 @@
+import type { Prisma } from '@prisma/client';
+
+/** Source recorded for values a member entered or edited. */
+export const MANUAL_SOURCE = 'manual';
+
+/**
+ * Where the current value of a field came from. Stored per field in the
+ * field_sources column of business and contact (a type alias, so Prisma
+ * accepts it as JSON).
+ */
+export type FieldProvenance = {
+  /** Enrichment provider name, or 'manual' */
+  source: string;
+  /** Provider confidence from 0 to 1; null when it doesn't report one */
+  confidence: number | null;
+  /** ISO timestamp of the write */
+  updated_at: string;
+};
+
+export type FieldSources = Record<string, FieldProvenance>;
+
+/**
+ * Read a field_sources column.
+ */
+export function readFieldSources(
+  value: Prisma.JsonValue | null | undefined,
+): FieldSources {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as unknown as FieldSources)
+    : {};
+}
+
+/**
+ * Copy of the sources with the given fields attributed to one source.
+ */
+export function withFieldSources(
+  sources: FieldSources,
+  fields: string[],
+  source: string,
+  confidence: number | null = null,
+): FieldSources {
+  const updated_at = new Date().toISOString();
+  return {
+    ...sources,
+    ...Object.fromEntries(
+      fields.map((field) => [field, { source, confidence, updated_at }]),
+    ),
+  };
+}
+
+/**
+ * Whether automated enrichment may write a value over the current one.
+ *
+ * - Manual values are never overwritten, including fields a member cleared
+ * - Empty fields are filled
+ * - Values without a recorded source (imported by a scrape, or set before
+ *   sources were tracked) are replaced. Member edits from before then were
+ *   marked manual by the 20261110_mark_manual_field_sources migration.
+ * - Enriched values are replaced unless they were reported with a higher
+ *   confidence
+ *
+ * @param current - Current value of the field
+ * @param provenance - Recorded source of the current value
+ * @param confidence - Confidence of the new value, null if unknown
+ */
+export function canEnrichField(
+  current: unknown,
+  provenance: FieldProvenance | undefined,
+  confidence: number | null,
+): boolean {
+  if (provenance?.source === MANUAL_SOURCE) return false;
+  if (current === null || current === undefined || current === '') return true;
+  if (!provenance) return true;
+  return (confidence ?? 0) >= (provenance.confidence ?? 0);
+}
@@ -71,6 +71,31 @@ export class HunterApiClientService {
     }
   }
 
+  /**
+   * Domain searches left this month according to the account endpoint,
+   * which doesn't count against the quota.
+   *
+   * @returns Searches left
+   * @throws Error if API call fails
+   */
+  async getRemainingSearches(): Promise<number> {
+    if (!this.isConfigured()) {
+      throw new Error('Hunter.io API key not configured');
+    }
+
+    try {
+      const response = await this.client.get('/account', {
+        params: { api_key: this.apiKey },
+      });
+
+      const searches = response.data.data.requests.searches;
+      return Math.max(0, searches.available - searches.used);
+    } catch (error) {
+      this.logger.error('Hunter.io account lookup failed:', error.message);
+      throw new Error(`Hunter.io API failed: ${error.message}`);
+    }
+  }
+
   /**
    * Verify if API key is configured.
    */
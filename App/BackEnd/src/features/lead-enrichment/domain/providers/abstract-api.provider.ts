@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { AbstractApiClientService } from '../abstract-api-client.service';
+import {
+  EnrichmentProvider,
+  EnrichmentProviderResult,
+  EnrichmentRequest,
+} from './enrichment-provider';
+
+/**
+ * Company firmographics (industry, employees, year founded) from AbstractAPI.
+ */
+@Injectable()
+export class AbstractApiProvider extends EnrichmentProvider {
+  readonly name = 'abstract';
+  readonly capabilities = ['firmographics'] as const;
+  readonly rateLimitKey = 'abstractapi';
+  readonly costPerCall = 0.1; // $0.10 per lookup
+
+  constructor(private readonly client: AbstractApiClientService) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  async enrich({
+    domain,
+  }: EnrichmentRequest): Promise<EnrichmentProviderResult> {
+    const company = await this.client.enrichCompany(domain);
+
+    return {
+      response: company,
+      summary: { name: company.name },
+      firmographics: {
+        name: company.name || undefined,
+        industry: company.industry || undefined,
+        employee_count: company.employees_count
+          ? parseInt(company.employees_count)
+          : undefined,
+        year_founded: company.year_founded || undefined,
+      },
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '../../../../config/config.service';
+import {
+  ENRICHMENT_CAPABILITIES,
+  EnrichmentCapability,
+  EnrichmentProvider,
+} from './enrichment-provider';
+
+/** Job source that selects every enabled provider. */
+export const ALL_ENRICHMENT_SOURCES = 'all';
+
+/**
+ * How EnrichmentService fills one field.
+ */
+export interface EnrichmentFieldPolicy {
+  /** Enabled providers of the field, in the order they are tried */
+  providers: EnrichmentProvider[];
+  /**
+   * Stop at the first provider that fills the field. Otherwise every
+   * provider is tried and the first value found for each attribute wins.
+   */
+  stopWhenSatisfied: boolean;
+}
+
+export interface EnrichmentRegistryOptions {
+  /** Provider names per field, in waterfall order; unset fields use registration order */
+  waterfalls?: Partial<Record<EnrichmentCapability, string[]>>;
+  /** Fields that try every provider instead of stopping when filled */
+  collectAll?: EnrichmentCapability[];
+  /** Providers never called */
+  disabled?: string[];
+}
+
+/**
+ * Enrichment providers and the waterfall policy of each field.
+ *
+ * LeadEnrichmentModule builds the registry from the provider list and the
+ * ENRICHMENT_* settings, so a provider can be added, reordered or disabled
+ * without touching EnrichmentService.
+ *
+ * @example
+ * const policy = registry.policyFor('email_finder', ['hunter']);
+ * for (const provider of policy.providers) { ... }
+ */
+export class EnrichmentProviderRegistry {
+  private readonly logger = new Logger(EnrichmentProviderRegistry.name);
+  private readonly providers = new Map<string, EnrichmentProvider>();
+  private readonly policies = new Map<
+    EnrichmentCapability,
+    EnrichmentFieldPolicy
+  >();
+
+  constructor(
+    providers: EnrichmentProvider[],
+    options: EnrichmentRegistryOptions = {},
+  ) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
+
+    const disabled = new Set(options.disabled ?? []);
+    const collectAll = new Set(options.collectAll ?? []);
+
+    for (const capability of ENRICHMENT_CAPABILITIES) {
+      const order =
+        options.waterfalls?.[capability] ??
+        providers
+          .filter((provider) => provider.capabilities.includes(capability))
+          .map((provider) => provider.name);
+
+      this.policies.set(capability, {
+        providers: order
+          .filter((name) => !disabled.has(name))
+          .map((name) => this.resolve(capability, name))
+          .filter((provider): provider is EnrichmentProvider => !!provider),
+        stopWhenSatisfied: !collectAll.has(capability),
+      });
+    }
+  }
+
+  /**
+   * Build the registry with the waterfall policy of the ENRICHMENT_*
+   * settings. Fields without a configured waterfall try every provider in
+   * list order.
+   */
+  static fromConfig(
+    providers: EnrichmentProvider[],
+    config: ConfigService,
+  ): EnrichmentProviderRegistry {
+    const waterfalls: EnrichmentRegistryOptions['waterfalls'] = {};
+    for (const capability of ENRICHMENT_CAPABILITIES) {
+      const order = config.getEnrichmentWaterfall(capability);
+      if (order) waterfalls[capability] = order;
+    }
+
+    return new EnrichmentProviderRegistry(providers, {
+      waterfalls,
+      collectAll: config
+        .getEnrichmentCollectAllFields()
+        .filter((field): field is EnrichmentCapability =>
+          (ENRICHMENT_CAPABILITIES as readonly string[]).includes(field),
+        ),
+      disabled: config.getDisabledEnrichmentProviders(),
+    });
+  }
+
+  /**
+   * Policy of a field, narrowed to the providers a job selected.
+   *
+   * @param sources - Provider names, or 'all'; every enabled provider when omitted
+   * @throws {BadRequestException} If a source isn't a registered provider
+   */
+  policyFor(
+    capability: EnrichmentCapability,
+    sources?: string[],
+  ): EnrichmentFieldPolicy {
+    const policy = this.policies.get(capability)!;
+    const selected = this.selectSources(sources);
+    if (!selected) return policy;
+
+    return {
+      ...policy,
+      providers: policy.providers.filter((provider) =>
+        selected.has(provider.name),
+      ),
+    };
+  }
+
+  /**
+   * Resolve a waterfall entry, dropping names that aren't registered or
+   * can't fill the field.
+   */
+  private resolve(
+    capability: EnrichmentCapability,
+    name: string,
+  ): EnrichmentProvider | null {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      this.logger.warn(
+        `Unknown enrichment provider "${name}" in ${capability} waterfall`,
+      );
+      return null;
+    }
+    if (!provider.capabilities.includes(capability)) {
+      this.logger.warn(
+        `Enrichment provider "${name}" can't fill ${capability}`,
+      );
+      return null;
+    }
+    return provider;
+  }
+
+  /**
+   * Provider names a job selected; null when it selected all of them.
+   */
+  private selectSources(sources?: string[]): Set<string> | null {
+    if (!sources?.length || sources.includes(ALL_ENRICHMENT_SOURCES)) {
+      return null;
+    }
+
+    const unknown = sources.filter((source) => !this.providers.has(source));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown enrichment source(s): ${unknown.join(', ')}`,
+      );
+    }
+    return new Set(sources);
+  }
+}
@@ -0,0 +1,138 @@
+import { Logger } from '@nestjs/common';
+import type { business } from '@prisma/client';
+
+/**
+ * Fields an enrichment provider can fill. EnrichmentService fills them in
+ * this order, so email verification sees the emails found before it.
+ */
+export const ENRICHMENT_CAPABILITIES = [
+  'firmographics',
+  'email_finder',
+  'email_verifier',
+  'phone_lookup',
+  'social_profiles',
+] as const;
+
+export type EnrichmentCapability = (typeof ENRICHMENT_CAPABILITIES)[number];
+
+/** Company details in our business shape. */
+export interface FoundFirmographics {
+  name?: string;
+  industry?: string;
+  employee_count?: number;
+  year_founded?: number;
+  opening_hours?: string;
+}
+
+/** Profile URLs of the business on social networks. */
+export interface FoundSocialProfiles {
+  facebook_url?: string;
+  instagram_url?: string;
+  linkedin_url?: string;
+}
+
+/** A person or mailbox found at the business. */
+export interface FoundContact {
+  email: string;
+  name: string | null;
+  title: string | null;
+  /** Verdict on the mailbox; null when the provider couldn't tell */
+  verified: boolean | null;
+  /** Good candidate for the business's primary contact */
+  preferred: boolean;
+  linkedin_url?: string;
+  /** Provider confidence in the contact, from 0 to 1 */
+  confidence?: number;
+}
+
+/**
+ * What one provider call found. Fields the provider doesn't cover are
+ * left out.
+ */
+export interface EnrichmentFindings {
+  firmographics?: FoundFirmographics;
+  contacts?: FoundContact[];
+  phone?: string;
+  /** General email address of the business */
+  email?: string;
+  socials?: FoundSocialProfiles;
+}
+
+export interface EnrichmentProviderResult extends EnrichmentFindings {
+  /** Provider response, returned to API callers as is */
+  response: unknown;
+  /** Short description of the call, recorded in enrichment and cost logs */
+  summary: Record<string, string | number | null>;
+  /**
+   * Provider confidence in the business fields found, from 0 to 1; unset
+   * when it doesn't report one
+   */
+  confidence?: number;
+}
+
+/** Business being enriched, with the domain of its website. */
+export interface EnrichmentRequest {
+  business: business;
+  domain: string;
+}
+
+/**
+ * Source of enrichment data for one or more fields.
+ *
+ * EnrichmentService never calls a provider's API client directly: it asks
+ * EnrichmentProviderRegistry for the providers of each field, in waterfall
+ * order, and persists what they find. Adding a provider means implementing
+ * this class and listing it in LeadEnrichmentModule.
+ *
+ * Implementations:
+ * - AbstractApiProvider: company firmographics from AbstractAPI
+ * - HunterProvider: emails, with verification status, from Hunter.io
+ * - WebsiteCrawlerProvider: emails, phone and social profiles from the
+ *   business's own website
+ */
+export abstract class EnrichmentProvider {
+  protected readonly logger: Logger;
+
+  /**
+   * Identifier used in waterfall config, job sources, enrichment_log.service
+   * and api_cost_log.service.
+   */
+  abstract readonly name: string;
+
+  /** Fields the provider can fill. */
+  abstract readonly capabilities: readonly EnrichmentCapability[];
+
+  /** Key of the provider's quota in RateLimiterService. */
+  abstract readonly rateLimitKey: string;
+
+  /** Cost in USD of one call, recorded in api_cost_log. */
+  abstract readonly costPerCall: number;
+
+  constructor() {
+    this.logger = new Logger(`${this.constructor.name}`);
+  }
+
+  /**
+   * Whether the provider has the credentials it needs.
+   */
+  abstract isConfigured(): boolean;
+
+  /**
+   * Look the business up. One call covers every field the provider has.
+   *
+   * @throws Error if the provider's API call fails
+   */
+  abstract enrich(
+    request: EnrichmentRequest,
+  ): Promise<EnrichmentProviderResult>;
+
+  /**
+   * Credits left this billing period as the provider reports them, or null
+   * when it doesn't. RateLimiterService then relies on its own count.
+   *
+   * @throws Error if the provider's API call fails
+   */
+  getRemainingCredits(): Promise<number | null> {
+    return Promise.resolve(null);
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { HunterApiClientService } from '../hunter-api-client.service';
+import {
+  EnrichmentProvider,
+  EnrichmentProviderResult,
+  EnrichmentRequest,
+} from './enrichment-provider';
+
+/** Contacts requested per domain search. */
+const SEARCH_LIMIT = 5;
+
+/**
+ * Emails at the business's domain from Hunter.io. The domain search
+ * reports each mailbox's verification status, so the same call also
+ * verifies the emails it finds.
+ */
+@Injectable()
+export class HunterProvider extends EnrichmentProvider {
+  readonly name = 'hunter';
+  readonly capabilities = ['email_finder', 'email_verifier'] as const;
+  readonly rateLimitKey = 'hunter.io';
+  readonly costPerCall = 0.5; // $0.50 per search
+
+  constructor(private readonly client: HunterApiClientService) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  async enrich({
+    domain,
+  }: EnrichmentRequest): Promise<EnrichmentProviderResult> {
+    const result = await this.client.searchDomain(domain, SEARCH_LIMIT);
+    const emails = result.emails ?? [];
+
+    return {
+      response: result,
+      summary: { emailsFound: emails.length },
+      contacts: emails.map((email) => ({
+        email: email.value,
+        name:
+          email.first_name && email.last_name
+            ? `${email.first_name} ${email.last_name}`.trim()
+            : null,
+        title: email.position || null,
+        verified: verdict(email.verification?.status),
+        preferred: email.type === 'personal' || email.seniority === 'senior',
+        confidence: email.confidence / 100,
+      })),
+    };
+  }
+
+  getRemainingCredits(): Promise<number | null> {
+    return this.client.getRemainingSearches();
+  }
+}
+
+/**
+ * Map a Hunter verification status to a verdict. Accept-all and unknown
+ * mailboxes can't be told apart from valid ones.
+ */
+function verdict(status?: string): boolean | null {
+  if (status === 'valid') return true;
+  if (status === 'invalid') return false;
+  return null;
+}
@@ -0,0 +1,370 @@
+import { Injectable, Optional } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+import { promises as dns } from 'dns';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import {
+  EnrichmentProvider,
+  EnrichmentProviderResult,
+  EnrichmentRequest,
+  FoundContact,
+  FoundSocialProfiles,
+} from './enrichment-provider';
+import {
+  formatPhone,
+  PageLink,
+  ParsedWebsitePage,
+  parseWebsitePage,
+} from './website-page-parser';
+
+/** Pages fetched per business, the home page included. */
+const MAX_PAGES = 5;
+
+/** Internal pages likely to list contact details, by path or link text. */
+const CONTACT_PAGE = /contact|about|team|staff|people|our-story|meet/i;
+
+/** Redirects followed per page. */
+const MAX_REDIRECTS = 3;
+
+/**
+ * Unspecified, loopback, private, link-local, benchmarking, multicast,
+ * reserved and NAT64 ranges, never fetched.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface WebsiteCrawlerOptions {
+  /** Hosts fetched even when they resolve to a blocked address */
+  allowedHosts?: string[];
+  /** Addresses of a hostname; DNS by default */
+  resolve?: (hostname: string) => Promise<string[]>;
+}
+
+/**
+ * Emails, phone, social profiles and schema.org LocalBusiness data from
+ * the business's own website.
+ *
+ * Fetches the home page and follows up to MAX_PAGES - 1 internal links to
+ * contact, about and team pages; other links are ignored. Runs on our own
+ * servers, so it has no credentials, quota or cost. Pages that fail after
+ * the home page are skipped; a home page that fails fails the call.
+ *
+ * Website values are user input, so every URL, redirects included, must be
+ * http(s) and resolve to public addresses only; the crawler never reaches
+ * our own network. Hostnames are checked by the lookup of the connection
+ * itself, so a DNS answer can't change between the check and the connect.
+ */
+@Injectable()
+export class WebsiteCrawlerProvider extends EnrichmentProvider {
+  readonly name = 'website';
+  readonly capabilities = [
+    'email_finder',
+    'phone_lookup',
+    'social_profiles',
+  ] as const;
+  readonly rateLimitKey = 'website';
+  readonly costPerCall = 0;
+
+  private readonly client: AxiosInstance;
+  private readonly allowedHosts: Set<string>;
+  private readonly resolve: (hostname: string) => Promise<string[]>;
+
+  constructor(@Optional() options: WebsiteCrawlerOptions = {}) {
+    super();
+    this.allowedHosts = new Set(options.allowedHosts);
+    this.resolve = options.resolve ?? resolveHost;
+    this.client = axios.create({
+      timeout: 10000,
+      httpAgent: new HttpAgent({ lookup: this.lookup }),
+      httpsAgent: new HttpsAgent({ lookup: this.lookup }),
+      // Redirects are followed by fetchPage, checking each hop
+      maxRedirects: 0,
+      validateStatus: (status) => status >= 200 && status < 400,
+      maxContentLength: 2 * 1024 * 1024,
+      responseType: 'text',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LeTipLeadSystem/1.0)',
+        Accept: 'text/html',
+      },
+    });
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async enrich({
+    business,
+  }: EnrichmentRequest): Promise<EnrichmentProviderResult> {
+    const home = toUrl(business.website!);
+    const pages = [await this.fetchPage(home)];
+
+    for (const url of this.pagesToFollow(home, pages[0].links)) {
+      try {
+        pages.push(await this.fetchPage(url));
+      } catch (error) {
+        this.logger.warn(`Skipped ${url.href}: ${error.message}`);
+      }
+    }
+
+    return this.combine(home, pages);
+  }
+
+  /**
+   * Internal links to contact, about and team pages, without duplicates
+   * and the home page itself.
+   */
+  private pagesToFollow(home: URL, links: PageLink[]): URL[] {
+    const seen = new Set([pageKey(home)]);
+    const urls: URL[] = [];
+
+    for (const { url, text } of links) {
+      if (urls.length >= MAX_PAGES - 1) break;
+      if (!/^https?:$/.test(url.protocol)) continue;
+      if (siteHost(url) !== siteHost(home)) continue;
+      if (!CONTACT_PAGE.test(`${url.pathname} ${text}`)) continue;
+
+      const key = pageKey(url);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      urls.push(url);
+    }
+
+    return urls;
+  }
+
+  /**
+   * @throws Error if the page or a redirect is not a public http(s) URL,
+   *   the request fails or the page isn't HTML
+   */
+  private async fetchPage(url: URL): Promise<ParsedWebsitePage & { url: URL }> {
+    try {
+      let current = url;
+      let response = await this.get(current);
+      for (
+        let redirects = 0;
+        response.status >= 300 && response.status < 400;
+        redirects++
+      ) {
+        const location = response.headers['location'] as string | undefined;
+        if (!location) {
+          throw new Error(`redirect without a location (${response.status})`);
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+        }
+        current = new URL(location, current);
+        response = await this.get(current);
+      }
+
+      const contentType = String(response.headers['content-type'] ?? '');
+      if (!contentType.includes('html')) {
+        throw new Error(`not an HTML page (${contentType || 'no type'})`);
+      }
+
+      return { url: current, ...parseWebsitePage(response.data, current) };
+    } catch (error) {
+      throw new Error(`Website fetch failed for ${url.href}: ${error.message}`);
+    }
+  }
+
+  /**
+   * One request, without following redirects, once the URL is checked.
+   */
+  private async get(url: URL) {
+    this.assertPublic(url);
+    return this.client.get<string>(url.href);
+  }
+
+  /**
+   * Check what can be checked before connecting: the protocol, and hosts
+   * given as an IP address, which the connection doesn't look up.
+   *
+   * @throws Error if the URL isn't http(s) or is a blocked address that
+   *   isn't an allowed host
+   */
+  private assertPublic(url: URL): void {
+    if (!/^https?:$/.test(url.protocol)) {
+      throw new Error(`unsupported protocol ${url.protocol}`);
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(hostname)) this.assertAllowed(hostname, [hostname]);
+  }
+
+  /**
+   * Lookup of the http(s) agents: resolves the hostname and connects only
+   * to addresses that passed the check.
+   */
+  private readonly lookup: LookupFunction = (hostname, options, callback) => {
+    this.resolve(hostname)
+      .then((addresses) => {
+        this.assertAllowed(hostname, addresses);
+
+        const usable = addresses.filter(
+          (address) => !options.family || isIP(address) === options.family,
+        );
+        if (usable.length === 0) {
+          throw new Error(`${hostname} has no usable address`);
+        }
+        if (options.all) {
+          callback(
+            null,
+            usable.map((address) => ({ address, family: isIP(address) })),
+          );
+        } else {
+          callback(null, usable[0], isIP(usable[0]));
+        }
+      })
+      .catch((error: NodeJS.ErrnoException) => callback(error, ''));
+  };
+
+  /**
+   * @throws Error if any address is blocked and the host isn't allowed
+   */
+  private assertAllowed(hostname: string, addresses: string[]): void {
+    if (this.allowedHosts.has(hostname)) return;
+
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) {
+      throw new Error(`${hostname} resolves to a private address (${blocked})`);
+    }
+  }
+
+  /**
+   * Merge the pages, schema.org data first. Emails of people listed in the
+   * schema.org data become named, preferred contacts.
+   */
+  private combine(
+    home: URL,
+    pages: Array<ParsedWebsitePage & { url: URL }>,
+  ): EnrichmentProviderResult {
+    const business = pages.find((page) => page.business)?.business ?? null;
+    const emails = [
+      ...new Set(
+        [business?.email, ...pages.flatMap((page) => page.emails)].filter(
+          (email): email is string => !!email,
+        ),
+      ),
+    ];
+    const phones = pages.flatMap((page) => page.phones);
+    const socials: FoundSocialProfiles = Object.assign(
+      {},
+      ...pages.map((page) => page.socials).reverse(),
+    );
+
+    const contacts = new Map<string, FoundContact>();
+    for (const person of business?.people ?? []) {
+      if (!person.email) continue;
+      contacts.set(person.email, {
+        email: person.email,
+        name: person.name,
+        title: person.title,
+        verified: null,
+        preferred: true,
+        ...(person.linkedin_url ? { linkedin_url: person.linkedin_url } : {}),
+      });
+    }
+    for (const email of emails) {
+      if (contacts.has(email)) continue;
+      contacts.set(email, {
+        email,
+        name: null,
+        title: null,
+        verified: null,
+        preferred: false,
+      });
+    }
+
+    const firmographics = {
+      opening_hours: business?.opening_hours,
+      year_founded: business?.year_founded,
+      employee_count: business?.employee_count,
+    };
+    const domain = siteHost(home);
+    const phone = business?.telephone
+      ? (formatPhone(business.telephone) ?? business.telephone)
+      : phones[0];
+    const email =
+      business?.email ??
+      emails.find((address) => address.endsWith(`@${domain}`)) ??
+      emails[0];
+
+    return {
+      response: {
+        pages: pages.map((page) => page.url.href),
+        emails,
+        phones: [...new Set(phones)],
+        socials,
+        localBusiness: business,
+      },
+      summary: {
+        pagesCrawled: pages.length,
+        emailsFound: emails.length,
+        phone: phone ?? null,
+      },
+      firmographics,
+      contacts: [...contacts.values()],
+      ...(phone ? { phone } : {}),
+      ...(email ? { email } : {}),
+      socials,
+    };
+  }
+}
+
+/** The website column may lack a protocol. */
+function toUrl(website: string): URL {
+  return new URL(
+    /^https?:\/\//i.test(website) ? website : `https://${website}`,
+  );
+}
+
+/** Every address of a hostname. */
+async function resolveHost(hostname: string): Promise<string[]> {
+  const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(({ address }) => address);
+}
+
+/**
+ * Whether an address is in a blocked range. BlockList matches IPv4-mapped
+ * IPv6 addresses against the IPv4 ranges.
+ */
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(
+    address,
+    isIP(address) === 6 ? 'ipv6' : 'ipv4',
+  );
+}
+
+/** Host without www., so www and bare links count as internal. */
+function siteHost(url: URL): string {
+  return url.host.replace(/^www\./, '');
+}
+
+/** Page identity, ignoring fragments and trailing slashes. */
+function pageKey(url: URL): string {
+  return `${siteHost(url)}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+}
@@ -0,0 +1,338 @@
+import type { FoundSocialProfiles } from './enrichment-provider';
+
+/** A link on the page, resolved against the page URL. */
+export interface PageLink {
+  url: URL;
+  /** Anchor text, without markup */
+  text: string;
+}
+
+/** A person listed as founder or employee in schema.org data. */
+export interface PagePerson {
+  name: string;
+  title: string | null;
+  email: string | null;
+  linkedin_url: string | null;
+}
+
+/** Details of a schema.org LocalBusiness (or Organization) node. */
+export interface PageBusiness {
+  telephone?: string;
+  email?: string;
+  opening_hours?: string;
+  year_founded?: number;
+  employee_count?: number;
+  /** Profile URLs listed in sameAs */
+  sameAs: string[];
+  people: PagePerson[];
+}
+
+/** What one page of a business website tells about the business. */
+export interface ParsedWebsitePage {
+  /** Lowercased, in order of appearance */
+  emails: string[];
+  /** tel: links first, then numbers in the text, formatted like Maps */
+  phones: string[];
+  socials: FoundSocialProfiles;
+  links: PageLink[];
+  business: PageBusiness | null;
+}
+
+/** Mailboxes of website builders and placeholders, never the business's. */
+const IGNORED_EMAIL_DOMAINS = new Set([
+  'example.com',
+  'domain.com',
+  'email.com',
+  'sentry.io',
+  'wixpress.com',
+  'sentry.wixpress.com',
+]);
+
+/** Extensions of files named like name@2x.png, which look like emails. */
+const FILE_EXTENSION = /\.(png|jpe?g|gif|svg|webp|css|js)$/i;
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+/** North American numbers, optionally with a +1 prefix. */
+const PHONE = /(?:\+?1[\s.-]?)?\(?\b(\d{3})\)?[\s.-]?(\d{3})[\s.-](\d{4})\b/g;
+
+const ANCHOR = /<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi;
+
+const JSON_LD =
+  /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+/** First path segments of share buttons, posts and widgets. */
+const FACEBOOK_NON_PROFILE = [
+  'sharer',
+  'sharer.php',
+  'share.php',
+  'dialog',
+  'plugins',
+  'tr',
+];
+const INSTAGRAM_NON_PROFILE = ['p', 'reel', 'explore', 'accounts'];
+
+/** schema.org types read as the business itself. */
+const BUSINESS_TYPES = ['LocalBusiness', 'Organization', 'Corporation'];
+
+/**
+ * Extract contact details from the HTML of a business website page.
+ *
+ * Works on the raw markup with regular expressions: emails and phones from
+ * mailto:/tel: links and the visible text, social profiles from links, and
+ * the schema.org LocalBusiness node of any JSON-LD block. Subtypes such as
+ * Dentist or Restaurant count as LocalBusiness when they have an address.
+ *
+ * @param html - Page markup
+ * @param pageUrl - URL the page was fetched from, for relative links
+ */
+export function parseWebsitePage(
+  html: string,
+  pageUrl: URL,
+): ParsedWebsitePage {
+  const links: PageLink[] = [];
+  const linkEmails: string[] = [];
+  const linkPhones: string[] = [];
+
+  for (const [, , href, content] of html.matchAll(ANCHOR)) {
+    const target = decodeEntities(href).trim();
+
+    if (/^mailto:/i.test(target)) {
+      linkEmails.push(decodeURIComponent(target.slice(7).split('?')[0]));
+    } else if (/^tel:/i.test(target)) {
+      linkPhones.push(target.slice(4));
+    } else {
+      try {
+        links.push({ url: new URL(target, pageUrl), text: toText(content) });
+      } catch {
+        // Malformed href
+      }
+    }
+  }
+
+  const business = parseBusiness(html);
+  const text = toText(html);
+
+  return {
+    emails: unique(
+      [...linkEmails, ...(text.match(EMAIL) ?? [])]
+        .map((email) => email.toLowerCase())
+        .filter(isBusinessEmail),
+    ),
+    phones: unique(
+      [...linkPhones, ...(text.match(PHONE) ?? [])]
+        .map(formatPhone)
+        .filter((phone): phone is string => !!phone),
+    ),
+    socials: findSocialProfiles([
+      ...(business?.sameAs ?? []),
+      ...links.map((link) => link.url.href),
+    ]),
+    links,
+    business,
+  };
+}
+
+/**
+ * Format a North American number as Google Maps does, "(732) 555-0101".
+ *
+ * @returns Formatted number, or null if it isn't a 10-digit number
+ */
+export function formatPhone(value: string): string | null {
+  const digits = value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  if (digits.length !== 10) return null;
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+}
+
+/**
+ * First business profile per network among the given URLs. Share buttons,
+ * posts and personal LinkedIn profiles are skipped.
+ */
+function findSocialProfiles(urls: string[]): FoundSocialProfiles {
+  const socials: FoundSocialProfiles = {};
+
+  for (const value of urls) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      continue;
+    }
+
+    const host = url.hostname.replace(/^(www|m)\./, '');
+    const [first] = url.pathname.split('/').filter(Boolean);
+    if (!first) continue;
+    const profile = `https://www.${host}${url.pathname.replace(/\/+$/, '')}`;
+
+    if (host === 'facebook.com' && !FACEBOOK_NON_PROFILE.includes(first)) {
+      socials.facebook_url ??= profile;
+    } else if (
+      host === 'instagram.com' &&
+      !INSTAGRAM_NON_PROFILE.includes(first)
+    ) {
+      socials.instagram_url ??= profile;
+    } else if (host === 'linkedin.com' && first === 'company') {
+      socials.linkedin_url ??= profile;
+    }
+  }
+
+  return socials;
+}
+
+/**
+ * Read the business node of the page's JSON-LD blocks. Blocks that don't
+ * parse are skipped.
+ */
+function parseBusiness(html: string): PageBusiness | null {
+  for (const [, json] of html.matchAll(JSON_LD)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      continue;
+    }
+
+    const node = findNodes(data).find(isBusinessNode);
+    if (!node) continue;
+
+    const sameAs = toArray(node.sameAs).filter(
+      (url): url is string => typeof url === 'string',
+    );
+
+    return {
+      telephone: asString(node.telephone),
+      email: asString(node.email)
+        ?.replace(/^mailto:/i, '')
+        .toLowerCase(),
+      opening_hours: openingHours(node),
+      year_founded:
+        parseInt(asString(node.foundingDate) ?? '', 10) || undefined,
+      employee_count: employeeCount(node.numberOfEmployees),
+      sameAs,
+      people: [...toArray(node.founder), ...toArray(node.employee)]
+        .filter(isObject)
+        .map(toPerson)
+        .filter((person): person is PagePerson => !!person),
+    };
+  }
+
+  return null;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** Every object in a JSON-LD document, including @graph members. */
+function findNodes(data: unknown): JsonObject[] {
+  if (Array.isArray(data)) return data.flatMap(findNodes);
+  if (!isObject(data)) return [];
+  return [data, ...findNodes(data['@graph'])];
+}
+
+function isBusinessNode(node: JsonObject): boolean {
+  const types = toArray(node['@type']).filter(
+    (type): type is string => typeof type === 'string',
+  );
+  if (types.some((type) => BUSINESS_TYPES.includes(type))) return true;
+  return (
+    types.length > 0 &&
+    !types.includes('Person') &&
+    !types.includes('WebSite') &&
+    !types.includes('WebPage') &&
+    node.address !== undefined
+  );
+}
+
+/** openingHours, or openingHoursSpecification, as one line. */
+function openingHours(node: JsonObject): string | undefined {
+  const hours = toArray(node.openingHours).filter(
+    (value): value is string => typeof value === 'string',
+  );
+  if (hours.length > 0) return hours.join(', ');
+
+  const specification = toArray(node.openingHoursSpecification)
+    .filter(isObject)
+    .map((spec) => {
+      const days = toArray(spec.dayOfWeek)
+        .filter((day): day is string => typeof day === 'string')
+        .map((day) => day.replace(/^https?:\/\/schema\.org\//, '').slice(0, 2))
+        .join(',');
+      return `${days} ${asString(spec.opens) ?? ''}-${asString(spec.closes) ?? ''}`;
+    });
+  return specification.length > 0 ? specification.join(', ') : undefined;
+}
+
+/** numberOfEmployees, a number or a QuantitativeValue. */
+function employeeCount(value: unknown): number | undefined {
+  const count = isObject(value) ? (value.value ?? value.maxValue) : value;
+  const parsed =
+    typeof count === 'number' ? count : parseInt(String(count), 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toPerson(node: JsonObject): PagePerson | null {
+  const name = asString(node.name);
+  if (!name) return null;
+
+  const linkedin = toArray(node.sameAs).find(
+    (url): url is string =>
+      typeof url === 'string' && /linkedin\.com\/in\//i.test(url),
+  );
+
+  return {
+    name,
+    title: asString(node.jobTitle) ?? null,
+    email:
+      asString(node.email)
+        ?.replace(/^mailto:/i, '')
+        .toLowerCase() ?? null,
+    linkedin_url: linkedin ?? null,
+  };
+}
+
+function isBusinessEmail(email: string): boolean {
+  const domain = email.split('@')[1];
+  return !FILE_EXTENSION.test(email) && !IGNORED_EMAIL_DOMAINS.has(domain);
+}
+
+/** Visible text of some markup, with scripts and styles removed. */
+function toText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
@@ -1,48 +1,76 @@
 import { Injectable, Logger } from '@nestjs/common';
-
-interface RateLimitConfig {
-  maxCalls: number;
-  periodMs: number;
+import { ConfigService } from '../../../config/config.service';
+import { ApiQuotaRepository } from '../data/repositories/api-quota.repository';
+
+/**
+ * Remaining budget of a metered API in the current billing period.
+ */
+export interface QuotaStatus {
+  service: string;
+  /** Billing month, YYYY-MM in UTC */
+  period: string;
+  /** Calls included per month; null for services without a quota */
+  limit: number | null;
+  /** Calls counted this period across all instances */
+  used: number;
+  /** Calls left; null for services without a quota */
+  remaining: number | null;
+  /** Credits the provider last reported left, if it reports them */
+  reportedRemaining: number | null;
+  reportedAt: Date | null;
+  resetsAt: Date;
+  /** Remaining calls are within the reserve kept for manual enrichment */
+  nearLimit: boolean;
 }
 
-interface CallRecord {
-  count: number;
-  resetAt: Date;
+export interface CanMakeCallOptions {
+  /**
+   * Queued work, which stops at the reserve so the last calls of the month
+   * stay available for manual enrichment
+   */
+  background?: boolean;
 }
 
 @Injectable()
 export class RateLimiterService {
   private readonly logger = new Logger(RateLimiterService.name);
-  private readonly limits: Map<string, RateLimitConfig> = new Map([
-    ['hunter.io', { maxCalls: 500, periodMs: 30 * 24 * 60 * 60 * 1000 }], // 500/month
-    ['abstractapi', { maxCalls: 3000, periodMs: 30 * 24 * 60 * 60 * 1000 }], // 3000/month
+  /** Calls included per calendar month */
+  private readonly limits: Map<string, number> = new Map([
+    ['hunter.io', 500],
+    ['abstractapi', 3000],
   ]);
-  private readonly callRecords: Map<string, CallRecord> = new Map();
+
+  constructor(
+    private readonly quotaRepository: ApiQuotaRepository,
+    private readonly configService: ConfigService,
+  ) {}
 
   /**
-   * Check if service has remaining API calls within rate limit.
+   * Check if service has remaining API calls within its monthly quota.
    *
    * @param service - Service name ('hunter.io', 'abstractapi')
    * @returns True if can make call, false if limit exceeded
    */
-  canMakeCall(service: string): boolean {
-    const config = this.limits.get(service);
-    if (!config) return true; // No limit configured
-
-    const record = this.getOrCreateRecord(service, config);
-
-    // Check if reset period passed
-    if (new Date() > record.resetAt) {
-      record.count = 0;
-      record.resetAt = new Date(Date.now() + config.periodMs);
-    }
+  async canMakeCall(
+    service: string,
+    options: CanMakeCallOptions = {},
+  ): Promise<boolean> {
+    const status = await this.getStatus(service);
+    if (status.limit === null) return true; // No limit configured
 
-    const canCall = record.count < config.maxCalls;
+    const remaining = status.remaining!;
+    const floor = options.background ? this.reserveFor(status.limit) : 0;
+    const canCall = remaining > floor;
 
     if (!canCall) {
-      this.logger.warn(`Rate limit exceeded for ${service}: ${record.count}/${config.maxCalls}`);
-    } else if (record.count > config.maxCalls * 0.8) {
-      this.logger.warn(`Rate limit warning for ${service}: ${record.count}/${config.maxCalls} (80%)`);
+      this.logger.warn(
+        `Rate limit exceeded for ${service}: ${remaining}/${status.limit} left` +
+          (floor ? ` (reserve ${floor})` : ''),
+      );
+    } else if (remaining < status.limit * 0.2) {
+      this.logger.warn(
+        `Rate limit warning for ${service}: ${remaining}/${status.limit} left`,
+      );
     }
 
     return canCall;
@@ -52,15 +80,34 @@ export class RateLimiterService {
    * Record an API call for rate limiting.
    *
    * @param service - Service name
+   *
+   * @side-effects Increments the service's api_quota_usage row for the period
    */
-  recordCall(service: string): void {
-    const config = this.limits.get(service);
-    if (!config) return;
+  async recordCall(service: string): Promise<void> {
+    if (!this.limits.has(service)) return;
+
+    const usage = await this.quotaRepository.increment(
+      service,
+      currentPeriod(),
+    );
 
-    const record = this.getOrCreateRecord(service, config);
-    record.count++;
+    this.logger.debug(
+      `Recorded call for ${service}: ${usage.calls}/${this.limits.get(service)}`,
+    );
+  }
 
-    this.logger.debug(`Recorded call for ${service}: ${record.count}/${config.maxCalls}`);
+  /**
+   * Store the credits a provider reports left. They take precedence over
+   * the local count until the next report.
+   *
+   * @param service - Service name
+   * @param remaining - Credits left according to the provider
+   */
+  async recordReportedRemaining(
+    service: string,
+    remaining: number,
+  ): Promise<void> {
+    await this.quotaRepository.setReported(service, currentPeriod(), remaining);
   }
 
   /**
@@ -69,26 +116,59 @@ export class RateLimiterService {
    * @param service - Service name
    * @returns Number of remaining calls
    */
-  getRemainingCalls(service: string): number {
-    const config = this.limits.get(service);
-    if (!config) return Infinity;
-
-    const record = this.getOrCreateRecord(service, config);
-
-    if (new Date() > record.resetAt) {
-      return config.maxCalls;
-    }
+  async getRemainingCalls(service: string): Promise<number> {
+    const status = await this.getStatus(service);
+    return status.remaining ?? Infinity;
+  }
 
-    return Math.max(0, config.maxCalls - record.count);
+  /**
+   * Get the budget of a service in the current billing period.
+   */
+  async getStatus(service: string): Promise<QuotaStatus> {
+    const period = currentPeriod();
+    const limit = this.limits.get(service) ?? null;
+    const usage = await this.quotaRepository.find(service, period);
+    const used = usage?.calls ?? 0;
+
+    // Calls made since the provider's report come off its figure
+    const reported =
+      usage?.reported_remaining != null
+        ? usage.reported_remaining - (used - (usage.calls_at_report ?? 0))
+        : null;
+
+    const remaining =
+      limit === null ? null : Math.max(0, reported ?? limit - used);
+
+    return {
+      service,
+      period,
+      limit,
+      used,
+      remaining,
+      reportedRemaining: usage?.reported_remaining ?? null,
+      reportedAt: usage?.reported_at ?? null,
+      resetsAt: nextPeriodStart(),
+      nearLimit: limit !== null && remaining! <= this.reserveFor(limit),
+    };
   }
 
-  private getOrCreateRecord(service: string, config: RateLimitConfig): CallRecord {
-    if (!this.callRecords.has(service)) {
-      this.callRecords.set(service, {
-        count: 0,
-        resetAt: new Date(Date.now() + config.periodMs),
-      });
-    }
-    return this.callRecords.get(service)!;
+  /**
+   * Calls kept back from queued work, from ENRICHMENT_QUOTA_RESERVE_PERCENT.
+   */
+  private reserveFor(limit: number): number {
+    return Math.ceil(
+      (limit * this.configService.getEnrichmentQuotaReservePercent()) / 100,
+    );
   }
-}
\ No newline at end of file
+}
+
+/** Billing month of the current date, YYYY-MM in UTC. */
+function currentPeriod(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+/** Start of the next billing month, in UTC. */
+function nextPeriodStart(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
@@ -2,23 +2,55 @@ import { Module } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { EnrichmentController } from './api/enrichment.controller';
 import { EnrichmentService } from './domain/enrichment.service';
+import { EnrichmentRefreshService } from './domain/enrichment-refresh.service';
 import { HunterApiClientService } from './domain/hunter-api-client.service';
 import { AbstractApiClientService } from './domain/abstract-api-client.service';
 import { RateLimiterService } from './domain/rate-limiter.service';
+import { AbstractApiProvider } from './domain/providers/abstract-api.provider';
+import { HunterProvider } from './domain/providers/hunter.provider';
+import { WebsiteCrawlerProvider } from './domain/providers/website-crawler.provider';
+import { EnrichmentProviderRegistry } from './domain/providers/enrichment-provider.registry';
 import { EnrichmentLogRepository } from './data/repositories/enrichment-log.repository';
+import { ApiQuotaRepository } from './data/repositories/api-quota.repository';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { ConfigModule } from '../../config/config.module';
+import { ConfigService } from '../../config/config.service';
 
 @Module({
   imports: [PrismaModule, ConfigModule, EventEmitterModule],
   controllers: [EnrichmentController],
   providers: [
     EnrichmentService,
+    EnrichmentRefreshService,
     HunterApiClientService,
     AbstractApiClientService,
+    AbstractApiProvider,
+    HunterProvider,
+    WebsiteCrawlerProvider,
+    {
+      // List order is the default waterfall order of each field
+      provide: EnrichmentProviderRegistry,
+      useFactory: (
+        config: ConfigService,
+        abstract: AbstractApiProvider,
+        hunter: HunterProvider,
+        website: WebsiteCrawlerProvider,
+      ): EnrichmentProviderRegistry =>
+        EnrichmentProviderRegistry.fromConfig(
+          [abstract, hunter, website],
+          config,
+        ),
+      inject: [
+        ConfigService,
+        AbstractApiProvider,
+        HunterProvider,
+        WebsiteCrawlerProvider,
+      ],
+    },
     RateLimiterService,
     EnrichmentLogRepository,
+    ApiQuotaRepository,
   ],
-  exports: [EnrichmentService],
+  exports: [EnrichmentService, EnrichmentRefreshService],
 })
 export class LeadEnrichmentModule {}
\ No newline at end of file
@@ -1,3 +1,11 @@
 export * from './enrichment.module';
 export * from './domain/enrichment.service';
+export * from './domain/enrichment-refresh.service';
+export * from './domain/enrichment-refresh.helper';
+export * from './domain/rate-limiter.service';
+export * from './domain/providers/enrichment-provider';
+export * from './domain/providers/enrichment-provider.registry';
+export * from './domain/providers/abstract-api.provider';
+export * from './domain/providers/hunter.provider';
+export * from './domain/providers/website-crawler.provider';
 export * from './api/enrichment.controller';
\ No newline at end of file
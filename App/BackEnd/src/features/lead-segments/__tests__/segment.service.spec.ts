@@ -0,0 +1,193 @@
+/**
+ * SegmentService Unit Tests
+ *
+ * Test Categories:
+ * - findAll(): business counts from the stored filter
+ * - create(): filter cleanup and validation, name conflicts
+ * - update() / remove(): ownership
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { SegmentService } from '../domain/segment.service';
+import { SegmentRepository } from '../data/segment.repository';
+import { TagRepository } from '../data/tag.repository';
+
+describe('SegmentService', () => {
+  let service: SegmentService;
+  let repository: jest.Mocked<SegmentRepository>;
+  let tagRepository: jest.Mocked<TagRepository>;
+
+  const admin = { id: 'admin-uuid', role: Role.ADMIN };
+  const member = { id: 'member-uuid', role: Role.MEMBER };
+
+  const segment = (overrides: Record<string, unknown> = {}) => ({
+    id: 4,
+    name: 'Freehold contractors',
+    description: null,
+    filter: { city: 'Freehold', tag_ids: [3], contacted: false },
+    created_by: 'member-uuid',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SegmentService,
+        {
+          provide: SegmentRepository,
+          useValue: {
+            findAll: jest.fn(),
+            findOne: jest.fn().mockResolvedValue(segment()),
+            findByName: jest.fn().mockResolvedValue(null),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+            countBusinesses: jest.fn().mockResolvedValue(0),
+          },
+        },
+        {
+          provide: TagRepository,
+          useValue: {
+            findOne: jest
+              .fn()
+              .mockImplementation((id: number) =>
+                Promise.resolve({ id, name: `tag-${id}` }),
+              ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SegmentService);
+    repository = module.get(SegmentRepository);
+    tagRepository = module.get(TagRepository);
+  });
+
+  describe('findAll', () => {
+    it('should count the businesses each segment currently matches', async () => {
+      repository.findAll.mockResolvedValue([segment()] as any);
+      repository.countBusinesses.mockResolvedValue(12);
+
+      const [result] = await service.findAll();
+
+      expect(repository.countBusinesses).toHaveBeenCalledWith({
+        city: 'Freehold',
+        tags: { some: { tag_id: { in: [3] } } },
+        last_outreach_at: null,
+      });
+      expect(result.business_count).toBe(12);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException for a missing segment', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne(999)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should store only the filter fields that are set', async () => {
+      repository.create.mockResolvedValue(segment() as any);
+
+      await service.create(
+        {
+          name: ' Freehold contractors ',
+          filter: {
+            city: 'Freehold',
+            industry: undefined,
+            tag_ids: [3],
+            contacted: false,
+          },
+        },
+        member,
+      );
+
+      expect(repository.create).toHaveBeenCalledWith({
+        name: 'Freehold contractors',
+        description: undefined,
+        filter: { city: 'Freehold', tag_ids: [3], contacted: false },
+        created_by: 'member-uuid',
+      });
+    });
+
+    it('should reject an empty filter', async () => {
+      await expect(
+        service.create({ name: 'Everything', filter: { tag_ids: [] } }, member),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tag IDs', async () => {
+      tagRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.create({ name: 'Tagged', filter: { tag_ids: [99] } }, member),
+      ).rejects.toThrow('Unknown tag IDs: 99');
+    });
+
+    it('should reject a name that is already taken', async () => {
+      repository.findByName.mockResolvedValue(segment() as any);
+
+      await expect(
+        service.create(
+          { name: 'Freehold contractors', filter: { city: 'Freehold' } },
+          member,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('update', () => {
+    it('should let the creator replace the filter', async () => {
+      await service.update(4, { filter: { city: 'Howell' } }, member);
+
+      expect(repository.update).toHaveBeenCalledWith(4, {
+        filter: { city: 'Howell' },
+      });
+    });
+
+    it("should forbid members from changing another member's segment", async () => {
+      repository.findOne.mockResolvedValue(
+        segment({ created_by: 'other-uuid' }) as any,
+      );
+
+      await expect(
+        service.update(4, { name: 'Mine now' }, member),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let admins change any segment', async () => {
+      repository.findOne.mockResolvedValue(
+        segment({ created_by: 'other-uuid' }) as any,
+      );
+
+      await service.update(4, { description: 'Spring push' }, admin);
+
+      expect(repository.update).toHaveBeenCalledWith(4, {
+        description: 'Spring push',
+      });
+    });
+  });
+
+  describe('remove', () => {
+    it("should delete the creator's segment", async () => {
+      await service.remove(4, member);
+
+      expect(repository.delete).toHaveBeenCalledWith(4);
+    });
+  });
+});
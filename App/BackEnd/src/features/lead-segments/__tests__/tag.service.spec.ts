@@ -0,0 +1,214 @@
+/**
+ * TagService Unit Tests
+ *
+ * Test Categories:
+ * - findAll(): usage counts
+ * - create() / update(): name normalization, conflicts, cache invalidation
+ * - remove(): refused while segments use the tag
+ * - updateBusinessTags(): validation, tagging, events
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { TagService } from '../domain/tag.service';
+import { TagRepository } from '../data/tag.repository';
+import { SegmentRepository } from '../data/segment.repository';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+import { BusinessCacheService } from '../../business-management/domain/business-cache.service';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+
+describe('TagService', () => {
+  let service: TagService;
+  let repository: jest.Mocked<TagRepository>;
+  let segmentRepository: jest.Mocked<SegmentRepository>;
+  let businessRepository: jest.Mocked<BusinessRepository>;
+  let cache: jest.Mocked<BusinessCacheService>;
+  let eventsGateway: jest.Mocked<EventsGateway>;
+
+  const tag = (overrides: Record<string, unknown> = {}) => ({
+    id: 3,
+    name: 'contractor',
+    color: null,
+    created_at: new Date('2026-10-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagService,
+        {
+          provide: TagRepository,
+          useValue: {
+            findAll: jest.fn(),
+            findOne: jest.fn().mockResolvedValue(tag()),
+            findByName: jest.fn().mockResolvedValue(null),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: SegmentRepository,
+          useValue: { findByTag: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: BusinessRepository,
+          useValue: {
+            exists: jest.fn().mockResolvedValue(true),
+            applyTags: jest.fn(),
+            findOne: jest.fn().mockResolvedValue({ id: 12, tags: [] }),
+          },
+        },
+        {
+          provide: BusinessCacheService,
+          useValue: {
+            invalidateAll: jest.fn(),
+            invalidateAllBusinesses: jest.fn(),
+          },
+        },
+        {
+          provide: EventsGateway,
+          useValue: { emitBusinessUpdated: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TagService);
+    repository = module.get(TagRepository);
+    segmentRepository = module.get(SegmentRepository);
+    businessRepository = module.get(BusinessRepository);
+    cache = module.get(BusinessCacheService);
+    eventsGateway = module.get(EventsGateway);
+  });
+
+  describe('findAll', () => {
+    it('should flatten usage counts', async () => {
+      repository.findAll.mockResolvedValue([
+        { ...tag(), _count: { businesses: 7 } },
+      ] as any);
+
+      const result = await service.findAll();
+
+      expect(result).toEqual([{ ...tag(), business_count: 7 }]);
+    });
+  });
+
+  describe('create', () => {
+    it('should store the name trimmed and lowercase', async () => {
+      repository.create.mockResolvedValue(tag() as any);
+
+      await service.create({ name: '  Contractor ', color: '#2563eb' });
+
+      expect(repository.findByName).toHaveBeenCalledWith('contractor');
+      expect(repository.create).toHaveBeenCalledWith({
+        name: 'contractor',
+        color: '#2563eb',
+      });
+    });
+
+    it('should reject a name that is already taken', async () => {
+      repository.findByName.mockResolvedValue(tag() as any);
+
+      await expect(service.create({ name: 'Contractor' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a blank name', async () => {
+      await expect(service.create({ name: '   ' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should rename the tag and invalidate every business cache', async () => {
+      repository.update.mockResolvedValue(tag({ name: 'builder' }) as any);
+
+      await service.update(3, { name: 'Builder' });
+
+      expect(repository.update).toHaveBeenCalledWith(3, { name: 'builder' });
+      expect(cache.invalidateAllBusinesses).toHaveBeenCalled();
+    });
+
+    it('should not check availability when the name is unchanged', async () => {
+      repository.update.mockResolvedValue(tag({ color: '#000000' }) as any);
+
+      await service.update(3, { name: 'Contractor', color: '#000000' });
+
+      expect(repository.findByName).not.toHaveBeenCalled();
+      expect(repository.update).toHaveBeenCalledWith(3, { color: '#000000' });
+    });
+
+    it('should throw NotFoundException for a missing tag', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.update(999, { name: 'x' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete an unused tag', async () => {
+      await service.remove(3);
+
+      expect(repository.delete).toHaveBeenCalledWith(3);
+      expect(cache.invalidateAllBusinesses).toHaveBeenCalled();
+    });
+
+    it('should refuse to delete a tag used by a saved segment', async () => {
+      segmentRepository.findByTag.mockResolvedValue([
+        { id: 4, name: 'Freehold contractors' },
+      ] as any);
+
+      await expect(service.remove(3)).rejects.toThrow(
+        'Tag is used by saved segments: Freehold contractors',
+      );
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateBusinessTags', () => {
+    it('should apply normalized tags and broadcast the business', async () => {
+      const result = await service.updateBusinessTags(12, {
+        add: ['Contractor', 'contractor '],
+        remove: ['Cold'],
+      });
+
+      expect(businessRepository.applyTags).toHaveBeenCalledWith(
+        [12],
+        ['contractor'],
+        ['cold'],
+      );
+      expect(cache.invalidateAll).toHaveBeenCalledWith(12);
+      expect(eventsGateway.emitBusinessUpdated).toHaveBeenCalledWith(result);
+    });
+
+    it('should require at least one tag', async () => {
+      await expect(
+        service.updateBusinessTags(12, { add: [' '] }),
+      ).rejects.toThrow(BadRequestException);
+      expect(businessRepository.applyTags).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a missing business', async () => {
+      businessRepository.exists.mockResolvedValue(false);
+
+      await expect(
+        service.updateBusinessTags(999, { add: ['contractor'] }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
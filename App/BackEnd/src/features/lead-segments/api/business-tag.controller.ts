@@ -0,0 +1,40 @@
+import { Controller, Patch, Body, Param, ParseIntPipe } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { TagService } from '../domain/tag.service';
+import { UpdateBusinessTagsDto } from './dto/tag.dto';
+
+/**
+ * Business tagging API controller.
+ *
+ * Provides REST endpoints scoped to one business:
+ * - PATCH /api/businesses/:id/tags - Add/remove tags by name
+ *
+ * Many businesses at once: POST /api/businesses/bulk-tag.
+ */
+@ApiTags('Tags')
+@Controller('api/businesses')
+export class BusinessTagController {
+  constructor(private readonly tagService: TagService) {}
+
+  @Patch(':id/tags')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add and/or remove tags on a business' })
+  @ApiResponse({ status: 200, description: 'Business with updated tags' })
+  @ApiResponse({ status: 400, description: 'No tags given' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Business not found' })
+  updateTags(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateBusinessTagsDto,
+  ) {
+    return this.tagService.updateBusinessTags(id, dto);
+  }
+}
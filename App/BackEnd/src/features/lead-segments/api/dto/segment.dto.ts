@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BusinessFilterDto } from '../../../business-management/api/dto/business-filter.dto';
+
+export class CreateSegmentDto {
+  @ApiProperty({
+    description: 'Segment name, unique across the team',
+    example: 'Freehold contractors not yet contacted',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'What the segment is for' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Business list filter the segment resolves to',
+    type: BusinessFilterDto,
+    example: { city: 'Freehold', tag_ids: [3], contacted: false },
+  })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BusinessFilterDto)
+  filter: BusinessFilterDto;
+}
+
+export class UpdateSegmentDto {
+  @ApiPropertyOptional({ description: 'Segment name' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'What the segment is for' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Replacement filter definition',
+    type: BusinessFilterDto,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BusinessFilterDto)
+  filter?: BusinessFilterDto;
+}
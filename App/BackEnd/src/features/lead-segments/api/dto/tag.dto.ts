@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export class CreateTagDto {
+  @ApiProperty({
+    description: 'Tag name (stored lowercase)',
+    example: 'contractor',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Hex color for the tag chip',
+    example: '#2563eb',
+  })
+  @IsOptional()
+  @Matches(HEX_COLOR, { message: 'color must be a hex color like #2563eb' })
+  color?: string;
+}
+
+export class UpdateTagDto {
+  @ApiPropertyOptional({ description: 'Tag name (stored lowercase)' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Hex color for the tag chip, or null to clear it',
+    nullable: true,
+  })
+  @IsOptional()
+  @Matches(HEX_COLOR, { message: 'color must be a hex color like #2563eb' })
+  color?: string | null;
+}
+
+export class UpdateBusinessTagsDto {
+  @ApiPropertyOptional({
+    description: 'Tag names to add (created if missing)',
+    type: [String],
+    example: ['contractor'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  add?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Tag names to remove',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  remove?: string[];
+}
@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
+import { SegmentService } from '../domain/segment.service';
+import { CreateSegmentDto, UpdateSegmentDto } from './dto/segment.dto';
+
+/**
+ * Saved segment API controller.
+ *
+ * Provides REST endpoints for team-wide saved filters:
+ * - GET /api/segments - All segments with business counts
+ * - GET /api/segments/:segmentId - One segment with its filter
+ * - POST /api/segments - Save a filter as a segment
+ * - PATCH /api/segments/:segmentId - Edit a segment (creator or admin)
+ * - DELETE /api/segments/:segmentId - Delete a segment (creator or admin)
+ *
+ * Outreach batches target a segment via POST /api/jobs/outreach/batch.
+ */
+@ApiTags('Segments')
+@Controller('api/segments')
+export class SegmentController {
+  constructor(private readonly segmentService: SegmentService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List saved segments' })
+  @ApiResponse({ status: 200, description: 'Segments ordered by name' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  findAll() {
+    return this.segmentService.findAll();
+  }
+
+  @Get(':segmentId')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a saved segment' })
+  @ApiResponse({ status: 200, description: 'Segment with its filter' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  findOne(@Param('segmentId', ParseIntPipe) segmentId: number) {
+    return this.segmentService.findOne(segmentId);
+  }
+
+  @Post()
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Save a business filter as a segment' })
+  @ApiResponse({ status: 201, description: 'Segment created' })
+  @ApiResponse({ status: 400, description: 'Empty filter or unknown tags' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 409, description: 'Segment name already exists' })
+  create(@Body() dto: CreateSegmentDto, @CurrentUser() user: RequestUser) {
+    return this.segmentService.create(dto, user);
+  }
+
+  @Patch(':segmentId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename a segment or replace its filter' })
+  @ApiResponse({ status: 200, description: 'Segment updated' })
+  @ApiResponse({ status: 400, description: 'Empty filter or unknown tags' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the creator' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  @ApiResponse({ status: 409, description: 'Segment name already exists' })
+  update(
+    @Param('segmentId', ParseIntPipe) segmentId: number,
+    @Body() dto: UpdateSegmentDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.segmentService.update(segmentId, dto, user);
+  }
+
+  @Delete(':segmentId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a segment' })
+  @ApiResponse({ status: 200, description: 'Segment deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the creator' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  remove(
+    @Param('segmentId', ParseIntPipe) segmentId: number,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.segmentService.remove(segmentId, user);
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { TagService } from '../domain/tag.service';
+import { CreateTagDto, UpdateTagDto } from './dto/tag.dto';
+
+/**
+ * Tag API controller.
+ *
+ * Provides REST endpoints for the shared tag list:
+ * - GET /api/tags - All tags with business counts
+ * - POST /api/tags - Create a tag
+ * - PATCH /api/tags/:tagId - Rename or recolor a tag (admin)
+ * - DELETE /api/tags/:tagId - Delete a tag (admin)
+ */
+@ApiTags('Tags')
+@Controller('api/tags')
+export class TagController {
+  constructor(private readonly tagService: TagService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List tags with business counts' })
+  @ApiResponse({ status: 200, description: 'Tags ordered by name' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  findAll() {
+    return this.tagService.findAll();
+  }
+
+  @Post()
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a tag' })
+  @ApiResponse({ status: 201, description: 'Tag created' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 409, description: 'Tag name already exists' })
+  create(@Body() dto: CreateTagDto) {
+    return this.tagService.create(dto);
+  }
+
+  @Patch(':tagId')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename or recolor a tag' })
+  @ApiResponse({ status: 200, description: 'Tag updated' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  @ApiResponse({ status: 409, description: 'Tag name already exists' })
+  update(
+    @Param('tagId', ParseIntPipe) tagId: number,
+    @Body() dto: UpdateTagDto,
+  ) {
+    return this.tagService.update(tagId, dto);
+  }
+
+  @Delete(':tagId')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a tag and remove it from all businesses' })
+  @ApiResponse({ status: 200, description: 'Tag deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  @ApiResponse({ status: 409, description: 'Tag is used by saved segments' })
+  remove(@Param('tagId', ParseIntPipe) tagId: number) {
+    return this.tagService.remove(tagId);
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+const SEGMENT_INCLUDE = {
+  creator: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.segmentInclude;
+
+/**
+ * Data access for saved segments.
+ *
+ * Also provided directly by JobQueueModule to resolve outreach batch targets.
+ */
+@Injectable()
+export class SegmentRepository {
+  private readonly logger = new Logger(SegmentRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List all segments alphabetically.
+   *
+   * @returns Segments with their creator
+   */
+  async findAll() {
+    return this.prisma.segment.findMany({
+      orderBy: { name: 'asc' },
+      include: SEGMENT_INCLUDE,
+    });
+  }
+
+  /**
+   * Find a single segment by ID.
+   */
+  async findOne(id: number) {
+    return this.prisma.segment.findUnique({
+      where: { id },
+      include: SEGMENT_INCLUDE,
+    });
+  }
+
+  /**
+   * Find a segment by name.
+   */
+  async findByName(name: string) {
+    return this.prisma.segment.findUnique({ where: { name } });
+  }
+
+  /**
+   * Create a segment.
+   */
+  async create(data: Prisma.segmentUncheckedCreateInput) {
+    const segment = await this.prisma.segment.create({
+      data,
+      include: SEGMENT_INCLUDE,
+    });
+
+    this.logger.debug(`Created segment ${segment.id} - ${segment.name}`);
+    return segment;
+  }
+
+  /**
+   * Update a segment.
+   */
+  async update(id: number, data: Prisma.segmentUncheckedUpdateInput) {
+    return this.prisma.segment.update({
+      where: { id },
+      data,
+      include: SEGMENT_INCLUDE,
+    });
+  }
+
+  /**
+   * Delete a segment.
+   */
+  async delete(id: number) {
+    return this.prisma.segment.delete({ where: { id } });
+  }
+
+  /**
+   * Find segments whose filter references a tag.
+   */
+  async findByTag(tagId: number) {
+    return this.prisma.segment.findMany({
+      where: { filter: { path: ['tag_ids'], array_contains: [tagId] } },
+    });
+  }
+
+  /**
+   * Count the (non-trashed) businesses matching a where clause.
+   */
+  async countBusinesses(where: Prisma.businessWhereInput): Promise<number> {
+    return this.prisma.business.count({
+      where: { AND: [where, { deleted_at: null }] },
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+/**
+ * Data access for tags and their business assignments (tag, business_tag).
+ *
+ * Adding and removing tags on businesses by name lives in
+ * BusinessRepository.applyTags, shared with bulk tagging.
+ */
+@Injectable()
+export class TagRepository {
+  private readonly logger = new Logger(TagRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List all tags alphabetically.
+   *
+   * @returns Tags with the number of tagged businesses
+   */
+  async findAll() {
+    return this.prisma.tag.findMany({
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { businesses: true } } },
+    });
+  }
+
+  /**
+   * Find a single tag by ID.
+   */
+  async findOne(id: number) {
+    return this.prisma.tag.findUnique({ where: { id } });
+  }
+
+  /**
+   * Find a tag by its (lowercase) name.
+   */
+  async findByName(name: string) {
+    return this.prisma.tag.findUnique({ where: { name } });
+  }
+
+  /**
+   * Create a tag.
+   */
+  async create(data: Prisma.tagCreateInput) {
+    const tag = await this.prisma.tag.create({ data });
+
+    this.logger.debug(`Created tag ${tag.id} - ${tag.name}`);
+    return tag;
+  }
+
+  /**
+   * Update a tag.
+   */
+  async update(id: number, data: Prisma.tagUpdateInput) {
+    return this.prisma.tag.update({ where: { id }, data });
+  }
+
+  /**
+   * Delete a tag. Cascades to its business assignments.
+   */
+  async delete(id: number) {
+    return this.prisma.tag.delete({ where: { id } });
+  }
+}
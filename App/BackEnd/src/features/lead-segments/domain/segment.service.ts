@@ -0,0 +1,208 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import { SegmentRepository } from '../data/segment.repository';
+import { TagRepository } from '../data/tag.repository';
+import { BusinessFilterDto } from '../../business-management/api/dto/business-filter.dto';
+import { buildBusinessWhere } from '../../business-management/domain/business-filter.helper';
+import { CreateSegmentDto, UpdateSegmentDto } from '../api/dto/segment.dto';
+
+/**
+ * The user acting on segments. Only the fields the ownership rules need.
+ */
+export interface SegmentActor {
+  id: string;
+  role: Role;
+}
+
+/**
+ * Saved segments: named business list filters shared with the whole team.
+ *
+ * A segment stores the same fields as the business list filter, so opening
+ * it is just applying its filter to GET /api/businesses, and outreach batch
+ * jobs resolve it with the same where clause.
+ *
+ * Rules:
+ * - Everyone can list and open segments
+ * - ADMINs and MEMBERs can create segments
+ * - Only the creator or an ADMIN can change or delete a segment
+ *
+ * @example
+ * await segmentService.create(
+ *   { name: 'Freehold contractors', filter: { city: 'Freehold', tag_ids: [3] } },
+ *   user,
+ * );
+ */
+@Injectable()
+export class SegmentService {
+  private readonly logger = new Logger(SegmentService.name);
+
+  constructor(
+    private repository: SegmentRepository,
+    private tagRepository: TagRepository,
+  ) {}
+
+  /**
+   * List all segments with their current business counts.
+   */
+  async findAll() {
+    const segments = await this.repository.findAll();
+    return Promise.all(
+      segments.map(async (segment) => ({
+        ...segment,
+        business_count: await this.countBusinesses(segment.filter),
+      })),
+    );
+  }
+
+  /**
+   * Get a segment with its current business count.
+   *
+   * @throws {NotFoundException} If segment doesn't exist
+   */
+  async findOne(id: number) {
+    const segment = await this.getSegment(id);
+    return {
+      ...segment,
+      business_count: await this.countBusinesses(segment.filter),
+    };
+  }
+
+  /**
+   * Save a new segment.
+   *
+   * @throws {BadRequestException} If the filter is empty or names unknown tags
+   * @throws {ConflictException} If the name is taken
+   */
+  async create(dto: CreateSegmentDto, actor: SegmentActor) {
+    const name = dto.name.trim();
+    const filter = await this.toFilterJson(dto.filter);
+    await this.assertNameAvailable(name);
+
+    try {
+      const segment = await this.repository.create({
+        name,
+        description: dto.description,
+        filter,
+        created_by: actor.id,
+      });
+      this.logger.log(`Segment ${segment.id} "${name}" created by ${actor.id}`);
+      return segment;
+    } catch (error) {
+      this.logger.error(`Error creating segment "${name}":`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename, describe or replace the filter of a segment.
+   *
+   * @throws {NotFoundException} If segment doesn't exist
+   * @throws {ForbiddenException} If the actor is not the creator or an ADMIN
+   * @throws {BadRequestException} If the filter is empty or names unknown tags
+   * @throws {ConflictException} If the new name is taken
+   */
+  async update(id: number, dto: UpdateSegmentDto, actor: SegmentActor) {
+    const segment = await this.getOwnSegment(id, actor);
+
+    const data: Prisma.segmentUncheckedUpdateInput = {};
+    if (dto.name !== undefined) {
+      const name = dto.name.trim();
+      if (name !== segment.name) {
+        await this.assertNameAvailable(name);
+        data.name = name;
+      }
+    }
+    if (dto.description !== undefined) data.description = dto.description;
+    if (dto.filter !== undefined) {
+      data.filter = await this.toFilterJson(dto.filter);
+    }
+
+    try {
+      return await this.repository.update(id, data);
+    } catch (error) {
+      this.logger.error(`Error updating segment ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a segment.
+   *
+   * @throws {NotFoundException} If segment doesn't exist
+   * @throws {ForbiddenException} If the actor is not the creator or an ADMIN
+   */
+  async remove(id: number, actor: SegmentActor) {
+    await this.getOwnSegment(id, actor);
+    await this.repository.delete(id);
+    return { message: 'Segment deleted successfully' };
+  }
+
+  private countBusinesses(filter: Prisma.JsonValue) {
+    return this.repository.countBusinesses(
+      buildBusinessWhere(filter as BusinessFilterDto),
+    );
+  }
+
+  /**
+   * Keep only the fields that are set, after checking the filter narrows
+   * the list and its tags exist.
+   */
+  private async toFilterJson(
+    filter: BusinessFilterDto,
+  ): Promise<Prisma.InputJsonObject> {
+    const json = Object.fromEntries(
+      Object.entries(filter).filter(
+        ([, value]) =>
+          value !== undefined &&
+          value !== null &&
+          !(Array.isArray(value) && value.length === 0),
+      ),
+    ) as Prisma.InputJsonObject;
+
+    if (Object.keys(json).length === 0) {
+      throw new BadRequestException(
+        'A segment filter must set at least one field',
+      );
+    }
+
+    const tagIds = filter.tag_ids ?? [];
+    const found = await Promise.all(
+      tagIds.map((tagId) => this.tagRepository.findOne(tagId)),
+    );
+    const missing = tagIds.filter((_, index) => !found[index]);
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown tag IDs: ${missing.join(', ')}`);
+    }
+
+    return json;
+  }
+
+  private async assertNameAvailable(name: string) {
+    if (await this.repository.findByName(name)) {
+      throw new ConflictException(`A segment named "${name}" already exists`);
+    }
+  }
+
+  private async getSegment(id: number) {
+    const segment = await this.repository.findOne(id);
+    if (!segment) {
+      throw new NotFoundException(`Segment with ID ${id} not found`);
+    }
+    return segment;
+  }
+
+  private async getOwnSegment(id: number, actor: SegmentActor) {
+    const segment = await this.getSegment(id);
+    if (actor.role !== Role.ADMIN && segment.created_by !== actor.id) {
+      throw new ForbiddenException('Only the creator can change this segment');
+    }
+    return segment;
+  }
+}
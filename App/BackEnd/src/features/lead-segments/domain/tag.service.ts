@@ -0,0 +1,200 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { TagRepository } from '../data/tag.repository';
+import { SegmentRepository } from '../data/segment.repository';
+import { BusinessRepository } from '../../business-management/data/business.repository';
+import { BusinessCacheService } from '../../business-management/domain/business-cache.service';
+import { normalizeTagNames } from '../../business-management/domain/tag-name.helper';
+import { EventsGateway } from '../../../websocket/websocket.gateway';
+import {
+  CreateTagDto,
+  UpdateBusinessTagsDto,
+  UpdateTagDto,
+} from '../api/dto/tag.dto';
+
+/**
+ * User-defined tags for grouping businesses beyond city and industry.
+ *
+ * Tag names are stored lowercase. Businesses are filtered by tag ID
+ * (BusinessFilterDto.tag_ids), so renaming a tag keeps saved segments
+ * working.
+ *
+ * @example
+ * await tagService.updateBusinessTags(12, { add: ['Contractor'] });
+ * // → Creates 'contractor' if missing, tags business 12, emits 'business:updated'
+ */
+@Injectable()
+export class TagService {
+  private readonly logger = new Logger(TagService.name);
+
+  constructor(
+    private repository: TagRepository,
+    private segmentRepository: SegmentRepository,
+    private businessRepository: BusinessRepository,
+    private cache: BusinessCacheService,
+    private eventsGateway: EventsGateway,
+  ) {}
+
+  /**
+   * List all tags with usage counts.
+   */
+  async findAll() {
+    const tags = await this.repository.findAll();
+    return tags.map(({ _count, ...tag }) => ({
+      ...tag,
+      business_count: _count.businesses,
+    }));
+  }
+
+  /**
+   * Create a tag.
+   *
+   * @throws {ConflictException} If the name is taken
+   */
+  async create(dto: CreateTagDto) {
+    const name = this.normalizeName(dto.name);
+    await this.assertNameAvailable(name);
+
+    try {
+      return await this.repository.create({ name, color: dto.color });
+    } catch (error) {
+      this.logger.error(`Error creating tag "${name}":`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename or recolor a tag.
+   *
+   * @throws {NotFoundException} If tag doesn't exist
+   * @throws {ConflictException} If the new name is taken
+   *
+   * @side-effects Invalidates all business caches (tags are embedded in them)
+   */
+  async update(id: number, dto: UpdateTagDto) {
+    const tag = await this.getTag(id);
+
+    const data: Prisma.tagUpdateInput = {};
+    if (dto.name !== undefined) {
+      const name = this.normalizeName(dto.name);
+      if (name !== tag.name) {
+        await this.assertNameAvailable(name);
+        data.name = name;
+      }
+    }
+    if (dto.color !== undefined) data.color = dto.color;
+
+    try {
+      const updated = await this.repository.update(id, data);
+      await this.cache.invalidateAllBusinesses();
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error updating tag ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tag and remove it from every business.
+   *
+   * Tags used by saved segments can't be deleted: dropping the tag from a
+   * segment filter would silently widen it, e.g. for an outreach batch.
+   *
+   * @throws {NotFoundException} If tag doesn't exist
+   * @throws {ConflictException} If a saved segment filters on the tag
+   *
+   * @side-effects Invalidates all business caches
+   */
+  async remove(id: number) {
+    await this.getTag(id);
+
+    const segments = await this.segmentRepository.findByTag(id);
+    if (segments.length > 0) {
+      throw new ConflictException(
+        `Tag is used by saved segments: ${segments.map((s) => s.name).join(', ')}`,
+      );
+    }
+
+    try {
+      await this.repository.delete(id);
+      await this.cache.invalidateAllBusinesses();
+      this.logger.log(`Deleted tag ${id}`);
+
+      return { message: 'Tag deleted successfully' };
+    } catch (error) {
+      this.logger.error(`Error deleting tag ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add and/or remove tags on one business by name.
+   *
+   * @param businessId - Business ID
+   * @param dto - Tag names to add (created if missing) and remove
+   * @returns Updated business with tags
+   * @throws {BadRequestException} If no tags are given
+   * @throws {NotFoundException} If business doesn't exist
+   *
+   * @side-effects
+   * - Invalidates business caches
+   * - Emits 'business:updated' WebSocket event
+   */
+  async updateBusinessTags(businessId: number, dto: UpdateBusinessTagsDto) {
+    const add = normalizeTagNames(dto.add);
+    const remove = normalizeTagNames(dto.remove);
+    if (add.length === 0 && remove.length === 0) {
+      throw new BadRequestException(
+        'Provide at least one tag to add or remove',
+      );
+    }
+
+    if (!(await this.businessRepository.exists(businessId))) {
+      throw new NotFoundException(`Business with ID ${businessId} not found`);
+    }
+
+    try {
+      await this.businessRepository.applyTags([businessId], add, remove);
+
+      await this.cache.invalidateAll(businessId);
+      const business = await this.businessRepository.findOne(businessId);
+      this.eventsGateway.emitBusinessUpdated(business);
+
+      return business;
+    } catch (error) {
+      this.logger.error(
+        `Error updating tags on business ${businessId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private normalizeName(name: string): string {
+    const [normalized] = normalizeTagNames([name]);
+    if (!normalized) {
+      throw new BadRequestException('Tag name must not be blank');
+    }
+    return normalized;
+  }
+
+  private async assertNameAvailable(name: string) {
+    if (await this.repository.findByName(name)) {
+      throw new ConflictException(`A tag named "${name}" already exists`);
+    }
+  }
+
+  private async getTag(id: number) {
+    const tag = await this.repository.findOne(id);
+    if (!tag) {
+      throw new NotFoundException(`Tag with ID ${id} not found`);
+    }
+    return tag;
+  }
+}
@@ -0,0 +1,16 @@
+// Barrel exports for lead-segments feature
+export { LeadSegmentsModule } from './lead-segments.module';
+export { TagController } from './api/tag.controller';
+export { BusinessTagController } from './api/business-tag.controller';
+export { SegmentController } from './api/segment.controller';
+export { TagService } from './domain/tag.service';
+export { SegmentService } from './domain/segment.service';
+export type { SegmentActor } from './domain/segment.service';
+export { TagRepository } from './data/tag.repository';
+export { SegmentRepository } from './data/segment.repository';
+export {
+  CreateTagDto,
+  UpdateTagDto,
+  UpdateBusinessTagsDto,
+} from './api/dto/tag.dto';
+export { CreateSegmentDto, UpdateSegmentDto } from './api/dto/segment.dto';
@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { TagController } from './api/tag.controller';
+import { BusinessTagController } from './api/business-tag.controller';
+import { SegmentController } from './api/segment.controller';
+import { TagService } from './domain/tag.service';
+import { SegmentService } from './domain/segment.service';
+import { TagRepository } from './data/tag.repository';
+import { SegmentRepository } from './data/segment.repository';
+import { BusinessRepository } from '../business-management/data/business.repository';
+import { BusinessCacheService } from '../business-management/domain/business-cache.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { WebsocketModule } from '../../websocket/websocket.module';
+import { CachingModule } from '../../caching/caching.module';
+
+/**
+ * Lead Segments feature module.
+ *
+ * User-defined tags on businesses and saved segments (named business list
+ * filters) that the whole team can reopen and target with outreach batches.
+ *
+ * Dependencies:
+ * - PrismaModule: Database access via repositories
+ * - WebsocketModule: 'business:updated' after tagging a business
+ * - CachingModule: Business cache invalidation when tags change
+ */
+@Module({
+  imports: [PrismaModule, WebsocketModule, CachingModule],
+  controllers: [TagController, BusinessTagController, SegmentController],
+  providers: [
+    TagService,
+    SegmentService,
+    TagRepository,
+    SegmentRepository,
+    BusinessRepository,
+    BusinessCacheService,
+  ],
+  exports: [SegmentService],
+})
+export class LeadSegmentsModule {}
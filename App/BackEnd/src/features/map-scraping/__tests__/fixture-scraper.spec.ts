@@ -0,0 +1,186 @@
+/**
+ * FixtureScraper Unit Tests
+ *
+ * Test Categories:
+ * - startScraping(): dataset selection (file, query-named, default), limits
+ * - getRunStatus(): delay, unknown runs
+ * - getRunUsage(): free runs with their dataset size
+ * - cancelRun(): in-progress and finished runs, partial datasets
+ * - waitForCompletion(): full replay through the shared polling loop
+ */
+
+import { Logger } from '@nestjs/common';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { FixtureScraper } from '../domain/fixture-scraper';
+import { ConfigService } from '../../../config/config.service';
+
+describe('FixtureScraper', () => {
+  let dir: string;
+  let fixturePath: string;
+  let delayMs: number;
+  let scraper: FixtureScraper;
+
+  const places = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      title: `${prefix} ${i + 1}`,
+      placeId: `${prefix}-${i + 1}`,
+    }));
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+
+    dir = mkdtempSync(path.join(tmpdir(), 'fixture-scraper-'));
+    writeFileSync(
+      path.join(dir, 'default.json'),
+      JSON.stringify(places('default', 3)),
+    );
+    writeFileSync(
+      path.join(dir, 'plumbers-in-freehold-nj.json'),
+      JSON.stringify(places('plumber', 2)),
+    );
+
+    fixturePath = dir;
+    delayMs = 0;
+    const config = {
+      getScrapingFixturePath: () => fixturePath,
+      getScrapingFixtureDelayMs: () => delayMs,
+    };
+    scraper = new FixtureScraper(config as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('startScraping()', () => {
+    it('should replay the dataset named after the query', async () => {
+      const runId = await scraper.startScraping('Plumbers in Freehold, NJ');
+
+      const results = await scraper.getResults(runId);
+      expect(results.map((p) => p.title)).toEqual(['plumber 1', 'plumber 2']);
+    });
+
+    it('should fall back to default.json', async () => {
+      const runId = await scraper.startScraping('dentists in Marlboro, NJ');
+
+      expect(await scraper.getResults(runId)).toHaveLength(3);
+    });
+
+    it('should replay a single dataset file', async () => {
+      fixturePath = path.join(dir, 'plumbers-in-freehold-nj.json');
+
+      const runId = await scraper.startScraping('anything');
+
+      expect(await scraper.getResults(runId)).toHaveLength(2);
+    });
+
+    it('should cap results at maxResults', async () => {
+      const runId = await scraper.startScraping('dentists', 1);
+
+      expect(await scraper.getResults(runId)).toHaveLength(1);
+    });
+
+    it('should reject a dataset that is not an array', async () => {
+      writeFileSync(path.join(dir, 'default.json'), '{"title":"x"}');
+
+      await expect(scraper.startScraping('dentists')).rejects.toThrow(
+        'is not an array of places',
+      );
+    });
+  });
+
+  describe('getRunStatus()', () => {
+    it('should report SUCCEEDED with the item count', async () => {
+      const runId = await scraper.startScraping('dentists');
+
+      expect(await scraper.getRunStatus(runId)).toEqual({
+        status: 'SUCCEEDED',
+        itemCount: 3,
+      });
+    });
+
+    it('should report RUNNING until the configured delay passes', async () => {
+      delayMs = 60000;
+      const runId = await scraper.startScraping('dentists');
+
+      expect(await scraper.getRunStatus(runId)).toEqual({
+        status: 'RUNNING',
+        itemCount: 0,
+      });
+    });
+
+    it('should throw for an unknown run', async () => {
+      await expect(scraper.getRunStatus('fixture-missing')).rejects.toThrow(
+        'Fixture run fixture-missing not found',
+      );
+    });
+  });
+
+  describe('getRunUsage()', () => {
+    it('should report a free run with its dataset size', async () => {
+      const runId = await scraper.startScraping('dentists');
+
+      expect(await scraper.getRunUsage(runId)).toEqual({
+        costUsd: 0,
+        computeUnits: 0,
+        datasetItems: 3,
+      });
+    });
+  });
+
+  describe('cancelRun()', () => {
+    it('should abort a run that is still running', async () => {
+      delayMs = 60000;
+      const runId = await scraper.startScraping('dentists');
+
+      await scraper.cancelRun(runId);
+
+      expect((await scraper.getRunStatus(runId)).status).toBe('ABORTED');
+      await expect(scraper.waitForCompletion(runId)).rejects.toThrow(
+        'failed with status: ABORTED',
+      );
+    });
+
+    it('should keep the places collected before the abort', async () => {
+      delayMs = 60000;
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const runId = await scraper.startScraping('dentists');
+
+      // Two thirds of the way through, two of three places are collected
+      now.mockReturnValue(1_040_000);
+      await scraper.cancelRun(runId);
+      now.mockReturnValue(1_100_000);
+
+      expect(await scraper.getRunStatus(runId)).toEqual({
+        status: 'ABORTED',
+        itemCount: 2,
+      });
+      expect(await scraper.getResults(runId)).toHaveLength(2);
+      now.mockRestore();
+    });
+
+    it('should leave a finished run untouched', async () => {
+      const runId = await scraper.startScraping('dentists');
+
+      await scraper.cancelRun(runId);
+
+      expect((await scraper.getRunStatus(runId)).status).toBe('SUCCEEDED');
+    });
+  });
+
+  describe('waitForCompletion()', () => {
+    it('should return the replayed places', async () => {
+      const runId = await scraper.startScraping('Plumbers in Freehold, NJ');
+
+      const results = await scraper.waitForCompletion(runId);
+
+      expect(results).toHaveLength(2);
+      expect(scraper.transformResult(results[0])).toMatchObject({
+        name: 'plumber 1',
+        google_place_id: 'plumber-1',
+      });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Scrape quality helper tests
+ *
+ * Covers chain and keyword matching on whole words of the place name,
+ * required websites, review count and rating bounds, and skip counting.
+ */
+
+import {
+  ScrapeSkipCounts,
+  countSkip,
+  qualitySkipReason,
+} from '../domain/scrape-quality.helper';
+import { ScrapedBusiness } from '../domain/scraping-provider';
+
+describe('scrape-quality.helper', () => {
+  const business = (
+    overrides: Partial<ScrapedBusiness> = {},
+  ): ScrapedBusiness => ({
+    name: "Joe's Plumbing & Heating",
+    state: 'NJ',
+    website: 'https://joesplumbing.com',
+    rating: 4.6,
+    review_count: 48,
+    ...overrides,
+  });
+
+  describe('qualitySkipReason()', () => {
+    it('should pass every place without filters', () => {
+      expect(qualitySkipReason(business())).toBeNull();
+      expect(qualitySkipReason(business(), {})).toBeNull();
+    });
+
+    it('should match chains on whole words, ignoring case and punctuation', () => {
+      const filters = { excludeChains: ['Home Depot', "McDonald's", 'Subway'] };
+
+      expect(
+        qualitySkipReason(business({ name: 'The Home Depot #4512' }), filters),
+      ).toBe('chain');
+      expect(qualitySkipReason(business({ name: 'MCDONALDS' }), filters)).toBe(
+        'chain',
+      );
+      expect(
+        qualitySkipReason(business({ name: 'Subwayside Deli' }), filters),
+      ).toBeNull();
+    });
+
+    it('should ignore blank chain and keyword entries', () => {
+      expect(
+        qualitySkipReason(business(), {
+          excludeChains: [' '],
+          excludeKeywords: ['--'],
+        }),
+      ).toBeNull();
+    });
+
+    it('should skip names containing a blocked keyword', () => {
+      expect(
+        qualitySkipReason(business(), { excludeKeywords: ['heating'] }),
+      ).toBe('blocked_keyword');
+      expect(
+        qualitySkipReason(business(), {
+          excludeKeywords: ['plumbing and heating'],
+        }),
+      ).toBe('blocked_keyword');
+    });
+
+    it('should skip places without a website when one is required', () => {
+      expect(
+        qualitySkipReason(business({ website: undefined }), {
+          requireWebsite: true,
+        }),
+      ).toBe('no_website');
+      expect(
+        qualitySkipReason(business({ website: undefined }), {
+          requireWebsite: false,
+        }),
+      ).toBeNull();
+    });
+
+    it('should bound the review count, counting missing reviews as none', () => {
+      expect(qualitySkipReason(business(), { minReviews: 50 })).toBe(
+        'too_few_reviews',
+      );
+      expect(
+        qualitySkipReason(business({ review_count: undefined }), {
+          minReviews: 1,
+        }),
+      ).toBe('too_few_reviews');
+      expect(qualitySkipReason(business(), { maxReviews: 40 })).toBe(
+        'too_many_reviews',
+      );
+      expect(
+        qualitySkipReason(business(), { minReviews: 48, maxReviews: 48 }),
+      ).toBeNull();
+    });
+
+    it('should skip low-rated places but keep unrated ones', () => {
+      expect(qualitySkipReason(business(), { minRating: 4.8 })).toBe(
+        'low_rating',
+      );
+      expect(
+        qualitySkipReason(business({ rating: undefined }), { minRating: 4.8 }),
+      ).toBeNull();
+    });
+
+    it('should report chains before the other filters', () => {
+      expect(
+        qualitySkipReason(business({ name: 'Walmart', website: undefined }), {
+          excludeChains: ['walmart'],
+          requireWebsite: true,
+        }),
+      ).toBe('chain');
+    });
+  });
+
+  describe('countSkip()', () => {
+    it('should count skips per reason', () => {
+      const counts: ScrapeSkipCounts = {};
+
+      countSkip(counts, 'chain');
+      countSkip(counts, 'chain');
+      countSkip(counts, 'closed');
+
+      expect(counts).toEqual({ chain: 2, closed: 1 });
+    });
+  });
+});
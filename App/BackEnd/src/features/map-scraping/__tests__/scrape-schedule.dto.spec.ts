@@ -0,0 +1,33 @@
+/**
+ * UpdateScrapeScheduleDto validation tests
+ *
+ * Covers omitted fields and nulls refused for the required columns.
+ */
+
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UpdateScrapeScheduleDto } from '../api/dto/scrape-schedule.dto';
+
+describe('UpdateScrapeScheduleDto', () => {
+  const errorsOf = async (body: Record<string, unknown>) => {
+    const errors = await validate(
+      plainToInstance(UpdateScrapeScheduleDto, body),
+    );
+    return errors.map((error) => error.property);
+  };
+
+  it('should accept an update of a single field', async () => {
+    await expect(errorsOf({ enabled: false })).resolves.toEqual([]);
+    await expect(errorsOf({ cron: '0 7 * * 1' })).resolves.toEqual([]);
+  });
+
+  it('should accept null to clear the business type', async () => {
+    await expect(errorsOf({ business_type: null })).resolves.toEqual([]);
+  });
+
+  it('should refuse null for the required columns', async () => {
+    await expect(
+      errorsOf({ name: null, location: null, cron: null, enabled: null }),
+    ).resolves.toEqual(['name', 'location', 'cron', 'enabled']);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * ScrapeScheduleService Unit Tests
+ *
+ * Test Categories:
+ * - findAll(): latest run summary, next tick
+ * - create() / update() / remove(): cron validation, job scheduler sync
+ * - startScheduledScrape(): scrape tagged with the schedule, skipped ticks
+ * - onApplicationBootstrap(): re-registering enabled schedules
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { ScrapeScheduleService } from '../domain/scrape-schedule.service';
+import { ScrapeScheduleRepository } from '../data/scrape-schedule.repository';
+import { ScraperService } from '../domain/scraper.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+
+describe('ScrapeScheduleService', () => {
+  let service: ScrapeScheduleService;
+  let repository: jest.Mocked<ScrapeScheduleRepository>;
+  let scraperService: jest.Mocked<ScraperService>;
+  let jobQueue: jest.Mocked<JobQueueService>;
+
+  const schedule = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    name: 'Route 9 plumbers',
+    location: 'Freehold, NJ',
+    radius: 5,
+    business_type: 'plumber',
+    max_results: 100,
+    cron: '0 6 1,15 * *',
+    enabled: true,
+    last_run_at: null,
+    created_by: 'user-1',
+    created_at: new Date('2026-10-01T00:00:00Z'),
+    updated_at: new Date('2026-10-01T00:00:00Z'),
+    creator: null,
+    runs: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScrapeScheduleService,
+        {
+          provide: ScrapeScheduleRepository,
+          useValue: {
+            findAll: jest.fn(),
+            findOne: jest.fn().mockResolvedValue(schedule()),
+            findEnabled: jest.fn().mockResolvedValue([]),
+            create: jest.fn().mockResolvedValue(schedule()),
+            update: jest.fn().mockResolvedValue(schedule()),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: ScraperService,
+          useValue: {
+            startScraping: jest
+              .fn()
+              .mockResolvedValue({ success: true, runId: 'run-1' }),
+          },
+        },
+        {
+          provide: JobQueueService,
+          useValue: {
+            scheduleRecurringScrape: jest.fn(),
+            unscheduleRecurringScrape: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ScrapeScheduleService);
+    repository = module.get(ScrapeScheduleRepository);
+    scraperService = module.get(ScraperService);
+    jobQueue = module.get(JobQueueService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findAll()', () => {
+    it('should summarize the new businesses of the latest run', async () => {
+      repository.findAll.mockResolvedValue([
+        schedule({
+          runs: [
+            {
+              job_id: 'run-9',
+              status: 'completed',
+              created_at: new Date('2026-10-15T06:00:00Z'),
+              completed_at: new Date('2026-10-15T06:04:00Z'),
+              businesses_found: 40,
+              businesses_saved: 6,
+            },
+          ],
+        }),
+      ] as never);
+
+      const [view] = await service.findAll();
+
+      expect(view).not.toHaveProperty('runs');
+      expect(view.last_run).toEqual({
+        run_id: 'run-9',
+        status: 'completed',
+        started_at: new Date('2026-10-15T06:00:00Z'),
+        completed_at: new Date('2026-10-15T06:04:00Z'),
+        businesses_found: 40,
+        new_businesses: 6,
+      });
+      expect(view.next_run_at).toBeInstanceOf(Date);
+    });
+
+    it('should leave out the next tick of a paused schedule', async () => {
+      repository.findAll.mockResolvedValue([
+        schedule({ enabled: false }),
+      ] as never);
+
+      const [view] = await service.findAll();
+
+      expect(view.next_run_at).toBeNull();
+      expect(view.last_run).toBeNull();
+    });
+  });
+
+  describe('create()', () => {
+    const dto = {
+      name: ' Route 9 plumbers ',
+      location: 'Freehold, NJ',
+      business_type: 'plumber',
+      cron: '0 6 1,15 * *',
+    };
+
+    it('should store the schedule with defaults and register it', async () => {
+      await service.create(dto, 'user-1');
+
+      expect(repository.create).toHaveBeenCalledWith({
+        name: 'Route 9 plumbers',
+        location: 'Freehold, NJ',
+        radius: 10,
+        business_type: 'plumber',
+        max_results: 50,
+        cron: '0 6 1,15 * *',
+        enabled: true,
+        created_by: 'user-1',
+      });
+      expect(jobQueue.scheduleRecurringScrape).toHaveBeenCalledWith(
+        1,
+        '0 6 1,15 * *',
+      );
+    });
+
+    it('should not register a schedule created paused', async () => {
+      repository.create.mockResolvedValue(schedule({ enabled: false }));
+
+      await service.create({ ...dto, enabled: false }, 'user-1');
+
+      expect(jobQueue.scheduleRecurringScrape).not.toHaveBeenCalled();
+      expect(jobQueue.unscheduleRecurringScrape).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject an invalid cron expression', async () => {
+      await expect(
+        service.create({ ...dto, cron: 'every other week' }, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a pattern running more often than once a day', async () => {
+      for (const cron of ['*/15 * * * *', '0 6,18 * * *', '0 0,23 1 * *']) {
+        await expect(
+          service.create({ ...dto, cron }, 'user-1'),
+        ).rejects.toThrow('runs more often than once a day');
+      }
+      await expect(
+        service.create({ ...dto, cron: '30 5 * * *' }, 'user-1'),
+      ).resolves.toBeDefined();
+      expect(repository.create.mock.calls).toHaveLength(1);
+    });
+  });
+
+  describe('update()', () => {
+    it('should replace the job scheduler with the new pattern', async () => {
+      repository.update.mockResolvedValue(schedule({ cron: '0 7 * * 1' }));
+
+      await service.update(1, { cron: '0 7 * * 1' });
+
+      expect(repository.update).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ cron: '0 7 * * 1' }),
+      );
+      expect(jobQueue.scheduleRecurringScrape).toHaveBeenCalledWith(
+        1,
+        '0 7 * * 1',
+      );
+    });
+
+    it('should remove the job scheduler when paused', async () => {
+      repository.update.mockResolvedValue(schedule({ enabled: false }));
+
+      await service.update(1, { enabled: false });
+
+      expect(jobQueue.unscheduleRecurringScrape).toHaveBeenCalledWith(1);
+      expect(jobQueue.scheduleRecurringScrape).not.toHaveBeenCalled();
+    });
+
+    it('should reject a pattern running more often than once a day', async () => {
+      await expect(service.update(1, { cron: '0 * * * *' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(repository.update.mock.calls).toHaveLength(0);
+    });
+
+    it('should throw NotFoundException for an unknown schedule', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.update(99, { enabled: false })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove()', () => {
+    it('should remove the job scheduler and the schedule', async () => {
+      await expect(service.remove(1)).resolves.toEqual({ success: true });
+
+      expect(jobQueue.unscheduleRecurringScrape).toHaveBeenCalledWith(1);
+      expect(repository.delete).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('startScheduledScrape()', () => {
+    it('should start a scrape tagged with the schedule', async () => {
+      const runId = await service.startScheduledScrape(1);
+
+      expect(runId).toBe('run-1');
+      expect(scraperService.startScraping).toHaveBeenCalledWith(
+        {
+          location: 'Freehold, NJ',
+          radius: 5,
+          business_type: 'plumber',
+          max_results: 100,
+        },
+        1,
+      );
+      expect(repository.update).toHaveBeenCalledWith(1, {
+        last_run_at: expect.any(Date),
+      });
+    });
+
+    it('should skip a tick of a paused or deleted schedule', async () => {
+      repository.findOne.mockResolvedValueOnce(schedule({ enabled: false }));
+      repository.findOne.mockResolvedValueOnce(null);
+
+      expect(await service.startScheduledScrape(1)).toBeNull();
+      expect(await service.startScheduledScrape(1)).toBeNull();
+      expect(scraperService.startScraping).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onApplicationBootstrap()', () => {
+    it('should register every enabled schedule', async () => {
+      repository.findEnabled.mockResolvedValue([
+        schedule(),
+        schedule({ id: 2, cron: '0 7 * * 1' }),
+      ]);
+
+      await service.onApplicationBootstrap();
+
+      expect(jobQueue.scheduleRecurringScrape).toHaveBeenCalledTimes(2);
+      expect(jobQueue.scheduleRecurringScrape).toHaveBeenCalledWith(
+        2,
+        '0 7 * * 1',
+      );
+    });
+
+    it('should not fail startup when Redis is unavailable', async () => {
+      repository.findEnabled.mockResolvedValue([schedule()]);
+      jobQueue.scheduleRecurringScrape.mockRejectedValue(
+        new Error('ECONNREFUSED'),
+      );
+
+      await expect(service.onApplicationBootstrap()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * ScrapeStagingService Unit Tests
+ *
+ * Test Categories:
+ * - stage(): duplicate flags, closed and repeated places
+ * - findByRun(): review view, unknown or unstaged runs
+ * - import(): chosen results become businesses, skips, discarding the rest
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, Logger, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma, scraping_job } from '@prisma/client';
+import { ScrapeStagingService } from '../domain/scrape-staging.service';
+import { ApifyScraper, ApifyPlaceResult } from '../domain/apify-scraper';
+import { ScrapingProvider } from '../domain/scraping-provider';
+import { ScrapeResultRepository } from '../data/scrape-result.repository';
+import { ScrapingJobRepository } from '../data/scraping-job.repository';
+import { ScrapeStagingRepository } from '../data/scrape-staging.repository';
+import { DuplicateDetectorService } from '../../business-management/domain/duplicate-detector.service';
+
+describe('ScrapeStagingService', () => {
+  let service: ScrapeStagingService;
+  let repository: jest.Mocked<ScrapeStagingRepository>;
+  let results: jest.Mocked<ScrapeResultRepository>;
+  let jobs: jest.Mocked<ScrapingJobRepository>;
+  let duplicateDetector: jest.Mocked<DuplicateDetectorService>;
+  let eventEmitter: jest.Mocked<EventEmitter2>;
+
+  const place = (
+    overrides: Partial<ApifyPlaceResult> = {},
+  ): ApifyPlaceResult => ({
+    title: 'Test Plumbing LLC',
+    address: '1 Main St, Freehold, NJ',
+    city: 'Freehold',
+    phone: '(732) 555-0100',
+    placeId: 'ChIJplumbing',
+    categoryName: 'Plumber',
+    totalScore: 4.7,
+    reviewsCount: 128,
+    ...overrides,
+  });
+
+  const jobRow = (overrides: Record<string, unknown> = {}) =>
+    ({
+      job_id: 'run-1',
+      status: 'completed',
+      staged: true,
+      ...overrides,
+    }) as unknown as scraping_job;
+
+  const stagedRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    run_id: 'run-1',
+    position: 0,
+    google_place_id: 'ChIJplumbing',
+    data: { name: 'Test Plumbing LLC', google_place_id: 'ChIJplumbing' },
+    duplicate_of: null,
+    duplicate_kind: null,
+    duplicate_score: null,
+    status: 'pending',
+    business_id: null,
+    created_at: new Date('2026-11-03T00:00:00Z'),
+    updated_at: new Date('2026-11-03T00:00:00Z'),
+    duplicate: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScrapeStagingService,
+        {
+          provide: ScrapeStagingRepository,
+          useValue: {
+            replacePending: jest
+              .fn()
+              .mockImplementation((_runId: string, rows: unknown[]) =>
+                Promise.resolve(rows.length),
+              ),
+            findByRun: jest.fn().mockResolvedValue([stagedRow()]),
+            findPending: jest.fn().mockResolvedValue([stagedRow()]),
+            markImported: jest.fn(),
+            discardPending: jest.fn().mockResolvedValue(0),
+          },
+        },
+        {
+          // Real transformResult
+          provide: ScrapingProvider,
+          useValue: new ApifyScraper({
+            getApifyApiKey: () => 'test-key',
+          } as never),
+        },
+        {
+          provide: ScrapeResultRepository,
+          useValue: {
+            findByPlaceId: jest.fn().mockResolvedValue(null),
+            existsByPlaceId: jest.fn().mockResolvedValue(false),
+            createBusiness: jest.fn().mockResolvedValue({ id: 40 }),
+          },
+        },
+        {
+          provide: ScrapingJobRepository,
+          useValue: {
+            findByRunId: jest.fn().mockResolvedValue(jobRow()),
+            incrementSaved: jest.fn(),
+          },
+        },
+        {
+          provide: DuplicateDetectorService,
+          useValue: { findMatches: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(ScrapeStagingService);
+    repository = module.get(ScrapeStagingRepository);
+    results = module.get(ScrapeResultRepository);
+    jobs = module.get(ScrapingJobRepository);
+    duplicateDetector = module.get(DuplicateDetectorService);
+    eventEmitter = module.get(EventEmitter2);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('stage()', () => {
+    it('should flag each place with its best stored match', async () => {
+      results.findByPlaceId.mockResolvedValueOnce({ id: 7, name: 'Stored' });
+      duplicateDetector.findMatches
+        .mockResolvedValueOnce([
+          { id: 8, name: 'Joe Pizza', score: 0.95, signals: [] },
+        ] as never)
+        .mockResolvedValueOnce([
+          { id: 9, name: 'Joes', score: 0.7, signals: [] },
+        ] as never);
+
+      await expect(
+        service.stage(
+          'run-1',
+          [
+            place(),
+            place({ title: "Joe's Pizza", placeId: 'ChIJpizza' }),
+            place({ title: "Joe's Deli", placeId: 'ChIJdeli' }),
+            place({ title: 'New Place', placeId: 'ChIJnew' }),
+          ],
+          {},
+        ),
+      ).resolves.toEqual({ staged: 4, skipped: 0, skipReasons: {} });
+
+      const [, rows] = repository.replacePending.mock.calls[0];
+      expect(rows.map((row) => [row.position, row.duplicate_kind])).toEqual([
+        [0, 'same_place'],
+        [1, 'likely'],
+        [2, 'possible'],
+        [3, undefined],
+      ]);
+      expect(rows[0]).toMatchObject({
+        google_place_id: 'ChIJplumbing',
+        duplicate_of: 7,
+        duplicate_score: 1,
+        data: expect.objectContaining({ name: 'Test Plumbing LLC' }),
+      });
+    });
+
+    it('should skip closed places and places repeated in the run', async () => {
+      await expect(
+        service.stage(
+          'run-1',
+          [
+            place(),
+            place(),
+            place({ placeId: 'ChIJclosed', permanentlyClosed: true }),
+          ],
+          {},
+        ),
+      ).resolves.toEqual({
+        staged: 1,
+        skipped: 2,
+        skipReasons: { duplicate_place: 1, closed: 1 },
+      });
+    });
+
+    it('should skip places failing the quality filters', async () => {
+      await expect(
+        service.stage(
+          'run-1',
+          [place(), place({ title: 'The Home Depot', placeId: 'ChIJdepot' })],
+          { filters: { excludeChains: ['Home Depot'] } },
+        ),
+      ).resolves.toEqual({
+        staged: 1,
+        skipped: 1,
+        skipReasons: { chain: 1 },
+      });
+    });
+
+    it('should stage closed places when include_closed is set', async () => {
+      await expect(
+        service.stage('run-1', [place({ permanentlyClosed: true })], {
+          includeClosed: true,
+        }),
+      ).resolves.toEqual({ staged: 1, skipped: 0, skipReasons: {} });
+    });
+  });
+
+  describe('findByRun()', () => {
+    it('should list the results with their duplicate flags', async () => {
+      repository.findByRun.mockResolvedValue([
+        stagedRow({
+          duplicate_of: 7,
+          duplicate_kind: 'likely',
+          duplicate_score: 0.93,
+          duplicate: { id: 7, name: 'Test Plumbing', city: 'Freehold' },
+        }),
+        stagedRow({ id: 2, position: 1, status: 'imported', business_id: 41 }),
+      ] as never);
+
+      const view = await service.findByRun('run-1');
+
+      expect(view.counts).toEqual({ pending: 1, imported: 1, discarded: 0 });
+      expect(view.results[0]).toMatchObject({
+        id: 1,
+        name: 'Test Plumbing LLC',
+        permanently_closed: false,
+        duplicate: {
+          kind: 'likely',
+          score: 0.93,
+          business: { id: 7, name: 'Test Plumbing' },
+        },
+      });
+      expect(view.results[1]).toMatchObject({
+        status: 'imported',
+        business_id: 41,
+        duplicate: null,
+      });
+    });
+
+    it('should throw NotFoundException for a run that was not staged', async () => {
+      jobs.findByRunId.mockResolvedValue(jobRow({ staged: false }));
+
+      await expect(service.findByRun('run-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('import()', () => {
+    it('should save the chosen results as businesses', async () => {
+      const result = await service.import('run-1', { result_ids: [1] });
+
+      expect(result).toEqual({
+        runId: 'run-1',
+        imported: 1,
+        skipped: 0,
+        discarded: 0,
+        errors: [],
+      });
+      expect(results.createBusiness).toHaveBeenCalledWith({
+        name: 'Test Plumbing LLC',
+        google_place_id: 'ChIJplumbing',
+      });
+      expect(repository.markImported).toHaveBeenCalledWith(1, 40);
+      expect(jobs.incrementSaved).toHaveBeenCalledWith('run-1');
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'business:created',
+        expect.objectContaining({ business: { id: 40 }, runId: 'run-1' }),
+      );
+    });
+
+    it('should skip results that are gone or stored since staging', async () => {
+      results.existsByPlaceId.mockResolvedValue(true);
+
+      const result = await service.import('run-1', { result_ids: [1, 2] });
+
+      expect(result).toMatchObject({ imported: 0, skipped: 2 });
+      expect(repository.discardPending).toHaveBeenCalledWith('run-1', [1]);
+      expect(results.createBusiness).not.toHaveBeenCalled();
+    });
+
+    it('should skip a place another run saved first', async () => {
+      results.createBusiness.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      await expect(
+        service.import('run-1', { result_ids: [1] }),
+      ).resolves.toMatchObject({ imported: 0, skipped: 1, errors: [] });
+    });
+
+    it('should discard the remaining results when asked', async () => {
+      repository.discardPending.mockResolvedValue(5);
+
+      const result = await service.import('run-1', {
+        result_ids: [1],
+        discard_remaining: true,
+      });
+
+      expect(repository.discardPending).toHaveBeenCalledWith('run-1');
+      expect(result.discarded).toBe(5);
+    });
+
+    it('should reject importing a run that is still running', async () => {
+      jobs.findByRunId.mockResolvedValue(jobRow({ status: 'running' }));
+
+      await expect(
+        service.import('run-1', { result_ids: [1] }),
+      ).rejects.toThrow(ConflictException);
+      expect(repository.findPending).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,708 @@
+/**
+ * ScraperService Unit Tests
+ *
+ * Test Categories:
+ * - startScraping(): running job row, queued scraping job
+ * - getScrapingStatus(): progress from the provider item count
+ * - processRun(): closed places, place id dedupe (also when another run
+ *   inserts the place first), fuzzy dedupe, persistence
+ *   of Google Maps fields, provider cost logging and reconciliation with
+ *   the reported usage, resumed runs, cancellation, staged runs
+ * - cancelScraping(): job row flag, provider abort, recorded partial results
+ * - findRecentRuns(): run history with cost per saved lead
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma, scraping_job } from '@prisma/client';
+import { ScraperService } from '../domain/scraper.service';
+import { ApifyScraper, ApifyPlaceResult } from '../domain/apify-scraper';
+import { ScrapingProvider } from '../domain/scraping-provider';
+import { ScrapeResultRepository } from '../data/scrape-result.repository';
+import { ScrapingJobRepository } from '../data/scraping-job.repository';
+import { ScrapeStagingService } from '../domain/scrape-staging.service';
+import { ScrapeQualityFilters } from '../domain/scrape-quality.helper';
+import { DuplicateDetectorService } from '../../business-management/domain/duplicate-detector.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ConfigService } from '../../../config/config.service';
+import { ScrapeRequestDto } from '../api/dto/scrape-request.dto';
+
+describe('ScraperService', () => {
+  let service: ScraperService;
+  let repository: jest.Mocked<ScrapeResultRepository>;
+  let jobs: jest.Mocked<ScrapingJobRepository>;
+  let jobQueue: jest.Mocked<JobQueueService>;
+  let duplicateDetector: jest.Mocked<DuplicateDetectorService>;
+  let stagingService: jest.Mocked<ScrapeStagingService>;
+  let eventEmitter: jest.Mocked<EventEmitter2>;
+  let configService: { getExcludedChains: jest.Mock };
+  let scrapingProvider: {
+    startScraping: jest.Mock;
+    getRunStatus: jest.Mock;
+    waitForCompletion: jest.Mock;
+    getResults: jest.Mock;
+    getRunUsage: jest.Mock;
+    cancelRun: jest.Mock;
+  };
+  let prisma: {
+    api_cost_log: { create: jest.Mock };
+  };
+
+  const place = (
+    overrides: Partial<ApifyPlaceResult> = {},
+  ): ApifyPlaceResult => ({
+    title: 'Test Plumbing LLC',
+    address: '1 Main St, Freehold, NJ',
+    city: 'Freehold',
+    phone: '(732) 555-0100',
+    placeId: 'ChIJplumbing',
+    location: { lat: 40.26, lng: -74.27 },
+    categoryName: 'Plumber',
+    additionalCategories: ['Water heater installation service'],
+    totalScore: 4.7,
+    reviewsCount: 128,
+    price: '$$',
+    additionalInfo: { Payments: [{ 'Credit cards': true }] },
+    ...overrides,
+  });
+
+  const request = (overrides: Partial<ScrapeRequestDto> = {}) =>
+    ({
+      location: 'Freehold, NJ',
+      max_results: 50,
+      ...overrides,
+    }) as ScrapeRequestDto;
+
+  /** scraping_job row as stored by ScrapingJobRepository */
+  const jobRow = (overrides: Record<string, unknown> = {}) =>
+    ({
+      job_id: 'run-1',
+      location: 'Freehold, NJ',
+      max_results: 50,
+      status: 'running',
+      businesses_found: 0,
+      businesses_saved: 0,
+      ...overrides,
+    }) as unknown as scraping_job;
+
+  const process = (
+    options: { includeClosed?: boolean; filters?: ScrapeQualityFilters } = {},
+  ) => service.processRun('run-1', { maxResults: 50, ...options });
+
+  /** Businesses counted on the row through incrementSaved() */
+  let savedSoFar: number;
+
+  const completedEvent = () =>
+    eventEmitter.emit.mock.calls.find(
+      ([name]) => name === 'scraping:completed',
+    )?.[1];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    savedSoFar = 0;
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+    const apify = new ApifyScraper({
+      getApifyApiKey: () => 'test-key',
+    } as never);
+    // Real transformResult, stubbed run lifecycle
+    scrapingProvider = Object.assign(apify, {
+      startScraping: jest.fn().mockResolvedValue('run-2'),
+      getRunStatus: jest.fn(),
+      waitForCompletion: jest.fn(),
+      getResults: jest.fn(),
+      // A provider that doesn't report cost
+      getRunUsage: jest.fn().mockResolvedValue({
+        costUsd: null,
+        computeUnits: null,
+        datasetItems: 0,
+      }),
+      cancelRun: jest.fn(),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScraperService,
+        { provide: ScrapingProvider, useValue: scrapingProvider },
+        {
+          provide: ScrapeResultRepository,
+          useValue: {
+            existsByPlaceId: jest.fn().mockResolvedValue(false),
+            createBusiness: jest.fn().mockResolvedValue({ id: 1 }),
+          },
+        },
+        {
+          provide: ScrapingJobRepository,
+          useValue: {
+            create: jest.fn(),
+            findByRunId: jest.fn().mockResolvedValue(jobRow()),
+            isCancelling: jest.fn().mockResolvedValue(false),
+            markCancelling: jest.fn().mockResolvedValue(true),
+            incrementSaved: jest.fn(),
+            findRecent: jest.fn(),
+            finish: jest
+              .fn()
+              .mockImplementation((_runId: string, status: string) =>
+                Promise.resolve(
+                  jobRow({ status, businesses_saved: savedSoFar }),
+                ),
+              ),
+          },
+        },
+        {
+          provide: DuplicateDetectorService,
+          useValue: { findAutoMatch: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: JobQueueService,
+          useValue: { createScrapeRunJob: jest.fn() },
+        },
+        {
+          provide: ScrapeStagingService,
+          useValue: {
+            stage: jest.fn().mockResolvedValue({ staged: 1, skipped: 1 }),
+          },
+        },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        {
+          provide: PrismaService,
+          useValue: {
+            api_cost_log: { create: jest.fn() },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { getExcludedChains: jest.fn().mockReturnValue([]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ScraperService);
+    repository = module.get(ScrapeResultRepository);
+    jobs = module.get(ScrapingJobRepository);
+    jobQueue = module.get(JobQueueService);
+    jobs.incrementSaved.mockImplementation(() => {
+      savedSoFar++;
+      return Promise.resolve();
+    });
+    duplicateDetector = module.get(DuplicateDetectorService);
+    stagingService = module.get(ScrapeStagingService);
+    eventEmitter = module.get(EventEmitter2);
+    configService = module.get(ConfigService);
+    prisma = module.get(PrismaService);
+  });
+
+  describe('processRun()', () => {
+    it('should persist the Google Maps place fields', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([place()]);
+
+      await process();
+
+      expect(repository.createBusiness).toHaveBeenCalledWith(
+        expect.objectContaining({
+          google_place_id: 'ChIJplumbing',
+          rating: 4.7,
+          review_count: 128,
+          price_level: '$$',
+          additional_categories: ['Water heater installation service'],
+          raw_data: { Payments: [{ 'Credit cards': true }] },
+        }),
+      );
+      expect(completedEvent()).toMatchObject({ saved: 1, skipped: 0 });
+    });
+
+    it('should skip permanently closed places by default', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([
+        place({ permanentlyClosed: true }),
+      ]);
+
+      await process();
+
+      expect(repository.createBusiness).not.toHaveBeenCalled();
+      expect(completedEvent()).toMatchObject({
+        saved: 0,
+        skipped: 1,
+        skipReasons: { closed: 1 },
+      });
+    });
+
+    it('should skip places failing the quality filters by reason', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([
+        place({ title: 'The Home Depot', placeId: 'a' }),
+        place({ title: 'Freehold Outlet Tires', placeId: 'b' }),
+        place({ reviewsCount: 2, placeId: 'c' }),
+        place({ totalScore: 2.9, placeId: 'd' }),
+        place({ placeId: 'e', website: 'https://testplumbing.com' }),
+      ]);
+      repository.existsByPlaceId.mockResolvedValueOnce(true);
+
+      const result = await process({
+        filters: {
+          excludeChains: ['Home Depot'],
+          excludeKeywords: ['outlet'],
+          minReviews: 5,
+          minRating: 3.5,
+        },
+      });
+
+      expect(repository.createBusiness).not.toHaveBeenCalled();
+      expect(result.skipReasons).toEqual({
+        chain: 1,
+        blocked_keyword: 1,
+        too_few_reviews: 1,
+        low_rating: 1,
+        duplicate_place: 1,
+      });
+      expect(completedEvent()).toMatchObject({
+        skipped: 5,
+        skipReasons: result.skipReasons,
+      });
+    });
+
+    it('should save permanently closed places when include_closed is set', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([
+        place({ permanentlyClosed: true }),
+      ]);
+
+      await process({ includeClosed: true });
+
+      expect(repository.createBusiness).toHaveBeenCalledWith(
+        expect.objectContaining({ permanently_closed: true }),
+      );
+    });
+
+    it('should skip a place whose google_place_id is already stored', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([place()]);
+      repository.existsByPlaceId.mockResolvedValue(true);
+
+      await process();
+
+      expect(repository.existsByPlaceId).toHaveBeenCalledWith('ChIJplumbing');
+      expect(duplicateDetector.findAutoMatch).not.toHaveBeenCalled();
+      expect(repository.createBusiness).not.toHaveBeenCalled();
+      expect(completedEvent()).toMatchObject({ saved: 0, skipped: 1 });
+    });
+
+    it('should skip a place another run saved after the dedupe check', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([place()]);
+      repository.createBusiness.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      const result = await process();
+
+      expect(jobs.incrementSaved).not.toHaveBeenCalled();
+      expect(result.errors).toEqual([]);
+      expect(completedEvent()).toMatchObject({ saved: 0, skipped: 1 });
+    });
+
+    it('should fall back to fuzzy matching for places without an id', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([
+        place({ placeId: undefined }),
+      ]);
+      duplicateDetector.findAutoMatch.mockResolvedValue({
+        id: 7,
+        name: 'Test Plumbing',
+        score: 0.95,
+        signals: { name: 1 },
+      });
+
+      await process();
+
+      expect(repository.existsByPlaceId).not.toHaveBeenCalled();
+      expect(repository.createBusiness).not.toHaveBeenCalled();
+      expect(completedEvent()).toMatchObject({ skipped: 1 });
+    });
+
+    it('should log the run cost under the provider name', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([place(), place()]);
+
+      await process();
+
+      expect(prisma.api_cost_log.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ service: 'apify', cost_usd: 0.02 }),
+      });
+    });
+
+    it('should record the cost the provider reported next to the estimate', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([place(), place()]);
+      scrapingProvider.getRunUsage.mockResolvedValue({
+        costUsd: 0.013,
+        computeUnits: 0.05,
+        datasetItems: 2,
+      });
+
+      await process();
+
+      expect(jobs.finish).toHaveBeenCalledWith('run-1', 'completed', {
+        found: 2,
+        cost: 0.013,
+        estimatedCost: 0.02,
+        actualCost: 0.013,
+        computeUnits: 0.05,
+        datasetItems: 2,
+      });
+      expect(prisma.api_cost_log.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cost_usd: 0.013,
+          metadata: expect.objectContaining({
+            estimated_cost: 0.02,
+            actual_cost: 0.013,
+            compute_units: 0.05,
+            dataset_items: 2,
+          }),
+        }),
+      });
+    });
+
+    it('should record the estimate when the usage cannot be fetched', async () => {
+      jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+      scrapingProvider.waitForCompletion.mockResolvedValue([place()]);
+      scrapingProvider.getRunUsage.mockRejectedValue(new Error('Apify 503'));
+
+      const result = await process();
+
+      expect(jobs.finish).toHaveBeenCalledWith(
+        'run-1',
+        'completed',
+        expect.objectContaining({ cost: 0.01, actualCost: null }),
+      );
+      expect(result).toMatchObject({ success: true, saved: 1 });
+    });
+
+    it('should close the job row with the totals', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([place(), place()]);
+      repository.existsByPlaceId.mockResolvedValueOnce(false);
+      repository.existsByPlaceId.mockResolvedValueOnce(true);
+
+      const result = await process();
+
+      expect(jobs.incrementSaved).toHaveBeenCalledTimes(1);
+      expect(jobs.finish).toHaveBeenCalledWith('run-1', 'completed', {
+        found: 2,
+        cost: 0.02,
+        estimatedCost: 0.02,
+        actualCost: null,
+        computeUnits: null,
+        datasetItems: 0,
+      });
+      expect(result).toMatchObject({ found: 2, saved: 1, skipped: 1 });
+    });
+
+    it('should count businesses saved before a restart', async () => {
+      savedSoFar = 2;
+      scrapingProvider.waitForCompletion.mockResolvedValue([place()]);
+
+      const result = await process();
+
+      expect(result.saved).toBe(3);
+      expect(completedEvent()).toMatchObject({ saved: 3 });
+    });
+
+    it('should not process a run that was already recorded', async () => {
+      jobs.findByRunId.mockResolvedValue(
+        jobRow({
+          status: 'completed',
+          businesses_found: 4,
+          businesses_saved: 3,
+        }),
+      );
+
+      const result = await process();
+
+      expect(scrapingProvider.waitForCompletion).not.toHaveBeenCalled();
+      expect(jobs.finish).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        success: true,
+        runId: 'run-1',
+        found: 4,
+        saved: 3,
+        skipped: 1,
+      });
+    });
+
+    it('should throw for a run without a job row', async () => {
+      jobs.findByRunId.mockResolvedValue(null);
+
+      await expect(process()).rejects.toThrow(
+        'No scraping job recorded for run run-1',
+      );
+    });
+
+    it('should rethrow a failed run that was not cancelled', async () => {
+      scrapingProvider.waitForCompletion.mockRejectedValue(
+        new Error('Run run-1 failed with status: FAILED'),
+      );
+
+      await expect(process()).rejects.toThrow('failed with status: FAILED');
+      expect(jobs.finish).not.toHaveBeenCalled();
+    });
+
+    it('should record the partial results of a run cancelled while waiting', async () => {
+      scrapingProvider.waitForCompletion.mockRejectedValue(
+        new Error('Run run-1 failed with status: ABORTED'),
+      );
+      scrapingProvider.getResults.mockResolvedValue([place()]);
+      jobs.isCancelling.mockResolvedValue(true);
+
+      const result = await process();
+
+      expect(repository.createBusiness).toHaveBeenCalledTimes(1);
+      expect(jobs.finish).toHaveBeenCalledWith(
+        'run-1',
+        'aborted',
+        expect.objectContaining({ found: 1, cost: 0.01 }),
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'scraping:cancelled',
+        expect.objectContaining({ runId: 'run-1', found: 1, saved: 1 }),
+      );
+      expect(result).toMatchObject({ found: 1, saved: 1 });
+      expect(completedEvent()).toBeUndefined();
+    });
+
+    it('should stop saving when cancelled after the run finished', async () => {
+      scrapingProvider.waitForCompletion.mockResolvedValue([
+        place({ placeId: 'a' }),
+        place({ placeId: 'b' }),
+      ]);
+      jobs.isCancelling
+        .mockResolvedValueOnce(false) // after waiting
+        .mockResolvedValueOnce(false) // before place a
+        .mockResolvedValueOnce(true); // before place b
+
+      await process();
+
+      expect(repository.createBusiness).toHaveBeenCalledTimes(1);
+      expect(jobs.finish).toHaveBeenCalledWith(
+        'run-1',
+        'aborted',
+        expect.anything(),
+      );
+    });
+    it('should stage the places of a staged run instead of saving them', async () => {
+      jobs.findByRunId.mockResolvedValue(jobRow({ staged: true }));
+      const places = [
+        place(),
+        place({ placeId: 'ChIJclosed', permanentlyClosed: true }),
+      ];
+      scrapingProvider.waitForCompletion.mockResolvedValue(places);
+
+      const result = await process();
+
+      expect(stagingService.stage).toHaveBeenCalledWith('run-1', places, {
+        maxResults: 50,
+      });
+      expect(repository.createBusiness).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        found: 2,
+        saved: 0,
+        staged: 1,
+        skipped: 1,
+      });
+      expect(completedEvent()).toMatchObject({ staged: 1 });
+    });
+  });
+
+  describe('startScraping()', () => {
+    it('should record the run and queue it for the scraping worker', async () => {
+      const result = await service.startScraping(
+        request({ business_type: 'plumbers', radius: 5, include_closed: true }),
+      );
+
+      expect(result).toMatchObject({ success: true, runId: 'run-2' });
+      expect(jobs.create).toHaveBeenCalledWith({
+        runId: 'run-2',
+        provider: 'apify',
+        searchQuery: 'plumbers within 5 miles of Freehold, NJ',
+        location: 'Freehold, NJ',
+        radius: 5,
+        businessType: 'plumbers',
+        maxResults: 50,
+        staged: false,
+      });
+      expect(jobQueue.createScrapeRunJob).toHaveBeenCalledWith({
+        runId: 'run-2',
+        searchQuery: 'plumbers within 5 miles of Freehold, NJ',
+        location: 'Freehold, NJ',
+        maxResults: 50,
+        includeClosed: true,
+        filters: {
+          excludeChains: [],
+          requireWebsite: false,
+        },
+      });
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'scraping:started',
+        expect.objectContaining({ runId: 'run-2' }),
+      );
+    });
+
+    it('should pass the quality filters to the scraping worker', async () => {
+      await service.startScraping(
+        request({
+          min_reviews: 5,
+          max_reviews: 1500,
+          min_rating: 3.5,
+          exclude_chains: ['Home Depot'],
+          exclude_keywords: ['outlet'],
+          require_website: true,
+        }),
+      );
+
+      expect(jobQueue.createScrapeRunJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filters: {
+            minReviews: 5,
+            maxReviews: 1500,
+            minRating: 3.5,
+            excludeChains: ['Home Depot'],
+            excludeKeywords: ['outlet'],
+            requireWebsite: true,
+          },
+        }),
+      );
+    });
+
+    it('should exclude the configured chains by default', async () => {
+      configService.getExcludedChains.mockReturnValue(['Walmart']);
+
+      await service.startScraping(request());
+      await service.startScraping(request({ exclude_chains: [] }));
+
+      const [[first], [second]] = jobQueue.createScrapeRunJob.mock.calls;
+      expect(first.filters?.excludeChains).toEqual(['Walmart']);
+      expect(second.filters?.excludeChains).toEqual([]);
+    });
+
+    it('should reject min_reviews greater than max_reviews', async () => {
+      await expect(
+        service.startScraping(request({ min_reviews: 50, max_reviews: 10 })),
+      ).rejects.toThrow(BadRequestException);
+      expect(scrapingProvider.startScraping).not.toHaveBeenCalled();
+    });
+
+    it('should fail the job row when the run cannot be queued', async () => {
+      jobQueue.createScrapeRunJob.mockRejectedValue(new Error('Redis down'));
+
+      await expect(service.startScraping(request())).rejects.toThrow(
+        'Redis down',
+      );
+      expect(jobs.finish).toHaveBeenCalledWith('run-2', 'failed');
+    });
+  });
+
+  describe('getScrapingStatus()', () => {
+    it('should base progress on the items collected out of max_results', async () => {
+      scrapingProvider.getRunStatus.mockResolvedValue({
+        status: 'RUNNING',
+        itemCount: 20,
+      });
+
+      expect(await service.getScrapingStatus('run-1')).toEqual({
+        runId: 'run-1',
+        status: 'RUNNING',
+        itemCount: 20,
+        progress: 40,
+      });
+    });
+
+    it('should hold progress below 100 until the run succeeds', async () => {
+      scrapingProvider.getRunStatus.mockResolvedValueOnce({
+        status: 'RUNNING',
+        itemCount: 50,
+      });
+      scrapingProvider.getRunStatus.mockResolvedValueOnce({
+        status: 'SUCCEEDED',
+        itemCount: 12,
+      });
+
+      expect((await service.getScrapingStatus('run-1')).progress).toBe(99);
+      expect((await service.getScrapingStatus('run-1')).progress).toBe(100);
+    });
+
+    it('should throw NotFoundException for an unknown run', async () => {
+      jobs.findByRunId.mockResolvedValue(null);
+
+      await expect(service.getScrapingStatus('run-missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(scrapingProvider.getRunStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelScraping()', () => {
+    it('should flag the run, abort it and return the recorded results', async () => {
+      jobs.findByRunId.mockResolvedValue(
+        jobRow({ status: 'aborted', businesses_found: 2, businesses_saved: 1 }),
+      );
+
+      const result = await service.cancelScraping('run-1');
+
+      expect(jobs.markCancelling).toHaveBeenCalledWith('run-1');
+      expect(scrapingProvider.cancelRun).toHaveBeenCalledWith('run-1');
+      expect(result).toEqual({
+        success: true,
+        runId: 'run-1',
+        found: 2,
+        saved: 1,
+        skipped: 1,
+      });
+    });
+
+    it('should still wait for the results when the provider abort fails', async () => {
+      scrapingProvider.cancelRun.mockRejectedValue(new Error('Apify down'));
+      jobs.findByRunId.mockResolvedValue(jobRow({ status: 'aborted' }));
+
+      const result = await service.cancelScraping('run-1');
+
+      expect(result).toMatchObject({ success: true, runId: 'run-1' });
+    });
+
+    it('should throw NotFoundException for a run that is not running', async () => {
+      jobs.markCancelling.mockResolvedValue(false);
+
+      await expect(service.cancelScraping('run-1')).rejects.toThrow(
+        'Scrape run run-1 is not running',
+      );
+      expect(scrapingProvider.cancelRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findRecentRuns()', () => {
+    it('should report the cost per saved lead of each run', async () => {
+      jobs.findRecent.mockResolvedValue([
+        jobRow({
+          status: 'completed',
+          businesses_found: 40,
+          businesses_saved: 8,
+          apify_cost: 0.3,
+          estimated_cost: 0.4,
+          actual_cost: 0.3,
+          compute_units: 0.12,
+          dataset_items: 40,
+        }),
+        jobRow({ job_id: 'run-2', status: 'completed', apify_cost: 0.1 }),
+      ]);
+
+      const runs = await service.findRecentRuns(10);
+
+      expect(jobs.findRecent).toHaveBeenCalledWith(10);
+      expect(runs[0]).toMatchObject({
+        run_id: 'run-1',
+        businesses_saved: 8,
+        cost: 0.3,
+        estimated_cost: 0.4,
+        actual_cost: 0.3,
+        cost_per_saved_lead: 0.0375,
+      });
+      expect(runs[1].cost_per_saved_lead).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Territory grid helper tests
+ *
+ * Covers tiling circles and polygons into cells, the size of the bounding
+ * grid, the search radius that covers a cell, the point-in-polygon test and
+ * polygons crossing the antimeridian.
+ */
+
+import {
+  cellSearchRadius,
+  crossesAntimeridian,
+  pointInPolygon,
+  territoryGridSize,
+  tileTerritory,
+} from '../domain/territory-grid.helper';
+
+describe('territory-grid.helper', () => {
+  // Roughly Freehold / Manalapan / Marlboro
+  const square: Array<[number, number]> = [
+    [40.31, -74.36],
+    [40.31, -74.18],
+    [40.17, -74.18],
+    [40.17, -74.36],
+  ];
+
+  describe('cellSearchRadius()', () => {
+    it('should circumscribe the cell, rounded up to a tenth of a mile', () => {
+      expect(cellSearchRadius(2)).toBe(1.5);
+      expect(cellSearchRadius(1)).toBe(0.8);
+    });
+  });
+
+  describe('pointInPolygon()', () => {
+    it('should tell points inside and outside the polygon apart', () => {
+      expect(pointInPolygon({ lat: 40.26, lng: -74.27 }, square)).toBe(true);
+      expect(pointInPolygon({ lat: 40.4, lng: -74.27 }, square)).toBe(false);
+      expect(pointInPolygon({ lat: 40.26, lng: -74.1 }, square)).toBe(false);
+    });
+  });
+
+  describe('crossesAntimeridian()', () => {
+    it('should flag polygons with an edge across the 180th meridian', () => {
+      expect(crossesAntimeridian(square)).toBe(false);
+      expect(
+        crossesAntimeridian([
+          [52, 179],
+          [52, -179],
+          [51, -179],
+          [51, 179],
+        ]),
+      ).toBe(true);
+    });
+  });
+
+  describe('territoryGridSize()', () => {
+    it('should count the rows and columns tiling checks', () => {
+      const circle = { center: { lat: 40.26, lng: -74.27 }, radius: 5 };
+
+      expect(territoryGridSize(circle, 2)).toEqual({ rows: 5, cols: 5 });
+      // The square is about 9.7 x 9.5 miles
+      expect(territoryGridSize({ polygon: square }, 1)).toEqual({
+        rows: 10,
+        cols: 10,
+      });
+    });
+  });
+
+  describe('tileTerritory()', () => {
+    it('should tile a circle into cells around its center', () => {
+      const cells = tileTerritory(
+        { center: { lat: 40.26, lng: -74.27 }, radius: 5 },
+        2,
+      );
+
+      // A 10-mile circle touches every cell of its 5 x 5 bounding grid
+      expect(cells).toHaveLength(25);
+      expect(new Set(cells.map((cell) => cell.index)).size).toBe(25);
+      expect(cells[12]).toEqual({ index: 12, lat: 40.26, lng: -74.27 });
+    });
+
+    it('should leave out the grid corners outside a circle', () => {
+      const cells = tileTerritory(
+        { center: { lat: 40.26, lng: -74.27 }, radius: 10 },
+        2,
+      );
+
+      expect(cells.length).toBeLessThan(100);
+      expect(cells.map((cell) => cell.index)).not.toContain(0);
+    });
+
+    it('should return a single cell for a territory smaller than a cell', () => {
+      const cells = tileTerritory(
+        { center: { lat: 40.26, lng: -74.27 }, radius: 1 },
+        5,
+      );
+
+      expect(cells).toEqual([{ index: 0, lat: 40.26, lng: -74.27 }]);
+    });
+
+    it('should keep only the cells overlapping a polygon', () => {
+      const triangle: Array<[number, number]> = [
+        [40.31, -74.36],
+        [40.31, -74.18],
+        [40.17, -74.36],
+      ];
+
+      const full = tileTerritory({ polygon: square }, 2);
+      const half = tileTerritory({ polygon: triangle }, 2);
+
+      expect(half.length).toBeLessThan(full.length);
+      expect(half.length).toBeGreaterThan(full.length / 2);
+      for (const cell of half) {
+        expect(full).toContainEqual(cell);
+      }
+    });
+
+    it('should give the same cells for the same territory', () => {
+      expect(tileTerritory({ polygon: square }, 2)).toEqual(
+        tileTerritory({ polygon: square }, 2),
+      );
+    });
+  });
+});
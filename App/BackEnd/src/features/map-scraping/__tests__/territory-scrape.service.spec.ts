@@ -0,0 +1,360 @@
+/**
+ * TerritoryScrapeService Unit Tests
+ *
+ * Test Categories:
+ * - start(): tiling, default categories, grid and run limits, queued cell
+ *   jobs
+ * - findOne(): coverage per category and cell, saturated runs
+ * - startCellRun() / failCell(): provider run per cell, resumed cells
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TerritoryScrapeService } from '../domain/territory-scrape.service';
+import { TerritoryScrapeRepository } from '../data/territory-scrape.repository';
+import { ScraperService } from '../domain/scraper.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import { ConfigService } from '../../../config/config.service';
+
+describe('TerritoryScrapeService', () => {
+  let service: TerritoryScrapeService;
+  let repository: jest.Mocked<TerritoryScrapeRepository>;
+  let scraperService: jest.Mocked<ScraperService>;
+  let jobQueue: jest.Mocked<JobQueueService>;
+
+  const cell = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    territory_id: 1,
+    cell_index: 0,
+    latitude: 40.26,
+    longitude: -74.27,
+    category: 'plumber',
+    status: 'pending',
+    run_id: null,
+    error: null,
+    created_at: new Date('2026-11-01T00:00:00Z'),
+    updated_at: new Date('2026-11-01T00:00:00Z'),
+    run: null,
+    ...overrides,
+  });
+
+  const territory = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    name: 'Western Monmouth',
+    center_lat: 40.26,
+    center_lng: -74.27,
+    radius: 1,
+    polygon: null,
+    cell_size: 2,
+    categories: ['plumber', 'dentist'],
+    max_results_per_cell: 100,
+    include_closed: false,
+    filters: {},
+    created_by: 'user-1',
+    created_at: new Date('2026-11-01T00:00:00Z'),
+    updated_at: new Date('2026-11-01T00:00:00Z'),
+    cells: [cell(), cell({ id: 2, category: 'dentist' })],
+    ...overrides,
+  });
+
+  /** Default filters, SCRAPING_EXCLUDED_CHAINS only */
+  const chainFilter = {
+    excludeChains: ['Home Depot'],
+    requireWebsite: false,
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TerritoryScrapeService,
+        {
+          provide: TerritoryScrapeRepository,
+          useValue: {
+            create: jest.fn().mockResolvedValue(territory()),
+            findAll: jest.fn(),
+            findOne: jest.fn().mockResolvedValue(territory()),
+            findCell: jest
+              .fn()
+              .mockResolvedValue({ ...cell(), territory: territory() }),
+            markCellStarted: jest.fn(),
+            markCellFailed: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: ScraperService,
+          useValue: {
+            startRun: jest.fn().mockResolvedValue('run-1'),
+            toQualityFilters: jest.fn().mockReturnValue(chainFilter),
+          },
+        },
+        {
+          provide: JobQueueService,
+          useValue: { createTerritoryCellJobs: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            getTerritoryCategories: jest
+              .fn()
+              .mockReturnValue(['plumber', 'dentist']),
+          },
+        },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(TerritoryScrapeService);
+    repository = module.get(TerritoryScrapeRepository);
+    scraperService = module.get(ScraperService);
+    jobQueue = module.get(JobQueueService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('start()', () => {
+    const dto = {
+      name: 'Western Monmouth',
+      center_lat: 40.26,
+      center_lng: -74.27,
+      radius: 1,
+    };
+
+    it('should create a cell per grid cell and default category', async () => {
+      await service.start(dto, 'user-1');
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          center_lat: 40.26,
+          radius: 1,
+          cell_size: 2,
+          categories: ['plumber', 'dentist'],
+          max_results_per_cell: 100,
+          filters: chainFilter,
+        }),
+        [
+          {
+            cell_index: 0,
+            latitude: 40.26,
+            longitude: -74.27,
+            category: 'plumber',
+          },
+          {
+            cell_index: 0,
+            latitude: 40.26,
+            longitude: -74.27,
+            category: 'dentist',
+          },
+        ],
+      );
+      expect(jobQueue.createTerritoryCellJobs).toHaveBeenCalledWith([1, 2], {
+        maxResults: 100,
+        includeClosed: false,
+        filters: chainFilter,
+        userId: 'user-1',
+      });
+    });
+
+    it('should build the quality filters of every cell from the request', async () => {
+      const request = { ...dto, min_rating: 4, exclude_chains: [] };
+
+      await service.start(request, 'user-1');
+
+      expect(scraperService.toQualityFilters.mock.calls).toEqual([[request]]);
+    });
+
+    it('should drop repeated categories', async () => {
+      await service.start(
+        { ...dto, categories: [' Plumber', 'plumber', 'Dentist'] },
+        'user-1',
+      );
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ categories: ['Plumber', 'Dentist'] }),
+        expect.any(Array),
+      );
+    });
+
+    it('should reject a territory without a polygon or a full circle', async () => {
+      await expect(
+        service.start({ name: 'Nowhere', center_lat: 40.26 }, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.start(
+          {
+            name: 'Nowhere',
+            polygon: [[40.3, -74.3], [40.2], [40.1, -74.2]] as never,
+          },
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a territory needing more runs than the limit', async () => {
+      await expect(
+        service.start({ ...dto, radius: 5, cell_size: 0.5 }, 'user-1'),
+      ).rejects.toThrow(/limit is 300/);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a territory too large to tile before tiling it', async () => {
+      // Roughly the contiguous United States
+      const continent: Array<[number, number]> = [
+        [49, -125],
+        [49, -67],
+        [25, -67],
+        [25, -125],
+      ];
+
+      await expect(
+        service.start(
+          { name: 'Everywhere', polygon: continent, cell_size: 0.5 },
+          'user-1',
+        ),
+      ).rejects.toThrow(/grid cells; the limit is 2000/);
+      expect(repository.create.mock.calls).toHaveLength(0);
+    });
+
+    it('should reject a polygon crossing the antimeridian', async () => {
+      await expect(
+        service.start(
+          {
+            name: 'Aleutians',
+            polygon: [
+              [52, 179],
+              [52, -179],
+              [51, -179],
+            ],
+          },
+          'user-1',
+        ),
+      ).rejects.toThrow(/antimeridian/);
+    });
+
+    it('should delete the territory when its cells cannot be queued', async () => {
+      jobQueue.createTerritoryCellJobs.mockRejectedValue(
+        new Error('ECONNREFUSED'),
+      );
+
+      await expect(service.start(dto, 'user-1')).rejects.toThrow(
+        'ECONNREFUSED',
+      );
+      expect(repository.delete).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('findOne()', () => {
+    it('should report coverage per category and cell', async () => {
+      repository.findOne.mockResolvedValue(
+        territory({
+          cells: [
+            cell({
+              status: 'started',
+              run_id: 'run-1',
+              run: {
+                status: 'completed',
+                businesses_found: 100,
+                businesses_saved: 40,
+              },
+            }),
+            cell({
+              id: 2,
+              category: 'dentist',
+              status: 'started',
+              run_id: 'run-2',
+              run: {
+                status: 'running',
+                businesses_found: 0,
+                businesses_saved: 0,
+              },
+            }),
+            cell({ id: 3, cell_index: 1, latitude: 40.29 }),
+            cell({
+              id: 4,
+              cell_index: 1,
+              latitude: 40.29,
+              category: 'dentist',
+              status: 'failed',
+              error: 'quota',
+            }),
+          ],
+        }),
+      );
+
+      const view = await service.findOne(1);
+
+      expect(view).toMatchObject({
+        status: 'running',
+        grid_cells: 2,
+        total_runs: 4,
+        runs: { pending: 1, running: 1, completed: 1, aborted: 0, failed: 1 },
+        coverage_percent: 25,
+        saturated_runs: 1,
+        businesses_found: 100,
+        businesses_saved: 40,
+      });
+      expect(view.by_category[0]).toMatchObject({
+        category: 'plumber',
+        coverage_percent: 50,
+      });
+      expect(view.cells).toHaveLength(2);
+      expect(view.cells[0].runs[0]).toMatchObject({
+        category: 'plumber',
+        status: 'completed',
+        saturated: true,
+      });
+      expect(view.cells[1].runs[1]).toMatchObject({
+        status: 'failed',
+        error: 'quota',
+      });
+    });
+
+    it('should throw NotFoundException for an unknown territory', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne(99)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('startCellRun()', () => {
+    it('should search the cell for its category', async () => {
+      await expect(service.startCellRun(1)).resolves.toBe('run-1');
+
+      expect(scraperService.startRun).toHaveBeenCalledWith({
+        searchQuery: 'plumber within 1.5 miles of 40.26,-74.27',
+        location: '40.26,-74.27',
+        radius: 1.5,
+        businessType: 'plumber',
+        maxResults: 100,
+      });
+      expect(repository.markCellStarted).toHaveBeenCalledWith(1, 'run-1');
+    });
+
+    it('should return the run of a cell that already started', async () => {
+      repository.findCell.mockResolvedValue({
+        ...cell({ status: 'started', run_id: 'run-7' }),
+        territory: territory(),
+      } as never);
+
+      await expect(service.startCellRun(1)).resolves.toBe('run-7');
+      expect(scraperService.startRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failCell()', () => {
+    it('should record why the cell could not be searched', async () => {
+      await service.failCell(1, new Error('Apify quota exceeded'));
+
+      expect(repository.markCellFailed).toHaveBeenCalledWith(
+        1,
+        'Apify quota exceeded',
+      );
+    });
+  });
+});
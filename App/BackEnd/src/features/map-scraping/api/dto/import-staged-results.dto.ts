@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+} from 'class-validator';
+
+export class ImportStagedResultsDto {
+  @ApiProperty({
+    description: 'Staged results to import as businesses',
+    example: [101, 102, 105],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsInt({ each: true })
+  result_ids: number[];
+
+  @ApiPropertyOptional({
+    description: 'Discard the results of the run that were not imported',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  discard_remaining?: boolean;
+}
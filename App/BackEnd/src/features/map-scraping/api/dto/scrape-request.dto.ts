@@ -1,5 +1,15 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, IsNumber, Min, Max } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class ScrapeRequestDto {
@@ -44,4 +54,89 @@ export class ScrapeRequestDto {
   @Max(500)
   @Type(() => Number)
   max_results?: number = 50;
-}
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    description: 'Also save places Google Maps marks as permanently closed',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  include_closed?: boolean = false;
+
+  @ApiPropertyOptional({
+    description:
+      'Hold the results for review instead of saving them as businesses; import the chosen ones with POST /api/scrape/:runId/import',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  staged?: boolean = false;
+
+  @ApiPropertyOptional({
+    description: 'Skip places with fewer Google reviews',
+    example: 5,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  min_reviews?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Skip places with more Google reviews; very high counts usually mean a chain or big-box store',
+    example: 1500,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  max_reviews?: number;
+
+  @ApiPropertyOptional({
+    description: 'Skip places rated lower; unrated places are kept',
+    example: 3.5,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(5)
+  @Type(() => Number)
+  min_rating?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Skip places whose name contains one of these chains (whole words, case-insensitive). Defaults to SCRAPING_EXCLUDED_CHAINS; send [] to keep chains',
+    type: [String],
+    example: ['Home Depot', 'State Farm'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  exclude_chains?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Skip places whose name contains one of these keywords (whole words, case-insensitive)',
+    type: [String],
+    example: ['franchise', 'outlet'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  exclude_keywords?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Skip places without a website',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  require_website?: boolean = false;
+}
@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Run history query.
+ *
+ * Query format: ?limit=10
+ */
+export class ScrapeRunsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of runs to return, newest first',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,117 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateScrapeScheduleDto {
+  @ApiProperty({
+    description: 'Schedule name',
+    example: 'Route 9 plumbers',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Location to scrape (e.g., "Route 9, Freehold, NJ")',
+    example: 'Route 9, Freehold, NJ',
+  })
+  @IsString()
+  @IsNotEmpty()
+  location: string;
+
+  @ApiPropertyOptional({
+    description: 'Search radius in miles',
+    default: 10,
+    minimum: 1,
+    maximum: 50,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  @Type(() => Number)
+  radius?: number;
+
+  @ApiPropertyOptional({
+    description: 'Business type/category to filter',
+    example: 'plumber',
+  })
+  @IsOptional()
+  @IsString()
+  business_type?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of results per run',
+    default: 50,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  max_results?: number;
+
+  @ApiProperty({
+    description:
+      'Cron expression in server time (minute hour day month weekday), running at most once a day',
+    example: '0 6 1,15 * *',
+  })
+  @IsString()
+  @IsNotEmpty()
+  cron: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the schedule runs',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+// No property initializers above: PartialType copies them, and defaults
+// would overwrite stored values on every update. The required columns are
+// redeclared so they can be omitted but not cleared with null.
+export class UpdateScrapeScheduleDto extends PartialType(
+  CreateScrapeScheduleDto,
+) {
+  @ApiPropertyOptional({ description: 'Schedule name' })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Location to scrape' })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  location?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Cron expression in server time (minute hour day month weekday), running at most once a day',
+  })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  cron?: string;
+
+  @ApiPropertyOptional({ description: 'Whether the schedule runs' })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsBoolean()
+  enabled?: boolean;
+}
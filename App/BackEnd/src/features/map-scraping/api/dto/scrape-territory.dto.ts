@@ -0,0 +1,133 @@
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ScrapeRequestDto } from './scrape-request.dto';
+
+/**
+ * A territory is either a circle (center_lat, center_lng, radius) or a
+ * polygon; the service rejects requests with neither. The quality filters
+ * of a scrape request apply to every cell.
+ */
+export class ScrapeTerritoryDto extends PickType(ScrapeRequestDto, [
+  'min_reviews',
+  'max_reviews',
+  'min_rating',
+  'exclude_chains',
+  'exclude_keywords',
+  'require_website',
+] as const) {
+  @ApiProperty({
+    description: 'Territory name',
+    example: 'Western Monmouth',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Latitude of the center of a circular territory',
+    example: 40.2601,
+  })
+  @IsOptional()
+  @IsLatitude()
+  @Type(() => Number)
+  center_lat?: number;
+
+  @ApiPropertyOptional({
+    description: 'Longitude of the center of a circular territory',
+    example: -74.2738,
+  })
+  @IsOptional()
+  @IsLongitude()
+  @Type(() => Number)
+  center_lng?: number;
+
+  @ApiPropertyOptional({
+    description: 'Radius of a circular territory in miles',
+    minimum: 1,
+    maximum: 50,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  @Type(() => Number)
+  radius?: number;
+
+  @ApiPropertyOptional({
+    description: 'Territory outline as [lat, lng] points',
+    example: [
+      [40.31, -74.36],
+      [40.31, -74.18],
+      [40.17, -74.18],
+      [40.17, -74.36],
+    ],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(3)
+  @ArrayMaxSize(500)
+  polygon?: Array<[number, number]>;
+
+  @ApiPropertyOptional({
+    description:
+      'Side of a grid cell in miles. Smaller cells find more businesses but start more runs.',
+    default: 2,
+    minimum: 0.5,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(10)
+  @Type(() => Number)
+  cell_size?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Categories searched in every cell (default: SCRAPING_TERRITORY_CATEGORIES)',
+    example: ['plumber', 'electrician'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  categories?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of results per cell and category',
+    default: 100,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  max_results_per_cell?: number;
+
+  @ApiPropertyOptional({
+    description: 'Also save places Google Maps marks as permanently closed',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  include_closed?: boolean;
+}
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
+import { ScrapeScheduleService } from '../domain/scrape-schedule.service';
+import {
+  CreateScrapeScheduleDto,
+  UpdateScrapeScheduleDto,
+} from './dto/scrape-schedule.dto';
+
+/**
+ * Scrape schedule API controller.
+ *
+ * Provides REST endpoints for recurring territory scrapes:
+ * - GET /api/scrape/schedules - All schedules with their latest run
+ * - GET /api/scrape/schedules/:scheduleId - One schedule
+ * - POST /api/scrape/schedules - Create a schedule
+ * - PATCH /api/scrape/schedules/:scheduleId - Edit, pause or resume a schedule
+ * - DELETE /api/scrape/schedules/:scheduleId - Delete a schedule
+ *
+ * Like starting a scrape, managing schedules is ADMIN only.
+ */
+@ApiTags('Map Scraping')
+@Controller('api/scrape/schedules')
+export class ScrapeScheduleController {
+  constructor(private readonly scheduleService: ScrapeScheduleService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List scrape schedules' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Schedules ordered by name, with the new businesses found by their latest run',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  findAll() {
+    return this.scheduleService.findAll();
+  }
+
+  @Get(':scheduleId')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a scrape schedule' })
+  @ApiResponse({ status: 200, description: 'Schedule with its latest run' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  findOne(@Param('scheduleId', ParseIntPipe) scheduleId: number) {
+    return this.scheduleService.findOne(scheduleId);
+  }
+
+  @Post()
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a recurring scrape' })
+  @ApiResponse({ status: 201, description: 'Schedule created' })
+  @ApiResponse({ status: 400, description: 'Invalid cron expression' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  create(
+    @Body() dto: CreateScrapeScheduleDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.scheduleService.create(dto, user.id);
+  }
+
+  @Patch(':scheduleId')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Edit, pause or resume a scrape schedule' })
+  @ApiResponse({ status: 200, description: 'Schedule updated' })
+  @ApiResponse({ status: 400, description: 'Invalid cron expression' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  update(
+    @Param('scheduleId', ParseIntPipe) scheduleId: number,
+    @Body() dto: UpdateScrapeScheduleDto,
+  ) {
+    return this.scheduleService.update(scheduleId, dto);
+  }
+
+  @Delete(':scheduleId')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a scrape schedule' })
+  @ApiResponse({ status: 200, description: 'Schedule deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  remove(@Param('scheduleId', ParseIntPipe) scheduleId: number) {
+    return this.scheduleService.remove(scheduleId);
+  }
+}
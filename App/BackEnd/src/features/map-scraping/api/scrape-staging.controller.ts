@@ -0,0 +1,58 @@
+import { Controller, Get, Post, Body, Param } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { ScrapeStagingService } from '../domain/scrape-staging.service';
+import { ImportStagedResultsDto } from './dto/import-staged-results.dto';
+
+/**
+ * Staged scrape API controller.
+ *
+ * Provides REST endpoints for reviewing a run started with `staged: true`:
+ * - GET /api/scrape/:runId/staged - Staged results with duplicate flags
+ * - POST /api/scrape/:runId/import - Import the chosen results as businesses
+ *
+ * Like starting a scrape, importing its results is ADMIN only.
+ */
+@ApiTags('Map Scraping')
+@Controller('api/scrape')
+export class ScrapeStagingController {
+  constructor(private readonly stagingService: ScrapeStagingService) {}
+
+  @Get(':runId/staged')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List the staged results of a run',
+    description:
+      'Places of a staged run in provider order, each flagged with the stored business it most likely duplicates',
+  })
+  @ApiResponse({ status: 200, description: 'Staged results' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Run not found or not staged' })
+  findByRun(@Param('runId') runId: string) {
+    return this.stagingService.findByRun(runId);
+  }
+
+  @Post(':runId/import')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Import staged results',
+    description:
+      'Saves the chosen staged results as businesses and optionally discards the rest',
+  })
+  @ApiResponse({ status: 201, description: 'Results imported' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Run not found or not staged' })
+  @ApiResponse({ status: 409, description: 'Run is still running' })
+  import(@Param('runId') runId: string, @Body() dto: ImportStagedResultsDto) {
+    return this.stagingService.import(runId, dto);
+  }
+}
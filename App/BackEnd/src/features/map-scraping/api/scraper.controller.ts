@@ -1,10 +1,19 @@
-import { Controller, Post, Body, Get, Param } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  Get,
+  Param,
+  Delete,
+  Query,
+} from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { Role } from '@prisma/client';
 import { Roles } from '../../auth/decorators/roles.decorator';
 import { ScraperService } from '../domain/scraper.service';
 import { ScrapeRequestDto } from './dto/scrape-request.dto';
 import { ScrapeStatusDto } from './dto/scrape-status.dto';
+import { ScrapeRunsQueryDto } from './dto/scrape-runs-query.dto';
 
 @ApiTags('Map Scraping')
 @Controller('api/scrape')
@@ -16,7 +25,8 @@ export class ScraperController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Start scraping businesses from Google Maps',
-    description: 'Initiates an Apify actor run to scrape business data from Google Maps'
+    description:
+      'Starts a scraping provider run (Apify by default) to scrape business data from Google Maps',
   })
   @ApiResponse({ status: 200, description: 'Scraping initiated successfully' })
   @ApiResponse({ status: 400, description: 'Invalid request parameters' })
@@ -26,12 +36,26 @@ export class ScraperController {
     return this.scraperService.startScraping(scrapeRequest);
   }
 
+  @Get('runs')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List recent scraping runs',
+    description:
+      'Returns recent runs, newest first, with their estimated and provider-reported cost, compute units, dataset items and cost per saved lead',
+  })
+  @ApiResponse({ status: 200, description: 'Runs retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async findRecentRuns(@Query() query: ScrapeRunsQueryDto) {
+    return this.scraperService.findRecentRuns(query.limit);
+  }
+
   @Get('status/:runId')
   @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Check scraping job status',
-    description: 'Returns the current status of an Apify actor run'
+    description: 'Returns the current status of a scraping provider run',
   })
   @ApiResponse({ status: 200, description: 'Status retrieved successfully', type: ScrapeStatusDto })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
@@ -39,4 +63,23 @@ export class ScraperController {
   async getScrapingStatus(@Param('runId') runId: string) {
     return this.scraperService.getScrapingStatus(runId);
   }
+
+  @Delete(':runId')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cancel a running scrape',
+    description:
+      'Aborts the provider run and records the places collected so far. The scraping job is marked aborted.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Scrape cancelled; partial results recorded',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  @ApiResponse({ status: 404, description: 'Run is not running' })
+  async cancelScraping(@Param('runId') runId: string) {
+    return this.scraperService.cancelScraping(runId);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { RequestUser } from '../../auth/decorators/current-user.decorator';
+import { TerritoryScrapeService } from '../domain/territory-scrape.service';
+import { ScrapeTerritoryDto } from './dto/scrape-territory.dto';
+
+/**
+ * Territory scrape API controller.
+ *
+ * Provides REST endpoints for grid scrapes of an area:
+ * - POST /api/scrape/territories - Tile a territory and scrape every cell
+ * - GET /api/scrape/territories - All territory scrapes with their coverage
+ * - GET /api/scrape/territories/:territoryId - Coverage per cell and category
+ *
+ * Like starting a scrape, starting a territory scrape is ADMIN only.
+ */
+@ApiTags('Map Scraping')
+@Controller('api/scrape/territories')
+export class TerritoryScrapeController {
+  constructor(private readonly territoryService: TerritoryScrapeService) {}
+
+  @Post()
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Scrape a territory cell by cell',
+    description:
+      'Tiles a polygon or center + radius into grid cells and starts one provider run per cell and category',
+  })
+  @ApiResponse({ status: 201, description: 'Territory scrape started' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid territory, or too many runs',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient role' })
+  start(@Body() dto: ScrapeTerritoryDto, @CurrentUser() user: RequestUser) {
+    return this.territoryService.start(dto, user.id);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List territory scrapes' })
+  @ApiResponse({
+    status: 200,
+    description: 'Territory scrapes, newest first, with their coverage',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  findAll() {
+    return this.territoryService.findAll();
+  }
+
+  @Get(':territoryId')
+  @Roles(Role.ADMIN, Role.MEMBER, Role.VIEWER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the coverage of a territory scrape' })
+  @ApiResponse({
+    status: 200,
+    description: 'Coverage per category and per grid cell',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Territory scrape not found' })
+  findOne(@Param('territoryId', ParseIntPipe) territoryId: number) {
+    return this.territoryService.findOne(territoryId);
+  }
+}
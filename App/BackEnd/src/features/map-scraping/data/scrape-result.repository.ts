@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { Prisma } from '@prisma/client';
+import { ScrapedBusiness } from '../domain/scraping-provider';
 
 @Injectable()
 export class ScrapeResultRepository {
@@ -9,54 +10,34 @@ export class ScrapeResultRepository {
   constructor(private prisma: PrismaService) {}
 
   /**
-   * Check if a business already exists with the same name and address
+   * Check whether a Google Maps place is already stored, including businesses
+   * in the trash so deleted places are not scraped back in.
    */
-  async findDuplicate(name: string, address: string | null) {
-    return this.prisma.business.findFirst({
-      where: {
-        name,
-        address: address || undefined,
-      },
+  async existsByPlaceId(googlePlaceId: string): Promise<boolean> {
+    const business = await this.prisma.business.findUnique({
+      where: { google_place_id: googlePlaceId },
+      select: { id: true },
     });
+    return business !== null;
   }
 
   /**
-   * Create a new business record from scraped data
+   * Find the business stored for a Google Maps place, including businesses
+   * in the trash.
    */
-  async createBusiness(data: {
-    name: string;
-    address?: string;
-    city?: string;
-    state?: string;
-    phone?: string;
-    website?: string;
-    email?: string;
-    google_maps_url?: string;
-    google_place_id?: string;
-    latitude?: number;
-    longitude?: number;
-    business_type?: string;
-    rating?: number;
-    review_count?: number;
-    raw_data?: string;
-  }) {
-    // Prepare the data with proper typing
-    const createData: Prisma.businessCreateInput = {
-      name: data.name,
-      address: data.address,
-      city: data.city,
-      state: data.state || 'NJ',
-      phone: data.phone,
-      website: data.website,
-      google_maps_url: data.google_maps_url,
-      latitude: data.latitude,
-      longitude: data.longitude,
-      industry: data.business_type,
-      enrichment_status: 'pending',
-    };
+  async findByPlaceId(googlePlaceId: string) {
+    return this.prisma.business.findUnique({
+      where: { google_place_id: googlePlaceId },
+      select: { id: true, name: true },
+    });
+  }
 
+  /**
+   * Create a new business record from scraped data
+   */
+  async createBusiness(data: ScrapedBusiness) {
     const business = await this.prisma.business.create({
-      data: createData,
+      data: this.toCreateInput(data),
       include: {
         contacts: true,
         enrichment_logs: {
@@ -71,36 +52,12 @@ export class ScrapeResultRepository {
   }
 
   /**
-   * Batch create businesses for better performance
+   * Batch create businesses for better performance.
+   * Places whose google_place_id is already stored are skipped.
    */
-  async createManyBusinesses(businesses: Array<{
-    name: string;
-    address?: string;
-    city?: string;
-    state?: string;
-    phone?: string;
-    website?: string;
-    google_maps_url?: string;
-    latitude?: number;
-    longitude?: number;
-    business_type?: string;
-  }>) {
-    const data: Prisma.businessCreateManyInput[] = businesses.map(b => ({
-      name: b.name,
-      address: b.address,
-      city: b.city,
-      state: b.state || 'NJ',
-      phone: b.phone,
-      website: b.website,
-      google_maps_url: b.google_maps_url,
-      latitude: b.latitude,
-      longitude: b.longitude,
-      industry: b.business_type,
-      enrichment_status: 'pending',
-    }));
-
+  async createManyBusinesses(businesses: ScrapedBusiness[]) {
     const result = await this.prisma.business.createMany({
-      data,
+      data: businesses.map((b) => this.toCreateInput(b)),
       skipDuplicates: true,
     });
 
@@ -108,12 +65,37 @@ export class ScrapeResultRepository {
     return result;
   }
 
+  private toCreateInput(data: ScrapedBusiness): Prisma.businessCreateManyInput {
+    return {
+      name: data.name,
+      address: data.address,
+      city: data.city,
+      state: data.state || 'NJ',
+      phone: data.phone,
+      website: data.website,
+      email: data.email,
+      google_maps_url: data.google_maps_url,
+      google_place_id: data.google_place_id,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      industry: data.business_type,
+      additional_categories: data.additional_categories ?? [],
+      rating: data.rating,
+      review_count: data.review_count,
+      price_level: data.price_level,
+      permanently_closed: data.permanently_closed ?? false,
+      raw_data: data.raw_data as Prisma.InputJsonValue | undefined,
+      enrichment_status: 'pending',
+    };
+  }
+
   /**
    * Get businesses by scraping run (would require adding run_id to schema)
    * For now, we'll get recent businesses
    */
   async getRecentBusinesses(limit: number = 10) {
     return this.prisma.business.findMany({
+      where: { deleted_at: null },
       take: limit,
       orderBy: { created_at: 'desc' },
       include: {
@@ -132,10 +114,16 @@ export class ScrapeResultRepository {
    */
   async getScrapingStats() {
     const [total, enriched, pending, failed] = await Promise.all([
-      this.prisma.business.count(),
-      this.prisma.business.count({ where: { enrichment_status: 'enriched' } }),
-      this.prisma.business.count({ where: { enrichment_status: 'pending' } }),
-      this.prisma.business.count({ where: { enrichment_status: 'failed' } }),
+      this.prisma.business.count({ where: { deleted_at: null } }),
+      this.prisma.business.count({
+        where: { deleted_at: null, enrichment_status: 'enriched' },
+      }),
+      this.prisma.business.count({
+        where: { deleted_at: null, enrichment_status: 'pending' },
+      }),
+      this.prisma.business.count({
+        where: { deleted_at: null, enrichment_status: 'failed' },
+      }),
     ]);
 
     return {
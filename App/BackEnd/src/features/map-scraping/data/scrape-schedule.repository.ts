@@ -0,0 +1,81 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+const SCHEDULE_INCLUDE = {
+  creator: { select: { id: true, name: true, email: true } },
+  // Latest run, for the "new businesses since last run" summary
+  runs: { orderBy: { created_at: 'desc' }, take: 1 },
+} satisfies Prisma.scrape_scheduleInclude;
+
+/**
+ * Data access for scrape schedules.
+ */
+@Injectable()
+export class ScrapeScheduleRepository {
+  private readonly logger = new Logger(ScrapeScheduleRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List all schedules alphabetically.
+   *
+   * @returns Schedules with their creator and latest run
+   */
+  async findAll() {
+    return this.prisma.scrape_schedule.findMany({
+      orderBy: { name: 'asc' },
+      include: SCHEDULE_INCLUDE,
+    });
+  }
+
+  /**
+   * Find a single schedule by ID.
+   */
+  async findOne(id: number) {
+    return this.prisma.scrape_schedule.findUnique({
+      where: { id },
+      include: SCHEDULE_INCLUDE,
+    });
+  }
+
+  /**
+   * List the schedules that should be running.
+   */
+  async findEnabled() {
+    return this.prisma.scrape_schedule.findMany({ where: { enabled: true } });
+  }
+
+  /**
+   * Create a schedule.
+   */
+  async create(data: Prisma.scrape_scheduleUncheckedCreateInput) {
+    const schedule = await this.prisma.scrape_schedule.create({
+      data,
+      include: SCHEDULE_INCLUDE,
+    });
+
+    this.logger.debug(
+      `Created scrape schedule ${schedule.id} - ${schedule.name}`,
+    );
+    return schedule;
+  }
+
+  /**
+   * Update a schedule.
+   */
+  async update(id: number, data: Prisma.scrape_scheduleUncheckedUpdateInput) {
+    return this.prisma.scrape_schedule.update({
+      where: { id },
+      data,
+      include: SCHEDULE_INCLUDE,
+    });
+  }
+
+  /**
+   * Delete a schedule. Its past runs keep their scraping_job rows.
+   */
+  async delete(id: number) {
+    return this.prisma.scrape_schedule.delete({ where: { id } });
+  }
+}
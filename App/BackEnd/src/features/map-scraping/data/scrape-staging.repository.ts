@@ -0,0 +1,96 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+/** Statuses of a staged result; pending rows are awaiting review. */
+export type StagedResultStatus = 'pending' | 'imported' | 'discarded';
+
+export interface CreateStagedResultData {
+  position: number;
+  google_place_id?: string;
+  data: Prisma.InputJsonValue;
+  duplicate_of?: number;
+  duplicate_kind?: string;
+  duplicate_score?: number;
+}
+
+/**
+ * Data access for staged scrape results: places of a staged run held for
+ * review before they become businesses.
+ */
+@Injectable()
+export class ScrapeStagingRepository {
+  private readonly logger = new Logger(ScrapeStagingRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Stage the places of a run. Pending rows left by an interrupted attempt
+   * are replaced, so a run resumed after a restart is staged once.
+   */
+  async replacePending(runId: string, results: CreateStagedResultData[]) {
+    const [, created] = await this.prisma.$transaction([
+      this.prisma.scrape_staged_result.deleteMany({
+        where: { run_id: runId, status: 'pending' },
+      }),
+      this.prisma.scrape_staged_result.createMany({
+        data: results.map((result) => ({ ...result, run_id: runId })),
+      }),
+    ]);
+
+    this.logger.debug(`Staged ${created.count} results for run ${runId}`);
+    return created.count;
+  }
+
+  /**
+   * List the staged results of a run in provider order, with the business
+   * each one duplicates or was imported as.
+   */
+  async findByRun(runId: string) {
+    return this.prisma.scrape_staged_result.findMany({
+      where: { run_id: runId },
+      orderBy: { position: 'asc' },
+      include: {
+        duplicate: { select: { id: true, name: true, city: true } },
+      },
+    });
+  }
+
+  /**
+   * Find pending results of a run among the given IDs.
+   */
+  async findPending(runId: string, ids: number[]) {
+    return this.prisma.scrape_staged_result.findMany({
+      where: { run_id: runId, id: { in: ids }, status: 'pending' },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Record the business a staged result was imported as.
+   */
+  async markImported(id: number, businessId: number) {
+    return this.prisma.scrape_staged_result.update({
+      where: { id },
+      data: { status: 'imported', business_id: businessId },
+    });
+  }
+
+  /**
+   * Discard staged results.
+   *
+   * @param ids - Results to discard; all pending results of the run if omitted
+   * @returns Number of results discarded
+   */
+  async discardPending(runId: string, ids?: number[]): Promise<number> {
+    const { count } = await this.prisma.scrape_staged_result.updateMany({
+      where: {
+        run_id: runId,
+        status: 'pending',
+        ...(ids && { id: { in: ids } }),
+      },
+      data: { status: 'discarded' },
+    });
+    return count;
+  }
+}
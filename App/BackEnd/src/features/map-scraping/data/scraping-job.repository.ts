@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+/**
+ * scraping_job statuses. A row is created 'running' when the provider run
+ * starts and is the source of truth for the run across server restarts.
+ */
+export type ScrapingJobStatus =
+  | 'running'
+  | 'cancelling'
+  | 'completed'
+  | 'aborted'
+  | 'failed';
+
+/** Statuses of a run whose results have not been recorded yet. */
+export const ACTIVE_SCRAPING_JOB_STATUSES: ScrapingJobStatus[] = [
+  'running',
+  'cancelling',
+];
+
+export interface CreateScrapingJobData {
+  runId: string;
+  provider: string;
+  searchQuery: string;
+  location: string;
+  radius: number;
+  businessType?: string;
+  maxResults: number;
+  scheduleId?: number;
+  staged?: boolean;
+}
+
+/** Final tallies of a run, recorded when it closes */
+export interface ScrapingJobTotals {
+  found?: number;
+  /** Cost attributed to the run: the actual cost if known, else the estimate */
+  cost?: number;
+  estimatedCost?: number;
+  actualCost?: number | null;
+  computeUnits?: number | null;
+  datasetItems?: number;
+}
+
+@Injectable()
+export class ScrapingJobRepository {
+  private readonly logger = new Logger(ScrapingJobRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record a provider run that has just started
+   */
+  async create(data: CreateScrapingJobData) {
+    const job = await this.prisma.scraping_job.create({
+      data: {
+        job_id: data.runId,
+        provider: data.provider,
+        search_query: data.searchQuery,
+        location: data.location,
+        radius: data.radius,
+        business_type: data.businessType,
+        max_results: data.maxResults,
+        schedule_id: data.scheduleId,
+        staged: data.staged ?? false,
+        status: 'running',
+      },
+    });
+
+    this.logger.debug(`Created scraping job for run ${data.runId}`);
+    return job;
+  }
+
+  async findByRunId(runId: string) {
+    return this.prisma.scraping_job.findUnique({ where: { job_id: runId } });
+  }
+
+  /**
+   * Most recent runs, newest first
+   */
+  async findRecent(limit: number) {
+    return this.prisma.scraping_job.findMany({
+      orderBy: { created_at: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Whether a cancel was requested for a run that is still being processed
+   */
+  async isCancelling(runId: string): Promise<boolean> {
+    const job = await this.prisma.scraping_job.findUnique({
+      where: { job_id: runId },
+      select: { status: true },
+    });
+    return job?.status === 'cancelling';
+  }
+
+  /**
+   * Flag a running run for cancellation.
+   *
+   * @returns false if the run is unknown or no longer running
+   */
+  async markCancelling(runId: string): Promise<boolean> {
+    const { count } = await this.prisma.scraping_job.updateMany({
+      where: { job_id: runId, status: 'running' },
+      data: { status: 'cancelling' },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Count one saved business. Saved immediately so a run resumed after a
+   * restart keeps the tally of businesses saved before it.
+   */
+  async incrementSaved(runId: string): Promise<void> {
+    await this.prisma.scraping_job.update({
+      where: { job_id: runId },
+      data: { businesses_saved: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Close a run with its final status
+   */
+  async finish(
+    runId: string,
+    status: Exclude<ScrapingJobStatus, 'running' | 'cancelling'>,
+    totals: ScrapingJobTotals = {},
+  ) {
+    return this.prisma.scraping_job.update({
+      where: { job_id: runId },
+      data: {
+        status,
+        businesses_found: totals.found,
+        apify_cost: totals.cost,
+        estimated_cost: totals.estimatedCost,
+        actual_cost: totals.actualCost,
+        compute_units: totals.computeUnits,
+        dataset_items: totals.datasetItems,
+        completed_at: new Date(),
+      },
+    });
+  }
+}
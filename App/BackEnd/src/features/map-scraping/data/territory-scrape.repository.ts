@@ -0,0 +1,114 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+const CELLS_INCLUDE = {
+  cells: {
+    orderBy: [{ cell_index: 'asc' }, { category: 'asc' }],
+    include: {
+      run: {
+        select: {
+          status: true,
+          businesses_found: true,
+          businesses_saved: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.territory_scrapeInclude;
+
+export interface CreateTerritoryCellData {
+  cell_index: number;
+  latitude: number;
+  longitude: number;
+  category: string;
+}
+
+/**
+ * Data access for territory scrapes and their grid cells.
+ */
+@Injectable()
+export class TerritoryScrapeRepository {
+  private readonly logger = new Logger(TerritoryScrapeRepository.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a territory scrape with a pending cell per grid cell and category.
+   */
+  async create(
+    data: Omit<Prisma.territory_scrapeUncheckedCreateInput, 'cells'>,
+    cells: CreateTerritoryCellData[],
+  ) {
+    const territory = await this.prisma.territory_scrape.create({
+      data: { ...data, cells: { createMany: { data: cells } } },
+      include: CELLS_INCLUDE,
+    });
+
+    this.logger.debug(
+      `Created territory scrape ${territory.id} with ${cells.length} cells`,
+    );
+    return territory;
+  }
+
+  /**
+   * List territory scrapes, newest first.
+   *
+   * @returns Territories with their cells and the cells' runs
+   */
+  async findAll() {
+    return this.prisma.territory_scrape.findMany({
+      orderBy: { created_at: 'desc' },
+      include: CELLS_INCLUDE,
+    });
+  }
+
+  /**
+   * Find a territory scrape by ID.
+   *
+   * @returns Territory with its cells and the cells' runs
+   */
+  async findOne(id: number) {
+    return this.prisma.territory_scrape.findUnique({
+      where: { id },
+      include: CELLS_INCLUDE,
+    });
+  }
+
+  /**
+   * Find a cell with the territory it belongs to.
+   */
+  async findCell(cellId: number) {
+    return this.prisma.territory_scrape_cell.findUnique({
+      where: { id: cellId },
+      include: { territory: true },
+    });
+  }
+
+  /**
+   * Link a cell to the provider run searching it.
+   */
+  async markCellStarted(cellId: number, runId: string) {
+    return this.prisma.territory_scrape_cell.update({
+      where: { id: cellId },
+      data: { status: 'started', run_id: runId },
+    });
+  }
+
+  /**
+   * Record that no provider run could be started for a cell.
+   */
+  async markCellFailed(cellId: number, error: string) {
+    return this.prisma.territory_scrape_cell.update({
+      where: { id: cellId },
+      data: { status: 'failed', error },
+    });
+  }
+
+  /**
+   * Delete a territory scrape and its cells.
+   */
+  async delete(id: number) {
+    return this.prisma.territory_scrape.delete({ where: { id } });
+  }
+}
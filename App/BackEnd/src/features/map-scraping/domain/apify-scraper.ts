@@ -1,6 +1,11 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '../../../config/config.service';
 import axios, { AxiosInstance } from 'axios';
+import {
+  ScrapeRunStatus,
+  ScrapeRunUsage,
+  ScrapingProvider,
+} from './scraping-provider';
 
 export interface ApifyActorInput {
   searchStringsArray: string[];
@@ -58,14 +63,33 @@ export interface ApifyRunResponse {
   };
 }
 
+/**
+ * Pricing of a paid actor, as reported on its runs
+ */
+interface ApifyPricingInfo {
+  pricingModel?: string;
+  /** PRICE_PER_DATASET_ITEM: price of one result */
+  pricePerUnitUsd?: number;
+  /** PAY_PER_EVENT: price of each event the actor charges */
+  pricingPerEvent?: {
+    actorChargeEvents?: Record<string, { eventPriceUsd?: number }>;
+  };
+}
+
+/**
+ * Scraping provider backed by the Apify Google Maps extractor actor.
+ */
 @Injectable()
-export class ApifyScraper {
-  private readonly logger = new Logger(ApifyScraper.name);
+export class ApifyScraper extends ScrapingProvider {
+  readonly name = 'apify';
+  readonly costPerResult = 0.01;
   private readonly client: AxiosInstance;
   private readonly actorId = 'compass~google-maps-extractor';
   private readonly apiKey: string;
 
   constructor(private configService: ConfigService) {
+    super();
+
     // Load API key from secrets file via custom ConfigService
     this.apiKey = this.configService.getApifyApiKey() || '';
 
@@ -121,7 +145,7 @@ export class ApifyScraper {
   /**
    * Get the status of an Apify actor run
    */
-  async getRunStatus(runId: string): Promise<{ status: string; itemCount: number }> {
+  async getRunStatus(runId: string): Promise<ScrapeRunStatus> {
     try {
       const response = await this.client.get(`/actor-runs/${runId}`);
       const { status, stats } = response.data.data;
@@ -159,58 +183,75 @@ export class ApifyScraper {
   }
 
   /**
-   * Wait for an Apify run to complete and return results
+   * Get the usage Apify reports for an actor run.
+   *
+   * usageTotalUsd covers platform usage (compute, storage, proxies) only;
+   * what a paid actor charges for its results or events is added from the
+   * run's pricing info. The dataset item count is read from the run's
+   * default dataset.
    */
-  async waitForCompletion(
-    runId: string,
-    maxWaitTime: number = 300000, // 5 minutes
-    pollInterval: number = 5000 // 5 seconds
-  ): Promise<ApifyPlaceResult[]> {
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < maxWaitTime) {
-      const { status } = await this.getRunStatus(runId);
+  async getRunUsage(runId: string): Promise<ScrapeRunUsage> {
+    try {
+      const [run, dataset] = await Promise.all([
+        this.client.get(`/actor-runs/${runId}`),
+        this.client.get(`/actor-runs/${runId}/dataset`),
+      ]);
+      const { usageTotalUsd, stats, pricingInfo, chargedEventCounts } =
+        run.data.data;
+      const datasetItems: number = dataset.data.data?.itemCount ?? 0;
 
-      if (status === 'SUCCEEDED') {
-        this.logger.log(`Run ${runId} completed successfully`);
-        return this.getResults(runId);
-      }
+      return {
+        costUsd:
+          typeof usageTotalUsd === 'number'
+            ? usageTotalUsd +
+              this.actorCharges(pricingInfo, chargedEventCounts, datasetItems)
+            : null,
+        computeUnits: stats?.computeUnits ?? null,
+        datasetItems,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get usage for run ${runId}:`, error);
+      throw error;
+    }
+  }
 
-      if (status === 'FAILED' || status === 'ABORTED' || status === 'TIMED-OUT') {
-        throw new Error(`Apify run ${runId} failed with status: ${status}`);
+  /**
+   * Abort a running Apify actor run
+   */
+  async cancelRun(runId: string): Promise<void> {
+    try {
+      const { status } = await this.getRunStatus(runId);
+      if (status !== 'READY' && status !== 'RUNNING') {
+        return;
       }
 
-      this.logger.debug(`Run ${runId} status: ${status}. Waiting...`);
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      await this.client.post(`/actor-runs/${runId}/abort`);
+      this.logger.log(`Aborted Apify run ${runId}`);
+    } catch (error) {
+      this.logger.error(`Failed to abort run ${runId}:`, error);
+      throw error;
     }
-
-    throw new Error(`Apify run ${runId} timed out after ${maxWaitTime}ms`);
   }
 
-  /**
-   * Transform Apify results to our business entity format
-   */
-  transformResult(place: ApifyPlaceResult): any {
-    return {
-      name: place.title,
-      address: place.address,
-      city: place.city,
-      state: place.state || 'NJ',
-      phone: place.phone,
-      website: place.website,
-      email: place.email,
-      google_maps_url: place.googleMapsUrl || place.url,
-      google_place_id: place.placeId,
-      latitude: place.location?.lat,
-      longitude: place.location?.lng,
-      business_type: place.categoryName,
-      additional_categories: place.additionalCategories,
-      rating: place.totalScore,
-      review_count: place.reviewsCount,
-      price_level: place.price,
-      temporarily_closed: place.temporarilyClosed,
-      permanently_closed: place.permanentlyClosed,
-      raw_data: JSON.stringify(place.additionalInfo || {}),
-    };
+  /** What a paid actor charged for a run on top of platform usage */
+  private actorCharges(
+    pricing: ApifyPricingInfo | undefined,
+    chargedEvents: Record<string, number> | undefined,
+    datasetItems: number,
+  ): number {
+    switch (pricing?.pricingModel) {
+      case 'PRICE_PER_DATASET_ITEM':
+        return (pricing.pricePerUnitUsd ?? 0) * datasetItems;
+      case 'PAY_PER_EVENT': {
+        const prices = pricing.pricingPerEvent?.actorChargeEvents ?? {};
+        return Object.entries(chargedEvents ?? {}).reduce(
+          (sum, [event, count]) =>
+            sum + (prices[event]?.eventPriceUsd ?? 0) * count,
+          0,
+        );
+      }
+      default:
+        return 0;
+    }
   }
-}
\ No newline at end of file
+}
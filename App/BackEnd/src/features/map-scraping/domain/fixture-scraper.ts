@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ConfigService } from '../../../config/config.service';
+import { ApifyPlaceResult } from './apify-scraper';
+import {
+  ScrapeRunStatus,
+  ScrapeRunUsage,
+  ScrapingProvider,
+} from './scraping-provider';
+
+/** Dataset used when no file matches the search query. */
+const DEFAULT_DATASET = 'default.json';
+
+interface FixtureRun {
+  places: ApifyPlaceResult[];
+  startedAt: number;
+  abortedAt?: number;
+}
+
+/**
+ * Scraping provider that replays recorded Apify datasets from disk.
+ *
+ * Used for local development and e2e tests, where the live actor is slow,
+ * paid and needs network. SCRAPING_FIXTURE_PATH points at a JSON file
+ * holding an array of Apify places, or at a directory of such files; in a
+ * directory the file named after the slugged search query is used, falling
+ * back to default.json. With SCRAPING_FIXTURE_DELAY_MS set, places are
+ * "collected" evenly over the delay, so a cancelled run keeps a partial
+ * dataset.
+ *
+ * @example
+ * // SCRAPING_PROVIDER=fixture SCRAPING_FIXTURE_PATH=test/fixtures/google-maps
+ * await scraper.startScraping('plumbers within 5 miles of Freehold, NJ');
+ * // → replays plumbers-within-5-miles-of-freehold-nj.json or default.json
+ */
+@Injectable()
+export class FixtureScraper extends ScrapingProvider {
+  readonly name = 'fixture';
+  readonly costPerResult = 0;
+  private readonly runs = new Map<string, FixtureRun>();
+
+  constructor(private configService: ConfigService) {
+    super();
+  }
+
+  /**
+   * Load the dataset for a query and register a run for it
+   */
+  async startScraping(
+    searchQuery: string,
+    maxResults: number = 50,
+  ): Promise<string> {
+    const places = await this.loadDataset(searchQuery);
+    const runId = `fixture-${randomUUID()}`;
+
+    this.runs.set(runId, {
+      places: places.slice(0, maxResults),
+      startedAt: Date.now(),
+    });
+
+    this.logger.log(
+      `Replaying ${Math.min(places.length, maxResults)} fixture places for query: ${searchQuery}`,
+    );
+    return runId;
+  }
+
+  /**
+   * Runs report RUNNING for SCRAPING_FIXTURE_DELAY_MS, then SUCCEEDED
+   */
+  async getRunStatus(runId: string): Promise<ScrapeRunStatus> {
+    const run = await this.getRun(runId);
+
+    const itemCount = this.collected(run).length;
+
+    if (run.abortedAt) {
+      return { status: 'ABORTED', itemCount };
+    }
+    if (!this.isFinished(run)) {
+      return { status: 'RUNNING', itemCount };
+    }
+    return { status: 'SUCCEEDED', itemCount };
+  }
+
+  async getResults(runId: string): Promise<ApifyPlaceResult[]> {
+    return this.collected(await this.getRun(runId));
+  }
+
+  /**
+   * Replays are free and use no compute
+   */
+  async getRunUsage(runId: string): Promise<ScrapeRunUsage> {
+    const run = await this.getRun(runId);
+    return {
+      costUsd: 0,
+      computeUnits: 0,
+      datasetItems: this.collected(run).length,
+    };
+  }
+
+  async cancelRun(runId: string): Promise<void> {
+    const run = await this.getRun(runId);
+    if (!run.abortedAt && !this.isFinished(run)) {
+      run.abortedAt = Date.now();
+    }
+  }
+
+  private isFinished(run: FixtureRun, at: number = Date.now()): boolean {
+    return at - run.startedAt >= this.configService.getScrapingFixtureDelayMs();
+  }
+
+  /** Places collected by now, or by the time the run was aborted */
+  private collected(run: FixtureRun): ApifyPlaceResult[] {
+    const at = run.abortedAt ?? Date.now();
+    if (this.isFinished(run, at)) {
+      return run.places;
+    }
+
+    const fraction =
+      (at - run.startedAt) / this.configService.getScrapingFixtureDelayMs();
+    return run.places.slice(0, Math.floor(run.places.length * fraction));
+  }
+
+  /**
+   * Async so lookups fail like the Apify API calls they stand in for
+   */
+  private getRun(runId: string): Promise<FixtureRun> {
+    const run = this.runs.get(runId);
+    return run
+      ? Promise.resolve(run)
+      : Promise.reject(new Error(`Fixture run ${runId} not found`));
+  }
+
+  private async loadDataset(searchQuery: string): Promise<ApifyPlaceResult[]> {
+    const fixturePath = this.configService.getScrapingFixturePath();
+
+    let file = fixturePath;
+    if ((await fs.stat(fixturePath)).isDirectory()) {
+      const named = path.join(fixturePath, `${slugify(searchQuery)}.json`);
+      file = (await fileExists(named))
+        ? named
+        : path.join(fixturePath, DEFAULT_DATASET);
+    }
+
+    const places: unknown = JSON.parse(await fs.readFile(file, 'utf-8'));
+    if (!Array.isArray(places)) {
+      throw new Error(`Fixture dataset ${file} is not an array of places`);
+    }
+    return places as ApifyPlaceResult[];
+  }
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+async function fileExists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,98 @@
+import type { ScrapedBusiness } from './scraping-provider';
+
+/**
+ * Quality filters for scraped places.
+ *
+ * Le Tip recruits owner-operated local businesses, while a Maps search also
+ * returns franchises, big-box stores and thin listings. Chain and keyword
+ * entries match whole words of the place name, ignoring case and
+ * punctuation: "Home Depot" matches "The Home Depot #4512", but "Subway"
+ * doesn't match "Subwayside Deli".
+ */
+export interface ScrapeQualityFilters {
+  minReviews?: number;
+  maxReviews?: number;
+  /** Unrated places are not judged by rating */
+  minRating?: number;
+  excludeChains?: string[];
+  excludeKeywords?: string[];
+  requireWebsite?: boolean;
+}
+
+/** Why a scraped place was not saved */
+export type ScrapeSkipReason =
+  | 'closed'
+  /** The Maps place is already stored, or repeated in the run */
+  | 'duplicate_place'
+  /** Confident fuzzy match with a stored business */
+  | 'duplicate'
+  | 'chain'
+  | 'blocked_keyword'
+  | 'no_website'
+  | 'too_few_reviews'
+  | 'too_many_reviews'
+  | 'low_rating';
+
+/** Places skipped per reason */
+export type ScrapeSkipCounts = Partial<Record<ScrapeSkipReason, number>>;
+
+/**
+ * The first quality filter a place fails, or null if it passes them all.
+ */
+export function qualitySkipReason(
+  business: ScrapedBusiness,
+  filters: ScrapeQualityFilters = {},
+): ScrapeSkipReason | null {
+  const name = normalizeName(business.name);
+  if (filters.excludeChains?.some((chain) => containsPhrase(name, chain))) {
+    return 'chain';
+  }
+  if (
+    filters.excludeKeywords?.some((keyword) => containsPhrase(name, keyword))
+  ) {
+    return 'blocked_keyword';
+  }
+  if (filters.requireWebsite && !business.website?.trim()) {
+    return 'no_website';
+  }
+
+  const reviews = business.review_count ?? 0;
+  if (filters.minReviews !== undefined && reviews < filters.minReviews) {
+    return 'too_few_reviews';
+  }
+  if (filters.maxReviews !== undefined && reviews > filters.maxReviews) {
+    return 'too_many_reviews';
+  }
+  if (
+    filters.minRating !== undefined &&
+    business.rating != null &&
+    business.rating < filters.minRating
+  ) {
+    return 'low_rating';
+  }
+
+  return null;
+}
+
+/** Count one skipped place */
+export function countSkip(
+  counts: ScrapeSkipCounts,
+  reason: ScrapeSkipReason,
+): void {
+  counts[reason] = (counts[reason] ?? 0) + 1;
+}
+
+/** Lowercased words of a name, space-separated, without punctuation */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function containsPhrase(name: string, phrase: string): boolean {
+  const normalized = normalizeName(phrase);
+  return normalized !== '' && ` ${name} `.includes(` ${normalized} `);
+}
@@ -0,0 +1,266 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { parseExpression } from 'cron-parser';
+import { ScrapeScheduleRepository } from '../data/scrape-schedule.repository';
+import { ScraperService } from './scraper.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import {
+  CreateScrapeScheduleDto,
+  UpdateScrapeScheduleDto,
+} from '../api/dto/scrape-schedule.dto';
+
+/** Shortest time allowed between two runs of a schedule */
+const MIN_SCHEDULE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Upcoming ticks checked for a run closer than the minimum interval */
+const INTERVAL_CHECK_TICKS = 10;
+
+type ScheduleWithRuns = NonNullable<
+  Awaited<ReturnType<ScrapeScheduleRepository['findOne']>>
+>;
+
+/**
+ * Recurring territory scrapes.
+ *
+ * A schedule stores the parameters of a POST /api/scrape request and a cron
+ * pattern. Enabled schedules are registered as BullMQ job schedulers on the
+ * scraping queue; each tick starts a regular scrape tagged with the
+ * schedule, so its scraping_job row doubles as the run history.
+ *
+ * @example
+ * await scheduleService.create(
+ *   { name: 'Route 9 plumbers', location: 'Freehold, NJ', business_type: 'plumber', cron: '0 6 1,15 * *' },
+ *   user.id,
+ * );
+ */
+@Injectable()
+export class ScrapeScheduleService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ScrapeScheduleService.name);
+
+  constructor(
+    private repository: ScrapeScheduleRepository,
+    private scraperService: ScraperService,
+    private jobQueueService: JobQueueService,
+  ) {}
+
+  /**
+   * Re-register enabled schedules, in case Redis lost its job schedulers.
+   *
+   * Failures are logged so a Redis outage doesn't keep the API from starting.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      const schedules = await this.repository.findEnabled();
+      for (const schedule of schedules) {
+        await this.jobQueueService.scheduleRecurringScrape(
+          schedule.id,
+          schedule.cron,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to register scrape schedules: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * List all schedules with a summary of their latest run.
+   */
+  async findAll() {
+    const schedules = await this.repository.findAll();
+    return schedules.map((schedule) => this.toView(schedule));
+  }
+
+  /**
+   * Get a schedule with a summary of its latest run.
+   *
+   * @throws {NotFoundException} If schedule doesn't exist
+   */
+  async findOne(id: number) {
+    return this.toView(await this.getSchedule(id));
+  }
+
+  /**
+   * Create a schedule and, if enabled, start running it.
+   *
+   * @throws {BadRequestException} If the cron expression is invalid or runs
+   *   more often than once a day
+   *
+   * @side-effects
+   * - Registers a job scheduler on the scraping queue
+   */
+  async create(dto: CreateScrapeScheduleDto, userId: string) {
+    this.assertValidCron(dto.cron);
+
+    const schedule = await this.repository.create({
+      name: dto.name.trim(),
+      location: dto.location,
+      radius: dto.radius ?? 10,
+      business_type: dto.business_type,
+      max_results: dto.max_results ?? 50,
+      cron: dto.cron.trim(),
+      enabled: dto.enabled ?? true,
+      created_by: userId,
+    });
+
+    await this.sync(schedule);
+    this.logger.log(
+      `Scrape schedule ${schedule.id} "${schedule.name}" created by ${userId}`,
+    );
+    return this.toView(schedule);
+  }
+
+  /**
+   * Change a schedule's parameters, cron pattern or enabled flag.
+   *
+   * @throws {NotFoundException} If schedule doesn't exist
+   * @throws {BadRequestException} If the cron expression is invalid or runs
+   *   more often than once a day
+   *
+   * @side-effects
+   * - Replaces or removes the job scheduler
+   */
+  async update(id: number, dto: UpdateScrapeScheduleDto) {
+    await this.getSchedule(id);
+    if (dto.cron !== undefined) {
+      this.assertValidCron(dto.cron);
+    }
+
+    const data: Prisma.scrape_scheduleUncheckedUpdateInput = {
+      ...dto,
+      name: dto.name?.trim(),
+      cron: dto.cron?.trim(),
+    };
+    const schedule = await this.repository.update(id, data);
+
+    await this.sync(schedule);
+    return this.toView(schedule);
+  }
+
+  /**
+   * Delete a schedule. Past runs and the businesses they found are kept.
+   *
+   * @throws {NotFoundException} If schedule doesn't exist
+   *
+   * @side-effects
+   * - Removes the job scheduler
+   */
+  async remove(id: number) {
+    await this.getSchedule(id);
+
+    await this.jobQueueService.unscheduleRecurringScrape(id);
+    await this.repository.delete(id);
+
+    this.logger.log(`Scrape schedule ${id} deleted`);
+    return { success: true };
+  }
+
+  /**
+   * Start the scrape for one tick of a schedule. Called by the
+   * ScrapingWorker.
+   *
+   * @returns Provider run ID, or null if the schedule was deleted or disabled
+   *   after the tick was queued
+   */
+  async startScheduledScrape(id: number): Promise<string | null> {
+    const schedule = await this.repository.findOne(id);
+    if (!schedule?.enabled) {
+      this.logger.warn(`Skipping scrape schedule ${id}: deleted or disabled`);
+      return null;
+    }
+
+    const { runId } = await this.scraperService.startScraping(
+      {
+        location: schedule.location,
+        radius: schedule.radius,
+        business_type: schedule.business_type ?? undefined,
+        max_results: schedule.max_results,
+      },
+      schedule.id,
+    );
+    await this.repository.update(id, { last_run_at: new Date() });
+
+    return runId ?? null;
+  }
+
+  private async getSchedule(id: number): Promise<ScheduleWithRuns> {
+    const schedule = await this.repository.findOne(id);
+    if (!schedule) {
+      throw new NotFoundException(`Scrape schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  private async sync(schedule: { id: number; cron: string; enabled: boolean }) {
+    if (schedule.enabled) {
+      await this.jobQueueService.scheduleRecurringScrape(
+        schedule.id,
+        schedule.cron,
+      );
+    } else {
+      await this.jobQueueService.unscheduleRecurringScrape(schedule.id);
+    }
+  }
+
+  /**
+   * Every run scrapes the whole territory, so schedules may run at most once
+   * a day. Ticks are compared in UTC, where a daily pattern never loses an
+   * hour to a DST change.
+   *
+   * @throws {BadRequestException} If the expression doesn't parse or two of
+   *   its upcoming ticks are less than a day apart
+   */
+  private assertValidCron(cron: string): void {
+    const ticks: number[] = [];
+    try {
+      const expression = parseExpression(cron.trim(), { utc: true });
+      for (let i = 0; i <= INTERVAL_CHECK_TICKS; i++) {
+        ticks.push(expression.next().getTime());
+      }
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid cron expression "${cron}": ${error.message}`,
+      );
+    }
+
+    for (let i = 1; i < ticks.length; i++) {
+      if (ticks[i] - ticks[i - 1] < MIN_SCHEDULE_INTERVAL_MS) {
+        throw new BadRequestException(
+          `Cron expression "${cron}" runs more often than once a day`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Schedule with its next tick and the outcome of its latest run.
+   * new_businesses counts the businesses that run added to the database.
+   */
+  private toView({ runs, ...schedule }: ScheduleWithRuns) {
+    const lastRun = runs[0];
+
+    return {
+      ...schedule,
+      next_run_at: schedule.enabled
+        ? parseExpression(schedule.cron).next().toDate()
+        : null,
+      last_run: lastRun
+        ? {
+            run_id: lastRun.job_id,
+            status: lastRun.status,
+            started_at: lastRun.created_at,
+            completed_at: lastRun.completed_at,
+            businesses_found: lastRun.businesses_found,
+            new_businesses: lastRun.businesses_saved,
+          }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,315 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
+import { ScrapingProvider, ScrapedBusiness } from './scraping-provider';
+import { ApifyPlaceResult } from './apify-scraper';
+import {
+  ScrapeQualityFilters,
+  ScrapeSkipCounts,
+  countSkip,
+  qualitySkipReason,
+} from './scrape-quality.helper';
+import { ScrapeResultRepository } from '../data/scrape-result.repository';
+import {
+  ACTIVE_SCRAPING_JOB_STATUSES,
+  ScrapingJobRepository,
+  ScrapingJobStatus,
+} from '../data/scraping-job.repository';
+import {
+  CreateStagedResultData,
+  ScrapeStagingRepository,
+} from '../data/scrape-staging.repository';
+import { DuplicateDetectorService } from '../../business-management/domain/duplicate-detector.service';
+import { DUPLICATE_AUTO_MATCH_THRESHOLD } from '../../business-management/domain/duplicate-scoring.helper';
+import { ImportStagedResultsDto } from '../api/dto/import-staged-results.dto';
+
+/** How a staged place matches a stored business */
+export type StagedDuplicateKind = 'same_place' | 'likely' | 'possible';
+
+type StagedResultRow = Awaited<
+  ReturnType<ScrapeStagingRepository['findByRun']>
+>[number];
+
+/**
+ * Staged scrapes: review results before they become businesses.
+ *
+ * A run started with `staged: true` doesn't save its places. The worker
+ * stores them in scrape_staged_result, flagged with the stored business
+ * each one most likely duplicates, and a user picks the ones to import so
+ * chains, closed places and out-of-area results stay out of the lead list.
+ *
+ * Duplicate flags:
+ * - same_place: the Google Maps place is already stored
+ * - likely: scores at or above the auto-match threshold (an unstaged run
+ *   would skip it)
+ * - possible: scores at or above the review threshold
+ *
+ * @example
+ * const { results } = await stagingService.findByRun(runId);
+ * await stagingService.import(runId, {
+ *   result_ids: results.filter((r) => !r.duplicate).map((r) => r.id),
+ *   discard_remaining: true,
+ * });
+ */
+@Injectable()
+export class ScrapeStagingService {
+  private readonly logger = new Logger(ScrapeStagingService.name);
+
+  constructor(
+    private repository: ScrapeStagingRepository,
+    private scrapingProvider: ScrapingProvider,
+    private scrapeResultRepository: ScrapeResultRepository,
+    private scrapingJobRepository: ScrapingJobRepository,
+    private duplicateDetector: DuplicateDetectorService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Stage the places of a run for review. Called by
+   * ScraperService.processRun for staged runs.
+   *
+   * @returns Places staged, and places skipped (closed, failing the quality
+   *   filters, or repeated in the run) in total and per reason
+   *
+   * @side-effects
+   * - Replaces the run's pending scrape_staged_result rows
+   */
+  async stage(
+    runId: string,
+    places: ApifyPlaceResult[],
+    options: { includeClosed?: boolean; filters?: ScrapeQualityFilters },
+  ): Promise<{
+    staged: number;
+    skipped: number;
+    skipReasons: ScrapeSkipCounts;
+  }> {
+    const seen = new Set<string>();
+    const results: CreateStagedResultData[] = [];
+    const skipReasons: ScrapeSkipCounts = {};
+    let skipped = 0;
+
+    for (const [position, place] of places.entries()) {
+      const business = this.scrapingProvider.transformResult(place);
+
+      const reason =
+        business.permanently_closed && !options.includeClosed
+          ? 'closed'
+          : business.google_place_id && seen.has(business.google_place_id)
+            ? 'duplicate_place'
+            : qualitySkipReason(business, options.filters);
+      if (reason) {
+        skipped++;
+        countSkip(skipReasons, reason);
+        continue;
+      }
+      if (business.google_place_id) {
+        seen.add(business.google_place_id);
+      }
+
+      results.push({
+        position,
+        google_place_id: business.google_place_id,
+        data: business as unknown as Prisma.InputJsonValue,
+        ...(await this.findDuplicate(business)),
+      });
+    }
+
+    const staged = await this.repository.replacePending(runId, results);
+    this.logger.log(`Staged ${staged} results of run ${runId} for review`);
+
+    return { staged, skipped, skipReasons };
+  }
+
+  /**
+   * Staged results of a run with their duplicate flags.
+   *
+   * @throws {NotFoundException} If the run doesn't exist or wasn't staged
+   */
+  async findByRun(runId: string) {
+    const job = await this.getStagedRun(runId);
+    const rows = await this.repository.findByRun(runId);
+    const results = rows.map((row) => this.toView(row));
+
+    return {
+      runId,
+      status: job.status,
+      counts: {
+        pending: results.filter((r) => r.status === 'pending').length,
+        imported: results.filter((r) => r.status === 'imported').length,
+        discarded: results.filter((r) => r.status === 'discarded').length,
+      },
+      results,
+    };
+  }
+
+  /**
+   * Import the chosen staged results as businesses.
+   *
+   * Results that are no longer pending are skipped, as are places stored
+   * since the run was staged. Likely duplicates are imported if chosen; the
+   * business:created listener queues them for duplicate review.
+   *
+   * @throws {NotFoundException} If the run doesn't exist or wasn't staged
+   * @throws {ConflictException} If the run is still running
+   *
+   * @side-effects
+   * - Creates businesses and emits 'business:created' for each
+   * - Counts them as saved on the scraping_job row
+   * - Marks results imported, or discarded
+   */
+  async import(runId: string, dto: ImportStagedResultsDto) {
+    const job = await this.getStagedRun(runId);
+    if (
+      ACTIVE_SCRAPING_JOB_STATUSES.includes(job.status as ScrapingJobStatus)
+    ) {
+      throw new ConflictException(
+        `Run ${runId} is still running; import its results once it completes`,
+      );
+    }
+
+    const ids = [...new Set(dto.result_ids)];
+    const rows = await this.repository.findPending(runId, ids);
+    let imported = 0;
+    let skipped = ids.length - rows.length;
+    const errors: Array<{ business: string; error: string }> = [];
+
+    for (const row of rows) {
+      const data = row.data as unknown as ScrapedBusiness;
+
+      try {
+        if (
+          data.google_place_id &&
+          (await this.scrapeResultRepository.existsByPlaceId(
+            data.google_place_id,
+          ))
+        ) {
+          await this.repository.discardPending(runId, [row.id]);
+          skipped++;
+          continue;
+        }
+
+        const business = await this.scrapeResultRepository.createBusiness(data);
+        await this.repository.markImported(row.id, business.id);
+        await this.scrapingJobRepository.incrementSaved(runId);
+
+        this.eventEmitter.emit('business:created', {
+          business,
+          source: 'scraper',
+          runId,
+          timestamp: new Date().toISOString(),
+        });
+        imported++;
+      } catch (error) {
+        // Saved by another run between the check and the insert
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          await this.repository.discardPending(runId, [row.id]);
+          skipped++;
+          continue;
+        }
+
+        this.logger.error(`Error importing ${data.name}:`, error.message);
+        errors.push({ business: data.name, error: error.message });
+      }
+    }
+
+    const discarded = dto.discard_remaining
+      ? await this.repository.discardPending(runId)
+      : 0;
+
+    if (imported > 0) {
+      this.eventEmitter.emit('analytics:updated', {
+        type: 'scraping:imported',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    this.logger.log(
+      `Imported ${imported} staged results of run ${runId}. Skipped: ${skipped}, Discarded: ${discarded}`,
+    );
+
+    return { runId, imported, skipped, discarded, errors };
+  }
+
+  /**
+   * Best match of a place among stored businesses, as duplicate flags
+   */
+  private async findDuplicate(
+    business: ScrapedBusiness,
+  ): Promise<
+    Pick<
+      CreateStagedResultData,
+      'duplicate_of' | 'duplicate_kind' | 'duplicate_score'
+    >
+  > {
+    if (business.google_place_id) {
+      const stored = await this.scrapeResultRepository.findByPlaceId(
+        business.google_place_id,
+      );
+      if (stored) {
+        return {
+          duplicate_of: stored.id,
+          duplicate_kind: 'same_place',
+          duplicate_score: 1,
+        };
+      }
+    }
+
+    const [best] = await this.duplicateDetector.findMatches(business);
+    if (!best) {
+      return {};
+    }
+    return {
+      duplicate_of: best.id,
+      duplicate_kind:
+        best.score >= DUPLICATE_AUTO_MATCH_THRESHOLD ? 'likely' : 'possible',
+      duplicate_score: best.score,
+    };
+  }
+
+  /**
+   * @throws {NotFoundException} If the run doesn't exist or wasn't staged
+   */
+  private async getStagedRun(runId: string) {
+    const job = await this.scrapingJobRepository.findByRunId(runId);
+    if (!job?.staged) {
+      throw new NotFoundException(`No staged results for run ${runId}`);
+    }
+    return job;
+  }
+
+  /** Staged result with the place fields shown for review */
+  private toView(row: StagedResultRow) {
+    const data = row.data as unknown as ScrapedBusiness;
+
+    return {
+      id: row.id,
+      status: row.status,
+      business_id: row.business_id,
+      name: data.name,
+      address: data.address ?? null,
+      city: data.city ?? null,
+      phone: data.phone ?? null,
+      website: data.website ?? null,
+      business_type: data.business_type ?? null,
+      rating: data.rating ?? null,
+      review_count: data.review_count ?? null,
+      permanently_closed: data.permanently_closed ?? false,
+      google_maps_url: data.google_maps_url ?? null,
+      duplicate: row.duplicate_kind
+        ? {
+            kind: row.duplicate_kind as StagedDuplicateKind,
+            score: row.duplicate_score,
+            business: row.duplicate,
+          }
+        : null,
+    };
+  }
+}
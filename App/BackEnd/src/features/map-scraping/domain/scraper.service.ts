@@ -1,8 +1,31 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { ApifyScraper } from './apify-scraper';
+import { ConfigService } from '../../../config/config.service';
+import { ScrapeRunUsage, ScrapingProvider } from './scraping-provider';
+import { ApifyPlaceResult } from './apify-scraper';
+import { ScrapeStagingService } from './scrape-staging.service';
+import {
+  ScrapeQualityFilters,
+  ScrapeSkipCounts,
+  ScrapeSkipReason,
+  countSkip,
+  qualitySkipReason,
+} from './scrape-quality.helper';
 import { ScrapeResultRepository } from '../data/scrape-result.repository';
+import {
+  ACTIVE_SCRAPING_JOB_STATUSES,
+  ScrapingJobRepository,
+  ScrapingJobStatus,
+} from '../data/scraping-job.repository';
+import { DuplicateDetectorService } from '../../business-management/domain/duplicate-detector.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
 import { ScrapeRequestDto } from '../api/dto/scrape-request.dto';
 import { ScrapeStatusDto } from '../api/dto/scrape-status.dto';
 
@@ -12,27 +35,75 @@ export interface ScrapeResult {
   found: number;
   saved: number;
   skipped: number;
+  /** Places held for review (staged runs) */
+  staged?: number;
+  /** Skipped places per reason */
+  skipReasons?: ScrapeSkipCounts;
   errors?: Array<{ business: string; error: string }>;
 }
 
+/** Parameters of a provider run, as recorded on its scraping_job row */
+export interface ScrapeRunParams {
+  searchQuery: string;
+  location: string;
+  radius: number;
+  businessType?: string;
+  maxResults: number;
+  /** Scrape schedule that started the run */
+  scheduleId?: number;
+  /** Hold the results in scrape_staged_result for review */
+  staged?: boolean;
+}
+
+/** How processRun() waits for and records a run */
+export interface ProcessRunOptions {
+  maxResults: number;
+  includeClosed?: boolean;
+  filters?: ScrapeQualityFilters;
+  maxWaitTime?: number;
+}
+
+/** How long cancelScraping() waits for the worker to record the run */
+const CANCEL_WAIT_MS = 60000;
+const CANCEL_POLL_MS = 1000;
+
 @Injectable()
 export class ScraperService {
   private readonly logger = new Logger(ScraperService.name);
-  private activeRuns: Map<string, { startTime: Date; location: string }> = new Map();
 
   constructor(
-    private apifyScraper: ApifyScraper,
+    private scrapingProvider: ScrapingProvider,
     private scrapeResultRepository: ScrapeResultRepository,
+    private scrapingJobRepository: ScrapingJobRepository,
+    private duplicateDetector: DuplicateDetectorService,
+    private jobQueueService: JobQueueService,
+    private stagingService: ScrapeStagingService,
     private eventEmitter: EventEmitter2,
     private prisma: PrismaService,
+    private configService: ConfigService,
   ) {}
 
   /**
-   * Start a new scraping job using Apify
-   * Emits 'scraping:started' event via EventEmitter instead of direct WebSocket
+   * Start a new scraping job using the configured scraping provider.
+   *
+   * The run is recorded as a 'running' scraping_job row and its results are
+   * processed by the ScrapingWorker, so a restart mid-scrape resumes polling
+   * instead of losing the run. Places failing the request's quality filters
+   * (see ScrapeQualityFilters) are skipped when the results are recorded.
+   *
+   * @throws {BadRequestException} If min_reviews exceeds max_reviews
+   *
+   * @side-effects
+   * - Starts a provider run
+   * - Creates the scraping_job row and queues a scraping job
+   * - Emits 'scraping:started' event
    */
-  async startScraping(scrapeRequest: ScrapeRequestDto): Promise<ScrapeResult> {
+  async startScraping(
+    scrapeRequest: ScrapeRequestDto,
+    scheduleId?: number,
+  ): Promise<ScrapeResult> {
     const { location, radius = 1, business_type, max_results = 50 } = scrapeRequest;
+    const filters = this.toQualityFilters(scrapeRequest);
 
     this.logger.log(`Starting Google Maps scrape for ${location}`);
     this.logger.log(`Parameters: radius=${radius}mi, business_type=${business_type || 'all'}, max_results=${max_results}`);
@@ -43,15 +114,31 @@ export class ScraperService {
         ? `${business_type} within ${radius} miles of ${location}`
         : `businesses within ${radius} miles of ${location}`;
 
-      // Start Apify actor run
-      const runId = await this.apifyScraper.startScraping(searchQuery, max_results);
-
-      // Track active run
-      this.activeRuns.set(runId, {
-        startTime: new Date(),
+      const runId = await this.startRun({
+        searchQuery,
         location,
+        radius,
+        businessType: business_type,
+        maxResults: max_results,
+        scheduleId,
+        staged: scrapeRequest.staged ?? false,
       });
 
+      try {
+        await this.jobQueueService.createScrapeRunJob({
+          runId,
+          searchQuery,
+          location,
+          maxResults: max_results,
+          includeClosed: scrapeRequest.include_closed ?? false,
+          filters,
+        });
+      } catch (error) {
+        // Nothing will ever process the run, so don't leave it 'running'
+        await this.scrapingJobRepository.finish(runId, 'failed');
+        throw error;
+      }
+
       // Emit event instead of direct WebSocket
       this.eventEmitter.emit('scraping:started', {
         runId,
@@ -61,16 +148,6 @@ export class ScraperService {
         timestamp: new Date().toISOString(),
       });
 
-      // Process results asynchronously
-      this.processScrapingResults(runId, scrapeRequest).catch(error => {
-        this.logger.error(`Error processing run ${runId}:`, error);
-        this.eventEmitter.emit('scraping:failed', {
-          runId,
-          error: error.message,
-          timestamp: new Date().toISOString(),
-        });
-      });
-
       return {
         success: true,
         runId,
@@ -86,22 +163,46 @@ export class ScraperService {
   }
 
   /**
-   * Get the status of a scraping job
+   * Start a provider run and record it as a 'running' scraping_job row.
+   *
+   * @returns Provider run ID
+   */
+  async startRun(params: ScrapeRunParams): Promise<string> {
+    const runId = await this.scrapingProvider.startScraping(
+      params.searchQuery,
+      params.maxResults,
+    );
+
+    await this.scrapingJobRepository.create({
+      runId,
+      provider: this.scrapingProvider.name,
+      ...params,
+    });
+
+    return runId;
+  }
+
+  /**
+   * Get the status of a scraping job.
+   *
+   * Progress is the share of max_results the provider has collected so far.
+   *
+   * @throws {NotFoundException} If no scraping job was recorded for the run
    */
   async getScrapingStatus(runId: string): Promise<ScrapeStatusDto> {
-    try {
-      const { status, itemCount } = await this.apifyScraper.getRunStatus(runId);
+    const job = await this.scrapingJobRepository.findByRunId(runId);
+    if (!job) {
+      throw new NotFoundException(`Scrape run ${runId} not found`);
+    }
 
-      // Calculate progress estimate
-      const runInfo = this.activeRuns.get(runId);
-      let progress = 0;
+    try {
+      const { status, itemCount } =
+        await this.scrapingProvider.getRunStatus(runId);
 
-      if (status === 'SUCCEEDED') {
-        progress = 100;
-      } else if (status === 'RUNNING' && runInfo) {
-        const elapsedSeconds = (Date.now() - runInfo.startTime.getTime()) / 1000;
-        progress = Math.min(90, Math.floor((elapsedSeconds / 60) * 30)); // Estimate based on time
-      }
+      const progress =
+        status === 'SUCCEEDED'
+          ? 100
+          : Math.min(99, Math.floor((itemCount / job.max_results) * 100));
 
       return {
         runId,
@@ -116,43 +217,162 @@ export class ScraperService {
   }
 
   /**
-   * Process scraping results asynchronously
-   * This runs in the background after starting a scrape
+   * Cancel a running scrape.
+   *
+   * Flags the scraping_job row and aborts the provider run. The worker
+   * processing the run then records the places collected before it stopped;
+   * cancelling while results are being saved stops at the current place.
+   *
+   * @returns Summary of the partial results that were recorded
+   * @throws {NotFoundException} If the run is not running
+   *
+   * @side-effects
+   * - Aborts the provider run
+   * - Sets the scraping_job status to 'cancelling'; the worker sets 'aborted'
    */
-  private async processScrapingResults(
-    runId: string,
-    scrapeRequest: ScrapeRequestDto
-  ): Promise<void> {
+  async cancelScraping(runId: string): Promise<ScrapeResult> {
+    if (!(await this.scrapingJobRepository.markCancelling(runId))) {
+      throw new NotFoundException(`Scrape run ${runId} is not running`);
+    }
+
+    this.logger.log(`Cancelling scrape run ${runId}`);
+
     try {
-      this.logger.log(`Waiting for Apify run ${runId} to complete...`);
+      await this.scrapingProvider.cancelRun(runId);
+    } catch (error) {
+      // The worker still stops at the next place it saves
+      this.logger.error(`Failed to abort provider run ${runId}:`, error);
+    }
+
+    return this.waitForRecorded(runId);
+  }
 
-      // Wait for completion and get results
-      const results = await this.apifyScraper.waitForCompletion(runId);
+  /**
+   * Wait for a provider run and record its results. Called by the
+   * ScrapingWorker, again after a restart or retry: a run already recorded
+   * is not processed twice. A staged run's places are held for review
+   * instead of saved (see ScrapeStagingService). Places failing the quality
+   * filters are skipped, and skips are counted per reason in the
+   * 'scraping:completed' event.
+   *
+   * @throws {Error} If no scraping job was recorded for the run, or the run
+   *   failed
+   *
+   * @side-effects
+   * - Creates businesses and emits 'business:created' for each, or stages
+   *   them for review
+   * - Closes the scraping_job row and logs the provider cost
+   * - Emits 'scraping:completed' or 'scraping:cancelled' event
+   */
+  async processRun(
+    runId: string,
+    options: ProcessRunOptions,
+  ): Promise<ScrapeResult> {
+    const job = await this.scrapingJobRepository.findByRunId(runId);
+    if (!job) {
+      throw new Error(`No scraping job recorded for run ${runId}`);
+    }
+    if (!this.isActive(job.status)) {
+      this.logger.log(`Run ${runId} was already recorded (${job.status})`);
+      return this.toResult(job);
+    }
 
-      this.logger.log(`Found ${results.length} businesses from Apify`);
+    this.logger.log(
+      `Waiting for ${this.scrapingProvider.name} run ${runId} to complete...`,
+    );
 
-      // Save to database using repository pattern
-      let savedCount = 0;
-      let skippedCount = 0;
-      const errors = [];
+    // Wait for completion and get results
+    let results: ApifyPlaceResult[];
+    try {
+      results = await this.scrapingProvider.waitForCompletion(
+        runId,
+        options.maxWaitTime,
+      );
+    } catch (error) {
+      if (!(await this.scrapingJobRepository.isCancelling(runId))) {
+        throw error;
+      }
+      // Cancelled: keep what the run collected before it stopped
+      results = await this.scrapingProvider.getResults(runId);
+    }
+    const cancelledWhileWaiting =
+      await this.scrapingJobRepository.isCancelling(runId);
+
+    this.logger.log(
+      `Found ${results.length} businesses from ${this.scrapingProvider.name}`,
+    );
+
+    // Save to database using repository pattern
+    let savedCount = 0;
+    let skippedCount = 0;
+    let stagedCount = 0;
+    let cancelled = cancelledWhileWaiting;
+    let skipReasons: ScrapeSkipCounts = {};
+    const errors = [];
+    const skip = (reason: ScrapeSkipReason) => {
+      skippedCount++;
+      countSkip(skipReasons, reason);
+    };
+
+    if (job.staged) {
+      ({
+        staged: stagedCount,
+        skipped: skippedCount,
+        skipReasons,
+      } = await this.stagingService.stage(
+        runId,
+        results.slice(0, options.maxResults),
+        options,
+      ));
+    } else {
+      for (const place of results.slice(0, options.maxResults)) {
+        if (
+          !cancelledWhileWaiting &&
+          (await this.scrapingJobRepository.isCancelling(runId))
+        ) {
+          cancelled = true;
+          break;
+        }
 
-      for (const place of results.slice(0, scrapeRequest.max_results)) {
         try {
-          const businessData = this.apifyScraper.transformResult(place);
+          const businessData = this.scrapingProvider.transformResult(place);
 
-          // Check for duplicates using repository
-          const existing = await this.scrapeResultRepository.findDuplicate(
-            businessData.name,
-            businessData.address
-          );
+          if (businessData.permanently_closed && !options.includeClosed) {
+            skip('closed');
+            continue;
+          }
+
+          const failedFilter = qualitySkipReason(businessData, options.filters);
+          if (failedFilter) {
+            skip(failedFilter);
+            continue;
+          }
+
+          // The same Maps place is never stored twice
+          if (
+            businessData.google_place_id &&
+            (await this.scrapeResultRepository.existsByPlaceId(
+              businessData.google_place_id,
+            ))
+          ) {
+            skip('duplicate_place');
+            continue;
+          }
+
+          // Skip confident duplicates; weaker matches are queued for review
+          // by the business:created listener
+          const existing =
+            await this.duplicateDetector.findAutoMatch(businessData);
 
           if (existing) {
-            skippedCount++;
+            skip('duplicate');
             continue;
           }
 
           // Save using repository
-          const saved = await this.scrapeResultRepository.createBusiness(businessData);
+          const saved =
+            await this.scrapeResultRepository.createBusiness(businessData);
+          await this.scrapingJobRepository.incrementSaved(runId);
 
           // Emit business created event
           this.eventEmitter.emit('business:created', {
@@ -164,89 +384,246 @@ export class ScraperService {
 
           savedCount++;
         } catch (error) {
-          this.logger.error(`Error saving business ${place.title}:`, error.message);
+          // Another run (e.g. an overlapping territory cell) saved the place
+          // between the dedupe check and the insert
+          if (
+            error instanceof Prisma.PrismaClientKnownRequestError &&
+            error.code === 'P2002'
+          ) {
+            skip('duplicate_place');
+            continue;
+          }
+
+          this.logger.error(
+            `Error saving business ${place.title}:`,
+            error.message,
+          );
           errors.push({ business: place.title, error: error.message });
         }
       }
+    }
 
-      // Track scraping job and costs for analytics
-      try {
-        const apifyCost = results.length * 0.01; // $0.01 per result
-
-        // Save job metadata
-        await this.prisma.scraping_job.create({
-          data: {
-            job_id: runId,
-            location: scrapeRequest.location,
-            radius: scrapeRequest.radius || 1,
-            business_type: scrapeRequest.business_type,
-            max_results: scrapeRequest.max_results || 50,
-            status: 'completed',
-            businesses_found: results.length,
-            businesses_saved: savedCount,
-            apify_cost: apifyCost,
-            completed_at: new Date(),
-          },
-        });
+    // Reconcile the estimate with what the provider reports for the run
+    const estimatedCost = results.length * this.scrapingProvider.costPerResult;
+    const usage = await this.getRunUsage(runId);
+    const cost = usage?.costUsd ?? estimatedCost;
 
-        // Log API cost
-        await this.prisma.api_cost_log.create({
-          data: {
-            operation_type: 'scrape',
-            service: 'apify',
-            cost_usd: apifyCost,
-            metadata: {
-              runId,
-              location: scrapeRequest.location,
-              businesses_found: results.length,
-            },
+    // The row's saved count includes businesses saved before a restart
+    const recorded = await this.scrapingJobRepository.finish(
+      runId,
+      cancelled ? 'aborted' : 'completed',
+      {
+        found: results.length,
+        cost,
+        estimatedCost,
+        actualCost: usage?.costUsd ?? null,
+        computeUnits: usage?.computeUnits ?? null,
+        datasetItems: usage?.datasetItems,
+      },
+    );
+
+    // Track costs for analytics
+    try {
+      // Log API cost
+      await this.prisma.api_cost_log.create({
+        data: {
+          operation_type: 'scrape',
+          service: this.scrapingProvider.name,
+          cost_usd: cost,
+          metadata: {
+            runId,
+            location: job.location,
+            businesses_found: results.length,
+            estimated_cost: estimatedCost,
+            actual_cost: usage?.costUsd ?? null,
+            compute_units: usage?.computeUnits ?? null,
+            dataset_items: usage?.datasetItems ?? null,
           },
-        });
+        },
+      });
 
-        this.logger.log(
-          `Cost tracking saved: $${apifyCost.toFixed(2)} for ${results.length} results`
-        );
+      this.logger.log(
+        `Cost tracking saved: $${cost.toFixed(2)} for ${results.length} results` +
+          (usage?.costUsd != null
+            ? ` (estimated $${estimatedCost.toFixed(2)})`
+            : ' (estimated)'),
+      );
 
-        // Emit analytics updated event
-        this.eventEmitter.emit('analytics:updated', {
-          type: 'scraping:completed',
-          timestamp: new Date().toISOString(),
-        });
-      } catch (costError) {
-        this.logger.error('Failed to track scraping costs:', costError);
-        // Don't fail the entire operation if cost tracking fails
-      }
+      // Emit analytics updated event
+      this.eventEmitter.emit('analytics:updated', {
+        type: cancelled ? 'scraping:cancelled' : 'scraping:completed',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (costError) {
+      this.logger.error('Failed to track scraping costs:', costError);
+      // Don't fail the entire operation if cost tracking fails
+    }
 
-      // Emit scraping completed event
-      this.eventEmitter.emit('scraping:completed', {
+    // Emit scraping completed (or cancelled) event
+    this.eventEmitter.emit(
+      cancelled ? 'scraping:cancelled' : 'scraping:completed',
+      {
         runId,
         found: results.length,
-        saved: savedCount,
+        saved: recorded.businesses_saved,
         skipped: skippedCount,
+        skipReasons,
+        staged: stagedCount,
         errors,
         timestamp: new Date().toISOString(),
-      });
+      },
+    );
+
+    this.logger.log(
+      `Scraping ${cancelled ? 'cancelled' : 'complete'} for run ${runId}. Saved: ${savedCount}, Staged: ${stagedCount}, Skipped: ${skippedCount}`,
+    );
+
+    return {
+      success: true,
+      runId,
+      found: results.length,
+      saved: recorded.businesses_saved,
+      skipped: skippedCount,
+      skipReasons,
+      staged: stagedCount,
+      errors,
+    };
+  }
 
-      // Clean up tracking
-      this.activeRuns.delete(runId);
+  /**
+   * Mark a run failed once the worker has given up on it.
+   *
+   * @side-effects
+   * - Sets the scraping_job status to 'failed'
+   * - Emits 'scraping:failed' event
+   */
+  async failRun(runId: string, error: Error): Promise<void> {
+    await this.scrapingJobRepository.finish(runId, 'failed');
+
+    this.eventEmitter.emit('scraping:failed', {
+      runId,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
 
-      this.logger.log(
-        `Scraping complete for run ${runId}. Saved: ${savedCount}, Skipped: ${skippedCount}`
+  /**
+   * List recent runs with their cost per saved lead, newest first. cost is
+   * the provider-reported cost where available, else the estimate.
+   */
+  async findRecentRuns(limit: number = 20) {
+    const jobs = await this.scrapingJobRepository.findRecent(limit);
+
+    return jobs.map((job) => ({
+      run_id: job.job_id,
+      search_query: job.search_query,
+      location: job.location,
+      business_type: job.business_type,
+      status: job.status,
+      staged: job.staged,
+      started_at: job.created_at,
+      completed_at: job.completed_at,
+      businesses_found: job.businesses_found,
+      businesses_saved: job.businesses_saved,
+      cost: job.apify_cost,
+      estimated_cost: job.estimated_cost,
+      actual_cost: job.actual_cost,
+      compute_units: job.compute_units,
+      dataset_items: job.dataset_items,
+      cost_per_saved_lead:
+        job.businesses_saved > 0
+          ? Number((job.apify_cost / job.businesses_saved).toFixed(4))
+          : null,
+    }));
+  }
+
+  /**
+   * Quality filters of a scrape or territory request. Chains default to
+   * SCRAPING_EXCLUDED_CHAINS.
+   *
+   * @throws {BadRequestException} If min_reviews exceeds max_reviews
+   */
+  toQualityFilters(
+    request: Pick<
+      ScrapeRequestDto,
+      | 'min_reviews'
+      | 'max_reviews'
+      | 'min_rating'
+      | 'exclude_chains'
+      | 'exclude_keywords'
+      | 'require_website'
+    >,
+  ): ScrapeQualityFilters {
+    if (
+      request.min_reviews !== undefined &&
+      request.max_reviews !== undefined &&
+      request.min_reviews > request.max_reviews
+    ) {
+      throw new BadRequestException(
+        'min_reviews cannot be greater than max_reviews',
       );
-    } catch (error) {
-      this.logger.error(`Failed to process results for run ${runId}:`, error);
+    }
 
-      // Emit failure event
-      this.eventEmitter.emit('scraping:failed', {
-        runId,
-        error: error.message,
-        timestamp: new Date().toISOString(),
-      });
+    return {
+      minReviews: request.min_reviews,
+      maxReviews: request.max_reviews,
+      minRating: request.min_rating,
+      excludeChains:
+        request.exclude_chains ?? this.configService.getExcludedChains(),
+      excludeKeywords: request.exclude_keywords,
+      requireWebsite: request.require_website ?? false,
+    };
+  }
+
+  /**
+   * Usage the provider reports for a run; null when it can't be fetched,
+   * so the run is recorded at its estimated cost.
+   */
+  private async getRunUsage(runId: string): Promise<ScrapeRunUsage | null> {
+    try {
+      return await this.scrapingProvider.getRunUsage(runId);
+    } catch (error) {
+      this.logger.warn(
+        `Could not get usage for run ${runId}, recording estimated cost: ${error.message}`,
+      );
+      return null;
+    }
+  }
 
-      // Clean up tracking
-      this.activeRuns.delete(runId);
+  /**
+   * Poll the scraping_job row until the worker has recorded the run
+   */
+  private async waitForRecorded(runId: string): Promise<ScrapeResult> {
+    const deadline = Date.now() + CANCEL_WAIT_MS;
 
-      throw error;
+    let job = await this.scrapingJobRepository.findByRunId(runId);
+    while (job && this.isActive(job.status) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, CANCEL_POLL_MS));
+      job = await this.scrapingJobRepository.findByRunId(runId);
     }
+
+    return job
+      ? this.toResult(job)
+      : { success: false, runId, found: 0, saved: 0, skipped: 0 };
+  }
+
+  private isActive(status: string): boolean {
+    return ACTIVE_SCRAPING_JOB_STATUSES.includes(status as ScrapingJobStatus);
   }
-}
\ No newline at end of file
+
+  /** Summary of a run from its scraping_job row */
+  private toResult(job: {
+    job_id: string;
+    status: string;
+    businesses_found: number;
+    businesses_saved: number;
+  }): ScrapeResult {
+    return {
+      success: job.status === 'completed' || job.status === 'aborted',
+      runId: job.job_id,
+      found: job.businesses_found,
+      saved: job.businesses_saved,
+      skipped: Math.max(0, job.businesses_found - job.businesses_saved),
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import { Logger } from '@nestjs/common';
+import type { ApifyPlaceResult } from './apify-scraper';
+
+/**
+ * A scraped place in our business shape, ready to persist.
+ */
+export interface ScrapedBusiness {
+  name: string;
+  address?: string;
+  city?: string;
+  state: string;
+  phone?: string;
+  website?: string;
+  email?: string;
+  google_maps_url?: string;
+  google_place_id?: string;
+  latitude?: number;
+  longitude?: number;
+  business_type?: string;
+  additional_categories?: string[];
+  rating?: number;
+  review_count?: number;
+  price_level?: string;
+  temporarily_closed?: boolean;
+  permanently_closed?: boolean;
+  raw_data?: Record<string, any>;
+}
+
+/**
+ * Run state reported by a provider. Statuses use the Apify vocabulary:
+ * READY, RUNNING, SUCCEEDED, FAILED, ABORTED, TIMED-OUT.
+ */
+export interface ScrapeRunStatus {
+  status: string;
+  itemCount: number;
+}
+
+/**
+ * What a run consumed, as reported by the provider. Costs the provider
+ * doesn't report are null; ScraperService then falls back to its estimate
+ * of costPerResult per place.
+ */
+export interface ScrapeRunUsage {
+  /** Total charged for the run in USD */
+  costUsd: number | null;
+  computeUnits: number | null;
+  /** Items written to the run's dataset */
+  datasetItems: number;
+}
+
+/** Terminal statuses of a run that produced no usable dataset. */
+const FAILED_STATUSES = ['FAILED', 'ABORTED', 'TIMED-OUT'];
+
+/**
+ * Source of Google Maps places.
+ *
+ * Every provider returns datasets in the Apify place format so results can
+ * be recorded from the live actor and replayed offline. The class doubles as
+ * the injection token; MapScrapingModule binds it to the implementation
+ * named by SCRAPING_PROVIDER.
+ *
+ * Implementations:
+ * - ApifyScraper: the compass~google-maps-extractor actor (default)
+ * - FixtureScraper: replays a recorded dataset from disk, no network
+ *
+ * @example
+ * const runId = await provider.startScraping('plumbers in Freehold, NJ', 50);
+ * const places = await provider.waitForCompletion(runId);
+ * const businesses = places.map((place) => provider.transformResult(place));
+ */
+export abstract class ScrapingProvider {
+  protected readonly logger: Logger;
+
+  /** Identifier recorded in cost logs. */
+  abstract readonly name: string;
+
+  /**
+   * Estimated cost in USD per place returned, used until the provider
+   * reports the run's actual usage.
+   */
+  abstract readonly costPerResult: number;
+
+  constructor() {
+    this.logger = new Logger(`${this.constructor.name}`);
+  }
+
+  /**
+   * Start a run for a Google Maps search.
+   *
+   * @param searchQuery - Search text, e.g. "plumbers within 5 miles of Freehold, NJ"
+   * @param maxResults - Maximum places to collect
+   * @returns Provider run ID
+   */
+  abstract startScraping(
+    searchQuery: string,
+    maxResults?: number,
+  ): Promise<string>;
+
+  /**
+   * Get the status of a run.
+   */
+  abstract getRunStatus(runId: string): Promise<ScrapeRunStatus>;
+
+  /**
+   * Fetch the dataset of a finished run. For an aborted run this is the
+   * places collected before it stopped.
+   */
+  abstract getResults(runId: string): Promise<ApifyPlaceResult[]>;
+
+  /**
+   * Get what a finished run consumed.
+   */
+  abstract getRunUsage(runId: string): Promise<ScrapeRunUsage>;
+
+  /**
+   * Stop a run that is still in progress. Finished runs are left untouched.
+   */
+  abstract cancelRun(runId: string): Promise<void>;
+
+  /**
+   * Wait for a run to complete and return results.
+   * Aborting the signal stops polling and rejects.
+   */
+  async waitForCompletion(
+    runId: string,
+    maxWaitTime: number = 300000, // 5 minutes
+    pollInterval: number = 5000, // 5 seconds
+    signal?: AbortSignal,
+  ): Promise<ApifyPlaceResult[]> {
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < maxWaitTime) {
+      if (signal?.aborted) {
+        throw new Error(`Run ${runId} was cancelled`);
+      }
+
+      const { status } = await this.getRunStatus(runId);
+
+      if (status === 'SUCCEEDED') {
+        this.logger.log(`Run ${runId} completed successfully`);
+        return this.getResults(runId);
+      }
+
+      if (FAILED_STATUSES.includes(status)) {
+        throw new Error(`Run ${runId} failed with status: ${status}`);
+      }
+
+      this.logger.debug(`Run ${runId} status: ${status}. Waiting...`);
+      await sleep(pollInterval, signal);
+    }
+
+    throw new Error(`Run ${runId} timed out after ${maxWaitTime}ms`);
+  }
+
+  /**
+   * Transform a place to our business entity format
+   */
+  transformResult(place: ApifyPlaceResult): ScrapedBusiness {
+    return {
+      name: place.title,
+      address: place.address,
+      city: place.city,
+      state: place.state || 'NJ',
+      phone: place.phone,
+      website: place.website,
+      email: place.email,
+      google_maps_url: place.googleMapsUrl || place.url,
+      google_place_id: place.placeId,
+      latitude: place.location?.lat,
+      longitude: place.location?.lng,
+      business_type: place.categoryName,
+      additional_categories: place.additionalCategories,
+      rating: place.totalScore,
+      review_count: place.reviewsCount,
+      price_level: place.price,
+      temporarily_closed: place.temporarilyClosed,
+      permanently_closed: place.permanentlyClosed,
+      raw_data: place.additionalInfo,
+    };
+  }
+}
+
+/** Resolve after `ms`, or as soon as the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
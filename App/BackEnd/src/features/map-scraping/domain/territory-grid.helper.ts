@@ -0,0 +1,217 @@
+/**
+ * Grid tiling for territory scrapes.
+ *
+ * A territory (circle or polygon) is covered by square cells of a fixed
+ * size in miles. Each cell is searched as a circle around its center that
+ * circumscribes the square, so neighbouring searches overlap slightly and
+ * no point of the territory falls between cells. Distances use an
+ * equirectangular approximation, which is accurate to well under a percent
+ * at chapter-territory scale.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface GridCell extends LatLng {
+  /** Row-major position in the territory's bounding grid */
+  index: number;
+}
+
+/** A territory given as center + radius, or as a polygon of [lat, lng] points */
+export type Territory =
+  | { center: LatLng; radius: number }
+  | { polygon: Array<[number, number]> };
+
+const MILES_PER_DEGREE_LAT = 69.0;
+
+/**
+ * Radius in miles of the search around a cell's center that covers the
+ * whole cell.
+ */
+export function cellSearchRadius(cellSize: number): number {
+  return Math.ceil(((cellSize * Math.SQRT2) / 2) * 10) / 10;
+}
+
+/**
+ * Rows and columns of the grid over a territory's bounding box; tiling
+ * checks every one of them. Cheap, so callers can bound the work first.
+ */
+export function territoryGridSize(
+  territory: Territory,
+  cellSize: number,
+): { rows: number; cols: number } {
+  const { rows, cols } = boundingGrid(territory, cellSize);
+  return { rows, cols };
+}
+
+/**
+ * Whether a polygon has an edge spanning more than half the globe, which
+ * in [lat, lng] terms means it crosses the antimeridian.
+ */
+export function crossesAntimeridian(polygon: Array<[number, number]>): boolean {
+  return polygon.some(
+    ([, lng], i) => Math.abs(lng - polygon[(i + 1) % polygon.length][1]) > 180,
+  );
+}
+
+/**
+ * Tile a territory into grid cells of `cellSize` miles.
+ *
+ * Only cells that overlap the territory are returned. Cell indexes are
+ * stable for the same territory and cell size.
+ */
+export function tileTerritory(
+  territory: Territory,
+  cellSize: number,
+): GridCell[] {
+  const { rows, cols, latStep, lngStep, originLat, originLng } = boundingGrid(
+    territory,
+    cellSize,
+  );
+
+  const cells: GridCell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const south = originLat + row * latStep;
+      const west = originLng + col * lngStep;
+      const cell = {
+        south,
+        west,
+        north: south + latStep,
+        east: west + lngStep,
+      };
+
+      if (overlaps(territory, cell)) {
+        cells.push({
+          index: row * cols + col,
+          lat: round((cell.south + cell.north) / 2),
+          lng: round((cell.west + cell.east) / 2),
+        });
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Whether a point lies inside a polygon of [lat, lng] points (ray casting).
+ */
+export function pointInPolygon(
+  point: LatLng,
+  polygon: Array<[number, number]>,
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses =
+      latI > point.lat !== latJ > point.lat &&
+      point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Grid over the bounding box, centered so the cells overhang it evenly */
+function boundingGrid(territory: Territory, cellSize: number) {
+  const bounds = territoryBounds(territory);
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+
+  const latStep = cellSize / MILES_PER_DEGREE_LAT;
+  const lngStep = cellSize / milesPerDegreeLng(midLat);
+  const rows = gridSpan(bounds.maxLat - bounds.minLat, latStep);
+  const cols = gridSpan(bounds.maxLng - bounds.minLng, lngStep);
+
+  return {
+    rows,
+    cols,
+    latStep,
+    lngStep,
+    originLat: midLat - (rows * latStep) / 2,
+    originLng: (bounds.minLng + bounds.maxLng) / 2 - (cols * lngStep) / 2,
+  };
+}
+
+interface Box {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+function territoryBounds(territory: Territory) {
+  if ('polygon' in territory) {
+    const lats = territory.polygon.map(([lat]) => lat);
+    const lngs = territory.polygon.map(([, lng]) => lng);
+    return {
+      minLat: Math.min(...lats),
+      maxLat: Math.max(...lats),
+      minLng: Math.min(...lngs),
+      maxLng: Math.max(...lngs),
+    };
+  }
+
+  const { center, radius } = territory;
+  const dLat = radius / MILES_PER_DEGREE_LAT;
+  const dLng = radius / milesPerDegreeLng(center.lat);
+  return {
+    minLat: center.lat - dLat,
+    maxLat: center.lat + dLat,
+    minLng: center.lng - dLng,
+    maxLng: center.lng + dLng,
+  };
+}
+
+function overlaps(territory: Territory, cell: Box): boolean {
+  if ('polygon' in territory) {
+    const corners: LatLng[] = [
+      { lat: (cell.south + cell.north) / 2, lng: (cell.west + cell.east) / 2 },
+      { lat: cell.south, lng: cell.west },
+      { lat: cell.south, lng: cell.east },
+      { lat: cell.north, lng: cell.west },
+      { lat: cell.north, lng: cell.east },
+    ];
+    // A cell overlaps if part of it is inside the polygon, or the polygon
+    // pokes into it with a vertex
+    return (
+      corners.some((corner) => pointInPolygon(corner, territory.polygon)) ||
+      territory.polygon.some(
+        ([lat, lng]) =>
+          lat >= cell.south &&
+          lat <= cell.north &&
+          lng >= cell.west &&
+          lng <= cell.east,
+      )
+    );
+  }
+
+  // Distance from the center to the nearest point of the cell
+  const { center, radius } = territory;
+  const nearestLat = clamp(center.lat, cell.south, cell.north);
+  const nearestLng = clamp(center.lng, cell.west, cell.east);
+  const dy = (nearestLat - center.lat) * MILES_PER_DEGREE_LAT;
+  const dx = (nearestLng - center.lng) * milesPerDegreeLng(center.lat);
+  return Math.sqrt(dx * dx + dy * dy) <= radius;
+}
+
+/** Cells needed to span a distance; tolerates float error on exact fits */
+function gridSpan(span: number, step: number): number {
+  return Math.max(1, Math.ceil(span / step - 1e-9));
+}
+
+function milesPerDegreeLng(lat: number): number {
+  return MILES_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
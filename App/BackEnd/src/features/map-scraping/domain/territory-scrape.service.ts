@@ -0,0 +1,407 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '../../../config/config.service';
+import { TerritoryScrapeRepository } from '../data/territory-scrape.repository';
+import { ScraperService } from './scraper.service';
+import { JobQueueService } from '../../job-queue/domain/job-queue.service';
+import { ScrapeTerritoryDto } from '../api/dto/scrape-territory.dto';
+import {
+  Territory,
+  cellSearchRadius,
+  crossesAntimeridian,
+  territoryGridSize,
+  tileTerritory,
+} from './territory-grid.helper';
+
+/** Most runs (cells x categories) a single territory scrape may start. */
+export const MAX_TERRITORY_RUNS = 300;
+
+/**
+ * Most cells of the grid over a territory's bounding box. Tiling checks
+ * each of them, so this bounds the work before the run limit can apply.
+ */
+export const MAX_TERRITORY_GRID_CELLS = 2000;
+
+type TerritoryWithCells = NonNullable<
+  Awaited<ReturnType<TerritoryScrapeRepository['findOne']>>
+>;
+
+/** State of one cell and category, from the cell and its run */
+type CellRunState = 'pending' | 'running' | 'completed' | 'aborted' | 'failed';
+
+/**
+ * Territory scrapes: systematic coverage of an area.
+ *
+ * A single "X within N miles of Y" query is capped by the provider and
+ * misses businesses at the edges. A territory scrape tiles a circle or
+ * polygon into grid cells and starts one provider run per cell and
+ * category, each through its own job on the scraping queue. Places found by
+ * several overlapping cells are saved once, by the place-id dedupe of
+ * ScraperService.processRun.
+ *
+ * Coverage is reported per cell and category: a run that returned as many
+ * places as it asked for is "saturated" and its cell likely holds more
+ * businesses than were found.
+ *
+ * @example
+ * await territoryService.start(
+ *   { name: 'Western Monmouth', polygon: [[40.31, -74.36], [40.31, -74.18], [40.17, -74.27]], cell_size: 2 },
+ *   user.id,
+ * );
+ */
+@Injectable()
+export class TerritoryScrapeService {
+  private readonly logger = new Logger(TerritoryScrapeService.name);
+
+  constructor(
+    private repository: TerritoryScrapeRepository,
+    private scraperService: ScraperService,
+    private jobQueueService: JobQueueService,
+    private configService: ConfigService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Tile a territory and queue a scrape for every cell and category.
+   *
+   * @returns Territory with its (pending) coverage
+   * @throws {BadRequestException} If the territory is missing or invalid,
+   *   the quality filters contradict each other,
+   *   its bounding grid has more than MAX_TERRITORY_GRID_CELLS cells, or it
+   *   would start more than MAX_TERRITORY_RUNS runs
+   *
+   * @side-effects
+   * - Creates the territory_scrape and its cells
+   * - Queues one scraping job per cell and category
+   * - Emits 'territory:started' event
+   */
+  async start(dto: ScrapeTerritoryDto, userId: string) {
+    const territory = this.toTerritory(dto);
+    const cellSize = dto.cell_size ?? 2;
+    const maxResults = dto.max_results_per_cell ?? 100;
+    const includeClosed = dto.include_closed ?? false;
+    const categories = this.uniqueCategories(
+      dto.categories ?? this.configService.getTerritoryCategories(),
+    );
+    const filters = this.scraperService.toQualityFilters(dto);
+
+    const { rows, cols } = territoryGridSize(territory, cellSize);
+    if (rows * cols > MAX_TERRITORY_GRID_CELLS) {
+      throw new BadRequestException(
+        `Territory spans ${rows} x ${cols} grid cells; the limit is ${MAX_TERRITORY_GRID_CELLS}. ` +
+          'Use larger cells or a smaller territory.',
+      );
+    }
+
+    const grid = tileTerritory(territory, cellSize);
+    const runs = grid.length * categories.length;
+    if (runs === 0) {
+      throw new BadRequestException('Territory does not cover any grid cell');
+    }
+    if (runs > MAX_TERRITORY_RUNS) {
+      throw new BadRequestException(
+        `Territory needs ${runs} runs (${grid.length} cells x ${categories.length} categories); ` +
+          `the limit is ${MAX_TERRITORY_RUNS}. Use larger cells or fewer categories.`,
+      );
+    }
+
+    const created = await this.repository.create(
+      {
+        name: dto.name.trim(),
+        center_lat: 'center' in territory ? territory.center.lat : null,
+        center_lng: 'center' in territory ? territory.center.lng : null,
+        radius: 'center' in territory ? territory.radius : null,
+        polygon: 'polygon' in territory ? territory.polygon : undefined,
+        cell_size: cellSize,
+        categories,
+        max_results_per_cell: maxResults,
+        include_closed: includeClosed,
+        filters: { ...filters },
+        created_by: userId,
+      },
+      grid.flatMap((cell) =>
+        categories.map((category) => ({
+          cell_index: cell.index,
+          latitude: cell.lat,
+          longitude: cell.lng,
+          category,
+        })),
+      ),
+    );
+
+    try {
+      await this.jobQueueService.createTerritoryCellJobs(
+        created.cells.map((cell) => cell.id),
+        { maxResults, includeClosed, filters, userId },
+      );
+    } catch (error) {
+      // Nothing will ever search the cells, so don't report them pending
+      await this.repository.delete(created.id);
+      throw error;
+    }
+
+    this.logger.log(
+      `Territory scrape ${created.id} "${created.name}" started: ${grid.length} cells x ${categories.length} categories`,
+    );
+
+    this.eventEmitter.emit('territory:started', {
+      territoryId: created.id,
+      cells: grid.length,
+      categories: categories.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    return this.toView(created);
+  }
+
+  /**
+   * List territory scrapes with their coverage summary.
+   */
+  async findAll() {
+    const territories = await this.repository.findAll();
+    return territories.map((territory) => this.toView(territory));
+  }
+
+  /**
+   * Get a territory scrape with its coverage per cell and category.
+   *
+   * @throws {NotFoundException} If territory doesn't exist
+   */
+  async findOne(id: number) {
+    const territory = await this.repository.findOne(id);
+    if (!territory) {
+      throw new NotFoundException(`Territory scrape ${id} not found`);
+    }
+
+    return {
+      ...this.toView(territory),
+      by_category: territory.categories.map((category) => {
+        const cells = territory.cells.filter((c) => c.category === category);
+        return {
+          category,
+          ...this.summarize(cells, territory.max_results_per_cell),
+        };
+      }),
+      cells: this.groupCells(territory),
+    };
+  }
+
+  /**
+   * Start the provider run searching one cell and category. Called by the
+   * ScrapingWorker; a cell whose run already started returns that run.
+   *
+   * @returns Provider run ID
+   * @throws {Error} If the cell doesn't exist
+   *
+   * @side-effects
+   * - Starts a provider run and links it to the cell
+   */
+  async startCellRun(cellId: number): Promise<string> {
+    const cell = await this.repository.findCell(cellId);
+    if (!cell) {
+      throw new Error(`Territory cell ${cellId} not found`);
+    }
+    if (cell.run_id) {
+      return cell.run_id;
+    }
+
+    const radius = cellSearchRadius(cell.territory.cell_size);
+    const location = `${cell.latitude},${cell.longitude}`;
+
+    const runId = await this.scraperService.startRun({
+      searchQuery: `${cell.category} within ${radius} miles of ${location}`,
+      location,
+      radius,
+      businessType: cell.category,
+      maxResults: cell.territory.max_results_per_cell,
+    });
+    await this.repository.markCellStarted(cellId, runId);
+
+    return runId;
+  }
+
+  /**
+   * Mark a cell failed once the worker gave up starting its run.
+   */
+  async failCell(cellId: number, error: Error): Promise<void> {
+    await this.repository.markCellFailed(cellId, error.message);
+  }
+
+  /**
+   * @throws {BadRequestException} If neither a valid circle nor polygon is given
+   */
+  private toTerritory(dto: ScrapeTerritoryDto): Territory {
+    if (dto.polygon) {
+      const valid = dto.polygon.every(
+        (point) =>
+          Array.isArray(point) &&
+          point.length === 2 &&
+          Number.isFinite(point[0]) &&
+          Number.isFinite(point[1]) &&
+          Math.abs(point[0]) <= 90 &&
+          Math.abs(point[1]) <= 180,
+      );
+      if (!valid) {
+        throw new BadRequestException(
+          'polygon must be a list of [lat, lng] points',
+        );
+      }
+      if (crossesAntimeridian(dto.polygon)) {
+        throw new BadRequestException(
+          'polygon must not cross the antimeridian',
+        );
+      }
+      return { polygon: dto.polygon };
+    }
+
+    if (
+      dto.center_lat === undefined ||
+      dto.center_lng === undefined ||
+      dto.radius === undefined
+    ) {
+      throw new BadRequestException(
+        'Provide either polygon or center_lat, center_lng and radius',
+      );
+    }
+    return {
+      center: { lat: dto.center_lat, lng: dto.center_lng },
+      radius: dto.radius,
+    };
+  }
+
+  /** Trimmed categories without case-insensitive repeats */
+  private uniqueCategories(categories: string[]): string[] {
+    const seen = new Set<string>();
+    return categories
+      .map((category) => category.trim())
+      .filter((category) => {
+        const key = category.toLowerCase();
+        if (!category || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  private cellState(cell: TerritoryWithCells['cells'][number]): CellRunState {
+    if (cell.status !== 'started') {
+      return cell.status as CellRunState;
+    }
+    switch (cell.run?.status) {
+      case 'completed':
+      case 'aborted':
+      case 'failed':
+        return cell.run.status;
+      default:
+        return 'running';
+    }
+  }
+
+  /**
+   * Run counts and totals of a set of cells. Coverage is the share of runs
+   * that searched their cell; saturated runs hit max_results_per_cell.
+   */
+  private summarize(cells: TerritoryWithCells['cells'], maxResults: number) {
+    const runs: Record<CellRunState, number> = {
+      pending: 0,
+      running: 0,
+      completed: 0,
+      aborted: 0,
+      failed: 0,
+    };
+    let found = 0;
+    let saved = 0;
+    let saturated = 0;
+
+    for (const cell of cells) {
+      runs[this.cellState(cell)]++;
+      found += cell.run?.businesses_found ?? 0;
+      saved += cell.run?.businesses_saved ?? 0;
+      if (
+        cell.run?.status === 'completed' &&
+        cell.run.businesses_found >= maxResults
+      ) {
+        saturated++;
+      }
+    }
+
+    const searched = runs.completed + runs.aborted;
+    return {
+      runs,
+      coverage_percent:
+        cells.length > 0 ? Math.round((searched / cells.length) * 100) : 0,
+      saturated_runs: saturated,
+      businesses_found: found,
+      businesses_saved: saved,
+    };
+  }
+
+  /** Territory settings with its overall coverage */
+  private toView({ cells, ...territory }: TerritoryWithCells) {
+    const summary = this.summarize(cells, territory.max_results_per_cell);
+
+    return {
+      ...territory,
+      status:
+        summary.runs.pending + summary.runs.running > 0
+          ? 'running'
+          : 'completed',
+      grid_cells: new Set(cells.map((cell) => cell.cell_index)).size,
+      total_runs: cells.length,
+      ...summary,
+    };
+  }
+
+  /** Coverage per grid cell, with one entry per category */
+  private groupCells(territory: TerritoryWithCells) {
+    const grid = new Map<
+      number,
+      {
+        index: number;
+        lat: number;
+        lng: number;
+        runs: Array<{
+          category: string;
+          status: CellRunState;
+          run_id: string | null;
+          businesses_found: number;
+          businesses_saved: number;
+          saturated: boolean;
+          error: string | null;
+        }>;
+      }
+    >();
+
+    for (const cell of territory.cells) {
+      if (!grid.has(cell.cell_index)) {
+        grid.set(cell.cell_index, {
+          index: cell.cell_index,
+          lat: cell.latitude,
+          lng: cell.longitude,
+          runs: [],
+        });
+      }
+
+      const status = this.cellState(cell);
+      const found = cell.run?.businesses_found ?? 0;
+      grid.get(cell.cell_index)!.runs.push({
+        category: cell.category,
+        status,
+        run_id: cell.run_id,
+        businesses_found: found,
+        businesses_saved: cell.run?.businesses_saved ?? 0,
+        saturated:
+          status === 'completed' && found >= territory.max_results_per_cell,
+        error: cell.error,
+      });
+    }
+
+    return [...grid.values()];
+  }
+}
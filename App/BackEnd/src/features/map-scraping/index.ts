@@ -1,8 +1,62 @@
 // Barrel exports for map-scraping feature
 export { MapScrapingModule } from './map-scraping.module';
 export { ScraperController } from './api/scraper.controller';
+export { ScrapeScheduleController } from './api/scrape-schedule.controller';
+export { TerritoryScrapeController } from './api/territory-scrape.controller';
+export { ScrapeStagingController } from './api/scrape-staging.controller';
 export { ScraperService } from './domain/scraper.service';
+export { ScrapeScheduleService } from './domain/scrape-schedule.service';
+export { ScrapeStagingService } from './domain/scrape-staging.service';
+export type { StagedDuplicateKind } from './domain/scrape-staging.service';
+export {
+  TerritoryScrapeService,
+  MAX_TERRITORY_RUNS,
+} from './domain/territory-scrape.service';
+export {
+  tileTerritory,
+  cellSearchRadius,
+  pointInPolygon,
+} from './domain/territory-grid.helper';
+export { qualitySkipReason } from './domain/scrape-quality.helper';
+export type {
+  ScrapeQualityFilters,
+  ScrapeSkipReason,
+  ScrapeSkipCounts,
+} from './domain/scrape-quality.helper';
+export type {
+  Territory,
+  GridCell,
+  LatLng,
+} from './domain/territory-grid.helper';
+export type {
+  ScrapeResult,
+  ScrapeRunParams,
+  ProcessRunOptions,
+} from './domain/scraper.service';
+export { ScrapingProvider } from './domain/scraping-provider';
+export type {
+  ScrapedBusiness,
+  ScrapeRunStatus,
+  ScrapeRunUsage,
+} from './domain/scraping-provider';
 export { ApifyScraper } from './domain/apify-scraper';
+export { FixtureScraper } from './domain/fixture-scraper';
 export { ScrapeResultRepository } from './data/scrape-result.repository';
+export { ScrapingJobRepository } from './data/scraping-job.repository';
+export type {
+  ScrapingJobStatus,
+  ScrapingJobTotals,
+} from './data/scraping-job.repository';
+export { ScrapeScheduleRepository } from './data/scrape-schedule.repository';
+export { TerritoryScrapeRepository } from './data/territory-scrape.repository';
+export { ScrapeStagingRepository } from './data/scrape-staging.repository';
+export type { StagedResultStatus } from './data/scrape-staging.repository';
 export { ScrapeRequestDto } from './api/dto/scrape-request.dto';
-export { ScrapeStatusDto } from './api/dto/scrape-status.dto';
\ No newline at end of file
+export { ScrapeStatusDto } from './api/dto/scrape-status.dto';
+export { ImportStagedResultsDto } from './api/dto/import-staged-results.dto';
+export { ScrapeRunsQueryDto } from './api/dto/scrape-runs-query.dto';
+export {
+  CreateScrapeScheduleDto,
+  UpdateScrapeScheduleDto,
+} from './api/dto/scrape-schedule.dto';
+export { ScrapeTerritoryDto } from './api/dto/scrape-territory.dto';
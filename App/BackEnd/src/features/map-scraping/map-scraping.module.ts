@@ -1,11 +1,27 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { ScraperController } from './api/scraper.controller';
+import { ScrapeScheduleController } from './api/scrape-schedule.controller';
+import { TerritoryScrapeController } from './api/territory-scrape.controller';
+import { ScrapeStagingController } from './api/scrape-staging.controller';
 import { ScraperService } from './domain/scraper.service';
+import { ScrapeScheduleService } from './domain/scrape-schedule.service';
+import { TerritoryScrapeService } from './domain/territory-scrape.service';
+import { ScrapeStagingService } from './domain/scrape-staging.service';
 import { ApifyScraper } from './domain/apify-scraper';
+import { FixtureScraper } from './domain/fixture-scraper';
+import { ScrapingProvider } from './domain/scraping-provider';
 import { ScrapeResultRepository } from './data/scrape-result.repository';
+import { ScrapingJobRepository } from './data/scraping-job.repository';
+import { ScrapeScheduleRepository } from './data/scrape-schedule.repository';
+import { TerritoryScrapeRepository } from './data/territory-scrape.repository';
+import { ScrapeStagingRepository } from './data/scrape-staging.repository';
+import { DuplicateDetectorService } from '../business-management/domain/duplicate-detector.service';
+import { BusinessDuplicateRepository } from '../business-management/data/business-duplicate.repository';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { ConfigModule } from '../../config/config.module';
+import { ConfigService } from '../../config/config.service';
+import { JobQueueModule } from '../job-queue/job-queue.module';
 
 @Module({
   imports: [
@@ -20,13 +36,47 @@ import { ConfigModule } from '../../config/config.module';
       verboseMemoryLeak: false,
       ignoreErrors: false,
     }),
+    // Scrapes are processed by the ScrapingWorker, which depends on this module
+    forwardRef(() => JobQueueModule),
+  ],
+  controllers: [
+    ScraperController,
+    ScrapeScheduleController,
+    TerritoryScrapeController,
+    ScrapeStagingController,
   ],
-  controllers: [ScraperController],
   providers: [
     ScraperService,
+    ScrapeScheduleService,
+    TerritoryScrapeService,
+    ScrapeStagingService,
     ApifyScraper,
+    FixtureScraper,
+    {
+      // SCRAPING_PROVIDER=fixture replays recorded datasets without network
+      provide: ScrapingProvider,
+      useFactory: (
+        config: ConfigService,
+        apify: ApifyScraper,
+        fixture: FixtureScraper,
+      ): ScrapingProvider =>
+        config.getScrapingProvider() === 'fixture' ? fixture : apify,
+      inject: [ConfigService, ApifyScraper, FixtureScraper],
+    },
     ScrapeResultRepository,
+    ScrapingJobRepository,
+    ScrapeScheduleRepository,
+    TerritoryScrapeRepository,
+    ScrapeStagingRepository,
+    DuplicateDetectorService,
+    BusinessDuplicateRepository,
+  ],
+  exports: [
+    ScraperService,
+    ScrapeScheduleService,
+    TerritoryScrapeService,
+    ScrapeStagingService,
+    ScrapingProvider,
   ],
-  exports: [ScraperService, ApifyScraper],
 })
 export class MapScrapingModule {}
\ No newline at end of file
@@ -8,11 +8,11 @@ export class BusinessRepository {
   constructor(private prisma: PrismaService) {}
 
   /**
-   * Find a business by ID with primary contact
+   * Find a business by ID with primary contact (trashed businesses excluded)
    */
   async findByIdWithContact(businessId: number) {
     return this.prisma.business.findUnique({
-      where: { id: businessId },
+      where: { id: businessId, deleted_at: null },
       include: {
         contacts: {
           orderBy: [
@@ -25,20 +25,20 @@ export class BusinessRepository {
   }
 
   /**
-   * Find a business by ID (basic info only)
+   * Find a business by ID (basic info only, trashed businesses excluded)
    */
   async findById(businessId: number) {
     return this.prisma.business.findUnique({
-      where: { id: businessId },
+      where: { id: businessId, deleted_at: null },
     });
   }
 
   /**
-   * Check if a business exists
+   * Check if a business exists and is not trashed
    */
   async exists(businessId: number): Promise<boolean> {
     const count = await this.prisma.business.count({
-      where: { id: businessId },
+      where: { id: businessId, deleted_at: null },
     });
     return count > 0;
   }
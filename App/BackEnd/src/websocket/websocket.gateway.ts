@@ -68,6 +68,11 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.logger.log('Emitted business:created event');
   }
 
+  emitBusinessUpdated(business: any) {
+    this.server.emit('business:updated', business);
+    this.logger.log('Emitted business:updated event');
+  }
+
   emitBusinessEnriched(business: any) {
     this.server.emit('business:enriched', business);
     this.logger.log('Emitted business:enriched event');
@@ -100,6 +105,19 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.logger.log(`Emitted ${eventName} event`);
   }
 
+  /**
+   * Emit an event only to one user's sockets (the `user:{id}` room joined
+   * on connect).
+   *
+   * @param userId - Recipient user ID
+   * @param eventName - Name of the event to emit
+   * @param payload - Event payload
+   */
+  emitToUser(userId: string, eventName: string, payload: any) {
+    this.server.to(`user:${userId}`).emit(eventName, payload);
+    this.logger.log(`Emitted ${eventName} event to user ${userId}`);
+  }
+
   // CSV Import specific event methods
   emitCsvProgress(progress: any) {
     this.server.emit('csv:progress', progress);
@@ -135,6 +153,12 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.logger.log('Emitted scraping:completed event');
   }
 
+  @OnEvent('scraping:cancelled')
+  handleScrapingCancelled(payload: any) {
+    this.server.emit('scraping:cancelled', payload);
+    this.logger.log('Emitted scraping:cancelled event');
+  }
+
   @OnEvent('scraping:failed')
   handleScrapingFailed(payload: any) {
     this.server.emit('scraping:failed', payload);
@@ -0,0 +1,125 @@
+/**
+ * Scrape-to-Business Flow (e2e)
+ *
+ * Runs a full scrape against the fixture scraping provider, which replays
+ * test/fixtures/google-maps/default.json instead of calling Apify, and checks
+ * what lands in the business table.
+ *
+ * Requires a database (DATABASE_URL) and Redis for the scraping queue; no
+ * network or Apify token needed.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/prisma/prisma.service';
+import { RedisService } from '../src/caching/redis.service';
+import { ScraperService } from '../src/features/map-scraping/domain/scraper.service';
+
+// Mock RedisService for testing
+const mockRedisService = {
+  get: jest.fn().mockResolvedValue(null),
+  set: jest.fn().mockResolvedValue('OK'),
+  del: jest.fn().mockResolvedValue(1),
+  deletePattern: jest.fn().mockResolvedValue(0),
+  isConnected: jest.fn().mockReturnValue(true),
+};
+
+const FIXTURE_PLACE_IDS = {
+  startsWith: 'fixture-place-',
+};
+
+describe('Scrape-to-Business Flow (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let scraper: ScraperService;
+
+  beforeAll(async () => {
+    process.env.SCRAPING_PROVIDER = 'fixture';
+    process.env.SCRAPING_FIXTURE_PATH = 'test/fixtures/google-maps';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(RedisService)
+      .useValue(mockRedisService)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    prisma = app.get(PrismaService);
+    scraper = app.get(ScraperService);
+
+    await prisma.business.deleteMany({
+      where: { google_place_id: FIXTURE_PLACE_IDS },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.business.deleteMany({
+      where: { google_place_id: FIXTURE_PLACE_IDS },
+    });
+    await app.close();
+  });
+
+  /** Results are processed by the scraping worker; the job row marks the end. */
+  async function scrapeAndWait(location: string) {
+    const { runId } = await scraper.startScraping({
+      location,
+      max_results: 10,
+    });
+
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const job = await prisma.scraping_job.findUnique({
+        where: { job_id: runId },
+      });
+      if (job && job.status !== 'running') return job;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error(`Scrape ${runId} did not finish`);
+  }
+
+  it('should store open places with their Google Maps fields', async () => {
+    const job = await scrapeAndWait('Freehold, NJ');
+
+    expect(job).toMatchObject({ status: 'completed', provider: 'fixture' });
+    expect(job.businesses_found).toBe(4);
+    expect(job.businesses_saved).toBe(3);
+    expect(job.apify_cost).toBe(0);
+
+    const plumber = await prisma.business.findUnique({
+      where: { google_place_id: 'fixture-place-plumbing' },
+    });
+    expect(plumber).toMatchObject({
+      name: 'Freehold Fixture Plumbing LLC',
+      industry: 'Plumber',
+      rating: 4.8,
+      review_count: 212,
+      additional_categories: [
+        'Water heater installation service',
+        'Drainage service',
+      ],
+      enrichment_status: 'pending',
+    });
+  });
+
+  it('should skip permanently closed places', async () => {
+    const closed = await prisma.business.findUnique({
+      where: { google_place_id: 'fixture-place-hardware' },
+    });
+
+    expect(closed).toBeNull();
+  });
+
+  it('should not store the same places twice on a rescrape', async () => {
+    const job = await scrapeAndWait('Freehold, NJ');
+
+    expect(job.businesses_saved).toBe(0);
+    expect(
+      await prisma.business.count({
+        where: { google_place_id: FIXTURE_PLACE_IDS },
+      }),
+    ).toBe(3);
+  });
+});
@@ -1,12 +1,16 @@
 'use client'
 
+import { Suspense } from 'react'
 import { AppShell } from '@/shared/components/layout'
 import { BusinessList } from '@/features/leads'
 
 export default function LeadsPage() {
   return (
     <AppShell title="Leads">
-      <BusinessList />
+      {/* BusinessList reads ?segment= from the URL */}
+      <Suspense>
+        <BusinessList />
+      </Suspense>
     </AppShell>
   )
 }
@@ -0,0 +1,12 @@
+'use client'
+
+import { AppShell } from '@/shared/components/layout'
+import { TrashList } from '@/features/leads'
+
+export default function LeadsTrashPage() {
+  return (
+    <AppShell title="Trash">
+      <TrashList />
+    </AppShell>
+  )
+}
@@ -9,26 +9,45 @@ import {
   SearchForm,
   ScrapeProgressCard,
   RecentSearches,
+  ScrapeSchedules,
+  StagedResults,
   useRecentSearches,
   useStartScrape,
   useCancelScrape,
   useScrapeJob,
   useScrapeProgress,
+  useScrapeSchedules,
+  useCreateScrapeSchedule,
+  useUpdateScrapeSchedule,
+  useDeleteScrapeSchedule,
+  useStagedResults,
+  useImportStagedResults,
+} from '@/features/search'
+import type {
+  ScrapeRequest,
+  RecentSearch,
+  ScrapeSchedule,
+  ImportStagedResultsInput,
 } from '@/features/search'
-import type { ScrapeRequest, RecentSearch } from '@/features/search'
 
 export default function SearchPage() {
   const router = useRouter()
   const { user } = useAuth()
   const isAdmin = user?.role === 'ADMIN'
   const [activeJobId, setActiveJobId] = useState<string | null>(null)
+  const [isStagedJob, setIsStagedJob] = useState(false)
 
   const { data: recentSearches, isLoading: isLoadingRecent } = useRecentSearches()
   const { data: job } = useScrapeJob(activeJobId)
   const { progress, reset: resetProgress } = useScrapeProgress(activeJobId)
+  const { data: schedules, isLoading: isLoadingSchedules } = useScrapeSchedules()
 
   const startScrape = useStartScrape()
   const cancelScrape = useCancelScrape()
+  const createSchedule = useCreateScrapeSchedule()
+  const updateSchedule = useUpdateScrapeSchedule()
+  const deleteSchedule = useDeleteScrapeSchedule()
+  const importStaged = useImportStagedResults()
 
   const handleStartScrape = useCallback(
     async (request: ScrapeRequest) => {
@@ -36,6 +55,7 @@ export default function SearchPage() {
         resetProgress()
         const newJob = await startScrape.mutateAsync(request)
         setActiveJobId(newJob.id)
+        setIsStagedJob(!!request.staged)
       } catch (error) {
         console.error('Failed to start scrape:', error)
       }
@@ -59,6 +79,15 @@ export default function SearchPage() {
     router.push('/leads')
   }, [router])
 
+  const handleImportStaged = useCallback(
+    (input: ImportStagedResultsInput) => {
+      if (activeJobId) {
+        importStaged.mutate({ runId: activeJobId, input })
+      }
+    },
+    [activeJobId, importStaged]
+  )
+
   const handleRepeatSearch = useCallback(
     (search: RecentSearch) => {
       handleStartScrape({
@@ -69,12 +98,32 @@ export default function SearchPage() {
     [handleStartScrape]
   )
 
+  const handleToggleSchedule = useCallback(
+    (schedule: ScrapeSchedule) => {
+      updateSchedule.mutate({ id: schedule.id, input: { enabled: !schedule.enabled } })
+    },
+    [updateSchedule]
+  )
+
+  const handleDeleteSchedule = useCallback(
+    (schedule: ScrapeSchedule) => {
+      // Past runs and the businesses they found are kept
+      deleteSchedule.mutate(schedule.id)
+    },
+    [deleteSchedule]
+  )
+
   const isJobActive =
     job?.status === 'pending' ||
     job?.status === 'running' ||
     progress?.status === 'pending' ||
     progress?.status === 'running'
 
+  // Staged results are reviewed once the provider run has finished
+  const { data: staged, isLoading: isLoadingStaged } = useStagedResults(
+    isStagedJob && activeJobId && job?.status === 'completed' ? activeJobId : null
+  )
+
   return (
     <AppShell title="Search">
       {!isAdmin && (
@@ -98,18 +147,42 @@ export default function SearchPage() {
               job={job ?? null}
               progress={progress}
               onCancel={handleCancel}
-              onViewResults={handleViewResults}
+              onViewResults={isStagedJob ? undefined : handleViewResults}
               isCancelling={cancelScrape.isPending}
             />
           )}
+
+          {/* Staged Results Review */}
+          {isStagedJob && activeJobId && job?.status === 'completed' && (
+            <StagedResults
+              data={staged}
+              isLoading={isLoadingStaged}
+              canImport={isAdmin}
+              isImporting={importStaged.isPending}
+              onImport={handleImportStaged}
+            />
+          )}
         </div>
 
-        {/* Recent Searches */}
-        <RecentSearches
-          searches={recentSearches}
-          isLoading={isLoadingRecent}
-          onRepeat={handleRepeatSearch}
-        />
+        <div className="space-y-6">
+          {/* Recurring Scrapes */}
+          <ScrapeSchedules
+            schedules={schedules}
+            isLoading={isLoadingSchedules}
+            canManage={isAdmin}
+            isSaving={createSchedule.isPending}
+            onCreate={createSchedule.mutateAsync}
+            onToggle={handleToggleSchedule}
+            onDelete={handleDeleteSchedule}
+          />
+
+          {/* Recent Searches */}
+          <RecentSearches
+            searches={recentSearches}
+            isLoading={isLoadingRecent}
+            onRepeat={handleRepeatSearch}
+          />
+        </div>
       </div>
     </AppShell>
   )
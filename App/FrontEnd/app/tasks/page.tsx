@@ -0,0 +1,12 @@
+'use client'
+
+import { AppShell } from '@/shared/components/layout'
+import { MyTasks } from '@/features/leads'
+
+export default function TasksPage() {
+  return (
+    <AppShell title="My Tasks">
+      <MyTasks />
+    </AppShell>
+  )
+}
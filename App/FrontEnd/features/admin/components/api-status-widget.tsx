@@ -95,6 +95,26 @@ export function ApiStatusWidget() {
               </div>
             ))}
 
+            {data && data.quotas.length > 0 && (
+              <div className="border-t border-border/50 pt-2.5 mt-2.5 space-y-2.5">
+                {data.quotas.map((quota) => (
+                  <div key={quota.provider} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {serviceLabels[quota.provider] || serviceLabels[quota.service] || quota.provider} quota
+                    </span>
+                    <span
+                      className={quota.nearLimit ? 'text-amber-400' : 'text-foreground'}
+                      title={`Resets ${new Date(quota.resetsAt).toLocaleDateString()}`}
+                    >
+                      {quota.remaining === null
+                        ? 'Unlimited'
+                        : `${quota.remaining.toLocaleString()} / ${quota.limit?.toLocaleString()} left`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="border-t border-border/50 pt-2.5 mt-2.5">
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Redis Cache</span>
@@ -7,4 +7,4 @@ export { ApiStatusWidget } from './components'
 export { useApiStatus, adminKeys } from './hooks/use-api-status'
 
 // Types
-export type { ApiStatusResponse, ApiServiceStatus } from './types'
+export type { ApiStatusResponse, ApiServiceStatus, ProviderQuota } from './types'
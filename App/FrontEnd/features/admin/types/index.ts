@@ -3,8 +3,24 @@ export interface ApiServiceStatus {
   configured: boolean
 }
 
+export interface ProviderQuota {
+  provider: string
+  service: string
+  /** Billing month, YYYY-MM */
+  period: string
+  limit: number | null
+  used: number
+  remaining: number | null
+  reportedRemaining: number | null
+  reportedAt: string | null
+  resetsAt: string
+  /** Queued enrichment is paused until the quota resets */
+  nearLimit: boolean
+}
+
 export interface ApiStatusResponse {
   services: ApiServiceStatus[]
+  quotas: ProviderQuota[]
   redis: {
     connected: boolean
   }
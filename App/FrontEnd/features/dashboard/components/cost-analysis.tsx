@@ -3,7 +3,7 @@
 import { motion } from 'framer-motion'
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts'
 import { Card, CardHeader, CardTitle, CardContent, Skeleton, Badge } from '@/shared/components/ui'
-import type { CostAnalysisData, CostBreakdownItem } from '../types'
+import type { CostAnalysisData, CostBreakdownItem, ScrapingCostReconciliation } from '../types'
 
 interface CostAnalysisProps {
   data?: CostAnalysisData
@@ -124,6 +124,11 @@ export function CostAnalysis({ data, isLoading }: CostAnalysisProps) {
             <BudgetStatusCard budgetStatus={data.budgetStatus} />
           )}
 
+          {/* Scraping Cost Reconciliation */}
+          {data.scrapingReconciliation && data.scrapingReconciliation.reportedRuns > 0 && (
+            <ScrapingReconciliationCard reconciliation={data.scrapingReconciliation} />
+          )}
+
           {/* Summary Stats */}
           <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
             <div className="text-center">
@@ -231,3 +236,46 @@ function BudgetStatusCard({ budgetStatus }: BudgetStatusCardProps) {
     </div>
   )
 }
+
+interface ScrapingReconciliationCardProps {
+  reconciliation: ScrapingCostReconciliation
+}
+
+function ScrapingReconciliationCard({ reconciliation }: ScrapingReconciliationCardProps) {
+  const overEstimate = reconciliation.variance > 0
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Scraping: Estimated vs Actual</h4>
+        <Badge variant={overEstimate ? 'secondary' : 'default'}>
+          {overEstimate ? '+' : ''}
+          {reconciliation.variancePercent}%
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div>
+          <p className="text-muted-foreground">Estimated</p>
+          <p className="font-medium">${reconciliation.estimatedCost.toFixed(2)}</p>
+        </div>
+        <div className="text-center">
+          <p className="text-muted-foreground">Actual</p>
+          <p className={`font-medium ${overEstimate ? 'text-amber-500' : ''}`}>
+            ${reconciliation.actualCost.toFixed(2)}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-muted-foreground">Runs</p>
+          <p className="font-medium">{reconciliation.reportedRuns}</p>
+        </div>
+      </div>
+
+      {reconciliation.estimateOnlyRuns > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {reconciliation.estimateOnlyRuns} runs recorded at their estimated cost
+        </p>
+      )}
+    </div>
+  )
+}
@@ -10,11 +10,11 @@ interface FunnelChartProps {
 }
 
 const STAGE_COLORS: Record<string, string> = {
-  scraped: '#3b82f6', // blue-500
-  pending: '#f59e0b', // amber-500
-  enriched: '#10b981', // emerald-500
+  prospect: '#3b82f6', // blue-500
   contacted: '#8b5cf6', // violet-500
-  converted: '#ec4899', // pink-500
+  'visited meeting': '#f59e0b', // amber-500
+  applied: '#ec4899', // pink-500
+  member: '#10b981', // emerald-500
 }
 
 export function FunnelChart({ data, isLoading }: FunnelChartProps) {
@@ -62,4 +62,5 @@ export type {
   CostAnalysisData,
   CostBreakdownItem,
   BudgetStatus,
+  ScrapingCostReconciliation,
 } from './types'
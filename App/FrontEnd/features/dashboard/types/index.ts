@@ -179,10 +179,20 @@ export interface BudgetStatus {
   onTrack: boolean
 }
 
+export interface ScrapingCostReconciliation {
+  reportedRuns: number
+  estimatedCost: number
+  actualCost: number
+  variance: number
+  variancePercent: number
+  estimateOnlyRuns: number
+}
+
 export interface CostAnalysisData {
   totalCost: number
   breakdown: CostBreakdownItem[]
   budgetStatus?: BudgetStatus
+  scrapingReconciliation?: ScrapingCostReconciliation
   avgCostPerLead: number
   totalLeads: number
   dateRange: {
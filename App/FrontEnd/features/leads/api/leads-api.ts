@@ -1,27 +1,95 @@
 import { api } from '@/shared/lib/api'
-import type { Business, PaginatedResponse } from '@/shared/types'
-import type { LeadFilters, CreateLeadInput, UpdateLeadInput, LeadWithContacts, BulkActionResult } from '../types'
+import type {
+  Business,
+  BusinessActivity,
+  Contact,
+  BusinessTask,
+  CursorPaginatedResponse,
+  PaginatedResponse,
+} from '@/shared/types'
+import type {
+  LeadFilters,
+  CreateLeadInput,
+  UpdateLeadInput,
+  LeadWithContacts,
+  BulkActionResult,
+  BulkTagInput,
+  LeadPageParam,
+  MoveLeadStageInput,
+  AssignLeadInput,
+  ActivityFilters,
+  AddLeadNoteInput,
+  UpdateLeadNoteInput,
+  CreateLeadContactInput,
+  UpdateLeadContactInput,
+  TaskStatus,
+  CreateLeadTaskInput,
+  UpdateTaskInput,
+  PagedResult,
+  Tag,
+  CreateTagInput,
+  UpdateLeadTagsInput,
+  Segment,
+  CreateSegmentInput,
+  SegmentOutreachInput,
+  OutreachBatchResult,
+  TrashPage,
+} from '../types'
 
-export async function fetchLeads(
-  page = 1,
-  pageSize = 10,
-  filters?: LeadFilters
-): Promise<PaginatedResponse<Business>> {
-  const params = new URLSearchParams({
-    page: String(page),
-    limit: String(pageSize),
-  })
+function buildLeadParams(filters?: LeadFilters): URLSearchParams {
+  const params = new URLSearchParams()
 
   if (filters?.search) params.set('search', filters.search)
   if (filters?.enrichment_status && filters.enrichment_status !== 'all') {
     params.set('enrichment_status', filters.enrichment_status)
   }
+  if (filters?.city) params.set('city', filters.city)
   if (filters?.industry) params.set('industry', filters.industry)
-  // Note: Backend doesn't support sorting yet - sortBy/sortOrder ignored
+  if (filters?.pipeline_stage && filters.pipeline_stage !== 'all') {
+    params.set('pipeline_stage', filters.pipeline_stage)
+  }
+  if (filters?.assigned_to) params.set('assigned_to', filters.assigned_to)
+  if (filters?.tag_ids?.length) {
+    params.set('tag_ids', filters.tag_ids.join(','))
+    if (filters.tag_match) params.set('tag_match', filters.tag_match)
+  }
+  if (filters?.contacted !== undefined) {
+    params.set('contacted', String(filters.contacted))
+  }
+  if (filters?.sortBy) params.set('sortBy', filters.sortBy)
+  if (filters?.sortOrder) params.set('sortOrder', filters.sortOrder)
+
+  return params
+}
+
+export async function fetchLeads(
+  page = 1,
+  pageSize = 10,
+  filters?: LeadFilters
+): Promise<PaginatedResponse<Business>> {
+  const params = buildLeadParams(filters)
+  params.set('page', String(page))
+  params.set('limit', String(pageSize))
 
   return api<PaginatedResponse<Business>>(`/api/businesses?${params.toString()}`)
 }
 
+export async function fetchLeadsPage(
+  pageSize: number,
+  filters?: LeadFilters,
+  pageParam: LeadPageParam = {}
+): Promise<CursorPaginatedResponse<Business>> {
+  const params = buildLeadParams(filters)
+  params.set('limit', String(pageSize))
+  if (pageParam.cursor) {
+    params.set('cursor', pageParam.cursor)
+  } else {
+    params.set('page', String(pageParam.page ?? 1))
+  }
+
+  return api<CursorPaginatedResponse<Business>>(`/api/businesses?${params.toString()}`)
+}
+
 export async function fetchLead(id: string): Promise<LeadWithContacts> {
   return api<LeadWithContacts>(`/api/businesses/${id}`)
 }
@@ -40,12 +108,36 @@ export async function updateLead({ id, ...data }: UpdateLeadInput): Promise<Busi
   })
 }
 
+export async function moveLeadStage({ id, ...data }: MoveLeadStageInput): Promise<Business> {
+  return api<Business>(`/api/businesses/${id}/stage`, {
+    method: 'PATCH',
+    body: data,
+  })
+}
+
+export async function assignLead({ id, user_id }: AssignLeadInput): Promise<Business> {
+  return api<Business>(`/api/businesses/${id}/assignee`, {
+    method: 'PATCH',
+    body: { user_id },
+  })
+}
+
 export async function deleteLead(id: string): Promise<void> {
   return api<void>(`/api/businesses/${id}`, {
     method: 'DELETE',
   })
 }
 
+export async function fetchTrash(page = 1, pageSize = 20): Promise<TrashPage> {
+  return api<TrashPage>(`/api/businesses/trash?page=${page}&limit=${pageSize}`)
+}
+
+export async function restoreLead(id: string): Promise<Business> {
+  return api<Business>(`/api/businesses/${id}/restore`, {
+    method: 'POST',
+  })
+}
+
 export async function bulkDeleteLeads(ids: string[]): Promise<BulkActionResult> {
   return api<BulkActionResult>('/api/businesses/bulk-delete', {
     method: 'POST',
@@ -60,6 +152,174 @@ export async function bulkEnrichLeads(ids: string[]): Promise<BulkActionResult>
   })
 }
 
+export async function bulkTagLeads(input: BulkTagInput): Promise<BulkActionResult> {
+  return api<BulkActionResult>('/api/businesses/bulk-tag', {
+    method: 'POST',
+    body: input,
+  })
+}
+
 export async function fetchIndustries(): Promise<string[]> {
   return api<string[]>('/api/businesses/industries')
 }
+
+export async function fetchLeadActivity(
+  businessId: number,
+  filters: ActivityFilters = {}
+): Promise<PagedResult<BusinessActivity>> {
+  const params = new URLSearchParams()
+  if (filters.type) params.set('type', filters.type)
+  params.set('page', String(filters.page ?? 1))
+  params.set('limit', String(filters.limit ?? 50))
+
+  return api<PagedResult<BusinessActivity>>(
+    `/api/businesses/${businessId}/activity?${params.toString()}`
+  )
+}
+
+export async function addLeadNote({ businessId, body }: AddLeadNoteInput): Promise<BusinessActivity> {
+  return api<BusinessActivity>(`/api/businesses/${businessId}/notes`, {
+    method: 'POST',
+    body: { body },
+  })
+}
+
+export async function updateLeadNote({
+  businessId,
+  noteId,
+  body,
+}: UpdateLeadNoteInput): Promise<BusinessActivity> {
+  return api<BusinessActivity>(`/api/businesses/${businessId}/notes/${noteId}`, {
+    method: 'PATCH',
+    body: { body },
+  })
+}
+
+export async function deleteLeadNote(businessId: number, noteId: number): Promise<void> {
+  return api<void>(`/api/businesses/${businessId}/notes/${noteId}`, {
+    method: 'DELETE',
+  })
+}
+
+export async function fetchLeadContacts(businessId: number): Promise<Contact[]> {
+  return api<Contact[]>(`/api/businesses/${businessId}/contacts`)
+}
+
+export async function createLeadContact({
+  businessId,
+  ...data
+}: CreateLeadContactInput): Promise<Contact> {
+  return api<Contact>(`/api/businesses/${businessId}/contacts`, {
+    method: 'POST',
+    body: data,
+  })
+}
+
+export async function updateLeadContact({
+  businessId,
+  contactId,
+  ...data
+}: UpdateLeadContactInput): Promise<Contact> {
+  return api<Contact>(`/api/businesses/${businessId}/contacts/${contactId}`, {
+    method: 'PATCH',
+    body: data,
+  })
+}
+
+export async function deleteLeadContact(businessId: number, contactId: string): Promise<void> {
+  return api<void>(`/api/businesses/${businessId}/contacts/${contactId}`, {
+    method: 'DELETE',
+  })
+}
+
+export async function fetchLeadTasks(
+  businessId: number,
+  page = 1,
+  limit = 50
+): Promise<PagedResult<BusinessTask>> {
+  return api<PagedResult<BusinessTask>>(
+    `/api/businesses/${businessId}/tasks?page=${page}&limit=${limit}`
+  )
+}
+
+export async function createLeadTask({
+  businessId,
+  ...data
+}: CreateLeadTaskInput): Promise<BusinessTask> {
+  return api<BusinessTask>(`/api/businesses/${businessId}/tasks`, {
+    method: 'POST',
+    body: data,
+  })
+}
+
+export async function fetchMyTasks(
+  status: TaskStatus = 'open',
+  page = 1,
+  limit = 50
+): Promise<PagedResult<BusinessTask>> {
+  return api<PagedResult<BusinessTask>>(
+    `/api/tasks/mine?status=${status}&page=${page}&limit=${limit}`
+  )
+}
+
+export async function updateTask({ id, ...data }: UpdateTaskInput): Promise<BusinessTask> {
+  return api<BusinessTask>(`/api/tasks/${id}`, {
+    method: 'PATCH',
+    body: data,
+  })
+}
+
+export async function deleteTask(id: number): Promise<void> {
+  return api<void>(`/api/tasks/${id}`, {
+    method: 'DELETE',
+  })
+}
+
+export async function fetchTags(): Promise<Tag[]> {
+  return api<Tag[]>('/api/tags')
+}
+
+export async function createTag(input: CreateTagInput): Promise<Tag> {
+  return api<Tag>('/api/tags', {
+    method: 'POST',
+    body: input,
+  })
+}
+
+export async function updateLeadTags({ id, ...data }: UpdateLeadTagsInput): Promise<Business> {
+  return api<Business>(`/api/businesses/${id}/tags`, {
+    method: 'PATCH',
+    body: data,
+  })
+}
+
+export async function fetchSegments(): Promise<Segment[]> {
+  return api<Segment[]>('/api/segments')
+}
+
+export async function fetchSegment(id: number): Promise<Segment> {
+  return api<Segment>(`/api/segments/${id}`)
+}
+
+export async function createSegment(input: CreateSegmentInput): Promise<Segment> {
+  return api<Segment>('/api/segments', {
+    method: 'POST',
+    body: input,
+  })
+}
+
+export async function deleteSegment(id: number): Promise<void> {
+  return api<void>(`/api/segments/${id}`, {
+    method: 'DELETE',
+  })
+}
+
+export async function queueSegmentOutreach({
+  segmentId,
+  channel,
+}: SegmentOutreachInput): Promise<OutreachBatchResult> {
+  return api<OutreachBatchResult>('/api/jobs/outreach/batch', {
+    method: 'POST',
+    body: { segmentId, channel },
+  })
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  StickyNote,
+  Sparkles,
+  Send,
+  Mail,
+  ArrowRightLeft,
+  CheckCircle2,
+  Pencil,
+  Trash2,
+} from 'lucide-react'
+import { Button } from '@/shared/components/ui/button'
+import { Skeleton } from '@/shared/components/ui/skeleton'
+import { Textarea } from '@/shared/components/ui/textarea'
+import { useAuth } from '@/features/auth'
+import {
+  useLeadActivity,
+  useAddLeadNote,
+  useUpdateLeadNote,
+  useDeleteLeadNote,
+} from '../hooks/use-lead-activity'
+import type { ActivityType, BusinessActivity } from '@/shared/types'
+
+const ACTIVITY_ICONS: Record<ActivityType, React.ElementType> = {
+  note: StickyNote,
+  enrichment: Sparkles,
+  outreach: Send,
+  email: Mail,
+  stage_change: ArrowRightLeft,
+  task: CheckCircle2,
+}
+
+interface ActivityTimelineProps {
+  businessId: number
+}
+
+export function ActivityTimeline({ businessId }: ActivityTimelineProps) {
+  const { user } = useAuth()
+  const { data, isLoading } = useLeadActivity(businessId)
+  const addNote = useAddLeadNote()
+  const [draft, setDraft] = useState('')
+
+  const canWrite = user?.role === 'ADMIN' || user?.role === 'MEMBER'
+  const entries = data?.data ?? []
+
+  const handleAdd = () => {
+    const body = draft.trim()
+    if (!body) return
+    addNote.mutate({ businessId, body }, { onSuccess: () => setDraft('') })
+  }
+
+  return (
+    <div className="space-y-3">
+      {canWrite && (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add a note..."
+            maxLength={5000}
+            className="min-h-[60px]"
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleAdd}
+              disabled={!draft.trim()}
+              isLoading={addNote.isPending}
+            >
+              Add Note
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-2/3" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No activity yet.</p>
+      ) : (
+        <ul className="space-y-3 max-h-72 overflow-y-auto pr-1">
+          {entries.map((entry) => (
+            <ActivityEntry
+              key={entry.id}
+              entry={entry}
+              // Mirrors the backend rule: only the author or an admin
+              canEdit={
+                entry.type === 'note' &&
+                (user?.role === 'ADMIN' || (!!user && entry.created_by === user.id))
+              }
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface ActivityEntryProps {
+  entry: BusinessActivity
+  canEdit: boolean
+}
+
+function ActivityEntry({ entry, canEdit }: ActivityEntryProps) {
+  const updateNote = useUpdateLeadNote()
+  const deleteNote = useDeleteLeadNote()
+  const [editing, setEditing] = useState(false)
+  const [body, setBody] = useState(entry.body ?? '')
+
+  const Icon = ACTIVITY_ICONS[entry.type] ?? StickyNote
+  const author = entry.author ? entry.author.name ?? entry.author.email : 'System'
+
+  const handleSave = () => {
+    const trimmed = body.trim()
+    if (!trimmed) return
+    updateNote.mutate(
+      { businessId: entry.business_id, noteId: entry.id, body: trimmed },
+      { onSuccess: () => setEditing(false) }
+    )
+  }
+
+  return (
+    <li className="flex gap-3 text-sm">
+      <div className="h-7 w-7 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+        <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{author}</span>
+          <span>{formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}</span>
+          {canEdit && !editing && (
+            <div className="ml-auto flex gap-1">
+              <button
+                onClick={() => setEditing(true)}
+                className="p-1 rounded hover:bg-muted"
+                aria-label="Edit note"
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() =>
+                  deleteNote.mutate({ businessId: entry.business_id, noteId: entry.id })
+                }
+                disabled={deleteNote.isPending}
+                className="p-1 rounded hover:bg-muted"
+                aria-label="Delete note"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+        </div>
+        {editing ? (
+          <div className="mt-1 space-y-2">
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={5000}
+              className="min-h-[60px]"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} isLoading={updateNote.isPending}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          entry.body && <p className="mt-0.5 whitespace-pre-wrap break-words">{entry.body}</p>
+        )}
+      </div>
+    </li>
+  )
+}
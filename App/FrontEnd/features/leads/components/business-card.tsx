@@ -6,6 +6,9 @@ import { Card } from '@/shared/components/ui/card'
 import { Badge } from '@/shared/components/ui/badge'
 import { Button } from '@/shared/components/ui/button'
 import type { Business } from '@/shared/types'
+import { HighlightedText } from './highlighted-text'
+import { PipelineStageBadge } from './pipeline-stage-badge'
+import { TagChips } from './tag-chips'
 
 interface BusinessCardProps {
   business: Business
@@ -65,15 +68,24 @@ export function BusinessCard({
             <div className="flex items-start justify-between gap-2">
               <div>
                 <h3 className="font-semibold text-foreground truncate">
-                  {business.name}
+                  <HighlightedText
+                    text={business.name}
+                    field="name"
+                    highlights={business.highlights}
+                  />
                 </h3>
                 {business.industry && (
                   <p className="text-sm text-muted-foreground">{business.industry}</p>
                 )}
               </div>
-              <Badge variant={business.enrichment_status}>
-                {business.enrichment_status}
-              </Badge>
+              <div className="flex flex-col items-end gap-1">
+                <Badge variant={business.enrichment_status}>
+                  {business.enrichment_status}
+                </Badge>
+                {business.pipeline_stage && (
+                  <PipelineStageBadge stage={business.pipeline_stage} />
+                )}
+              </div>
             </div>
 
             {/* Contact details - fixed height for uniformity */}
@@ -81,7 +93,13 @@ export function BusinessCard({
               {business.phone && (
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Phone className="h-3.5 w-3.5 flex-shrink-0" />
-                  <span>{business.phone}</span>
+                  <span>
+                    <HighlightedText
+                      text={business.phone}
+                      field="phone"
+                      highlights={business.highlights}
+                    />
+                  </span>
                 </div>
               )}
               {business.website && (
@@ -99,6 +117,12 @@ export function BusinessCard({
                 </div>
               )}
             </div>
+
+            {business.tags && business.tags.length > 0 && (
+              <div className="mt-2">
+                <TagChips tags={business.tags.map((t) => t.tag)} />
+              </div>
+            )}
           </div>
 
           {/* Actions */}
@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Plus, Building2 } from 'lucide-react'
+import { Plus, Building2, Layers, Send, Trash2, X } from 'lucide-react'
 import { Button } from '@/shared/components/ui/button'
 import { SkeletonCard } from '@/shared/components/ui/skeleton'
 import { useDebounce } from '@/shared/hooks/use-debounce'
@@ -10,9 +11,20 @@ import { useAuth } from '@/features/auth'
 import { BusinessCard } from './business-card'
 import { FilterBar } from './filter-bar'
 import { BulkActionsBar } from './bulk-actions-bar'
-import { CreateLeadModal, ViewLeadModal, DeleteLeadModal } from './modals'
-import { useLeads, useIndustries, useBulkEnrichLeads, useBulkDeleteLeads } from '../hooks/use-leads'
-import type { LeadFilters } from '../types'
+import {
+  CreateLeadModal,
+  ViewLeadModal,
+  DeleteLeadModal,
+  SaveSegmentModal,
+} from './modals'
+import {
+  useInfiniteLeads,
+  useIndustries,
+  useBulkEnrichLeads,
+  useBulkDeleteLeads,
+} from '../hooks/use-leads'
+import { useTags, useSegment, useSegmentOutreach } from '../hooks/use-lead-segments'
+import type { LeadFilters, SegmentFilter } from '../types'
 import type { Business } from '@/shared/types'
 
 interface BusinessListProps {
@@ -22,6 +34,13 @@ interface BusinessListProps {
 export function BusinessList({ pageSize = 12 }: BusinessListProps) {
   const { user } = useAuth()
   const isAdmin = user?.role === 'ADMIN'
+  const canWrite = isAdmin || user?.role === 'MEMBER'
+
+  // Saved segment selected from the sidebar (?segment=ID)
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const segmentParam = Number(searchParams.get('segment'))
+  const segmentId = Number.isInteger(segmentParam) && segmentParam > 0 ? segmentParam : null
 
   // Modal state
   const [createModalOpen, setCreateModalOpen] = useState(false)
@@ -29,6 +48,7 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
   const [deleteModalOpen, setDeleteModalOpen] = useState(false)
   const [selectedBusinessId, setSelectedBusinessId] = useState<string | null>(null)
   const [businessToDelete, setBusinessToDelete] = useState<Business | null>(null)
+  const [saveSegmentOpen, setSaveSegmentOpen] = useState(false)
 
   // Selection state
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
@@ -40,12 +60,18 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
   })
   const debouncedSearch = useDebounce(filters.search || '', 300)
 
-  // Pagination state (simple manual state since usePagination requires total upfront)
-  const [page, setPage] = useState(1)
-
   // Queries
   const { data: industries = [] } = useIndustries()
-  const { data, isLoading, isFetching } = useLeads(page, pageSize, {
+  const { data: tags = [] } = useTags()
+  const { data: segment } = useSegment(segmentId)
+  const {
+    data,
+    isLoading,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useInfiniteLeads(pageSize, {
     ...filters,
     search: debouncedSearch,
   })
@@ -53,22 +79,52 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
   // Mutations
   const bulkEnrich = useBulkEnrichLeads()
   const bulkDelete = useBulkDeleteLeads()
+  const segmentOutreach = useSegmentOutreach()
+
+  // Opening a segment replaces the filters with the saved ones
+  useEffect(() => {
+    if (!segment) return
+    setFilters((prev) => ({
+      ...segment.filter,
+      sortBy: prev.sortBy,
+      sortOrder: prev.sortOrder,
+    }))
+  }, [segment])
 
-  // Derived pagination values
-  const totalPages = useMemo(() => {
-    return data ? Math.ceil(data.total / pageSize) : 1
-  }, [data, pageSize])
+  // Search and sort are view state, not part of a segment
+  const segmentFilter = useMemo<SegmentFilter>(() => {
+    const { search: _search, sortBy: _sortBy, sortOrder: _sortOrder, ...rest } = filters
+    return rest
+  }, [filters])
 
-  const hasNextPage = page < totalPages
-  const hasPreviousPage = page > 1
+  const handleClearSegment = useCallback(() => {
+    setFilters((prev) => ({ sortBy: prev.sortBy, sortOrder: prev.sortOrder }))
+    router.push('/leads')
+  }, [router])
 
-  const nextPage = useCallback(() => {
-    if (hasNextPage) setPage((p) => p + 1)
-  }, [hasNextPage])
+  // Flattened list across loaded pages; total reflects the first page's count
+  const businesses = useMemo(
+    () => data?.pages.flatMap((p) => p.data) ?? [],
+    [data]
+  )
+  const total = data?.pages[0]?.meta.total ?? 0
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
 
-  const previousPage = useCallback(() => {
-    if (hasPreviousPage) setPage((p) => p - 1)
-  }, [hasPreviousPage])
+  // Infinite scroll: load the next page when the sentinel comes into view
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    const node = sentinelRef.current
+    if (!node) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMore()
+    })
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [loadMore])
 
   // Selection handlers
   const handleSelect = useCallback((id: string, selected: boolean) => {
@@ -88,10 +144,8 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
   }, [])
 
   const handleSelectAll = useCallback(() => {
-    if (data?.data) {
-      setSelectedIds(new Set(data.data.map((b) => b.id)))
-    }
-  }, [data?.data])
+    setSelectedIds(new Set(businesses.map((b) => b.id)))
+  }, [businesses])
 
   // Action handlers
   const handleView = useCallback((business: Business) => {
@@ -125,18 +179,26 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-lg font-semibold text-foreground">All Leads</h2>
+          <h2 className="text-lg font-semibold text-foreground">
+            {segment ? segment.name : 'All Leads'}
+          </h2>
           <p className="text-sm text-muted-foreground">
-            {data?.total ?? 0} businesses in your database
+            {segment
+              ? `${total} businesses in this segment`
+              : `${total} businesses in your database`}
           </p>
         </div>
         {isAdmin && (
           <div className="flex items-center gap-2">
-            {data?.data && data.data.length > 0 && (
+            {businesses.length > 0 && (
               <Button variant="outline" size="sm" onClick={handleSelectAll}>
                 Select All
               </Button>
             )}
+            <Button variant="outline" size="sm" onClick={() => router.push('/leads/trash')}>
+              <Trash2 className="h-4 w-4 mr-1.5" />
+              Trash
+            </Button>
             <Button size="sm" onClick={() => setCreateModalOpen(true)}>
               <Plus className="h-4 w-4 mr-1.5" />
               Add Lead
@@ -145,11 +207,46 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
         )}
       </div>
 
+      {/* Segment */}
+      {segment && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-border bg-muted/40 px-4 py-3">
+          <Layers className="h-4 w-4 text-muted-foreground" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-foreground truncate">{segment.name}</p>
+            {segment.description && (
+              <p className="text-xs text-muted-foreground truncate">{segment.description}</p>
+            )}
+          </div>
+          {canWrite && (
+            <Button
+              size="sm"
+              onClick={() => segmentOutreach.mutate({ segmentId: segment.id })}
+              isLoading={segmentOutreach.isPending}
+              disabled={segment.business_count === 0}
+            >
+              <Send className="h-4 w-4 mr-1.5" />
+              Queue Outreach
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={handleClearSegment}>
+            <X className="h-4 w-4 mr-1.5" />
+            Clear
+          </Button>
+          {segmentOutreach.isSuccess && (
+            <p className="w-full text-xs text-muted-foreground">
+              {segmentOutreach.data.message}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Filters */}
       <FilterBar
         filters={filters}
         industries={industries}
+        tags={tags}
         onFiltersChange={setFilters}
+        onSaveSegment={canWrite ? () => setSaveSegmentOpen(true) : undefined}
       />
 
       {/* List */}
@@ -160,14 +257,14 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
               <SkeletonCard key={i} />
             ))}
           </div>
-        ) : data?.data && data.data.length > 0 ? (
+        ) : businesses.length > 0 ? (
           <>
             <AnimatePresence mode="popLayout">
               <motion.div
                 className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3"
                 initial={false}
               >
-                {data.data.map((business) => (
+                {businesses.map((business) => (
                   <BusinessCard
                     key={business.id}
                     business={business}
@@ -181,27 +278,17 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
               </motion.div>
             </AnimatePresence>
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex items-center justify-center gap-2 mt-6">
+            {/* Infinite scroll */}
+            <div ref={sentinelRef} className="h-1" />
+            {hasNextPage && (
+              <div className="flex items-center justify-center mt-6">
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={previousPage}
-                  disabled={!hasPreviousPage || isFetching}
+                  onClick={loadMore}
+                  disabled={isFetchingNextPage}
                 >
-                  Previous
-                </Button>
-                <span className="text-sm text-muted-foreground px-4">
-                  Page {page} of {totalPages}
-                </span>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={nextPage}
-                  disabled={!hasNextPage || isFetching}
-                >
-                  Next
+                  {isFetchingNextPage ? 'Loading...' : 'Load more'}
                 </Button>
               </div>
             )}
@@ -227,7 +314,7 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
         )}
 
         {/* Loading overlay for refetches */}
-        {isFetching && !isLoading && (
+        {isFetching && !isLoading && !isFetchingNextPage && (
           <div className="absolute inset-0 bg-background/50 backdrop-blur-sm flex items-center justify-center">
             <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
           </div>
@@ -259,6 +346,14 @@ export function BusinessList({ pageSize = 12 }: BusinessListProps) {
         businessId={selectedBusinessId}
         onEnrich={isAdmin ? handleEnrich : undefined}
       />
+      {canWrite && (
+        <SaveSegmentModal
+          open={saveSegmentOpen}
+          onOpenChange={setSaveSegmentOpen}
+          filter={segmentFilter}
+          onSaved={(saved) => router.push(`/leads?segment=${saved.id}`)}
+        />
+      )}
       {isAdmin && (
         <DeleteLeadModal
           open={deleteModalOpen}
@@ -0,0 +1,38 @@
+'use client'
+
+import { cn } from '@/shared/lib/utils'
+import type { FieldProvenance } from '@/shared/types'
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Edited manually',
+  abstract: 'AbstractAPI',
+  hunter: 'Hunter.io',
+  website: 'Business website',
+}
+
+interface FieldSourceProps {
+  provenance?: FieldProvenance
+  className?: string
+}
+
+/**
+ * Where an enriched or edited value came from, with the provider's
+ * confidence. The date of the write is in the tooltip.
+ */
+export function FieldSource({ provenance, className }: FieldSourceProps) {
+  if (!provenance) return null
+
+  const label = SOURCE_LABELS[provenance.source] ?? provenance.source
+  const confidence =
+    provenance.confidence != null ? ` · ${Math.round(provenance.confidence * 100)}%` : ''
+
+  return (
+    <span
+      className={cn('text-[11px] text-muted-foreground/80 whitespace-nowrap', className)}
+      title={`${label}${confidence}, ${new Date(provenance.updated_at).toLocaleString()}`}
+    >
+      {provenance.source === 'manual' ? 'manual' : `via ${label}`}
+      {confidence}
+    </span>
+  )
+}
@@ -1,19 +1,29 @@
 'use client'
 
 import { useMemo } from 'react'
-import { Search, SortAsc, SortDesc } from 'lucide-react'
+import { Search, SortAsc, SortDesc, BookmarkPlus } from 'lucide-react'
 import { Input } from '@/shared/components/ui/input'
 import { Button } from '@/shared/components/ui/button'
 import { Select } from '@/shared/components/ui/select'
-import type { LeadFilters } from '../types'
+import type { LeadFilters, Tag } from '../types'
+import { PIPELINE_STAGE_OPTIONS } from './pipeline-stage-badge'
 
 interface FilterBarProps {
   filters: LeadFilters
   industries: string[]
+  tags?: Tag[]
   onFiltersChange: (filters: LeadFilters) => void
+  // Shown as a "Save segment" button when provided
+  onSaveSegment?: () => void
 }
 
-export function FilterBar({ filters, industries, onFiltersChange }: FilterBarProps) {
+export function FilterBar({
+  filters,
+  industries,
+  tags = [],
+  onFiltersChange,
+  onSaveSegment,
+}: FilterBarProps) {
   const handleSearchChange = (value: string) => {
     onFiltersChange({ ...filters, search: value })
   }
@@ -32,6 +42,29 @@ export function FilterBar({ filters, industries, onFiltersChange }: FilterBarPro
     })
   }
 
+  const handleStageChange = (value: string) => {
+    onFiltersChange({
+      ...filters,
+      pipeline_stage: value as LeadFilters['pipeline_stage'],
+    })
+  }
+
+  const handleTagChange = (value: string) => {
+    if (value === 'multiple') return
+    onFiltersChange({
+      ...filters,
+      tag_ids: value === 'all' ? undefined : [Number(value)],
+      tag_match: undefined,
+    })
+  }
+
+  const handleContactedChange = (value: string) => {
+    onFiltersChange({
+      ...filters,
+      contacted: value === 'all' ? undefined : value === 'yes',
+    })
+  }
+
   const handleSortChange = (value: string) => {
     onFiltersChange({
       ...filters,
@@ -53,6 +86,11 @@ export function FilterBar({ filters, industries, onFiltersChange }: FilterBarPro
     { value: 'failed', label: 'Failed' },
   ]
 
+  const stageOptions = [
+    { value: 'all', label: 'All Stages' },
+    ...PIPELINE_STAGE_OPTIONS,
+  ]
+
   const industryOptions = useMemo(
     () => [
       { value: 'all', label: 'All Industries' },
@@ -61,10 +99,37 @@ export function FilterBar({ filters, industries, onFiltersChange }: FilterBarPro
     [industries]
   )
 
+  const tagIds = filters.tag_ids ?? []
+  const tagValue =
+    tagIds.length === 0 ? 'all' : tagIds.length === 1 ? String(tagIds[0]) : 'multiple'
+
+  const tagOptions = useMemo(
+    () => [
+      { value: 'all', label: 'All Tags' },
+      // Segments can combine several tags; the select only picks one
+      ...(tagIds.length > 1 ? [{ value: 'multiple', label: `${tagIds.length} tags` }] : []),
+      ...tags.map((tag) => ({ value: String(tag.id), label: tag.name })),
+    ],
+    [tags, tagIds.length]
+  )
+
+  const contactedValue =
+    filters.contacted === undefined ? 'all' : filters.contacted ? 'yes' : 'no'
+
+  const contactedOptions = [
+    { value: 'all', label: 'Any Outreach' },
+    { value: 'no', label: 'Not Contacted' },
+    { value: 'yes', label: 'Contacted' },
+  ]
+
   const sortOptions = [
     { value: 'name', label: 'Name' },
     { value: 'created_at', label: 'Date Added' },
     { value: 'updated_at', label: 'Last Updated' },
+    { value: 'city', label: 'City' },
+    { value: 'industry', label: 'Industry' },
+    { value: 'contact_count', label: 'Contacts' },
+    { value: 'last_outreach_at', label: 'Last Outreach' },
   ]
 
   return (
@@ -88,6 +153,14 @@ export function FilterBar({ filters, industries, onFiltersChange }: FilterBarPro
         className="w-[140px]"
       />
 
+      {/* Pipeline stage filter */}
+      <Select
+        value={filters.pipeline_stage || 'all'}
+        onChange={(e) => handleStageChange(e.target.value)}
+        options={stageOptions}
+        className="w-[160px]"
+      />
+
       {/* Industry filter */}
       <Select
         value={filters.industry || 'all'}
@@ -96,6 +169,22 @@ export function FilterBar({ filters, industries, onFiltersChange }: FilterBarPro
         className="w-[160px]"
       />
 
+      {/* Tag filter */}
+      <Select
+        value={tagValue}
+        onChange={(e) => handleTagChange(e.target.value)}
+        options={tagOptions}
+        className="w-[140px]"
+      />
+
+      {/* Outreach filter */}
+      <Select
+        value={contactedValue}
+        onChange={(e) => handleContactedChange(e.target.value)}
+        options={contactedOptions}
+        className="w-[150px]"
+      />
+
       {/* Sort */}
       <Select
         value={filters.sortBy || 'created_at'}
@@ -116,6 +205,13 @@ export function FilterBar({ filters, industries, onFiltersChange }: FilterBarPro
           <SortDesc className="h-4 w-4" />
         )}
       </Button>
+
+      {onSaveSegment && (
+        <Button variant="outline" size="sm" onClick={onSaveSegment} className="h-9">
+          <BookmarkPlus className="h-4 w-4 mr-1.5" />
+          Save Segment
+        </Button>
+      )}
     </div>
   )
 }
@@ -0,0 +1,32 @@
+import type { ReactNode } from 'react'
+import type { SearchHighlight } from '@/shared/types'
+
+interface HighlightedTextProps {
+  text: string
+  field: string
+  highlights?: SearchHighlight[]
+}
+
+/**
+ * Renders `text` with search matches wrapped in <mark>.
+ * Falls back to plain text when the field has no highlight.
+ */
+export function HighlightedText({ text, field, highlights }: HighlightedTextProps) {
+  const highlight = highlights?.find((h) => h.field === field && h.value === text)
+  if (!highlight) return <>{text}</>
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  highlight.ranges.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={i} className="bg-primary/20 text-foreground rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
@@ -2,4 +2,21 @@ export { BusinessCard } from './business-card'
 export { BusinessList } from './business-list'
 export { FilterBar } from './filter-bar'
 export { BulkActionsBar } from './bulk-actions-bar'
-export { CreateLeadModal, ViewLeadModal, DeleteLeadModal } from './modals'
+export { PipelineStageBadge } from './pipeline-stage-badge'
+export { FieldSource } from './field-source'
+export { ActivityTimeline } from './activity-timeline'
+export { LeadTasks } from './lead-tasks'
+export { TaskList } from './task-list'
+export { MyTasks } from './my-tasks'
+export { TaskReminders } from './task-reminders'
+export { TagChips } from './tag-chips'
+export { LeadTags } from './lead-tags'
+export { LeadContacts } from './lead-contacts'
+export { SidebarSegments } from './sidebar-segments'
+export { TrashList } from './trash-list'
+export {
+  CreateLeadModal,
+  ViewLeadModal,
+  DeleteLeadModal,
+  SaveSegmentModal,
+} from './modals'
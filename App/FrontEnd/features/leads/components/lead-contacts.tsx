@@ -0,0 +1,281 @@
+'use client'
+
+import { useState } from 'react'
+import { Star, BadgeCheck, Pencil, Trash2, Plus, Phone, Linkedin } from 'lucide-react'
+import { cn } from '@/shared/lib/utils'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Skeleton } from '@/shared/components/ui/skeleton'
+import { useAuth } from '@/features/auth'
+import {
+  useLeadContacts,
+  useCreateLeadContact,
+  useUpdateLeadContact,
+  useDeleteLeadContact,
+} from '../hooks/use-lead-contacts'
+import type { LeadContactFields } from '../types'
+import type { Contact } from '@/shared/types'
+import { FieldSource } from './field-source'
+
+interface LeadContactsProps {
+  businessId: number
+}
+
+export function LeadContacts({ businessId }: LeadContactsProps) {
+  const { user } = useAuth()
+  const { data: contacts = [], isLoading } = useLeadContacts(businessId)
+  const createContact = useCreateLeadContact()
+  const [adding, setAdding] = useState(false)
+
+  const canWrite = user?.role === 'ADMIN' || user?.role === 'MEMBER'
+
+  const handleCreate = (fields: LeadContactFields) => {
+    createContact.mutate(
+      // The first contact becomes the primary one
+      { businessId, ...fields, is_primary: contacts.length === 0 },
+      { onSuccess: () => setAdding(false) }
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : contacts.length === 0 && !adding ? (
+        <p className="text-sm text-muted-foreground">No contacts yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {contacts.map((contact) => (
+            <ContactRow
+              key={contact.id}
+              businessId={businessId}
+              contact={contact}
+              canWrite={canWrite}
+            />
+          ))}
+        </ul>
+      )}
+
+      {canWrite &&
+        (adding ? (
+          <ContactForm
+            submitLabel="Add Contact"
+            isPending={createContact.isPending}
+            onSubmit={handleCreate}
+            onCancel={() => setAdding(false)}
+          />
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setAdding(true)}>
+            <Plus className="h-4 w-4 mr-1.5" />
+            Add Contact
+          </Button>
+        ))}
+    </div>
+  )
+}
+
+interface ContactRowProps {
+  businessId: number
+  contact: Contact
+  canWrite: boolean
+}
+
+function ContactRow({ businessId, contact, canWrite }: ContactRowProps) {
+  const updateContact = useUpdateLeadContact()
+  const deleteContact = useDeleteLeadContact()
+  const [editing, setEditing] = useState(false)
+
+  const update = (fields: LeadContactFields, onSuccess?: () => void) =>
+    updateContact.mutate({ businessId, contactId: contact.id, ...fields }, { onSuccess })
+
+  if (editing) {
+    return (
+      <li>
+        <ContactForm
+          initial={contact}
+          submitLabel="Save"
+          isPending={updateContact.isPending}
+          onSubmit={(fields) => update(fields, () => setEditing(false))}
+          onCancel={() => setEditing(false)}
+        />
+      </li>
+    )
+  }
+
+  return (
+    <li className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg text-sm">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <p className="font-medium truncate">{contact.name ?? 'Unknown'}</p>
+          <FieldSource provenance={contact.field_sources?.name} />
+          {contact.is_primary && (
+            <span className="text-xs rounded-full bg-primary/10 text-primary px-2 py-0.5">
+              Primary
+            </span>
+          )}
+        </div>
+        {contact.title && (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            {contact.title}
+            <FieldSource provenance={contact.field_sources?.title} />
+          </p>
+        )}
+        {contact.email && (
+          <p className="flex items-center gap-1">
+            <a href={`mailto:${contact.email}`} className="text-primary truncate">
+              {contact.email}
+            </a>
+            {contact.email_verified && (
+              <BadgeCheck className="h-3.5 w-3.5 text-emerald-500" aria-label="Verified" />
+            )}
+            <FieldSource
+              provenance={contact.field_sources?.email_verified ?? contact.field_sources?.email}
+              className="ml-1"
+            />
+          </p>
+        )}
+        <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+          {contact.phone && (
+            <a href={`tel:${contact.phone}`} className="flex items-center gap-1 hover:text-primary">
+              <Phone className="h-3 w-3" />
+              {contact.phone}
+            </a>
+          )}
+          {contact.linkedin_url && (
+            <a
+              href={contact.linkedin_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 hover:text-primary"
+            >
+              <Linkedin className="h-3 w-3" />
+              LinkedIn
+            </a>
+          )}
+        </div>
+      </div>
+
+      {canWrite && (
+        <div className="flex gap-1">
+          {!contact.is_primary && (
+            <button
+              onClick={() => update({ is_primary: true })}
+              disabled={updateContact.isPending}
+              className="p-1 rounded hover:bg-muted"
+              aria-label="Make primary"
+              title="Make primary"
+            >
+              <Star className="h-3.5 w-3.5" />
+            </button>
+          )}
+          {contact.email && (
+            <button
+              onClick={() => update({ email_verified: !contact.email_verified })}
+              disabled={updateContact.isPending}
+              className={cn(
+                'p-1 rounded hover:bg-muted',
+                contact.email_verified && 'text-emerald-500'
+              )}
+              aria-label={contact.email_verified ? 'Mark email unverified' : 'Mark email verified'}
+              title={contact.email_verified ? 'Mark email unverified' : 'Mark email verified'}
+            >
+              <BadgeCheck className="h-3.5 w-3.5" />
+            </button>
+          )}
+          <button
+            onClick={() => setEditing(true)}
+            className="p-1 rounded hover:bg-muted"
+            aria-label="Edit contact"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={() => deleteContact.mutate({ businessId, contactId: contact.id })}
+            disabled={deleteContact.isPending}
+            className="p-1 rounded hover:bg-muted"
+            aria-label="Delete contact"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+    </li>
+  )
+}
+
+interface ContactFormProps {
+  initial?: Contact
+  submitLabel: string
+  isPending: boolean
+  onSubmit: (fields: LeadContactFields) => void
+  onCancel: () => void
+}
+
+function ContactForm({ initial, submitLabel, isPending, onSubmit, onCancel }: ContactFormProps) {
+  const [name, setName] = useState(initial?.name ?? '')
+  const [title, setTitle] = useState(initial?.title ?? '')
+  const [email, setEmail] = useState(initial?.email ?? '')
+  const [phone, setPhone] = useState(initial?.phone ?? '')
+  const [linkedinUrl, setLinkedinUrl] = useState(initial?.linkedin_url ?? '')
+
+  // Mirrors the backend rule: a contact needs a name, email or phone
+  const canSubmit = !!(name.trim() || email.trim() || phone.trim())
+
+  const handleSubmit = () => {
+    if (!canSubmit) return
+    // Empty fields clear the stored value when editing
+    onSubmit({
+      name: name.trim() || null,
+      title: title.trim() || null,
+      email: email.trim() || null,
+      phone: phone.trim() || null,
+      linkedin_url: linkedinUrl.trim() || null,
+    })
+  }
+
+  return (
+    <div className="space-y-2 p-3 border border-border rounded-lg">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          maxLength={200}
+        />
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title (e.g. Owner)"
+          maxLength={200}
+        />
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+        />
+        <Input
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="Phone"
+          maxLength={50}
+        />
+      </div>
+      <Input
+        type="url"
+        value={linkedinUrl}
+        onChange={(e) => setLinkedinUrl(e.target.value)}
+        placeholder="LinkedIn URL"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={!canSubmit} isLoading={isPending}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { useAuth } from '@/features/auth'
+import { useTags, useUpdateLeadTags } from '../hooks/use-lead-segments'
+import { TagChips } from './tag-chips'
+import type { BusinessTag } from '@/shared/types'
+
+interface LeadTagsProps {
+  businessId: string
+  tags: BusinessTag[]
+}
+
+export function LeadTags({ businessId, tags }: LeadTagsProps) {
+  const { user } = useAuth()
+  const { data: allTags = [] } = useTags()
+  const updateTags = useUpdateLeadTags()
+  const [draft, setDraft] = useState('')
+
+  const canWrite = user?.role === 'ADMIN' || user?.role === 'MEMBER'
+  const current = new Set(tags.map((t) => t.name))
+  const suggestions = allTags.filter((t) => !current.has(t.name))
+
+  const handleAdd = () => {
+    const name = draft.trim().toLowerCase()
+    if (!name || current.has(name)) return
+    updateTags.mutate({ id: businessId, add: [name] }, { onSuccess: () => setDraft('') })
+  }
+
+  return (
+    <div className="space-y-2">
+      {tags.length === 0 && !canWrite ? (
+        <p className="text-sm text-muted-foreground">No tags.</p>
+      ) : (
+        <TagChips
+          tags={tags}
+          onRemove={
+            canWrite
+              ? (tag) => updateTags.mutate({ id: businessId, remove: [tag.name] })
+              : undefined
+          }
+          disabled={updateTags.isPending}
+        />
+      )}
+
+      {canWrite && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                handleAdd()
+              }
+            }}
+            placeholder="Add a tag..."
+            maxLength={50}
+            list={`lead-tag-options-${businessId}`}
+            className="h-8"
+          />
+          <datalist id={`lead-tag-options-${businessId}`}>
+            {suggestions.map((tag) => (
+              <option key={tag.id} value={tag.name} />
+            ))}
+          </datalist>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!draft.trim()}
+            isLoading={updateTags.isPending}
+          >
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
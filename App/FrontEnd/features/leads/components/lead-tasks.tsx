@@ -0,0 +1,78 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Skeleton } from '@/shared/components/ui/skeleton'
+import { useAuth } from '@/features/auth'
+import { useLeadTasks, useCreateLeadTask } from '../hooks/use-lead-activity'
+import { TaskList } from './task-list'
+
+interface LeadTasksProps {
+  businessId: number
+}
+
+export function LeadTasks({ businessId }: LeadTasksProps) {
+  const { user } = useAuth()
+  const { data, isLoading } = useLeadTasks(businessId)
+  const createTask = useCreateLeadTask()
+  const [title, setTitle] = useState('')
+  const [dueAt, setDueAt] = useState('')
+
+  const canWrite = user?.role === 'ADMIN' || user?.role === 'MEMBER'
+
+  const handleCreate = () => {
+    if (!title.trim() || !dueAt) return
+    createTask.mutate(
+      {
+        businessId,
+        title: title.trim(),
+        // datetime-local values are in the browser's time zone
+        due_at: new Date(dueAt).toISOString(),
+      },
+      {
+        onSuccess: () => {
+          setTitle('')
+          setDueAt('')
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {canWrite && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Follow up..."
+              maxLength={200}
+            />
+          </div>
+          <Input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            aria-label="Due date"
+            className="sm:w-[210px]"
+          />
+          <Button
+            onClick={handleCreate}
+            disabled={!title.trim() || !dueAt}
+            isLoading={createTask.isPending}
+          >
+            Add Task
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : (
+        <TaskList tasks={data?.data ?? []} emptyMessage="No follow-up tasks." />
+      )}
+    </div>
+  )
+}
@@ -39,14 +39,15 @@ export function DeleteLeadModal({
         <div>
           <DialogTitle>Delete Lead</DialogTitle>
           <DialogDescription>
-            This action cannot be undone.
+            An admin can restore it from the trash.
           </DialogDescription>
         </div>
       </div>
 
       <p className="text-sm text-muted-foreground mb-6">
-        Are you sure you want to delete <strong>{business.name}</strong>? All
-        associated contacts and enrichment data will also be permanently removed.
+        Are you sure you want to delete <strong>{business.name}</strong>? It
+        will be moved to the trash along with its contacts and enrichment data,
+        and permanently removed once the retention period ends.
       </p>
 
       <div className="flex justify-end gap-3">
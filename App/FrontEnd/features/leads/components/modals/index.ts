@@ -1,3 +1,4 @@
 export { CreateLeadModal } from './create-lead-modal'
 export { ViewLeadModal } from './view-lead-modal'
 export { DeleteLeadModal } from './delete-lead-modal'
+export { SaveSegmentModal } from './save-segment-modal'
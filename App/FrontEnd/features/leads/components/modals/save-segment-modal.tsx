@@ -0,0 +1,112 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Dialog, DialogTitle, DialogDescription } from '@/shared/components/ui/dialog'
+import { Input } from '@/shared/components/ui/input'
+import { Label } from '@/shared/components/ui/label'
+import { Button } from '@/shared/components/ui/button'
+import { useCreateSegment } from '../../hooks/use-lead-segments'
+import type { Segment, SegmentFilter } from '../../types'
+
+const saveSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Segment name is required').max(100),
+  description: z.string().max(500).optional(),
+})
+
+type SaveSegmentFormData = z.infer<typeof saveSegmentSchema>
+
+interface SaveSegmentModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  filter: SegmentFilter
+  onSaved?: (segment: Segment) => void
+}
+
+export function SaveSegmentModal({
+  open,
+  onOpenChange,
+  filter,
+  onSaved,
+}: SaveSegmentModalProps) {
+  const createSegment = useCreateSegment()
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<SaveSegmentFormData>({
+    resolver: zodResolver(saveSegmentSchema),
+    defaultValues: { name: '', description: '' },
+  })
+
+  const onSubmit = async (data: SaveSegmentFormData) => {
+    try {
+      const segment = await createSegment.mutateAsync({
+        name: data.name,
+        description: data.description || undefined,
+        filter,
+      })
+      reset()
+      onOpenChange(false)
+      onSaved?.(segment)
+    } catch (error) {
+      console.error('Failed to save segment:', error)
+    }
+  }
+
+  const handleClose = () => {
+    reset()
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogTitle>Save Segment</DialogTitle>
+      <DialogDescription>
+        Save the current filters so the whole team can reopen them from the sidebar.
+      </DialogDescription>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 mt-4">
+        <div className="space-y-2">
+          <Label htmlFor="segment-name">Name *</Label>
+          <Input
+            id="segment-name"
+            placeholder="e.g., Freehold contractors not yet contacted"
+            {...register('name')}
+            error={errors.name?.message}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="segment-description">Description</Label>
+          <Input
+            id="segment-description"
+            placeholder="What is this segment for?"
+            {...register('description')}
+          />
+        </div>
+
+        {createSegment.isError && (
+          <p className="text-sm text-destructive">{createSegment.error.message}</p>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            disabled={createSegment.isPending}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={createSegment.isPending}>
+            Save Segment
+          </Button>
+        </div>
+      </form>
+    </Dialog>
+  )
+}
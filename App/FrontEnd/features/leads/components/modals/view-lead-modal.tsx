@@ -1,12 +1,36 @@
 'use client'
 
-import { Building2, Phone, Globe, Mail, MapPin, Calendar, Users, Briefcase } from 'lucide-react'
+import {
+  Building2,
+  Phone,
+  Globe,
+  Mail,
+  MapPin,
+  Calendar,
+  Users,
+  Briefcase,
+  UserCheck,
+  Star,
+  DollarSign,
+  Clock,
+  Facebook,
+  Instagram,
+  Linkedin,
+} from 'lucide-react'
 import { Dialog, DialogTitle, DialogDescription } from '@/shared/components/ui/dialog'
 import { Badge } from '@/shared/components/ui/badge'
 import { Button } from '@/shared/components/ui/button'
+import { Select } from '@/shared/components/ui/select'
 import { Skeleton } from '@/shared/components/ui/skeleton'
-import { useLead } from '../../hooks/use-leads'
-import type { Business } from '@/shared/types'
+import { useAuth } from '@/features/auth'
+import { useLead, useMoveLeadStage, useAssignLead } from '../../hooks/use-leads'
+import { PIPELINE_STAGE_OPTIONS } from '../pipeline-stage-badge'
+import { ActivityTimeline } from '../activity-timeline'
+import { LeadTasks } from '../lead-tasks'
+import { LeadTags } from '../lead-tags'
+import { LeadContacts } from '../lead-contacts'
+import { FieldSource } from '../field-source'
+import type { Business, PipelineStage } from '@/shared/types'
 
 interface ViewLeadModalProps {
   open: boolean
@@ -22,9 +46,18 @@ export function ViewLeadModal({
   onEnrich,
 }: ViewLeadModalProps) {
   const { data: lead, isLoading } = useLead(businessId || '')
+  const { user } = useAuth()
+  const moveStage = useMoveLeadStage()
+  const assign = useAssignLead()
 
   if (!businessId) return null
 
+  // Mirrors the backend rules: admins manage any lead, members only their own
+  const isAdmin = user?.role === 'ADMIN'
+  const isOwner = !!user && lead?.assigned_to === user.id
+  const canMove = isAdmin || isOwner
+  const canClaim = user?.role === 'MEMBER' && !lead?.assigned_to
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogTitle className="flex items-center gap-3">
@@ -34,7 +67,10 @@ export function ViewLeadModal({
         {isLoading ? (
           <Skeleton className="h-6 w-40" />
         ) : (
-          <span>{lead?.name}</span>
+          <span className="flex items-baseline gap-2">
+            {lead?.name}
+            <FieldSource provenance={lead?.field_sources?.name} className="font-normal" />
+          </span>
         )}
       </DialogTitle>
       <DialogDescription>
@@ -55,6 +91,57 @@ export function ViewLeadModal({
             <Badge variant={lead.enrichment_status}>
               {lead.enrichment_status}
             </Badge>
+            {lead.permanently_closed && (
+              <Badge variant="destructive">Permanently closed</Badge>
+            )}
+          </div>
+
+          {/* Pipeline */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">Pipeline</h4>
+            <div className="flex items-center gap-3">
+              <Select
+                value={lead.pipeline_stage ?? 'prospect'}
+                onChange={(e) =>
+                  moveStage.mutate({ id: lead.id, stage: e.target.value as PipelineStage })
+                }
+                options={PIPELINE_STAGE_OPTIONS}
+                disabled={!canMove || moveStage.isPending}
+                className="w-[180px]"
+              />
+              <div className="flex items-center gap-2 text-sm">
+                <UserCheck className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span>
+                  {lead.assignee ? lead.assignee.name ?? lead.assignee.email : 'Unassigned'}
+                </span>
+              </div>
+              {canClaim && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => assign.mutate({ id: lead.id, user_id: user.id })}
+                  disabled={assign.isPending}
+                >
+                  Claim
+                </Button>
+              )}
+              {isOwner && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => assign.mutate({ id: lead.id, user_id: null })}
+                  disabled={assign.isPending}
+                >
+                  Release
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">Tags</h4>
+            <LeadTags businessId={lead.id} tags={(lead.tags ?? []).map((t) => t.tag)} />
           </div>
 
           {/* Contact Info */}
@@ -73,6 +160,7 @@ export function ViewLeadModal({
                   <a href={`tel:${lead.phone}`} className="hover:text-primary">
                     {lead.phone}
                   </a>
+                  <FieldSource provenance={lead.field_sources?.phone} />
                 </div>
               )}
               {lead.email && (
@@ -81,6 +169,7 @@ export function ViewLeadModal({
                   <a href={`mailto:${lead.email}`} className="hover:text-primary">
                     {lead.email}
                   </a>
+                  <FieldSource provenance={lead.field_sources?.email} />
                 </div>
               )}
               {lead.website && (
@@ -94,6 +183,41 @@ export function ViewLeadModal({
                   >
                     {lead.website}
                   </a>
+                  <FieldSource provenance={lead.field_sources?.website} />
+                </div>
+              )}
+              {lead.opening_hours && (
+                <div className="flex items-center gap-3 text-sm">
+                  <Clock className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <span>{lead.opening_hours}</span>
+                  <FieldSource provenance={lead.field_sources?.opening_hours} />
+                </div>
+              )}
+              {(lead.facebook_url || lead.instagram_url || lead.linkedin_url) && (
+                <div className="flex items-center gap-3 text-sm">
+                  {[
+                    { field: 'facebook_url', url: lead.facebook_url, icon: Facebook, label: 'Facebook' },
+                    { field: 'instagram_url', url: lead.instagram_url, icon: Instagram, label: 'Instagram' },
+                    { field: 'linkedin_url', url: lead.linkedin_url, icon: Linkedin, label: 'LinkedIn' },
+                  ]
+                    .filter((profile) => profile.url)
+                    .map(({ field, url, icon: Icon, label }) => (
+                      <a
+                        key={label}
+                        href={url!}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1.5 hover:text-primary"
+                        title={
+                          lead.field_sources?.[field]
+                            ? `Found via ${lead.field_sources[field].source}`
+                            : undefined
+                        }
+                      >
+                        <Icon className="h-4 w-4 text-muted-foreground" />
+                        {label}
+                      </a>
+                    ))}
                 </div>
               )}
             </div>
@@ -109,6 +233,7 @@ export function ViewLeadModal({
                   <div>
                     <p className="text-xs text-muted-foreground">Industry</p>
                     <p className="text-sm">{lead.industry}</p>
+                    <FieldSource provenance={lead.field_sources?.industry} />
                   </div>
                 </div>
               )}
@@ -118,6 +243,7 @@ export function ViewLeadModal({
                   <div>
                     <p className="text-xs text-muted-foreground">Employees</p>
                     <p className="text-sm">{lead.employee_count}</p>
+                    <FieldSource provenance={lead.field_sources?.employee_count} />
                   </div>
                 </div>
               )}
@@ -127,36 +253,80 @@ export function ViewLeadModal({
                   <div>
                     <p className="text-xs text-muted-foreground">Founded</p>
                     <p className="text-sm">{lead.year_founded}</p>
+                    <FieldSource provenance={lead.field_sources?.year_founded} />
                   </div>
                 </div>
               )}
-            </div>
-          </div>
-
-          {/* Contacts */}
-          {lead.contacts && lead.contacts.length > 0 && (
-            <div className="space-y-3">
-              <h4 className="text-sm font-medium text-foreground">
-                Contacts ({lead.contacts.length})
-              </h4>
-              <div className="space-y-2">
-                {lead.contacts.map((contact) => (
-                  <div
-                    key={contact.id}
-                    className="p-3 bg-muted/50 rounded-lg text-sm"
-                  >
-                    <p className="font-medium">
-                      {contact.name ?? 'Unknown'}
+              {lead.rating != null && (
+                <div className="flex items-center gap-2">
+                  <Star className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Google Rating</p>
+                    <p className="text-sm">
+                      {lead.rating.toFixed(1)}
+                      {lead.review_count != null && (
+                        <span className="text-muted-foreground">
+                          {' '}({lead.review_count} reviews)
+                        </span>
+                      )}
                     </p>
-                    {contact.title && (
-                      <p className="text-muted-foreground">{contact.title}</p>
-                    )}
-                    <p className="text-primary">{contact.email}</p>
                   </div>
+                </div>
+              )}
+              {lead.price_level && (
+                <div className="flex items-center gap-2">
+                  <DollarSign className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Price Level</p>
+                    <p className="text-sm">{lead.price_level}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+            {!!lead.additional_categories?.length && (
+              <div className="flex flex-wrap gap-1.5">
+                {lead.additional_categories.map((category) => (
+                  <span
+                    key={category}
+                    className="text-xs rounded-full bg-muted px-2 py-0.5 text-muted-foreground"
+                  >
+                    {category}
+                  </span>
                 ))}
               </div>
-            </div>
-          )}
+            )}
+            {lead.google_maps_url && (
+              <a
+                href={lead.google_maps_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
+              >
+                <MapPin className="h-3.5 w-3.5" />
+                View on Google Maps
+              </a>
+            )}
+          </div>
+
+          {/* Contacts */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">
+              Contacts{lead.contacts?.length ? ` (${lead.contacts.length})` : ''}
+            </h4>
+            <LeadContacts businessId={Number(lead.id)} />
+          </div>
+
+          {/* Follow-up tasks */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">Tasks</h4>
+            <LeadTasks businessId={Number(lead.id)} />
+          </div>
+
+          {/* Notes and activity */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">Activity</h4>
+            <ActivityTimeline businessId={Number(lead.id)} />
+          </div>
 
           {/* Actions */}
           <div className="flex justify-end gap-3 pt-4 border-t border-border">
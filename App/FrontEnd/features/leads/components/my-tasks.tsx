@@ -0,0 +1,63 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent } from '@/shared/components/ui/card'
+import { Button } from '@/shared/components/ui/button'
+import { Skeleton } from '@/shared/components/ui/skeleton'
+import { useMyTasks } from '../hooks/use-lead-activity'
+import { TaskList } from './task-list'
+import { ViewLeadModal } from './modals'
+import type { TaskStatus } from '../types'
+
+export function MyTasks() {
+  const [status, setStatus] = useState<TaskStatus>('open')
+  const [viewingId, setViewingId] = useState<string | null>(null)
+  const { data, isLoading } = useMyTasks(status)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button
+          variant={status === 'open' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setStatus('open')}
+        >
+          Open
+        </Button>
+        <Button
+          variant={status === 'completed' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setStatus('completed')}
+        >
+          Completed
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <TaskList
+              tasks={data?.data ?? []}
+              showBusiness
+              onBusinessClick={(id) => setViewingId(String(id))}
+              emptyMessage={
+                status === 'open' ? 'Nothing due. Nice work.' : 'No completed tasks yet.'
+              }
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <ViewLeadModal
+        open={viewingId !== null}
+        onOpenChange={(open) => !open && setViewingId(null)}
+        businessId={viewingId}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { Badge } from '@/shared/components/ui/badge'
+import type { PipelineStage } from '@/shared/types'
+
+export const PIPELINE_STAGE_OPTIONS: Array<{ value: PipelineStage; label: string }> = [
+  { value: 'prospect', label: 'Prospect' },
+  { value: 'contacted', label: 'Contacted' },
+  { value: 'visited_meeting', label: 'Visited Meeting' },
+  { value: 'applied', label: 'Applied' },
+  { value: 'member', label: 'Member' },
+  { value: 'lost', label: 'Lost' },
+]
+
+const STAGE_VARIANTS: Record<PipelineStage, 'secondary' | 'info' | 'warning' | 'success' | 'failed'> = {
+  prospect: 'secondary',
+  contacted: 'info',
+  visited_meeting: 'info',
+  applied: 'warning',
+  member: 'success',
+  lost: 'failed',
+}
+
+interface PipelineStageBadgeProps {
+  stage: PipelineStage
+  className?: string
+}
+
+export function PipelineStageBadge({ stage, className }: PipelineStageBadgeProps) {
+  const label = PIPELINE_STAGE_OPTIONS.find((o) => o.value === stage)?.label ?? stage
+
+  return (
+    <Badge variant={STAGE_VARIANTS[stage]} className={className}>
+      {label}
+    </Badge>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import Link from 'next/link'
+import { Layers } from 'lucide-react'
+import { useSegments } from '../hooks/use-lead-segments'
+
+// Saved segments listed under the main navigation
+export function SidebarSegments() {
+  const { data: segments = [] } = useSegments()
+
+  if (segments.length === 0) return null
+
+  return (
+    <div className="px-4">
+      <p className="px-4 pb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground/70">
+        Segments
+      </p>
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {segments.map((segment) => (
+          <li key={segment.id}>
+            <Link
+              href={`/leads?segment=${segment.id}`}
+              className="flex items-center gap-3 px-4 py-2 rounded-xl text-sm text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+            >
+              <Layers className="h-4 w-4 flex-shrink-0" />
+              <span className="flex-1 truncate">{segment.name}</span>
+              <span className="text-xs tabular-nums">{segment.business_count}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
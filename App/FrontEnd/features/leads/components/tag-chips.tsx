@@ -0,0 +1,45 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { Badge } from '@/shared/components/ui/badge'
+import type { BusinessTag } from '@/shared/types'
+
+interface TagChipsProps {
+  tags: BusinessTag[]
+  // Shows a remove button on each chip
+  onRemove?: (tag: BusinessTag) => void
+  disabled?: boolean
+}
+
+export function TagChips({ tags, onRemove, disabled }: TagChipsProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge
+          key={tag.id}
+          variant="outline"
+          className="gap-1 font-medium"
+          style={tag.color ? { borderColor: tag.color, color: tag.color } : undefined}
+        >
+          {tag.name}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onRemove(tag)
+              }}
+              disabled={disabled}
+              className="rounded-full hover:bg-muted"
+              aria-label={`Remove tag ${tag.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+    </div>
+  )
+}
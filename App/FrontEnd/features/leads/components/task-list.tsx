@@ -0,0 +1,98 @@
+'use client'
+
+import { format, isPast } from 'date-fns'
+import { Circle, CheckCircle2, Trash2 } from 'lucide-react'
+import { cn } from '@/shared/lib/utils'
+import { useAuth } from '@/features/auth'
+import { useUpdateTask, useDeleteTask } from '../hooks/use-lead-activity'
+import type { BusinessTask } from '@/shared/types'
+
+interface TaskListProps {
+  tasks: BusinessTask[]
+  // Show the business name on each task (cross-business lists)
+  showBusiness?: boolean
+  onBusinessClick?: (businessId: number) => void
+  emptyMessage?: string
+}
+
+export function TaskList({
+  tasks,
+  showBusiness = false,
+  onBusinessClick,
+  emptyMessage = 'No tasks.',
+}: TaskListProps) {
+  const { user } = useAuth()
+  const updateTask = useUpdateTask()
+  const deleteTask = useDeleteTask()
+
+  if (tasks.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {tasks.map((task) => {
+        const done = !!task.completed_at
+        const overdue = !done && isPast(new Date(task.due_at))
+        // Mirrors the backend rule: assignee, creator or admin
+        const canChange =
+          user?.role === 'ADMIN' ||
+          (!!user && (task.assigned_to === user.id || task.created_by === user.id))
+
+        return (
+          <li
+            key={task.id}
+            className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg text-sm"
+          >
+            <button
+              onClick={() => updateTask.mutate({ id: task.id, completed: !done })}
+              disabled={!canChange || updateTask.isPending}
+              className="mt-0.5 text-muted-foreground hover:text-primary disabled:opacity-50"
+              aria-label={done ? 'Reopen task' : 'Complete task'}
+            >
+              {done ? (
+                <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+              ) : (
+                <Circle className="h-4 w-4" />
+              )}
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className={cn('font-medium', done && 'line-through text-muted-foreground')}>
+                {task.title}
+              </p>
+              {task.description && (
+                <p className="text-muted-foreground whitespace-pre-wrap">{task.description}</p>
+              )}
+              <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground mt-1">
+                <span className={cn(overdue && 'text-red-400')}>
+                  Due {format(new Date(task.due_at), 'MMM d, yyyy h:mm a')}
+                </span>
+                {showBusiness && (
+                  <button
+                    onClick={() => onBusinessClick?.(task.business.id)}
+                    className="hover:text-primary"
+                  >
+                    {task.business.name}
+                  </button>
+                )}
+                {!showBusiness && (
+                  <span>{task.assignee.name ?? task.assignee.email}</span>
+                )}
+              </div>
+            </div>
+            {canChange && (
+              <button
+                onClick={() => deleteTask.mutate(task.id)}
+                disabled={deleteTask.isPending}
+                className="p-1 rounded hover:bg-muted text-muted-foreground"
+                aria-label="Delete task"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
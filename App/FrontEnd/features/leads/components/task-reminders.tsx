@@ -0,0 +1,44 @@
+'use client'
+
+import Link from 'next/link'
+import { Bell, X } from 'lucide-react'
+import { useTaskReminders } from '../hooks/use-lead-activity'
+
+// Stack of due-task reminders pushed over the socket, shown on every page
+export function TaskReminders() {
+  const { reminders, dismiss } = useTaskReminders()
+
+  if (reminders.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2">
+      {reminders.map((reminder) => (
+        <div
+          key={reminder.taskId}
+          className="flex items-start gap-3 p-3 rounded-lg border border-amber-500/30 bg-background shadow-lg text-sm"
+          role="alert"
+        >
+          <Bell className="h-4 w-4 mt-0.5 text-amber-400 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">{reminder.title}</p>
+            <p className="text-muted-foreground truncate">{reminder.business.name}</p>
+            <Link
+              href="/tasks"
+              onClick={() => dismiss(reminder.taskId)}
+              className="text-xs text-primary hover:underline"
+            >
+              View my tasks
+            </Link>
+          </div>
+          <button
+            onClick={() => dismiss(reminder.taskId)}
+            className="p-1 rounded hover:bg-muted"
+            aria-label="Dismiss reminder"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
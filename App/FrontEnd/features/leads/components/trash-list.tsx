@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { RotateCcw } from 'lucide-react'
+import { Card, CardContent } from '@/shared/components/ui/card'
+import { Button } from '@/shared/components/ui/button'
+import { Skeleton } from '@/shared/components/ui/skeleton'
+import { useTrash, useRestoreLead } from '../hooks/use-leads'
+
+interface TrashListProps {
+  pageSize?: number
+}
+
+export function TrashList({ pageSize = 20 }: TrashListProps) {
+  const [page, setPage] = useState(1)
+  const { data, isLoading } = useTrash(page, pageSize)
+  const restoreLead = useRestoreLead()
+
+  const leads = data?.data ?? []
+  const totalPages = data?.meta.totalPages ?? 1
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">Trash</h2>
+        <p className="text-sm text-muted-foreground">
+          {data
+            ? `Deleted leads are kept for ${data.meta.retentionDays} days before they are permanently removed.`
+            : 'Deleted leads'}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : leads.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            <ul className="space-y-2">
+              {leads.map((lead) => (
+                <li
+                  key={lead.id}
+                  className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg text-sm"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{lead.name}</p>
+                    <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground mt-1">
+                      <span>
+                        Deleted {formatDistanceToNow(new Date(lead.deleted_at), { addSuffix: true })}
+                        {lead.deleter && ` by ${lead.deleter.name ?? lead.deleter.email}`}
+                      </span>
+                      <span>Purged after {format(new Date(lead.purge_at), 'MMM d, yyyy')}</span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreLead.mutate(lead.id)}
+                    disabled={restoreLead.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1.5" />
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
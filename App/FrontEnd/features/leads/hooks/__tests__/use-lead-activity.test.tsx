@@ -0,0 +1,258 @@
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import React from 'react'
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import type { TaskReminder } from '@/shared/types'
+import {
+  useLeadActivity,
+  useAddLeadNote,
+  useMyTasks,
+  useUpdateTask,
+  useTaskReminders,
+  activityKeys,
+  taskKeys,
+} from '../use-lead-activity'
+
+// Mock the leads API module
+vi.mock('../../api/leads-api', () => ({
+  fetchLeadActivity: vi.fn(),
+  addLeadNote: vi.fn(),
+  updateLeadNote: vi.fn(),
+  deleteLeadNote: vi.fn(),
+  fetchLeadTasks: vi.fn(),
+  createLeadTask: vi.fn(),
+  fetchMyTasks: vi.fn(),
+  updateTask: vi.fn(),
+  deleteTask: vi.fn(),
+}))
+
+// Capture socket subscriptions so tests can push events
+const socketHandlers = new Map<string, (data: unknown) => void>()
+vi.mock('@/shared/lib/socket', () => ({
+  connectSocket: vi.fn(),
+  onSocketEvent: vi.fn((event: string, callback: (data: unknown) => void) => {
+    socketHandlers.set(event, callback)
+    return () => socketHandlers.delete(event)
+  }),
+}))
+
+import { fetchLeadActivity, addLeadNote, fetchMyTasks, updateTask } from '../../api/leads-api'
+
+// --- Mock Data ---
+
+const mockNote = {
+  id: 7,
+  business_id: 1,
+  type: 'note' as const,
+  body: 'Call after 3pm',
+  metadata: null,
+  created_by: 'user-1',
+  author: { id: 'user-1', name: 'Jane', email: 'jane@test.com' },
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+}
+
+const mockTask = {
+  id: 5,
+  business_id: 1,
+  title: 'Call back',
+  description: null,
+  due_at: '2026-11-02T15:00:00Z',
+  assigned_to: 'user-1',
+  created_by: 'user-1',
+  completed_at: null,
+  reminded_at: null,
+  business: { id: 1, name: 'Test Business' },
+  assignee: { id: 'user-1', name: 'Jane', email: 'jane@test.com' },
+  creator: { id: 'user-1', name: 'Jane', email: 'jane@test.com' },
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+}
+
+const page = <T,>(data: T[]) => ({
+  data,
+  meta: { total: data.length, page: 1, limit: 50, totalPages: 1 },
+})
+
+function createClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+}
+
+function wrapperFor(queryClient: QueryClient) {
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  socketHandlers.clear()
+})
+
+// --- Key Factories ---
+
+describe('activityKeys / taskKeys', () => {
+  it('generates correct query keys', () => {
+    expect(activityKeys.business(1)).toEqual(['lead-activity', 1])
+    expect(activityKeys.list(1, { type: 'note' })).toEqual([
+      'lead-activity', 1, { filters: { type: 'note' } },
+    ])
+    expect(taskKeys.business(1)).toEqual(['tasks', 'business', 1])
+    expect(taskKeys.mine('open')).toEqual(['tasks', 'mine', 'open'])
+  })
+})
+
+// --- Query Hooks ---
+
+describe('useLeadActivity', () => {
+  it('fetches the timeline of a business', async () => {
+    vi.mocked(fetchLeadActivity).mockResolvedValue(page([mockNote]))
+
+    const { result } = renderHook(() => useLeadActivity(1), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(fetchLeadActivity).toHaveBeenCalledWith(1, undefined)
+    expect(result.current.data?.data).toEqual([mockNote])
+  })
+
+  it('does not fetch without a business', () => {
+    renderHook(() => useLeadActivity(null), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    expect(fetchLeadActivity).not.toHaveBeenCalled()
+  })
+
+  it('refetches when an entry is recorded for the same business', async () => {
+    vi.mocked(fetchLeadActivity).mockResolvedValue(page([mockNote]))
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useLeadActivity(1), {
+      wrapper: wrapperFor(queryClient),
+    })
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    act(() => {
+      socketHandlers.get('business:activity')?.({ ...mockNote, business_id: 2 })
+    })
+    expect(invalidateSpy).not.toHaveBeenCalled()
+
+    act(() => {
+      socketHandlers.get('business:activity')?.(mockNote)
+    })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: activityKeys.business(1) })
+  })
+})
+
+describe('useMyTasks', () => {
+  it('fetches open tasks by default', async () => {
+    vi.mocked(fetchMyTasks).mockResolvedValue(page([mockTask]))
+
+    const { result } = renderHook(() => useMyTasks(), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(fetchMyTasks).toHaveBeenCalledWith('open')
+  })
+})
+
+// --- Mutation Hooks ---
+
+describe('useAddLeadNote', () => {
+  it('adds a note and invalidates the timeline', async () => {
+    vi.mocked(addLeadNote).mockResolvedValue(mockNote)
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useAddLeadNote(), {
+      wrapper: wrapperFor(queryClient),
+    })
+
+    act(() => {
+      result.current.mutate({ businessId: 1, body: 'Call after 3pm' })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(addLeadNote).toHaveBeenCalledWith({ businessId: 1, body: 'Call after 3pm' })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: activityKeys.business(1) })
+  })
+})
+
+describe('useUpdateTask', () => {
+  it('updates a task and invalidates tasks and the timeline', async () => {
+    vi.mocked(updateTask).mockResolvedValue({
+      ...mockTask,
+      completed_at: '2026-11-02T16:00:00Z',
+    })
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useUpdateTask(), {
+      wrapper: wrapperFor(queryClient),
+    })
+
+    act(() => {
+      result.current.mutate({ id: 5, completed: true })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(updateTask).toHaveBeenCalledWith({ id: 5, completed: true })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: taskKeys.all })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: activityKeys.business(1) })
+  })
+})
+
+// --- Socket Hooks ---
+
+describe('useTaskReminders', () => {
+  const reminder: TaskReminder = {
+    taskId: 5,
+    title: 'Call back',
+    dueAt: '2026-11-02T15:00:00Z',
+    business: { id: 1, name: 'Test Business' },
+    timestamp: '2026-11-02T15:00:01Z',
+  }
+
+  it('collects reminders once per task and dismisses them', () => {
+    const { result } = renderHook(() => useTaskReminders(), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    act(() => {
+      socketHandlers.get('task:reminder')?.(reminder)
+      socketHandlers.get('task:reminder')?.(reminder)
+    })
+    expect(result.current.reminders).toEqual([reminder])
+
+    act(() => {
+      result.current.dismiss(5)
+    })
+    expect(result.current.reminders).toEqual([])
+  })
+
+  it('refreshes task lists when a task is assigned', () => {
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    renderHook(() => useTaskReminders(), { wrapper: wrapperFor(queryClient) })
+
+    act(() => {
+      socketHandlers.get('task:assigned')?.(mockTask)
+    })
+
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: taskKeys.all })
+  })
+})
@@ -0,0 +1,174 @@
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import React from 'react'
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import {
+  useLeadContacts,
+  useCreateLeadContact,
+  useUpdateLeadContact,
+  useDeleteLeadContact,
+  contactKeys,
+} from '../use-lead-contacts'
+import { leadKeys } from '../use-leads'
+
+// Mock the leads API module
+vi.mock('../../api/leads-api', () => ({
+  fetchLeadContacts: vi.fn(),
+  createLeadContact: vi.fn(),
+  updateLeadContact: vi.fn(),
+  deleteLeadContact: vi.fn(),
+}))
+
+import {
+  fetchLeadContacts,
+  createLeadContact,
+  updateLeadContact,
+  deleteLeadContact,
+} from '../../api/leads-api'
+
+// --- Mock Data ---
+
+const mockContact = {
+  id: '5',
+  business_id: '1',
+  name: 'Maria Lopez',
+  title: 'Owner',
+  email: 'maria@test.com',
+  email_verified: false,
+  phone: null,
+  linkedin_url: null,
+  is_primary: true,
+  created_at: '2026-10-01T00:00:00Z',
+}
+
+function createClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+}
+
+function wrapperFor(queryClient: QueryClient) {
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+}
+
+function expectContactsInvalidated(invalidateSpy: ReturnType<typeof vi.spyOn>) {
+  expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: contactKeys.business(1) })
+  expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.detail('1') })
+  expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.lists() })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// --- Key Factory ---
+
+describe('contactKeys', () => {
+  it('generates correct query keys', () => {
+    expect(contactKeys.all).toEqual(['lead-contacts'])
+    expect(contactKeys.business(1)).toEqual(['lead-contacts', 1])
+  })
+})
+
+// --- Query Hooks ---
+
+describe('useLeadContacts', () => {
+  it('fetches the contacts of a business', async () => {
+    vi.mocked(fetchLeadContacts).mockResolvedValue([mockContact])
+
+    const { result } = renderHook(() => useLeadContacts(1), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(fetchLeadContacts).toHaveBeenCalledWith(1)
+    expect(result.current.data).toEqual([mockContact])
+  })
+
+  it('does not fetch without a business', () => {
+    renderHook(() => useLeadContacts(null), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    expect(fetchLeadContacts).not.toHaveBeenCalled()
+  })
+})
+
+// --- Mutation Hooks ---
+
+describe('useCreateLeadContact', () => {
+  it('creates a contact and refreshes the lead', async () => {
+    vi.mocked(createLeadContact).mockResolvedValue(mockContact)
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useCreateLeadContact(), {
+      wrapper: wrapperFor(queryClient),
+    })
+
+    act(() => {
+      result.current.mutate({ businessId: 1, name: 'Maria Lopez', is_primary: true })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(createLeadContact).toHaveBeenCalledWith({
+      businessId: 1,
+      name: 'Maria Lopez',
+      is_primary: true,
+    })
+    expectContactsInvalidated(invalidateSpy)
+  })
+})
+
+describe('useUpdateLeadContact', () => {
+  it('marks a contact primary and refreshes the lead', async () => {
+    vi.mocked(updateLeadContact).mockResolvedValue(mockContact)
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useUpdateLeadContact(), {
+      wrapper: wrapperFor(queryClient),
+    })
+
+    act(() => {
+      result.current.mutate({ businessId: 1, contactId: '5', is_primary: true })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(updateLeadContact).toHaveBeenCalledWith({
+      businessId: 1,
+      contactId: '5',
+      is_primary: true,
+    })
+    expectContactsInvalidated(invalidateSpy)
+  })
+})
+
+describe('useDeleteLeadContact', () => {
+  it('deletes a contact and refreshes the lead', async () => {
+    vi.mocked(deleteLeadContact).mockResolvedValue(undefined)
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useDeleteLeadContact(), {
+      wrapper: wrapperFor(queryClient),
+    })
+
+    act(() => {
+      result.current.mutate({ businessId: 1, contactId: '5' })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(deleteLeadContact).toHaveBeenCalledWith(1, '5')
+    expectContactsInvalidated(invalidateSpy)
+  })
+})
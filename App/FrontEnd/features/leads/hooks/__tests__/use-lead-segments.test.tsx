@@ -0,0 +1,198 @@
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import React from 'react'
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import {
+  useTags,
+  useUpdateLeadTags,
+  useSegment,
+  useCreateSegment,
+  useSegmentOutreach,
+  tagKeys,
+  segmentKeys,
+} from '../use-lead-segments'
+import { leadKeys } from '../use-leads'
+
+// Mock the leads API module
+vi.mock('../../api/leads-api', () => ({
+  fetchTags: vi.fn(),
+  createTag: vi.fn(),
+  updateLeadTags: vi.fn(),
+  fetchSegments: vi.fn(),
+  fetchSegment: vi.fn(),
+  createSegment: vi.fn(),
+  deleteSegment: vi.fn(),
+  queueSegmentOutreach: vi.fn(),
+}))
+
+import {
+  fetchTags,
+  updateLeadTags,
+  fetchSegment,
+  createSegment,
+  queueSegmentOutreach,
+} from '../../api/leads-api'
+
+// --- Mock Data ---
+
+const mockTag = {
+  id: 3,
+  name: 'hot',
+  color: '#ef4444',
+  business_count: 2,
+  created_at: '2026-10-01T00:00:00Z',
+}
+
+const mockSegment = {
+  id: 9,
+  name: 'Hot plumbers',
+  description: null,
+  filter: { industry: 'Plumbing', tag_ids: [3] },
+  created_by: 'user-1',
+  creator: { id: 'user-1', name: 'Jane', email: 'jane@test.com' },
+  business_count: 4,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+}
+
+function createClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+}
+
+function wrapperFor(queryClient: QueryClient) {
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// --- Key Factories ---
+
+describe('tagKeys / segmentKeys', () => {
+  it('generates correct query keys', () => {
+    expect(tagKeys.all).toEqual(['tags'])
+    expect(segmentKeys.detail(9)).toEqual(['segments', 9])
+  })
+})
+
+// --- Query Hooks ---
+
+describe('useTags', () => {
+  it('fetches all tags', async () => {
+    vi.mocked(fetchTags).mockResolvedValue([mockTag])
+
+    const { result } = renderHook(() => useTags(), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data).toEqual([mockTag])
+  })
+})
+
+describe('useSegment', () => {
+  it('fetches a segment by id', async () => {
+    vi.mocked(fetchSegment).mockResolvedValue(mockSegment)
+
+    const { result } = renderHook(() => useSegment(9), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(fetchSegment).toHaveBeenCalledWith(9)
+    expect(result.current.data?.filter).toEqual({ industry: 'Plumbing', tag_ids: [3] })
+  })
+
+  it('does not fetch without a segment', () => {
+    renderHook(() => useSegment(null), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    expect(fetchSegment).not.toHaveBeenCalled()
+  })
+})
+
+// --- Mutation Hooks ---
+
+describe('useUpdateLeadTags', () => {
+  it('updates tags and invalidates leads, tags and segments', async () => {
+    vi.mocked(updateLeadTags).mockResolvedValue({} as never)
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useUpdateLeadTags(), {
+      wrapper: wrapperFor(queryClient),
+    })
+
+    act(() => {
+      result.current.mutate({ id: '1', add: ['hot'] })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(updateLeadTags).toHaveBeenCalledWith({ id: '1', add: ['hot'] })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.lists() })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.detail('1') })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: tagKeys.all })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: segmentKeys.all })
+  })
+})
+
+describe('useCreateSegment', () => {
+  it('saves the filter and invalidates segments', async () => {
+    vi.mocked(createSegment).mockResolvedValue(mockSegment)
+    const queryClient = createClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useCreateSegment(), {
+      wrapper: wrapperFor(queryClient),
+    })
+
+    act(() => {
+      result.current.mutate({ name: 'Hot plumbers', filter: mockSegment.filter })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(createSegment).toHaveBeenCalledWith({
+      name: 'Hot plumbers',
+      filter: { industry: 'Plumbing', tag_ids: [3] },
+    })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: segmentKeys.all })
+  })
+})
+
+describe('useSegmentOutreach', () => {
+  it('queues outreach for a segment', async () => {
+    vi.mocked(queueSegmentOutreach).mockResolvedValue({
+      jobIds: ['1', '2'],
+      queueName: 'outreach',
+      totalBusinesses: 2,
+      status: 'queued',
+      message: 'Queued 2 outreach jobs',
+    })
+
+    const { result } = renderHook(() => useSegmentOutreach(), {
+      wrapper: wrapperFor(createClient()),
+    })
+
+    act(() => {
+      result.current.mutate({ segmentId: 9 })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(queueSegmentOutreach).toHaveBeenCalledWith({ segmentId: 9 })
+    expect(result.current.data?.totalBusinesses).toBe(2)
+  })
+})
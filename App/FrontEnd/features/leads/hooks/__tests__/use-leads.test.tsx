@@ -9,6 +9,8 @@ import {
   useCreateLead,
   useUpdateLead,
   useDeleteLead,
+  useTrash,
+  useRestoreLead,
   useBulkDeleteLeads,
   useBulkEnrichLeads,
   leadKeys,
@@ -21,6 +23,8 @@ vi.mock('../../api/leads-api', () => ({
   createLead: vi.fn(),
   updateLead: vi.fn(),
   deleteLead: vi.fn(),
+  fetchTrash: vi.fn(),
+  restoreLead: vi.fn(),
   bulkDeleteLeads: vi.fn(),
   bulkEnrichLeads: vi.fn(),
   fetchIndustries: vi.fn(),
@@ -32,6 +36,8 @@ import {
   createLead,
   updateLead,
   deleteLead,
+  fetchTrash,
+  restoreLead,
   bulkDeleteLeads,
   bulkEnrichLeads,
   fetchIndustries,
@@ -108,6 +114,7 @@ describe('leadKeys', () => {
     expect(leadKeys.details()).toEqual(['leads', 'detail'])
     expect(leadKeys.detail('123')).toEqual(['leads', 'detail', '123'])
     expect(leadKeys.industries()).toEqual(['leads', 'industries'])
+    expect(leadKeys.trashPage(1, 20)).toEqual(['leads', 'trash', { page: 1, pageSize: 20 }])
   })
 })
 
@@ -297,12 +304,75 @@ describe('useDeleteLead', () => {
 
     expect(deleteLead).toHaveBeenCalledWith('1')
     expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.lists() })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.trash() })
+  })
+})
+
+describe('useTrash', () => {
+  it('fetches a page of trashed leads', async () => {
+    const trashPage = {
+      data: [
+        {
+          ...mockBusiness,
+          deleted_at: '2024-02-01T00:00:00Z',
+          deleted_by: null,
+          deleter: null,
+          purge_at: '2024-03-02T00:00:00Z',
+        },
+      ],
+      meta: { total: 1, page: 2, limit: 20, totalPages: 2, retentionDays: 30 },
+    }
+    vi.mocked(fetchTrash).mockResolvedValue(trashPage)
+
+    const { result } = renderHook(() => useTrash(2), { wrapper: createWrapper() })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(fetchTrash).toHaveBeenCalledWith(2, 20)
+    expect(result.current.data).toEqual(trashPage)
+  })
+})
+
+describe('useRestoreLead', () => {
+  it('restores a lead and invalidates trash and list queries', async () => {
+    vi.mocked(restoreLead).mockResolvedValue(mockBusiness)
+
+    const queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    })
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+
+    const { result } = renderHook(() => useRestoreLead(), { wrapper })
+
+    act(() => {
+      result.current.mutate('1')
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(restoreLead).toHaveBeenCalledWith('1')
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.trash() })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: leadKeys.lists() })
   })
 })
 
 describe('useBulkDeleteLeads', () => {
   it('bulk deletes leads and invalidates list queries', async () => {
-    const mockResult = { success: 3, failed: 0 }
+    const mockResult = {
+      action: 'delete' as const,
+      total: 3,
+      success: 3,
+      failed: 0,
+      failures: [],
+      queued: false,
+    }
     vi.mocked(bulkDeleteLeads).mockResolvedValue(mockResult)
 
     const queryClient = new QueryClient({
@@ -333,7 +403,14 @@ describe('useBulkDeleteLeads', () => {
 
 describe('useBulkEnrichLeads', () => {
   it('bulk enriches leads and invalidates list queries', async () => {
-    const mockResult = { success: 2, failed: 1, errors: ['ID 3 not found'] }
+    const mockResult = {
+      action: 'enrich' as const,
+      total: 3,
+      success: 2,
+      failed: 1,
+      failures: [{ id: 3, reason: 'Business not found' }],
+      queued: true,
+    }
     vi.mocked(bulkEnrichLeads).mockResolvedValue(mockResult)
 
     const queryClient = new QueryClient({
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { connectSocket, onSocketEvent } from '@/shared/lib/socket'
+import type { TaskReminder } from '@/shared/types'
+import {
+  fetchLeadActivity,
+  addLeadNote,
+  updateLeadNote,
+  deleteLeadNote,
+  fetchLeadTasks,
+  createLeadTask,
+  fetchMyTasks,
+  updateTask,
+  deleteTask,
+} from '../api/leads-api'
+import type {
+  ActivityFilters,
+  AddLeadNoteInput,
+  UpdateLeadNoteInput,
+  TaskStatus,
+  CreateLeadTaskInput,
+  UpdateTaskInput,
+} from '../types'
+
+export const activityKeys = {
+  all: ['lead-activity'] as const,
+  business: (businessId: number) => [...activityKeys.all, businessId] as const,
+  list: (businessId: number, filters?: ActivityFilters) =>
+    [...activityKeys.business(businessId), { filters }] as const,
+}
+
+export const taskKeys = {
+  all: ['tasks'] as const,
+  business: (businessId: number) => [...taskKeys.all, 'business', businessId] as const,
+  mine: (status: TaskStatus) => [...taskKeys.all, 'mine', status] as const,
+}
+
+// Timeline of a business; refreshes when the backend records a new entry
+export function useLeadActivity(businessId: number | null, filters?: ActivityFilters) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (businessId === null) return
+    connectSocket()
+
+    return onSocketEvent('business:activity', (activity) => {
+      if (activity.business_id === businessId) {
+        queryClient.invalidateQueries({ queryKey: activityKeys.business(businessId) })
+      }
+    })
+  }, [businessId, queryClient])
+
+  return useQuery({
+    queryKey: activityKeys.list(businessId ?? 0, filters),
+    queryFn: () => fetchLeadActivity(businessId!, filters),
+    enabled: businessId !== null,
+  })
+}
+
+export function useAddLeadNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: AddLeadNoteInput) => addLeadNote(input),
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({ queryKey: activityKeys.business(input.businessId) })
+    },
+  })
+}
+
+export function useUpdateLeadNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: UpdateLeadNoteInput) => updateLeadNote(input),
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({ queryKey: activityKeys.business(input.businessId) })
+    },
+  })
+}
+
+export function useDeleteLeadNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ businessId, noteId }: { businessId: number; noteId: number }) =>
+      deleteLeadNote(businessId, noteId),
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({ queryKey: activityKeys.business(input.businessId) })
+    },
+  })
+}
+
+export function useLeadTasks(businessId: number | null) {
+  return useQuery({
+    queryKey: taskKeys.business(businessId ?? 0),
+    queryFn: () => fetchLeadTasks(businessId!),
+    enabled: businessId !== null,
+  })
+}
+
+export function useMyTasks(status: TaskStatus = 'open') {
+  return useQuery({
+    queryKey: taskKeys.mine(status),
+    queryFn: () => fetchMyTasks(status),
+  })
+}
+
+export function useCreateLeadTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateLeadTaskInput) => createLeadTask(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all })
+    },
+  })
+}
+
+export function useUpdateTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: UpdateTaskInput) => updateTask(input),
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all })
+      // Completing a task adds a timeline entry
+      queryClient.invalidateQueries({ queryKey: activityKeys.business(task.business_id) })
+    },
+  })
+}
+
+export function useDeleteTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => deleteTask(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all })
+    },
+  })
+}
+
+// Reminders pushed to the current user while the app is open. Assigned and
+// due tasks also refresh the task lists.
+export function useTaskReminders() {
+  const queryClient = useQueryClient()
+  const [reminders, setReminders] = useState<TaskReminder[]>([])
+
+  useEffect(() => {
+    connectSocket()
+
+    const offReminder = onSocketEvent('task:reminder', (reminder) => {
+      setReminders((current) => [
+        ...current.filter((r) => r.taskId !== reminder.taskId),
+        reminder,
+      ])
+      queryClient.invalidateQueries({ queryKey: taskKeys.all })
+    })
+    const offAssigned = onSocketEvent('task:assigned', () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all })
+    })
+
+    return () => {
+      offReminder()
+      offAssigned()
+    }
+  }, [queryClient])
+
+  const dismiss = (taskId: number) =>
+    setReminders((current) => current.filter((r) => r.taskId !== taskId))
+
+  return { reminders, dismiss }
+}
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import {
+  fetchLeadContacts,
+  createLeadContact,
+  updateLeadContact,
+  deleteLeadContact,
+} from '../api/leads-api'
+import { leadKeys } from './use-leads'
+import type { CreateLeadContactInput, UpdateLeadContactInput } from '../types'
+
+export const contactKeys = {
+  all: ['lead-contacts'] as const,
+  business: (businessId: number) => [...contactKeys.all, businessId] as const,
+}
+
+// Contacts are embedded in the lead detail and counted in the lists
+function invalidateContacts(queryClient: QueryClient, businessId: number) {
+  queryClient.invalidateQueries({ queryKey: contactKeys.business(businessId) })
+  queryClient.invalidateQueries({ queryKey: leadKeys.detail(String(businessId)) })
+  queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
+}
+
+// Contacts of a business, primary first
+export function useLeadContacts(businessId: number | null) {
+  return useQuery({
+    queryKey: contactKeys.business(businessId ?? 0),
+    queryFn: () => fetchLeadContacts(businessId!),
+    enabled: businessId !== null,
+  })
+}
+
+export function useCreateLeadContact() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateLeadContactInput) => createLeadContact(input),
+    onSuccess: (_data, input) => invalidateContacts(queryClient, input.businessId),
+  })
+}
+
+export function useUpdateLeadContact() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: UpdateLeadContactInput) => updateLeadContact(input),
+    onSuccess: (_data, input) => invalidateContacts(queryClient, input.businessId),
+  })
+}
+
+export function useDeleteLeadContact() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ businessId, contactId }: { businessId: number; contactId: string }) =>
+      deleteLeadContact(businessId, contactId),
+    onSuccess: (_data, input) => invalidateContacts(queryClient, input.businessId),
+  })
+}
@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  fetchTags,
+  createTag,
+  updateLeadTags,
+  fetchSegments,
+  fetchSegment,
+  createSegment,
+  deleteSegment,
+  queueSegmentOutreach,
+} from '../api/leads-api'
+import { leadKeys } from './use-leads'
+import type {
+  CreateTagInput,
+  UpdateLeadTagsInput,
+  CreateSegmentInput,
+  SegmentOutreachInput,
+} from '../types'
+
+export const tagKeys = {
+  all: ['tags'] as const,
+}
+
+export const segmentKeys = {
+  all: ['segments'] as const,
+  detail: (id: number) => [...segmentKeys.all, id] as const,
+}
+
+export function useTags() {
+  return useQuery({
+    queryKey: tagKeys.all,
+    queryFn: fetchTags,
+    staleTime: 1000 * 60, // 1 minute
+  })
+}
+
+export function useCreateTag() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateTagInput) => createTag(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all })
+    },
+  })
+}
+
+export function useUpdateLeadTags() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: UpdateLeadTagsInput) => updateLeadTags(input),
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: leadKeys.detail(input.id) })
+      // New tags and usage counts
+      queryClient.invalidateQueries({ queryKey: tagKeys.all })
+      queryClient.invalidateQueries({ queryKey: segmentKeys.all })
+    },
+  })
+}
+
+export function useSegments() {
+  return useQuery({
+    queryKey: segmentKeys.all,
+    queryFn: fetchSegments,
+  })
+}
+
+export function useSegment(id: number | null) {
+  return useQuery({
+    queryKey: segmentKeys.detail(id ?? 0),
+    queryFn: () => fetchSegment(id!),
+    enabled: id !== null,
+  })
+}
+
+export function useCreateSegment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateSegmentInput) => createSegment(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: segmentKeys.all })
+    },
+  })
+}
+
+export function useDeleteSegment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => deleteSegment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: segmentKeys.all })
+    },
+  })
+}
+
+// Queues one outreach message job per business currently in the segment
+export function useSegmentOutreach() {
+  return useMutation({
+    mutationFn: (input: SegmentOutreachInput) => queueSegmentOutreach(input),
+  })
+}
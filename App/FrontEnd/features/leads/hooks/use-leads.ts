@@ -1,24 +1,43 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import {
   fetchLeads,
+  fetchLeadsPage,
   fetchLead,
   createLead,
   updateLead,
+  moveLeadStage,
+  assignLead,
   deleteLead,
+  fetchTrash,
+  restoreLead,
   bulkDeleteLeads,
   bulkEnrichLeads,
+  bulkTagLeads,
   fetchIndustries,
 } from '../api/leads-api'
-import type { LeadFilters, CreateLeadInput, UpdateLeadInput } from '../types'
+import type {
+  LeadFilters,
+  LeadPageParam,
+  CreateLeadInput,
+  UpdateLeadInput,
+  MoveLeadStageInput,
+  AssignLeadInput,
+  BulkTagInput,
+} from '../types'
 
 export const leadKeys = {
   all: ['leads'] as const,
   lists: () => [...leadKeys.all, 'list'] as const,
   list: (page: number, pageSize: number, filters?: LeadFilters) =>
     [...leadKeys.lists(), { page, pageSize, filters }] as const,
+  infinite: (pageSize: number, filters?: LeadFilters) =>
+    [...leadKeys.lists(), 'infinite', { pageSize, filters }] as const,
   details: () => [...leadKeys.all, 'detail'] as const,
   detail: (id: string) => [...leadKeys.details(), id] as const,
   industries: () => [...leadKeys.all, 'industries'] as const,
+  trash: () => [...leadKeys.all, 'trash'] as const,
+  trashPage: (page: number, pageSize: number) =>
+    [...leadKeys.trash(), { page, pageSize }] as const,
 }
 
 export function useLeads(page = 1, pageSize = 10, filters?: LeadFilters) {
@@ -29,6 +48,23 @@ export function useLeads(page = 1, pageSize = 10, filters?: LeadFilters) {
   })
 }
 
+// Cursor-based list for infinite scrolling: pages never shift or repeat
+// while the scraper inserts new rows
+export function useInfiniteLeads(pageSize = 12, filters?: LeadFilters) {
+  return useInfiniteQuery({
+    queryKey: leadKeys.infinite(pageSize, filters),
+    queryFn: ({ pageParam }) => fetchLeadsPage(pageSize, filters, pageParam),
+    initialPageParam: {} as LeadPageParam,
+    getNextPageParam: (lastPage): LeadPageParam | undefined => {
+      const { nextCursor, page, totalPages } = lastPage.meta
+      if (nextCursor) return { cursor: nextCursor }
+      // Search results are ranked and paged by number instead of cursor
+      if (page && totalPages && page < totalPages) return { page: page + 1 }
+      return undefined
+    },
+  })
+}
+
 export function useLead(id: string) {
   return useQuery({
     queryKey: leadKeys.detail(id),
@@ -68,6 +104,31 @@ export function useUpdateLead() {
   })
 }
 
+export function useMoveLeadStage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: MoveLeadStageInput) => moveLeadStage(input),
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: leadKeys.detail(input.id) })
+    },
+  })
+}
+
+export function useAssignLead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: AssignLeadInput) => assignLead(input),
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: leadKeys.detail(input.id) })
+    },
+  })
+}
+
+// Deleting moves the lead to the trash
 export function useDeleteLead() {
   const queryClient = useQueryClient()
 
@@ -75,6 +136,27 @@ export function useDeleteLead() {
     mutationFn: (id: string) => deleteLead(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: leadKeys.trash() })
+    },
+  })
+}
+
+export function useTrash(page = 1, pageSize = 20) {
+  return useQuery({
+    queryKey: leadKeys.trashPage(page, pageSize),
+    queryFn: () => fetchTrash(page, pageSize),
+    placeholderData: (previousData) => previousData,
+  })
+}
+
+export function useRestoreLead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => restoreLead(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leadKeys.trash() })
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
     },
   })
 }
@@ -86,6 +168,7 @@ export function useBulkDeleteLeads() {
     mutationFn: (ids: string[]) => bulkDeleteLeads(ids),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: leadKeys.trash() })
     },
   })
 }
@@ -100,3 +183,14 @@ export function useBulkEnrichLeads() {
     },
   })
 }
+
+export function useBulkTagLeads() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: BulkTagInput) => bulkTagLeads(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leadKeys.lists() })
+    },
+  })
+}
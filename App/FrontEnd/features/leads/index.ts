@@ -1,24 +1,90 @@
 // Types
 export type {
   LeadFilters,
+  LeadSortField,
+  LeadPageParam,
   LeadWithContacts,
   CreateLeadInput,
   UpdateLeadInput,
+  MoveLeadStageInput,
+  AssignLeadInput,
   BulkActionResult,
+  BulkActionFailure,
+  BulkTagInput,
+  ActivityFilters,
+  AddLeadNoteInput,
+  UpdateLeadNoteInput,
+  LeadContactFields,
+  CreateLeadContactInput,
+  UpdateLeadContactInput,
+  TaskStatus,
+  CreateLeadTaskInput,
+  UpdateTaskInput,
+  PagedResult,
+  Tag,
+  CreateTagInput,
+  UpdateLeadTagsInput,
+  SegmentFilter,
+  Segment,
+  CreateSegmentInput,
+  OutreachChannel,
+  SegmentOutreachInput,
+  OutreachBatchResult,
+  TrashedLead,
+  TrashPage,
 } from './types'
 
 // Hooks
 export {
   useLeads,
+  useInfiniteLeads,
   useLead,
   useIndustries,
   useCreateLead,
   useUpdateLead,
+  useMoveLeadStage,
+  useAssignLead,
   useDeleteLead,
+  useTrash,
+  useRestoreLead,
   useBulkDeleteLeads,
   useBulkEnrichLeads,
+  useBulkTagLeads,
   leadKeys,
 } from './hooks/use-leads'
+export {
+  useLeadActivity,
+  useAddLeadNote,
+  useUpdateLeadNote,
+  useDeleteLeadNote,
+  useLeadTasks,
+  useMyTasks,
+  useCreateLeadTask,
+  useUpdateTask,
+  useDeleteTask,
+  useTaskReminders,
+  activityKeys,
+  taskKeys,
+} from './hooks/use-lead-activity'
+export {
+  useLeadContacts,
+  useCreateLeadContact,
+  useUpdateLeadContact,
+  useDeleteLeadContact,
+  contactKeys,
+} from './hooks/use-lead-contacts'
+export {
+  useTags,
+  useCreateTag,
+  useUpdateLeadTags,
+  useSegments,
+  useSegment,
+  useCreateSegment,
+  useDeleteSegment,
+  useSegmentOutreach,
+  tagKeys,
+  segmentKeys,
+} from './hooks/use-lead-segments'
 
 // Components
 export {
@@ -26,7 +92,19 @@ export {
   BusinessList,
   FilterBar,
   BulkActionsBar,
+  PipelineStageBadge,
+  ActivityTimeline,
+  LeadTasks,
+  TaskList,
+  MyTasks,
+  TaskReminders,
+  TagChips,
+  LeadTags,
+  LeadContacts,
+  SidebarSegments,
+  TrashList,
   CreateLeadModal,
   ViewLeadModal,
   DeleteLeadModal,
+  SaveSegmentModal,
 } from './components'
@@ -1,11 +1,36 @@
 // Lead feature specific types
-import type { Business, Contact } from '@/shared/types'
+import type {
+  ActivityType,
+  Business,
+  BusinessAssignee,
+  BusinessTag,
+  Contact,
+  PipelineStage,
+} from '@/shared/types'
+
+export type LeadSortField =
+  | 'name'
+  | 'city'
+  | 'industry'
+  | 'created_at'
+  | 'updated_at'
+  | 'contact_count'
+  | 'last_outreach_at'
 
 export interface LeadFilters {
   search?: string
   enrichment_status?: Business['enrichment_status'] | 'all'
+  city?: string
   industry?: string
-  sortBy?: 'name' | 'created_at' | 'updated_at'
+  pipeline_stage?: PipelineStage | 'all'
+  // User id, or 'unassigned'
+  assigned_to?: string
+  tag_ids?: number[]
+  // 'any' (default) matches one of tag_ids, 'all' requires every tag
+  tag_match?: 'any' | 'all'
+  // false = no outreach sent yet
+  contacted?: boolean
+  sortBy?: LeadSortField
   sortOrder?: 'asc' | 'desc'
 }
 
@@ -26,8 +51,177 @@ export interface UpdateLeadInput extends Partial<CreateLeadInput> {
   id: string
 }
 
+export interface MoveLeadStageInput {
+  id: string
+  stage: PipelineStage
+  note?: string
+}
+
+export interface AssignLeadInput {
+  id: string
+  // null releases the lead
+  user_id: string | null
+}
+
+export interface ActivityFilters {
+  type?: ActivityType
+  page?: number
+  limit?: number
+}
+
+export interface AddLeadNoteInput {
+  businessId: number
+  body: string
+}
+
+export interface UpdateLeadNoteInput extends AddLeadNoteInput {
+  noteId: number
+}
+
+export interface LeadContactFields {
+  name?: string | null
+  title?: string | null
+  email?: string | null
+  email_verified?: boolean
+  phone?: string | null
+  linkedin_url?: string | null
+  // Clears the flag on the previous primary contact
+  is_primary?: boolean
+}
+
+export interface CreateLeadContactInput extends LeadContactFields {
+  businessId: number
+}
+
+export interface UpdateLeadContactInput extends LeadContactFields {
+  businessId: number
+  contactId: string
+}
+
+export type TaskStatus = 'open' | 'completed'
+
+export interface CreateLeadTaskInput {
+  businessId: number
+  title: string
+  description?: string
+  // ISO date-time
+  due_at: string
+  // Defaults to the current user
+  assigned_to?: string
+}
+
+export interface UpdateTaskInput {
+  id: number
+  title?: string
+  description?: string
+  due_at?: string
+  assigned_to?: string
+  completed?: boolean
+}
+
+// Page-numbered list as returned by the activity and task endpoints
+export interface PagedResult<T> {
+  data: T[]
+  meta: {
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+  }
+}
+
+// Soft-deleted business as listed in the trash
+export interface TrashedLead extends Business {
+  deleted_at: string
+  deleted_by: string | null
+  deleter: BusinessAssignee | null
+  // Earliest time the nightly purge removes it for good
+  purge_at: string
+}
+
+export interface TrashPage extends PagedResult<TrashedLead> {
+  meta: PagedResult<TrashedLead>['meta'] & { retentionDays: number }
+}
+
+export interface BulkActionFailure {
+  id: number
+  reason: string
+}
+
 export interface BulkActionResult {
+  action: 'delete' | 'enrich' | 'tag'
+  total: number
   success: number
   failed: number
-  errors?: string[]
+  failures: BulkActionFailure[]
+  // True when the backend handed the work to the job queue
+  queued: boolean
+  jobId?: string
+}
+
+export interface BulkTagInput {
+  ids: string[]
+  add?: string[]
+  remove?: string[]
+}
+
+// Either a cursor from the previous page or, for search results (which the
+// backend ranks by relevance and does not cursor), an explicit page number
+export interface LeadPageParam {
+  cursor?: string
+  page?: number
+}
+
+export interface Tag extends BusinessTag {
+  created_at: string
+  business_count: number
+}
+
+export interface CreateTagInput {
+  name: string
+  color?: string
+}
+
+export interface UpdateLeadTagsInput {
+  id: string
+  // Tag names; missing tags are created
+  add?: string[]
+  remove?: string[]
+}
+
+// Filter fields a segment can store (everything but search and sorting)
+export type SegmentFilter = Omit<LeadFilters, 'search' | 'sortBy' | 'sortOrder'>
+
+export interface Segment {
+  id: number
+  name: string
+  description: string | null
+  filter: SegmentFilter
+  created_by: string | null
+  creator: BusinessAssignee | null
+  // Businesses currently matching the filter
+  business_count: number
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateSegmentInput {
+  name: string
+  description?: string
+  filter: SegmentFilter
+}
+
+export type OutreachChannel = 'email' | 'linkedin' | 'sms'
+
+export interface SegmentOutreachInput {
+  segmentId: number
+  channel?: OutreachChannel
+}
+
+export interface OutreachBatchResult {
+  jobIds: string[]
+  queueName: string
+  totalBusinesses: number
+  status: string
+  message: string
 }
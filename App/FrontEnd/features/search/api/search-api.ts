@@ -1,5 +1,17 @@
 import { api } from '@/shared/lib/api'
-import type { ScrapeRequest, ScrapeJob, RecentSearch } from '../types'
+import type {
+  ScrapeRequest,
+  ScrapeJob,
+  ScrapeCancelResult,
+  RecentSearch,
+  ScrapeRun,
+  ScrapeSchedule,
+  CreateScrapeScheduleInput,
+  UpdateScrapeScheduleInput,
+  StagedScrapeResults,
+  ImportStagedResultsInput,
+  ImportStagedResultsResult,
+} from '../types'
 
 // Map Apify status to our internal status
 function normalizeStatus(
@@ -37,6 +49,13 @@ export async function startScrape(request: ScrapeRequest): Promise<ScrapeJob> {
       location: request.location,
       radius: request.radius,
       max_results: request.limit,
+      staged: request.staged,
+      min_reviews: request.min_reviews,
+      max_reviews: request.max_reviews,
+      min_rating: request.min_rating,
+      exclude_chains: request.exclude_chains,
+      exclude_keywords: request.exclude_keywords,
+      require_website: request.require_website,
     },
   })
 
@@ -50,6 +69,7 @@ export async function startScrape(request: ScrapeRequest): Promise<ScrapeJob> {
     total: request.limit || 100,
     found: 0,
     errors: 0,
+    staged: request.staged,
     started_at: new Date().toISOString(),
   }
 }
@@ -84,22 +104,69 @@ export async function getScrapeStatus(runId: string): Promise<ScrapeJob> {
 }
 
 /**
- * Cancel a scrape job (not supported by backend currently)
+ * Cancel a running scrape job; places found so far are kept
+ * DELETE /api/scrape/:runId
  */
-export async function cancelScrape(runId: string): Promise<void> {
-  // Backend doesn't support cancel - this is a placeholder
-  console.log('Cancel requested for:', runId)
+export async function cancelScrape(runId: string): Promise<ScrapeCancelResult> {
+  return api<ScrapeCancelResult>(`/api/scrape/${runId}`, { method: 'DELETE' })
 }
 
 /**
- * Fetch recent search history from jobs table
- * GET /api/jobs?type=scraping&limit=X
+ * Fetch the results of a staged scrape with their duplicate flags
+ * GET /api/scrape/:runId/staged
+ */
+export async function fetchStagedResults(runId: string): Promise<StagedScrapeResults> {
+  return api<StagedScrapeResults>(`/api/scrape/${runId}/staged`)
+}
+
+/**
+ * Import the chosen results of a staged scrape as leads
+ * POST /api/scrape/:runId/import
+ */
+export async function importStagedResults(
+  runId: string,
+  input: ImportStagedResultsInput
+): Promise<ImportStagedResultsResult> {
+  return api<ImportStagedResultsResult>(`/api/scrape/${runId}/import`, {
+    method: 'POST',
+    body: input,
+  })
+}
+
+/**
+ * Fetch recent search history from the scraping run history
+ * GET /api/scrape/runs?limit=X
  */
 export async function fetchRecentSearches(limit = 10): Promise<RecentSearch[]> {
-  const response = await api<{ data: RecentSearch[] }>(
-    `/api/jobs?type=scraping&limit=${limit}&orderBy=created_at&order=desc`
-  )
-  return response.data || []
+  const runs = await api<ScrapeRun[]>(`/api/scrape/runs?limit=${limit}`)
+
+  return runs.map((run) => ({
+    id: run.run_id,
+    runId: run.run_id,
+    query: run.business_type || run.search_query || '',
+    location: run.location,
+    result_count: run.businesses_found,
+    saved_count: run.businesses_saved,
+    status: normalizeRunStatus(run.status),
+    created_at: run.started_at,
+    completed_at: run.completed_at ?? undefined,
+    cost: run.cost,
+    cost_is_estimate: run.actual_cost === null,
+    cost_per_saved_lead: run.cost_per_saved_lead,
+  }))
+}
+
+// Map a scraping_job status to our internal status
+function normalizeRunStatus(status: ScrapeRun['status']): RecentSearch['status'] {
+  switch (status) {
+    case 'running':
+    case 'cancelling':
+      return 'running'
+    case 'failed':
+      return 'failed'
+    default:
+      return 'completed'
+  }
 }
 
 /**
@@ -112,3 +179,46 @@ export async function fetchActiveJobs(): Promise<ScrapeJob[]> {
   )
   return response.data || []
 }
+
+/**
+ * Fetch recurring scrape schedules with their latest run
+ * GET /api/scrape/schedules
+ */
+export async function fetchScrapeSchedules(): Promise<ScrapeSchedule[]> {
+  return api<ScrapeSchedule[]>('/api/scrape/schedules')
+}
+
+/**
+ * Create a recurring scrape schedule
+ * POST /api/scrape/schedules
+ */
+export async function createScrapeSchedule(
+  input: CreateScrapeScheduleInput
+): Promise<ScrapeSchedule> {
+  return api<ScrapeSchedule>('/api/scrape/schedules', {
+    method: 'POST',
+    body: input,
+  })
+}
+
+/**
+ * Edit, pause or resume a scrape schedule
+ * PATCH /api/scrape/schedules/:id
+ */
+export async function updateScrapeSchedule(
+  id: number,
+  input: UpdateScrapeScheduleInput
+): Promise<ScrapeSchedule> {
+  return api<ScrapeSchedule>(`/api/scrape/schedules/${id}`, {
+    method: 'PATCH',
+    body: input,
+  })
+}
+
+/**
+ * Delete a scrape schedule
+ * DELETE /api/scrape/schedules/:id
+ */
+export async function deleteScrapeSchedule(id: number): Promise<void> {
+  await api(`/api/scrape/schedules/${id}`, { method: 'DELETE' })
+}
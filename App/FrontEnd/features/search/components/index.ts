@@ -1,3 +1,5 @@
 export { SearchForm } from './search-form'
 export { ScrapeProgress } from './scrape-progress'
 export { RecentSearches } from './recent-searches'
+export { ScrapeSchedules } from './scrape-schedules'
+export { StagedResults } from './staged-results'
@@ -66,6 +66,16 @@ export function RecentSearches({ searches, isLoading, onRepeat }: RecentSearches
                   <Building2 className="h-3.5 w-3.5" />
                   <span>{search.result_count}</span>
                 </div>
+                {search.cost_per_saved_lead != null && (
+                  <span
+                    className="text-xs"
+                    title={`$${(search.cost ?? 0).toFixed(2)} for ${search.saved_count ?? 0} saved leads${
+                      search.cost_is_estimate ? ' (estimated)' : ''
+                    }`}
+                  >
+                    {search.cost_is_estimate && '~'}${search.cost_per_saved_lead.toFixed(3)}/lead
+                  </span>
+                )}
                 <span className="text-xs">
                   {formatDistanceToNow(new Date(search.created_at), { addSuffix: true })}
                 </span>
@@ -0,0 +1,285 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { CalendarClock, Pause, Play, Plus, Trash2, Building2 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { Card } from '@/shared/components/ui/card'
+import { Input } from '@/shared/components/ui/input'
+import { Label } from '@/shared/components/ui/label'
+import { Button } from '@/shared/components/ui/button'
+import { Badge } from '@/shared/components/ui/badge'
+import { Select } from '@/shared/components/ui/select'
+import { Skeleton } from '@/shared/components/ui/skeleton'
+import type { CreateScrapeScheduleInput, ScrapeSchedule } from '../types'
+
+const scheduleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  location: z.string().min(1, 'Location is required'),
+  business_type: z.string().optional(),
+  radius: z.number().min(1).max(50),
+  max_results: z.number().min(1).max(500),
+  cron: z.string().min(1, 'Cron expression is required'),
+})
+
+type ScheduleFormData = z.infer<typeof scheduleSchema>
+
+const radiusOptions = [
+  { value: '5', label: '5 miles' },
+  { value: '10', label: '10 miles' },
+  { value: '25', label: '25 miles' },
+  { value: '50', label: '50 miles' },
+]
+
+const maxResultsOptions = [
+  { value: '50', label: '50 results' },
+  { value: '100', label: '100 results' },
+  { value: '200', label: '200 results' },
+  { value: '500', label: '500 results' },
+]
+
+interface ScrapeSchedulesProps {
+  schedules: ScrapeSchedule[] | undefined
+  isLoading?: boolean
+  canManage?: boolean
+  isSaving?: boolean
+  onCreate?: (input: CreateScrapeScheduleInput) => Promise<unknown>
+  onToggle?: (schedule: ScrapeSchedule) => void
+  onDelete?: (schedule: ScrapeSchedule) => void
+}
+
+export function ScrapeSchedules({
+  schedules,
+  isLoading,
+  canManage,
+  isSaving,
+  onCreate,
+  onToggle,
+  onDelete,
+}: ScrapeSchedulesProps) {
+  const [isAdding, setIsAdding] = useState(false)
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ScheduleFormData>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: {
+      name: '',
+      location: '',
+      business_type: '',
+      radius: 10,
+      max_results: 50,
+      cron: '0 6 * * 1',
+    },
+  })
+
+  const handleFormSubmit = async (data: ScheduleFormData) => {
+    try {
+      await onCreate?.({
+        ...data,
+        business_type: data.business_type || undefined,
+      })
+      reset()
+      setIsAdding(false)
+    } catch (error) {
+      console.error('Failed to create scrape schedule:', error)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card variant="glass" className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Skeleton className="h-10 w-10 rounded-lg" />
+          <div className="space-y-2">
+            <Skeleton className="h-5 w-32" />
+            <Skeleton className="h-4 w-24" />
+          </div>
+        </div>
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-lg" />
+          ))}
+        </div>
+      </Card>
+    )
+  }
+
+  return (
+    <Card variant="glass" className="p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="h-10 w-10 rounded-lg bg-muted flex items-center justify-center">
+          <CalendarClock className="h-5 w-5 text-muted-foreground" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold text-foreground">Scheduled Scrapes</h2>
+          <p className="text-sm text-muted-foreground">
+            Recurring territory scrapes
+          </p>
+        </div>
+        {canManage && !isAdding && (
+          <Button variant="outline" size="sm" onClick={() => setIsAdding(true)}>
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <form
+          onSubmit={handleSubmit(handleFormSubmit)}
+          className="space-y-3 p-3 mb-4 bg-muted/50 rounded-lg"
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                placeholder="e.g., Route 9 plumbers"
+                {...register('name')}
+                error={errors.name?.message}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-business-type">Business Type</Label>
+              <Input
+                id="schedule-business-type"
+                placeholder="e.g., plumber"
+                {...register('business_type')}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-location">Location</Label>
+            <Input
+              id="schedule-location"
+              placeholder="e.g., Freehold, NJ"
+              {...register('location')}
+              error={errors.location?.message}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-radius">Radius</Label>
+              <Select
+                id="schedule-radius"
+                {...register('radius', { valueAsNumber: true })}
+                options={radiusOptions}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-max-results">Max Results</Label>
+              <Select
+                id="schedule-max-results"
+                {...register('max_results', { valueAsNumber: true })}
+                options={maxResultsOptions}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-cron">Cron</Label>
+              <Input
+                id="schedule-cron"
+                placeholder="0 6 * * 1"
+                className="font-mono"
+                {...register('cron')}
+                error={errors.cron?.message}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                reset()
+                setIsAdding(false)
+              }}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" isLoading={isSaving} disabled={isSaving}>
+              Save Schedule
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {schedules && schedules.length > 0 ? (
+        <div className="space-y-2">
+          {schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-foreground truncate">{schedule.name}</p>
+                  {!schedule.enabled && <Badge variant="secondary">Paused</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {schedule.business_type ?? 'All businesses'} · {schedule.location} ·{' '}
+                  <span className="font-mono">{schedule.cron}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {schedule.next_run_at
+                    ? `Next run ${formatDistanceToNow(new Date(schedule.next_run_at), { addSuffix: true })}`
+                    : 'Not scheduled'}
+                </p>
+              </div>
+              <div className="text-right text-sm">
+                {schedule.last_run ? (
+                  <>
+                    <div className="flex items-center justify-end gap-1 text-foreground">
+                      <Building2 className="h-3.5 w-3.5" />
+                      <span>{schedule.last_run.new_businesses} new</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.last_run.status === 'running' ||
+                      schedule.last_run.status === 'cancelling'
+                        ? 'Running now'
+                        : `Last run ${formatDistanceToNow(new Date(schedule.last_run.started_at), { addSuffix: true })}`}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No runs yet</p>
+                )}
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onToggle?.(schedule)}
+                    aria-label={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                  >
+                    {schedule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDelete?.(schedule)}
+                    aria-label="Delete schedule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        !isAdding && (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarClock className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No scheduled scrapes</p>
+          </div>
+        )
+      )}
+    </Card>
+  )
+}
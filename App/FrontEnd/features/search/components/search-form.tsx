@@ -16,10 +16,26 @@ const searchSchema = z.object({
   location: z.string().min(1, 'Location is required'),
   radius: z.number().min(1).max(50).optional(),
   limit: z.number().min(10).max(500).optional(),
+  staged: z.boolean().optional(),
+  min_reviews: z.number().int().min(0).optional(),
+  max_reviews: z.number().int().min(0).optional(),
+  min_rating: z.number().min(1).max(5).optional(),
+  exclude_chains: z.string().optional(),
+  exclude_keywords: z.string().optional(),
+  require_website: z.boolean().optional(),
 })
 
 type SearchFormData = z.infer<typeof searchSchema>
 
+// Empty number inputs mean "no filter"
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value))
+
+// Comma-separated list; empty means "use the default"
+const splitList = (value?: string) => {
+  const items = (value ?? '').split(',').map((item) => item.trim()).filter(Boolean)
+  return items.length > 0 ? items : undefined
+}
+
 interface SearchFormProps {
   onSubmit: (data: ScrapeRequest) => void
   isLoading?: boolean
@@ -38,6 +54,8 @@ export function SearchForm({ onSubmit, isLoading, isDisabled }: SearchFormProps)
       location: '',
       radius: 10,
       limit: 100,
+      staged: false,
+      require_website: false,
     },
   })
 
@@ -47,6 +65,13 @@ export function SearchForm({ onSubmit, isLoading, isDisabled }: SearchFormProps)
       location: data.location,
       radius: data.radius,
       limit: data.limit,
+      staged: data.staged,
+      min_reviews: data.min_reviews,
+      max_reviews: data.max_reviews,
+      min_rating: data.min_rating,
+      exclude_chains: splitList(data.exclude_chains),
+      exclude_keywords: splitList(data.exclude_keywords),
+      require_website: data.require_website,
     })
   }
 
@@ -126,6 +151,88 @@ export function SearchForm({ onSubmit, isLoading, isDisabled }: SearchFormProps)
           </div>
         </div>
 
+        <label className="flex items-start gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-0.5 h-4 w-4 rounded border-border bg-background"
+            {...register('staged')}
+          />
+          <span>
+            <span className="text-foreground">Review results before importing</span>
+            <span className="block text-xs text-muted-foreground">
+              Pick which places become leads, leaving out chains, closed places and duplicates
+            </span>
+          </span>
+        </label>
+
+        <details className="rounded-lg border border-border p-3 text-sm">
+          <summary className="cursor-pointer text-foreground">Quality filters</summary>
+          <div className="mt-3 space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="min_reviews">Min reviews</Label>
+                <Input
+                  id="min_reviews"
+                  type="number"
+                  min={0}
+                  {...register('min_reviews', { setValueAs: optionalNumber })}
+                  error={errors.min_reviews?.message}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="max_reviews">Max reviews</Label>
+                <Input
+                  id="max_reviews"
+                  type="number"
+                  min={0}
+                  placeholder="e.g., 1500"
+                  {...register('max_reviews', { setValueAs: optionalNumber })}
+                  error={errors.max_reviews?.message}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="min_rating">Min rating</Label>
+                <Input
+                  id="min_rating"
+                  type="number"
+                  min={1}
+                  max={5}
+                  step={0.1}
+                  {...register('min_rating', { setValueAs: optionalNumber })}
+                  error={errors.min_rating?.message}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="exclude_chains">Exclude chains</Label>
+              <Input
+                id="exclude_chains"
+                placeholder="e.g., Home Depot, State Farm (blank: default list)"
+                {...register('exclude_chains')}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="exclude_keywords">Exclude names containing</Label>
+              <Input
+                id="exclude_keywords"
+                placeholder="e.g., franchise, outlet"
+                {...register('exclude_keywords')}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-border bg-background"
+                {...register('require_website')}
+              />
+              <span className="text-foreground">Only businesses with a website</span>
+            </label>
+          </div>
+        </details>
+
         <Button
           type="submit"
           className="w-full"
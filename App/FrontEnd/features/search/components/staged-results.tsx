@@ -0,0 +1,214 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { ClipboardCheck, Loader2, Star } from 'lucide-react'
+import { Card } from '@/shared/components/ui/card'
+import { Button } from '@/shared/components/ui/button'
+import { Badge } from '@/shared/components/ui/badge'
+import { Skeleton } from '@/shared/components/ui/skeleton'
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell,
+} from '@/shared/components/ui/table'
+import type {
+  ImportStagedResultsInput,
+  StagedScrapeResult,
+  StagedScrapeResults,
+} from '../types'
+
+const duplicateLabels: Record<NonNullable<StagedScrapeResult['duplicate']>['kind'], string> = {
+  same_place: 'Already a lead',
+  likely: 'Likely duplicate',
+  possible: 'Possible duplicate',
+}
+
+// Pre-select the results that look like new, open businesses
+function isClean(result: StagedScrapeResult) {
+  return result.status === 'pending' && !result.duplicate && !result.permanently_closed
+}
+
+interface StagedResultsProps {
+  data: StagedScrapeResults | undefined
+  isLoading?: boolean
+  canImport?: boolean
+  isImporting?: boolean
+  onImport?: (input: ImportStagedResultsInput) => void
+}
+
+export function StagedResults({
+  data,
+  isLoading,
+  canImport,
+  isImporting,
+  onImport,
+}: StagedResultsProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+
+  const pending = useMemo(
+    () => data?.results.filter((result) => result.status === 'pending') ?? [],
+    [data]
+  )
+
+  useEffect(() => {
+    setSelected(new Set(data?.results.filter(isClean).map((result) => result.id)))
+  }, [data])
+
+  const isStaging = data?.status === 'running' || data?.status === 'cancelling'
+
+  if (isLoading || !data || isStaging) {
+    return (
+      <Card variant="glass" className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Skeleton className="h-10 w-10 rounded-lg" />
+          <div className="space-y-2">
+            <Skeleton className="h-5 w-32" />
+            <Skeleton className="h-4 w-48" />
+          </div>
+        </div>
+        {isStaging && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Preparing results for review...</span>
+          </div>
+        )}
+      </Card>
+    )
+  }
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  const allSelected = pending.length > 0 && pending.every((result) => selected.has(result.id))
+
+  const handleImport = () => {
+    onImport?.({ result_ids: [...selected], discard_remaining: true })
+  }
+
+  return (
+    <Card variant="glass" className="p-6">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Review Results</h2>
+            <p className="text-sm text-muted-foreground">
+              {pending.length} to review · {data.counts.imported} imported ·{' '}
+              {data.counts.discarded} discarded
+            </p>
+          </div>
+        </div>
+        {canImport && pending.length > 0 && (
+          <Button size="sm" onClick={handleImport} isLoading={isImporting} disabled={isImporting}>
+            {selected.size > 0 ? `Import ${selected.size}, discard rest` : 'Discard all'}
+          </Button>
+        )}
+      </div>
+
+      {data.results.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8">
+                {canImport && pending.length > 0 && (
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={(e) =>
+                      setSelected(
+                        e.target.checked ? new Set(pending.map((result) => result.id)) : new Set()
+                      )
+                    }
+                    aria-label="Select all results"
+                    className="h-4 w-4 rounded border-border bg-background"
+                  />
+                )}
+              </TableHead>
+              <TableHead>Business</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Rating</TableHead>
+              <TableHead>Flags</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.results.map((result) => (
+              <TableRow
+                key={result.id}
+                className={result.status === 'pending' ? undefined : 'opacity-50'}
+              >
+                <TableCell>
+                  {canImport && result.status === 'pending' && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(result.id)}
+                      onChange={(e) => toggle(result.id, e.target.checked)}
+                      aria-label={`Select ${result.name}`}
+                      className="h-4 w-4 rounded border-border bg-background"
+                    />
+                  )}
+                </TableCell>
+                <TableCell>
+                  <p className="font-medium text-foreground">{result.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {result.address ?? result.city ?? 'No address'}
+                  </p>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {result.business_type ?? '—'}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {result.rating !== null ? (
+                    <span className="inline-flex items-center gap-1">
+                      <Star className="h-3.5 w-3.5 text-amber-400" />
+                      {result.rating.toFixed(1)}
+                      <span className="text-xs text-muted-foreground">
+                        ({result.review_count ?? 0})
+                      </span>
+                    </span>
+                  ) : (
+                    '—'
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {result.status === 'imported' && <Badge variant="success">Imported</Badge>}
+                    {result.status === 'discarded' && <Badge variant="secondary">Discarded</Badge>}
+                    {result.duplicate && (
+                      <Badge
+                        variant={result.duplicate.kind === 'possible' ? 'warning' : 'failed'}
+                        title={
+                          result.duplicate.business
+                            ? `Matches ${result.duplicate.business.name}`
+                            : undefined
+                        }
+                      >
+                        {duplicateLabels[result.duplicate.kind]}
+                      </Badge>
+                    )}
+                    {result.permanently_closed && <Badge variant="failed">Closed</Badge>}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          <ClipboardCheck className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">The search returned no new places</p>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -7,14 +7,29 @@ import {
   cancelScrape,
   fetchRecentSearches,
   fetchActiveJobs,
+  fetchScrapeSchedules,
+  createScrapeSchedule,
+  updateScrapeSchedule,
+  deleteScrapeSchedule,
+  fetchStagedResults,
+  importStagedResults,
 } from '../api/search-api'
-import type { ScrapeRequest, ScrapeJob, ScrapeProgress } from '../types'
+import type {
+  ScrapeRequest,
+  ScrapeJob,
+  ScrapeProgress,
+  CreateScrapeScheduleInput,
+  UpdateScrapeScheduleInput,
+  ImportStagedResultsInput,
+} from '../types'
 
 export const searchKeys = {
   all: ['search'] as const,
   recentSearches: () => [...searchKeys.all, 'recent'] as const,
   activeJobs: () => [...searchKeys.all, 'active'] as const,
   job: (id: string) => [...searchKeys.all, 'job', id] as const,
+  schedules: () => [...searchKeys.all, 'schedules'] as const,
+  staged: (runId: string) => [...searchKeys.all, 'staged', runId] as const,
 }
 
 export function useRecentSearches(limit = 10) {
@@ -64,8 +79,81 @@ export function useCancelScrape() {
 
   return useMutation({
     mutationFn: (jobId: string) => cancelScrape(jobId),
-    onSuccess: () => {
+    onSuccess: (_, jobId) => {
       queryClient.invalidateQueries({ queryKey: searchKeys.activeJobs() })
+      queryClient.invalidateQueries({ queryKey: searchKeys.job(jobId) })
+      queryClient.invalidateQueries({ queryKey: searchKeys.recentSearches() })
+      // Places found before the cancel are saved as leads
+      queryClient.invalidateQueries({ queryKey: ['leads'] })
+    },
+  })
+}
+
+export function useScrapeSchedules() {
+  return useQuery({
+    queryKey: searchKeys.schedules(),
+    queryFn: fetchScrapeSchedules,
+    refetchInterval: 60000, // Pick up runs started by the scheduler
+  })
+}
+
+export function useCreateScrapeSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateScrapeScheduleInput) => createScrapeSchedule(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: searchKeys.schedules() })
+    },
+  })
+}
+
+export function useUpdateScrapeSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: number; input: UpdateScrapeScheduleInput }) =>
+      updateScrapeSchedule(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: searchKeys.schedules() })
+    },
+  })
+}
+
+export function useDeleteScrapeSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => deleteScrapeSchedule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: searchKeys.schedules() })
+    },
+  })
+}
+
+export function useStagedResults(runId: string | null) {
+  return useQuery({
+    queryKey: searchKeys.staged(runId || ''),
+    queryFn: () => fetchStagedResults(runId!),
+    enabled: !!runId,
+    refetchInterval: (query) => {
+      // The worker stages the results shortly after the run finishes
+      const status = query.state.data?.status
+      return status === 'running' || status === 'cancelling' ? 3000 : false
+    },
+  })
+}
+
+export function useImportStagedResults() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ runId, input }: { runId: string; input: ImportStagedResultsInput }) =>
+      importStagedResults(runId, input),
+    onSuccess: (_, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: searchKeys.staged(runId) })
+      queryClient.invalidateQueries({ queryKey: searchKeys.recentSearches() })
+      queryClient.invalidateQueries({ queryKey: ['leads'] })
     },
   })
 }
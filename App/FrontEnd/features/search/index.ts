@@ -3,7 +3,17 @@ export type {
   ScrapeRequest,
   ScrapeJob,
   ScrapeProgress,
+  ScrapeCancelResult,
   RecentSearch,
+  ScrapeRun,
+  ScrapeSchedule,
+  ScrapeScheduleRun,
+  CreateScrapeScheduleInput,
+  UpdateScrapeScheduleInput,
+  StagedScrapeResult,
+  StagedScrapeResults,
+  ImportStagedResultsInput,
+  ImportStagedResultsResult,
 } from './types'
 
 // Hooks
@@ -14,6 +24,12 @@ export {
   useStartScrape,
   useCancelScrape,
   useScrapeProgress,
+  useScrapeSchedules,
+  useCreateScrapeSchedule,
+  useUpdateScrapeSchedule,
+  useDeleteScrapeSchedule,
+  useStagedResults,
+  useImportStagedResults,
   searchKeys,
 } from './hooks/use-search'
 
@@ -22,4 +38,6 @@ export {
   SearchForm,
   ScrapeProgress as ScrapeProgressCard,
   RecentSearches,
+  ScrapeSchedules,
+  StagedResults,
 } from './components'
@@ -5,6 +5,15 @@ export interface ScrapeRequest {
   location: string
   radius?: number
   limit?: number
+  // Hold results for review instead of saving them as leads
+  staged?: boolean
+  // Quality filters; places failing one are skipped
+  min_reviews?: number
+  max_reviews?: number
+  min_rating?: number
+  exclude_chains?: string[]
+  exclude_keywords?: string[]
+  require_website?: boolean
 }
 
 export interface ScrapeJob {
@@ -17,6 +26,7 @@ export interface ScrapeJob {
   total: number
   found: number
   errors: number
+  staged?: boolean
   started_at: string
   completed_at?: string
 }
@@ -32,6 +42,15 @@ export interface ScrapeStatus {
   cost?: number
 }
 
+// Partial results recorded when a scrape is cancelled
+export interface ScrapeCancelResult {
+  success: boolean
+  runId: string
+  found: number
+  saved: number
+  skipped: number
+}
+
 export interface ScrapeProgress {
   jobId: string
   runId: string
@@ -49,7 +68,112 @@ export interface RecentSearch {
   query: string
   location: string
   result_count: number
+  saved_count?: number
   status: 'pending' | 'running' | 'completed' | 'failed'
   created_at: string
   completed_at?: string
+  // Provider-reported cost, or the estimate when the provider reported none
+  cost?: number
+  cost_is_estimate?: boolean
+  cost_per_saved_lead?: number | null
+}
+
+// A scraping run from the run history, with its cost
+export interface ScrapeRun {
+  run_id: string
+  search_query: string | null
+  location: string
+  business_type: string | null
+  status: 'running' | 'cancelling' | 'completed' | 'aborted' | 'failed'
+  staged: boolean
+  started_at: string
+  completed_at: string | null
+  businesses_found: number
+  businesses_saved: number
+  cost: number
+  estimated_cost: number | null
+  actual_cost: number | null
+  compute_units: number | null
+  dataset_items: number | null
+  cost_per_saved_lead: number | null
+}
+
+// Outcome of the latest run started by a scrape schedule
+export interface ScrapeScheduleRun {
+  run_id: string
+  status: 'running' | 'cancelling' | 'completed' | 'aborted' | 'failed'
+  started_at: string
+  completed_at: string | null
+  businesses_found: number
+  new_businesses: number
+}
+
+export interface ScrapeSchedule {
+  id: number
+  name: string
+  location: string
+  radius: number
+  business_type: string | null
+  max_results: number
+  cron: string
+  enabled: boolean
+  last_run_at: string | null
+  next_run_at: string | null
+  last_run: ScrapeScheduleRun | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateScrapeScheduleInput {
+  name: string
+  location: string
+  radius?: number
+  business_type?: string
+  max_results?: number
+  cron: string
+  enabled?: boolean
+}
+
+export type UpdateScrapeScheduleInput = Partial<CreateScrapeScheduleInput>
+
+// A place from a staged run, waiting to be imported or discarded
+export interface StagedScrapeResult {
+  id: number
+  status: 'pending' | 'imported' | 'discarded'
+  business_id: number | null
+  name: string
+  address: string | null
+  city: string | null
+  phone: string | null
+  website: string | null
+  business_type: string | null
+  rating: number | null
+  review_count: number | null
+  permanently_closed: boolean
+  google_maps_url: string | null
+  duplicate: {
+    kind: 'same_place' | 'likely' | 'possible'
+    score: number | null
+    business: { id: number; name: string; city: string | null } | null
+  } | null
+}
+
+export interface StagedScrapeResults {
+  runId: string
+  status: ScrapeScheduleRun['status']
+  counts: Record<StagedScrapeResult['status'], number>
+  results: StagedScrapeResult[]
+}
+
+export interface ImportStagedResultsInput {
+  result_ids: number[]
+  discard_remaining?: boolean
+}
+
+export interface ImportStagedResultsResult {
+  runId: string
+  imported: number
+  skipped: number
+  discarded: number
+  errors: Array<{ business: string; error: string }>
 }
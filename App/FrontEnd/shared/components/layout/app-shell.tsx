@@ -4,6 +4,7 @@ import * as React from 'react'
 import { Sidebar } from './sidebar'
 import { Header } from './header'
 import { AuthGuard } from '@/features/auth'
+import { TaskReminders } from '@/features/leads'
 
 interface AppShellProps {
   children: React.ReactNode
@@ -30,5 +31,10 @@ export function AppShell({ children, title, public: isPublic }: AppShellProps) {
     return shell
   }
 
-  return <AuthGuard>{shell}</AuthGuard>
+  return (
+    <AuthGuard>
+      {shell}
+      <TaskReminders />
+    </AuthGuard>
+  )
 }
@@ -10,16 +10,19 @@ import {
   Search,
   Sparkles,
   MessageSquare,
+  ListTodo,
   Settings,
   Menu,
   X,
 } from 'lucide-react'
 import { cn } from '@/shared/lib/utils'
 import { useAuth } from '@/features/auth'
+import { SidebarSegments } from '@/features/leads'
 
 const allNavItems: Array<{ href: string; label: string; icon: React.ElementType }> = [
   { href: '/', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/leads', label: 'Leads', icon: Users },
+  { href: '/tasks', label: 'My Tasks', icon: ListTodo },
   { href: '/search', label: 'Search', icon: Search },
   { href: '/enrichment', label: 'Enrichment', icon: Sparkles },
   { href: '/outreach', label: 'Outreach', icon: MessageSquare },
@@ -139,6 +142,9 @@ export function Sidebar({ open, onOpenChange }: SidebarProps) {
               })}
             </nav>
 
+            {/* Saved segments */}
+            <SidebarSegments />
+
             {/* Footer */}
             <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-border">
               {user?.role === 'ADMIN' && (
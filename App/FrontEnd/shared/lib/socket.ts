@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client'
-import type { Business } from '@/shared/types'
+import type { Business, BusinessActivity, BusinessTask, TaskReminder } from '@/shared/types'
 import { getAccessToken } from './api'
 
 const SOCKET_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3031'
@@ -8,7 +8,13 @@ const SOCKET_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3031'
 export type WebSocketEvents = {
   // Business events
   'business:created': Business
+  'business:updated': Business
   'business:enriched': Business
+  'business:activity': BusinessActivity
+
+  // Task events (sent only to the assignee)
+  'task:assigned': BusinessTask
+  'task:reminder': TaskReminder
 
   // Stats events
   'stats:updated': Record<string, unknown>
@@ -29,13 +35,23 @@ export type WebSocketEvents = {
   }
   'scraping:completed': {
     runId: string
-    totalFound: number
-    datasetId: string
+    found: number
+    saved: number
+    skipped: number
+    // Skipped places per reason, e.g. { chain: 3, closed: 1 }
+    skipReasons?: Record<string, number>
+    staged?: number
   }
   'scraping:failed': {
     runId: string
     error: string
   }
+  'scraping:cancelled': {
+    runId: string
+    found: number
+    saved: number
+    skipped: number
+  }
 
   // Enrichment events
   'enrichment:progress': {
@@ -1,5 +1,14 @@
 // Shared type definitions that mirror backend entities
 
+// Where a field's value came from: an enrichment provider or a member
+export interface FieldProvenance {
+  source: string // provider name, or 'manual'
+  confidence: number | null // 0-1, null when the provider doesn't report one
+  updated_at: string
+}
+
+export type FieldSources = Record<string, FieldProvenance>
+
 export interface Business {
   id: string
   name: string
@@ -13,8 +22,63 @@ export interface Business {
   industry: string | null
   employee_count: number | null
   year_founded: number | null
+  // Google Maps place details, refreshed by scrapes
+  google_maps_url?: string | null
+  google_place_id?: string | null
+  rating?: number | null
+  review_count?: number | null
+  price_level?: string | null
+  permanently_closed?: boolean
+  additional_categories?: string[]
+  // Found on the business's own website by enrichment
+  facebook_url?: string | null
+  instagram_url?: string | null
+  linkedin_url?: string | null
+  opening_hours?: string | null
+  field_sources?: FieldSources
   created_at: string
   updated_at: string
+  // Maintained by the database for sorting
+  contact_count?: number
+  last_outreach_at?: string | null
+  // Membership pipeline and ownership
+  pipeline_stage?: PipelineStage
+  stage_changed_at?: string | null
+  assigned_to?: string | null
+  assignee?: BusinessAssignee | null
+  // User-defined tags, alphabetical
+  tags?: { tag: BusinessTag }[]
+  // Present only on search results
+  search_rank?: number
+  highlights?: SearchHighlight[]
+}
+
+export type PipelineStage =
+  | 'prospect'
+  | 'contacted'
+  | 'visited_meeting'
+  | 'applied'
+  | 'member'
+  | 'lost'
+
+export interface BusinessTag {
+  id: number
+  name: string
+  // Hex color like #2563eb
+  color: string | null
+}
+
+export interface BusinessAssignee {
+  id: string
+  name: string | null
+  email: string
+}
+
+// [start, end) character offsets into `value`
+export interface SearchHighlight {
+  field: string
+  value: string
+  ranges: [number, number][]
 }
 
 export interface Contact {
@@ -27,6 +91,7 @@ export interface Contact {
   phone: string | null
   linkedin_url: string | null
   is_primary: boolean
+  field_sources?: FieldSources
   created_at: string
 }
 
@@ -48,6 +113,54 @@ export interface OutreachMessage {
   created_at: string
 }
 
+// Timeline entry on a business: user notes plus automatic entries
+export type ActivityType =
+  | 'note'
+  | 'enrichment'
+  | 'outreach'
+  | 'email'
+  | 'stage_change'
+  | 'task'
+
+export interface BusinessActivity {
+  id: number
+  business_id: number
+  type: ActivityType
+  body: string | null
+  metadata: Record<string, unknown> | null
+  // null for system entries
+  created_by: string | null
+  author: BusinessAssignee | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BusinessTask {
+  id: number
+  business_id: number
+  title: string
+  description: string | null
+  due_at: string
+  assigned_to: string
+  created_by: string | null
+  completed_at: string | null
+  reminded_at: string | null
+  business: { id: number; name: string }
+  assignee: BusinessAssignee
+  creator: BusinessAssignee | null
+  created_at: string
+  updated_at: string
+}
+
+// Sent to the assignee's user room when a task falls due
+export interface TaskReminder {
+  taskId: number
+  title: string
+  dueAt: string
+  business: { id: number; name: string }
+  timestamp: string
+}
+
 // API Response types
 export interface PaginatedResponse<T> {
   data: T[]
@@ -56,6 +169,21 @@ export interface PaginatedResponse<T> {
   pageSize: number
 }
 
+// List response as returned by the backend; nextCursor continues the list
+// with keyset pagination, which is stable while new rows are inserted
+export interface CursorPaginatedResponse<T> {
+  data: T[]
+  meta: {
+    total: number
+    limit: number
+    page?: number
+    totalPages?: number
+    nextCursor: string | null
+    // Search only: more businesses matched than the backend ranks
+    truncated?: boolean
+  }
+}
+
 // WebSocket event types
 export type WebSocketEvent =
   | 'business:created'
@@ -65,3 +193,6 @@ export type WebSocketEvent =
   | 'enrichment:failed'
   | 'scrape:progress'
   | 'scrape:completed'
+  | 'business:activity'
+  | 'task:assigned'
+  | 'task:reminder'